@@ -128,7 +128,8 @@ export async function notifyTenantOfLawUpdate(
   tenantEmail: string,
   updateTitle: string,
   updateBrief: string,
-  attachmentBase64?: string
+  attachmentBase64?: string,
+  attachmentFilename: string = 'Law-Update.pdf'
 ) {
   const resend = getResendClient();
 
@@ -141,7 +142,7 @@ export async function notifyTenantOfLawUpdate(
         text: `Important Legislative Update:\n\n${updateBrief}\n\nPlease find the attached information sheet for detailed guidance on how these changes affect your tenancy.`,
         attachments: attachmentBase64 ? [
           {
-            filename: 'Renters-Rights-Act-Information-Sheet.pdf',
+            filename: attachmentFilename,
             content: attachmentBase64,
           }
         ] : []
@@ -163,3 +164,33 @@ export async function notifyTenantOfLawUpdate(
   console.log(`Attachment Provided: ${!!attachmentBase64}`);
   return { success: true, provider: 'console' };
 }
+
+export async function notifyTenantOfHazardSummary(
+  tenantEmail: string,
+  propertyAddress: string,
+  hazardLabel: string,
+  summary: string
+) {
+  const resend = getResendClient();
+  if (resend) {
+    try {
+      const { data, error } = await resend.emails.send({
+        from: SENDER_EMAIL,
+        to: tenantEmail.trim().toLowerCase(),
+        subject: `Investigation Summary: ${hazardLabel} at ${propertyAddress}`,
+        text: `Your landlord has investigated the ${hazardLabel.toLowerCase()} reported at ${propertyAddress}.\n\n${summary}\n\nPlease keep this summary for your records and reply to your landlord if anything changes.`
+      });
+      if (!error) return { success: true, provider: 'resend', id: data?.id };
+
+      console.warn(`[Resend API Error] ${error.message}. Falling back to simulation.`);
+    } catch (error: any) {
+        console.warn(`[Resend Exception] ${error.message}. Falling back to simulation.`);
+    }
+  }
+
+  console.log('--- EMAIL SIMULATION ---');
+  console.log(`Type: Hazard Investigation Summary`);
+  console.log(`To: ${tenantEmail}`);
+  console.log(`From: ${SENDER_EMAIL}`);
+  return { success: true, provider: 'console' };
+}
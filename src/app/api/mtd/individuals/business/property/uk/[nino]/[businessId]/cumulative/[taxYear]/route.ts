@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { validateCumulativeSummary } from '@/lib/mtd-quarterly';
+
+/**
+ * Local stand-in for the HMRC Property Business API "Create or Amend a UK Property
+ * Cumulative Period Summary" endpoint. Validates the payload with the same error
+ * codes HMRC returns but stores nothing and never contacts HMRC.
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ nino: string; businessId: string; taxYear: string }> }
+) {
+  const { nino, businessId, taxYear } = await params;
+  const errors: { code: string; message: string; path?: string }[] = [];
+
+  if (!/^[A-CEGHJ-PR-TW-Z]{2}\d{6}[A-D]$/i.test(nino)) errors.push({ code: 'FORMAT_NINO', message: 'The provided NINO is invalid' });
+  if (!/^X[A-Z0-9]IS\d{11}$/i.test(businessId)) errors.push({ code: 'FORMAT_BUSINESS_ID', message: 'The provided Business ID is invalid' });
+
+  const yearMatch = taxYear.match(/^(\d{4})-(\d{2})$/);
+  if (!yearMatch || (Number(yearMatch[1]) + 1) % 100 !== Number(yearMatch[2])) {
+    errors.push({ code: 'FORMAT_TAX_YEAR', message: 'The provided tax year is invalid' });
+  } else if (Number(yearMatch[1]) < 2025) {
+    errors.push({ code: 'RULE_TAX_YEAR_NOT_SUPPORTED', message: 'The tax year specified does not lie within the supported range' });
+  }
+
+  let body: any = null;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  errors.push(...validateCumulativeSummary(body));
+
+  if (errors.length === 1) return NextResponse.json(errors[0], { status: 400 });
+  if (errors.length > 1) return NextResponse.json({ code: 'INVALID_REQUEST', message: 'Invalid request', errors }, { status: 400 });
+
+  return new NextResponse(null, { status: 204, headers: { 'X-CorrelationId': crypto.randomUUID() } });
+}
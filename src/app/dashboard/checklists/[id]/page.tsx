@@ -9,13 +9,7 @@ import { ArrowLeft, Loader2, Calendar as CalendarIcon, User, Home, Edit, AlertCi
 import { format } from 'date-fns';
 import { useDoc, useFirestore, useMemoFirebase, useUser } from '@/firebase';
 import { doc } from 'firebase/firestore';
-
-const sections = {
-    beforeTenancy: { title: 'Before Tenancy Starts (Legal)', fields: [ { key: 'howToRentGuide', label: 'How to Rent Guide' }, { key: 'epc', label: 'Energy Performance Certificate' }, { key: 'gasSafety', label: 'Gas Safety Certificate' }, { key: 'eicr', label: 'Electrical Safety Report' }, { key: 'tenancyAgreement', label: 'Signed Tenancy Agreement' }, { key: 'rightToRent', label: 'Right to Rent check' } ]},
-    deposit: { title: 'If Taking a Deposit', fields: [ { key: 'prescribedInfo', label: 'Deposit Prescribed Information' }, { key: 'schemeLeaflet', label: 'Deposit Scheme Leaflet' }, { key: 'protectionCertificate', label: 'Deposit protection certificate' } ]},
-    atMoveIn: { title: 'At / Just After Move-In', fields: [ { key: 'inventory', label: 'Inventory & Schedule of Condition' }, { key: 'keysRecord', label: 'Keys issued record' }, { key: 'emergencyContacts', label: 'Emergency & repairs contact details' }, { key: 'privacyNotice', label: 'Privacy Notice (GDPR)' } ]},
-    optional: { title: 'Optional but Smart', fields: [ { key: 'welcomeLetter', label: 'Welcome letter' }, { key: 'applianceManuals', label: 'Appliance manuals' }, { key: 'binInfo', label: 'Bin & recycling info' }, { key: 'parkingInfo', label: 'Parking / permit info' } ]},
-}
+import { tenancyChecklistSections as sections } from '@/lib/checklist-sections';
 
 // A robust function to handle various date formats
 function safeCreateDate(dateValue: any): Date | null {
@@ -42,6 +42,7 @@ import {
 } from '@/firebase';
 import { doc, updateDoc } from 'firebase/firestore';
 import { uploadPropertyDocument } from '@/lib/upload-document';
+import { DOCUMENT_TYPES } from '@/lib/document-types';
 import { Checkbox } from '@/components/ui/checkbox';
 
 const documentSchema = z.object({
@@ -197,7 +198,7 @@ export default function EditDocumentPage() {
                   <Select key={selectKey} onValueChange={(val) => { field.onChange(val); localStorage.setItem('last_doc_type', val); }} value={field.value}>
                     <FormControl><SelectTrigger className="h-12 bg-muted/5 border-2 rounded-xl focus:bg-background"><SelectValue placeholder="Select type" /></SelectTrigger></FormControl>
                     <SelectContent className="rounded-xl">
-                      {['Tenancy Agreement', 'Inventory', 'Gas Safety Certificate', 'Electrical Certificate', 'EPC', 'Insurance', 'Deposit Protection', 'Licence', 'Correspondence', 'Invoice'].map(type => <SelectItem key={type} value={type} className="rounded-lg">{type}</SelectItem>)}
+                      {DOCUMENT_TYPES.map(type => <SelectItem key={type} value={type} className="rounded-lg">{type}</SelectItem>)}
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -0,0 +1,204 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, ArrowLeft, Edit, ExternalLink, FileUp, History, ShieldCheck, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  useUser,
+  useFirestore,
+  useDoc,
+  useCollection,
+  useMemoFirebase,
+} from '@/firebase';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { safeToDate } from '@/lib/date-utils';
+import { cn } from '@/lib/utils';
+import { isVersionedType, versionHistory, type DocumentVersionFields } from '@/lib/document-versions';
+import { DocumentServiceLog } from '@/components/dashboard/document-service-log';
+import { EicrResultsCard } from '@/components/dashboard/eicr-results';
+import type { EicrResults } from '@/lib/eicr';
+
+interface DocumentRecord extends DocumentVersionFields {
+  id: string;
+  title: string;
+  propertyId: string;
+  documentType: string;
+  issueDate: any;
+  expiryDate: any;
+  createdDate?: string;
+  notes?: string;
+  certificateNumber?: string;
+  engineerName?: string;
+  registrationNumber?: string;
+  eicr?: EicrResults;
+  fileUrl?: string;
+  sharedWithTenant?: boolean;
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+export default function DocumentDetailPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const { user } = useUser();
+  const firestore = useFirestore();
+
+  const docRef = useMemoFirebase(() => {
+    if (!firestore || !user || !id) return null;
+    return doc(firestore, 'documents', id);
+  }, [firestore, user, id]);
+  const { data: documentRecord, isLoading } = useDoc<DocumentRecord>(docRef);
+
+  const propertyRef = useMemoFirebase(() => {
+    if (!firestore || !user || !documentRecord?.propertyId) return null;
+    return doc(firestore, 'properties', documentRecord.propertyId);
+  }, [firestore, user, documentRecord?.propertyId]);
+  const { data: property } = useDoc<any>(propertyRef);
+
+  const siblingsQuery = useMemoFirebase(() => {
+    if (!firestore || !user || !documentRecord) return null;
+    return query(
+      collection(firestore, 'documents'),
+      where('landlordId', '==', user.uid),
+      where('propertyId', '==', documentRecord.propertyId),
+      where('documentType', '==', documentRecord.documentType)
+    );
+  }, [firestore, user, documentRecord?.propertyId, documentRecord?.documentType]);
+  const { data: siblings, isLoading: isLoadingHistory } = useCollection<DocumentRecord>(siblingsQuery);
+
+  const history = useMemo(() => {
+    if (!documentRecord || !siblings) return [];
+    return versionHistory(siblings, documentRecord);
+  }, [documentRecord, siblings]);
+
+  if (isLoading) return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
+  if (!documentRecord) return <div className="text-center py-20 italic">Record not found.</div>;
+
+  const isCurrent = !documentRecord.supersededBy;
+  const address = property?.address ? [property.address.nameOrNumber, property.address.street, property.address.city].filter(Boolean).join(', ') : 'Assigned Property';
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 text-left animate-in fade-in duration-500">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4 min-w-0">
+          <Button variant="outline" size="icon" asChild><Link href="/dashboard/documents"><ArrowLeft className="h-4 w-4" /></Link></Button>
+          <h1 className="text-2xl font-bold font-headline truncate">{documentRecord.title}</h1>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button variant="outline" asChild className="font-bold"><Link href={`/dashboard/documents/${id}/edit?propertyId=${documentRecord.propertyId}`}><Edit className="mr-2 h-4 w-4" /> Edit</Link></Button>
+          {isVersionedType(documentRecord.documentType) && (
+            <Button asChild className="font-bold">
+              <Link href={`/dashboard/documents/upload?propertyId=${documentRecord.propertyId}&documentType=${encodeURIComponent(documentRecord.documentType)}`}><FileUp className="mr-2 h-4 w-4" /> Upload New Version</Link>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="shadow-2xl border-none overflow-hidden rounded-[2rem]">
+        <CardHeader className="bg-primary/5 border-b pb-6 px-8 pt-8">
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="text-xl font-headline flex items-center gap-2 text-primary">
+              <ShieldCheck className="h-5 w-5" /> {documentRecord.documentType}
+            </CardTitle>
+            <Badge variant={isCurrent ? 'outline' : 'secondary'} className={cn('text-[10px] font-bold uppercase', isCurrent && 'bg-green-50 text-green-700 border-green-200')}>
+              {isCurrent ? 'Current Version' : 'Superseded'}{documentRecord.version ? ` · v${documentRecord.version}` : ''}
+            </Badge>
+          </div>
+          <CardDescription className="text-sm font-medium flex items-center gap-2"><MapPin className="h-3.5 w-3.5" /> {address}</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-8 px-8 pb-8 space-y-6">
+          {!isCurrent && (
+            <p className="text-sm rounded-xl bg-muted/30 p-4">
+              Superseded on {formatDate(documentRecord.supersededDate)}.{' '}
+              <Link href={`/dashboard/documents/${documentRecord.supersededBy}`} className="text-primary font-bold underline">View the current version</Link>
+            </p>
+          )}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-6">
+            <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Issued</p><p className="font-bold tabular-nums">{formatDate(documentRecord.issueDate)}</p></div>
+            <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Expires</p><p className="font-bold tabular-nums">{documentRecord.expiryDate ? formatDate(documentRecord.expiryDate) : 'Permanent'}</p></div>
+            <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Logged</p><p className="font-bold tabular-nums">{formatDate(documentRecord.createdDate)}</p></div>
+            <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Privacy</p><p className="font-bold">{documentRecord.sharedWithTenant ? 'Shared with resident' : 'Private'}</p></div>
+          </div>
+          {(documentRecord.certificateNumber || documentRecord.engineerName || documentRecord.registrationNumber) && (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-6">
+              {documentRecord.certificateNumber && <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Certificate No.</p><p className="font-bold break-all">{documentRecord.certificateNumber}</p></div>}
+              {documentRecord.engineerName && <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Engineer</p><p className="font-bold">{documentRecord.engineerName}</p></div>}
+              {documentRecord.registrationNumber && <div><p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">Registration No.</p><p className="font-bold">{documentRecord.registrationNumber}</p></div>}
+            </div>
+          )}
+          {documentRecord.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{documentRecord.notes}</p>}
+          {documentRecord.fileUrl ? (
+            <Button variant="outline" asChild className="font-bold"><a href={documentRecord.fileUrl} target="_blank" rel="noopener noreferrer"><ExternalLink className="mr-2 h-4 w-4" /> Open Attachment</a></Button>
+          ) : (
+            <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Metadata record only</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {documentRecord.documentType === 'Electrical Certificate' && <EicrResultsCard document={documentRecord} />}
+
+      <DocumentServiceLog document={documentRecord} propertyAddress={address} />
+
+      <Card className="shadow-md border-none overflow-hidden">
+        <CardHeader className="bg-muted/20 border-b">
+          <CardTitle className="text-lg font-headline flex items-center gap-2"><History className="h-5 w-5 text-primary" /> Version History</CardTitle>
+          <CardDescription>Every upload of this {documentRecord.documentType} for the property, newest first. Only the current version counts towards compliance.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoadingHistory ? (
+            <div className="flex h-24 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : (
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="pl-6 font-bold uppercase text-[10px] tracking-widest">Version</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Title</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Issued</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Expires</TableHead>
+                  <TableHead className="pr-6 text-right font-bold uppercase text-[10px] tracking-widest">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(v => (
+                  <TableRow key={v.id} className={cn(v.id === id && 'bg-primary/5')}>
+                    <TableCell className="pl-6 font-bold">v{v.version ?? 1}</TableCell>
+                    <TableCell><Link href={`/dashboard/documents/${v.id}`} className="text-primary font-bold hover:underline">{v.title}</Link></TableCell>
+                    <TableCell className="tabular-nums text-sm">{formatDate(v.issueDate)}</TableCell>
+                    <TableCell className="tabular-nums text-sm">{v.expiryDate ? formatDate(v.expiryDate) : 'Permanent'}</TableCell>
+                    <TableCell className="pr-6 text-right">
+                      <Badge variant="outline" className={cn('text-[9px] font-bold uppercase', !v.supersededBy && 'bg-green-50 text-green-700 border-green-200')}>
+                        {v.supersededBy ? `Superseded ${formatDate(v.supersededDate)}` : 'Current'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -46,7 +46,8 @@ import {
   AlertCircle,
   Users,
   LayoutGrid,
-  List
+  List,
+  History
 } from 'lucide-react';
 import { format, isBefore, addDays } from 'date-fns';
 import {
@@ -55,7 +56,7 @@ import {
   useCollection,
   useMemoFirebase,
 } from '@/firebase';
-import { collection, query, where, limit, deleteDoc, doc } from 'firebase/firestore';
+import { collection, query, where, limit } from 'firebase/firestore';
 import { Label } from '@/components/ui/label';
 import {
   DropdownMenu,
@@ -76,6 +77,8 @@ import {
 } from '@/components/ui/alert-dialog';
 import { toast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { currentDocuments, deleteDocumentVersion, type DocumentVersionFields } from '@/lib/document-versions';
+import { Switch } from '@/components/ui/switch';
 
 interface Property {
   id: string;
@@ -88,7 +91,7 @@ interface Property {
   status: string;
 }
 
-interface DocumentRecord {
+interface DocumentRecord extends DocumentVersionFields {
     id: string;
     title: string;
     propertyId: string;
@@ -100,7 +103,8 @@ interface DocumentRecord {
     sharedWithTenant?: boolean;
 }
 
-const getDocumentStatus = (expiryDate: Date | null, today: Date) => {
+const getDocumentStatus = (expiryDate: Date | null, today: Date, superseded = false) => {
+    if (superseded) return 'Superseded';
     if (!expiryDate) return 'Valid';
     const ninetyDaysFromNow = addDays(today, 90);
     if (isBefore(expiryDate, today)) return 'Expired';
@@ -134,6 +138,7 @@ export default function DocumentsPage() {
     const [view, setView] = useState<'grid' | 'list'>('grid');
     const [today, setToday] = useState<Date | null>(null);
     const [documentToDelete, setDocumentToDelete] = useState<DocumentRecord | null>(null);
+    const [showSuperseded, setShowSuperseded] = useState(false);
 
     useEffect(() => { setToday(new Date()); }, []);
 
@@ -168,11 +173,13 @@ export default function DocumentsPage() {
 
     const documentsWithStatus = useMemo(() => {
         if (!today || !allDocuments) return [];
+        const current = new Set(currentDocuments(allDocuments).map(d => d.id));
         return allDocuments.map(doc => {
             const expiry = toDate(doc.expiryDate);
             return {
                 ...doc,
-                status: getDocumentStatus(expiry, today),
+                isCurrent: current.has(doc.id),
+                status: getDocumentStatus(expiry, today, !current.has(doc.id)),
                 expiryDateObj: expiry
             };
         });
@@ -183,9 +190,9 @@ export default function DocumentsPage() {
             const matchesProperty = selectedPropertyId === 'all' || doc.propertyId === selectedPropertyId;
             const matchesSearch = doc.title.toLowerCase().includes(searchTerm.toLowerCase());
             const matchesStatus = statusFilter === 'All' || doc.status === statusFilter;
-            return matchesProperty && matchesSearch && matchesStatus;
+            return (doc.isCurrent || showSuperseded) && matchesProperty && matchesSearch && matchesStatus;
         });
-    }, [documentsWithStatus, searchTerm, statusFilter, selectedPropertyId]);
+    }, [documentsWithStatus, searchTerm, statusFilter, selectedPropertyId, showSuperseded]);
     
     const expiredCount = documentsWithStatus.filter(d => d.status === 'Expired').length;
     const expiringSoonCount = documentsWithStatus.filter(d => d.status === 'Expiring Soon').length;
@@ -194,7 +201,7 @@ export default function DocumentsPage() {
     const handleDeleteConfirm = async () => {
         if (!firestore || !user || !documentToDelete) return;
         try {
-            await deleteDoc(doc(firestore, 'documents', documentToDelete.id));
+            await deleteDocumentVersion(firestore, documentToDelete);
             toast({ title: 'Record Deleted', description: 'The document record has been removed.' });
         } catch (e) { toast({ variant: 'destructive', title: 'Error', description: 'Could not delete the record.' }); } finally { setDocumentToDelete(null); }
     };
@@ -234,6 +241,9 @@ export default function DocumentsPage() {
                 <Button variant={view === 'grid' ? 'secondary' : 'ghost'} size="sm" className="h-9 px-3 rounded-lg" onClick={() => setView('grid')}><LayoutGrid className="h-4 w-4" /></Button>
                 <Button variant={view === 'list' ? 'secondary' : 'ghost'} size="sm" className="h-9 px-3 rounded-lg" onClick={() => setView('list')}><List className="h-4 w-4" /></Button>
             </div>
+            <Label className="flex items-center gap-2 text-xs font-bold text-muted-foreground cursor-pointer">
+                <Switch checked={showSuperseded} onCheckedChange={setShowSuperseded} /> Show superseded versions
+            </Label>
             <Button asChild size="lg" className="w-full sm:w-auto font-bold shadow-lg h-11 px-10 rounded-xl bg-primary hover:bg-primary/90">
                 <Link href="/dashboard/documents/upload">
                     <PlusCircle className="mr-2 h-5 w-5" /> Log New Document
@@ -336,7 +346,7 @@ export default function DocumentsPage() {
                             >
                                 <div className={cn(
                                     "h-1.5 w-full",
-                                    docItem.status === 'Expired' ? "bg-destructive" : docItem.status === 'Expiring Soon' ? "bg-yellow-500" : "bg-green-500"
+                                    docItem.status === 'Expired' ? "bg-destructive" : docItem.status === 'Expiring Soon' ? "bg-yellow-500" : docItem.status === 'Superseded' ? "bg-muted-foreground/30" : "bg-green-500"
                                 )} />
                                 <CardHeader className="pb-3 text-left">
                                     <div className="flex justify-between items-start mb-2">
@@ -351,6 +361,7 @@ export default function DocumentsPage() {
                                             </DropdownMenuTrigger>
                                             <DropdownMenuContent align="end" className="w-48">
                                                 <DropdownMenuItem asChild><Link href={`/dashboard/documents/${docItem.id}/edit?propertyId=${docItem.propertyId}`} onClick={e => e.stopPropagation()}><Edit className="mr-2 h-4 w-4" /> Edit Record Details</Link></DropdownMenuItem>
+                                                <DropdownMenuItem asChild><Link href={`/dashboard/documents/${docItem.id}`} onClick={e => e.stopPropagation()}><History className="mr-2 h-4 w-4" /> Details & Version History</Link></DropdownMenuItem>
                                                 {docItem.fileUrl && <DropdownMenuItem asChild><a href={docItem.fileUrl} target="_blank" rel="noopener noreferrer" onClick={e => e.stopPropagation()}><Download className="mr-2 h-4 w-4" /> Download</a></DropdownMenuItem>}
                                                 <DropdownMenuSeparator />
                                                 <DropdownMenuItem className="text-destructive font-bold" onClick={(e) => { e.stopPropagation(); setDocumentToDelete(docItem); }}>
@@ -360,7 +371,7 @@ export default function DocumentsPage() {
                                         </DropdownMenu>
                                     </div>
                                     <CardTitle className="text-lg font-bold leading-tight group-hover:text-primary transition-colors">{docItem.title}</CardTitle>
-                                    <CardDescription className="text-[10px] font-bold uppercase tracking-widest">{docItem.documentType}</CardDescription>
+                                    <CardDescription className="text-[10px] font-bold uppercase tracking-widest">{docItem.documentType}{docItem.version ? ` · v${docItem.version}` : ''}</CardDescription>
                                 </CardHeader>
                                 <CardContent className="space-y-4 pb-6">
                                     <div className="flex items-start gap-3 p-3 rounded-xl bg-muted/20 border text-left">
@@ -400,7 +411,7 @@ export default function DocumentsPage() {
                                     className="hover:bg-muted/20 transition-all group cursor-pointer"
                                     onClick={() => handleDocumentClick(docItem)}
                                 >
-                                <TableCell className="py-5 pl-8 text-left"><div className="flex items-center gap-4"><div className="p-3 rounded-2xl bg-primary/5 text-primary group-hover:bg-primary group-hover:text-primary-foreground transition-colors shadow-sm"><FileText className="h-5 w-5" /></div><div className="text-left"><p className="font-bold text-sm text-foreground">{docItem.title}</p><p className="text-[10px] text-muted-foreground font-bold uppercase tracking-widest mt-0.5">{docItem.documentType}</p></div></div></TableCell>
+                                <TableCell className="py-5 pl-8 text-left"><div className="flex items-center gap-4"><div className="p-3 rounded-2xl bg-primary/5 text-primary group-hover:bg-primary group-hover:text-primary-foreground transition-colors shadow-sm"><FileText className="h-5 w-5" /></div><div className="text-left"><p className="font-bold text-sm text-foreground">{docItem.title}</p><p className="text-[10px] text-muted-foreground font-bold uppercase tracking-widest mt-0.5">{docItem.documentType}{docItem.version ? ` · v${docItem.version}` : ''}</p></div></div></TableCell>
                                 <TableCell className="text-xs text-muted-foreground font-medium max-w-[150px] truncate text-left">{propertyMap[docItem.propertyId] || 'Assigned Property'}</TableCell>
                                 <TableCell className="text-center">
                                     {docItem.sharedWithTenant ? (
@@ -413,7 +424,7 @@ export default function DocumentsPage() {
                                 </TableCell>
                                 <TableCell className="text-left"><Badge variant={getStatusVariant(docItem.status)} className="text-[10px] font-bold uppercase px-3 py-1 rounded-lg tracking-tighter">{docItem.status}</Badge></TableCell>
                                 <TableCell className="text-xs font-bold tabular-nums text-muted-foreground text-left">{docItem.expiryDateObj ? format(docItem.expiryDateObj, 'dd/MM/yyyy') : 'Permanent'}</TableCell>
-                                <TableCell className="text-right pr-8" onClick={e => e.stopPropagation()}><DropdownMenu><DropdownMenuTrigger asChild><Button variant="outline" size="icon" className="h-9 w-9 rounded-xl border-2"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="rounded-xl p-1 shadow-2xl border-2"><DropdownMenuItem asChild className="rounded-lg"><Link href={`/dashboard/documents/${docItem.id}/edit?propertyId=${docItem.propertyId}`} className="cursor-pointer" onClick={e => e.stopPropagation()}><Edit className="mr-2 h-4 w-4" /> Edit Record Details</Link></DropdownMenuItem>{docItem.fileUrl && (<DropdownMenuItem asChild className="rounded-lg"><a href={docItem.fileUrl} target="_blank" rel="noopener noreferrer" className="cursor-pointer" onClick={e => e.stopPropagation()}><Download className="mr-2 h-4 w-4" /> Download Attachment</a></DropdownMenuItem>)}<DropdownMenuSeparator /><DropdownMenuItem className="text-destructive focus:text-destructive focus:bg-destructive/10 rounded-lg cursor-pointer font-bold" onClick={(e) => { e.stopPropagation(); setDocumentToDelete(docItem); }}><Trash2 className="mr-2 h-4 w-4" /> Delete Audit Record</DropdownMenuItem></DropdownMenuContent></DropdownMenu></TableCell>
+                                <TableCell className="text-right pr-8" onClick={e => e.stopPropagation()}><DropdownMenu><DropdownMenuTrigger asChild><Button variant="outline" size="icon" className="h-9 w-9 rounded-xl border-2"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="rounded-xl p-1 shadow-2xl border-2"><DropdownMenuItem asChild className="rounded-lg"><Link href={`/dashboard/documents/${docItem.id}/edit?propertyId=${docItem.propertyId}`} className="cursor-pointer" onClick={e => e.stopPropagation()}><Edit className="mr-2 h-4 w-4" /> Edit Record Details</Link></DropdownMenuItem><DropdownMenuItem asChild className="rounded-lg"><Link href={`/dashboard/documents/${docItem.id}`} className="cursor-pointer" onClick={e => e.stopPropagation()}><History className="mr-2 h-4 w-4" /> Details & Version History</Link></DropdownMenuItem>{docItem.fileUrl && (<DropdownMenuItem asChild className="rounded-lg"><a href={docItem.fileUrl} target="_blank" rel="noopener noreferrer" className="cursor-pointer" onClick={e => e.stopPropagation()}><Download className="mr-2 h-4 w-4" /> Download Attachment</a></DropdownMenuItem>)}<DropdownMenuSeparator /><DropdownMenuItem className="text-destructive focus:text-destructive focus:bg-destructive/10 rounded-lg cursor-pointer font-bold" onClick={(e) => { e.stopPropagation(); setDocumentToDelete(docItem); }}><Trash2 className="mr-2 h-4 w-4" /> Delete Audit Record</DropdownMenuItem></DropdownMenuContent></DropdownMenu></TableCell>
                                 </TableRow>
                             ))}
                             </TableBody>
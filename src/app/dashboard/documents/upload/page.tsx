@@ -5,7 +5,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import Link from 'next/link';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useState, useMemo, useEffect } from 'react';
 import {
   Card,
@@ -32,7 +32,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Loader2, Info, FileUp, X, FileText, ShieldCheck } from 'lucide-react';
+import { Loader2, Info, FileUp, X, FileText, ShieldCheck, MapPinOff } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -41,11 +41,15 @@ import {
   useCollection,
   useMemoFirebase,
 } from '@/firebase';
-import { collection, query, where, addDoc, limit } from 'firebase/firestore';
-import { differenceInMonths } from 'date-fns';
+import { collection, query, where, limit } from 'firebase/firestore';
+import { differenceInMonths, format } from 'date-fns';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { uploadPropertyDocument } from '@/lib/upload-document';
+import { DOCUMENT_TYPES } from '@/lib/document-types';
+import { addVersionedDocument, isVersionedType } from '@/lib/document-versions';
 import { Checkbox } from '@/components/ui/checkbox';
+import { isPdfFile } from '@/lib/receipts';
+import { checkCertificateAddress, extractCertificateFields, type CertificateFields } from '@/lib/certificate-extraction';
 
 const documentSchema = z.object({
   title: z.string().min(3, 'Title is too short'),
@@ -54,6 +58,9 @@ const documentSchema = z.object({
   issueDate: z.coerce.date({ required_error: 'Please select an issue date.' }),
   expiryDate: z.coerce.date().optional().or(z.literal('')),
   notes: z.string().optional(),
+  certificateNumber: z.string().optional(),
+  engineerName: z.string().optional(),
+  registrationNumber: z.string().optional(),
   sharedWithTenant: z.boolean().default(false),
 }).refine(data => {
   if (!data.expiryDate) return true;
@@ -71,6 +78,7 @@ interface Property {
     nameOrNumber?: string;
     street: string;
     city: string;
+    postcode?: string;
   };
   landlordId: string;
   status: string;
@@ -78,11 +86,14 @@ interface Property {
 
 export default function UploadDocumentPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user } = useUser();
   const firestore = useFirestore();
   const [isSaving, setIsSaving] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isMounted, setIsMounted] = useState(false);
+  const [isReadingCertificate, setIsReadingCertificate] = useState(false);
+  const [extracted, setExtracted] = useState<CertificateFields | null>(null);
 
   const form = useForm<DocumentFormValues>({
     resolver: zodResolver(documentSchema),
@@ -92,6 +103,9 @@ export default function UploadDocumentPage() {
         documentType: '',
         notes: '',
         expiryDate: '',
+        certificateNumber: '',
+        engineerName: '',
+        registrationNumber: '',
         sharedWithTenant: false,
     }
   });
@@ -108,12 +122,13 @@ export default function UploadDocumentPage() {
   // HYDRATION HANDSHAKE: Set default preferences strictly after mount
   useEffect(() => {
     if (isMounted && typeof window !== 'undefined') {
-      const lastProp = localStorage.getItem('last_doc_prop');
-      const lastType = localStorage.getItem('last_doc_type');
+      // A new version of an existing document arrives with its property and type in the URL
+      const lastProp = searchParams.get('propertyId') || localStorage.getItem('last_doc_prop');
+      const lastType = searchParams.get('documentType') || localStorage.getItem('last_doc_type');
       if (lastProp) form.setValue('propertyId', lastProp);
       if (lastType) form.setValue('documentType', lastType);
     }
-  }, [isMounted, form]);
+  }, [isMounted, form, searchParams]);
 
   const complianceWarning = useMemo(() => {
     if (watchType === 'Gas Safety Certificate' && watchIssueDate && watchExpiryDate) {
@@ -141,9 +156,48 @@ export default function UploadDocumentPage() {
     return allProperties?.filter(p => activeStatuses.includes(p.status)) ?? [];
   }, [allProperties]);
 
+  const addressCheck = useMemo(() => {
+    if (!extracted) return 'unknown';
+    const property = activeProperties.find(p => p.id === watchPropId);
+    return checkCertificateAddress(extracted, property?.address.postcode);
+  }, [extracted, activeProperties, watchPropId]);
+
+  // The date inputs render UTC days, so parsed local dates are pinned to UTC midnight
+  const asInputDate = (d: Date) => new Date(format(d, 'yyyy-MM-dd'));
+
+  // Pre-fill from a text-based PDF certificate; dates the user has already entered are kept
+  async function readCertificate(file: File) {
+    setIsReadingCertificate(true);
+    try {
+      const fields = await extractCertificateFields(file);
+      setExtracted(fields);
+      const found: string[] = [];
+      if (fields.documentType && fields.documentType !== form.getValues('documentType')) { form.setValue('documentType', fields.documentType); found.push('type'); }
+      if (fields.issueDate && !form.getValues('issueDate')) { form.setValue('issueDate', asInputDate(fields.issueDate)); found.push('issue date'); }
+      if (fields.expiryDate && !form.getValues('expiryDate')) { form.setValue('expiryDate', asInputDate(fields.expiryDate)); found.push(fields.expiryEstimated ? 'estimated expiry' : 'expiry date'); }
+      if (fields.certificateNumber && !form.getValues('certificateNumber')) { form.setValue('certificateNumber', fields.certificateNumber); found.push('certificate number'); }
+      if (fields.engineerName && !form.getValues('engineerName')) { form.setValue('engineerName', fields.engineerName); found.push('engineer'); }
+      if (fields.registrationNumber && !form.getValues('registrationNumber')) { form.setValue('registrationNumber', fields.registrationNumber); found.push('registration number'); }
+      if (!form.getValues('title') && (fields.documentType || form.getValues('documentType'))) {
+        const issued = fields.issueDate || new Date();
+        form.setValue('title', `${fields.documentType || form.getValues('documentType')} ${format(issued, 'yyyy')}`);
+      }
+      toast(found.length
+        ? { title: 'Certificate Details Found', description: `Pre-filled ${found.join(', ')} from ${file.name}. Please check before saving.` }
+        : { title: 'No Details Found', description: 'This PDF has no readable text layer. Enter the details manually.' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Could Not Read Certificate' });
+    } finally {
+      setIsReadingCertificate(false);
+    }
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
-      setSelectedFile(e.target.files[0]);
+      const file = e.target.files[0];
+      setSelectedFile(file);
+      setExtracted(null);
+      if (isPdfFile(file)) readCertificate(file);
     }
   };
 
@@ -160,23 +214,28 @@ export default function UploadDocumentPage() {
         fileUrl = await uploadPropertyDocument(selectedFile, user.uid, data.propertyId);
       }
 
-      const documentsCollection = collection(firestore, 'documents');
-      
+      const { certificateNumber, engineerName, registrationNumber, ...details } = data;
       const dataToSave: any = {
-        ...data,
+        ...details,
+        ...(certificateNumber?.trim() ? { certificateNumber: certificateNumber.trim() } : {}),
+        ...(engineerName?.trim() ? { engineerName: engineerName.trim() } : {}),
+        ...(registrationNumber?.trim() ? { registrationNumber: registrationNumber.trim() } : {}),
         fileUrl,
         landlordId: user.uid,
         expiryDate: data.expiryDate ? new Date(data.expiryDate).toISOString() : null,
         createdDate: new Date().toISOString()
       };
 
-      await addDoc(documentsCollection, dataToSave);
+      const { supersededId } = await addVersionedDocument(firestore, dataToSave);
       
       // PERSISTENCE HANDSHAKE: Solidify for future triage
       localStorage.setItem('last_doc_prop', data.propertyId);
       localStorage.setItem('last_doc_type', data.documentType);
 
-      toast({ title: 'Document Logged', description: 'Record saved and preferences synchronized.' });
+      toast({
+        title: 'Document Logged',
+        description: supersededId ? `Saved as the current ${data.documentType}; the previous version is kept in its history.` : 'Record saved and preferences synchronized.',
+      });
       router.push('/dashboard/documents');
     } catch (error) {
         console.error('Failed to save document', error);
@@ -221,6 +280,16 @@ export default function UploadDocumentPage() {
                   </Alert>
                )}
 
+               {addressCheck === 'mismatch' && (
+                  <Alert variant="destructive">
+                      <MapPinOff className="h-4 w-4" />
+                      <AlertTitle className="text-sm font-bold">Address Does Not Match</AlertTitle>
+                      <AlertDescription className="text-xs">
+                        This certificate appears to be for {extracted?.address || extracted?.postcodes.join(', ')}, not the selected property. Check you have chosen the right property or file.
+                      </AlertDescription>
+                  </Alert>
+               )}
+
                <FormField
                   control={form.control}
                   name="title"
@@ -287,11 +356,12 @@ export default function UploadDocumentPage() {
                               </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                              {[
-                                 'Tenancy Agreement', 'Inventory', 'Gas Safety Certificate', 'Electrical Certificate', 'EPC', 'Insurance', 'Deposit Protection', 'Licence', 'Correspondence', 'Invoice'
-                              ].map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                              {DOCUMENT_TYPES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
                           </SelectContent>
                           </Select>
+                          {isVersionedType(field.value) && (
+                            <FormDescription className="text-xs">Replaces the current {field.value} for this property. The previous version stays in its history.</FormDescription>
+                          )}
                           <FormMessage />
                       </FormItem>
                       )}
@@ -331,13 +401,53 @@ export default function UploadDocumentPage() {
                                       onChange={(e) => field.onChange(e.target.value)}
                                   />
                               </FormControl>
-                              <FormDescription className="text-[10px]">Leave blank for permanent records.</FormDescription>
+                              <FormDescription className="text-[10px]">
+                                {extracted?.expiryEstimated && field.value ? 'Worked out from the issue date; check the certificate.' : 'Leave blank for permanent records.'}
+                              </FormDescription>
                               <FormMessage />
                           </FormItem>
                       )}
                   />
               </div>
 
+              {isVersionedType(watchType) && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="certificateNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-bold">Certificate No.</FormLabel>
+                        <FormControl><Input className="h-11" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="engineerName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-bold">Engineer / Assessor</FormLabel>
+                        <FormControl><Input className="h-11" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="registrationNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="font-bold">Registration No.</FormLabel>
+                        <FormControl><Input className="h-11" placeholder="e.g. Gas Safe number" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
               <FormField
                 control={form.control}
                 name="sharedWithTenant"
@@ -372,10 +482,12 @@ export default function UploadDocumentPage() {
                               </div>
                               <div className="min-w-0">
                                   <p className="text-sm font-bold truncate">{selectedFile.name}</p>
-                                  <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-wider">{(selectedFile.size / 1024 / 1024).toFixed(2)} MB</p>
+                                  <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-wider">
+                                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB{isReadingCertificate && ' · Reading certificate...'}
+                                  </p>
                               </div>
                           </div>
-                          <Button type="button" variant="ghost" size="icon" onClick={() => setSelectedFile(null)}>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => { setSelectedFile(null); setExtracted(null); }}>
                               <X className="h-4 w-4" />
                           </Button>
                       </div>
@@ -79,6 +79,12 @@ import { Label } from '@/components/ui/label';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
+import { EXPENSE_CATEGORIES } from '@/lib/expense-categories';
+import { toExpenseReceipt, type ExpenseReceipt } from '@/lib/receipts';
+import { VAT_RATES, normaliseVatNumber, vatAmountsOf, type VatRate } from '@/lib/vat';
+import { uploadPropertyDocument } from '@/lib/upload-document';
+import { MONEY_FIELDS, formatMoney, fromPence, poundsOf, sumMoney, toPence, withPence } from '@/lib/money';
+import { ReceiptFileInput, ReceiptThumbnails } from '@/components/dashboard/expense-receipts';
 
 // Interfaces
 interface Property {
@@ -100,6 +106,12 @@ interface Expense {
   amount: number;
   paidBy: string;
   notes?: string;
+  supplier?: string;
+  supplierVatNumber?: string;
+  vatRate?: VatRate;
+  vatAmount?: number;
+  netAmount?: number;
+  receipts?: ExpenseReceipt[];
 }
 
 const expenseSchema = z.object({
@@ -109,6 +121,10 @@ const expenseSchema = z.object({
   amount: z.coerce.number().min(0.01, 'Amount must be greater than 0.'),
   paidBy: z.string().min(1, 'This field is required.'),
   notes: z.string().optional(),
+  supplier: z.string().optional(),
+  supplierVatNumber: z.string().optional().refine(v => !v?.trim() || !!normaliseVatNumber(v), 'Enter a 9 or 12 digit UK VAT number.'),
+  vatRate: z.enum(['standard', 'reduced', 'zero', 'exempt', 'outside']).default('outside'),
+  vatAmount: z.coerce.number().min(0).optional(),
 });
 type ExpenseFormValues = z.infer<typeof expenseSchema>;
 
@@ -120,14 +136,7 @@ function safeToDate(val: any): Date | null {
   return isNaN(d.getTime()) ? null : d;
 }
 
-const formatCurrency = (val: number) => {
-  return new Intl.NumberFormat('en-GB', {
-    style: 'currency',
-    currency: 'GBP',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(val);
-};
+const formatCurrency = (val: number) => formatMoney(val);
 
 export default function LoggedExpensesPage() {
   const { user } = useUser();
@@ -152,6 +161,8 @@ export default function LoggedExpensesPage() {
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [deletingExpense, setDeletingExpense] = useState<Expense | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editReceipts, setEditReceipts] = useState<ExpenseReceipt[]>([]);
+  const [newReceiptFiles, setNewReceiptFiles] = useState<File[]>([]);
 
   // Fetch properties using flat structure
   const propertiesQuery = useMemoFirebase(() => {
@@ -188,7 +199,8 @@ export default function LoggedExpensesPage() {
         const matchesYear = d && isSameYear(d, new Date(selectedYear, 0, 1));
         const matchesSearch = exp.expenseType.toLowerCase().includes(searchTerm.toLowerCase()) || 
                              exp.paidBy.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                             (exp.notes?.toLowerCase() || '').includes(searchTerm.toLowerCase());
+                             (exp.notes?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
+                             (exp.supplier?.toLowerCase() || '').includes(searchTerm.toLowerCase());
         return matchesYear && matchesSearch;
     }).sort((a,b) => {
         const dA = safeToDate(a.date) || new Date(0);
@@ -206,11 +218,17 @@ export default function LoggedExpensesPage() {
         editForm.reset({
             propertyId: editingExpense.propertyId,
             expenseType: editingExpense.expenseType,
-            amount: editingExpense.amount,
+            amount: poundsOf(editingExpense, 'amount'),
             paidBy: editingExpense.paidBy,
             notes: editingExpense.notes || '',
+            supplier: editingExpense.supplier || '',
+            supplierVatNumber: editingExpense.supplierVatNumber || '',
+            vatRate: vatAmountsOf(editingExpense).vatRate,
+            vatAmount: poundsOf(editingExpense, 'vatAmount'),
             date: safeToDate(editingExpense.date) || new Date(),
         });
+        setEditReceipts(editingExpense.receipts || []);
+        setNewReceiptFiles([]);
     }
   }, [editingExpense, editForm]);
 
@@ -219,7 +237,19 @@ export default function LoggedExpensesPage() {
     setIsSubmitting(true);
     const docRef = doc(firestore, 'expenses', editingExpense.id);
     
-    updateDoc(docRef, { ...data })
+    Promise.all(newReceiptFiles.map(async file => toExpenseReceipt(file, await uploadPropertyDocument(file, user.uid, data.propertyId))))
+      .then(uploaded => {
+        const gross = toPence(data.amount);
+        const vat = Math.min(toPence(data.vatAmount), gross);
+        return updateDoc(docRef, withPence({
+          ...data,
+          supplier: data.supplier?.trim() || '',
+          supplierVatNumber: normaliseVatNumber(data.supplierVatNumber),
+          vatAmount: fromPence(vat),
+          netAmount: fromPence(gross - vat),
+          receipts: [...editReceipts, ...uploaded],
+        }, MONEY_FIELDS.expenses));
+      })
       .then(() => {
         toast({ title: 'Record Updated', description: 'Expense record saved successfully.' });
         setEditingExpense(null);
@@ -345,6 +375,7 @@ export default function LoggedExpensesPage() {
                                 <TableHead className="text-left">Date</TableHead>
                                 <TableHead className="text-left">Type</TableHead>
                                 <TableHead className="text-left">Paid By</TableHead>
+                                <TableHead className="text-left">Receipts</TableHead>
                                 <TableHead className="text-right">Amount</TableHead>
                                 <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
@@ -357,7 +388,10 @@ export default function LoggedExpensesPage() {
                                     </TableCell>
                                     <TableCell className="font-semibold text-sm text-left">{expense.expenseType}</TableCell>
                                     <TableCell className="text-sm text-left">{expense.paidBy}</TableCell>
-                                    <TableCell className="text-right font-bold text-sm">{formatCurrency(expense.amount)}</TableCell>
+                                    <TableCell className="text-left">
+                                        {expense.receipts?.length ? <ReceiptThumbnails receipts={expense.receipts} size="sm" /> : <span className="text-xs text-muted-foreground">None</span>}
+                                    </TableCell>
+                                    <TableCell className="text-right font-bold text-sm">{formatCurrency(poundsOf(expense, 'amount'))}</TableCell>
                                     <TableCell className="text-right">
                                         <div className="flex justify-end gap-1">
                                             <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setViewingExpense(expense)}><Eye className="h-4 w-4" /></Button>
@@ -376,7 +410,7 @@ export default function LoggedExpensesPage() {
             <CardFooter className="flex justify-end bg-muted/10 border-t py-4">
                 <div className="flex flex-col items-end">
                     <span className="text-[10px] font-bold text-muted-foreground uppercase tracking-widest mb-1">Total Result:</span>
-                    <span className="text-primary font-bold text-2xl">{formatCurrency(filteredExpenses.reduce((acc, e) => acc + Number(e.amount || 0), 0))}</span>
+                    <span className="text-primary font-bold text-2xl">{formatCurrency(sumMoney(filteredExpenses.map(e => poundsOf(e, 'amount'))))}</span>
                 </div>
             </CardFooter>
         )}
@@ -394,7 +428,7 @@ export default function LoggedExpensesPage() {
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <Label className="text-[10px] uppercase font-bold text-muted-foreground">Amount</Label>
-                            <p className="text-xl font-bold text-primary">{formatCurrency(viewingExpense.amount)}</p>
+                            <p className="text-xl font-bold text-primary">{formatCurrency(poundsOf(viewingExpense, 'amount'))}</p>
                         </div>
                         <div>
                             <Label className="text-[10px] uppercase font-bold text-muted-foreground">Date</Label>
@@ -409,6 +443,25 @@ export default function LoggedExpensesPage() {
                         <Label className="text-[10px] uppercase font-bold text-muted-foreground">Paid By</Label>
                         <p className="font-medium">{viewingExpense.paidBy}</p>
                     </div>
+                    {(viewingExpense.supplier || viewingExpense.vatAmount) ? (
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label className="text-[10px] uppercase font-bold text-muted-foreground">Supplier</Label>
+                                <p className="font-medium">{viewingExpense.supplier || 'N/A'}</p>
+                            </div>
+                            <div>
+                                <Label className="text-[10px] uppercase font-bold text-muted-foreground">VAT ({VAT_RATES[vatAmountsOf(viewingExpense).vatRate].label})</Label>
+                                <p className="font-medium">{formatCurrency(viewingExpense.vatAmount || 0)}</p>
+                                {viewingExpense.supplierVatNumber && <p className="text-xs text-muted-foreground">{viewingExpense.supplierVatNumber}</p>}
+                            </div>
+                        </div>
+                    ) : null}
+                    {viewingExpense.receipts?.length ? (
+                        <div>
+                            <Label className="text-[10px] uppercase font-bold text-muted-foreground">Receipts</Label>
+                            <div className="mt-2"><ReceiptThumbnails receipts={viewingExpense.receipts} /></div>
+                        </div>
+                    ) : null}
                     {viewingExpense.notes && (
                         <div>
                             <Label className="text-[10px] uppercase font-bold text-muted-foreground">Notes</Label>
@@ -437,7 +490,7 @@ export default function LoggedExpensesPage() {
                             <FormItem><FormLabel>Date</FormLabel><FormControl><Input type="date" value={field.value ? new Date(field.value).toISOString().split('T')[0] : ''} onChange={(e) => field.onChange(e.target.value)} /></FormControl><FormMessage /></FormItem>
                         )} />
                         <FormField control={editForm.control} name="expenseType" render={({ field }) => (
-                            <FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{['Repairs and Maintenance','Utilities','Insurance','Mortgage Interest','Cleaning','Gardening','Letting Agent Fees'].map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                            <FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{EXPENSE_CATEGORIES.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
                         )} />
                     </div>
                     <div className="grid grid-cols-2 gap-4">
@@ -448,9 +501,30 @@ export default function LoggedExpensesPage() {
                             <FormItem><FormLabel>Paid By</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
                         )} />
                     </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField control={editForm.control} name="supplier" render={({ field }) => (
+                            <FormItem><FormLabel>Supplier</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                        )} />
+                        <FormField control={editForm.control} name="supplierVatNumber" render={({ field }) => (
+                            <FormItem><FormLabel>Supplier VAT No.</FormLabel><FormControl><Input className="uppercase" {...field} /></FormControl><FormMessage /></FormItem>
+                        )} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField control={editForm.control} name="vatRate" render={({ field }) => (
+                            <FormItem><FormLabel>VAT Rate</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(VAT_RATES).map(([value, { label }]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                        )} />
+                        <FormField control={editForm.control} name="vatAmount" render={({ field }) => (
+                            <FormItem><FormLabel>VAT (£)</FormLabel><FormControl><Input type="text" inputMode="decimal" {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>
+                        )} />
+                    </div>
                     <FormField control={editForm.control} name="notes" render={({ field }) => (
                         <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea {...field} /></FormControl><FormMessage /></FormItem>
                     )} />
+                    <div className="space-y-2">
+                        <Label>Receipts</Label>
+                        <ReceiptThumbnails receipts={editReceipts} onRemove={(r) => setEditReceipts(prev => prev.filter(x => x.url !== r.url))} />
+                        <ReceiptFileInput files={newReceiptFiles} onChange={setNewReceiptFiles} disabled={isSubmitting} />
+                    </div>
                     <DialogFooter className="pt-4">
                         <Button type="button" variant="outline" onClick={() => setEditingExpense(null)}>Cancel</Button>
                         <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Changes</Button>
@@ -466,7 +540,7 @@ export default function LoggedExpensesPage() {
             <AlertDialogHeader>
                 <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
                 <AlertDialogDescription>
-                    This will permanently delete the {deletingExpense?.expenseType} record of {deletingExpense ? formatCurrency(deletingExpense.amount) : ''}. This action cannot be undone.
+                    This will permanently delete the {deletingExpense?.expenseType} record of {deletingExpense ? formatCurrency(poundsOf(deletingExpense, 'amount')) : ''}. This action cannot be undone.
                 </AlertDialogDescription>
             </AlertDialogHeader>
             <AlertDialogFooter>
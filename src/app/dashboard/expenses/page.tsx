@@ -54,7 +54,7 @@ import {
   History,
   Download
 } from 'lucide-react';
-import { format, isAfter, isBefore, startOfYear, endOfYear, setDate, startOfMonth, getYear, isSameDay } from 'date-fns';
+import { format, isAfter, isBefore, startOfYear, endOfYear } from 'date-fns';
 import { toast } from '@/hooks/use-toast';
 import {
   Table,
@@ -68,17 +68,39 @@ import {
   useUser,
   useFirestore,
   useCollection,
+  useDoc,
   useMemoFirebase,
 } from '@/firebase';
-import { collection, query, where, doc, setDoc, addDoc, limit } from 'firebase/firestore';
+import { collection, query, where, addDoc, limit, doc } from 'firebase/firestore';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import Link from 'next/link';
 import { safeToDate } from '@/lib/date-utils';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
-import { generateHMRCPDF } from '@/lib/generate-hmrc-pdf';
+import { buildHMRCPDF, generateHMRCPDF, hmrcBriefingFileName } from '@/lib/generate-hmrc-pdf';
+import { buildReceiptBundle, extractInvoiceFields, isPdfFile, receiptArchiveItems, toExpenseReceipt, type ExpenseReceipt } from '@/lib/receipts';
+import { uploadPropertyDocument } from '@/lib/upload-document';
+import { downloadFile } from '@/lib/file-export';
+import { ReceiptFileInput, ReceiptThumbnails } from '@/components/dashboard/expense-receipts';
 import { generateRentPDF } from '@/lib/generate-rent-pdf';
+import { EXPENSE_CATEGORIES } from '@/lib/expense-categories';
+import { BankImport } from '@/components/dashboard/bank-import';
+import { MtdQuarterlyExport } from '@/components/dashboard/mtd-quarterly';
+import { VatSummaryReport } from '@/components/dashboard/vat-summary';
+import { PropertyPerformanceReport } from '@/components/dashboard/property-performance';
+import { MONEY_FIELDS, formatMoney, fromPence, parseMoney, penceOf, poundsOf, roundMoney, sumMoney, toPence, withPence, type Pence } from '@/lib/money';
+import { VAT_RATES, normaliseVatNumber, resolveVatProfile, splitGross, type VatRate } from '@/lib/vat';
+import { ASSET_TYPES, DEFAULT_ASSET_LIFESPANS, EXPENDITURE_CLASS_LABELS, expenditureClassOf, isRevenueExpenditure, type AssetType } from '@/lib/capital-expenditure';
+import { buildTaxInputs, computePropertyTax, isFinanceCost, resolveTaxProfile, type TaxProfile } from '@/lib/property-tax';
+import {
+  buildRentLedger,
+  sliceRentLedger,
+  syncRentSchedule,
+  toRentCharge,
+  type RentChargeAllocation,
+} from '@/lib/rent-ledger';
+import { paymentsForTenancy, unallocatedPayments } from '@/lib/rent-arrears';
 
 // Standard Calendar Months
 const MONTHS = [
@@ -99,6 +121,11 @@ interface Property {
   };
   status: string;
   landlordId: string;
+  ownershipPercentage?: number;
+  purchasePrice?: number;
+  currentValuation?: number;
+  cashInvested?: number;
+  vatOptedToTax?: boolean;
 }
 
 interface Expense {
@@ -110,6 +137,13 @@ interface Expense {
   amount: number;
   paidBy: string;
   notes?: string;
+  classification?: string;
+  supplier?: string;
+  supplierVatNumber?: string;
+  vatRate?: VatRate;
+  vatAmount?: number;
+  netAmount?: number;
+  receipts?: ExpenseReceipt[];
 }
 
 interface MaintenanceRepair {
@@ -122,6 +156,7 @@ interface MaintenanceRepair {
     expectedCost?: number;
     estimatedCost?: number;
     status: string;
+    classification?: string;
 }
 
 type PaymentStatus = 'Paid' | 'Partially Paid' | 'Unpaid' | 'Pending';
@@ -133,7 +168,21 @@ interface RentPayment {
   month: string;
   status: PaymentStatus;
   amountPaid?: number;
-  expectedAmount: number;
+  expectedAmount?: number;
+  tenantId?: string;
+  paidDate?: any;
+  reference?: string;
+  method?: string;
+}
+
+interface RentChargeRecord {
+  id: string;
+  propertyId: string;
+  tenantId: string;
+  landlordId: string;
+  dueDate: any;
+  amount: number;
+  description: string;
 }
 
 interface Tenant {
@@ -142,6 +191,9 @@ interface Tenant {
     status: string;
     propertyId: string;
     monthlyRent?: number;
+    rentDueDay?: number;
+    tenancyStartDate?: any;
+    tenancyEndDate?: any;
 }
 
 const expenseSchema = z.object({
@@ -151,22 +203,31 @@ const expenseSchema = z.object({
   amount: z.coerce.number().min(0.01, 'Amount must be greater than zero.'),
   paidBy: z.string().min(1, 'This field is required.'),
   notes: z.string().optional(),
+  supplier: z.string().optional(),
+  supplierVatNumber: z.string().optional().refine(v => !v?.trim() || !!normaliseVatNumber(v), 'Enter a 9 or 12 digit UK VAT number.'),
+  vatRate: z.enum(['standard', 'reduced', 'zero', 'exempt', 'outside']).default('outside'),
+  vatAmount: z.coerce.number().min(0).optional(),
+  classification: z.enum(['revenue', 'domestic_replacement', 'capital_improvement']).default('revenue'),
+  assetType: z.string().optional(),
+  expectedLifespanYears: z.coerce.number().min(0).optional(),
 });
 type ExpenseFormValues = z.infer<typeof expenseSchema>;
 
-const formatCurrency = (val: number) => {
-  return new Intl.NumberFormat('en-GB', {
-    style: 'currency',
-    currency: 'GBP',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(val);
-};
+const NO_ASSET = 'none';
+
+const formatCurrency = (val: number) => formatMoney(val);
+
+const repairCostOf = (r: any) => poundsOf(r, 'expectedCost') || poundsOf(r, 'estimatedCost');
+
+// Ledger balances: positive = arrears owed, negative = credit held for the tenant.
+const formatBalance = (val: number) => val < 0 ? `${formatCurrency(Math.abs(val))} CR` : formatCurrency(val);
 
 function ExpenseTracker({ properties, selectedPropertyId }: { properties: Property[], selectedPropertyId: string }) {
   const { user } = useUser();
   const firestore = useFirestore();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
+  const [isReadingInvoice, setIsReadingInvoice] = useState(false);
 
   const form = useForm<ExpenseFormValues>({
     resolver: zodResolver(expenseSchema),
@@ -174,7 +235,12 @@ function ExpenseTracker({ properties, selectedPropertyId }: { properties: Proper
       propertyId: (selectedPropertyId && selectedPropertyId !== 'all') ? selectedPropertyId : '', 
       expenseType: '', 
       paidBy: 'Landlord', 
-      notes: '' 
+      notes: '',
+      supplier: '',
+      supplierVatNumber: '',
+      vatRate: 'outside',
+      classification: 'revenue',
+      assetType: NO_ASSET,
     },
   });
 
@@ -188,14 +254,75 @@ function ExpenseTracker({ properties, selectedPropertyId }: { properties: Proper
     form.setValue('date', new Date());
   }, [form]);
 
+  const classification = form.watch('classification');
+  const assetType = form.watch('assetType');
+  const grossAmount = form.watch('amount');
+  const vatAmount = form.watch('vatAmount');
+  const vatRate = form.watch('vatRate');
+
+  // Pre-fill blank fields from the first text-based PDF invoice; the user still reviews before saving
+  async function readInvoice(files: File[]) {
+    const pdf = files.find(f => isPdfFile(f));
+    if (!pdf) return;
+    setIsReadingInvoice(true);
+    try {
+      const fields = await extractInvoiceFields(pdf);
+      const found: string[] = [];
+      if (fields.date) { form.setValue('date', fields.date); found.push('date'); }
+      if (fields.total !== undefined && !form.getValues('amount')) { form.setValue('amount', fields.total); found.push('total'); }
+      if (fields.supplier && !form.getValues('supplier')) { form.setValue('supplier', fields.supplier); found.push('supplier'); }
+      if (fields.vatAmount !== undefined && !form.getValues('vatAmount')) {
+        const gross = Number(form.getValues('amount')) || 0;
+        form.setValue('vatRate', gross - fields.vatAmount > 0 && fields.vatAmount / (gross - fields.vatAmount) < 0.1 ? 'reduced' : 'standard');
+        form.setValue('vatAmount', fields.vatAmount);
+        found.push('VAT');
+      }
+      if (fields.vatNumber && !form.getValues('supplierVatNumber')) { form.setValue('supplierVatNumber', fields.vatNumber); found.push('VAT number'); }
+      toast(found.length
+        ? { title: 'Invoice Details Found', description: `Pre-filled ${found.join(', ')} from ${pdf.name}. Please check before saving.` }
+        : { title: 'No Details Found', description: 'This PDF has no readable text layer. Enter the details manually.' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Could Not Read Invoice' });
+    } finally {
+      setIsReadingInvoice(false);
+    }
+  }
+
   function onSubmit(data: ExpenseFormValues) {
     if (!user || !firestore) return;
     setIsSubmitting(true);
+    const { assetType, expectedLifespanYears, supplier, supplierVatNumber, vatAmount, ...expense } = data;
+    const gross = toPence(expense.amount);
+    const vat = Math.min(toPence(vatAmount), gross);
     const expCol = collection(firestore, 'expenses');
-    addDoc(expCol, { ...data, landlordId: user.uid })
-      .then(() => {
+    Promise.all(receiptFiles.map(async file => toExpenseReceipt(file, await uploadPropertyDocument(file, user.uid, expense.propertyId))))
+      .then(receipts => addDoc(expCol, withPence({
+        ...expense,
+        ...(supplier?.trim() ? { supplier: supplier.trim() } : {}),
+        ...(supplierVatNumber?.trim() ? { supplierVatNumber: normaliseVatNumber(supplierVatNumber) } : {}),
+        vatAmount: fromPence(vat),
+        netAmount: fromPence(gross - vat),
+        receipts,
+        landlordId: user.uid,
+      }, MONEY_FIELDS.expenses)))
+      .then(async (expenseRef) => {
+        // Capital items and domestic replacements can be tracked in the property's asset register
+        if (expense.classification !== 'revenue' && assetType && assetType !== NO_ASSET) {
+          await addDoc(collection(firestore, 'assets'), withPence({
+            landlordId: user.uid,
+            propertyId: expense.propertyId,
+            name: expense.notes || assetType,
+            assetType,
+            purchaseDate: expense.date,
+            cost: expense.amount,
+            expectedLifespanYears: expectedLifespanYears || DEFAULT_ASSET_LIFESPANS[assetType as AssetType] || 10,
+            classification: expense.classification,
+            sourceExpenseId: expenseRef.id,
+          }, MONEY_FIELDS.assets));
+        }
         toast({ title: 'Expense Logged' });
-        form.reset({ propertyId: selectedPropertyId !== 'all' ? selectedPropertyId : '', expenseType: '', notes: '', date: new Date(), paidBy: 'Landlord', amount: 0 });
+        setReceiptFiles([]);
+        form.reset({ propertyId: selectedPropertyId !== 'all' ? selectedPropertyId : '', expenseType: '', notes: '', supplier: '', supplierVatNumber: '', vatRate: 'outside', date: new Date(), paidBy: 'Landlord', amount: 0, classification: 'revenue', assetType: NO_ASSET });
       })
       .catch(() => toast({ variant: 'destructive', title: 'Save Failed' }))
       .finally(() => setIsSubmitting(false));
@@ -240,7 +367,7 @@ function ExpenseTracker({ properties, selectedPropertyId }: { properties: Proper
                         <FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Category</FormLabel>
                         <Select onValueChange={field.onChange} value={field.value}>
                             <FormControl><SelectTrigger className="h-12 bg-muted/5 border-2 rounded-xl"><SelectValue placeholder="Select grouping" /></SelectTrigger></FormControl>
-                            <SelectContent className="rounded-xl border-2 shadow-2xl">{['Repairs and Maintenance','Utilities','Insurance','Mortgage Interest','Cleaning','Gardening','Letting Agent Fees', 'Other'].map(t => <SelectItem key={t} value={t} className="rounded-lg py-3 font-medium">{t}</SelectItem>)}</SelectContent>
+                            <SelectContent className="rounded-xl border-2 shadow-2xl">{EXPENSE_CATEGORIES.map(t => <SelectItem key={t} value={t} className="rounded-lg py-3 font-medium">{t}</SelectItem>)}</SelectContent>
                         </Select>
                         <FormMessage />
                     </FormItem>
@@ -248,10 +375,71 @@ function ExpenseTracker({ properties, selectedPropertyId }: { properties: Proper
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
                 <FormField control={form.control} name="amount" render={({ field }) => (
-                    <FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Transaction Amount (£)</FormLabel><FormControl><Input type="number" step="0.01" className="h-12 bg-muted/5 border-2 rounded-xl font-bold text-lg" {...field} /></FormControl><FormMessage /></FormItem>
+                    <FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Gross Amount (£)</FormLabel><FormControl><Input type="number" step="0.01" className="h-12 bg-muted/5 border-2 rounded-xl font-bold text-lg" {...field} onChange={(e) => { field.onChange(e); form.setValue('vatAmount', splitGross(Number(e.target.value) || 0, vatRate).vat); }} /></FormControl><FormMessage /></FormItem>
                 )} />
                 <FormField control={form.control} name="paidBy" render={({ field }) => (<FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Payer Reference</FormLabel><FormControl><Input className="h-12 bg-muted/5 border-2 rounded-xl" {...field} /></FormControl><FormMessage /></FormItem>)} />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                <FormField control={form.control} name="classification" render={({ field }) => (
+                    <FormItem>
+                        <FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Tax Treatment</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl><SelectTrigger className="h-12 bg-muted/5 border-2 rounded-xl"><SelectValue /></SelectTrigger></FormControl>
+                            <SelectContent className="rounded-xl border-2 shadow-2xl">{Object.entries(EXPENDITURE_CLASS_LABELS).map(([value, label]) => <SelectItem key={value} value={value} className="rounded-lg py-3 font-medium">{label}</SelectItem>)}</SelectContent>
+                        </Select>
+                        <FormDescription className="text-xs">Capital improvements are excluded from annual expenses and added to the property's CGT base cost.</FormDescription>
+                        <FormMessage />
+                    </FormItem>
+                )} />
+                {classification !== 'revenue' && (
+                    <>
+                        <FormField control={form.control} name="assetType" render={({ field }) => (
+                            <FormItem>
+                                <FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Asset Register</FormLabel>
+                                <Select onValueChange={(val) => { field.onChange(val); if (val !== NO_ASSET) form.setValue('expectedLifespanYears', DEFAULT_ASSET_LIFESPANS[val as AssetType]); }} value={field.value || NO_ASSET}>
+                                    <FormControl><SelectTrigger className="h-12 bg-muted/5 border-2 rounded-xl"><SelectValue /></SelectTrigger></FormControl>
+                                    <SelectContent className="rounded-xl border-2 shadow-2xl">
+                                        <SelectItem value={NO_ASSET} className="rounded-lg py-3 font-medium">Do not register</SelectItem>
+                                        {ASSET_TYPES.map(t => <SelectItem key={t} value={t} className="rounded-lg py-3 font-medium">{t}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        {assetType && assetType !== NO_ASSET && (
+                            <FormField control={form.control} name="expectedLifespanYears" render={({ field }) => (
+                                <FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Expected Lifespan (Years)</FormLabel><FormControl><Input type="number" min="0" className="h-12 bg-muted/5 border-2 rounded-xl" {...field} /></FormControl><FormMessage /></FormItem>
+                            )} />
+                        )}
+                    </>
+                )}
+            </div>
+            <div className="space-y-2">
+                <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1 flex items-center gap-2">Receipts & Invoices {isReadingInvoice && <Loader2 className="h-3 w-3 animate-spin" />}</Label>
+                <ReceiptFileInput files={receiptFiles} onChange={setReceiptFiles} onAdded={readInvoice} disabled={isSubmitting} />
+                <p className="text-xs text-muted-foreground px-1">Text-based PDF invoices are read to pre-fill the date, supplier, VAT and total.</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                <FormField control={form.control} name="supplier" render={({ field }) => (<FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Supplier</FormLabel><FormControl><Input className="h-12 bg-muted/5 border-2 rounded-xl" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                <FormField control={form.control} name="supplierVatNumber" render={({ field }) => (<FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Supplier VAT Number</FormLabel><FormControl><Input className="h-12 bg-muted/5 border-2 rounded-xl uppercase" placeholder="GB123456789" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
+                <FormField control={form.control} name="vatRate" render={({ field }) => (
+                    <FormItem>
+                        <FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">VAT Rate</FormLabel>
+                        <Select onValueChange={(val) => { field.onChange(val); form.setValue('vatAmount', splitGross(Number(form.getValues('amount')) || 0, val as VatRate).vat); }} value={field.value}>
+                            <FormControl><SelectTrigger className="h-12 bg-muted/5 border-2 rounded-xl"><SelectValue /></SelectTrigger></FormControl>
+                            <SelectContent className="rounded-xl border-2 shadow-2xl">{Object.entries(VAT_RATES).map(([value, { label }]) => <SelectItem key={value} value={value} className="rounded-lg py-3 font-medium">{label}</SelectItem>)}</SelectContent>
+                        </Select>
+                        <FormMessage />
+                    </FormItem>
+                )} />
+                <FormField control={form.control} name="vatAmount" render={({ field }) => (<FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">VAT (£)</FormLabel><FormControl><Input type="number" step="0.01" min="0" className="h-12 bg-muted/5 border-2 rounded-xl" {...field} value={field.value ?? ''} /></FormControl><FormDescription className="text-xs">Calculated from the gross amount; adjust to match the invoice.</FormDescription><FormMessage /></FormItem>)} />
+                <div className="space-y-2">
+                    <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Net Amount</Label>
+                    <p className="h-12 flex items-center px-4 rounded-xl border-2 bg-muted/20 font-bold tabular-nums">{formatCurrency(Math.max(0, (Number(grossAmount) || 0) - (Number(vatAmount) || 0)))}</p>
+                </div>
+            </div>
             <FormField control={form.control} name="notes" render={({ field }) => (<FormItem><FormLabel className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Audit Notes</FormLabel><FormControl><Textarea className="rounded-2xl min-h-[120px] resize-none border-2 bg-muted/5" {...field} /></FormControl><FormMessage /></FormItem>)} />
             <Button type="submit" disabled={isSubmitting} className="w-full font-bold shadow-2xl h-12 uppercase tracking-widest text-[11px] rounded-xl bg-primary hover:bg-primary/90 transition-all">
                 {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
@@ -271,7 +459,10 @@ function AnnualSummary({
     totalPaidRent, 
     isLoadingExpenses, 
     landlordName, 
-    propertyAddress 
+    propertyAddress,
+    properties,
+    rentPayments,
+    taxProfile
 }: { 
     selectedYear: number, 
     expenses: Expense[], 
@@ -279,26 +470,37 @@ function AnnualSummary({
     totalPaidRent: number, 
     isLoadingExpenses: boolean,
     landlordName: string,
-    propertyAddress: string
+    propertyAddress: string,
+    properties: Property[],
+    rentPayments: RentPayment[],
+    taxProfile: TaxProfile
 }) {
   const [isExporting, setIsExporting] = useState(false);
 
   const expensesByCategory = useMemo(() => {
     const map: Record<string, number> = {};
-    expenses.forEach(e => { map[e.expenseType] = (map[e.expenseType] || 0) + (Number(e.amount) || 0); });
-    const totalRepairCost = repairCosts.reduce((acc, r) => acc + (Number(r.expectedCost || r.estimatedCost || 0)), 0);
-    if (totalRepairCost > 0) map['Repairs and Maintenance'] = (map['Repairs and Maintenance'] || 0) + totalRepairCost;
+    expenses.forEach(e => { map[e.expenseType] = sumMoney([map[e.expenseType] || 0, poundsOf(e, 'amount')]); });
+    const totalRepairCost = sumMoney(repairCosts.map(repairCostOf));
+    if (totalRepairCost > 0) map['Repairs and Maintenance'] = sumMoney([map['Repairs and Maintenance'] || 0, totalRepairCost]);
     return Object.entries(map).sort(([, a], [, b]) => b - a);
   }, [expenses, repairCosts]);
 
-  const totalExpenditure = expensesByCategory.reduce((acc, [, amount]) => acc + amount, 0);
+  // Individuals cannot deduct residential finance costs (Section 24); companies can
+  const isCompany = taxProfile.ownershipType === 'limited_company';
+  const restrictsFinanceCosts = (category: string) => !isCompany && isFinanceCost(category);
+  const totalExpenditure = expensesByCategory.reduce((acc, [name, amount]) => restrictsFinanceCosts(name) ? acc : acc + amount, 0);
   const netPosition = totalPaidRent - totalExpenditure;
 
+  const taxComputation = useMemo(
+    () => computePropertyTax(buildTaxInputs(properties, rentPayments, expenses, repairCosts), taxProfile),
+    [properties, rentPayments, expenses, repairCosts, taxProfile]
+  );
+
   const handleExportHMRC = async () => {
     if (isExporting) return;
     setIsExporting(true);
     try {
-        await generateHMRCPDF(selectedYear, landlordName, totalPaidRent, expenses, repairCosts, propertyAddress);
+        await generateHMRCPDF(selectedYear, landlordName, totalPaidRent, expenses, repairCosts, propertyAddress, taxComputation);
         toast({ title: 'HMRC Briefing Generated' });
     } catch (err) {
         console.error(err);
@@ -308,6 +510,26 @@ function AnnualSummary({
     }
   };
 
+  const receiptCount = useMemo(() => receiptArchiveItems(expenses).length, [expenses]);
+
+  // Briefing PDF plus every receipt it references, as a single ZIP for the accountant
+  const handleExportBundle = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+        const fileName = hmrcBriefingFileName(selectedYear, landlordName);
+        const doc = buildHMRCPDF(selectedYear, landlordName, totalPaidRent, expenses, repairCosts, propertyAddress, taxComputation);
+        const zip = await buildReceiptBundle(expenses, [{ name: `${fileName}.pdf`, data: new Uint8Array(doc.output('arraybuffer')) }]);
+        downloadFile(new Blob([zip], { type: 'application/zip' }), `${fileName}-with-receipts.zip`);
+        toast({ title: 'Export Bundle Generated', description: `${receiptCount} receipt${receiptCount === 1 ? '' : 's'} included.` });
+    } catch (err) {
+        console.error(err);
+        toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+        setIsExporting(false);
+    }
+  };
+
   return (
     <Card className="mt-6 border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
         <CardHeader className="bg-primary/5 border-b border-primary/10 px-8 py-8 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
@@ -332,9 +554,12 @@ function AnnualSummary({
                                 <TableCell className="text-right font-bold pr-8 text-lg tabular-nums text-green-700">{formatCurrency(totalPaidRent)}</TableCell>
                             </TableRow>
                             {expensesByCategory.map(([name, amount]) => (
-                                <TableRow key={name} className="hover:bg-primary/[0.02] transition-colors group border-b">
-                                    <TableCell className="font-bold pl-8 py-6 text-base group-hover:text-primary transition-colors leading-tight">{name}</TableCell>
-                                    <TableCell className="text-right font-bold pr-8 text-lg tabular-nums">{formatCurrency(amount)}</TableCell>
+                                <TableRow key={name} className={cn("hover:bg-primary/[0.02] transition-colors group border-b", restrictsFinanceCosts(name) && "bg-amber-50/40")}>
+                                    <TableCell className="font-bold pl-8 py-6 text-base group-hover:text-primary transition-colors leading-tight">
+                                        {name}
+                                        {restrictsFinanceCosts(name) && <span className="block text-[10px] font-bold uppercase tracking-widest text-amber-700 mt-1">Not deductible &middot; 20% tax credit (Section 24)</span>}
+                                    </TableCell>
+                                    <TableCell className={cn("text-right font-bold pr-8 text-lg tabular-nums", restrictsFinanceCosts(name) && "text-muted-foreground")}>{formatCurrency(amount)}</TableCell>
                                 </TableRow>
                             ))}
                             <TableRow className="bg-muted/20 border-t-2">
@@ -345,6 +570,31 @@ function AnnualSummary({
                                 <TableCell className={cn("font-black pl-8 py-8 text-lg leading-tight", netPosition >= 0 ? "text-primary" : "text-destructive")}>Net Taxable Position</TableCell>
                                 <TableCell className={cn("text-right font-black pr-8 text-2xl tabular-nums", netPosition >= 0 ? "text-primary" : "text-destructive")}>{formatCurrency(netPosition)}</TableCell>
                             </TableRow>
+                            <TableRow className="bg-muted/30">
+                                <TableCell colSpan={2} className="pl-8 py-4 font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">
+                                    Estimated {isCompany ? 'Corporation' : 'Income'} Tax{taxComputation.properties.some(p => p.share < 1) ? ' (your ownership share)' : ''}
+                                </TableCell>
+                            </TableRow>
+                            {taxComputation.bands.filter(b => b.taxable > 0).map(band => (
+                                <TableRow key={band.name} className="border-b">
+                                    <TableCell className="pl-8 py-4 font-medium">{band.name} <span className="text-muted-foreground text-sm">({formatCurrency(band.taxable)} @ {(Math.abs(band.rate) * 100).toFixed(1).replace(/\.0$/, '')}%)</span></TableCell>
+                                    <TableCell className="text-right pr-8 font-bold tabular-nums">{formatCurrency(band.tax)}</TableCell>
+                                </TableRow>
+                            ))}
+                            {!isCompany && taxComputation.financeCostCredit > 0 && (
+                                <TableRow className="border-b">
+                                    <TableCell className="pl-8 py-4 font-medium text-green-700">Less: Finance Cost Tax Credit (20% of {formatCurrency(taxComputation.financeCostCredit / 0.2)})</TableCell>
+                                    <TableCell className="text-right pr-8 font-bold tabular-nums text-green-700">-{formatCurrency(taxComputation.financeCostCredit)}</TableCell>
+                                </TableRow>
+                            )}
+                            <TableRow className="bg-amber-50/50 border-t-2">
+                                <TableCell className="pl-8 py-6 font-black text-base">
+                                    Estimated Liability
+                                    {!isCompany && taxComputation.otherIncome > 0 && <span className="block text-xs font-medium text-muted-foreground mt-1">Includes tax on {formatCurrency(taxComputation.otherIncome)} other income; {formatCurrency(taxComputation.propertyTaxLiability)} relates to property.</span>}
+                                    {!isCompany && taxComputation.unrelievedFinanceCosts > 0 && <span className="block text-xs font-medium text-amber-700 mt-1">{formatCurrency(taxComputation.unrelievedFinanceCosts)} of finance costs carried forward.</span>}
+                                </TableCell>
+                                <TableCell className="text-right pr-8 font-black text-xl tabular-nums">{formatCurrency(taxComputation.estimatedLiability)}</TableCell>
+                            </TableRow>
                         </TableBody>
                     </Table>
                 </div>
@@ -354,7 +604,11 @@ function AnnualSummary({
             <p className="text-xs text-muted-foreground italic leading-relaxed text-left w-full">
                 * This summary is provided for administrative audit purposes. Please consult with a qualified accountant for official HMRC self-assessment submissions.
             </p>
-            <div className="w-full flex justify-end">
+            <div className="w-full flex flex-col sm:flex-row justify-end gap-3">
+                <Button variant="outline" onClick={handleExportBundle} disabled={isExporting || isLoadingExpenses || receiptCount === 0} className="font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl border-2">
+                    <FileText className="h-4 w-4 mr-2" />
+                    PDF + Receipts ZIP ({receiptCount})
+                </Button>
                 <Button onClick={handleExportHMRC} disabled={isExporting || isLoadingExpenses} className="shadow-lg font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl bg-primary hover:bg-primary/90">
                     {isExporting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Download className="h-4 w-4 mr-2" />}
                     HMRC Self Assessment PDF
@@ -380,18 +634,22 @@ function ExpenseHistory({ selectedYear, expenses, repairCosts, properties }: { s
             date: safeToDate(e.date), 
             category: e.expenseType,
             description: e.notes || e.expenseType,
-            amount: e.amount, 
+            amount: poundsOf(e, 'amount'), 
             property: propertyMap[e.propertyId] || 'Property Context Missing',
-            isRepair: false 
+            isRepair: false,
+            classification: expenditureClassOf(e),
+            receipts: e.receipts || []
         }));
         const repairs = repairCosts.map(r => ({ 
             id: r.id, 
             date: safeToDate(r.reportedDate), 
             category: 'Repairs and Maintenance',
             description: r.title,
-            amount: r.expectedCost || r.estimatedCost || 0, 
+            amount: repairCostOf(r), 
             property: propertyMap[r.propertyId] || 'Property Context Missing',
-            isRepair: true 
+            isRepair: true,
+            classification: expenditureClassOf(r),
+            receipts: [] as ExpenseReceipt[]
         }));
         return [...exps, ...repairs].sort((a, b) => (b.date?.getTime() || 0) - (a.date?.getTime() || 0));
     }, [expenses, repairCosts, propertyMap]);
@@ -433,8 +691,14 @@ function ExpenseHistory({ selectedYear, expenses, repairCosts, properties }: { s
                                                             {t.isRepair ? <Wrench className="h-3 w-3 mr-1.5 shrink-0" /> : <FileText className="h-3 w-3 mr-1.5 shrink-0" />}
                                                             <span className="leading-tight flex-1">{t.category}</span>
                                                         </Badge>
+                                                        {t.classification !== 'revenue' && (
+                                                            <Badge variant="outline" className="h-auto py-1 text-[9px] uppercase font-black px-2.5 rounded-lg border-2 border-amber-300 text-amber-700 bg-amber-50">
+                                                                {EXPENDITURE_CLASS_LABELS[t.classification]}
+                                                            </Badge>
+                                                        )}
                                                     </div>
                                                     <p className="text-sm font-bold text-foreground leading-relaxed break-words">{t.description}</p>
+                                                    <ReceiptThumbnails receipts={t.receipts} size="sm" />
                                                 </div>
                                             </TableCell>
                                             <TableCell className="text-right pr-6 font-black text-foreground tabular-nums text-base whitespace-nowrap align-top">{formatCurrency(t.amount)}</TableCell>
@@ -464,6 +728,11 @@ function ExpenseHistory({ selectedYear, expenses, repairCosts, properties }: { s
                                                 {t.isRepair ? <Wrench className="h-2.5 w-2.5 mr-1" /> : <FileText className="h-2.5 w-2.5 mr-1" />}
                                                 {t.category}
                                             </Badge>
+                                            {t.classification !== 'revenue' && (
+                                                <Badge variant="outline" className="h-auto py-1 text-[8px] uppercase font-bold px-2 rounded-md border border-amber-300 text-amber-700 bg-amber-50 ml-1">
+                                                    {EXPENDITURE_CLASS_LABELS[t.classification]}
+                                                </Badge>
+                                            )}
                                             <p className="text-sm font-medium text-foreground leading-snug break-words">"{t.description}"</p>
                                         </div>
                                     </CardContent>
@@ -477,57 +746,130 @@ function ExpenseHistory({ selectedYear, expenses, repairCosts, properties }: { s
     );
 }
 
-function RentStatement({ selectedProperty, activeTenant, selectedYear, rentPayments, isLoadingPayments }: { selectedProperty: Property | undefined, activeTenant: Tenant | undefined, selectedYear: number, rentPayments: RentPayment[] | null, isLoadingPayments: boolean }) {
+const PAYMENT_METHODS = ['Bank Transfer', 'Standing Order', 'Cash', 'Cheque', 'Card', 'Other'];
+
+function RentStatement({ selectedProperty, activeTenant, selectedYear }: { selectedProperty: Property | undefined, activeTenant: Tenant | undefined, selectedYear: number }) {
   const { user } = useUser();
   const firestore = useFirestore();
   const [isExporting, setIsExporting] = useState(false);
-  
+  const [isRecording, setIsRecording] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('Bank Transfer');
+
+  useEffect(() => {
+    setPaymentDate(format(new Date(), 'yyyy-MM-dd'));
+  }, []);
+
+  const chargesQuery = useMemoFirebase(() => {
+    if (!user || !firestore || !activeTenant) return null;
+    return query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid), where('tenantId', '==', activeTenant.id));
+  }, [user, firestore, activeTenant]);
+  const { data: chargeDocs, isLoading: isLoadingCharges } = useCollection<RentChargeRecord>(chargesQuery);
+
+  const paymentsQuery = useMemoFirebase(() => {
+    if (!user || !firestore || !selectedProperty) return null;
+    return query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid), where('propertyId', '==', selectedProperty.id));
+  }, [user, firestore, selectedProperty]);
+  const { data: paymentDocs, isLoading: isLoadingPayments } = useCollection<RentPayment>(paymentsQuery);
+
+  // Every tenancy at the property, past and present, decides who a tenantless legacy payment belongs to
+  const tenanciesQuery = useMemoFirebase(() => {
+    if (!user || !firestore || !selectedProperty) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('propertyId', '==', selectedProperty.id));
+  }, [user, firestore, selectedProperty]);
+  const { data: tenancies, isLoading: isLoadingTenancies } = useCollection<Tenant>(tenanciesQuery);
+
+  const ledger = useMemo(() => {
+    if (!activeTenant || !tenancies) return null;
+    const charges = (chargeDocs || []).map(toRentCharge).filter((c): c is NonNullable<typeof c> => c !== null);
+    return buildRentLedger(charges, paymentsForTenancy(activeTenant, paymentDocs || [], tenancies));
+  }, [chargeDocs, paymentDocs, tenancies, activeTenant]);
+
+  const unallocatedCount = useMemo(() => unallocatedPayments(paymentDocs || [], tenancies || []).length, [paymentDocs, tenancies]);
+
   const statement = useMemo(() => {
-    const defaultRent = activeTenant?.monthlyRent || selectedProperty?.tenancy?.monthlyRent || 0;
-    const paymentsMap = rentPayments?.reduce((acc, p) => { acc[p.month] = p; return acc; }, {} as Record<string, RentPayment>);
-    
-    return MONTHS.map(month => {
-        return { 
-            month, 
-            year: selectedYear,
-            rent: paymentsMap?.[month]?.expectedAmount ?? defaultRent, 
-            amountPaid: paymentsMap?.[month]?.amountPaid ?? 0,
-            status: paymentsMap?.[month]?.status || 'Pending' 
-        };
+    if (!ledger) return null;
+    return sliceRentLedger(ledger, startOfYear(new Date(selectedYear, 0, 1)), endOfYear(new Date(selectedYear, 0, 1)));
+  }, [ledger, selectedYear]);
+
+  const collectionRate = statement && statement.charged > 0 ? Math.min(100, (statement.paid / statement.charged) * 100) : 0;
+
+  const recordPayment = async (amount: number, paidOn: Date, reference?: string, method?: string) => {
+    if (!firestore || !user || !selectedProperty || !activeTenant) return;
+    await addDoc(collection(firestore, 'rentPayments'), {
+        landlordId: user.uid,
+        propertyId: selectedProperty.id,
+        tenantId: activeTenant.id,
+        amountPaid: roundMoney(amount),
+        amountPaidPence: toPence(amount),
+        paidDate: paidOn,
+        month: MONTHS[paidOn.getMonth()],
+        year: paidOn.getFullYear(),
+        status: 'Paid',
+        method: method || 'Bank Transfer',
+        reference: reference || '',
+        recordedDate: new Date().toISOString(),
     });
-  }, [selectedProperty, activeTenant, rentPayments, selectedYear]);
-
-  const collectionStats = useMemo(() => {
-    const totalExpected = statement.reduce((acc, s) => acc + Number(s.rent), 0);
-    const totalCollected = statement.reduce((acc, s) => acc + Number(s.amountPaid), 0);
-    const remaining = totalExpected - totalCollected;
-    const rate = totalExpected > 0 ? (totalCollected / totalExpected) * 100 : 0;
-    return { totalExpected, totalCollected, remaining, rate };
-  }, [statement]);
-
-  const handleStatusChange = (month: string, calendarYear: number, status: PaymentStatus) => {
-    if (!firestore || !user || !selectedProperty) return;
-    const rentPaymentId = `${selectedProperty.id}-${calendarYear}-${month}`;
-    const row = statement.find(s => s.month === month && s.year === calendarYear);
-    const expectedAmount = Number(row?.rent ?? 0);
-    
-    setDoc(doc(firestore, 'rentPayments', rentPaymentId), { 
-        landlordId: user.uid, 
-        propertyId: selectedProperty.id, 
-        year: calendarYear, 
-        month, 
-        status, 
-        expectedAmount, 
-        amountPaid: status === 'Paid' ? expectedAmount : (status === 'Partially Paid' ? (Number(row?.amountPaid) || 0) : 0)
-    }, { merge: true }).then(() => toast({ title: 'Registry Sync Successful' }));
+  };
+
+  const handleRecordPayment = async () => {
+    const amount = parseMoney(paymentAmount) ?? 0;
+    const paidOn = safeToDate(paymentDate);
+    if (!amount || amount <= 0 || !paidOn) {
+        toast({ variant: 'destructive', title: 'Invalid Payment', description: 'Enter a positive amount and a payment date.' });
+        return;
+    }
+    setIsRecording(true);
+    try {
+        await recordPayment(amount, paidOn, paymentReference, paymentMethod);
+        setPaymentAmount('');
+        setPaymentReference('');
+        toast({ title: 'Payment Recorded', description: `${formatCurrency(amount)} allocated against the rent ledger.` });
+    } catch (err) {
+        console.error(err);
+        toast({ variant: 'destructive', title: 'Save Failed' });
+    } finally {
+        setIsRecording(false);
+    }
+  };
+
+  const handleSettleCharge = (allocation: RentChargeAllocation) => {
+    recordPayment(allocation.outstanding, new Date(), `Settlement ${format(allocation.charge.dueDate, 'dd/MM/yyyy')}`)
+        .then(() => toast({ title: 'Registry Sync Successful' }))
+        .catch(() => toast({ variant: 'destructive', title: 'Save Failed' }));
+  };
+
+  const handleGenerateSchedule = async () => {
+    if (!firestore || !user || !activeTenant || !selectedProperty) return;
+    setIsGenerating(true);
+    try {
+        const writes = await syncRentSchedule(firestore, {
+            tenantId: activeTenant.id,
+            propertyId: selectedProperty.id,
+            landlordId: user.uid,
+            monthlyRent: poundsOf(activeTenant, 'monthlyRent'),
+            rentDueDay: activeTenant.rentDueDay || 1,
+            tenancyStartDate: activeTenant.tenancyStartDate,
+            tenancyEndDate: activeTenant.tenancyEndDate,
+        });
+        toast({ title: 'Rent Schedule Generated', description: `${writes} charge entries synchronised.` });
+    } catch (err) {
+        console.error(err);
+        toast({ variant: 'destructive', title: 'Schedule Failed' });
+    } finally {
+        setIsGenerating(false);
+    }
   };
 
   const handleExportStatement = async () => {
-    if (!selectedProperty || isExporting) return;
+    if (!selectedProperty || !statement || isExporting) return;
     setIsExporting(true);
     try {
         const addr = [selectedProperty.address.nameOrNumber, selectedProperty.address.street, selectedProperty.address.city, selectedProperty.address.postcode].filter(Boolean).join(', ');
-        await generateRentPDF(selectedYear, addr, activeTenant?.name || 'Assigned Resident', statement, collectionStats);
+        await generateRentPDF(addr, activeTenant?.name || 'Assigned Resident', statement);
         toast({ title: 'Rental Statement Generated' });
     } catch (err) {
         console.error(err);
@@ -537,20 +879,27 @@ function RentStatement({ selectedProperty, activeTenant, selectedYear, rentPayme
     }
   };
 
-  if (!selectedProperty) return (
+  if (!selectedProperty || !activeTenant) return (
     <Card className="mt-6 border-2 border-dashed bg-muted/5 h-[450px] flex items-center justify-center rounded-[2rem]">
         <CardContent className='text-center space-y-6 max-w-xs'>
             <div className="bg-background p-8 rounded-full w-fit mx-auto shadow-2xl border-2 border-primary/10">
                 <Banknote className="h-12 w-12 text-primary/30" />
             </div>
             <div className="space-y-2">
-                <p className="text-foreground font-bold text-xl font-headline">Portfolio Context Required</p>
-                <p className="text-sm text-muted-foreground leading-relaxed">Please select a specific property from the registry view to access the interactive rent ledger.</p>
+                <p className="text-foreground font-bold text-xl font-headline">{selectedProperty ? 'No Active Tenancy' : 'Portfolio Context Required'}</p>
+                <p className="text-sm text-muted-foreground leading-relaxed">
+                    {selectedProperty
+                        ? 'Assign an active tenant with an agreed monthly rent to start the automated rent ledger.'
+                        : 'Please select a specific property from the registry view to access the interactive rent ledger.'}
+                </p>
             </div>
         </CardContent>
     </Card>
   );
 
+  const isLoadingLedger = isLoadingCharges || isLoadingPayments || isLoadingTenancies || !statement || !ledger;
+  const hasSchedule = (chargeDocs?.length || 0) > 0;
+
   return (
     <div className="space-y-8 animate-in fade-in duration-700 text-left">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-6">
@@ -562,8 +911,8 @@ function RentStatement({ selectedProperty, activeTenant, selectedYear, rentPayme
                     </CardTitle>
                 </CardHeader>
                 <CardContent className="flex-1 flex flex-col justify-center pb-5 px-5">
-                    <span className="text-lg font-black text-green-600 tracking-tight leading-none mb-1 tabular-nums">{formatCurrency(collectionStats.totalCollected)}</span>
-                    <p className="text-[9px] font-bold text-muted-foreground uppercase">Confirmed Registry Income</p>
+                    <span className="text-lg font-black text-green-600 tracking-tight leading-none mb-1 tabular-nums">{formatCurrency(statement?.paid || 0)}</span>
+                    <p className="text-[9px] font-bold text-muted-foreground uppercase">Received in {selectedYear}</p>
                 </CardContent>
             </Card>
             
@@ -571,12 +920,14 @@ function RentStatement({ selectedProperty, activeTenant, selectedYear, rentPayme
                 <CardHeader className="pb-2 px-5 pt-5 shrink-0">
                     <CardTitle className="text-[11px] font-bold uppercase tracking-tight text-muted-foreground flex items-center gap-2 leading-tight">
                         <AlertCircle className="h-3.5 w-3.5 text-destructive" />
-                        <span>Total Outstanding Arrears</span>
+                        <span>{ledger && ledger.credit > 0 && ledger.arrears === 0 ? 'Credit Carried Forward' : 'Total Outstanding Arrears'}</span>
                     </CardTitle>
                 </CardHeader>
                 <CardContent className="flex-1 flex flex-col justify-center pb-5 px-5">
-                    <span className="text-lg font-black text-destructive tracking-tight leading-none mb-1 tabular-nums">{formatCurrency(collectionStats.remaining)}</span>
-                    <p className="text-[9px] font-bold text-muted-foreground uppercase">Pending Ledger Balance</p>
+                    <span className={cn("text-lg font-black tracking-tight leading-none mb-1 tabular-nums", ledger && ledger.arrears > 0 ? "text-destructive" : "text-primary")}>
+                        {formatCurrency(ledger ? (ledger.arrears > 0 ? ledger.arrears : ledger.credit) : 0)}
+                    </span>
+                    <p className="text-[9px] font-bold text-muted-foreground uppercase">Tenancy Balance To Date</p>
                 </CardContent>
             </Card>
 
@@ -588,139 +939,138 @@ function RentStatement({ selectedProperty, activeTenant, selectedYear, rentPayme
                     </CardTitle>
                 </CardHeader>
                 <CardContent className="flex-1 flex flex-col justify-center px-5 pb-5 space-y-3">
-                    <span className="text-lg font-black text-primary tracking-tight leading-none tabular-nums">{collectionStats.rate.toFixed(1)}%</span>
-                    <Progress value={collectionStats.rate} className="h-2 bg-muted shadow-inner" />
+                    <span className="text-lg font-black text-primary tracking-tight leading-none tabular-nums">{collectionRate.toFixed(1)}%</span>
+                    <Progress value={collectionRate} className="h-2 bg-muted shadow-inner" />
                 </CardContent>
             </Card>
         </div>
 
+        <Card className="border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
+            <CardHeader className="bg-primary/5 border-b px-8 py-6">
+                <CardTitle className="text-lg font-headline flex items-center gap-3 text-primary"><PlusCircle className="h-5 w-5" /> Record Rent Payment</CardTitle>
+                <CardDescription className="text-sm font-medium">Payments are allocated to the oldest outstanding charge; any surplus is held as credit.</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 px-8 pb-8 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                <div className="grid gap-1.5">
+                    <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Amount (£)</Label>
+                    <Input type="number" step="0.01" min="0" className="h-11 border-2 rounded-xl font-bold" value={paymentAmount} onChange={(e) => setPaymentAmount(e.target.value)} />
+                </div>
+                <div className="grid gap-1.5">
+                    <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Date Received</Label>
+                    <Input type="date" className="h-11 border-2 rounded-xl" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+                </div>
+                <div className="grid gap-1.5">
+                    <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Method</Label>
+                    <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                        <SelectTrigger className="h-11 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+                        <SelectContent className="rounded-xl border-2 shadow-2xl">{PAYMENT_METHODS.map(m => <SelectItem key={m} value={m} className="py-3 font-medium">{m}</SelectItem>)}</SelectContent>
+                    </Select>
+                </div>
+                <div className="grid gap-1.5">
+                    <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Reference</Label>
+                    <Input className="h-11 border-2 rounded-xl" value={paymentReference} onChange={(e) => setPaymentReference(e.target.value)} />
+                </div>
+                <Button onClick={handleRecordPayment} disabled={isRecording} className="md:col-span-4 font-bold shadow-lg h-11 uppercase tracking-widest text-[10px] rounded-xl bg-primary hover:bg-primary/90">
+                    {isRecording ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+                    Post Payment to Ledger
+                </Button>
+            </CardContent>
+        </Card>
+
         <Card className="border-none shadow-2xl rounded-[2.5rem] overflow-hidden text-left bg-card">
-            <CardHeader className="bg-primary/5 border-b border-primary/10 px-8 py-8 flex flex-row items-center justify-between">
+            <CardHeader className="bg-primary/5 border-b border-primary/10 px-8 py-8 flex flex-row items-center justify-between gap-4">
                 <div className="text-left space-y-1">
                     <CardTitle className="text-xl font-headline flex items-center gap-3">
-                        Monthly Rent Ledger: {selectedYear}
+                        Tenancy Rent Ledger: {selectedYear}
                     </CardTitle>
                     <CardDescription className="text-sm font-medium flex items-center gap-2">
                         <MapPin className="h-3.5 w-3.5 text-primary" />
-                        {selectedProperty.address.street}
+                        {selectedProperty.address.street} &middot; {activeTenant.name}
                     </CardDescription>
                 </div>
+                <Button variant="outline" onClick={handleGenerateSchedule} disabled={isGenerating || !activeTenant.monthlyRent} className="font-bold uppercase tracking-widest text-[10px] h-10 px-5 rounded-xl gap-2 shrink-0">
+                    {isGenerating ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <History className="h-3.5 w-3.5" />}
+                    {hasSchedule ? 'Resync Schedule' : 'Generate Schedule'}
+                </Button>
             </CardHeader>
             <CardContent className='p-0'>
-                {isLoadingPayments ? (
+                {isLoadingLedger ? (
                     <div className="p-32 flex flex-col items-center gap-4"><Loader2 className="h-12 w-12 animate-spin text-primary" /><p className="text-xs font-bold uppercase tracking-widest text-muted-foreground animate-pulse">Syncing Ledger...</p></div>
                 ) : (
                     <>
-                        <div className="hidden md:block">
-                            <Table className="w-full table-fixed">
-                                <TableHeader className="bg-muted/30">
-                                    <TableRow>
-                                        <TableHead className="w-[25%] pl-6 py-6 font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Period</TableHead>
-                                        <TableHead className="w-[20%] font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground text-left">Rent Amount (£)</TableHead>
-                                        <TableHead className="w-[25%] font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Status</TableHead>
-                                        <TableHead className="w-[30%] pr-6 font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground text-right">Action</TableHead>
-                                    </TableRow>
-                                </TableHeader>
-                                <TableBody>
-                                    {statement.map((row) => (
-                                        <TableRow key={`${selectedProperty.id}-${row.month}-${row.year}`} className="hover:bg-primary/[0.02] transition-all group border-b border-muted/50">
-                                            <TableCell className="pl-6 py-8 text-left">
-                                                <div className="flex flex-col gap-0.5 text-left">
-                                                    <span className="text-lg font-bold text-foreground group-hover:text-primary transition-colors">{row.month}</span>
-                                                    <span className="text-[10px] text-muted-foreground font-bold uppercase tracking-widest flex items-center gap-1.5"><Calendar className="h-3 w-3" /> {row.year}</span>
-                                                </div>
-                                            </TableCell>
-                                            <TableCell>
-                                                <div className="flex justify-start items-center h-12">
-                                                    <span className="text-lg font-black text-foreground tabular-nums tracking-tighter">
-                                                        {formatCurrency(Number(row.rent))}
-                                                    </span>
-                                                </div>
-                                            </TableCell>
-                                            <TableCell>
-                                                <Badge 
-                                                    variant={row.status === 'Paid' ? 'default' : row.status === 'Unpaid' ? 'destructive' : 'secondary'}
-                                                    className={cn(
-                                                        "text-[9px] uppercase font-bold px-4 h-7 gap-2 shadow-sm rounded-lg",
-                                                        row.status === 'Paid' && "bg-green-100 text-green-800 border-green-200"
-                                                    )}
-                                                >
-                                                    {row.status === 'Paid' ? <CheckCircle2 className="h-3.5 w-3.5" /> : row.status === 'Pending' ? <Clock className="h-3.5 w-3.5" /> : <AlertCircle className="h-3.5 w-3.5" />}
-                                                    {row.status}
-                                                </Badge>
-                                            </TableCell>
-                                            <TableCell className="pr-6 text-right">
-                                                <Select value={row.status} onValueChange={(v) => handleStatusChange(row.month, row.year, v as PaymentStatus)}>
-                                                    <SelectTrigger className={cn(
-                                                        "w-full h-11 text-xs font-bold ml-auto shadow-md rounded-xl border-2 transition-all",
-                                                        row.status === 'Paid' ? "border-green-200 bg-green-50/30" : "bg-background"
-                                                    )}>
-                                                        <SelectValue />
-                                                    </SelectTrigger>
-                                                    <SelectContent align="end" className="rounded-xl p-1 shadow-2xl min-w-[220px] border-2">
-                                                        <SelectItem value="Paid" className="text-green-600 font-bold rounded-lg focus:bg-green-50 focus:text-green-700 py-3.5 cursor-pointer">Mark as Paid</SelectItem>
-                                                        <SelectItem value="Partially Paid" className="rounded-lg py-3.5 cursor-pointer font-bold">Partially Paid</SelectItem>
-                                                        <SelectItem value="Unpaid" className="text-destructive font-bold rounded-lg focus:bg-destructive/5 focus:text-destructive py-3.5 cursor-pointer">Unpaid / Overdue</SelectItem>
-                                                        <SelectItem value="Pending" className="rounded-lg py-3.5 cursor-pointer font-bold">Payment Pending</SelectItem>
-                                                    </SelectContent>
-                                                </Select>
-                                            </TableCell>
-                                        </TableRow>
-                                    ))}
-                                </TableBody>
-                            </Table>
+                        {unallocatedCount > 0 && (
+                            <div className="px-8 py-3 bg-amber-50 border-b border-amber-200 text-xs font-medium text-amber-800 flex items-center gap-2">
+                                <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+                                {unallocatedCount} payment{unallocatedCount === 1 ? '' : 's'} at this property {unallocatedCount === 1 ? 'has' : 'have'} no tenant recorded and cannot be matched to a single tenancy, so {unallocatedCount === 1 ? 'it is' : 'they are'} left off this statement.
+                            </div>
+                        )}
+                        <div className="px-8 py-4 bg-muted/10 border-b flex justify-between text-xs font-bold uppercase tracking-widest text-muted-foreground">
+                            <span>Balance Brought Forward</span>
+                            <span className="tabular-nums">{formatBalance(statement.openingBalance)}</span>
                         </div>
-
-                        <div className="md:hidden grid gap-4 p-4 bg-muted/5">
-                            {statement.map((row) => (
-                                <Card key={`${selectedProperty.id}-${row.month}-${row.year}`} className="shadow-sm border-none overflow-hidden relative text-left">
-                                    <div className={cn(
-                                        "absolute left-0 top-0 bottom-0 w-1",
-                                        row.status === 'Paid' ? "bg-green-500" : row.status === 'Unpaid' ? "bg-destructive" : "bg-primary"
-                                    )} />
-                                    <CardContent className="p-4 space-y-4 pl-5">
-                                        <div className="flex justify-between items-start">
-                                            <div className="text-left">
-                                                <p className="text-base font-bold text-foreground">{row.month}</p>
-                                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">{row.year}</p>
-                                            </div>
-                                            <span className="text-base font-black tabular-nums">{formatCurrency(Number(row.rent))}</span>
-                                        </div>
-                                        <div className="flex flex-col gap-3">
-                                            <Badge 
-                                                variant={row.status === 'Paid' ? 'default' : row.status === 'Unpaid' ? 'destructive' : 'secondary'}
-                                                className={cn(
-                                                    "w-fit text-[8px] uppercase font-bold px-3 h-6 gap-1.5 shadow-sm rounded-md",
-                                                    row.status === 'Paid' && "bg-green-100 text-green-800 border-green-200"
-                                                )}
-                                            >
-                                                {row.status === 'Paid' ? <CheckCircle2 className="h-3 w-3" /> : row.status === 'Pending' ? <Clock className="h-3 w-3" /> : <AlertCircle className="h-3 w-3" />}
-                                                {row.status}
-                                            </Badge>
-                                            <div className="space-y-1">
-                                                <Label className="text-[9px] uppercase font-bold text-muted-foreground">Action</Label>
-                                                <Select value={row.status} onValueChange={(v) => handleStatusChange(row.month, row.year, v as PaymentStatus)}>
-                                                    <SelectTrigger className="w-full h-11 text-xs font-bold bg-background shadow-none border-2">
-                                                        <SelectValue />
-                                                    </SelectTrigger>
-                                                    <SelectContent className="rounded-xl border-2 shadow-2xl min-w-[220px]">
-                                                        <SelectItem value="Paid" className="py-3.5 font-bold text-green-600">Mark as Paid</SelectItem>
-                                                        <SelectItem value="Partially Paid" className="py-3.5 font-bold">Partially Paid</SelectItem>
-                                                        <SelectItem value="Unpaid" className="py-3.5 font-bold text-destructive">Unpaid / Overdue</SelectItem>
-                                                        <SelectItem value="Pending" className="py-3.5 font-bold">Payment Pending</SelectItem>
-                                                    </SelectContent>
-                                                </Select>
-                                            </div>
-                                        </div>
-                                    </CardContent>
-                                </Card>
-                            ))}
+                        {statement.charges.length === 0 && statement.entries.length === 0 ? (
+                            <div className="py-24 text-center text-muted-foreground italic">
+                                {hasSchedule ? 'No ledger activity for this period.' : 'No rent schedule yet. Generate one from the tenancy terms.'}
+                            </div>
+                        ) : (
+                            <div className="overflow-x-auto">
+                                <Table className="w-full">
+                                    <TableHeader className="bg-muted/30">
+                                        <TableRow>
+                                            <TableHead className="pl-6 py-5 font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Date</TableHead>
+                                            <TableHead className="font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Entry</TableHead>
+                                            <TableHead className="text-right font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Charge</TableHead>
+                                            <TableHead className="text-right font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Paid</TableHead>
+                                            <TableHead className="text-right font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Balance</TableHead>
+                                            <TableHead className="pr-6 text-right font-bold uppercase text-[10px] tracking-[0.2em] text-muted-foreground">Status</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {statement.entries.map((entry) => {
+                                            const allocation = entry.kind === 'charge' ? statement.charges.find(a => a.charge.id === entry.id) : undefined;
+                                            return (
+                                                <TableRow key={`${entry.kind}-${entry.id}`} className="hover:bg-primary/[0.02] transition-all border-b border-muted/50">
+                                                    <TableCell className="pl-6 py-5 text-xs font-bold text-muted-foreground tabular-nums whitespace-nowrap">{format(entry.date, 'dd/MM/yyyy')}</TableCell>
+                                                    <TableCell className="py-5 text-sm font-bold">{entry.description}</TableCell>
+                                                    <TableCell className="text-right tabular-nums font-bold">{entry.debit ? formatCurrency(entry.debit) : ''}</TableCell>
+                                                    <TableCell className="text-right tabular-nums font-bold text-green-700">{entry.credit ? formatCurrency(entry.credit) : ''}</TableCell>
+                                                    <TableCell className={cn("text-right tabular-nums font-black", entry.balance > 0 ? "text-destructive" : "text-foreground")}>{formatBalance(entry.balance)}</TableCell>
+                                                    <TableCell className="pr-6 text-right">
+                                                        {allocation ? (
+                                                            <div className="flex items-center justify-end gap-2">
+                                                                <Badge
+                                                                    variant={allocation.status === 'Paid' ? 'default' : allocation.status === 'Unpaid' ? 'destructive' : 'secondary'}
+                                                                    className={cn("text-[9px] uppercase font-bold px-3 h-6 gap-1.5 rounded-lg", allocation.status === 'Paid' && "bg-green-100 text-green-800 border-green-200")}
+                                                                >
+                                                                    {allocation.status === 'Paid' ? <CheckCircle2 className="h-3 w-3" /> : allocation.status === 'Pending' ? <Clock className="h-3 w-3" /> : <AlertCircle className="h-3 w-3" />}
+                                                                    {allocation.status}
+                                                                </Badge>
+                                                                {allocation.outstanding > 0 && allocation.status !== 'Pending' && (
+                                                                    <Button size="sm" variant="outline" className="h-7 text-[9px] font-bold uppercase" onClick={() => handleSettleCharge(allocation)}>
+                                                                        Settle {formatCurrency(allocation.outstanding)}
+                                                                    </Button>
+                                                                )}
+                                                            </div>
+                                                        ) : (
+                                                            <Badge variant="outline" className="text-[9px] uppercase font-bold px-3 h-6 rounded-lg">Receipt</Badge>
+                                                        )}
+                                                    </TableCell>
+                                                </TableRow>
+                                            );
+                                        })}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        )}
+                        <div className="px-8 py-4 bg-muted/10 border-t flex justify-between text-xs font-bold uppercase tracking-widest">
+                            <span className="text-muted-foreground">Balance Carried Forward</span>
+                            <span className={cn("tabular-nums", statement.closingBalance > 0 ? "text-destructive" : "text-primary")}>{formatBalance(statement.closingBalance)}</span>
                         </div>
                     </>
                 )}
             </CardContent>
             <CardFooter className="bg-muted/5 border-t py-6 px-10 flex justify-end">
-                <Button onClick={handleExportStatement} disabled={isExporting || isLoadingPayments} className="font-bold uppercase tracking-widest text-[10px] h-11 px-8 rounded-xl shadow-lg gap-2 bg-primary hover:bg-primary/90 text-primary-foreground">
+                <Button onClick={handleExportStatement} disabled={isExporting || isLoadingLedger} className="font-bold uppercase tracking-widest text-[10px] h-11 px-8 rounded-xl shadow-lg gap-2 bg-primary hover:bg-primary/90 text-primary-foreground">
                     {isExporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
                     Download Rental Statement
                 </Button>
@@ -782,12 +1132,25 @@ export default function FinancialsPage() {
   }, [user, firestore, selectedYear]);
   const { data: allRentPayments, isLoading: isLoadingRent } = useCollection<RentPayment>(rentQuery);
 
+  const rentChargesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid), limit(2000));
+  }, [user, firestore]);
+  const { data: allRentCharges } = useCollection<RentChargeRecord>(rentChargesQuery);
+
   const repairsQuery = useMemoFirebase(() => {
     if (!user || !firestore) return null;
     return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), limit(500));
   }, [firestore, user]);
   const { data: allRepairs, isLoading: isLoadingRepairs } = useCollection<MaintenanceRepair>(repairsQuery);
 
+  const profileRef = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return doc(firestore, 'users', user.uid);
+  }, [firestore, user]);
+  const { data: profile } = useDoc<any>(profileRef);
+  const taxProfile = useMemo(() => resolveTaxProfile(profile?.taxProfile), [profile]);
+
   const selectedProperty = useMemo(() => {
     if (selectedPropertyId === 'all') return undefined;
     return activeProperties?.find(p => p.id === selectedPropertyId);
@@ -817,7 +1180,7 @@ export default function FinancialsPage() {
         const d = safeToDate(r.reportedDate);
         const matchesYear = d && isAfter(d, yearBounds.start) && isBefore(d, yearBounds.end);
         const matchesProperty = selectedPropertyId === 'all' || r.propertyId === selectedPropertyId;
-        const hasCost = Number(r.expectedCost || r.estimatedCost || 0) > 0;
+        const hasCost = repairCostOf(r) > 0;
         return matchesYear && matchesProperty && hasCost;
     });
   }, [allRepairs, selectedPropertyId, yearBounds]);
@@ -831,27 +1194,44 @@ export default function FinancialsPage() {
   }, [allRentPayments, selectedPropertyId, selectedYear]);
 
   const totalExpectedRent = useMemo(() => {
-    if (!selectedYear || !activeProperties) return 0;
+    if (!selectedYear || !activeProperties || !yearBounds) return 0;
     const paymentsLookup: Record<string, number> = {};
-    rentPayments.forEach(p => { paymentsLookup[`${p.propertyId}-${p.month}-${p.year}`] = Number(p.expectedAmount); });
-    let total = 0;
+    rentPayments.forEach(p => { if (p.expectedAmount !== undefined) paymentsLookup[`${p.propertyId}-${p.month}-${p.year}`] = penceOf(p, 'expectedAmount'); });
+    const scheduledProps = new Set((allRentCharges || []).map(c => c.propertyId));
+    let total: Pence = 0;
     const targetProps = selectedPropertyId === 'all' ? activeProperties : activeProperties.filter(p => p.id === selectedPropertyId);
     targetProps.forEach(prop => {
+        // Properties with a generated rent schedule are totalled from their dated charges
+        if (scheduledProps.has(prop.id)) {
+            (allRentCharges || []).forEach(c => {
+                const due = safeToDate(c.dueDate);
+                if (c.propertyId === prop.id && due && !isBefore(due, yearBounds.start) && !isAfter(due, yearBounds.end)) total += penceOf(c, 'amount');
+            });
+            return;
+        }
         MONTHS.forEach(month => {
             const key = `${prop.id}-${month}-${selectedYear}`;
-            total += paymentsLookup[key] !== undefined ? paymentsLookup[key] : Number(prop.tenancy?.monthlyRent || 0);
+            total += paymentsLookup[key] !== undefined ? paymentsLookup[key] : penceOf(prop, 'tenancy.monthlyRent');
         });
     });
-    return total;
-  }, [activeProperties, selectedPropertyId, rentPayments, selectedYear]);
-
-  const totalPaidRent = useMemo(() => rentPayments.reduce((acc, p) => acc + (Number(p.amountPaid) || 0), 0), [rentPayments]);
-  const totalExpenses = useMemo(() => {
-      const baseTotal = expenses.reduce((acc, expense) => acc + (Number(expense.amount) || 0), 0);
-      const repairTotal = repairCosts.reduce((acc, r) => acc + (Number(r.expectedCost || r.estimatedCost || 0)), 0);
-      return baseTotal + repairTotal;
-  }, [expenses, repairCosts]);
-  const netIncome = totalPaidRent - totalExpenses;
+    return fromPence(total);
+  }, [activeProperties, selectedPropertyId, rentPayments, allRentCharges, selectedYear, yearBounds]);
+
+  // Capital improvements stay in the history but are excluded from revenue totals
+  const revenueExpenses = useMemo(() => expenses.filter(isRevenueExpenditure), [expenses]);
+  const revenueRepairCosts = useMemo(() => repairCosts.filter(isRevenueExpenditure), [repairCosts]);
+
+  const totalPaidRent = useMemo(() => sumMoney(rentPayments.map(p => poundsOf(p, 'amountPaid'))), [rentPayments]);
+  const totalExpenses = useMemo(() => sumMoney([
+      ...revenueExpenses.map(e => poundsOf(e, 'amount')),
+      ...revenueRepairCosts.map(repairCostOf),
+  ]), [revenueExpenses, revenueRepairCosts]);
+  // Section 24: an individual's residential finance costs do not reduce the taxable position
+  const restrictedFinanceCosts = useMemo(() => {
+    if (taxProfile.ownershipType === 'limited_company') return 0;
+    return sumMoney(revenueExpenses.filter(e => isFinanceCost(e.expenseType)).map(e => poundsOf(e, 'amount')));
+  }, [revenueExpenses, taxProfile]);
+  const netIncome = sumMoney([totalPaidRent, -totalExpenses, restrictedFinanceCosts]);
   const isLoading = isLoadingProperties || isLoadingExpenses || isLoadingRent || isLoadingRepairs || !selectedYear;
 
   function formatAddress(address: Property['address']) {
@@ -949,25 +1329,37 @@ export default function FinancialsPage() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="pt-4">
-            <TabsList className="grid grid-cols-2 md:grid-cols-4 bg-muted/50 p-1 h-auto rounded-[1.25rem] w-full gap-1 border shadow-inner">
+            <TabsList className="grid grid-cols-2 md:grid-cols-6 bg-muted/50 p-1 h-auto rounded-[1.25rem] w-full gap-1 border shadow-inner">
                 <TabsTrigger value="expenses" className="font-bold px-2 py-2.5 rounded-lg text-[10px] uppercase tracking-widest data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md transition-all whitespace-normal text-center h-full">Expense Tracker</TabsTrigger>
                 <TabsTrigger value="history" className="font-bold px-2 py-2.5 rounded-lg text-[10px] uppercase tracking-widest data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md transition-all whitespace-normal text-center h-full">Expense History</TabsTrigger>
+                <TabsTrigger value="import" className="font-bold px-2 py-2.5 rounded-lg text-[10px] uppercase tracking-widest data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md transition-all whitespace-normal text-center h-full">Bank Import</TabsTrigger>
                 <TabsTrigger value="statement" className="font-bold px-2 py-2.5 rounded-lg text-[10px] uppercase tracking-widest data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md transition-all whitespace-normal text-center h-full">Rent Ledger</TabsTrigger>
-                <TabsTrigger value="summary" className="font-bold px-2 py-2.5 rounded-lg text-[10px] uppercase tracking-widest data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md transition-all whitespace-normal text-center h-full">Audit Summary</TabsTrigger>
+                <TabsTrigger value="performance" className="font-bold px-2 py-2.5 rounded-lg text-[10px] uppercase tracking-widest data-[state=active]:bg-primary data-[state=active]:text-primary-foreground data-[state=active]:shadow-md transition-all whitespace-normal text-center h-full">Performance</TabsTrigger>
             </TabsList>
             <TabsContent value="expenses" className="animate-in fade-in slide-in-from-top-2 duration-500"><ExpenseTracker properties={activeProperties || []} selectedPropertyId={selectedPropertyId} /></TabsContent>
             <TabsContent value="history" className="animate-in fade-in slide-in-from-top-2 duration-500"><ExpenseHistory selectedYear={selectedYear || 0} expenses={expenses} repairCosts={repairCosts} properties={activeProperties || []} /></TabsContent>
-            <TabsContent value="statement" className="animate-in fade-in slide-in-from-top-2 duration-500"><RentStatement selectedProperty={selectedProperty} activeTenant={activeTenant} selectedYear={selectedYear || 0} rentPayments={rentPayments} isLoadingPayments={isLoading} /></TabsContent>
+            <TabsContent value="import" className="animate-in fade-in slide-in-from-top-2 duration-500"><BankImport properties={activeProperties || []} selectedPropertyId={selectedPropertyId} /></TabsContent>
+            <TabsContent value="statement" className="animate-in fade-in slide-in-from-top-2 duration-500"><RentStatement selectedProperty={selectedProperty} activeTenant={activeTenant} selectedYear={selectedYear || 0} /></TabsContent>
             <TabsContent value="summary" className="animate-in fade-in slide-in-from-top-2 duration-500">
                 <AnnualSummary 
                     selectedYear={selectedYear || 0} 
-                    expenses={expenses} 
-                    repairCosts={repairCosts} 
+                    expenses={revenueExpenses} 
+                    repairCosts={revenueRepairCosts} 
                     totalPaidRent={totalPaidRent} 
                     isLoadingExpenses={isLoading}
                     landlordName={user?.displayName || 'Management'}
                     propertyAddress={selectedPropertyId === 'all' ? 'Entire Portfolio' : formatAddress(selectedProperty?.address!)}
+                    properties={selectedPropertyId === 'all' ? activeProperties || [] : selectedProperty ? [selectedProperty] : []}
+                    rentPayments={rentPayments}
+                    taxProfile={taxProfile}
                 />
+                <MtdQuarterlyExport properties={activeProperties || []} />
+                {(resolveVatProfile(profile?.vatProfile).registered || profile?.role === 'agent') && (
+                    <VatSummaryReport properties={activeProperties || []} />
+                )}
+            </TabsContent>
+            <TabsContent value="performance" className="animate-in fade-in slide-in-from-top-2 duration-500">
+                <PropertyPerformanceReport properties={activeProperties || []} landlordName={user?.displayName || 'Management'} />
             </TabsContent>
         </Tabs>
     </div>
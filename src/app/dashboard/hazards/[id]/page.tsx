@@ -0,0 +1,632 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ArrowLeft, Loader2, Download, Plus, Mail, Lock, Unlock, Camera, Clock, Wrench } from 'lucide-react';
+import { format } from 'date-fns';
+import { useUser, useFirestore, useDoc, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, where, limit } from 'firebase/firestore';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { uploadPropertyImage } from '@/lib/upload-image';
+import { generateHazardCasePDF } from '@/lib/generate-hazard-case-pdf';
+import { notifyTenantOfHazardSummary } from '@/app/actions/notifications';
+import {
+  HAZARD_CASE_STATUS_LABELS,
+  HAZARD_SEVERITY_LABELS,
+  HAZARD_SOURCE_LABELS,
+  HHSRS_HAZARD_LABELS,
+  MILESTONE_STATUS_LABELS,
+  SUMMARY_METHOD_LABELS,
+  addHazardReading,
+  assessHazardCase,
+  closureBlockers,
+  newReadingId,
+  saveHazardCaseProgress,
+  setHazardCaseClosed,
+  sortReadings,
+  type HazardCase,
+  type HazardCaseStatus,
+  type HazardSeverity,
+  type MilestoneStatus,
+  type SummaryMethod,
+} from '@/lib/hazard-cases';
+
+/**
+ * @fileOverview Hazard Case Detail
+ * Works a single case through the Awaab's Law timeline: investigation, written
+ * summary to the tenant, safety work, and readings and photos taken over time.
+ */
+
+const CASE_STATUS_STYLES: Record<HazardCaseStatus, string> = {
+  on_track: 'bg-green-50 text-green-700 border-green-200',
+  action_needed: 'bg-amber-50 text-amber-700 border-amber-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  closed: 'bg-muted text-muted-foreground',
+};
+
+const MILESTONE_STYLES: Record<MilestoneStatus, string> = {
+  done: 'bg-green-50 text-green-700 border-green-200',
+  done_late: 'bg-amber-50 text-amber-700 border-amber-200',
+  due: 'bg-blue-50 text-blue-700 border-blue-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  waiting: 'bg-muted text-muted-foreground',
+};
+
+const progressSchema = z.object({
+  severity: z.string(),
+  investigatedDate: z.string().optional(),
+  findings: z.string().optional(),
+  summarySentDate: z.string().optional(),
+  summaryMethod: z.string(),
+  summaryText: z.string().optional(),
+  safetyWorkStartedDate: z.string().optional(),
+  safetyWorkCompletedDate: z.string().optional(),
+  safetyWorkDetails: z.string().optional(),
+  alternativeAccommodationOffered: z.boolean(),
+}).refine(v => !v.summarySentDate || v.summaryText?.trim(), {
+  message: 'Record what the summary told the tenant.',
+  path: ['summaryText'],
+}).refine(v => !v.safetyWorkCompletedDate || v.safetyWorkStartedDate, {
+  message: 'Record when the work started.',
+  path: ['safetyWorkStartedDate'],
+});
+
+type ProgressFormValues = z.infer<typeof progressSchema>;
+
+const readingSchema = z.object({
+  date: z.string().min(1, 'Date is required.'),
+  location: z.string().min(1, 'Where was the reading taken?'),
+  moisturePercent: z.string().optional(),
+  relativeHumidity: z.string().optional(),
+  temperature: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type ReadingFormValues = z.infer<typeof readingSchema>;
+
+const toNumber = (value?: string) => (value?.trim() ? Number(value) : undefined);
+const toDateInput = (value?: string) => {
+  const d = safeToDate(value);
+  return d ? format(d, 'yyyy-MM-dd') : '';
+};
+
+export default function HazardCasePage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isClosing, setIsClosing] = useState(false);
+  const [isReadingOpen, setIsReadingOpen] = useState(false);
+  const [isSavingReading, setIsSavingReading] = useState(false);
+  const [photoFiles, setPhotoFiles] = useState<File[]>([]);
+  const [recipients, setRecipients] = useState<string[]>([]);
+
+  const caseRef = useMemoFirebase(() => (firestore && id ? doc(firestore, 'hazardCases', id) : null), [firestore, id]);
+  const { data: hazardCase, isLoading } = useDoc<HazardCase>(caseRef);
+
+  const propertyRef = useMemoFirebase(() => {
+    if (!firestore || !hazardCase?.propertyId) return null;
+    return doc(firestore, 'properties', hazardCase.propertyId);
+  }, [firestore, hazardCase?.propertyId]);
+  const { data: property } = useDoc<any>(propertyRef);
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore || !hazardCase?.propertyId) return null;
+    return query(
+      collection(firestore, 'tenants'),
+      where('landlordId', '==', user.uid),
+      where('propertyId', '==', hazardCase.propertyId),
+      where('status', '==', 'Active'),
+      limit(50)
+    );
+  }, [user, firestore, hazardCase?.propertyId]);
+  const { data: tenants } = useCollection<any>(tenantsQuery);
+
+  const propertyAddress = property
+    ? [property.address?.nameOrNumber, property.address?.street, property.address?.city, property.address?.postcode].filter(Boolean).join(', ')
+    : '';
+  // The reporting tenant and every active tenant at the property; on a multi-let the landlord picks who is affected
+  const recipientOptions = useMemo(() => {
+    const options = new Map<string, string>();
+    if (hazardCase?.tenantEmail) options.set(hazardCase.tenantEmail.trim().toLowerCase(), 'Reported the hazard');
+    (tenants || []).forEach(t => {
+      const email = t.email?.trim().toLowerCase();
+      if (email && !options.has(email)) options.set(email, t.name || email);
+    });
+    return Array.from(options, ([email, label]) => ({ email, label }));
+  }, [hazardCase?.tenantEmail, tenants]);
+
+  useEffect(() => {
+    const reporter = hazardCase?.tenantEmail?.trim().toLowerCase();
+    if (reporter) setRecipients([reporter]);
+    else if (recipientOptions.length === 1) setRecipients([recipientOptions[0].email]);
+  }, [hazardCase?.tenantEmail, recipientOptions]);
+
+  const assessment = useMemo(() => (hazardCase ? assessHazardCase(hazardCase) : null), [hazardCase]);
+  const readings = useMemo(() => sortReadings(hazardCase?.readings).reverse(), [hazardCase?.readings]);
+  const blockers = hazardCase ? closureBlockers(hazardCase) : [];
+
+  const form = useForm<ProgressFormValues>({
+    resolver: zodResolver(progressSchema),
+    defaultValues: {
+      severity: 'unassessed',
+      summaryMethod: 'email',
+      alternativeAccommodationOffered: false,
+    },
+  });
+
+  const readingForm = useForm<ReadingFormValues>({
+    resolver: zodResolver(readingSchema),
+    defaultValues: { date: '', location: '', moisturePercent: '', relativeHumidity: '', temperature: '', notes: '' },
+  });
+
+  useEffect(() => {
+    if (!hazardCase) return;
+    form.reset({
+      severity: hazardCase.severity || 'unassessed',
+      investigatedDate: toDateInput(hazardCase.investigatedDate),
+      findings: hazardCase.findings || '',
+      summarySentDate: toDateInput(hazardCase.summarySentDate),
+      summaryMethod: hazardCase.summaryMethod || 'email',
+      summaryText: hazardCase.summaryText || '',
+      safetyWorkStartedDate: toDateInput(hazardCase.safetyWorkStartedDate),
+      safetyWorkCompletedDate: toDateInput(hazardCase.safetyWorkCompletedDate),
+      safetyWorkDetails: hazardCase.safetyWorkDetails || '',
+      alternativeAccommodationOffered: !!hazardCase.alternativeAccommodationOffered,
+    });
+  }, [hazardCase, form]);
+
+  const onSubmit = async (values: ProgressFormValues) => {
+    if (!firestore || !hazardCase) return;
+    setIsSaving(true);
+    try {
+      await saveHazardCaseProgress(firestore, hazardCase.id, {
+        severity: values.severity === 'unassessed' ? undefined : values.severity as HazardSeverity,
+        investigatedDate: values.investigatedDate,
+        findings: values.findings?.trim(),
+        summarySentDate: values.summarySentDate,
+        summaryMethod: values.summarySentDate ? values.summaryMethod as SummaryMethod : undefined,
+        summaryText: values.summaryText?.trim(),
+        // Recipients only stand while the summary is recorded as emailed
+        ...(values.summarySentDate && values.summaryMethod === 'email' ? {} : { summaryRecipients: undefined }),
+        safetyWorkStartedDate: values.safetyWorkStartedDate,
+        safetyWorkCompletedDate: values.safetyWorkCompletedDate,
+        safetyWorkDetails: values.safetyWorkDetails?.trim(),
+        alternativeAccommodationOffered: values.alternativeAccommodationOffered || undefined,
+      });
+      toast({ title: 'Case Updated', description: 'Progress saved.' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The case could not be updated.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sendSummary = async () => {
+    if (!firestore || !hazardCase || !recipients.length) return;
+    const summaryText = form.getValues('summaryText')?.trim();
+    if (!summaryText) {
+      form.setError('summaryText', { message: 'Write the summary before sending it.' });
+      return;
+    }
+    setIsSending(true);
+    try {
+      const results = await Promise.all(recipients.map(email =>
+        notifyTenantOfHazardSummary(email, propertyAddress || 'your home', HHSRS_HAZARD_LABELS[hazardCase.hazard], summaryText)
+      ));
+      // Only a delivered email is evidence; the console fallback sends nothing
+      const delivered = recipients.filter((_, i) => results[i].provider === 'resend');
+      const undelivered = recipients.filter((_, i) => results[i].provider !== 'resend');
+      if (delivered.length) {
+        // Record whoever received it, alongside earlier recipients of the same text, so a retry goes only to the ones who did not
+        const today = format(new Date(), 'yyyy-MM-dd');
+        const earlier = hazardCase.summaryText === summaryText ? hazardCase.summaryRecipients || [] : [];
+        const summaryRecipients = Array.from(new Set([...earlier, ...delivered]));
+        await saveHazardCaseProgress(firestore, hazardCase.id, { summarySentDate: today, summaryMethod: 'email', summaryText, summaryRecipients });
+        setRecipients(undelivered);
+      }
+      if (undelivered.length) {
+        toast({
+          variant: 'destructive',
+          title: delivered.length ? 'Summary Partly Sent' : 'Email Not Sent',
+          description: `${delivered.length ? `Emailed to ${delivered.join(', ')}. ` : ''}The summary could not be emailed to ${undelivered.join(', ')}. Give it by post or by hand and record that instead.`,
+        });
+        return;
+      }
+      toast({ title: 'Summary Sent', description: `Emailed to ${delivered.join(', ')}.` });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Send Failed', description: 'The summary could not be emailed.' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const toggleRecipient = (email: string, checked: boolean) =>
+    setRecipients(prev => (checked ? [...prev, email] : prev.filter(e => e !== email)));
+
+  const openReading = () => {
+    readingForm.reset({ date: format(new Date(), 'yyyy-MM-dd'), location: '', moisturePercent: '', relativeHumidity: '', temperature: '', notes: '' });
+    setPhotoFiles([]);
+    setIsReadingOpen(true);
+  };
+
+  const onReadingSubmit = async (values: ReadingFormValues) => {
+    if (!firestore || !user || !hazardCase) return;
+    setIsSavingReading(true);
+    try {
+      const photoUrls = (await Promise.all(photoFiles.map(f => uploadPropertyImage(f, user.uid, hazardCase.propertyId)))).filter(Boolean);
+      await addHazardReading(firestore, hazardCase.id, {
+        id: newReadingId(),
+        date: values.date,
+        location: values.location.trim(),
+        moisturePercent: toNumber(values.moisturePercent),
+        relativeHumidity: toNumber(values.relativeHumidity),
+        temperature: toNumber(values.temperature),
+        notes: values.notes?.trim(),
+        photoUrls: photoUrls.length ? photoUrls : undefined,
+        recordedBy: user.uid,
+      });
+      toast({ title: 'Reading Added', description: 'The reading has been added to the case.' });
+      setIsReadingOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The reading could not be saved.' });
+    } finally {
+      setIsSavingReading(false);
+    }
+  };
+
+  const toggleClosed = async () => {
+    if (!firestore || !hazardCase) return;
+    setIsClosing(true);
+    try {
+      await setHazardCaseClosed(firestore, hazardCase.id, !hazardCase.closedDate);
+      toast({ title: hazardCase.closedDate ? 'Case Reopened' : 'Case Closed' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Update Failed', description: 'The case could not be updated.' });
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (!hazardCase) return;
+    setIsExporting(true);
+    try {
+      await generateHazardCasePDF(hazardCase, propertyAddress);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Export Failed', description: 'The case file could not be generated.' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
+  }
+
+  if (!hazardCase || !assessment) {
+    return (
+      <div className="max-w-5xl mx-auto text-center py-20">
+        <p className="text-muted-foreground">Hazard case not found.</p>
+        <Button asChild variant="link"><Link href="/dashboard/hazards">Back to cases</Link></Button>
+      </div>
+    );
+  }
+
+  const summarySent = !!hazardCase.summarySentDate;
+
+  return (
+    <div className="max-w-5xl mx-auto flex flex-col gap-6 text-left">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6 rounded-3xl bg-primary/5 border border-primary/10">
+        <div className="flex items-center gap-4">
+          <Button asChild variant="outline" size="icon" className="shrink-0"><Link href="/dashboard/hazards"><ArrowLeft className="h-4 w-4" /></Link></Button>
+          <div>
+            <div className="flex flex-wrap items-center gap-2">
+              <h1 className="text-2xl font-bold font-headline text-primary tracking-tight">{hazardCase.title}</h1>
+              <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest', CASE_STATUS_STYLES[assessment.status])}>{HAZARD_CASE_STATUS_LABELS[assessment.status]}</Badge>
+            </div>
+            <p className="text-muted-foreground font-medium text-sm">
+              {HHSRS_HAZARD_LABELS[hazardCase.hazard]} · {HAZARD_SOURCE_LABELS[hazardCase.source]}{propertyAddress && ` · ${propertyAddress}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          {hazardCase.repairId && (
+            <Button asChild variant="outline" className="font-bold text-[10px] uppercase tracking-widest"><Link href={`/dashboard/maintenance/${hazardCase.repairId}`}><Wrench className="mr-2 h-4 w-4" /> Repair</Link></Button>
+          )}
+          <Button variant="outline" onClick={exportPdf} disabled={isExporting} className="font-bold text-[10px] uppercase tracking-widest">
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />} Case File
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-lg border-none">
+        <CardHeader className="bg-muted/20 border-b">
+          <CardTitle className="text-lg font-headline flex items-center gap-2"><Clock className="h-5 w-5 text-primary" /> Statutory Timeline</CardTitle>
+          <CardDescription>
+            Aware since {format(safeToDate(hazardCase.awareDate) || new Date(), 'dd/MM/yyyy HH:mm')} · Severity {hazardCase.severity ? HAZARD_SEVERITY_LABELS[hazardCase.severity] : 'not yet assessed'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader className="bg-muted/30">
+              <TableRow>
+                <TableHead className="font-bold uppercase text-[10px] tracking-widest">Requirement</TableHead>
+                <TableHead className="font-bold uppercase text-[10px] tracking-widest">Deadline</TableHead>
+                <TableHead className="font-bold uppercase text-[10px] tracking-widest">Done</TableHead>
+                <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {assessment.milestones.map(m => (
+                <TableRow key={m.key}>
+                  <TableCell className="text-sm font-medium">{m.label}</TableCell>
+                  <TableCell className="text-xs tabular-nums">{m.deadline ? format(m.deadline, 'dd/MM/yyyy HH:mm') : 'Set by investigation'}</TableCell>
+                  <TableCell className="text-xs tabular-nums">{m.doneDate ? format(m.doneDate, 'dd/MM/yyyy') : '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest', MILESTONE_STYLES[m.status])}>{MILESTONE_STATUS_LABELS[m.status]}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {hazardCase.description && (
+            <div className="p-6 border-t">
+              <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground mb-1">As Reported</p>
+              <p className="text-sm whitespace-pre-wrap">{hazardCase.description}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <Card className="shadow-lg border-none">
+            <CardHeader className="bg-muted/20 border-b">
+              <CardTitle className="text-lg font-headline">Investigation</CardTitle>
+              <CardDescription>Recording the investigation sets the summary and safety work deadlines.</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="investigatedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Investigated On</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="severity" render={({ field }) => (
+                  <FormItem><FormLabel>Severity</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="unassessed">Not yet assessed</SelectItem>{(Object.keys(HAZARD_SEVERITY_LABELS) as HazardSeverity[]).map(s => <SelectItem key={s} value={s}>{HAZARD_SEVERITY_LABELS[s]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="findings" render={({ field }) => (
+                <FormItem><FormLabel>Findings</FormLabel><FormControl><Textarea rows={3} placeholder="Cause, extent and rooms affected" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-none">
+            <CardHeader className="bg-muted/20 border-b">
+              <CardTitle className="text-lg font-headline">Written Summary to Tenant</CardTitle>
+              <CardDescription>What was found and what will be done, with timescales.</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-4">
+              <FormField control={form.control} name="summaryText" render={({ field }) => (
+                <FormItem><FormLabel>Summary</FormLabel><FormControl><Textarea rows={4} {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="summarySentDate" render={({ field }) => (
+                  <FormItem><FormLabel>Given On</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="summaryMethod" render={({ field }) => (
+                  <FormItem><FormLabel>Given By</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{(Object.keys(SUMMARY_METHOD_LABELS) as SummaryMethod[]).map(m => <SelectItem key={m} value={m}>{SUMMARY_METHOD_LABELS[m]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+              </div>
+              <div className="space-y-3 border-t pt-4">
+                {recipientOptions.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No tenant email on file; record a summary given by post or by hand.</p>
+                ) : (
+                  <div className="space-y-2">
+                    <Label className="text-xs font-bold uppercase tracking-widest text-muted-foreground">Email To</Label>
+                    {recipientOptions.map(option => (
+                      <div key={option.email} className="flex items-center gap-2">
+                        <Checkbox id={`recipient-${option.email}`} checked={recipients.includes(option.email)} onCheckedChange={checked => toggleRecipient(option.email, checked === true)} />
+                        <Label htmlFor={`recipient-${option.email}`} className="text-sm font-normal">{option.email} <span className="text-muted-foreground">· {option.label}</span></Label>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {hazardCase.summaryRecipients?.length ? (
+                  <p className="text-xs text-muted-foreground">Last emailed to {hazardCase.summaryRecipients.join(', ')}.</p>
+                ) : null}
+                <div className="flex justify-end">
+                  <Button type="button" variant="outline" size="sm" onClick={sendSummary} disabled={!recipients.length || isSending || !hazardCase.investigatedDate}>
+                    {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}{summarySent ? 'Resend by Email' : 'Send by Email'}
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-none">
+            <CardHeader className="bg-muted/20 border-b">
+              <CardTitle className="text-lg font-headline">Safety Work</CardTitle>
+              <CardDescription>Emergencies must be made safe within 24 hours. Offer alternative accommodation if the home cannot be made safe in time.</CardDescription>
+            </CardHeader>
+            <CardContent className="pt-6 space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="safetyWorkStartedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Started</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="safetyWorkCompletedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Completed</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="safetyWorkDetails" render={({ field }) => (
+                <FormItem><FormLabel>Work Carried Out</FormLabel><FormControl><Textarea rows={3} {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="alternativeAccommodationOffered" render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                  <FormControl><Checkbox checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                  <div className="space-y-1 leading-none"><FormLabel>Alternative accommodation offered</FormLabel><FormDescription className="text-xs">While the home could not be made safe.</FormDescription></div>
+                </FormItem>
+              )} />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSaving} className="font-bold text-[10px] uppercase tracking-widest">
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Progress
+            </Button>
+          </div>
+        </form>
+      </Form>
+
+      <Card className="shadow-lg border-none overflow-hidden">
+        <CardHeader className="bg-muted/20 border-b">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg font-headline">Readings & Photos</CardTitle>
+            <Button size="sm" variant="outline" onClick={openReading} className="h-8 text-[10px] font-bold uppercase"><Plus className="mr-1 h-3.5 w-3.5" /> Add Reading</Button>
+          </div>
+          <CardDescription>Moisture, humidity and temperature readings taken over the life of the case.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {readings.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground italic">No readings recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Date</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Location</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Moisture %</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">RH %</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Temp °C</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {readings.map(r => (
+                  <TableRow key={r.id}>
+                    <TableCell className="text-xs tabular-nums">{safeToDate(r.date) ? format(safeToDate(r.date)!, 'dd/MM/yyyy') : '—'}</TableCell>
+                    <TableCell className="text-sm">{r.location}</TableCell>
+                    <TableCell className="text-xs tabular-nums text-right">{r.moisturePercent ?? '—'}</TableCell>
+                    <TableCell className="text-xs tabular-nums text-right">{r.relativeHumidity ?? '—'}</TableCell>
+                    <TableCell className="text-xs tabular-nums text-right">{r.temperature ?? '—'}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {r.notes}
+                      {r.photoUrls?.length ? (
+                        <span className="flex flex-wrap gap-1 mt-1">
+                          {r.photoUrls.map((url, i) => (
+                            <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline"><Camera className="h-3 w-3" />Photo {i + 1}</a>
+                          ))}
+                        </span>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg border-none">
+        <CardHeader>
+          <CardTitle className="text-lg font-headline">{hazardCase.closedDate ? 'Case Closed' : 'Close Case'}</CardTitle>
+          <CardDescription>
+            {hazardCase.closedDate
+              ? `Closed on ${format(safeToDate(hazardCase.closedDate) || new Date(), 'dd/MM/yyyy')}. Reopen it if the hazard returns.`
+              : blockers.length ? 'Before this case can be closed:' : 'Every requirement has been recorded.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!hazardCase.closedDate && blockers.length > 0 && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground space-y-1">
+              {blockers.map(b => <li key={b}>{b}</li>)}
+            </ul>
+          )}
+          <Button variant="outline" onClick={toggleClosed} disabled={isClosing || (!hazardCase.closedDate && blockers.length > 0)}>
+            {isClosing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : hazardCase.closedDate ? <Unlock className="mr-2 h-4 w-4" /> : <Lock className="mr-2 h-4 w-4" />}
+            {hazardCase.closedDate ? 'Reopen Case' : 'Close Case'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isReadingOpen} onOpenChange={setIsReadingOpen}>
+        <DialogContent className="text-left">
+          <DialogHeader>
+            <DialogTitle>Add Reading</DialogTitle>
+            <DialogDescription>Take readings at the same spots each visit so progress can be compared.</DialogDescription>
+          </DialogHeader>
+          <Form {...readingForm}>
+            <form onSubmit={readingForm.handleSubmit(onReadingSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={readingForm.control} name="date" render={({ field }) => (
+                  <FormItem><FormLabel>Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={readingForm.control} name="location" render={({ field }) => (
+                  <FormItem><FormLabel>Location</FormLabel><FormControl><Input placeholder="e.g. Bedroom 2, north wall" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <FormField control={readingForm.control} name="moisturePercent" render={({ field }) => (
+                  <FormItem><FormLabel>Moisture %</FormLabel><FormControl><Input type="number" step="0.1" min="0" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={readingForm.control} name="relativeHumidity" render={({ field }) => (
+                  <FormItem><FormLabel>RH %</FormLabel><FormControl><Input type="number" step="0.1" min="0" max="100" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={readingForm.control} name="temperature" render={({ field }) => (
+                  <FormItem><FormLabel>Temp °C</FormLabel><FormControl><Input type="number" step="0.1" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={readingForm.control} name="notes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea rows={2} {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <div className="space-y-2">
+                <Label>Photos</Label>
+                <Input type="file" accept="image/*" multiple onChange={e => setPhotoFiles(Array.from(e.target.files || []))} />
+                {photoFiles.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {photoFiles.map(f => <Badge key={f.name} variant="secondary" className="text-[10px]">{f.name}</Badge>)}
+                  </div>
+                )}
+              </div>
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsReadingOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSavingReading}>{isSavingReading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Reading</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
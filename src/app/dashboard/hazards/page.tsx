@@ -0,0 +1,237 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Loader2, Plus, Droplets, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, where, limit } from 'firebase/firestore';
+import { useRouter } from 'next/navigation';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  HAZARD_CASE_STATUS_LABELS,
+  HAZARD_SEVERITY_LABELS,
+  HAZARD_SOURCE_LABELS,
+  HHSRS_HAZARD_LABELS,
+  assessHazardCase,
+  openHazardCase,
+  type HazardCase,
+  type HazardCaseStatus,
+  type HhsrsHazard,
+} from '@/lib/hazard-cases';
+
+/**
+ * @fileOverview Hazard Cases Page
+ * Every damp and mould or other HHSRS hazard case across the portfolio with the
+ * next Awaab's Law deadline. Cases open automatically from tenant reports and
+ * inspections; others can be logged here.
+ */
+
+const caseSchema = z.object({
+  propertyId: z.string().min(1, 'Select the property.'),
+  hazard: z.string().min(1),
+  title: z.string().min(3, 'Give the case a short title.'),
+  description: z.string().optional(),
+  awareDate: z.string().min(1, 'When did you become aware of the hazard?'),
+  severity: z.enum(['unassessed', 'emergency']),
+});
+
+type CaseFormValues = z.infer<typeof caseSchema>;
+
+const CASE_STATUS_STYLES: Record<HazardCaseStatus, string> = {
+  on_track: 'bg-green-50 text-green-700 border-green-200',
+  action_needed: 'bg-amber-50 text-amber-700 border-amber-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  closed: 'bg-muted text-muted-foreground',
+};
+
+export default function HazardCasesPage() {
+  const router = useRouter();
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [showClosed, setShowClosed] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const propertiesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'properties'), where('landlordId', '==', user.uid), limit(500));
+  }, [user, firestore]);
+  const { data: properties, isLoading: isLoadingProperties } = useCollection<any>(propertiesQuery);
+
+  const casesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'hazardCases'), where('landlordId', '==', user.uid), limit(500));
+  }, [user, firestore]);
+  const { data: cases, isLoading: isLoadingCases } = useCollection<HazardCase>(casesQuery);
+
+  const propertyMap = useMemo(() => {
+    return (properties || []).reduce((map, p) => {
+      map[p.id] = [p.address?.nameOrNumber, p.address?.street, p.address?.city].filter(Boolean).join(', ');
+      return map;
+    }, {} as Record<string, string>);
+  }, [properties]);
+
+  const rows = useMemo(() => {
+    return (cases || [])
+      .map(c => ({ hazardCase: c, assessment: assessHazardCase(c) }))
+      .filter(r => showClosed || r.assessment.status !== 'closed')
+      .sort((a, b) => (a.assessment.nextDeadline?.getTime() ?? Infinity) - (b.assessment.nextDeadline?.getTime() ?? Infinity));
+  }, [cases, showClosed]);
+
+  const form = useForm<CaseFormValues>({
+    resolver: zodResolver(caseSchema),
+    defaultValues: { propertyId: '', hazard: 'damp_mould', title: '', description: '', awareDate: '', severity: 'unassessed' },
+  });
+
+  const openDialog = () => {
+    form.reset({ propertyId: '', hazard: 'damp_mould', title: '', description: '', awareDate: format(new Date(), "yyyy-MM-dd'T'HH:mm"), severity: 'unassessed' });
+    setIsOpen(true);
+  };
+
+  const onSubmit = async (values: CaseFormValues) => {
+    if (!firestore || !user) return;
+    setIsSaving(true);
+    try {
+      const id = doc(collection(firestore, 'hazardCases')).id;
+      await openHazardCase(firestore, id, {
+        landlordId: user.uid,
+        propertyId: values.propertyId,
+        hazard: values.hazard as HhsrsHazard,
+        title: values.title.trim(),
+        description: values.description?.trim() || undefined,
+        source: 'manual',
+        awareDate: new Date(values.awareDate).toISOString(),
+        severity: values.severity === 'emergency' ? 'emergency' : undefined,
+      });
+      toast({ title: 'Case Opened', description: 'The Awaab\'s Law timeline has started.' });
+      setIsOpen(false);
+      router.push(`/dashboard/hazards/${id}`);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The case could not be opened.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto flex flex-col gap-6 text-left">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-6 rounded-3xl bg-primary/5 border border-primary/10">
+        <div>
+          <h1 className="text-3xl font-bold font-headline text-primary tracking-tight">Damp, Mould & Hazards</h1>
+          <p className="text-muted-foreground font-medium text-sm">Hazard cases tracked against the Awaab's Law investigation and repair deadlines.</p>
+        </div>
+        <Button onClick={openDialog} className="font-bold text-[10px] uppercase tracking-widest"><Plus className="mr-2 h-4 w-4" /> Open Case</Button>
+      </div>
+
+      <Card className="shadow-lg border-none overflow-hidden">
+        <CardHeader className="pb-4 bg-muted/20 border-b">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg font-headline flex items-center gap-2"><Droplets className="h-5 w-5 text-primary" /> Cases</CardTitle>
+            <Button variant="ghost" size="sm" className="h-8 text-[10px] font-bold uppercase" onClick={() => setShowClosed(v => !v)}>
+              {showClosed ? 'Hide Closed' : 'Show Closed'}
+            </Button>
+          </div>
+          <CardDescription>Emergencies must be investigated and made safe within 24 hours; other hazards investigated within 10 working days.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoadingCases || isLoadingProperties ? (
+            <div className="flex h-40 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : rows.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground italic">No {showClosed ? '' : 'open '}hazard cases.</p>
+          ) : (
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Case</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Property</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Severity</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Next Deadline</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ hazardCase, assessment }) => (
+                  <TableRow key={hazardCase.id}>
+                    <TableCell>
+                      <Link href={`/dashboard/hazards/${hazardCase.id}`} className="text-sm font-bold text-primary hover:underline">{hazardCase.title}</Link>
+                      <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">{HHSRS_HAZARD_LABELS[hazardCase.hazard]} · {HAZARD_SOURCE_LABELS[hazardCase.source]}</p>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-[200px] truncate">{propertyMap[hazardCase.propertyId] || 'Unknown'}</TableCell>
+                    <TableCell className="text-xs">{hazardCase.severity ? HAZARD_SEVERITY_LABELS[hazardCase.severity] : 'Unassessed'}</TableCell>
+                    <TableCell className="text-xs tabular-nums">{assessment.nextDeadline ? format(assessment.nextDeadline, 'dd/MM/yyyy HH:mm') : '—'}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest', CASE_STATUS_STYLES[assessment.status])}>{HAZARD_CASE_STATUS_LABELS[assessment.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button asChild variant="ghost" size="icon"><Link href={`/dashboard/hazards/${hazardCase.id}`}><ChevronRight className="h-4 w-4" /></Link></Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="text-left">
+          <DialogHeader>
+            <DialogTitle>Open Hazard Case</DialogTitle>
+            <DialogDescription>The deadlines run from when you became aware of the hazard, not from when you log it.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="propertyId" render={({ field }) => (
+                <FormItem><FormLabel>Property</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select property" /></SelectTrigger></FormControl><SelectContent>{(properties || []).filter(p => p.status !== 'Deleted').map(p => <SelectItem key={p.id} value={p.id}>{propertyMap[p.id]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="hazard" render={({ field }) => (
+                <FormItem><FormLabel>Hazard</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{(Object.keys(HHSRS_HAZARD_LABELS) as HhsrsHazard[]).map(h => <SelectItem key={h} value={h}>{HHSRS_HAZARD_LABELS[h]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="title" render={({ field }) => (
+                <FormItem><FormLabel>Title</FormLabel><FormControl><Input placeholder="e.g. Mould on bedroom 2 ceiling" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={form.control} name="description" render={({ field }) => (
+                <FormItem><FormLabel>Description</FormLabel><FormControl><Textarea rows={3} {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="awareDate" render={({ field }) => (
+                  <FormItem><FormLabel>Became Aware</FormLabel><FormControl><Input type="datetime-local" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="severity" render={({ field }) => (
+                  <FormItem><FormLabel>Initial Severity</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value="unassessed">To be investigated</SelectItem><SelectItem value="emergency">Emergency</SelectItem></SelectContent></Select><FormDescription className="text-xs">Emergencies run on a 24 hour clock.</FormDescription><FormMessage /></FormItem>
+                )} />
+              </div>
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Open Case</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
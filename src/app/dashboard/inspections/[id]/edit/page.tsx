@@ -21,6 +21,7 @@ import Link from 'next/link';
 import { generateInspectionPDF } from '@/lib/generate-inspection-pdf';
 import { uploadPropertyDocument } from '@/lib/upload-document';
 import { uploadPropertyImage } from '@/lib/upload-image';
+import { openCaseFromInspection } from '@/lib/hazard-cases';
 import { format } from 'date-fns';
 import Image from 'next/image';
 
@@ -165,6 +166,13 @@ export default function EditInspectionPage() {
 
       const cleanedData = prepareForFirestore(updatePayload);
       await updateDoc(inspectionRef, cleanedData);
+
+      // Damp or mould found on inspection starts an Awaab's Law case
+      try {
+          await openCaseFromInspection(firestore, { ...inspection, ...updatePayload, id, landlordId: user.uid, propertyId });
+      } catch (caseError) {
+          console.warn('Hazard case could not be opened:', caseError);
+      }
       
       // AUTO-PDF GENERATION WORKFLOW
       toast({ title: 'Changes Saved', description: 'Generating updated PDF report...' });
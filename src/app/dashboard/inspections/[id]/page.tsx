@@ -11,6 +11,7 @@ import { format } from 'date-fns';
 import { useDoc, useFirestore, useMemoFirebase, useUser } from '@/firebase';
 import { doc } from 'firebase/firestore';
 import { generateInspectionPDF } from '@/lib/generate-inspection-pdf';
+import { singleLetSections, hmoSections, tenantResponsibilitiesFields, hmoTenantFields } from '@/lib/inspection-sections';
 import { useState } from 'react';
 
 interface Property {
@@ -70,28 +71,6 @@ const InspectionSection = ({ title, data, fields, notesKey = 'notes' }: { title:
     );
 };
 
-const singleLetSections = {
-  exterior: { title: 'Exterior', fields: [{ key: 'roofCondition', label: 'Roof condition' }, { key: 'walls', label: 'Walls, brickwork' }, { key: 'windowsAndDoors', label: 'Windows and external doors' }, { key: 'garden', label: 'Garden maintained' }, { key: 'pathways', label: 'Pathways safe and clear' }, { key: 'bins', label: 'Bins accessible' }] },
-  safety: { title: 'Safety & Compliance', fields: [{ key: 'smokeAlarms', label: 'Smoke alarms tested' }, { key: 'coAlarm', label: 'CO alarm tested' }, { key: 'electricalSockets', label: 'Electrical sockets safe' }, { key: 'gasCert', label: 'Gas safety certificate valid' }, { key: 'eicr', label: 'EICR valid' }, { key: 'patCert', label: 'PAT Certificate valid' }, { key: 'noTampering', label: 'No tampering with safety equipment' }] },
-  interior: { title: 'Interior General Condition', fields: [{ key: 'wallsCeilingsFloors', label: 'Walls, ceilings, floors' }, { key: 'noDamp', label: 'No signs of damp or mould' }, { key: 'windows', label: 'Windows open and close' }, { key: 'doors', label: 'Internal doors and locks' }, { key: 'ventilation', label: 'Adequate ventilation' }, { key: 'cleanliness', label: 'General cleanliness acceptable' }] },
-  kitchen: { title: 'Kitchen', fields: [{ key: 'worktops', label: 'Worktops, cupboards, flooring' }, { key: 'sink', label: 'Sink and taps' }, { key: 'oven', label: 'Oven and hob' }, { key: 'fridge', label: 'Fridge freezer' }, { key: 'washingMachine', label: 'Washing machine (if supplied)' }, { key: 'ventilation', label: 'Adequate ventilation' }] },
-  bathrooms: { title: 'Bathrooms', fields: [{ key: 'toilet', label: 'Toilet flushing' }, { key: 'shower', label: 'Shower/bath working' }, { key: 'noLeaks', label: 'No leaks from taps/pipes' }, { key: 'extractor', label: 'Extractor fan working' }, { key: 'sealant', label: 'Sealant and grout intact' }, { key: 'noMould', label: 'No mould or damp' }] },
-  heating: { title: 'Heating', fields: [{ key: 'boiler', label: 'Boiler functioning' }, { key: 'radiators', label: 'Radiators heating' }, { key: 'thermostat', label: 'Thermostat working' }, { key: 'hotWater', label: 'Hot water supply' }] },
-  bedrooms: { title: 'Bedrooms', fields: [{ key: 'windows', label: 'Windows and locks' }, { key: 'heating', label: 'Heating operational' }, { key: 'noDamp', label: 'No damp or mould' }, { key: 'flooring', label: 'Flooring and walls' }, { key: 'furniture', label: 'Furniture condition (if provided)' }] },
-};
-
-const hmoSections = {
-  fireSafety: { title: 'Fire Safety (HMO Specific)', fields: [ { key: 'interlinkedAlarms', label: 'Interlinked smoke alarms' }, { key: 'heatDetector', label: 'Heat detector in kitchen' }, { key: 'fireDoors', label: 'Fire doors self-closing' }, { key: 'doorSeals', label: 'Door intumescent strips intact' }, { key: 'extinguishers', label: 'Fire extinguishers serviced' }, { key: 'fireBlanket', label: 'Fire blanket in kitchen' }, { key: 'emergencyLighting', label: 'Emergency lighting operational' }, { key: 'clearRoutes', label: 'Fire escape routes clear' }, { key: 'signage', label: 'Fire safety signage displayed' }] },
-  communal: { title: 'Communal Areas', fields: [{ key: 'clean', label: 'Clean and free from hazards' }, { key: 'lighting', label: 'Adequate lighting' }, { key: 'flooring', label: 'Flooring in good condition' }, { key: 'noDamp', label: 'No damp or mould' }, { key: 'windows', label: 'Windows and locks functioning' }, { key: 'wasteDisposal', label: 'Waste disposal area tidy' }] },
-  bedrooms: { title: 'Bedrooms (Per Room)', fields: [{ key: 'doorLock', label: 'Door lock functioning' }, { key: 'ventilation', label: 'Adequate ventilation' }, { key: 'heating', label: 'Heating working' }, { key: 'noDamp', label: 'No signs of damp or mould' }, { key: 'furniture', label: 'Furniture in good condition' }, { key: 'sockets', label: 'Electrical sockets safe' }, { key: 'occupancy', label: 'Tenant occupancy confirmed' }] },
-  kitchen: { title: 'Kitchen', fields: [{ key: 'appliances', label: 'Cooking appliances working' }, { key: 'extractor', label: 'Extractor fan operational' }, { key: 'sink', label: 'Sinks and taps leak-free' }, { key: 'cupboards', label: 'Worktops & cupboards good' }, { key: 'fridge', label: 'Fridge/freezer functional' }, { key: 'storage', label: 'Adequate food storage' }, { key: 'fireBlanket', label: 'Fire blanket present' }, { key: 'pat', label: 'PAT-tested appliances' }] },
-  bathrooms: { title: 'Bathrooms', fields: [{ key: 'toilet', label: 'Toilet flushing correctly' }, { key: 'shower', label: 'Shower/bath working' }, { key: 'extractor', label: 'Extractor fan functioning' }, { key: 'noLeaks', label: 'No leaks or damp' }, { key: 'sealant', label: 'Sealant and grout intact' }, { key: 'hotWater', label: 'Adequate hot water supply' }] },
-  utilities: { title: 'Utilities', fields: [{ key: 'boiler', label: 'Boiler functioning and serviced' }, { key: 'radiators', label: 'Radiators heating properly' }, { key: 'thermostats', label: 'Thermostats working' }, { key: 'consumerUnit', label: 'Consumer unit safe/labelled' }, { key: 'gasCert', label: 'Gas safety certificate up to date' }, { key: 'eicr', label: 'EICR valid' }] },
-  exterior: { title: 'Exterior', fields: [{ key: 'roof', label: 'Roof and gutters good' }, { key: 'pathways', label: 'Pathways safe and clear' }, { key: 'garden', label: 'Garden/yard maintained' }, { key: 'bins', label: 'Bins accessible' }, { key: 'securityLighting', label: 'Security lighting working' }] },
-};
-
-const tenantResponsibilitiesFields = [{ key: 'clean', label: 'Property kept clean' }, { key: 'noOccupants', label: 'No unauthorised occupants' }, { key: 'noPets', label: 'No unauthorised pets' }, { key: 'noSmoking', label: 'No evidence of smoking' }, { key: 'noAlterations', label: 'No unauthorised alterations' }];
-const hmoTenantFields = [{ key: 'clean', label: 'Room kept clean' }, { key: 'noSmoking', label: 'No evidence of smoking' }, { key: 'noPets', label: 'No unauthorised pets' }, { key: 'noTampering', label: 'No tampering with fire equipment' }];
 const followUpFields = [{ key: 'repairsRequired', label: 'Repairs Required' }, { key: 'urgentSafetyIssues', label: 'Urgent Safety Issues' }, { key: 'maintenanceScheduled', label: 'Maintenance Scheduled' }];
 
 export default function ViewInspectionPage() {
@@ -46,6 +46,7 @@ import { Badge } from '@/components/ui/badge';
 import { generateInspectionPDF } from '@/lib/generate-inspection-pdf';
 import { uploadPropertyDocument } from '@/lib/upload-document';
 import { uploadPropertyImage } from '@/lib/upload-image';
+import { openCaseFromInspection } from '@/lib/hazard-cases';
 import { format } from 'date-fns';
 import Image from 'next/image';
 
@@ -331,6 +332,13 @@ export default function HmoInspectionPage() {
             const cleanedSubmission = prepareForFirestore(newInspection);
             const inspectionsCollection = collection(firestore, 'inspections');
             const docRef = await addDoc(inspectionsCollection, cleanedSubmission);
+
+            // Damp or mould found on inspection starts an Awaab's Law case
+            try {
+                await openCaseFromInspection(firestore, { ...newInspection, id: docRef.id });
+            } catch (caseError) {
+                console.warn('Hazard case could not be opened:', caseError);
+            }
             
             // AUTO-PDF GENERATION WORKFLOW
             toast({ title: 'HMO Report Saved', description: 'Generating PDF audit record...' });
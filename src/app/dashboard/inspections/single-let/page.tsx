@@ -56,6 +56,7 @@ import {
 import { generateInspectionPDF } from '@/lib/generate-inspection-pdf';
 import { uploadPropertyDocument } from '@/lib/upload-document';
 import { uploadPropertyImage } from '@/lib/upload-image';
+import { openCaseFromInspection } from '@/lib/hazard-cases';
 import { format } from 'date-fns';
 import Image from 'next/image';
 
@@ -318,6 +319,13 @@ export default function SingleLetInspectionPage() {
       const cleanedSubmission = prepareForFirestore(newInspection);
       const inspectionsCollection = collection(firestore, 'inspections');
       const docRef = await addDoc(inspectionsCollection, cleanedSubmission);
+
+      // Damp or mould found on inspection starts an Awaab's Law case
+      try {
+          await openCaseFromInspection(firestore, { ...newInspection, id: docRef.id });
+      } catch (caseError) {
+          console.warn('Hazard case could not be opened:', caseError);
+      }
       
       // AUTO-PDF GENERATION WORKFLOW
       toast({ title: 'Inspection Saved', description: 'Generating PDF audit record...' });
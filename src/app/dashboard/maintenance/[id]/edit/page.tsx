@@ -43,6 +43,10 @@ import {
 } from '@/firebase';
 import { collection, query, where, doc, updateDoc, limit } from 'firebase/firestore';
 import { safeToDate, formatDateForInput } from '@/lib/date-utils';
+import { EXPENDITURE_CLASS_LABELS, expenditureClassOf } from '@/lib/capital-expenditure';
+import { MONEY_FIELDS, poundsOf, withPence } from '@/lib/money';
+import { REPAIR_STATE_LABELS, repairState, type RepairState } from '@/lib/repair-workflow';
+import { DAMP_MOULD_CATEGORY } from '@/lib/hazard-cases';
 
 const maintenanceEditSchema = z.object({
   propertyId: z.string().min(1, 'Property selection required'),
@@ -51,13 +55,13 @@ const maintenanceEditSchema = z.object({
   category: z.string({ required_error: 'Please select a category.' }),
   otherCategoryDetails: z.string().optional(),
   priority: z.string({ required_error: 'Please select a priority.' }),
-  status: z.string({ required_error: 'Please select a status.' }),
   reportedBy: z.string().default('Landlord'),
   reportedDate: z.coerce.date(),
   contractorName: z.string().optional(),
   contractorPhone: z.string().optional(),
   scheduledDate: z.coerce.date().optional(),
   expectedCost: z.coerce.number().min(0).default(0),
+  classification: z.enum(['revenue', 'domestic_replacement', 'capital_improvement']).default('revenue'),
   notes: z.string().optional(),
 });
 
@@ -71,12 +75,14 @@ interface MaintenanceLog {
   otherCategoryDetails?: string;
   priority: string;
   status: string;
+  workflowState?: RepairState;
   reportedBy?: string;
   reportedDate: any;
   contractorName?: string;
   contractorPhone?: string;
   scheduledDate?: any;
   expectedCost?: number;
+  classification?: string;
   notes?: string;
 }
 
@@ -97,9 +103,8 @@ interface Contractor {
     trade: string;
 }
 
-const CATEGORIES = ['Plumbing', 'Electrical', 'Heating', 'Structural', 'Appliances', 'Garden', 'Cleaning', 'Pest Control', 'Other'];
+const CATEGORIES = ['Plumbing', 'Electrical', 'Heating', DAMP_MOULD_CATEGORY, 'Structural', 'Appliances', 'Garden', 'Cleaning', 'Pest Control', 'Other'];
 const PRIORITIES = ['Emergency', 'Urgent', 'Routine', 'Low'];
-const STATUSES = ['Open', 'In Progress', 'Completed', 'Cancelled'];
 const REPORTERS = ['Landlord', 'Tenant', 'Agent', 'Other'];
 
 export default function EditMaintenancePage() {
@@ -123,7 +128,6 @@ export default function EditMaintenancePage() {
             category: '',
             otherCategoryDetails: '',
             priority: 'Routine',
-            status: 'Open',
             reportedBy: 'Landlord',
             reportedDate: new Date(),
             contractorName: '',
@@ -171,7 +175,6 @@ export default function EditMaintenancePage() {
             const storedProp = localStorage.getItem('last_repair_prop');
             const storedCat = localStorage.getItem('last_repair_cat');
             const storedPrio = localStorage.getItem('last_repair_prio');
-            const storedStatus = localStorage.getItem('last_repair_status');
             const storedReporter = localStorage.getItem('last_repair_reporter');
 
             form.reset({
@@ -180,11 +183,11 @@ export default function EditMaintenancePage() {
                 description: maintenanceLog.description || '',
                 category: storedCat || normalizeValue(maintenanceLog.category, CATEGORIES),
                 priority: storedPrio || normalizeValue(maintenanceLog.priority, PRIORITIES),
-                status: storedStatus || normalizeValue(maintenanceLog.status, STATUSES),
                 reportedBy: storedReporter || normalizeValue(maintenanceLog.reportedBy || 'Landlord', REPORTERS),
                 reportedDate: safeToDate(maintenanceLog.reportedDate) || new Date(),
                 scheduledDate: safeToDate(maintenanceLog.scheduledDate) || undefined,
-                expectedCost: maintenanceLog.expectedCost || 0,
+                expectedCost: poundsOf(maintenanceLog, 'expectedCost'),
+                classification: expenditureClassOf(maintenanceLog),
                 otherCategoryDetails: maintenanceLog.otherCategoryDetails || '',
                 notes: maintenanceLog.notes || '',
                 contractorName: maintenanceLog.contractorName || '',
@@ -193,13 +196,13 @@ export default function EditMaintenancePage() {
         }
     }, [maintenanceLog, form, propertyIdFromUrl, isLoadingProps]);
 
-    const dataKey = maintenanceLog ? `registry-loaded-${localStorage.getItem('last_repair_status')}-${localStorage.getItem('last_repair_cat')}` : 'registry-pending';
+    const dataKey = maintenanceLog ? `registry-loaded-${localStorage.getItem('last_repair_cat')}` : 'registry-pending';
 
     async function handleFormSubmit(data: MaintenanceFormValues) {
         if (!user || !firestore || !maintenanceLogRef) return;
         setIsSaving(true);
 
-        const cleanedData = JSON.parse(JSON.stringify(data));
+        const cleanedData = JSON.parse(JSON.stringify(withPence(data, MONEY_FIELDS.repairs)));
 
         try {
             await updateDoc(maintenanceLogRef, cleanedData);
@@ -250,12 +253,23 @@ export default function EditMaintenancePage() {
                                 )} />
                                 <FormField control={form.control} name="title" render={({ field }) => (<FormItem><FormLabel className="font-bold">Title</FormLabel><FormControl><Input className="h-11" {...field} /></FormControl><FormMessage /></FormItem>)} />
                                 <FormField control={form.control} name="description" render={({ field }) => (<FormItem><FormLabel className="font-bold">Description</FormLabel><FormControl><Textarea rows={4} className="resize-none" {...field} /></FormControl><FormMessage /></FormItem>)} />
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                                 <FormField control={form.control} name="expectedCost" render={({ field }) => (
-                                    <FormItem className="max-w-md"><FormLabel className="font-bold flex items-center gap-2"><Banknote className="h-4 w-4 text-primary" />Expected Cost (£)</FormLabel>
+                                    <FormItem><FormLabel className="font-bold flex items-center gap-2"><Banknote className="h-4 w-4 text-primary" />Expected Cost (£)</FormLabel>
                                         <FormControl><Input type="number" step="0.01" min="0" placeholder="0.00" className="h-11" {...field} value={field.value === 0 ? '' : field.value} onChange={(e) => field.onChange(e.target.value === '' ? 0 : Number(e.target.value))} /></FormControl>
                                         <FormMessage />
                                     </FormItem>
                                 )} />
+                                <FormField control={form.control} name="classification" render={({ field }) => (
+                                    <FormItem><FormLabel className="font-bold">Tax Treatment</FormLabel>
+                                        <Select key={`${dataKey}-class`} onValueChange={field.onChange} value={field.value}>
+                                            <FormControl><SelectTrigger className="h-11"><SelectValue /></SelectTrigger></FormControl>
+                                            <SelectContent>{Object.entries(EXPENDITURE_CLASS_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )} />
+                                </div>
                                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
                                     <FormField control={form.control} name="category" render={({ field }) => (
                                         <FormItem><FormLabel className="font-bold">Category</FormLabel>
@@ -276,15 +290,13 @@ export default function EditMaintenancePage() {
                                         </FormItem>
                                     )} />
                                 </div>
-                                <FormField control={form.control} name="status" render={({ field }) => (
-                                    <FormItem><FormLabel className="font-bold">Repair Status</FormLabel>
-                                        <Select key={`${dataKey}-status`} onValueChange={(val) => { field.onChange(val); localStorage.setItem('last_repair_status', val); }} value={field.value ? String(field.value) : ""}>
-                                            <FormControl><SelectTrigger className="h-11"><SelectValue placeholder="Select status" /></SelectTrigger></FormControl>
-                                            <SelectContent>{STATUSES.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}</SelectContent>
-                                        </Select>
-                                        <FormMessage />
-                                    </FormItem>
-                                )} />
+                                <div className="flex items-center justify-between gap-4 p-4 rounded-lg border border-dashed bg-muted/20">
+                                    <div>
+                                        <p className="text-sm font-bold">Repair Status: {REPAIR_STATE_LABELS[repairState(maintenanceLog)]}</p>
+                                        <p className="text-xs text-muted-foreground">Status moves through the repair workflow so each step is logged against its SLA.</p>
+                                    </div>
+                                    <Button asChild variant="outline" size="sm" type="button"><Link href={`/dashboard/maintenance/${logId}?propertyId=${maintenanceLog.propertyId}`}>Update Status</Link></Button>
+                                </div>
                             </div>
 
                             <div className="space-y-8 border-t pt-8">
@@ -6,11 +6,15 @@ import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, Loader2, CalendarIcon, User, HardHat, Phone, Banknote, MoreVertical, Edit, XCircle, Trash2, AlertCircle, Wrench, Info } from 'lucide-react';
+import { ArrowLeft, Loader2, CalendarIcon, User, HardHat, Phone, Banknote, MoreVertical, Edit, XCircle, Trash2, AlertCircle, Wrench, Info, Zap, Droplets } from 'lucide-react';
 import { format } from 'date-fns';
 import { useDoc, useFirestore, useMemoFirebase, useUser } from '@/firebase';
-import { doc, updateDoc, deleteDoc } from 'firebase/firestore';
+import { doc, deleteDoc } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
+import { formatMoney, poundsOf } from '@/lib/money';
+import { REPAIR_STATE_LABELS, canTransition, repairState, transitionRepair, type RepairEvent, type RepairState } from '@/lib/repair-workflow';
+import { RepairWorkflowCard } from '@/components/dashboard/repair-workflow';
+import { HAZARD_CASE_STATUS_LABELS, assessHazardCase, hazardCaseId, type HazardCase } from '@/lib/hazard-cases';
 import { useState, useEffect } from 'react';
 import {
   AlertDialog,
@@ -41,7 +45,11 @@ interface MaintenanceLog {
     estimatedCost?: number;
     photoUrls?: string[];
     notes?: string;
+    dueDate?: string;
+    eicrDocumentId?: string;
     propertyId: string;
+    workflowState?: RepairState;
+    events?: RepairEvent[];
 }
 
 interface Property {
@@ -105,12 +113,18 @@ export default function MaintenanceDetailPage() {
     return doc(firestore, 'properties', propertyId);
   }, [firestore, propertyId, user]);
   const { data: property, isLoading: isLoadingProperty } = useDoc<Property>(propertyRef);
+
+  const hazardCaseRef = useMemoFirebase(() => {
+    if (!firestore || !id || !user) return null;
+    return doc(firestore, 'hazardCases', hazardCaseId('tenant_report', id));
+  }, [firestore, id, user]);
+  const { data: hazardCase } = useDoc<HazardCase>(hazardCaseRef);
   
   const handleCancelConfirm = async () => {
-    if (!maintenanceLogRef) return;
+    if (!firestore || !user || !maintenanceLog) return;
     setIsCancelDialogOpen(false); // Close immediately
     try {
-      await updateDoc(maintenanceLogRef, { status: 'Cancelled' });
+      await transitionRepair(firestore, maintenanceLog, 'cancelled', { actor: { uid: user.uid, name: user.displayName || user.email } });
       toast({ title: 'Log Cancelled', description: 'The maintenance log has been marked as cancelled.' });
       router.push('/dashboard/maintenance/logged');
     } catch (e) {
@@ -170,6 +184,7 @@ export default function MaintenanceDetailPage() {
     );
   }
 
+  const state = repairState(maintenanceLog);
   const reportedDate = safeToDate(maintenanceLog.reportedDate);
   const scheduledDate = safeToDate(maintenanceLog.scheduledDate);
   const propertyAddress = property?.address ? [property.address.nameOrNumber, property.address.street, property.address.city, property.address.postcode].filter(Boolean).join(', ') : 'Property Context Missing';
@@ -205,7 +220,7 @@ export default function MaintenanceDetailPage() {
                     <DropdownMenuItem asChild>
                         <Link href={`/dashboard/maintenance/${id}/edit?propertyId=${propertyId}`}><Edit className="mr-2 h-4 w-4" /> Edit</Link>
                     </DropdownMenuItem>
-                    {maintenanceLog.status !== 'Cancelled' && (
+                    {canTransition(state, 'cancelled') && (
                         <DropdownMenuItem onClick={() => setIsCancelDialogOpen(true)}>
                             <XCircle className="mr-2 h-4 w-4" /> Cancel Log
                         </DropdownMenuItem>
@@ -227,7 +242,7 @@ export default function MaintenanceDetailPage() {
                     <CardContent className="space-y-4">
                         <div className='flex flex-wrap gap-4 items-center'>
                             <Badge variant={getPriorityVariant(maintenanceLog.priority)}>{maintenanceLog.priority}</Badge>
-                            <Badge variant="secondary">{maintenanceLog.status}</Badge>
+                            <Badge variant="secondary">{REPAIR_STATE_LABELS[state]}</Badge>
                             <Badge variant="outline">{maintenanceLog.category}</Badge>
                         </div>
                         {maintenanceLog.category === 'Other' && maintenanceLog.otherCategoryDetails && (
@@ -239,6 +254,12 @@ export default function MaintenanceDetailPage() {
                             </div>
                           </div>
                         )}
+                        {maintenanceLog.eicrDocumentId && (
+                          <Link href={`/dashboard/documents/${maintenanceLog.eicrDocumentId}`} className="flex items-center gap-2 p-3 bg-primary/5 rounded-lg border border-primary/20 text-sm font-bold text-primary hover:underline">
+                            <Zap className="h-4 w-4 shrink-0" />
+                            EICR remedial work{maintenanceLog.dueDate ? `, due by ${format(new Date(maintenanceLog.dueDate), 'dd/MM/yyyy')}` : ''}. Record completion on the report.
+                          </Link>
+                        )}
                         {maintenanceLog.description && <p className="text-muted-foreground whitespace-pre-wrap">{maintenanceLog.description}</p>}
                     </CardContent>
                 </Card>
@@ -276,6 +297,19 @@ export default function MaintenanceDetailPage() {
                 )}
             </div>
             <div className="space-y-6">
+                <RepairWorkflowCard repair={maintenanceLog} />
+                {hazardCase && (
+                    <Card className="border-primary/20 bg-primary/5">
+                        <CardHeader>
+                            <CardTitle className="flex items-center gap-2"><Droplets className="h-5 w-5 text-primary" />Hazard Case</CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                            <p className="text-sm text-muted-foreground">This report opened an Awaab's Law case. Record the investigation, tenant summary and readings there.</p>
+                            <Badge variant="outline">{HAZARD_CASE_STATUS_LABELS[assessHazardCase(hazardCase).status]}</Badge>
+                            <Button asChild size="sm" className="w-full"><Link href={`/dashboard/hazards/${hazardCase.id}`}>Open Case</Link></Button>
+                        </CardContent>
+                    </Card>
+                )}
                 <Card>
                     <CardHeader>
                         <CardTitle>Reporting</CardTitle>
@@ -336,7 +370,7 @@ export default function MaintenanceDetailPage() {
                                 <Banknote className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-1" />
                                 <div>
                                     <p className="text-sm font-medium">Expected Cost</p>
-                                    <p className="text-sm text-muted-foreground">£{(maintenanceLog.expectedCost ?? maintenanceLog.estimatedCost ?? 0).toFixed(2)}</p>
+                                    <p className="text-sm text-muted-foreground">{formatMoney(poundsOf(maintenanceLog, 'expectedCost') || poundsOf(maintenanceLog, 'estimatedCost'))}</p>
                                 </div>
                             </div>
                         )}
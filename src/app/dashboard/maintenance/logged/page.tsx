@@ -71,8 +71,19 @@ import {
   useCollection,
   useMemoFirebase,
 } from '@/firebase';
-import { collection, query, where, doc, updateDoc, deleteDoc, limit } from 'firebase/firestore';
+import { collection, query, where, doc, deleteDoc, limit } from 'firebase/firestore';
 import { cn } from '@/lib/utils';
+import {
+  REPAIR_STATE_LABELS,
+  assessRepairSla,
+  canTransition,
+  nextRepairStates,
+  repairState,
+  transitionRepair,
+  type RepairEvent,
+  type RepairState,
+} from '@/lib/repair-workflow';
+import { RepairSlaBadge } from '@/components/dashboard/repair-workflow';
 
 interface Property {
   id: string;
@@ -93,6 +104,9 @@ interface MaintenanceLog {
     status: string;
     reportedBy: string;
     reportedDate: any;
+    dueDate?: string;
+    workflowState?: RepairState;
+    events?: RepairEvent[];
 }
 
 function safeToDate(val: any): Date | null {
@@ -108,6 +122,7 @@ export default function MaintenanceLoggedPage() {
   const firestore = useFirestore();
   const [selectedPropertyFilter, setSelectedPropertyFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [breachesOnly, setBreachesOnly] = useState(false);
   const [logToCancel, setLogToCancel] = useState<MaintenanceLog | null>(null);
   const [logToDelete, setLogToDelete] = useState<MaintenanceLog | null>(null);
 
@@ -166,29 +181,35 @@ export default function MaintenanceLoggedPage() {
             const matchesProperty = selectedPropertyFilter === 'all' || log.propertyId === selectedPropertyFilter;
             const matchesTerm = log.title.toLowerCase().includes(term);
             const isNotDeleted = log.status !== 'Deleted';
-            return matchesProperty && matchesTerm && isNotDeleted;
+            const matchesBreach = !breachesOnly || assessRepairSla(log).breached;
+            return matchesProperty && matchesTerm && isNotDeleted && matchesBreach;
         })
         .sort((a, b) => {
             const dateA = safeToDate(a.reportedDate) || new Date(0);
             const dateB = safeToDate(b.reportedDate) || new Date(0);
             return dateB.getTime() - dateA.getTime();
         });
-  }, [allLogs, searchTerm, selectedPropertyFilter]);
+  }, [allLogs, searchTerm, selectedPropertyFilter, breachesOnly]);
+
+  const breachCount = useMemo(
+    () => (allLogs || []).filter(log => log.status !== 'Deleted' && assessRepairSla(log).breached).length,
+    [allLogs]
+  );
 
-  const handleStatusChange = async (logId: string, newStatus: string) => {
+  const handleTransition = async (log: MaintenanceLog, to: RepairState) => {
     if (!firestore || !user) return;
     try {
-      await updateDoc(doc(firestore, 'repairs', logId), { status: newStatus });
-      toast({ title: 'Status Updated', description: `Request marked as ${newStatus}.` });
-    } catch (error) { toast({ variant: 'destructive', title: 'Update Failed' }); }
+      await transitionRepair(firestore, log, to, { actor: { uid: user.uid, name: user.displayName || user.email } });
+      toast({ title: 'Status Updated', description: `Request moved to ${REPAIR_STATE_LABELS[to]}.` });
+    } catch (error: any) { toast({ variant: 'destructive', title: 'Update Failed', description: error?.message }); }
   };
 
   const handleCancelConfirm = async () => {
     if (!firestore || !logToCancel || !user) return;
-    const id = logToCancel.id;
+    const log = logToCancel;
     setLogToCancel(null); // Immediate state clear
     try {
-      await updateDoc(doc(firestore, 'repairs', id), { status: 'Cancelled' });
+      await transitionRepair(firestore, log, 'cancelled', { actor: { uid: user.uid, name: user.displayName || user.email } });
       toast({ title: 'Log Cancelled' });
     } catch (error) { 
         toast({ variant: 'destructive', title: 'Update Failed' }); 
@@ -253,6 +274,15 @@ export default function MaintenanceLoggedPage() {
         </CardContent>
       </Card>
 
+      {(breachCount > 0 || breachesOnly) && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-xl border border-destructive/30 bg-destructive/5 text-left">
+            <p className="text-sm font-bold text-destructive flex items-center gap-2"><Clock className="h-4 w-4 shrink-0" />{breachCount} repair(s) past their response or resolution deadline.</p>
+            <Button variant="outline" size="sm" className="font-bold text-xs bg-background" onClick={() => setBreachesOnly(v => !v)}>
+                {breachesOnly ? 'Show All Repairs' : 'Show Breaches Only'}
+            </Button>
+        </div>
+      )}
+
       <Card className="overflow-hidden border-none shadow-xl">
         <CardHeader className="bg-muted/30 border-b pb-4 text-left"><CardTitle className="text-lg flex items-center gap-2 text-foreground text-left"><LayoutList className="h-5 w-5 text-primary" />Maintenance Records</CardTitle></CardHeader>
         <CardContent className="p-0">
@@ -264,7 +294,7 @@ export default function MaintenanceLoggedPage() {
                 <>
                     <div className="hidden md:block">
                         <Table>
-                            <TableHeader className="bg-muted/20 text-left"><TableRow><TableHead className="pl-6 text-left">Issue Title</TableHead><TableHead className="text-left">Property</TableHead><TableHead className="text-left">Status</TableHead><TableHead className="text-left">Priority</TableHead><TableHead className="text-right pr-6">Actions</TableHead></TableRow></TableHeader>
+                            <TableHeader className="bg-muted/20 text-left"><TableRow><TableHead className="pl-6 text-left">Issue Title</TableHead><TableHead className="text-left">Property</TableHead><TableHead className="text-left">Status</TableHead><TableHead className="text-left">Priority</TableHead><TableHead className="text-left">SLA</TableHead><TableHead className="text-right pr-6">Actions</TableHead></TableRow></TableHeader>
                             <TableBody>
                                 {filteredLogs.map(log => (
                                     <TableRow key={log.id} className="hover:bg-muted/10 transition-colors group">
@@ -276,7 +306,7 @@ export default function MaintenanceLoggedPage() {
                                         </TableCell>
                                         <TableCell className="text-xs text-muted-foreground truncate max-w-[200px] text-left">{propertyMap[log.propertyId] || 'Assigned Property'}</TableCell>
                                         <TableCell className="text-left">
-                                            <Select value={log.status} onValueChange={(v) => handleStatusChange(log.id, v)}>
+                                            <Select value={repairState(log)} onValueChange={(v) => handleTransition(log, v as RepairState)}>
                                                 <SelectTrigger className={cn(
                                                     "w-[160px] h-9 text-xs font-bold bg-background shadow-sm border-2",
                                                     log.status === 'Open' && "border-primary text-primary"
@@ -284,15 +314,14 @@ export default function MaintenanceLoggedPage() {
                                                     <SelectValue />
                                                 </SelectTrigger>
                                                 <SelectContent className="rounded-xl border-2 shadow-2xl min-w-[180px]">
-                                                    <SelectItem value="Open" className="py-3 font-bold cursor-pointer">Open</SelectItem>
-                                                    <SelectItem value="In Progress" className="py-3 font-bold cursor-pointer">In Progress</SelectItem>
-                                                    <SelectItem value="Completed" className="py-3 font-bold cursor-pointer">Completed</SelectItem>
-                                                    <SelectItem value="Cancelled" className="py-3 font-bold cursor-pointer">Cancelled</SelectItem>
+                                                    <SelectItem value={repairState(log)} disabled className="py-3 font-bold">{REPAIR_STATE_LABELS[repairState(log)]}</SelectItem>
+                                                    {nextRepairStates(log).map(to => <SelectItem key={to} value={to} className="py-3 font-bold cursor-pointer">Move to {REPAIR_STATE_LABELS[to]}</SelectItem>)}
                                                 </SelectContent>
                                             </Select>
                                         </TableCell>
                                         <TableCell className="text-left"><Badge variant={getPriorityVariant(log.priority)} className="capitalize text-[10px] font-bold">{log.priority}</Badge></TableCell>
-                                        <TableCell className="text-right pr-6"><div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity"><Button asChild variant="ghost" size="icon" className="h-8 w-8"><Link href={`/dashboard/maintenance/${log.id}?propertyId=${log.propertyId}`} title="View Details"><Eye className="h-4 w-4" /></Link></Button><Button asChild variant="ghost" size="icon" className="h-8 w-8"><Link href={`/dashboard/maintenance/${log.id}/edit?propertyId=${log.propertyId}`} title="Edit Log"><Edit className="h-4 w-4" /></Link></Button><DropdownMenu><DropdownMenuTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8" title="More Options"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="w-40"><DropdownMenuItem onClick={() => setLogToCancel(log)}><XCircle className="mr-2 h-4 w-4" /> Cancel Issue</DropdownMenuItem><DropdownMenuSeparator /><DropdownMenuItem onClick={() => setLogToDelete(log)} className="text-destructive focus:text-destructive focus:bg-destructive/10"><Trash2 className="mr-2 h-4 w-4" /> Delete Permanently</DropdownMenuItem></DropdownMenuContent></DropdownMenu></div></TableCell>
+                                        <TableCell className="text-left"><RepairSlaBadge repair={log} /></TableCell>
+                                        <TableCell className="text-right pr-6"><div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity"><Button asChild variant="ghost" size="icon" className="h-8 w-8"><Link href={`/dashboard/maintenance/${log.id}?propertyId=${log.propertyId}`} title="View Details"><Eye className="h-4 w-4" /></Link></Button><Button asChild variant="ghost" size="icon" className="h-8 w-8"><Link href={`/dashboard/maintenance/${log.id}/edit?propertyId=${log.propertyId}`} title="Edit Log"><Edit className="h-4 w-4" /></Link></Button><DropdownMenu><DropdownMenuTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8" title="More Options"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="w-40">{canTransition(repairState(log), 'cancelled') && <DropdownMenuItem onClick={() => setLogToCancel(log)}><XCircle className="mr-2 h-4 w-4" /> Cancel Issue</DropdownMenuItem>}<DropdownMenuSeparator /><DropdownMenuItem onClick={() => setLogToDelete(log)} className="text-destructive focus:text-destructive focus:bg-destructive/10"><Trash2 className="mr-2 h-4 w-4" /> Delete Permanently</DropdownMenuItem></DropdownMenuContent></DropdownMenu></div></TableCell>
                                     </TableRow>
                                 ))}
                             </TableBody>
@@ -303,8 +332,8 @@ export default function MaintenanceLoggedPage() {
                             const date = safeToDate(log.reportedDate);
                             return (
                                 <Card key={log.id} className="overflow-hidden shadow-sm border-muted/60 text-left">
-                                    <CardHeader className="pb-3 text-left"><div className="flex justify-between items-start text-left"><div className="space-y-1 text-left"><Badge variant={getPriorityVariant(log.priority)} className="mb-1 text-[10px] font-bold uppercase">{log.priority}</Badge><CardTitle className="text-lg font-bold text-left"><Link href={`/dashboard/maintenance/${log.id}?propertyId=${log.propertyId}`} className="hover:underline">{log.title}</Link></CardTitle><CardDescription className="flex items-center gap-1.5 mt-1 text-xs font-medium text-left"><AlertCircle className="h-3 w-3 text-primary" />{propertyMap[log.propertyId] || 'Assigned Property'}</CardDescription></div><DropdownMenu><DropdownMenuTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8 -mr-2 -mt-2"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="w-40"><DropdownMenuItem asChild><Link href={`/dashboard/maintenance/${log.id}?propertyId=${log.propertyId}`}><Eye className="mr-2 h-4 w-4" /> View Details</Link></DropdownMenuItem><DropdownMenuItem asChild><Link href={`/dashboard/maintenance/${log.id}/edit?propertyId=${log.propertyId}`}><Edit className="mr-2 h-4 w-4" /> Edit Log</Link></DropdownMenuItem><DropdownMenuSeparator /><DropdownMenuItem onClick={() => setLogToCancel(log)}><XCircle className="mr-2 h-4 w-4" /> Cancel Log</DropdownMenuItem><DropdownMenuItem onClick={() => setLogToDelete(log)} className="text-destructive"><Trash2 className="mr-2 h-4 w-4" /> Delete Permanently</DropdownMenuItem></DropdownMenuContent></DropdownMenu></div></CardHeader>
-                                    <CardContent className="pb-3 border-t pt-3 bg-muted/5 text-left"><div className="flex items-center justify-between text-sm mb-3"><span className="text-muted-foreground font-bold uppercase text-[10px] tracking-widest text-left">Status</span><Select value={log.status} onValueChange={(v) => handleStatusChange(log.id, v)}><SelectTrigger className="w-[160px] h-10 bg-background border-2"><SelectValue /></SelectTrigger><SelectContent className="rounded-xl border-2 shadow-2xl"><SelectItem value="Open" className="py-3 font-bold">Open</SelectItem><SelectItem value="In Progress" className="py-3 font-bold">In Progress</SelectItem><SelectItem value="Completed" className="py-3 font-bold">Completed</SelectItem><SelectItem value="Cancelled" className="py-3 font-bold">Cancelled</SelectItem></SelectContent></Select></div><div className="flex items-center justify-between text-xs text-muted-foreground font-medium text-left"><span className="flex items-center gap-1.5 text-left"><Calendar className="h-3.5 w-3.5" />Reported</span><span className="font-bold text-foreground">{date ? format(date, 'dd/MM/yyyy') : 'Recently'}</span></div></CardContent>
+                                    <CardHeader className="pb-3 text-left"><div className="flex justify-between items-start text-left"><div className="space-y-1 text-left"><Badge variant={getPriorityVariant(log.priority)} className="mb-1 text-[10px] font-bold uppercase">{log.priority}</Badge><CardTitle className="text-lg font-bold text-left"><Link href={`/dashboard/maintenance/${log.id}?propertyId=${log.propertyId}`} className="hover:underline">{log.title}</Link></CardTitle><CardDescription className="flex items-center gap-1.5 mt-1 text-xs font-medium text-left"><AlertCircle className="h-3 w-3 text-primary" />{propertyMap[log.propertyId] || 'Assigned Property'}</CardDescription></div><DropdownMenu><DropdownMenuTrigger asChild><Button variant="ghost" size="icon" className="h-8 w-8 -mr-2 -mt-2"><MoreVertical className="h-4 w-4" /></Button></DropdownMenuTrigger><DropdownMenuContent align="end" className="w-40"><DropdownMenuItem asChild><Link href={`/dashboard/maintenance/${log.id}?propertyId=${log.propertyId}`}><Eye className="mr-2 h-4 w-4" /> View Details</Link></DropdownMenuItem><DropdownMenuItem asChild><Link href={`/dashboard/maintenance/${log.id}/edit?propertyId=${log.propertyId}`}><Edit className="mr-2 h-4 w-4" /> Edit Log</Link></DropdownMenuItem><DropdownMenuSeparator />{canTransition(repairState(log), 'cancelled') && <DropdownMenuItem onClick={() => setLogToCancel(log)}><XCircle className="mr-2 h-4 w-4" /> Cancel Log</DropdownMenuItem>}<DropdownMenuItem onClick={() => setLogToDelete(log)} className="text-destructive"><Trash2 className="mr-2 h-4 w-4" /> Delete Permanently</DropdownMenuItem></DropdownMenuContent></DropdownMenu></div></CardHeader>
+                                    <CardContent className="pb-3 border-t pt-3 bg-muted/5 text-left"><div className="flex items-center justify-between text-sm mb-3"><span className="text-muted-foreground font-bold uppercase text-[10px] tracking-widest text-left">Status</span><Select value={repairState(log)} onValueChange={(v) => handleTransition(log, v as RepairState)}><SelectTrigger className="w-[160px] h-10 bg-background border-2"><SelectValue /></SelectTrigger><SelectContent className="rounded-xl border-2 shadow-2xl"><SelectItem value={repairState(log)} disabled className="py-3 font-bold">{REPAIR_STATE_LABELS[repairState(log)]}</SelectItem>{nextRepairStates(log).map(to => <SelectItem key={to} value={to} className="py-3 font-bold">Move to {REPAIR_STATE_LABELS[to]}</SelectItem>)}</SelectContent></Select></div><div className="flex items-center justify-between text-sm mb-3"><span className="text-muted-foreground font-bold uppercase text-[10px] tracking-widest text-left">SLA</span><RepairSlaBadge repair={log} /></div><div className="flex items-center justify-between text-xs text-muted-foreground font-medium text-left"><span className="flex items-center gap-1.5 text-left"><Calendar className="h-3.5 w-3.5" />Reported</span><span className="font-bold text-foreground">{date ? format(date, 'dd/MM/yyyy') : 'Recently'}</span></div></CardContent>
                                 </Card>
                             );
                         })}
@@ -322,7 +351,7 @@ export default function MaintenanceLoggedPage() {
           </Button>
       </div>
 
-      <AlertDialog open={!!logToCancel} onOpenChange={(open) => !open && setLogToCancel(null)}><AlertDialogContent className="rounded-2xl text-left"><AlertDialogHeader className="text-left"><AlertDialogTitle className="text-xl text-left font-headline">Cancel Maintenance Issue?</AlertDialogTitle><AlertDialogDescription className="text-base font-medium">This will mark "<strong className="text-foreground">{logToCancel?.title}</strong>" as 'Cancelled'.</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter className="gap-3 mt-4"><AlertDialogCancel className="rounded-xl font-bold uppercase tracking-widest text-xs h-11">Go Back</AlertDialogCancel><AlertDialogAction className="bg-destructive text-destructive-foreground hover:bg-destructive/90 rounded-xl font-bold uppercase tracking-widest text-xs h-11 px-8 shadow-lg" onClick={handleCancelConfirm}>Confirm Cancellation</AlertDialogAction></AlertDialogFooter></AlertDialogContent></AlertDialog>
+      <AlertDialog open={!!logToCancel} onOpenChange={(open) => !open && setLogToCancel(null)}><AlertDialogContent className="rounded-2xl text-left"><AlertDialogHeader className="text-left"><AlertDialogTitle className="text-xl text-left font-headline">Cancel Maintenance Issue?</AlertDialogTitle><AlertDialogDescription className="text-base font-medium">This will move "<strong className="text-foreground">{logToCancel?.title}</strong>" to 'Cancelled' and stop its SLA timers.</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter className="gap-3 mt-4"><AlertDialogCancel className="rounded-xl font-bold uppercase tracking-widest text-xs h-11">Go Back</AlertDialogCancel><AlertDialogAction className="bg-destructive text-destructive-foreground hover:bg-destructive/90 rounded-xl font-bold uppercase tracking-widest text-xs h-11 px-8 shadow-lg" onClick={handleCancelConfirm}>Confirm Cancellation</AlertDialogAction></AlertDialogFooter></AlertDialogContent></AlertDialog>
       <AlertDialog open={!!logToDelete} onOpenChange={(open) => !open && setLogToDelete(null)}><AlertDialogContent className="rounded-2xl text-left"><AlertDialogHeader className="text-left"><AlertDialogTitle className="text-xl text-left font-headline">Permanent Deletion</AlertDialogTitle><AlertDialogDescription className="text-base font-medium text-destructive">Are you absolutely sure? This will permanently delete the record for "<strong className="text-foreground">{logToDelete?.title}</strong>". This action cannot be undone.</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter className="gap-3 mt-4"><AlertDialogCancel className="rounded-xl font-bold uppercase tracking-widest text-xs h-11">Cancel</AlertDialogCancel><AlertDialogAction className="bg-destructive text-destructive-foreground hover:bg-destructive/90 rounded-xl font-bold uppercase tracking-widest text-xs h-11 px-8 shadow-lg" onClick={handleDeleteConfirm}>Delete Permanently</AlertDialogAction></AlertDialogFooter></AlertDialogContent></AlertDialog>
     </div>
   );
@@ -55,8 +55,11 @@ import { collection, query, addDoc, limit, where } from 'firebase/firestore';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { MONEY_FIELDS, withPence } from '@/lib/money';
+import { newRepairWorkflow } from '@/lib/repair-workflow';
+import { DAMP_MOULD_CATEGORY, openCaseFromRepair } from '@/lib/hazard-cases';
 
-const CATEGORIES = ['Plumbing', 'Electrical', 'Heating', 'Structural', 'Appliances', 'Garden', 'Cleaning', 'Pest Control', 'Other'];
+const CATEGORIES = ['Plumbing', 'Electrical', 'Heating', DAMP_MOULD_CATEGORY, 'Structural', 'Appliances', 'Garden', 'Cleaning', 'Pest Control', 'Other'];
 const PRIORITIES = ['Emergency', 'Urgent', 'Routine', 'Low'];
 const REPORTERS = ['Landlord', 'Tenant', 'Agent', 'Other'];
 
@@ -168,7 +171,15 @@ function MaintenanceFormContent() {
 
     try {
       const logsCollection = collection(firestore, 'repairs');
-      const docRef = await addDoc(logsCollection, { ...data, landlordId: user.uid, status: 'Open', createdDate: new Date().toISOString() });
+      const docRef = await addDoc(logsCollection, withPence({ ...data, landlordId: user.uid, ...newRepairWorkflow({ uid: user.uid, name: user.displayName || user.email }), createdDate: new Date().toISOString() }, MONEY_FIELDS.repairs));
+
+      // Damp and mould reports start an Awaab's Law case, as they do from the tenant portal
+      try {
+        await openCaseFromRepair(firestore, { ...data, id: docRef.id, landlordId: user.uid, reportedDate: data.reportedDate.toISOString() });
+      } catch (caseError) {
+        console.warn('Hazard case could not be opened:', caseError);
+      }
+
       toast({ title: 'Issue Logged' });
       router.push(`/dashboard/maintenance/${docRef.id}?propertyId=${data.propertyId}`);
     } catch (error) {
@@ -0,0 +1,421 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  ArrowLeft,
+  Calendar,
+  AlertTriangle,
+  CheckCircle2,
+  Info,
+  Scale,
+  Download,
+  Send,
+  ExternalLink,
+  Loader2,
+  Users,
+  BookmarkCheck,
+} from 'lucide-react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { generateLawUpdatePDF, lawUpdateFileName } from '@/lib/generate-law-update-pdf';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where, limit } from 'firebase/firestore';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { notifyTenantOfLawUpdate } from '@/app/actions/notifications';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  JURISDICTION_LABELS,
+  TRACKED_BY_LABELS,
+  acknowledgeLawUpdate,
+  actionDueDate,
+  actionKey,
+  affectedProperties,
+  findLawUpdate,
+  isInForce,
+  setLawUpdateActionsDone,
+  type LawUpdateAcknowledgement,
+} from '@/lib/law-updates';
+
+/**
+ * @fileOverview Law Update Briefing
+ * One legislative change in full: what changed, the actions required at each
+ * affected property with their completion state, acknowledgement, and PDF
+ * download or email to a tenant.
+ */
+
+const formatAddress = (address: any) =>
+  [address?.nameOrNumber, address?.street, address?.city, address?.postcode].filter(Boolean).join(', ');
+
+export default function LawUpdatePage() {
+  const params = useParams();
+  const id = params.id as string;
+  const update = findLawUpdate(id);
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isAcknowledging, setIsAcknowledging] = useState(false);
+  const [savingKeys, setSavingKeys] = useState<string[]>([]);
+  const [selectedTenantId, setSelectedTenantId] = useState<string | null>(null);
+
+  // Fetch active tenants to share with
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(
+      collection(firestore, 'tenants'),
+      where('landlordId', '==', user.uid),
+      where('status', '==', 'Active'),
+      limit(50)
+    );
+  }, [user, firestore]);
+  const { data: tenants, isLoading: isLoadingTenants } = useCollection(tenantsQuery);
+
+  const propertiesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'properties'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: properties, isLoading: isLoadingProperties } = useCollection<any>(propertiesQuery);
+
+  const acknowledgementsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'lawUpdateAcknowledgements'), where('landlordId', '==', user.uid), where('updateId', '==', id));
+  }, [user, firestore, id]);
+  const { data: acknowledgements } = useCollection<LawUpdateAcknowledgement>(acknowledgementsQuery);
+  const acknowledgement = acknowledgements?.[0];
+  const completed = useMemo(() => new Set(acknowledgement?.completedActions || []), [acknowledgement]);
+
+  const affected = useMemo(() => (update ? affectedProperties(update, properties || []) : []), [update, properties]);
+  // Tenants of the affected properties come first when sharing
+  const shareTenants = useMemo(() => {
+    const affectedIds = new Set(affected.map(p => p.id));
+    return (tenants || []).slice().sort((a: any, b: any) => Number(affectedIds.has(b.propertyId)) - Number(affectedIds.has(a.propertyId)));
+  }, [tenants, affected]);
+
+  if (!update) return <div className="text-center py-20 italic">Law update not found.</div>;
+
+  const effective = safeToDate(update.effectiveDate);
+  const inForce = isInForce(update);
+
+  const handleAcknowledge = async () => {
+    if (!firestore || !user) return;
+    setIsAcknowledging(true);
+    try {
+      await acknowledgeLawUpdate(firestore, user.uid, update.id);
+      toast({ title: 'Update Acknowledged' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The acknowledgement could not be saved.' });
+    } finally {
+      setIsAcknowledging(false);
+    }
+  };
+
+  const handleActionsDone = async (keys: string[], done: boolean) => {
+    if (!firestore || !user || !keys.length) return;
+    setSavingKeys(keys);
+    try {
+      await setLawUpdateActionsDone(firestore, user.uid, update.id, keys, done);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The action could not be updated.' });
+    } finally {
+      setSavingKeys([]);
+    }
+  };
+
+  const handleDownloadPDF = async () => {
+    setIsExporting(true);
+    try {
+      const doc = await generateLawUpdatePDF(update);
+      doc.save(lawUpdateFileName(update));
+      toast({ title: 'Briefing Downloaded' });
+    } catch (err) {
+      toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSendToTenant = async () => {
+    if (!selectedTenantId || isSending) return;
+    const tenant = tenants?.find(t => t.id === selectedTenantId);
+    if (!tenant) return;
+
+    setIsSending(true);
+    try {
+      // 1. Generate the PDF instance
+      const doc = await generateLawUpdatePDF(update);
+
+      // 2. Extract base64 content for server action
+      const pdfBase64 = doc.output('datauristring').split(',')[1];
+
+      // 3. Dispatch notification with attachment
+      const result = await notifyTenantOfLawUpdate(tenant.email.trim().toLowerCase(), update.title, update.summary, pdfBase64, lawUpdateFileName(update));
+
+      if (result.success) {
+        toast({
+          title: result.provider === 'console' ? 'Simulation Successful' : 'Update Shared',
+          description: result.provider === 'console'
+            ? `Simulation: Briefing PDF logged to terminal (No valid API Key detected).`
+            : `Information sheet sent as attachment to ${tenant.name}.`
+        });
+        setIsShareOpen(false);
+        setSelectedTenantId(null);
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Send Failed',
+          description: 'The briefing could not be sent. Please ensure RESEND_API_KEY is correctly set in your environment.'
+        });
+      }
+    } catch (err) {
+      console.error("Sharing failed:", err);
+      toast({ variant: 'destructive', title: 'Process Failed', description: 'Could not generate or attach the briefing PDF.' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-8 max-w-5xl mx-auto text-left animate-in fade-in duration-500">
+      <div className="flex items-center gap-4 min-w-0">
+        <Button variant="outline" size="icon" asChild><Link href="/dashboard/news"><ArrowLeft className="h-4 w-4" /></Link></Button>
+        <h1 className="text-2xl font-bold font-headline truncate">News & Law Updates</h1>
+      </div>
+
+      <Card className="border-none shadow-xl overflow-hidden">
+        <CardHeader className="bg-muted/30 border-b pb-8">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="space-y-1 text-left">
+              <Badge variant="outline" className="bg-primary/10 text-primary border-primary/20 font-bold uppercase text-[9px] tracking-widest mb-2 px-3">
+                {update.category}
+              </Badge>
+              <CardTitle className="text-2xl font-headline">{update.title}</CardTitle>
+              {effective && (
+                <CardDescription className="text-base font-medium text-left">
+                  {inForce ? 'In effect from' : 'Coming into effect from'} {format(effective, 'd MMMM yyyy')}
+                </CardDescription>
+              )}
+            </div>
+            <div className="flex flex-col gap-1 items-start sm:items-end text-left sm:text-right">
+              {effective && (
+                <div className="flex items-center gap-2 text-xs font-bold text-muted-foreground uppercase">
+                  <Calendar className="h-3.5 w-3.5" />
+                  Effective: {format(effective, 'd MMM yyyy')}
+                </div>
+              )}
+              <div className="flex items-center gap-2 text-xs font-bold text-muted-foreground uppercase">
+                <Scale className="h-3.5 w-3.5" />
+                Scope: {update.jurisdictions.map(j => JURISDICTION_LABELS[j]).join(', ')}{update.propertyTypes.length ? ` (${update.propertyTypes.join(', ')})` : ''}
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-8 space-y-10 text-left">
+          <section className="bg-primary/5 p-6 rounded-2xl border border-primary/10 text-left">
+            <div className="flex items-start gap-4">
+              <Info className="h-6 w-6 text-primary shrink-0 mt-1" />
+              <p className="text-sm font-medium leading-relaxed text-foreground/80">{update.summary}</p>
+            </div>
+          </section>
+
+          <div className="grid gap-8 text-left">
+            {update.sections.map((section, index) => (
+              <div key={section.heading} className="space-y-4">
+                <h3 className="text-lg font-bold flex items-center gap-2">
+                  <span className="flex items-center justify-center h-6 w-6 rounded-full bg-primary text-primary-foreground text-xs">{index + 1}</span>
+                  {section.heading}
+                </h3>
+                <div className="pl-8 space-y-3">
+                  <p className="text-sm text-muted-foreground leading-relaxed font-medium">{section.body}</p>
+                  {section.points && (
+                    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {section.points.map(point => (
+                        <li key={point} className="flex items-center gap-2 text-xs font-bold text-foreground">
+                          <CheckCircle2 className="h-3.5 w-3.5 text-primary" /> {point}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col gap-8 bg-primary/5 p-8 border-t text-left">
+          {update.requiredActions.length > 0 && (
+            <div className="w-full space-y-6 text-left">
+              <div className="space-y-1">
+                <h3 className="text-lg font-bold text-primary flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5" />
+                  What Landlords Must Do
+                </h3>
+                <p className="text-xs text-muted-foreground">
+                  {isLoadingProperties ? 'Finding affected properties…' : affected.length
+                    ? `Tick each action off as it is done at each of the ${affected.length} affected propert${affected.length === 1 ? 'y' : 'ies'}. Outstanding actions appear in your reminders.`
+                    : 'None of your properties are affected by this update.'}
+                </p>
+              </div>
+              {update.requiredActions.map(action => {
+                const due = actionDueDate(update, action);
+                const keys = affected.map(p => actionKey(action.id, p.id));
+                const remaining = action.trackedBy ? [] : keys.filter(k => !completed.has(k));
+                const overdue = !!due && remaining.length > 0 && isBefore(due, startOfDay(new Date()));
+                return (
+                  <div key={action.id} className="p-4 rounded-xl bg-background border shadow-sm space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="space-y-1">
+                        <p className="text-sm font-bold">{action.title}</p>
+                        <p className="text-xs text-muted-foreground">{action.detail}</p>
+                      </div>
+                      {due && (
+                        <Badge variant={overdue ? 'destructive' : 'secondary'} className="text-[9px] font-bold uppercase shrink-0">
+                          {overdue ? 'Overdue' : 'Due'} {format(due, 'dd/MM/yyyy')}
+                        </Badge>
+                      )}
+                    </div>
+                    {affected.length > 0 && action.trackedBy && (
+                      <p className="border-t pt-3 text-xs text-muted-foreground">
+                        Checked from your records by {TRACKED_BY_LABELS[action.trackedBy]}; anything missing appears in your reminders.
+                      </p>
+                    )}
+                    {affected.length > 0 && !action.trackedBy && (
+                      <div className="space-y-2 border-t pt-3">
+                        {affected.map(property => {
+                          const key = actionKey(action.id, property.id);
+                          return (
+                            <label key={key} className="flex items-center gap-3 text-xs font-medium cursor-pointer">
+                              <Checkbox
+                                checked={completed.has(key)}
+                                disabled={savingKeys.includes(key)}
+                                onCheckedChange={checked => handleActionsDone([key], checked === true)}
+                              />
+                              <span className={cn(completed.has(key) && 'line-through text-muted-foreground')}>{formatAddress(property.address) || 'Unnamed property'}</span>
+                            </label>
+                          );
+                        })}
+                        {remaining.length > 1 && (
+                          <Button variant="ghost" size="sm" className="h-7 text-[10px] font-bold uppercase" disabled={savingKeys.length > 0} onClick={() => handleActionsDone(remaining, true)}>
+                            Mark Done for All
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="w-full flex flex-col sm:flex-row gap-3 pt-4 border-t border-primary/10">
+            {acknowledgement?.acknowledgedDate ? (
+              <div className="flex items-center gap-2 text-xs font-bold text-muted-foreground h-11">
+                <BookmarkCheck className="h-4 w-4 text-primary" />
+                Acknowledged {format(safeToDate(acknowledgement.acknowledgedDate)!, 'dd MMM yyyy')}
+              </div>
+            ) : (
+              <Button onClick={handleAcknowledge} disabled={isAcknowledging} className="h-11 font-bold gap-2">
+                {isAcknowledging ? <Loader2 className="h-4 w-4 animate-spin" /> : <BookmarkCheck className="h-4 w-4" />}
+                Acknowledge Update
+              </Button>
+            )}
+            {update.sourceUrl && (
+              <Button asChild variant="outline" className="h-11 font-bold gap-2">
+                <a href={update.sourceUrl} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4" />
+                  View Official Guidance
+                </a>
+              </Button>
+            )}
+          </div>
+
+          <div className="w-full flex flex-col items-center gap-4 pt-6 border-t border-primary/10">
+            <Button
+              variant="outline"
+              onClick={handleDownloadPDF}
+              disabled={isExporting}
+              className="w-full font-bold uppercase text-[10px] tracking-widest h-12 px-6 gap-2 bg-background shadow-md border-primary/20"
+            >
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4 text-primary" />}
+              Download Briefing PDF
+            </Button>
+            <Button
+              onClick={() => setIsShareOpen(true)}
+              className="w-full font-bold uppercase text-[10px] tracking-widest h-12 px-8 gap-2 shadow-lg"
+            >
+              <Send className="h-4 w-4" />
+              Share with Tenant
+            </Button>
+          </div>
+        </CardFooter>
+      </Card>
+
+      {/* Share with Tenant Dialog */}
+      <Dialog open={isShareOpen} onOpenChange={setIsShareOpen}>
+        <DialogContent className="max-w-md text-left rounded-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Send className="h-5 w-5 text-primary" />
+              Share Law Update
+            </DialogTitle>
+            <DialogDescription>
+              Select an active resident to notify them of this legislative briefing via email. The briefing will be sent as a PDF attachment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-6 space-y-4">
+            {isLoadingTenants ? (
+              <div className="flex justify-center py-10"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+            ) : !shareTenants.length ? (
+              <div className="text-center py-10 text-muted-foreground text-sm italic">No active tenants found in registry.</div>
+            ) : (
+              <div className="grid gap-2 max-h-[300px] overflow-y-auto pr-2">
+                {shareTenants.map((t: any) => (
+                  <Button
+                    key={t.id}
+                    variant={selectedTenantId === t.id ? 'default' : 'outline'}
+                    className="justify-start h-14 rounded-xl gap-3 text-left"
+                    onClick={() => setSelectedTenantId(t.id)}
+                  >
+                    <div className={selectedTenantId === t.id ? 'bg-primary-foreground/20 p-2 rounded-lg' : 'bg-primary/5 p-2 rounded-lg'}>
+                      <Users className="h-4 w-4" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className="font-bold text-sm truncate">{t.name}</p>
+                      <p className="text-[10px] uppercase font-bold opacity-60 truncate">{t.email}</p>
+                    </div>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          <DialogFooter className="gap-3">
+            <Button variant="ghost" onClick={() => setIsShareOpen(false)}>Cancel</Button>
+            <Button
+              onClick={handleSendToTenant}
+              disabled={!selectedTenantId || isSending}
+              className="px-8 shadow-lg font-bold uppercase tracking-widest text-[10px]"
+            >
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Send Briefing
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -28,8 +28,11 @@ import Link from 'next/link';
 import { format, isBefore, addDays, getYear } from 'date-fns';
 import { PortfolioAnalytics } from '@/components/dashboard/portfolio-analytics';
 import { ComplianceTimeline } from '@/components/dashboard/compliance-timeline';
+import { RentersRightsSummaryCard } from '@/components/dashboard/renters-rights';
 import { safeToDate } from '@/lib/date-utils';
+import { poundsOf, sumMoney } from '@/lib/money';
 import { cn } from '@/lib/utils';
+import { currentDocuments } from '@/lib/document-versions';
 
 interface Property { id: string; status: string; landlordId: string; }
 interface Tenant { id: string; status: string; landlordId: string; }
@@ -136,12 +139,12 @@ export default function DashboardPage() {
   const financialSummary = useMemo(() => {
     if (!rentPayments || !allExpenses || !rawRepairs) return { income: 0, expenses: 0, net: 0 };
     
-    const income = rentPayments.reduce((acc, p) => acc + (Number(p.amountPaid) || 0), 0);
-    const baseExpenses = allExpenses.reduce((acc, e) => acc + (Number(e.amount) || 0), 0);
-    const repairExpenses = rawRepairs.reduce((acc, r) => acc + (Number(r.expectedCost || r.estimatedCost || 0)), 0);
-    
-    const totalExpenses = baseExpenses + repairExpenses;
-    return { income, expenses: totalExpenses, net: income - totalExpenses };
+    const income = sumMoney(rentPayments.map(p => poundsOf(p, 'amountPaid')));
+    const totalExpenses = sumMoney([
+      ...allExpenses.map(e => poundsOf(e, 'amount')),
+      ...rawRepairs.map(r => poundsOf(r, 'expectedCost') || poundsOf(r, 'estimatedCost')),
+    ]);
+    return { income, expenses: totalExpenses, net: sumMoney([income, -totalExpenses]) };
   }, [rentPayments, allExpenses, rawRepairs]);
 
   // Compliance Analytics
@@ -149,7 +152,7 @@ export default function DashboardPage() {
     if (!documents || !today) return { expired: 0, expiringSoon: 0 };
     const soon = addDays(today, 90);
     
-    return documents.reduce((acc, doc) => {
+    return currentDocuments(documents).reduce((acc, doc) => {
       const expiry = safeToDate(doc.expiryDate);
       if (!expiry) return acc;
       if (isBefore(expiry, today)) acc.expired++;
@@ -405,6 +408,9 @@ export default function DashboardPage() {
             </CardContent>
           </Card>
 
+          {/* Renters' Rights Act */}
+          <RentersRightsSummaryCard />
+
           {/* Upcoming Inspections */}
           <Card className="border-none shadow-lg text-left">
             <CardHeader className="border-b pb-4 text-left">
@@ -0,0 +1,518 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ArrowLeft, Loader2, BellRing, Plus, Edit, FileDown, ClipboardCheck, CalendarClock, Images, X } from 'lucide-react';
+import { format, isBefore, startOfDay } from 'date-fns';
+import { useUser, useFirestore, useDoc, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { uploadPropertyImage } from '@/lib/upload-image';
+import { generateAlarmEvidencePDF } from '@/lib/generate-alarm-pdf';
+import {
+  ALARM_POWER_LABELS,
+  ALARM_STATUS_LABELS,
+  ALARM_TEST_REASON_LABELS,
+  ALARM_TYPE_LABELS,
+  alarmExpiryDate,
+  alarmStatus,
+  completedTests,
+  recordAlarmTest,
+  saveAlarm,
+  type Alarm,
+  type AlarmPower,
+  type AlarmStatus,
+  type AlarmTest,
+  type AlarmTestReason,
+  type AlarmType,
+} from '@/lib/smoke-alarms';
+
+const alarmSchema = z.object({
+  location: z.string().min(1, 'Where is the alarm fitted?'),
+  alarmType: z.enum(['smoke', 'heat', 'co', 'smoke_co']),
+  power: z.enum(['mains', 'mains_battery', 'sealed_battery', 'battery']),
+  interlinked: z.boolean().default(false),
+  installDate: z.string().optional(),
+  expiryDate: z.string().optional(),
+  removedDate: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type AlarmFormValues = z.infer<typeof alarmSchema>;
+
+const testSchema = z.object({
+  testDate: z.string().min(1, 'Enter the date of the test.'),
+  testedBy: z.string().optional(),
+  reason: z.enum(['tenancy_start', 'routine', 'repair']),
+  results: z.array(z.object({
+    alarmId: z.string(),
+    working: z.boolean(),
+    notes: z.string().optional(),
+  })).min(1, 'Add the alarms to the register before recording a test.'),
+  notes: z.string().optional(),
+});
+
+type TestFormValues = z.infer<typeof testSchema>;
+
+const STATUS_STYLES: Record<AlarmStatus, string> = {
+  ok: 'bg-green-50 text-green-700 border-green-200',
+  faulty: 'bg-destructive/10 text-destructive border-destructive/30',
+  untested: 'bg-orange-50 text-orange-700 border-orange-200',
+  expiring: 'bg-amber-50 text-amber-700 border-amber-200',
+  expired: 'bg-destructive/10 text-destructive border-destructive/30',
+  removed: 'bg-muted text-muted-foreground',
+};
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+const toInputDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'yyyy-MM-dd') : '';
+};
+
+export default function PropertyAlarmsPage() {
+  const params = useParams();
+  const propertyId = params.propertyId as string;
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [editingAlarm, setEditingAlarm] = useState<Alarm | null>(null);
+  const [isAlarmOpen, setIsAlarmOpen] = useState(false);
+  const [isTestOpen, setIsTestOpen] = useState(false);
+  const [scheduledTest, setScheduledTest] = useState<AlarmTest | null>(null);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const propertyRef = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return doc(firestore, 'properties', propertyId);
+  }, [firestore, user, propertyId]);
+  const { data: property, isLoading: isLoadingProperty } = useDoc<any>(propertyRef);
+
+  const alarmsQuery = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return query(collection(firestore, 'alarms'), where('landlordId', '==', user.uid), where('propertyId', '==', propertyId));
+  }, [firestore, user, propertyId]);
+  const { data: alarms, isLoading: isLoadingAlarms } = useCollection<Alarm>(alarmsQuery);
+
+  const testsQuery = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return query(collection(firestore, 'alarmTests'), where('landlordId', '==', user.uid), where('propertyId', '==', propertyId));
+  }, [firestore, user, propertyId]);
+  const { data: tests, isLoading: isLoadingTests } = useCollection<AlarmTest>(testsQuery);
+
+  const propertyAddress = property
+    ? [property.address.nameOrNumber, property.address.street, property.address.city, property.address.postcode].filter(Boolean).join(', ')
+    : '';
+
+  const register = useMemo(() => {
+    return [...(alarms || [])]
+      .sort((a, b) => Number(!!a.removedDate) - Number(!!b.removedDate) || a.location.localeCompare(b.location))
+      .map(alarm => ({ alarm, ...alarmStatus(alarm, tests || []) }));
+  }, [alarms, tests]);
+  const activeAlarms = useMemo(() => register.filter(r => !r.alarm.removedDate).map(r => r.alarm), [register]);
+  const scheduled = useMemo(() => (tests || []).filter(t => t.status === 'scheduled').sort((a, b) => (a.dueDate || '').localeCompare(b.dueDate || '')), [tests]);
+  const log = useMemo(() => completedTests(tests || []), [tests]);
+
+  const alarmForm = useForm<AlarmFormValues>({
+    resolver: zodResolver(alarmSchema),
+    defaultValues: { location: '', alarmType: 'smoke', power: 'mains_battery', interlinked: false },
+  });
+
+  const testForm = useForm<TestFormValues>({
+    resolver: zodResolver(testSchema),
+    defaultValues: { testDate: '', reason: 'routine', results: [] },
+  });
+  const { fields: resultFields } = useFieldArray({ control: testForm.control, name: 'results' });
+
+  const openAlarm = (alarm: Alarm | null) => {
+    alarmForm.reset({
+      location: alarm?.location || '',
+      alarmType: alarm?.alarmType || 'smoke',
+      power: alarm?.power || 'mains_battery',
+      interlinked: alarm?.interlinked ?? false,
+      installDate: toInputDate(alarm?.installDate),
+      expiryDate: toInputDate(alarm?.expiryDate),
+      removedDate: toInputDate(alarm?.removedDate),
+      notes: alarm?.notes || '',
+    });
+    setEditingAlarm(alarm);
+    setIsAlarmOpen(true);
+  };
+
+  const openTest = (forScheduled: AlarmTest | null) => {
+    testForm.reset({
+      testDate: format(new Date(), 'yyyy-MM-dd'),
+      testedBy: user?.displayName || '',
+      reason: forScheduled?.reason || 'routine',
+      results: activeAlarms.map(a => ({ alarmId: a.id, working: true, notes: '' })),
+      notes: '',
+    });
+    setPhotos([]);
+    setScheduledTest(forScheduled);
+    setIsTestOpen(true);
+  };
+
+  const onSaveAlarm = async (values: AlarmFormValues) => {
+    if (!firestore || !user) return;
+    setIsSaving(true);
+    try {
+      const installed = safeToDate(values.installDate);
+      await saveAlarm(firestore, {
+        landlordId: user.uid,
+        propertyId,
+        location: values.location.trim(),
+        alarmType: values.alarmType,
+        power: values.power,
+        interlinked: values.interlinked,
+        installDate: values.installDate || undefined,
+        expiryDate: values.expiryDate || (installed ? format(alarmExpiryDate(installed), 'yyyy-MM-dd') : undefined),
+        removedDate: values.removedDate || undefined,
+        notes: values.notes?.trim() || undefined,
+      }, editingAlarm?.id);
+      toast({ title: editingAlarm ? 'Alarm Updated' : 'Alarm Added' });
+      setIsAlarmOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The alarm could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSaveTest = async (values: TestFormValues) => {
+    if (!firestore || !user) return;
+    setIsSaving(true);
+    try {
+      const photoUrls = await Promise.all(photos.map(file => uploadPropertyImage(file, user.uid, propertyId)));
+      await recordAlarmTest(firestore, {
+        landlordId: user.uid,
+        propertyId,
+        tenantId: scheduledTest?.tenantId,
+        tenantName: scheduledTest?.tenantName,
+        reason: values.reason,
+        dueDate: scheduledTest?.dueDate,
+        testDate: values.testDate,
+        testedBy: values.testedBy?.trim() || undefined,
+        results: values.results.map(r => {
+          const alarm = activeAlarms.find(a => a.id === r.alarmId)!;
+          return { alarmId: r.alarmId, location: alarm.location, alarmType: alarm.alarmType, working: r.working, notes: r.notes?.trim() || undefined };
+        }),
+        photoUrls,
+        notes: values.notes?.trim() || undefined,
+      }, scheduledTest?.id);
+      const faults = values.results.filter(r => !r.working).length;
+      toast({
+        variant: faults ? 'destructive' : 'default',
+        title: 'Test Recorded',
+        description: faults ? `${faults} alarm${faults === 1 ? '' : 's'} not working. Repair or replace before the tenancy continues.` : 'All alarms working.',
+      });
+      setIsTestOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The test could not be recorded.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await generateAlarmEvidencePDF(propertyAddress, alarms || [], tests || []);
+      toast({ title: 'Evidence Pack Generated' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoadingProperty || isLoadingAlarms || isLoadingTests) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
+  }
+
+  if (!property) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <p className="text-muted-foreground">Property not found.</p>
+        <Button asChild variant="outline"><Link href="/dashboard/properties">Return to Properties</Link></Button>
+      </div>
+    );
+  }
+
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="max-w-5xl mx-auto flex flex-col gap-6 text-left">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="icon" asChild className="shrink-0"><Link href={`/dashboard/properties/${propertyId}`}><ArrowLeft className="h-4 w-4" /></Link></Button>
+          <div>
+            <h1 className="text-2xl font-bold font-headline">Smoke & CO Alarms</h1>
+            <p className="text-sm text-muted-foreground font-medium">{propertyAddress}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={isExporting} className="font-bold text-[10px] uppercase tracking-widest">
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />} Evidence Pack
+          </Button>
+          <Button onClick={() => openTest(null)} className="font-bold text-[10px] uppercase tracking-widest"><ClipboardCheck className="mr-2 h-4 w-4" /> Record Test</Button>
+        </div>
+      </div>
+
+      {scheduled.length > 0 && (
+        <Card className="shadow-lg border-none overflow-hidden">
+          <CardHeader className="pb-4 bg-muted/20 border-b">
+            <CardTitle className="text-lg font-headline flex items-center gap-2"><CalendarClock className="h-5 w-5 text-primary" /> Tests Due</CardTitle>
+            <CardDescription>Every alarm must be tested and working on the first day of each tenancy.</CardDescription>
+          </CardHeader>
+          <CardContent className="pt-4 space-y-2">
+            {scheduled.map(test => {
+              const due = safeToDate(test.dueDate);
+              const overdue = !!due && isBefore(due, today);
+              return (
+                <div key={test.id} className="p-4 rounded-xl bg-background border shadow-sm flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-bold text-sm">{ALARM_TEST_REASON_LABELS[test.reason]}{test.tenantName && ` · ${test.tenantName}`}</p>
+                    <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">Due {formatDate(test.dueDate)}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest', overdue ? STATUS_STYLES.faulty : STATUS_STYLES.expiring)}>{overdue ? 'Overdue' : 'Scheduled'}</Badge>
+                    <Button size="sm" variant="outline" onClick={() => openTest(test)} className="text-[10px] font-bold uppercase">Record</Button>
+                  </div>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg border-none overflow-hidden">
+        <CardHeader className="pb-4 bg-muted/20 border-b">
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle className="text-lg font-headline flex items-center gap-2"><BellRing className="h-5 w-5 text-primary" /> Alarm Register</CardTitle>
+            <Button variant="ghost" size="sm" className="h-8 text-[10px] font-bold uppercase" onClick={() => openAlarm(null)}><Plus className="mr-1 h-3.5 w-3.5" /> Add Alarm</Button>
+          </div>
+          <CardDescription>A smoke alarm on every storey used as living accommodation, and a CO alarm in every room with a fixed combustion appliance.</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {register.length === 0 ? (
+            <p className="p-6 text-sm text-muted-foreground italic">No alarms registered yet.</p>
+          ) : (
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Location</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Type</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Power</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Expires</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Last Tested</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {register.map(({ alarm, status, lastTested }) => (
+                  <TableRow key={alarm.id} className={cn(alarm.removedDate && 'opacity-60')}>
+                    <TableCell className="text-sm font-medium">{alarm.location}</TableCell>
+                    <TableCell className="text-xs">{ALARM_TYPE_LABELS[alarm.alarmType]}</TableCell>
+                    <TableCell className="text-xs">{ALARM_POWER_LABELS[alarm.power]}{alarm.interlinked && ', interlinked'}</TableCell>
+                    <TableCell className="text-xs tabular-nums">{formatDate(alarm.expiryDate)}</TableCell>
+                    <TableCell className="text-xs tabular-nums">{formatDate(lastTested)}</TableCell>
+                    <TableCell className="text-right"><Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest', STATUS_STYLES[status])}>{ALARM_STATUS_LABELS[status]}</Badge></TableCell>
+                    <TableCell className="text-right"><Button variant="ghost" size="icon" onClick={() => openAlarm(alarm)}><Edit className="h-4 w-4" /></Button></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg border-none overflow-hidden">
+        <CardHeader className="pb-4 bg-muted/20 border-b">
+          <CardTitle className="text-lg font-headline flex items-center gap-2"><ClipboardCheck className="h-5 w-5 text-primary" /> Test Log</CardTitle>
+          <CardDescription>Every recorded test, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-4 space-y-3">
+          {log.length === 0 && <p className="text-sm text-muted-foreground italic">No tests recorded yet.</p>}
+          {log.map(test => {
+            const faults = test.results.filter(r => !r.working);
+            return (
+              <div key={test.id} className="p-4 rounded-xl bg-background border shadow-sm space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-bold text-sm">{formatDate(test.testDate)} · {ALARM_TEST_REASON_LABELS[test.reason]}</p>
+                    <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">
+                      {[test.testedBy && `Tested by ${test.testedBy}`, test.tenantName].filter(Boolean).join(' · ') || 'Tester not recorded'}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest shrink-0', faults.length ? STATUS_STYLES.faulty : STATUS_STYLES.ok)}>
+                    {faults.length ? `${faults.length} Not Working` : `${test.results.length} Working`}
+                  </Badge>
+                </div>
+                {faults.length > 0 && <p className="text-xs text-destructive">{faults.map(f => `${f.location}${f.notes ? ` (${f.notes})` : ''}`).join(', ')}</p>}
+                {test.notes && <p className="text-xs text-muted-foreground">{test.notes}</p>}
+                {test.photoUrls?.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {test.photoUrls.map(url => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative h-16 w-16 rounded-lg overflow-hidden border">
+                        <Image src={url} alt="Test evidence" fill className="object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isAlarmOpen} onOpenChange={setIsAlarmOpen}>
+        <DialogContent className="text-left">
+          <DialogHeader>
+            <DialogTitle>{editingAlarm ? 'Edit Alarm' : 'Add Alarm'}</DialogTitle>
+            <DialogDescription>Details from the unit's label. Leave the expiry blank to assume ten years from installation.</DialogDescription>
+          </DialogHeader>
+          <Form {...alarmForm}>
+            <form onSubmit={alarmForm.handleSubmit(onSaveAlarm)} className="space-y-4">
+              <FormField control={alarmForm.control} name="location" render={({ field }) => (
+                <FormItem><FormLabel>Location</FormLabel><FormControl><Input placeholder="e.g. First floor landing" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={alarmForm.control} name="alarmType" render={({ field }) => (
+                  <FormItem><FormLabel>Type</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{(Object.keys(ALARM_TYPE_LABELS) as AlarmType[]).map(t => <SelectItem key={t} value={t}>{ALARM_TYPE_LABELS[t]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={alarmForm.control} name="power" render={({ field }) => (
+                  <FormItem><FormLabel>Power</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{(Object.keys(ALARM_POWER_LABELS) as AlarmPower[]).map(p => <SelectItem key={p} value={p}>{ALARM_POWER_LABELS[p]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={alarmForm.control} name="installDate" render={({ field }) => (
+                  <FormItem><FormLabel>Installed</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={alarmForm.control} name="expiryDate" render={({ field }) => (
+                  <FormItem><FormLabel>Expiry</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={alarmForm.control} name="interlinked" render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-3 space-y-0"><FormControl><Checkbox checked={field.value} onCheckedChange={field.onChange} /></FormControl><FormLabel className="font-normal">Interlinked with the other alarms</FormLabel></FormItem>
+              )} />
+              <FormField control={alarmForm.control} name="notes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea rows={2} {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              {editingAlarm && (
+                <FormField control={alarmForm.control} name="removedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Removed From Service</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormDescription className="text-xs">Removed alarms keep their test history but are left out of new tests.</FormDescription><FormMessage /></FormItem>
+                )} />
+              )}
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsAlarmOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Alarm</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isTestOpen} onOpenChange={setIsTestOpen}>
+        <DialogContent className="max-w-2xl text-left max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Record Alarm Test</DialogTitle>
+            <DialogDescription>
+              {scheduledTest?.tenantName ? `First-day test for ${scheduledTest.tenantName}'s tenancy.` : 'Press the test button on each alarm and record whether it sounded.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...testForm}>
+            <form onSubmit={testForm.handleSubmit(onSaveTest)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField control={testForm.control} name="testDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={testForm.control} name="testedBy" render={({ field }) => (
+                  <FormItem><FormLabel>Tested By</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={testForm.control} name="reason" render={({ field }) => (
+                  <FormItem><FormLabel>Reason</FormLabel><Select onValueChange={field.onChange} value={field.value} disabled={!!scheduledTest}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{(Object.keys(ALARM_TEST_REASON_LABELS) as AlarmTestReason[]).map(r => <SelectItem key={r} value={r}>{ALARM_TEST_REASON_LABELS[r]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+              </div>
+
+              <div className="space-y-2">
+                <FormLabel>Results</FormLabel>
+                {resultFields.length === 0 && <p className="text-xs text-destructive">{testForm.formState.errors.results?.message || 'No alarms on the register.'}</p>}
+                {resultFields.map((f, index) => {
+                  const alarm = activeAlarms.find(a => a.id === f.alarmId);
+                  return (
+                    <div key={f.id} className="grid grid-cols-[1fr_auto_1fr] gap-3 items-center p-3 rounded-xl border bg-background">
+                      <div className="min-w-0">
+                        <p className="text-sm font-bold truncate">{alarm?.location}</p>
+                        <p className="text-[10px] text-muted-foreground uppercase font-bold">{alarm && ALARM_TYPE_LABELS[alarm.alarmType]}</p>
+                      </div>
+                      <FormField control={testForm.control} name={`results.${index}.working`} render={({ field }) => (
+                        <FormItem className="flex flex-row items-center space-x-2 space-y-0"><FormControl><Checkbox checked={field.value} onCheckedChange={field.onChange} /></FormControl><FormLabel className="font-normal text-xs">Working</FormLabel></FormItem>
+                      )} />
+                      <FormField control={testForm.control} name={`results.${index}.notes`} render={({ field }) => (
+                        <FormItem><FormControl><Input placeholder="Notes" className="h-8 text-xs" {...field} /></FormControl></FormItem>
+                      )} />
+                    </div>
+                  );
+                })}
+              </div>
+
+              <FormField control={testForm.control} name="notes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea rows={2} placeholder="e.g. Tenant shown how to test the alarms" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+
+              <div className="space-y-2">
+                <FormLabel className="flex items-center gap-2"><Images className="h-4 w-4" /> Photos</FormLabel>
+                <Input type="file" accept="image/*" multiple onChange={e => { const files = Array.from(e.target.files ?? []) as File[]; e.target.value = ''; setPhotos(prev => [...prev, ...files]); }} />
+                {photos.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {photos.map((file, i) => (
+                      <Badge key={`${file.name}-${i}`} variant="secondary" className="gap-1">
+                        {file.name}
+                        <button type="button" onClick={() => setPhotos(prev => prev.filter((_, j) => j !== i))}><X className="h-3 w-3" /></button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsTestOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Test</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
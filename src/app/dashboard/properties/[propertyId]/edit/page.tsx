@@ -14,6 +14,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { toast } from '@/hooks/use-toast';
 import { 
   useUser, 
@@ -25,6 +26,8 @@ import {
 } from '@/firebase';
 import { doc, updateDoc } from 'firebase/firestore';
 import { uploadPropertyImage } from '@/lib/upload-image';
+import { MONEY_FIELDS, withPence } from '@/lib/money';
+import { EPC_RATINGS, MINIMUM_EPC_RATING, type EpcRating } from '@/lib/compliance-rules';
 import { Loader2, MapPin, Home, Upload, X, Images, PlusCircle, CheckCircle2 } from 'lucide-react';
 import Image from 'next/image';
 
@@ -45,6 +48,12 @@ const propertySchema = z.object({
   notes: z.string().optional(),
   purchasePrice: z.coerce.number().min(0).optional(),
   currentValuation: z.coerce.number().min(0).optional(),
+  cashInvested: z.coerce.number().min(0).optional(),
+  ownershipPercentage: z.coerce.number().min(1, 'Must be at least 1%.').max(100, 'Cannot exceed 100%.').optional(),
+  vatOptedToTax: z.boolean().default(false),
+  hasGasSupply: z.boolean().default(true),
+  selectiveLicensingArea: z.boolean().default(false),
+  epcRating: z.enum(EPC_RATINGS).optional(),
   tenancy: z.object({
     monthlyRent: z.coerce.number().min(0).optional(),
     depositAmount: z.coerce.number().min(0).optional(),
@@ -73,6 +82,12 @@ interface Property {
     notes?: string;
     purchasePrice?: number;
     currentValuation?: number;
+    cashInvested?: number;
+    ownershipPercentage?: number;
+    vatOptedToTax?: boolean;
+    hasGasSupply?: boolean;
+    selectiveLicensingArea?: boolean;
+    epcRating?: EpcRating;
     tenancy?: {
         monthlyRent?: number;
         depositAmount?: number;
@@ -118,6 +133,12 @@ export default function EditPropertyPage() {
         notes: property.notes || '',
         purchasePrice: property.purchasePrice,
         currentValuation: property.currentValuation,
+        cashInvested: property.cashInvested,
+        ownershipPercentage: property.ownershipPercentage ?? 100,
+        vatOptedToTax: !!property.vatOptedToTax,
+        hasGasSupply: property.hasGasSupply !== false,
+        selectiveLicensingArea: !!property.selectiveLicensingArea,
+        epcRating: property.epcRating,
         tenancy: property.tenancy,
       });
       if (property.imageUrl) {
@@ -216,7 +237,7 @@ export default function EditPropertyPage() {
           landlordId: user.uid
       };
 
-      const cleanedPayload = JSON.parse(JSON.stringify(updatePayload));
+      const cleanedPayload = JSON.parse(JSON.stringify(withPence(updatePayload, MONEY_FIELDS.properties)));
 
       updateDoc(propertyRef, cleanedPayload)
         .then(() => {
@@ -281,6 +302,65 @@ export default function EditPropertyPage() {
                         <FormField control={form.control} name="address.postcode" render={({ field }) => (
                           <FormItem><FormLabel>Postcode</FormLabel><FormControl><Input className="uppercase h-11 bg-background" {...field} /></FormControl><FormMessage /></FormItem>
                         )} />
+                        <FormField control={form.control} name="ownershipPercentage" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Your Ownership Share (%)</FormLabel>
+                            <FormControl><Input type="number" min="1" max="100" step="0.01" className="h-11 bg-background" {...field} /></FormControl>
+                            <FormDescription className="text-xs">For jointly owned property, only your share of income and costs is used in tax estimates.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <FormField control={form.control} name="purchasePrice" render={({ field }) => (
+                            <FormItem><FormLabel>Purchase Price (£)</FormLabel><FormControl><Input type="number" step="0.01" className="h-11 bg-background" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                          )} />
+                          <FormField control={form.control} name="currentValuation" render={({ field }) => (
+                            <FormItem><FormLabel>Current Valuation (£)</FormLabel><FormControl><Input type="number" step="0.01" className="h-11 bg-background" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                          )} />
+                          <FormField control={form.control} name="cashInvested" render={({ field }) => (
+                            <FormItem><FormLabel>Cash Invested (£)</FormLabel><FormControl><Input type="number" step="0.01" className="h-11 bg-background" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                          )} />
+                        </div>
+                        <FormField control={form.control} name="vatOptedToTax" render={({ field }) => (
+                          <FormItem className="flex items-center justify-between gap-4 rounded-xl border p-4">
+                            <div className="space-y-1">
+                              <FormLabel>Opted to Tax (VAT)</FormLabel>
+                              <FormDescription className="text-xs">Commercial property only. Rent is standard rated and VAT on its costs can be reclaimed.</FormDescription>
+                            </div>
+                            <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                          </FormItem>
+                        )} />
+                        <FormField control={form.control} name="hasGasSupply" render={({ field }) => (
+                          <FormItem className="flex items-center justify-between gap-4 rounded-xl border p-4">
+                            <div className="space-y-1">
+                              <FormLabel>Gas Supply</FormLabel>
+                              <FormDescription className="text-xs">An annual Gas Safety Certificate is required while the property has gas appliances or a gas supply.</FormDescription>
+                            </div>
+                            <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                          </FormItem>
+                        )} />
+                        <FormField control={form.control} name="selectiveLicensingArea" render={({ field }) => (
+                          <FormItem className="flex items-center justify-between gap-4 rounded-xl border p-4">
+                            <div className="space-y-1">
+                              <FormLabel>Selective Licensing Area</FormLabel>
+                              <FormDescription className="text-xs">The council requires a licence for every private let in this area. HMOs are licensed separately.</FormDescription>
+                            </div>
+                            <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+                          </FormItem>
+                        )} />
+                        <FormField control={form.control} name="epcRating" render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>EPC Rating</FormLabel>
+                            <Select key={`epc-${field.value || 'none'}`} onValueChange={field.onChange} value={field.value}>
+                              <FormControl><SelectTrigger className="h-11 bg-background"><SelectValue placeholder="Not recorded" /></SelectTrigger></FormControl>
+                              <SelectContent>
+                                {EPC_RATINGS.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription className="text-xs">Private lets in England and Wales must be rated {MINIMUM_EPC_RATING} or better. Full certificate details, when recorded on the property page, take precedence.</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )} />
                     </CardContent>
                 </Card>
                 <div className="aspect-square rounded-2xl overflow-hidden border-2 bg-muted relative">
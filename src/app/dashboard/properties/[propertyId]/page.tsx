@@ -35,7 +35,9 @@ import {
   Inbox,
   Wrench,
   UserMinus,
-  Download
+  Download,
+  BellRing,
+  FileArchive
 } from 'lucide-react';
 import { useUser, useAuth, useFirestore, useDoc, useCollection, useMemoFirebase, updateDocumentNonBlocking } from '@/firebase';
 import { doc, updateDoc, collection, query, where, getDocs, limit, addDoc, serverTimestamp } from 'firebase/firestore';
@@ -59,9 +61,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
 import { cn } from '@/lib/utils';
 import { safeToDate } from '@/lib/date-utils';
+import { formatMoney, poundsOf } from '@/lib/money';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { notifyTenantOfMessage } from '@/app/actions/notifications';
 import { generateChatPDF } from '@/lib/generate-chat-pdf';
+import { AssetRegister, CgtBaseCostSchedule } from '@/components/dashboard/asset-register';
+import { PropertyComplianceCard } from '@/components/dashboard/compliance-status';
+import { EpcRatingBadge, PropertyEpcCard } from '@/components/dashboard/energy-performance';
+import { PropertyHmoLicenceCard } from '@/components/dashboard/hmo-licence';
+import { isHmo, type EpcRating } from '@/lib/compliance-rules';
+import { currentEpcRating, type PropertyEpc } from '@/lib/epc';
+import type { HmoLicence, HmoRoom } from '@/lib/hmo-licence';
+import { buildCompliancePack, compliancePackFileName, formatPropertyAddress, loadCompliancePackRecords } from '@/lib/compliance-pack';
+import { downloadFile } from '@/lib/file-export';
 
 interface Property {
     id: string;
@@ -80,6 +92,13 @@ interface Property {
     imageUrl?: string;
     additionalImageUrls?: string[];
     notes?: string;
+    purchasePrice?: number;
+    hasGasSupply?: boolean;
+    selectiveLicensingArea?: boolean;
+    epcRating?: EpcRating;
+    epc?: PropertyEpc;
+    hmoLicence?: HmoLicence;
+    hmoRooms?: HmoRoom[];
     tenancy?: {
         monthlyRent?: number;
         depositAmount?: number;
@@ -127,6 +146,7 @@ export default function PropertyDetailPage() {
   const [newReply, setNewReply] = useState('');
   const [isSendingReply, setIsSendingReply] = useState(false);
   const [isExportingChat, setIsExportingChat] = useState(false);
+  const [isExportingPack, setIsExportingPack] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
   const [selectedTenantId, setSelectedTenantId] = useState<string>('');
 
@@ -229,6 +249,22 @@ export default function PropertyDetailPage() {
     }
   };
 
+  const handleDownloadCompliancePack = async () => {
+    if (!property || !user || isExportingPack) return;
+    setIsExportingPack(true);
+    try {
+        const records = await loadCompliancePackRecords(firestore, user.uid, property.id);
+        const zip = await buildCompliancePack(property, records, user.displayName || 'Landlord');
+        downloadFile(new Blob([zip], { type: 'application/zip' }), compliancePackFileName(formatPropertyAddress(property.address)));
+        toast({ title: 'Compliance Pack Exported' });
+    } catch (err) {
+        console.error(err);
+        toast({ variant: 'destructive', title: 'Export Failed', description: 'The compliance pack could not be built.' });
+    } finally {
+        setIsExportingPack(false);
+    }
+  };
+
   const handleSendReply = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newReply.trim() || !user || !property || isSendingReply || !selectedTenantId) return;
@@ -345,7 +381,7 @@ export default function PropertyDetailPage() {
                 <Button variant="outline" size="icon" asChild><Link href="/dashboard/properties"><ArrowLeft className="h-4 w-4" /></Link></Button>
                 <div className="min-w-0">
                     <h1 className="text-2xl font-bold font-headline leading-tight break-words">{propertyAddressTitle}</h1>
-                    <p className="text-muted-foreground text-sm font-medium mt-1">{propertyAddressSubtitle}</p>
+                    <p className="text-muted-foreground text-sm font-medium mt-1 flex items-center gap-2">{propertyAddressSubtitle} <EpcRatingBadge rating={currentEpcRating(property)} score={property.epc?.currentScore} /></p>
                 </div>
             </div>
             <div className="flex items-center gap-2">
@@ -358,6 +394,10 @@ export default function PropertyDetailPage() {
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end" className="w-56 p-1">
                         <DropdownMenuItem asChild><Link href={`/dashboard/properties/${property.id}/edit`}><Edit className="mr-2 h-4 w-4" /> Edit Record</Link></DropdownMenuItem>
+                        <DropdownMenuItem asChild><Link href={`/dashboard/properties/${property.id}/alarms`}><BellRing className="mr-2 h-4 w-4" /> Alarm Register</Link></DropdownMenuItem>
+                        <DropdownMenuItem onClick={handleDownloadCompliancePack} disabled={isExportingPack}>
+                            {isExportingPack ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileArchive className="mr-2 h-4 w-4" />} Compliance Pack
+                        </DropdownMenuItem>
                         <DropdownMenuItem onClick={() => identityInputRef.current?.click()} disabled={isMediaUpdating}><Upload className="mr-2 h-4 w-4" /> Update Identity</DropdownMenuItem>
                         {property.status === 'Occupied' && (
                           <>
@@ -423,15 +463,17 @@ export default function PropertyDetailPage() {
                         <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-8 pt-8">
                             <div className="flex items-start gap-4">
                                 <div className="p-3 rounded-2xl bg-primary/5 shrink-0"><Banknote className="h-6 w-6 text-primary" /></div>
-                                <div className="text-left"><p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Monthly Rent</p><p className="text-xl font-bold">£{property.tenancy.monthlyRent?.toLocaleString()}</p></div>
+                                <div className="text-left"><p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Monthly Rent</p><p className="text-xl font-bold">{formatMoney(poundsOf(property, 'tenancy.monthlyRent'))}</p></div>
                             </div>
                             <div className="flex items-start gap-4">
                                 <div className="p-3 rounded-2xl bg-primary/5 shrink-0"><Shield className="h-6 w-6 text-primary" /></div>
-                                <div className="text-left"><p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Deposit Amount</p><p className="text-xl font-bold">£{property.tenancy.depositAmount?.toLocaleString()}</p></div>
+                                <div className="text-left"><p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest mb-1">Deposit Amount</p><p className="text-xl font-bold">{formatMoney(poundsOf(property, 'tenancy.depositAmount'))}</p></div>
                             </div>
                         </CardContent>
                     </Card>
                     )}
+                    <AssetRegister propertyId={property.id} />
+                    <CgtBaseCostSchedule property={property} />
                 </TabsContent>
                 <TabsContent value="messages" className="pt-4">
                     <Card className="shadow-lg border-none overflow-hidden flex flex-col h-[900px] bg-card">
@@ -584,6 +626,12 @@ export default function PropertyDetailPage() {
                 )}
               </CardContent>
             </Card>
+
+            <PropertyComplianceCard property={property} />
+
+            <PropertyEpcCard property={property} />
+
+            {isHmo(property) && <PropertyHmoLicenceCard property={property} />}
             
             <Card className="shadow-md border-none overflow-hidden bg-muted/5">
               <CardHeader className="pb-4 bg-muted/20 border-b text-left"><CardTitle className="font-headline text-lg">Location Map</CardTitle></CardHeader>
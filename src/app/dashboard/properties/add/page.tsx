@@ -8,6 +8,7 @@ import { useRouter } from 'next/navigation';
 import { useState, useMemo, useRef, useEffect } from 'react';
 import Image from 'next/image';
 import { uploadPropertyImage } from '@/lib/upload-image';
+import { MONEY_FIELDS, withPence } from '@/lib/money';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from '@/components/ui/form';
@@ -40,6 +41,7 @@ const propertySchema = z.object({
   notes: z.string().optional(),
   purchasePrice: z.coerce.number().min(0).optional(),
   currentValuation: z.coerce.number().min(0).optional(),
+  cashInvested: z.coerce.number().min(0).optional(),
   tenancy: z.object({
     monthlyRent: z.coerce.number().min(0).optional(),
     depositAmount: z.coerce.number().min(0).optional(),
@@ -116,7 +118,7 @@ export default function AddPropertyPage() {
 
     const propertyCollection = collection(firestore, 'properties');
     const propertyData = {
-        ...JSON.parse(JSON.stringify(data)),
+        ...JSON.parse(JSON.stringify(withPence(data, MONEY_FIELDS.properties))),
         landlordId: user.uid,
         createdDate: new Date().toISOString(),
         imageUrl: '',
@@ -256,13 +258,16 @@ export default function AddPropertyPage() {
                 <CardDescription>Record tenancy financials for reporting.</CardDescription>
               </CardHeader>
               <CardContent className="pt-6 space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                     <FormField control={form.control} name="purchasePrice" render={({ field }) => (
                         <FormItem><FormLabel>Purchase Price (£)</FormLabel><FormControl><Input id="prop-price" name="purchasePrice" type="number" step="0.01" className="h-11" {...field} value={field.value ?? ''}/></FormControl><FormMessage /></FormItem>
                     )} />
                     <FormField control={form.control} name="currentValuation" render={({ field }) => (
                         <FormItem><FormLabel>Current Valuation (£)</FormLabel><FormControl><Input id="prop-val" name="currentValuation" type="number" step="0.01" className="h-11" {...field} value={field.value ?? ''}/></FormControl></FormItem>
                     )} />
+                    <FormField control={form.control} name="cashInvested" render={({ field }) => (
+                        <FormItem><FormLabel>Cash Invested (£)</FormLabel><FormControl><Input id="prop-cash" type="number" step="0.01" className="h-11" {...field} value={field.value ?? ''}/></FormControl><FormDescription className="text-xs">Deposit, purchase costs and refurbishment. Used for return on investment.</FormDescription><FormMessage /></FormItem>
+                    )} />
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4 border-t">
                     <FormField control={form.control} name="tenancy.monthlyRent" render={({ field }) => (
@@ -0,0 +1,174 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Leaf, Loader2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where } from 'firebase/firestore';
+import { safeToDate } from '@/lib/date-utils';
+import { EpcRatingBadge } from '@/components/dashboard/energy-performance';
+import { matchEpcRecords, parseEpcRegisterCsv, saveEpcData, type PropertyEpc } from '@/lib/epc';
+
+interface Property {
+  id: string;
+  address: { nameOrNumber?: string; street: string; city: string; postcode: string };
+  epc?: PropertyEpc;
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+export default function EpcImportPage() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [certificatesText, setCertificatesText] = useState('');
+  const [recommendationsText, setRecommendationsText] = useState('');
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const propertiesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'properties'), where('landlordId', '==', user.uid), where('status', 'in', ['Vacant', 'Occupied', 'Under Maintenance']));
+  }, [user, firestore]);
+  const { data: properties, isLoading } = useCollection<Property>(propertiesQuery);
+
+  const records = useMemo(
+    () => (certificatesText ? parseEpcRegisterCsv(certificatesText, recommendationsText || undefined) : []),
+    [certificatesText, recommendationsText]
+  );
+  const matches = useMemo(() => matchEpcRecords(records, properties || []), [records, properties]);
+  const propertyById = useMemo(() => new Map((properties || []).map(p => [p.id, p])), [properties]);
+
+  const isUpToDate = (propertyId: string, lodgementDate?: string) => {
+    const existing = propertyById.get(propertyId)?.epc;
+    return !!existing && existing.source === 'register' && existing.lodgementDate === lodgementDate;
+  };
+
+  const selected = matches.filter(m => !excluded.has(m.propertyId));
+
+  const readFile = (setter: (text: string) => void) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setter(file ? await file.text() : '');
+    setExcluded(new Set());
+  };
+
+  const toggle = (propertyId: string, checked: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (checked) next.delete(propertyId);
+      else next.add(propertyId);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!firestore || !selected.length) return;
+    setIsSaving(true);
+    try {
+      await Promise.all(selected.map(m => saveEpcData(firestore, m.propertyId, { ...m.record.epc, source: 'register' })));
+      toast({ title: 'EPC Data Imported', description: `${selected.length} propert${selected.length === 1 ? 'y' : 'ies'} updated from the register export.` });
+      setExcluded(new Set(matches.map(m => m.propertyId)));
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Import Failed', description: 'Some properties could not be updated.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6 text-left animate-in fade-in duration-500">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild><Link href="/dashboard/properties"><ArrowLeft className="h-4 w-4" /></Link></Button>
+        <div>
+          <h1 className="text-2xl font-bold font-headline">Import EPC Data</h1>
+          <p className="text-muted-foreground text-sm font-medium">Load ratings and recommendations from an EPC register CSV export.</p>
+        </div>
+      </div>
+
+      <Card className="border-none shadow-2xl rounded-[2rem] overflow-hidden">
+        <CardHeader className="bg-primary/5 border-b px-8 py-8">
+          <CardTitle className="text-xl font-headline flex items-center gap-3 text-primary"><Leaf className="h-6 w-6" /> Register Export</CardTitle>
+          <CardDescription className="text-base font-medium">
+            Download the domestic certificates for your postcodes or local authority from the EPC register, then choose <code>certificates.csv</code> and, for upgrade costs, <code>recommendations.csv</code>. Files are read in the browser. Certificates are matched on postcode and house name or number, keeping the latest for each property.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-8 px-8 pb-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="grid gap-1.5">
+              <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Certificates CSV</Label>
+              <Input type="file" accept=".csv,text/csv" className="h-12 border-2 rounded-xl pt-2.5" onChange={readFile(setCertificatesText)} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Recommendations CSV (optional)</Label>
+              <Input type="file" accept=".csv,text/csv" className="h-12 border-2 rounded-xl pt-2.5" onChange={readFile(setRecommendationsText)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex h-24 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : certificatesText && (
+            <>
+              <p className="text-sm font-medium text-muted-foreground">
+                {records.length} certificate{records.length === 1 ? '' : 's'} read · {matches.length} matched to your properties
+              </p>
+              {matches.length > 0 && (
+                <div className="rounded-xl border overflow-hidden">
+                  <Table>
+                    <TableHeader className="bg-muted/30">
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead className="font-bold uppercase text-[10px] tracking-widest">Property</TableHead>
+                        <TableHead className="font-bold uppercase text-[10px] tracking-widest">Register Address</TableHead>
+                        <TableHead className="font-bold uppercase text-[10px] tracking-widest">Rating</TableHead>
+                        <TableHead className="font-bold uppercase text-[10px] tracking-widest">Lodged</TableHead>
+                        <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Measures</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {matches.map(m => {
+                        const property = propertyById.get(m.propertyId);
+                        const upToDate = isUpToDate(m.propertyId, m.record.epc.lodgementDate);
+                        return (
+                          <TableRow key={m.propertyId}>
+                            <TableCell><Checkbox checked={!excluded.has(m.propertyId)} onCheckedChange={(checked) => toggle(m.propertyId, !!checked)} /></TableCell>
+                            <TableCell className="font-bold text-sm">
+                              {property ? [property.address.nameOrNumber, property.address.street].filter(Boolean).join(', ') : m.propertyId}
+                              {upToDate && <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Already imported</p>}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{m.record.address}, {m.record.postcode}</TableCell>
+                            <TableCell className="space-x-1 whitespace-nowrap">
+                              <EpcRatingBadge rating={m.record.epc.currentRating} score={m.record.epc.currentScore} />
+                              {m.record.epc.potentialRating && <span className="text-[10px] text-muted-foreground">→ {m.record.epc.potentialRating}</span>}
+                            </TableCell>
+                            <TableCell className="text-xs tabular-nums">{formatDate(m.record.epc.lodgementDate)}</TableCell>
+                            <TableCell className="text-xs text-right tabular-nums">{m.record.epc.recommendations.length}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              <div className="flex justify-end">
+                <Button className="font-bold" onClick={handleImport} disabled={isSaving || !selected.length}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />} Import {selected.length} Certificate{selected.length === 1 ? '' : 's'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { PlusCircle, Bed, Bath, Loader2, LayoutGrid, List, Eye, Home, Search, AlertCircle } from 'lucide-react';
+import { PlusCircle, Bed, Bath, Loader2, LayoutGrid, List, Eye, Home, Search, AlertCircle, Leaf } from 'lucide-react';
 import { useUser, useFirestore, useCollection, useMemoFirebase, errorEmitter, FirestorePermissionError } from '@/firebase';
 import { collection, query, where, doc, updateDoc, onSnapshot } from 'firebase/firestore';
 import { toast } from '@/hooks/use-toast';
@@ -15,6 +15,9 @@ import { useMemo, useState, useEffect } from 'react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { EpcRatingBadge } from '@/components/dashboard/energy-performance';
+import { isBelowMinimumEpc, type EpcRating } from '@/lib/compliance-rules';
+import { currentEpcRating, type PropertyEpc } from '@/lib/epc';
 
 interface Property {
   id: string;
@@ -31,6 +34,8 @@ interface Property {
   bathrooms: number;
   imageUrl?: string;
   landlordId: string;
+  epcRating?: EpcRating;
+  epc?: PropertyEpc;
 }
 
 export default function PropertiesPage() {
@@ -113,7 +118,10 @@ export default function PropertiesPage() {
                 <h1 className="text-3xl font-bold font-headline text-primary">My Properties</h1>
                 <p className="text-muted-foreground font-medium">Manage and view your property portfolio.</p>
             </div>
-            <Button asChild><Link href="/dashboard/properties/add"><PlusCircle className="mr-2 h-4 w-4" /> Add Property</Link></Button>
+            <div className="flex items-center gap-2">
+                <Button variant="outline" asChild><Link href="/dashboard/properties/epc-import"><Leaf className="mr-2 h-4 w-4" /> Import EPC Data</Link></Button>
+                <Button asChild><Link href="/dashboard/properties/add"><PlusCircle className="mr-2 h-4 w-4" /> Add Property</Link></Button>
+            </div>
         </div>
 
          <Card className="border-none shadow-xl overflow-hidden">
@@ -143,6 +151,11 @@ export default function PropertiesPage() {
                               ) : (
                                 <div className="w-full h-full flex items-center justify-center bg-primary/5"><Home className="w-16 h-16 text-primary/10" /></div>
                               )}
+                              {currentEpcRating(property) && (
+                                <div className="absolute top-3 left-3">
+                                    <EpcRatingBadge rating={currentEpcRating(property)} className={isBelowMinimumEpc(currentEpcRating(property)) ? 'ring-2 ring-destructive' : undefined} />
+                                </div>
+                              )}
                               {openMaintenanceMap[property.id] > 0 && (
                                 <div className="absolute top-3 right-3">
                                     <Badge variant="destructive" className="animate-pulse shadow-lg font-bold gap-1">
@@ -173,6 +186,7 @@ export default function PropertiesPage() {
                             <TableRow>
                                 <TableHead>Address</TableHead>
                                 <TableHead>Type</TableHead>
+                                <TableHead>EPC</TableHead>
                                 <TableHead>Status</TableHead>
                                 <TableHead className="text-right">Actions</TableHead>
                             </TableRow>
@@ -185,6 +199,7 @@ export default function PropertiesPage() {
                                         <div className="text-[11px] text-muted-foreground font-medium">{p.address.city}, {p.address.postcode}</div>
                                     </TableCell>
                                     <TableCell className="text-xs uppercase text-muted-foreground font-bold">{p.propertyType}</TableCell>
+                                    <TableCell>{currentEpcRating(p) ? <EpcRatingBadge rating={currentEpcRating(p)} score={p.epc?.currentScore} /> : <span className="text-xs text-muted-foreground">—</span>}</TableCell>
                                     <TableCell><Badge variant={p.status === 'Occupied' ? 'default' : 'secondary'}>{p.status}</Badge></TableCell>
                                     <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                                         <Button asChild variant="ghost" size="icon">
@@ -27,8 +27,16 @@ import {
   useFirestore,
   useCollection,
   useMemoFirebase,
+  useDoc,
 } from '@/firebase';
-import { collection, query, where, limit } from 'firebase/firestore';
+import { collection, query, where, limit, doc } from 'firebase/firestore';
+import { currentDocuments } from '@/lib/document-versions';
+import { assessArrears, resolveArrearsConfig, unallocatedPayments, ARREARS_STAGE_LABELS } from '@/lib/rent-arrears';
+import { assessPortfolioCompliance, COMPLIANCE_DOCUMENT_TYPES, COMPLIANCE_STATUS_LABELS } from '@/lib/compliance-rules';
+import { occupierStatuses, OCCUPIER_CHECK_STATUS_LABELS, type RightToRentCheck } from '@/lib/right-to-rent';
+import { alarmStatus, ALARM_STATUS_LABELS, ALARM_TYPE_LABELS, type Alarm, type AlarmTest } from '@/lib/smoke-alarms';
+import { LAW_UPDATES, outstandingLawUpdateActions, type LawUpdateAcknowledgement } from '@/lib/law-updates';
+import { assessHazardCase, MILESTONE_STATUS_LABELS, type HazardCase } from '@/lib/hazard-cases';
 
 interface DocumentRecord {
   id: string;
@@ -37,6 +45,7 @@ interface DocumentRecord {
   landlordId: string;
   expiryDate: any;
   documentType: string;
+  supersededBy?: string;
 }
 
 interface InspectionRecord {
@@ -56,9 +65,14 @@ interface TenantRecord {
     landlordId: string;
     monthlyRent?: number;
     rentDueDay?: number;
+    tenancyStartDate?: any;
+    tenancyEndDate?: any;
     status: string;
 }
 
+// Statuses rendered with the destructive badge
+const URGENT_STATUSES = ['Expired', 'Overdue', COMPLIANCE_STATUS_LABELS.missing, COMPLIANCE_STATUS_LABELS.failed, ARREARS_STAGE_LABELS.final, ARREARS_STAGE_LABELS.legal, 'Section 8 Threshold', OCCUPIER_CHECK_STATUS_LABELS.overdue, OCCUPIER_CHECK_STATUS_LABELS.failed, ALARM_STATUS_LABELS.faulty, ALARM_STATUS_LABELS.expired];
+
 const toDate = (val: any): Date | null => {
   if (!val) return null;
   if (val instanceof Date) return val;
@@ -93,11 +107,71 @@ export default function RemindersPage() {
   }, [firestore, user]);
   const { data: allTenants, isLoading: isLoadingTenants } = useCollection<TenantRecord>(tenantsQuery);
 
+  const chargesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid));
+  }, [firestore, user]);
+  const { data: rentCharges, isLoading: isLoadingCharges } = useCollection<any>(chargesQuery);
+
+  const paymentsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid));
+  }, [firestore, user]);
+  const { data: rentPayments, isLoading: isLoadingPayments } = useCollection<any>(paymentsQuery);
+
+  const profileRef = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return doc(firestore, 'users', user.uid);
+  }, [firestore, user]);
+  const { data: profile } = useDoc<any>(profileRef);
+
   const propertiesQuery = useMemoFirebase(() => {
     if (!user || !firestore) return null;
     return query(collection(firestore, 'properties'), where('landlordId', '==', user.uid));
   }, [firestore, user]);
-  const { data: properties } = useCollection<any>(propertiesQuery);
+  const { data: properties, isLoading: isLoadingProperties } = useCollection<any>(propertiesQuery);
+
+  const checklistsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'checklists'), where('landlordId', '==', user.uid));
+  }, [firestore, user]);
+  const { data: checklists, isLoading: isLoadingChecklists } = useCollection<any>(checklistsQuery);
+
+  const depositsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'deposits'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: deposits, isLoading: isLoadingDeposits } = useCollection<any>(depositsQuery);
+
+  const rightToRentQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rightToRentChecks'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: rightToRentChecks, isLoading: isLoadingRightToRent } = useCollection<RightToRentCheck>(rightToRentQuery);
+
+  const alarmsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'alarms'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: alarms, isLoading: isLoadingAlarms } = useCollection<Alarm>(alarmsQuery);
+
+  const alarmTestsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'alarmTests'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: alarmTests, isLoading: isLoadingAlarmTests } = useCollection<AlarmTest>(alarmTestsQuery);
+
+  const lawAcknowledgementsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'lawUpdateAcknowledgements'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: lawAcknowledgements, isLoading: isLoadingLawAcknowledgements } = useCollection<LawUpdateAcknowledgement>(lawAcknowledgementsQuery);
+
+  const hazardCasesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'hazardCases'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: hazardCases, isLoading: isLoadingHazardCases } = useCollection<HazardCase>(hazardCasesQuery);
 
   const propertyMap = useMemo(() => {
     return properties?.reduce((map, prop) => {
@@ -107,9 +181,12 @@ export default function RemindersPage() {
   }, [properties]);
 
   const allReminders = useMemo(() => {
-    if (!today || !allDocuments || !allInspections || !allTenants) return [];
+    if (!today || !allDocuments || !allInspections || !allTenants || !rentCharges || !rentPayments || !properties || !checklists || !deposits || !rightToRentChecks || !alarms || !alarmTests || !lawAcknowledgements || !hazardCases) return [];
     
-    const documentReminders = allDocuments
+    const documents = currentDocuments(allDocuments);
+    // Statutory certificates and tenancy paperwork are reported by the compliance engine below
+    const documentReminders = documents
+        .filter((doc) => !COMPLIANCE_DOCUMENT_TYPES.includes(doc.documentType))
         .map((doc) => {
           const expiry = toDate(doc.expiryDate);
           if (!expiry) return null;
@@ -123,6 +200,23 @@ export default function RemindersPage() {
         })
         .filter((doc): doc is NonNullable<typeof doc> => doc !== null);
 
+    const activeProperties = properties.filter(p => p.status !== 'Deleted');
+    const complianceReminders = assessPortfolioCompliance(activeProperties, { documents, tenants: allTenants, checklists, deposits, alarmTests }, today)
+        .flatMap((compliance) => compliance.items
+            .filter((item) => item.status !== 'compliant')
+            .map((item) => ({
+                id: `${compliance.propertyId}-${item.requirement}-${item.tenantId || ''}`,
+                type: 'Compliance',
+                description: item.label,
+                category: item.detail,
+                property: propertyMap[compliance.propertyId] || 'Unknown',
+                dueDate: item.dueDate ?? today,
+                status: COMPLIANCE_STATUS_LABELS[item.status],
+                href: item.documentId
+                    ? `/dashboard/documents/${item.documentId}`
+                    : item.requirement === 'alarms' ? `/dashboard/properties/${compliance.propertyId}/alarms` : `/dashboard/properties/${compliance.propertyId}`,
+            })));
+
     const inspectionReminders = allInspections
         .map((insp) => {
           const scheduled = toDate(insp.scheduledDate);
@@ -131,11 +225,26 @@ export default function RemindersPage() {
         })
         .filter((insp): insp is NonNullable<typeof insp> => insp !== null);
 
+    const arrearsConfig = resolveArrearsConfig(profile?.arrearsStages);
     const rentReminders = allTenants
-        .filter(t => t.rentDueDay)
+        .filter(t => t.rentDueDay && t.monthlyRent)
         .map((tenant) => {
-            let dueDate = setDate(startOfMonth(today), tenant.rentDueDay!);
-            const status = isPast(dueDate) && dueDate.getDate() !== today.getDate() ? 'Overdue' : 'Upcoming';
+            const assessment = assessArrears(tenant, rentCharges || [], rentPayments || [], allTenants, arrearsConfig, today);
+            if (assessment.stage !== 'clear' && assessment.oldestUnpaidDueDate) {
+                const amount = assessment.arrears.toLocaleString('en-GB', { style: 'currency', currency: 'GBP' });
+                return {
+                    id: tenant.id,
+                    type: 'Arrears',
+                    description: `${tenant.name}: ${amount} overdue (${assessment.daysOverdue} days)`,
+                    category: assessment.section8Met ? 'Section 8 Ground 8 threshold reached' : 'Financial',
+                    property: propertyMap[tenant.propertyId] || 'Assigned Property',
+                    dueDate: assessment.oldestUnpaidDueDate,
+                    status: assessment.section8Met ? 'Section 8 Threshold' : ARREARS_STAGE_LABELS[assessment.stage],
+                    href: `/dashboard/tenants/${tenant.id}`
+                };
+            }
+            const nextCharge = assessment.ledger.charges.find(a => a.outstanding > 0);
+            const dueDate = nextCharge?.charge.dueDate ?? setDate(startOfMonth(today), tenant.rentDueDay!);
             return {
                 id: tenant.id,
                 type: 'Rent',
@@ -143,15 +252,95 @@ export default function RemindersPage() {
                 category: 'Financial',
                 property: propertyMap[tenant.propertyId] || 'Assigned Property',
                 dueDate: dueDate,
-                status: status,
+                status: 'Upcoming',
                 href: `/dashboard/expenses`
             };
         });
 
-    return [...documentReminders, ...inspectionReminders, ...rentReminders].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
-  }, [allDocuments, allInspections, allTenants, propertyMap, today]);
+    // Tenantless legacy payments on a multi-let count towards no tenancy until allocated
+    const unallocatedByProperty = unallocatedPayments(rentPayments, allTenants).reduce((acc, p) => {
+        acc[p.propertyId] = (acc[p.propertyId] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>);
+    const unallocatedReminders = Object.entries(unallocatedByProperty).map(([propertyId, count]) => ({
+        id: `unallocated-${propertyId}`,
+        type: 'Rent',
+        description: `${count} payment${count === 1 ? '' : 's'} not allocated to a tenancy`,
+        category: 'Record the tenant against each payment',
+        property: propertyMap[propertyId] || 'Unknown',
+        dueDate: today,
+        status: 'Unallocated',
+        href: `/dashboard/expenses`,
+    }));
+
+    // One reminder per adult occupier whose follow-up is coming up, overdue or failed
+    const activeTenantIds = new Set(allTenants.map(t => t.id));
+    const rightToRentReminders = occupierStatuses(rightToRentChecks.filter(c => activeTenantIds.has(c.tenantId)), today)
+        .filter((occupier) => ['due', 'overdue', 'pending', 'failed'].includes(occupier.status))
+        .map((occupier) => ({
+            id: `rtr-${occupier.tenantId}-${occupier.occupierId}`,
+            type: 'Right to Rent',
+            description: `${occupier.occupierName}: follow-up check`,
+            category: occupier.isLeadTenant ? 'Lead tenant' : 'Adult occupier',
+            property: propertyMap[occupier.propertyId] || 'Assigned Property',
+            dueDate: occupier.followUpDue ?? today,
+            status: OCCUPIER_CHECK_STATUS_LABELS[occupier.status],
+            href: `/dashboard/tenants/${occupier.tenantId}/screenings/${occupier.screeningId}?propertyId=${occupier.propertyId}`,
+        }));
+
+    // Day-one tests surface through the compliance items above; these cover the units themselves
+    const activePropertyIds = new Set(activeProperties.map(p => p.id));
+    const alarmReminders = alarms
+        .filter(alarm => activePropertyIds.has(alarm.propertyId))
+        .map((alarm) => {
+            const { status } = alarmStatus(alarm, alarmTests.filter(t => t.propertyId === alarm.propertyId), today);
+            if (status !== 'faulty' && status !== 'expired' && status !== 'expiring') return null;
+            return {
+                id: `alarm-${alarm.id}`,
+                type: 'Alarm',
+                description: `${ALARM_TYPE_LABELS[alarm.alarmType]} alarm: ${alarm.location}`,
+                category: status === 'faulty' ? 'Failed its last test' : 'Replace unit',
+                property: propertyMap[alarm.propertyId] || 'Unknown',
+                dueDate: status === 'faulty' ? today : toDate(alarm.expiryDate) ?? today,
+                status: ALARM_STATUS_LABELS[status],
+                href: `/dashboard/properties/${alarm.propertyId}/alarms`,
+            };
+        })
+        .filter((r): r is NonNullable<typeof r> => r !== null);
+
+    // Actions required by law updates, until marked done for the property on the briefing
+    const lawUpdateReminders = outstandingLawUpdateActions(LAW_UPDATES, activeProperties, lawAcknowledgements, today)
+        .map((reminder) => ({
+            id: `law-${reminder.update.id}-${reminder.action.id}-${reminder.propertyId}`,
+            type: 'Law Update',
+            description: reminder.action.title,
+            category: reminder.update.title,
+            property: propertyMap[reminder.propertyId] || 'Unknown',
+            dueDate: reminder.dueDate ?? today,
+            status: reminder.overdue ? 'Overdue' : 'Action Required',
+            href: `/dashboard/news/${reminder.update.id}`,
+        }));
+
+    // Each Awaab's Law deadline still open on a hazard case
+    const hazardReminders = hazardCases
+        .filter(hazardCase => !hazardCase.closedDate)
+        .flatMap((hazardCase) => assessHazardCase(hazardCase, today).milestones
+            .filter(m => m.status === 'due' || m.status === 'overdue')
+            .map((m) => ({
+                id: `hazard-${hazardCase.id}-${m.key}`,
+                type: 'Hazard',
+                description: `${hazardCase.title}: ${m.label.toLowerCase()}`,
+                category: "Awaab's Law",
+                property: propertyMap[hazardCase.propertyId] || 'Unknown',
+                dueDate: m.deadline ?? today,
+                status: MILESTONE_STATUS_LABELS[m.status],
+                href: `/dashboard/hazards/${hazardCase.id}`,
+            })));
+
+    return [...documentReminders, ...complianceReminders, ...inspectionReminders, ...rentReminders, ...unallocatedReminders, ...rightToRentReminders, ...alarmReminders, ...lawUpdateReminders, ...hazardReminders].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  }, [allDocuments, allInspections, allTenants, rentCharges, rentPayments, properties, checklists, deposits, rightToRentChecks, alarms, alarmTests, lawAcknowledgements, hazardCases, profile, propertyMap, today]);
 
-  const isLoading = isLoadingDocs || isLoadingInsp || isLoadingTenants || !today;
+  const isLoading = isLoadingDocs || isLoadingInsp || isLoadingTenants || isLoadingCharges || isLoadingPayments || isLoadingProperties || isLoadingChecklists || isLoadingDeposits || isLoadingRightToRent || isLoadingAlarms || isLoadingAlarmTests || isLoadingLawAcknowledgements || isLoadingHazardCases || !today;
 
   /**
    * DEFINITIVE REFRESH HANDLER
@@ -201,7 +390,7 @@ export default function RemindersPage() {
                                 </TableCell>
                                 <TableCell className="text-xs font-medium text-muted-foreground truncate max-w-[200px]">{reminder.property}</TableCell>
                                 <TableCell>
-                                    <Badge variant={reminder.status === 'Expired' || reminder.status === 'Overdue' ? 'destructive' : 'secondary'} className="text-[10px] font-bold uppercase px-3 h-6">
+                                    <Badge variant={URGENT_STATUSES.includes(reminder.status) ? 'destructive' : 'secondary'} className="text-[10px] font-bold uppercase px-3 h-6">
                                         {reminder.status}
                                     </Badge>
                                 </TableCell>
@@ -44,26 +44,62 @@ import { useUser, useAuth, useFirestore, useDoc, useMemoFirebase } from '@/fireb
 import { updateProfile, deleteUser } from 'firebase/auth';
 import { doc, setDoc, deleteDoc } from 'firebase/firestore';
 import { useEffect, useState } from 'react';
-import { Loader2, ShieldCheck, Clock, Lock, Key, AlertTriangle, UserCircle, Gavel, FileText, ExternalLink } from 'lucide-react';
+import { Loader2, ShieldCheck, Clock, Lock, Key, AlertTriangle, UserCircle, Gavel, FileText, ExternalLink, Database } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { Badge } from '@/components/ui/badge';
 import Link from 'next/link';
+import { resolveArrearsConfig, DEFAULT_ARREARS_STAGES } from '@/lib/rent-arrears';
+import { resolveTaxProfile, DEFAULT_TAX_PROFILE, OWNERSHIP_TYPE_LABELS } from '@/lib/property-tax';
+import { resolveVatProfile, normaliseVatNumber, VAT_STAGGER_LABELS, type VatProfile, type VatStagger } from '@/lib/vat';
+import { Switch } from '@/components/ui/switch';
+import { migrateMoneyFields } from '@/lib/money-migration';
 
 const profileSchema = z.object({
   displayName: z.string().min(2, 'Display name must be at least 2 characters.'),
   email: z.string().email().optional(),
   idleTimeoutMinutes: z.coerce.number().min(1, 'Minimum timeout is 1 minute.'),
   role: z.string().optional(),
+  friendlyReminderDays: z.coerce.number().min(0, 'Cannot be negative.'),
+  formalReminderDays: z.coerce.number().min(0, 'Cannot be negative.'),
+  finalNoticeDays: z.coerce.number().min(0, 'Cannot be negative.'),
+  legalThresholdDays: z.coerce.number().min(0, 'Cannot be negative.'),
+  ownershipType: z.enum(['individual', 'limited_company']),
+  otherTaxableIncome: z.coerce.number().min(0, 'Cannot be negative.'),
+  vatRegistered: z.boolean(),
+  vatNumber: z.string().optional(),
+  vatStagger: z.enum(['1', '2', '3']),
+  recoverAllInputTax: z.boolean(),
+}).refine(d => !d.vatRegistered || !!normaliseVatNumber(d.vatNumber), {
+  message: 'Enter a 9 or 12 digit UK VAT number.',
+  path: ['vatNumber'],
 });
 
+const ARREARS_STAGE_FIELDS = [
+  { name: 'friendlyReminderDays', label: 'Friendly Reminder' },
+  { name: 'formalReminderDays', label: 'Formal Reminder' },
+  { name: 'finalNoticeDays', label: 'Final Notice' },
+  { name: 'legalThresholdDays', label: 'Legal Threshold' },
+] as const;
+
 type ProfileFormValues = z.infer<typeof profileSchema>;
 
+function vatFormValues(vatProfile?: Partial<VatProfile> | null) {
+  const resolved = resolveVatProfile(vatProfile);
+  return {
+    vatRegistered: resolved.registered,
+    vatNumber: resolved.vatNumber,
+    vatStagger: String(resolved.stagger) as '1' | '2' | '3',
+    recoverAllInputTax: resolved.recoverAllInputTax,
+  };
+}
+
 export default function SettingsPage() {
   const { user, isUserLoading } = useUser();
   const auth = useAuth();
   const firestore = useFirestore();
   const router = useRouter();
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isMigrating, setIsMigrating] = useState(false);
 
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileSchema),
@@ -72,6 +108,9 @@ export default function SettingsPage() {
       email: '',
       idleTimeoutMinutes: 30,
       role: 'landlord',
+      ...DEFAULT_ARREARS_STAGES,
+      ...DEFAULT_TAX_PROFILE,
+      ...vatFormValues(),
     },
   });
 
@@ -92,6 +131,9 @@ export default function SettingsPage() {
         email: user.email || '',
         idleTimeoutMinutes: profile?.idleTimeoutMinutes || 30,
         role: profile?.role || 'landlord',
+        ...resolveArrearsConfig(profile?.arrearsStages),
+        ...resolveTaxProfile(profile?.taxProfile),
+        ...vatFormValues(profile?.vatProfile),
       });
     }
   }, [user, profile, isProfileLoading, form]);
@@ -118,6 +160,22 @@ export default function SettingsPage() {
         id: user.uid,
         displayName: data.displayName,
         idleTimeoutMinutes: data.idleTimeoutMinutes,
+        arrearsStages: resolveArrearsConfig({
+          friendlyReminderDays: data.friendlyReminderDays,
+          formalReminderDays: data.formalReminderDays,
+          finalNoticeDays: data.finalNoticeDays,
+          legalThresholdDays: data.legalThresholdDays,
+        }),
+        taxProfile: resolveTaxProfile({
+          ownershipType: data.ownershipType,
+          otherTaxableIncome: data.otherTaxableIncome,
+        }),
+        vatProfile: resolveVatProfile({
+          registered: data.vatRegistered,
+          vatNumber: normaliseVatNumber(data.vatNumber),
+          stagger: Number(data.vatStagger) as VatStagger,
+          recoverAllInputTax: data.recoverAllInputTax,
+        }),
       }, { merge: true });
       
       await auth.currentUser.reload();
@@ -187,6 +245,20 @@ export default function SettingsPage() {
 
   const currentRole = form.watch('role') || 'landlord';
 
+  const handleMigrateMoney = async () => {
+    if (!user || !firestore) return;
+    setIsMigrating(true);
+    try {
+      const updated = await migrateMoneyFields(firestore, user.uid);
+      toast({ title: 'Financial Records Checked', description: updated ? `${updated} records updated to exact pence amounts.` : 'All records were already up to date.' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Update Failed', description: 'Some records could not be updated. Please try again.' });
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
   return (
     <div className="space-y-8 max-w-4xl mx-auto">
        <div>
@@ -277,6 +349,151 @@ export default function SettingsPage() {
                     />
                 </div>
 
+                <div className="pt-4 border-t space-y-4">
+                    <div className="space-y-1">
+                        <p className="text-sm font-medium">Rent Arrears Escalation</p>
+                        <p className="text-xs text-muted-foreground">Days overdue at which each arrears stage begins. Arrears of three months' rent always reach the legal threshold (Section 8, Ground 8).</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        {ARREARS_STAGE_FIELDS.map(stage => (
+                            <FormField
+                                key={stage.name}
+                                control={form.control}
+                                name={stage.name}
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>{stage.label} (days)</FormLabel>
+                                        <FormControl>
+                                            <Input type="number" min="0" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="pt-4 border-t space-y-4">
+                    <div className="space-y-1">
+                        <p className="text-sm font-medium">Tax Position</p>
+                        <p className="text-xs text-muted-foreground">Used for tax estimates. Individuals receive a 20% credit for mortgage interest (Section 24); companies deduct it in full and pay corporation tax.</p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <FormField
+                            control={form.control}
+                            name="ownershipType"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Ownership Type</FormLabel>
+                                    <Select key={dataKey} onValueChange={field.onChange} value={field.value}>
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {Object.entries(OWNERSHIP_TYPE_LABELS).map(([value, label]) => (
+                                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <FormField
+                            control={form.control}
+                            name="otherTaxableIncome"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Other Taxable Income (£/year)</FormLabel>
+                                    <FormControl>
+                                        <Input type="number" min="0" step="1" disabled={form.watch('ownershipType') === 'limited_company'} {...field} />
+                                    </FormControl>
+                                    <FormDescription className="text-left">Salary, pensions and other income that sets your tax band.</FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                    </div>
+                </div>
+
+                <div className="pt-4 border-t space-y-4">
+                    <div className="space-y-1">
+                        <p className="text-sm font-medium">VAT</p>
+                        <p className="text-xs text-muted-foreground">For agents and landlords registered for VAT. Enables the VAT return summary on the Expenses page.</p>
+                    </div>
+                    <FormField
+                        control={form.control}
+                        name="vatRegistered"
+                        render={({ field }) => (
+                            <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                                <FormLabel>VAT Registered</FormLabel>
+                                <FormControl>
+                                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                                </FormControl>
+                            </FormItem>
+                        )}
+                    />
+                    {form.watch('vatRegistered') && (
+                        <>
+                            <div className="grid grid-cols-2 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="vatNumber"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>VAT Registration Number</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder="GB123456789" className="uppercase" {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name="vatStagger"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>VAT Quarters End</FormLabel>
+                                            <Select key={dataKey} onValueChange={field.onChange} value={field.value}>
+                                                <FormControl>
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                    {Object.entries(VAT_STAGGER_LABELS).map(([value, label]) => (
+                                                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+                            <FormField
+                                control={form.control}
+                                name="recoverAllInputTax"
+                                render={({ field }) => (
+                                    <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                                        <div className="space-y-1">
+                                            <FormLabel>Reclaim All Input VAT</FormLabel>
+                                            <FormDescription className="text-left">Turn on if your own supplies are standard rated, e.g. agency fees. Otherwise VAT is only reclaimed on properties opted to tax.</FormDescription>
+                                        </div>
+                                        <FormControl>
+                                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                                        </FormControl>
+                                    </FormItem>
+                                )}
+                            />
+                        </>
+                    )}
+                </div>
+
                 <Button type="submit" disabled={isUpdating} className="font-bold">
                   {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   Save All Changes
@@ -369,6 +586,26 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        <Card className="shadow-sm border-none">
+          <CardHeader className="border-b bg-muted/5 text-left">
+            <div className="flex items-center gap-2">
+              <Database className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">Data Maintenance</CardTitle>
+            </div>
+            <CardDescription>
+              Amounts are now stored as exact pence. Records created before this change are read correctly, but can be updated in one go.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4 text-left">
+            <p className="text-xs text-muted-foreground">
+              {profile?.moneyMigratedAt ? `Last run ${new Date(profile.moneyMigratedAt).toLocaleString('en-GB')}.` : 'Not yet run for this account.'}
+            </p>
+            <Button variant="outline" onClick={handleMigrateMoney} disabled={isMigrating} className="font-bold gap-2">
+              {isMigrating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Database className="h-4 w-4" />} Update Financial Records
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card className="shadow-sm border-destructive/20 mt-4 bg-destructive/[0.02]">
           <CardHeader className="border-b bg-destructive/5 text-left">
             <div className="flex items-center gap-2 text-destructive">
@@ -0,0 +1,349 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { ArrowLeft, Loader2, ShieldCheck, FileDown, Upload, FileText, AlertTriangle, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { useUser, useFirestore, useDoc, useCollection, useMemoFirebase } from '@/firebase';
+import { addDoc, collection, deleteField, doc, query, updateDoc, where } from 'firebase/firestore';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { formatPence, MONEY_FIELDS, poundsOf, toPence, withPence } from '@/lib/money';
+import { uploadPropertyDocument } from '@/lib/upload-document';
+import { addVersionedDocument } from '@/lib/document-versions';
+import { generatePrescribedInformationPDF } from '@/lib/generate-deposit-pdf';
+import { DepositReturnPanel } from '@/components/dashboard/deposit-return';
+import {
+  DEPOSIT_SCHEMES,
+  DEPOSIT_SCHEME_TYPE_LABELS,
+  depositCapPence,
+  depositDeadlines,
+  type DeadlineStatus,
+  type Deposit,
+} from '@/lib/deposits';
+
+const depositSchema = z.object({
+  amount: z.coerce.number().positive('Enter the deposit amount.'),
+  receivedDate: z.string().min(1, 'Date received is required.'),
+  scheme: z.enum(['dps', 'tds', 'mydeposits']),
+  schemeType: z.enum(['custodial', 'insured']),
+  protectionDate: z.string().optional(),
+  protectionReference: z.string().optional(),
+  prescribedInfoServedDate: z.string().optional(),
+  landlordAddress: z.string().optional(),
+  landlordTelephone: z.string().optional(),
+});
+
+type DepositFormValues = z.infer<typeof depositSchema>;
+
+const DEADLINE_LABELS: Record<DeadlineStatus, string> = {
+  done: 'In Time',
+  late: 'Late',
+  due: 'Due',
+  overdue: 'Overdue',
+};
+
+const DEADLINE_STYLES: Record<DeadlineStatus, string> = {
+  done: 'bg-green-50 text-green-700 border-green-200',
+  late: 'bg-amber-50 text-amber-800 border-amber-200',
+  due: 'bg-blue-50 text-blue-700 border-blue-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+const toInputDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'yyyy-MM-dd') : '';
+};
+
+export default function TenantDepositPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const tenantRef = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return doc(firestore, 'tenants', id);
+  }, [firestore, user, id]);
+  const { data: tenant, isLoading: isLoadingTenant } = useDoc<any>(tenantRef);
+
+  const propertyRef = useMemoFirebase(() => {
+    if (!firestore || !user || !tenant?.propertyId) return null;
+    return doc(firestore, 'properties', tenant.propertyId);
+  }, [firestore, user, tenant?.propertyId]);
+  const { data: property } = useDoc<any>(propertyRef);
+
+  const profileRef = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return doc(firestore, 'users', user.uid);
+  }, [firestore, user]);
+  const { data: profile } = useDoc<any>(profileRef);
+
+  const depositsQuery = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return query(collection(firestore, 'deposits'), where('landlordId', '==', user.uid), where('tenantId', '==', id));
+  }, [firestore, user, id]);
+  const { data: deposits, isLoading: isLoadingDeposits } = useCollection<Deposit>(depositsQuery);
+  const deposit = deposits?.[0] ?? null;
+
+  const form = useForm<DepositFormValues>({
+    resolver: zodResolver(depositSchema),
+    defaultValues: { amount: 0, receivedDate: '', scheme: 'dps', schemeType: 'custodial' },
+  });
+
+  // Reset only when the record itself changes, so return workflow updates don't discard edits in progress
+  useEffect(() => {
+    if (isLoadingDeposits || !tenant) return;
+    form.reset({
+      amount: deposit ? poundsOf(deposit, 'amount') : poundsOf(tenant, 'depositAmount') || poundsOf(property, 'tenancy.depositAmount'),
+      receivedDate: toInputDate(deposit?.receivedDate ?? tenant.tenancyStartDate),
+      scheme: deposit?.scheme ?? 'dps',
+      schemeType: deposit?.schemeType ?? 'custodial',
+      protectionDate: toInputDate(deposit?.protectionDate),
+      protectionReference: deposit?.protectionReference ?? '',
+      prescribedInfoServedDate: toInputDate(deposit?.prescribedInfoServedDate),
+      landlordAddress: deposit?.landlordAddress ?? '',
+      landlordTelephone: deposit?.landlordTelephone ?? '',
+    });
+  }, [deposit?.id, tenant?.id, property?.id, isLoadingDeposits]);
+
+  const postcode = property?.address?.postcode;
+  const deadlines = useMemo(() => (deposit ? depositDeadlines(deposit, postcode) : null), [deposit, postcode]);
+  const monthlyRent = poundsOf(tenant, 'monthlyRent') || poundsOf(property, 'tenancy.monthlyRent');
+  const capPence = monthlyRent ? depositCapPence(monthlyRent) : null;
+  const watchedAmount = form.watch('amount');
+  const overCap = capPence !== null && toPence(watchedAmount) > capPence;
+
+  const propertyAddress = property
+    ? [property.address.nameOrNumber, property.address.street, property.address.city, property.address.postcode].filter(Boolean).join(', ')
+    : '';
+
+  const onSubmit = async (values: DepositFormValues) => {
+    if (!firestore || !user || !tenant) return;
+    setIsSaving(true);
+    try {
+      // Firestore rejects undefined; cleared fields are removed from an existing record instead
+      const entries = Object.entries(values);
+      const record = withPence(Object.fromEntries(entries.filter(([, v]) => v !== undefined && v !== '')), MONEY_FIELDS.deposits);
+      if (deposit) {
+        const cleared = entries.filter(([, v]) => v === undefined || v === '').map(([k]) => [k, deleteField()]);
+        await updateDoc(doc(firestore, 'deposits', deposit.id), { ...record, ...Object.fromEntries(cleared) });
+      } else {
+        await addDoc(collection(firestore, 'deposits'), {
+          ...record,
+          landlordId: user.uid,
+          propertyId: tenant.propertyId,
+          tenantId: id,
+          tenantName: tenant.name,
+          returnStatus: 'held',
+          deductions: [],
+          createdDate: new Date().toISOString(),
+        });
+      }
+      toast({ title: 'Deposit Saved', description: 'Protection details updated.' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The deposit record could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCertificateUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !firestore || !user || !deposit) return;
+    setIsUploading(true);
+    try {
+      const fileUrl = await uploadPropertyDocument(file, user.uid, deposit.propertyId);
+      const { id: documentId } = await addVersionedDocument(firestore, {
+        landlordId: user.uid,
+        propertyId: deposit.propertyId,
+        title: `Deposit Protection Certificate - ${deposit.tenantName}`,
+        documentType: 'Deposit Protection',
+        fileUrl,
+        issueDate: deposit.protectionDate || new Date().toISOString(),
+        expiryDate: null,
+        sharedWithTenant: true,
+        createdDate: new Date().toISOString(),
+      });
+      await updateDoc(doc(firestore, 'deposits', deposit.id), { certificateDocumentId: documentId });
+      toast({ title: 'Certificate Uploaded', description: 'Saved to documents and shared with the tenant.' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Upload Failed', description: 'The certificate could not be uploaded.' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handlePrescribedInfo = async () => {
+    if (!deposit) return;
+    setIsExporting(true);
+    try {
+      await generatePrescribedInformationPDF(deposit, {
+        propertyAddress,
+        landlordName: profile?.displayName || user?.displayName || '',
+        landlordEmail: profile?.email || user?.email || undefined,
+        tenantEmail: tenant?.email,
+        tenantPhone: tenant?.telephone,
+      });
+      toast({ title: 'Prescribed Information Generated', description: 'Serve it on the tenant and record the date below.' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoadingTenant || isLoadingDeposits) {
+    return <div className="flex h-64 items-center justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>;
+  }
+
+  if (!tenant) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 gap-4">
+        <p className="text-muted-foreground">Tenant not found.</p>
+        <Button asChild variant="outline"><Link href="/dashboard/tenants">Return to Tenants</Link></Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto flex flex-col gap-6 text-left">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild className="shrink-0"><Link href={`/dashboard/tenants/${id}`}><ArrowLeft className="h-4 w-4" /></Link></Button>
+        <div>
+          <h1 className="text-2xl font-bold font-headline">Tenancy Deposit</h1>
+          <p className="text-sm text-muted-foreground font-medium">{tenant.name}{propertyAddress && ` · ${propertyAddress}`}</p>
+        </div>
+      </div>
+
+      {deposit && deadlines && (
+        <Card className="shadow-lg border-none overflow-hidden text-left">
+          <CardHeader className="pb-4 bg-muted/20 border-b">
+            <CardTitle className="text-lg font-headline flex items-center gap-2"><ShieldCheck className="h-5 w-5 text-primary" /> Protection Deadline</CardTitle>
+            <CardDescription>
+              The deposit must be protected and the prescribed information served by {format(deadlines.deadline, 'dd MMM yyyy')}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-6 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {([['Deposit Protected', deadlines.protection, deposit.protectionDate], ['Prescribed Information Served', deadlines.prescribedInfo, deposit.prescribedInfoServedDate]] as const).map(([label, status, date]) => (
+                <div key={label} className="p-4 rounded-xl bg-background border shadow-sm flex items-start justify-between gap-4">
+                  <div>
+                    <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">{label}</p>
+                    <p className="font-bold">{date ? format(safeToDate(date)!, 'dd MMM yyyy') : status === 'due' ? `${deadlines.daysRemaining} day${deadlines.daysRemaining === 1 ? '' : 's'} left` : 'Not recorded'}</p>
+                  </div>
+                  <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest shrink-0', DEADLINE_STYLES[status])}>{DEADLINE_LABELS[status]}</Badge>
+                </div>
+              ))}
+            </div>
+            {(deadlines.protection === 'overdue' || deadlines.protection === 'late' || deadlines.prescribedInfo === 'overdue' || deadlines.prescribedInfo === 'late') && (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-50 text-amber-800 text-xs border border-amber-200">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                <span>The deadline was missed. A Section 21 notice cannot be served until the deposit is protected and the prescribed information given, or the deposit returned, and the tenant may claim up to three times the deposit.</span>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2 justify-end">
+              {deposit.certificateDocumentId && (
+                <Button variant="ghost" size="sm" asChild className="font-bold">
+                  <Link href={`/dashboard/documents/${deposit.certificateDocumentId}`}><FileText className="mr-2 h-4 w-4" /> View Certificate</Link>
+                </Button>
+              )}
+              <Button variant="outline" size="sm" className="font-bold" disabled={isUploading} asChild>
+                <label className="cursor-pointer">
+                  {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                  {deposit.certificateDocumentId ? 'Replace Certificate' : 'Upload Certificate'}
+                  <input type="file" accept=".pdf,image/*" className="hidden" onChange={handleCertificateUpload} disabled={isUploading} />
+                </label>
+              </Button>
+              <Button size="sm" className="font-bold" onClick={handlePrescribedInfo} disabled={isExporting || !deposit.protectionDate}>
+                {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />} Prescribed Information
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg border-none overflow-hidden text-left">
+        <CardHeader className="pb-4 bg-muted/20 border-b">
+          <CardTitle className="text-lg font-headline">Scheme Details</CardTitle>
+          <CardDescription>{deposit ? 'Where the deposit is protected and when each step was completed.' : 'Record the deposit to start tracking its protection deadline.'}</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField control={form.control} name="amount" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Deposit Amount (£)</FormLabel>
+                    <FormControl><Input type="number" step="0.01" {...field} value={field.value || ''} /></FormControl>
+                    {capPence !== null && (
+                      <FormDescription className={cn(overCap && 'text-destructive font-bold')}>
+                        Legal cap for this rent: {formatPence(capPence)}{overCap && '. The excess is a prohibited payment and must be refunded.'}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField control={form.control} name="receivedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date Received</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="scheme" render={({ field }) => (
+                  <FormItem><FormLabel>Scheme</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(DEPOSIT_SCHEMES).map(([value, s]) => <SelectItem key={value} value={value}>{s.name}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="schemeType" render={({ field }) => (
+                  <FormItem><FormLabel>Scheme Type</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(DEPOSIT_SCHEME_TYPE_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="protectionDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date Protected</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="protectionReference" render={({ field }) => (
+                  <FormItem><FormLabel>Certificate / Reference</FormLabel><FormControl><Input {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="prescribedInfoServedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Prescribed Information Served</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="landlordTelephone" render={({ field }) => (
+                  <FormItem><FormLabel>Landlord Telephone</FormLabel><FormControl><Input type="tel" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="landlordAddress" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Landlord Address</FormLabel>
+                  <FormControl><Textarea rows={3} {...field} value={field.value ?? ''} /></FormControl>
+                  <FormDescription>Printed on the prescribed information as the landlord&apos;s address for service.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <div className="flex justify-end">
+                <Button type="submit" className="font-bold" disabled={isSaving}>
+                  {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />} {deposit ? 'Save Changes' : 'Record Deposit'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {deposit && <DepositReturnPanel deposit={deposit} />}
+    </div>
+  );
+}
@@ -44,6 +44,9 @@ import {
 import { collection, query, where, doc, updateDoc, arrayUnion, arrayRemove, limit } from 'firebase/firestore';
 import { toast } from '@/hooks/use-toast';
 import { safeToDate, formatDateForInput } from '@/lib/date-utils';
+import { syncRentSchedule } from '@/lib/rent-ledger';
+import { scheduleDayOneTest } from '@/lib/smoke-alarms';
+import { MONEY_FIELDS, withPence } from '@/lib/money';
 
 const ukPhoneRegex = /^(((\+44\s?\d{4}|\(?0\d{4}\)?)\s?\d{3}\s?\d{3})|((\+44\s?\d{3}|\(?0\d{3}\)?)\s?\d{3}\s?\d{3})|((\+44\s?\d{2}|\(?0\d{2}\)?)\s?\d{4}\s?\d{4}))(\s?\#(\d{4}|\d{3}))?$/;
 
@@ -159,10 +162,47 @@ export default function EditTenantPage() {
         email: normalizedEmail,
         userId: tenant.userId || ''
       };
-      const cleanedUpdateData = JSON.parse(JSON.stringify(updateData));
+      const cleanedUpdateData = JSON.parse(JSON.stringify(withPence(updateData, MONEY_FIELDS.tenants)));
 
       await updateDoc(tenantRef, cleanedUpdateData);
 
+      // The tenant is already saved; later steps warn rather than abandon the property updates below
+      const warnings: string[] = [];
+      if (data.monthlyRent) {
+          try {
+              await syncRentSchedule(firestore, {
+                  tenantId: tenant.id,
+                  propertyId: data.propertyId,
+                  landlordId: tenant.landlordId || user.uid,
+                  monthlyRent: data.monthlyRent,
+                  rentDueDay: data.rentDueDay,
+                  tenancyStartDate: data.tenancyStartDate,
+                  tenancyEndDate: data.tenancyEndDate,
+              });
+          } catch (scheduleError) {
+              console.warn('Rent schedule could not be updated:', scheduleError);
+              warnings.push('The rent schedule could not be updated; save the tenancy again to retry.');
+          }
+      }
+
+      // A moved start date or property needs its day-one alarm test rescheduled
+      const previousStart = formatDateForInput(tenant.tenancyStartDate);
+      if (tenant.propertyId !== data.propertyId || previousStart !== formatDateForInput(data.tenancyStartDate)) {
+          try {
+              await scheduleDayOneTest(firestore, {
+                  landlordId: tenant.landlordId || user.uid,
+                  propertyId: data.propertyId,
+                  tenantId: tenant.id,
+                  tenantName: data.name,
+                  tenancyStartDate: data.tenancyStartDate,
+                  previousPropertyId: tenant.propertyId,
+              });
+          } catch (testError) {
+              console.warn('Day-one alarm test could not be rescheduled:', testError);
+              warnings.push('The day-one alarm test could not be rescheduled; record it from the property\'s alarm register.');
+          }
+      }
+
       if (tenant.propertyId !== data.propertyId) {
           const oldPropRef = doc(firestore, 'properties', tenant.propertyId);
           await updateDoc(oldPropRef, { 
@@ -186,7 +226,7 @@ export default function EditTenantPage() {
           });
       }
 
-      toast({ title: 'Registry Updated' });
+      toast({ title: 'Registry Updated', description: warnings.length ? warnings.join(' ') : undefined });
       router.push(`/dashboard/tenants/${tenant.id}?propertyId=${data.propertyId}`);
     } catch (error) {
       console.error('Registry sync failed:', error);
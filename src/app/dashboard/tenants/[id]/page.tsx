@@ -34,7 +34,7 @@ import { format } from 'date-fns';
 import { useDoc, useFirestore, useMemoFirebase, useCollection, useUser } from '@/firebase';
 import { doc, collection, query, updateDoc, where, getDocs, limit } from 'firebase/firestore';
 import { useToast } from '@/hooks/use-toast';
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -46,6 +46,13 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { formatMoney, poundsOf } from '@/lib/money';
+import { assessArrears, buildArrearsHistory, resolveArrearsConfig, ARREARS_STAGE_LABELS } from '@/lib/rent-arrears';
+import { DEPOSIT_RETURN_STATUS_LABELS, DEPOSIT_SCHEMES, depositDeadlines, type Deposit } from '@/lib/deposits';
+import type { PetRequest } from '@/lib/renters-rights';
+import { RentersRightsCard } from '@/components/dashboard/renters-rights';
 
 interface Property {
     id: string;
@@ -75,6 +82,7 @@ interface Tenant {
     inviteSentDate?: any;
     joinedDate?: any;
     verified?: boolean;
+    petRequests?: PetRequest[];
 }
 
 function safeCreateDate(dateValue: any): Date | null {
@@ -111,6 +119,48 @@ export default function TenantDetailPage() {
     return doc(firestore, 'properties', tenant.propertyId);
   }, [firestore, tenant?.propertyId, user]);
   const { data: property } = useDoc<Property>(propertyRef);
+
+  const chargesQuery = useMemoFirebase(() => {
+    if (!firestore || !user || !id) return null;
+    return query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid), where('tenantId', '==', id));
+  }, [firestore, user, id]);
+  const { data: rentCharges } = useCollection<any>(chargesQuery);
+
+  const paymentsQuery = useMemoFirebase(() => {
+    if (!firestore || !user || !tenant?.propertyId) return null;
+    return query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid), where('propertyId', '==', tenant.propertyId));
+  }, [firestore, user, tenant?.propertyId]);
+  const { data: rentPayments } = useCollection<any>(paymentsQuery);
+
+  // Other tenancies at the property decide whether a payment with no tenantId is this tenant's
+  const propertyTenantsQuery = useMemoFirebase(() => {
+    if (!firestore || !user || !tenant?.propertyId) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('propertyId', '==', tenant.propertyId));
+  }, [firestore, user, tenant?.propertyId]);
+  const { data: propertyTenants } = useCollection<any>(propertyTenantsQuery);
+
+  const depositsQuery = useMemoFirebase(() => {
+    if (!firestore || !user || !id) return null;
+    return query(collection(firestore, 'deposits'), where('landlordId', '==', user.uid), where('tenantId', '==', id));
+  }, [firestore, user, id]);
+  const { data: deposits } = useCollection<Deposit>(depositsQuery);
+  const deposit = deposits?.[0] ?? null;
+
+  const profileRef = useMemoFirebase(() => {
+    if (!firestore || !user) return null;
+    return doc(firestore, 'users', user.uid);
+  }, [firestore, user]);
+  const { data: profile } = useDoc<any>(profileRef);
+
+  const arrears = useMemo(() => {
+    if (!tenant || !tenant.monthlyRent || !rentCharges || !rentPayments || !propertyTenants) return null;
+    const config = resolveArrearsConfig(profile?.arrearsStages);
+    return {
+      current: assessArrears(tenant, rentCharges, rentPayments, propertyTenants, config),
+      // Most recent checkpoint first
+      history: buildArrearsHistory(tenant, rentCharges, rentPayments, propertyTenants, config).reverse(),
+    };
+  }, [tenant, rentCharges, rentPayments, propertyTenants, profile]);
   
   const handleSendInvite = async () => {
     if (!tenant || !property || !user || !firestore || !tenantRef) return;
@@ -153,7 +203,7 @@ export default function TenantDetailPage() {
     
     const propertyAddr = property.address.street || 'Assigned Property';
     const subject = encodeURIComponent(`Rent Reminder: ${propertyAddr}`);
-    const body = encodeURIComponent(`Hi ${tenant.name},\n\nA friendly reminder that rent for ${propertyAddr} is due on the ${tenant.rentDueDay || '1st'}.\n\nRent: £${tenant.monthlyRent?.toLocaleString() || '0'}`);
+    const body = encodeURIComponent(`Hi ${tenant.name},\n\nA friendly reminder that rent for ${propertyAddr} is due on the ${tenant.rentDueDay || '1st'}.\n\nRent: ${formatMoney(poundsOf(tenant, 'monthlyRent'))}`);
     
     window.location.href = `mailto:${tenant.email}?subject=${subject}&body=${body}`;
     
@@ -217,6 +267,8 @@ export default function TenantDetailPage() {
   const propertyAddress = [property?.address.nameOrNumber, property?.address.street, property?.address.city, property?.address.postcode].filter(Boolean).join(', ') || 'N/A';
   
   const isVerified = tenant.verified === true || !!tenant.joinedDate;
+  const depositStatus = deposit ? depositDeadlines(deposit, property?.address.postcode) : null;
+  const depositOverdue = depositStatus?.protection === 'overdue' || depositStatus?.prescribedInfo === 'overdue';
 
   return (
     <div className="flex flex-col gap-6 text-left">
@@ -322,7 +374,7 @@ export default function TenantDetailPage() {
                             <div className="p-2.5 rounded-lg bg-green-50 text-green-600 shrink-0"><Banknote className="h-5 w-5" /></div>
                             <div className="text-left">
                                 <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Agreed Rent</p>
-                                <p className="font-bold text-xl">£{tenant.monthlyRent?.toLocaleString() || '0'}<span className="text-xs font-medium text-muted-foreground"> /mo</span></p>
+                                <p className="font-bold text-xl">{formatMoney(poundsOf(tenant, 'monthlyRent'))}<span className="text-xs font-medium text-muted-foreground"> /mo</span></p>
                             </div>
                         </div>
                         <div className="p-4 rounded-xl bg-background border shadow-sm flex items-start gap-4 text-left">
@@ -353,6 +405,116 @@ export default function TenantDetailPage() {
                 </CardContent>
             </Card>
             
+            {arrears && (
+                <Card className="shadow-lg border-none overflow-hidden text-left">
+                    <CardHeader className="pb-4 bg-muted/20 border-b flex flex-row items-center justify-between">
+                        <div className="text-left">
+                            <CardTitle className="text-lg font-headline">Rent Arrears</CardTitle>
+                            <CardDescription>Escalation status derived from the tenancy rent ledger.</CardDescription>
+                        </div>
+                        <Badge
+                            variant={arrears.current.stage === 'clear' ? 'outline' : arrears.current.stage === 'friendly' ? 'secondary' : 'destructive'}
+                            className={cn("text-[9px] uppercase font-bold tracking-widest px-3 h-6", arrears.current.stage === 'clear' && "bg-green-50 text-green-700 border-green-200")}
+                        >
+                            {ARREARS_STAGE_LABELS[arrears.current.stage]}
+                        </Badge>
+                    </CardHeader>
+                    <CardContent className="pt-6 space-y-6 text-left">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div className="p-4 rounded-xl bg-background border shadow-sm">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Arrears</p>
+                                <p className={cn("font-bold text-xl tabular-nums", arrears.current.arrears > 0 && "text-destructive")}>£{arrears.current.arrears.toLocaleString(undefined, { minimumFractionDigits: 2 })}</p>
+                            </div>
+                            <div className="p-4 rounded-xl bg-background border shadow-sm">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Days Overdue</p>
+                                <p className="font-bold text-xl tabular-nums">{arrears.current.daysOverdue}</p>
+                            </div>
+                            <div className="p-4 rounded-xl bg-background border shadow-sm">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Months of Rent</p>
+                                <p className="font-bold text-xl tabular-nums">{arrears.current.monthsInArrears.toFixed(2)}</p>
+                            </div>
+                        </div>
+                        {arrears.current.section8Met && (
+                            <div className="p-4 rounded-xl border border-destructive/30 bg-destructive/5 flex items-start gap-3">
+                                <AlertCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+                                <p className="text-sm font-medium">
+                                    Arrears have reached the Section 8 Ground 8 threshold of £{arrears.current.section8Threshold.toLocaleString(undefined, { minimumFractionDigits: 2 })} (three months' rent under the Renters' Rights Act). The threshold must also be met when notice is served and at the hearing.
+                                </p>
+                            </div>
+                        )}
+                        <div className="rounded-xl border overflow-hidden">
+                            <Table>
+                                <TableHeader className="bg-muted/30">
+                                    <TableRow>
+                                        <TableHead className="pl-4 font-bold uppercase text-[10px] tracking-widest">Checkpoint</TableHead>
+                                        <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Arrears</TableHead>
+                                        <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Days Overdue</TableHead>
+                                        <TableHead className="pr-4 text-right font-bold uppercase text-[10px] tracking-widest">Stage</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {arrears.history.map(point => (
+                                        <TableRow key={point.date.toISOString()}>
+                                            <TableCell className="pl-4 text-xs font-bold tabular-nums">{format(point.date, 'dd MMM yyyy')}</TableCell>
+                                            <TableCell className="text-right text-sm font-bold tabular-nums">£{point.arrears.toLocaleString(undefined, { minimumFractionDigits: 2 })}</TableCell>
+                                            <TableCell className="text-right text-sm tabular-nums">{point.daysOverdue}</TableCell>
+                                            <TableCell className="pr-4 text-right">
+                                                <Badge variant={point.stage === 'clear' ? 'outline' : point.stage === 'friendly' ? 'secondary' : 'destructive'} className="text-[8px] uppercase font-bold">
+                                                    {point.section8Met ? 'Section 8' : ARREARS_STAGE_LABELS[point.stage]}
+                                                </Badge>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Card className="shadow-lg border-none overflow-hidden text-left">
+                <CardHeader className="pb-4 bg-muted/20 border-b flex flex-row items-center justify-between">
+                    <div className="text-left">
+                        <CardTitle className="text-lg font-headline">Tenancy Deposit</CardTitle>
+                        <CardDescription>{deposit ? DEPOSIT_SCHEMES[deposit.scheme].name : 'No deposit recorded for this tenancy.'}</CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" asChild className="font-bold uppercase tracking-widest text-[9px] h-8 px-4 gap-2">
+                        <Link href={`/dashboard/tenants/${id}/deposit`}>
+                            <ShieldCheck className="h-3 w-3" /> {deposit ? 'Manage Deposit' : 'Record Deposit'}
+                        </Link>
+                    </Button>
+                </CardHeader>
+                {deposit && (
+                    <CardContent className="pt-6 text-left">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                            <div className="p-4 rounded-xl bg-background border shadow-sm">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Amount</p>
+                                <p className="font-bold text-xl tabular-nums">{formatMoney(poundsOf(deposit, 'amount'))}</p>
+                            </div>
+                            <div className="p-4 rounded-xl bg-background border shadow-sm">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Protection</p>
+                                <p className={cn("font-bold text-base", depositOverdue && "text-destructive")}>
+                                    {deposit.protectionDate && deposit.prescribedInfoServedDate ? 'Protected & Served' : depositOverdue ? 'Deadline Missed' : depositStatus ? `Due ${format(depositStatus.deadline, 'dd MMM yyyy')}` : 'Incomplete'}
+                                </p>
+                            </div>
+                            <div className="p-4 rounded-xl bg-background border shadow-sm">
+                                <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Return</p>
+                                <p className="font-bold text-base">{DEPOSIT_RETURN_STATUS_LABELS[deposit.returnStatus || 'held']}</p>
+                            </div>
+                        </div>
+                    </CardContent>
+                )}
+            </Card>
+
+            {tenant.status !== 'Archived' && rentCharges && (
+                <RentersRightsCard
+                    tenant={tenant}
+                    postcode={property?.address?.postcode}
+                    rentCharges={rentCharges}
+                    arrears={arrears?.current}
+                />
+            )}
+
             <Card className="shadow-lg border-none overflow-hidden text-left">
                 <CardHeader className="pb-4 bg-muted/20 border-b flex flex-row items-center justify-between">
                     <CardTitle className="text-lg font-headline">Assigned Asset Registry</CardTitle>
@@ -35,7 +35,9 @@ import {
   useDoc,
   useMemoFirebase,
 } from '@/firebase';
-import { doc, updateDoc, Timestamp } from 'firebase/firestore';
+import { collection, doc, getDocs, query, updateDoc, where, Timestamp } from 'firebase/firestore';
+import { RightToRentScreeningFields } from '@/components/dashboard/right-to-rent-checks';
+import { checkFromScreening, recordRightToRentCheck } from '@/lib/right-to-rent';
 
 
 const screeningEditSchema = z.object({
@@ -45,7 +47,13 @@ const screeningEditSchema = z.object({
     ukPassport: z.boolean().default(false),
     shareCode: z.boolean().default(false),
     visaPermit: z.boolean().default(false),
+    outcome: z.enum(['unlimited', 'time_limited', 'pending', 'no_right']).optional(),
+    permissionExpiryDate: z.string().optional(),
+    shareCodeReference: z.string().optional(),
     notes: z.string().optional(),
+  }).refine(r => r.outcome !== 'time_limited' || !!r.permissionExpiryDate, {
+    message: 'Enter when the permission to stay ends.',
+    path: ['permissionExpiryDate'],
   }).optional(),
   idVerification: z.object({
     photoMatch: z.boolean().default(false),
@@ -216,7 +224,26 @@ export default function EditTenantScreeningPage() {
         const cleanedData = prepareForFirestore(data);
 
         updateDoc(screeningRef, cleanedData)
-          .then(() => {
+          .then(async () => {
+            // Later corrections belong in the check history; only seed it when the lead tenant has no check yet
+            const initialCheck = checkFromScreening(data.rightToRent);
+            if (initialCheck && user && firestore && tenant) {
+                const existing = await getDocs(query(collection(firestore, 'rightToRentChecks'), where('landlordId', '==', user.uid), where('tenantId', '==', tenantId)));
+                if (!existing.docs.some(d => d.data().isLeadTenant)) {
+                    await recordRightToRentCheck(firestore, {
+                        ...initialCheck,
+                        landlordId: user.uid,
+                        propertyId: tenant.propertyId,
+                        tenantId,
+                        screeningId,
+                        occupierId: tenantId,
+                        occupierName: tenant.name,
+                        isLeadTenant: true,
+                        checkType: 'initial',
+                        recordedBy: user.displayName || user.email || undefined,
+                    });
+                }
+            }
             toast({
                 title: 'Screening Record Updated',
                 description: 'The screening checklist has been successfully updated.',
@@ -326,6 +353,7 @@ export default function EditTenantScreeningPage() {
                                         <ChecklistItem form={form} name="rightToRent.shareCode" label="Used Home Office online check (share code)" />
                                         <ChecklistItem form={form} name="rightToRent.visaPermit" label="Checked valid Visa / Residence Permit" />
                                     </div>
+                                    <RightToRentScreeningFields form={form} />
                                     <NotesField form={form} name="rightToRent.notes" placeholder="Notes on Right to Rent check..." />
                                 </AccordionContent>
                             </AccordionItem>
@@ -11,6 +11,7 @@ import { useDoc, useFirestore, useMemoFirebase, useUser } from '@/firebase';
 import { doc } from 'firebase/firestore';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { RightToRentChecks } from '@/components/dashboard/right-to-rent-checks';
 
 // Helper component to display a checklist item
 const ChecklistItemDisplay = ({ label, checked }: { label: string; checked: boolean | undefined }) => (
@@ -276,6 +277,7 @@ export default function ViewScreeningPage() {
         {Object.entries(screeningSections).map(([key, { title, fields }]) => (
             <ScreeningSection key={key} title={title} data={screening[key]} fields={fields} />
         ))}
+        <RightToRentChecks tenant={{ id: tenantId, name: tenant.name, propertyId: tenant.propertyId }} screeningId={screeningId} />
         <Card className='shadow-xl border-none overflow-hidden bg-primary text-primary-foreground'>
             <CardHeader className='bg-white/10 border-b border-white/5 px-6'>
                 <CardTitle className="text-lg font-headline flex items-center gap-2">
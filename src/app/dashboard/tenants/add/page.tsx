@@ -44,6 +44,9 @@ import { toast } from '@/hooks/use-toast';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { syncRentSchedule } from '@/lib/rent-ledger';
+import { scheduleDayOneTest } from '@/lib/smoke-alarms';
+import { MONEY_FIELDS, withPence } from '@/lib/money';
 
 const ukPhoneRegex = /^(((\+44\s?\d{4}|\(?0\d{4}\)?)\s?\d{3}\s?\d{3})|((\+44\s?\d{3}|\(?0\d{3}\)?)\s?\d{3}\s?\d{4})|((\+44\s?\d{2}|\(?0\d{2}\)?)\s?\d{4}\s?\d{4}))(\s?\#(\d{4}|\d{3}))?$/;
 
@@ -173,7 +176,40 @@ export default function AddTenantPage() {
     };
 
     try {
-        await addDoc(tenantsCollection, prepareForFirestore(newTenant));
+        const tenantDocRef = await addDoc(tenantsCollection, prepareForFirestore(withPence(newTenant, MONEY_FIELDS.tenants)));
+
+        // The tenancy is saved either way; a failed schedule is rebuilt when the tenancy is next edited
+        let scheduleFailed = false;
+        if (data.monthlyRent) {
+            try {
+                await syncRentSchedule(firestore, {
+                    tenantId: tenantDocRef.id,
+                    propertyId: data.propertyId,
+                    landlordId: user.uid,
+                    monthlyRent: data.monthlyRent,
+                    rentDueDay: data.rentDueDay,
+                    tenancyStartDate: data.tenancyStartDate,
+                    tenancyEndDate: data.tenancyEndDate,
+                });
+            } catch (scheduleError) {
+                scheduleFailed = true;
+                console.warn('Rent schedule could not be created:', scheduleError);
+            }
+        }
+
+        let alarmTestFailed = false;
+        try {
+            await scheduleDayOneTest(firestore, {
+                landlordId: user.uid,
+                propertyId: data.propertyId,
+                tenantId: tenantDocRef.id,
+                tenantName: data.name,
+                tenancyStartDate: data.tenancyStartDate,
+            });
+        } catch (testError) {
+            alarmTestFailed = true;
+            console.warn('Day-one alarm test could not be scheduled:', testError);
+        }
         
         const propertyDocRef = doc(firestore, 'properties', data.propertyId);
         
@@ -183,7 +219,11 @@ export default function AddTenantPage() {
             tenantEmails: arrayUnion(normalizedEmail)
         });
 
-        toast({ title: 'Tenant Assigned', description: 'Registry bridge established.' });
+        const warnings = [
+            scheduleFailed && 'The rent schedule could not be created; save the tenancy again from its edit page.',
+            alarmTestFailed && 'The day-one alarm test could not be scheduled; record it from the property\'s alarm register.',
+        ].filter(Boolean);
+        toast({ title: 'Tenant Assigned', description: warnings.length ? warnings.join(' ') : 'Registry bridge established.' });
         router.push(`/dashboard/properties/${data.propertyId}`);
     } catch (err) {
         console.error("Tenant assignment failed:", err);
@@ -44,6 +44,8 @@ import {
 import { collection, addDoc, doc } from 'firebase/firestore';
 import { useEffect, useState, useMemo } from 'react';
 import { Badge } from '@/components/ui/badge';
+import { RightToRentScreeningFields } from '@/components/dashboard/right-to-rent-checks';
+import { checkFromScreening, recordRightToRentCheck } from '@/lib/right-to-rent';
 
 const screeningSchema = z.object({
   tenantId: z.string({ required_error: 'Please select a tenant.' }).min(1, "Please select a tenant."),
@@ -55,7 +57,13 @@ const screeningSchema = z.object({
     ukPassport: z.boolean().default(false),
     shareCode: z.boolean().default(false),
     visaPermit: z.boolean().default(false),
+    outcome: z.enum(['unlimited', 'time_limited', 'pending', 'no_right']).optional(),
+    permissionExpiryDate: z.string().optional(),
+    shareCodeReference: z.string().optional(),
     notes: z.string().optional(),
+  }).refine(r => r.outcome !== 'time_limited' || !!r.permissionExpiryDate, {
+    message: 'Enter when the permission to stay ends.',
+    path: ['permissionExpiryDate'],
   }).optional(),
   idVerification: z.object({
     photoMatch: z.boolean().default(false),
@@ -233,7 +241,23 @@ function TenantScreeningPage({ tenantIdFromUrl }: { tenantIdFromUrl: string | nu
         const screeningsCollection = collection(firestore, 'screenings');
 
         addDoc(screeningsCollection, cleanedSubmission)
-          .then(() => {
+          .then(async (screeningRef) => {
+            // The lead tenant's check opens the Right to Rent history that follow-ups are scheduled from
+            const initialCheck = checkFromScreening(data.rightToRent);
+            if (initialCheck && selectedTenant) {
+                await recordRightToRentCheck(firestore, {
+                    ...initialCheck,
+                    landlordId: user.uid,
+                    propertyId: data.propertyId,
+                    tenantId: data.tenantId,
+                    screeningId: screeningRef.id,
+                    occupierId: data.tenantId,
+                    occupierName: selectedTenant.name,
+                    isLeadTenant: true,
+                    checkType: 'initial',
+                    recordedBy: user.displayName || user.email || undefined,
+                });
+            }
             toast({
                 title: 'Screening Audit Saved',
                 description: 'The tenant vetting checklist has been successfully recorded.',
@@ -376,6 +400,7 @@ function TenantScreeningPage({ tenantIdFromUrl }: { tenantIdFromUrl: string | nu
                                         <ChecklistItem form={form} name="rightToRent.shareCode" label="Verified via Home Office online check" />
                                         <ChecklistItem form={form} name="rightToRent.visaPermit" label="Verified valid Visa / BRP" />
                                     </div>
+                                    <RightToRentScreeningFields form={form} />
                                     <NotesField form={form} name="rightToRent.notes" placeholder="Notes on Right to Rent audit..." />
                                 </AccordionContent>
                             </AccordionItem>
@@ -1,7 +1,7 @@
 
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,6 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { 
   FileText, 
   Download, 
+  Eye,
   Loader2, 
   ShieldCheck, 
   Upload,
@@ -17,9 +18,12 @@ import {
 import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
 import { query, where, limit, onSnapshot, collection } from 'firebase/firestore';
 import { isBefore } from 'date-fns';
+import { recordPortalReceipt } from '@/lib/document-service';
 
 interface DocumentRecord {
     id: string;
+    landlordId: string;
+    propertyId: string;
     title: string;
     documentType: string;
     fileUrl?: string;
@@ -49,6 +53,8 @@ export default function TenantDocumentsPage() {
         if (!snap.empty) {
             const data = snap.docs[0].data();
             setTenantContext({ 
+                tenantId: snap.docs[0].id,
+                name: data.name,
                 landlordId: data.landlordId, 
                 propertyId: data.propertyId 
             });
@@ -75,6 +81,33 @@ export default function TenantDocumentsPage() {
 
   const { data: documents, isLoading: isLoadingDocs } = useCollection<DocumentRecord>(docsQuery);
 
+  const receiptsQuery = useMemoFirebase(() => {
+    if (!tenantContext || !user || !firestore) return null;
+    return query(collection(firestore, 'documentServices'), where('tenantUid', '==', user.uid), where('kind', '==', 'viewed'));
+  }, [tenantContext, user, firestore]);
+  const { data: viewReceipts } = useCollection<{ documentId: string }>(receiptsQuery);
+  const pendingViews = useRef(new Set<string>());
+
+  const portalTenant = () => ({ id: tenantContext.tenantId, name: tenantContext.name || user?.email || 'Resident', uid: user!.uid });
+
+  // Proof of service: the first time this resident opens a shared document, log a view receipt
+  const handleView = (d: DocumentRecord) => {
+    if (!firestore || !user || !viewReceipts) return;
+    if (viewReceipts.some(r => r.documentId === d.id) || pendingViews.current.has(d.id)) return;
+    pendingViews.current.add(d.id);
+    recordPortalReceipt(firestore, 'viewed', d, portalTenant()).catch(err => {
+      pendingViews.current.delete(d.id);
+      console.warn('Portal view receipt could not be recorded:', err.message);
+    });
+  };
+
+  const handleDownload = (d: DocumentRecord) => {
+    if (!firestore || !user) return;
+    recordPortalReceipt(firestore, 'downloaded', d, portalTenant()).catch(err => {
+      console.warn('Portal download receipt could not be recorded:', err.message);
+    });
+  };
+
   const getStatus = (expiry: any) => {
     if (!expiry) return 'Valid';
     const date = expiry instanceof Date ? expiry : new Date(expiry.seconds * 1000);
@@ -140,11 +173,18 @@ export default function TenantDocumentsPage() {
                     </CardHeader>
                     <CardContent className="pt-4 space-y-4">
                         {doc.fileUrl ? (
-                            <Button className="w-full h-11 font-bold uppercase tracking-widest text-[10px] shadow-md" asChild>
-                                <a href={doc.fileUrl} target="_blank" rel="noopener noreferrer">
-                                    <Download className="mr-2 h-3.5 w-3.5" /> Download Document
-                                </a>
-                            </Button>
+                            <div className="grid grid-cols-2 gap-2">
+                                <Button variant="outline" className="h-11 font-bold uppercase tracking-widest text-[10px]" asChild>
+                                    <a href={doc.fileUrl} target="_blank" rel="noopener noreferrer" onClick={() => handleView(doc)}>
+                                        <Eye className="mr-2 h-3.5 w-3.5" /> View
+                                    </a>
+                                </Button>
+                                <Button className="h-11 font-bold uppercase tracking-widest text-[10px] shadow-md" asChild>
+                                    <a href={doc.fileUrl} target="_blank" rel="noopener noreferrer" download onClick={() => handleDownload(doc)}>
+                                        <Download className="mr-2 h-3.5 w-3.5" /> Download
+                                    </a>
+                                </Button>
+                            </div>
                         ) : (
                             <Badge variant="outline" className="w-full justify-center h-11 border-dashed opacity-50 font-bold uppercase text-[9px] tracking-widest">Metadata Only</Badge>
                         )}
@@ -30,11 +30,14 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Loader2, Wrench, Upload, X, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Wrench, Upload, X, AlertCircle, CheckCircle2 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
-import { useUser, useFirestore } from '@/firebase';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
 import { query, where, limit, addDoc, collection, onSnapshot, getDoc, doc } from 'firebase/firestore';
 import { uploadPropertyImage } from '@/lib/upload-image';
+import { REPAIR_STATE_LABELS, awaitingTenantConfirmation, newRepairWorkflow, repairState, transitionRepair, type WorkflowRepair } from '@/lib/repair-workflow';
+import { DAMP_MOULD_CATEGORY, openCaseFromRepair } from '@/lib/hazard-cases';
 import { notifyLandlordOfMaintenance } from '@/app/actions/notifications';
 import Image from 'next/image';
 
@@ -47,6 +50,62 @@ const maintenanceSchema = z.object({
 
 type MaintenanceFormValues = z.infer<typeof maintenanceSchema>;
 
+/** Repairs this tenant reported, with a confirm action once the landlord marks the work complete. */
+function ReportedRepairs() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('reportedBy', '==', user.uid), limit(20));
+  }, [user, firestore]);
+  const { data: repairs } = useCollection<WorkflowRepair & { title: string; reportedDate?: string }>(repairsQuery);
+
+  const openRepairs = (repairs || [])
+    .filter(r => !['closed', 'cancelled'].includes(repairState(r)))
+    .sort((a, b) => (b.reportedDate || '').localeCompare(a.reportedDate || ''));
+
+  const confirmFixed = async (repair: WorkflowRepair) => {
+    if (!firestore || !user) return;
+    setConfirming(repair.id);
+    try {
+      await transitionRepair(firestore, repair, 'tenant_confirmed', { actor: { uid: user.uid, name: user.displayName || user.email } });
+      toast({ title: 'Repair Confirmed', description: 'Thanks for letting us know the work is done.' });
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Update Failed', description: error?.message || 'Could not confirm the repair.' });
+    } finally {
+      setConfirming(null);
+    }
+  };
+
+  if (!openRepairs.length) return null;
+
+  return (
+    <Card className="max-w-2xl mx-auto shadow-xl border-none text-left">
+      <CardHeader className="bg-muted/20 border-b">
+        <CardTitle className="text-lg font-headline">Your Reported Repairs</CardTitle>
+        <CardDescription>Confirm completed work once you are happy the issue is fixed.</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-3">
+        {openRepairs.map(repair => (
+          <div key={repair.id} className="flex items-center justify-between gap-3 border-b last:border-0 pb-3 last:pb-0">
+            <div className="min-w-0">
+              <p className="text-sm font-bold truncate">{repair.title}</p>
+              <Badge variant="outline" className="text-[9px] uppercase font-bold tracking-widest mt-1">{REPAIR_STATE_LABELS[repairState(repair)]}</Badge>
+            </div>
+            {awaitingTenantConfirmation(repair) && (
+              <Button size="sm" className="shrink-0 font-bold uppercase text-[10px]" disabled={!!confirming} onClick={() => confirmFixed(repair)}>
+                {confirming === repair.id ? <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" /> : <CheckCircle2 className="mr-2 h-3.5 w-3.5" />}Confirm Fixed
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
 const prepareForFirestore = (obj: any): any => {
     return JSON.parse(JSON.stringify(obj, (key, value) => {
         if (value === undefined) return null;
@@ -136,11 +195,18 @@ export default function TenantMaintenancePage() {
         reportedBy: user.uid,
         tenantEmail: tenantContext.email || user.email?.toLowerCase(),
         reportedDate: new Date().toISOString(),
-        status: 'Open',
+        ...newRepairWorkflow({ uid: user.uid, name: user.displayName || user.email }),
         photoUrls
       });
 
-      await addDoc(logsCollection, payload);
+      const repairRef = await addDoc(logsCollection, payload);
+
+      // Damp and mould reports start an Awaab's Law case for the landlord
+      try {
+          await openCaseFromRepair(firestore, { ...payload, id: repairRef.id });
+      } catch (caseError) {
+          console.warn('Hazard case could not be opened:', caseError);
+      }
 
       toast({ title: 'Repair Request Logged', description: 'Landlord notified.' });
 
@@ -204,67 +270,70 @@ export default function TenantMaintenancePage() {
   }
 
   return (
-    <Card className="max-w-2xl mx-auto shadow-xl border-none text-left">
-      <CardHeader className="bg-primary/5 border-b">
-        <CardTitle className="flex items-center gap-2 font-headline"><Wrench className="h-5 w-5 text-primary" /> Log Repair Issue</CardTitle>
-        <CardDescription>Detailed information helps us resolve issues quickly.</CardDescription>
-      </CardHeader>
-      <CardContent className="pt-8">
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <FormField control={form.control} name="title" render={({ field }) => (
-              <FormItem><FormLabel className="font-bold">Issue Title</FormLabel><FormControl><Input placeholder="e.g. Boiler leak" className="h-11" {...field} /></FormControl><FormMessage /></FormItem>
-            )} />
-            
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <FormField control={form.control} name="category" render={({ field }) => (
-                  <FormItem><FormLabel className="font-bold">Category</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl><SelectTrigger className="h-11"><SelectValue placeholder="Select type" /></SelectTrigger></FormControl>
-                      <SelectContent>{['Plumbing', 'Electrical', 'Heating', 'Structural', 'Appliances', 'Garden', 'Other'].map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}</SelectContent>
-                    </Select>
-                  <FormMessage /></FormItem>
-                )} />
-                <FormField control={form.control} name="priority" render={({ field }) => (
-                  <FormItem><FormLabel className="font-bold">Urgency</FormLabel>
-                    <Select onValueChange={field.onChange} value={field.value}>
-                      <FormControl><SelectTrigger className="h-11"><SelectValue placeholder="Select priority" /></SelectTrigger></FormControl>
-                      <SelectContent><SelectItem value="Emergency">Emergency</SelectItem><SelectItem value="Urgent">Urgent</SelectItem><SelectItem value="Routine">Routine</SelectItem></SelectContent>
-                    </Select>
-                  <FormMessage /></FormItem>
-                )} />
-            </div>
+    <div className="space-y-8">
+      <Card className="max-w-2xl mx-auto shadow-xl border-none text-left">
+        <CardHeader className="bg-primary/5 border-b">
+          <CardTitle className="flex items-center gap-2 font-headline"><Wrench className="h-5 w-5 text-primary" /> Log Repair Issue</CardTitle>
+          <CardDescription>Detailed information helps us resolve issues quickly.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-8">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField control={form.control} name="title" render={({ field }) => (
+                <FormItem><FormLabel className="font-bold">Issue Title</FormLabel><FormControl><Input placeholder="e.g. Boiler leak" className="h-11" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <FormField control={form.control} name="category" render={({ field }) => (
+                    <FormItem><FormLabel className="font-bold">Category</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger className="h-11"><SelectValue placeholder="Select type" /></SelectTrigger></FormControl>
+                        <SelectContent>{['Plumbing', 'Electrical', 'Heating', DAMP_MOULD_CATEGORY, 'Structural', 'Appliances', 'Garden', 'Other'].map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}</SelectContent>
+                      </Select>
+                    <FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="priority" render={({ field }) => (
+                    <FormItem><FormLabel className="font-bold">Urgency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl><SelectTrigger className="h-11"><SelectValue placeholder="Select priority" /></SelectTrigger></FormControl>
+                        <SelectContent><SelectItem value="Emergency">Emergency</SelectItem><SelectItem value="Urgent">Urgent</SelectItem><SelectItem value="Routine">Routine</SelectItem></SelectContent>
+                      </Select>
+                    <FormMessage /></FormItem>
+                  )} />
+              </div>
 
-            <FormField control={form.control} name="description" render={({ field }) => (
-              <FormItem><FormLabel className="font-bold">Details</FormLabel><FormControl><Textarea rows={4} placeholder="Description..." className="resize-none rounded-xl" {...field} /></FormControl><FormMessage /></FormItem>
-            )} />
-
-            <div className="space-y-4">
-                <FormLabel className="font-bold">Photos</FormLabel>
-                <div className="grid grid-cols-3 gap-4">
-                    {photoPreviews.map((url, idx) => (
-                        <div key={idx} className="relative aspect-square rounded-xl overflow-hidden border group shadow-sm">
-                            <Image src={url} alt="Preview" fill className="object-cover" unoptimized />
-                            <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity" onClick={() => removePhoto(idx)}><X className="h-3 w-3" /></Button>
-                        </div>
-                    ))}
-                    <div className="border-2 border-dashed rounded-xl flex flex-col items-center justify-center gap-2 bg-muted/5 cursor-pointer aspect-square hover:bg-muted/10 transition-colors" onClick={() => document.getElementById('tenant-photo-upload')?.click()}>
-                        <Upload className="h-6 w-6 text-muted-foreground" />
-                        <span className="text-[10px] font-bold uppercase">Add Photo</span>
-                    </div>
-                </div>
-                <input id="tenant-photo-upload" type="file" multiple className="hidden" accept="image/*" onChange={handlePhotoChange} />
-            </div>
+              <FormField control={form.control} name="description" render={({ field }) => (
+                <FormItem><FormLabel className="font-bold">Details</FormLabel><FormControl><Textarea rows={4} placeholder="Description..." className="resize-none rounded-xl" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
 
-            <div className="flex justify-end gap-3 pt-4 border-t">
-                <Button type="button" variant="ghost" className="font-bold uppercase text-xs h-11" onClick={() => router.push('/tenant/dashboard')}>Cancel</Button>
-                <Button type="submit" disabled={isSubmitting} className="h-11 px-10 shadow-lg font-bold uppercase text-xs">
-                  {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Log Issue'}
-                </Button>
-            </div>
-          </form>
-        </Form>
-      </CardContent>
-    </Card>
+              <div className="space-y-4">
+                  <FormLabel className="font-bold">Photos</FormLabel>
+                  <div className="grid grid-cols-3 gap-4">
+                      {photoPreviews.map((url, idx) => (
+                          <div key={idx} className="relative aspect-square rounded-xl overflow-hidden border group shadow-sm">
+                              <Image src={url} alt="Preview" fill className="object-cover" unoptimized />
+                              <Button type="button" variant="destructive" size="icon" className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity" onClick={() => removePhoto(idx)}><X className="h-3 w-3" /></Button>
+                          </div>
+                      ))}
+                      <div className="border-2 border-dashed rounded-xl flex flex-col items-center justify-center gap-2 bg-muted/5 cursor-pointer aspect-square hover:bg-muted/10 transition-colors" onClick={() => document.getElementById('tenant-photo-upload')?.click()}>
+                          <Upload className="h-6 w-6 text-muted-foreground" />
+                          <span className="text-[10px] font-bold uppercase">Add Photo</span>
+                      </div>
+                  </div>
+                  <input id="tenant-photo-upload" type="file" multiple className="hidden" accept="image/*" onChange={handlePhotoChange} />
+              </div>
+
+              <div className="flex justify-end gap-3 pt-4 border-t">
+                  <Button type="button" variant="ghost" className="font-bold uppercase text-xs h-11" onClick={() => router.push('/tenant/dashboard')}>Cancel</Button>
+                  <Button type="submit" disabled={isSubmitting} className="h-11 px-10 shadow-lg font-bold uppercase text-xs">
+                    {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Log Issue'}
+                  </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+      <ReportedRepairs />
+    </div>
   );
 }
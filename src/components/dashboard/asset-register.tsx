@@ -0,0 +1,253 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUser, useFirestore, useCollection, useMemoFirebase, deleteDocumentNonBlocking } from '@/firebase';
+import { addDoc, collection, doc, query, where, limit } from 'firebase/firestore';
+import { Loader2, PlusCircle, Package, Landmark, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { MONEY_FIELDS, formatMoney, poundsOf, withPence } from '@/lib/money';
+import {
+  ASSET_TYPES,
+  DEFAULT_ASSET_LIFESPANS,
+  EXPENDITURE_CLASS_LABELS,
+  assetLifecycle,
+  buildCgtBaseCostSchedule,
+  type AssetType,
+  type ExpenditureClass,
+  type PropertyAsset,
+} from '@/lib/capital-expenditure';
+
+const formatCurrency = (val: number) => formatMoney(val);
+
+const STATUS_STYLES: Record<string, string> = {
+  good: 'bg-green-100 text-green-800 border-green-200',
+  ageing: 'bg-amber-100 text-amber-800 border-amber-200',
+  due: 'bg-red-100 text-red-800 border-red-200',
+};
+
+function useAssets(propertyId: string) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const assetsQuery = useMemoFirebase(() => {
+    if (!user || !firestore || !propertyId) return null;
+    return query(collection(firestore, 'assets'), where('landlordId', '==', user.uid), where('propertyId', '==', propertyId), limit(200));
+  }, [user, firestore, propertyId]);
+  return useCollection<PropertyAsset>(assetsQuery);
+}
+
+export function AssetRegister({ propertyId }: { propertyId: string }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const { data: assets, isLoading } = useAssets(propertyId);
+
+  const [name, setName] = React.useState('');
+  const [assetType, setAssetType] = React.useState<AssetType>('Boiler');
+  const [purchaseDate, setPurchaseDate] = React.useState('');
+  const [cost, setCost] = React.useState('');
+  const [lifespan, setLifespan] = React.useState(String(DEFAULT_ASSET_LIFESPANS['Boiler']));
+  const [classification, setClassification] = React.useState<ExpenditureClass>('domestic_replacement');
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const rows = React.useMemo(() => (assets || [])
+    .map(a => ({ ...a, lifecycle: assetLifecycle(a) }))
+    .sort((a, b) => (a.lifecycle.replacementDue?.getTime() ?? Infinity) - (b.lifecycle.replacementDue?.getTime() ?? Infinity)), [assets]);
+
+  const handleTypeChange = (value: string) => {
+    setAssetType(value as AssetType);
+    setLifespan(String(DEFAULT_ASSET_LIFESPANS[value as AssetType]));
+  };
+
+  const handleAdd = async () => {
+    if (!user || !firestore || !purchaseDate) return;
+    setIsSaving(true);
+    try {
+      await addDoc(collection(firestore, 'assets'), withPence({
+        landlordId: user.uid,
+        propertyId,
+        name: name.trim() || assetType,
+        assetType,
+        purchaseDate: new Date(purchaseDate),
+        cost: Number(cost) || 0,
+        expectedLifespanYears: Number(lifespan) || DEFAULT_ASSET_LIFESPANS[assetType],
+        classification,
+      }, MONEY_FIELDS.assets));
+      toast({ title: 'Asset Added' });
+      setName('');
+      setCost('');
+      setPurchaseDate('');
+    } catch {
+      toast({ variant: 'destructive', title: 'Save Failed' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden text-left">
+      <CardHeader className="pb-4 bg-muted/5 border-b">
+        <CardTitle className="font-headline text-lg flex items-center gap-2"><Package className="h-5 w-5 text-primary" /> Asset Register</CardTitle>
+        <CardDescription>Major items in the property with their expected replacement dates.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 pt-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No assets recorded for this property.</p>
+        ) : (
+          <div className="rounded-xl border overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead>Asset</TableHead>
+                  <TableHead>Installed</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead>Replacement Due</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(a => (
+                  <TableRow key={a.id}>
+                    <TableCell>
+                      <p className="font-semibold text-sm">{a.name}</p>
+                      <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-widest">{a.assetType} · {EXPENDITURE_CLASS_LABELS[a.classification] || EXPENDITURE_CLASS_LABELS.revenue}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">{safeToDate(a.purchaseDate) ? format(safeToDate(a.purchaseDate)!, 'dd MMM yyyy') : '—'}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatCurrency(poundsOf(a, 'cost'))}</TableCell>
+                    <TableCell className="text-sm">{a.lifecycle.replacementDue ? format(a.lifecycle.replacementDue, 'MMM yyyy') : '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={cn('capitalize', STATUS_STYLES[a.lifecycle.status])}>
+                        {a.lifecycle.status === 'due' ? 'Replacement due' : a.lifecycle.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground" onClick={() => deleteDocumentNonBlocking(doc(firestore, 'assets', a.id))}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="rounded-xl border bg-muted/5 p-4 space-y-4">
+          <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Add Asset</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={assetType} onValueChange={handleTypeChange}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{ASSET_TYPES.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Worcester combi boiler" />
+            </div>
+            <div className="space-y-2">
+              <Label>Tax Treatment</Label>
+              <Select value={classification} onValueChange={v => setClassification(v as ExpenditureClass)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>{Object.entries(EXPENDITURE_CLASS_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Installed / Purchased</Label>
+              <Input type="date" value={purchaseDate} onChange={e => setPurchaseDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Cost (£)</Label>
+              <Input type="number" step="0.01" min="0" value={cost} onChange={e => setCost(e.target.value)} placeholder="0.00" />
+            </div>
+            <div className="space-y-2">
+              <Label>Expected Lifespan (years)</Label>
+              <Input type="number" min="1" value={lifespan} onChange={e => setLifespan(e.target.value)} />
+            </div>
+          </div>
+          <Button onClick={handleAdd} disabled={isSaving || !purchaseDate} className="font-bold">
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <PlusCircle className="mr-2 h-4 w-4" />} Add to Register
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/** Purchase price plus capital improvements, for working out the gain on a future sale. */
+export function CgtBaseCostSchedule({ property }: { property: { id: string; purchasePrice?: number } }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const { data: assets } = useAssets(property.id);
+
+  const expensesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'expenses'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id), limit(500));
+  }, [user, firestore, property.id]);
+  const { data: expenses } = useCollection<any>(expensesQuery);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id), limit(500));
+  }, [user, firestore, property.id]);
+  const { data: repairs } = useCollection<any>(repairsQuery);
+
+  const schedule = React.useMemo(
+    () => buildCgtBaseCostSchedule(property, expenses || [], repairs || [], assets || []),
+    [property, expenses, repairs, assets]
+  );
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden text-left">
+      <CardHeader className="pb-4 bg-muted/5 border-b">
+        <CardTitle className="font-headline text-lg flex items-center gap-2"><Landmark className="h-5 w-5 text-primary" /> CGT Base Cost</CardTitle>
+        <CardDescription>Capital improvements are not deductible from rental income but reduce the gain on sale.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-6">
+        {schedule.entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">Add a purchase price or classify an expense as a capital improvement to build the schedule.</p>
+        ) : (
+          <div className="rounded-xl border overflow-x-auto">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.entries.map((e, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="text-sm">{e.date ? format(e.date, 'dd MMM yyyy') : '—'}</TableCell>
+                    <TableCell className="text-sm font-medium">{e.description}</TableCell>
+                    <TableCell className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">{e.source}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">{formatCurrency(e.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div><p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Acquisition</p><p className="font-bold">{formatCurrency(schedule.acquisitionCost)}</p></div>
+          <div><p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Enhancements</p><p className="font-bold">{formatCurrency(schedule.enhancementExpenditure)}</p></div>
+          <div><p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Total Base Cost</p><p className="font-bold text-primary">{formatCurrency(schedule.totalBaseCost)}</p></div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
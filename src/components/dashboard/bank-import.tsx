@@ -0,0 +1,397 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where, doc, updateDoc, writeBatch, limit } from 'firebase/firestore';
+import { Loader2, Upload, Landmark, Inbox, CheckCircle2, ShieldCheck, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { EXPENSE_CATEGORIES, type ExpenseCategory } from '@/lib/expense-categories';
+import { formatMoney, poundsOf } from '@/lib/money';
+import {
+  CSV_BANK_PRESETS,
+  buildRentCandidates,
+  commitBankImport,
+  csvToTransactions,
+  detectCsvPreset,
+  isOfxFile,
+  parseOfx,
+  postReconciledTransaction,
+  propertyTokens,
+  readCsvStatement,
+  reconcileTransactions,
+  toBankTransaction,
+  type CsvColumnMapping,
+  type ParsedCsv,
+  type ReconciledTransaction,
+} from '@/lib/bank-import';
+
+interface ImportProperty {
+  id: string;
+  address: { nameOrNumber?: string; street: string; city: string; postcode: string };
+}
+
+interface ImportTenant {
+  id: string;
+  name: string;
+  propertyId: string;
+  monthlyRent?: number;
+}
+
+interface StoredBankTransaction {
+  id: string;
+  transactionId: string;
+  date: any;
+  amount: number;
+  description: string;
+  reference: string;
+  status: 'review' | 'reconciled' | 'ignored';
+  suggestedTarget?: 'rent' | 'expense' | null;
+  suggestedTenantId?: string | null;
+  suggestedPropertyId?: string | null;
+  suggestedCategory?: ExpenseCategory | null;
+  matchReason?: string;
+}
+
+const NONE = '__none__';
+const MAPPING_FIELDS: { key: keyof CsvColumnMapping; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'description', label: 'Description' },
+  { key: 'reference', label: 'Reference' },
+  { key: 'amount', label: 'Amount (signed)' },
+  { key: 'debit', label: 'Money Out' },
+  { key: 'credit', label: 'Money In' },
+];
+
+const formatCurrency = (val: number) => formatMoney(val);
+
+function formatAddress(address: ImportProperty['address']) {
+  if (!address) return 'N/A';
+  return [address.nameOrNumber, address.street, address.city, address.postcode].filter(Boolean).join(', ');
+}
+
+export function BankImport({ properties, selectedPropertyId }: { properties: ImportProperty[]; selectedPropertyId: string }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+
+  const [fileName, setFileName] = React.useState('');
+  const [fileText, setFileText] = React.useState('');
+  const [presetId, setPresetId] = React.useState('auto');
+  const [customMapping, setCustomMapping] = React.useState<Partial<CsvColumnMapping>>({});
+  const [defaultPropertyId, setDefaultPropertyId] = React.useState(selectedPropertyId !== 'all' ? selectedPropertyId : NONE);
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('status', '==', 'Active'), limit(500));
+  }, [user, firestore]);
+  const { data: tenants } = useCollection<ImportTenant>(tenantsQuery);
+
+  const chargesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid), limit(2000));
+  }, [user, firestore]);
+  const { data: rentCharges } = useCollection<any>(chargesQuery);
+
+  const reviewQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'bankTransactions'), where('landlordId', '==', user.uid), where('status', '==', 'review'), limit(500));
+  }, [user, firestore]);
+  const { data: reviewQueue, isLoading: isLoadingQueue } = useCollection<StoredBankTransaction>(reviewQuery);
+
+  const isOfx = !!fileText && isOfxFile(fileName, fileText);
+
+  const csv: ParsedCsv | null = React.useMemo(() => {
+    if (!fileText || isOfx) return null;
+    const preset = CSV_BANK_PRESETS.find(p => p.id === presetId);
+    return readCsvStatement(fileText, preset);
+  }, [fileText, isOfx, presetId]);
+
+  const mapping: CsvColumnMapping | null = React.useMemo(() => {
+    if (!csv) return null;
+    if (presetId === 'custom') return customMapping.date && customMapping.description ? customMapping as CsvColumnMapping : null;
+    if (presetId === 'auto') return detectCsvPreset(csv.headers)?.mapping || null;
+    return CSV_BANK_PRESETS.find(p => p.id === presetId)?.mapping || null;
+  }, [csv, presetId, customMapping]);
+
+  const { lines, parseError } = React.useMemo(() => {
+    if (!fileText) return { lines: [] as ReconciledTransaction[], parseError: '' };
+    try {
+      const transactions = isOfx ? parseOfx(fileText) : (csv && mapping ? csvToTransactions(csv, mapping) : []);
+      const candidates = buildRentCandidates(tenants || [], rentCharges || [], properties);
+      const propertyIndex = properties.map(p => ({ id: p.id, tokens: propertyTokens(p.address) }));
+      return {
+        lines: reconcileTransactions(transactions, candidates, propertyIndex, defaultPropertyId !== NONE ? defaultPropertyId : undefined),
+        parseError: '',
+      };
+    } catch (e: any) {
+      return { lines: [] as ReconciledTransaction[], parseError: e.message || 'Unable to read this statement.' };
+    }
+  }, [fileText, isOfx, csv, mapping, tenants, rentCharges, properties, defaultPropertyId]);
+
+  const matchedCount = lines.filter(l => l.status === 'matched').length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setFileText(await file.text());
+    setPresetId('auto');
+    setCustomMapping({});
+  };
+
+  const handleImport = async () => {
+    if (!user || !firestore || !lines.length) return;
+    setIsImporting(true);
+    try {
+      const result = await commitBankImport(firestore, user.uid, lines, fileName);
+      toast({
+        title: 'Statement Imported',
+        description: `${result.matched} reconciled, ${result.review} sent to review${result.skipped ? `, ${result.skipped} already imported` : ''}.`,
+      });
+      setFileText('');
+      setFileName('');
+    } catch (e) {
+      console.error('Bank import failed:', e);
+      toast({ variant: 'destructive', title: 'Import Failed' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 mt-6">
+      <Card className="border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
+        <CardHeader className="bg-primary/5 border-b px-8 py-8">
+          <CardTitle className="text-xl font-headline flex items-center gap-3 text-primary"><Landmark className="h-6 w-6" /> Import Bank Statement</CardTitle>
+          <CardDescription className="text-base font-medium">Upload a CSV, OFX or QFX export. Credits are matched to expected rent and debits to expense categories; anything uncertain goes to the review queue.</CardDescription>
+        </CardHeader>
+        <CardContent className="pt-8 px-8 pb-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid gap-1.5">
+              <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Statement File</Label>
+              <Input type="file" accept=".csv,.ofx,.qfx,text/csv" className="h-12 border-2 rounded-xl pt-2.5" onChange={handleFile} />
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Bank Format</Label>
+              <Select value={isOfx ? 'ofx' : presetId} onValueChange={setPresetId} disabled={isOfx}>
+                <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+                <SelectContent className="rounded-xl border-2 shadow-2xl">
+                  {isOfx && <SelectItem value="ofx" className="py-3 font-medium">OFX / QFX</SelectItem>}
+                  <SelectItem value="auto" className="py-3 font-bold">Auto-detect</SelectItem>
+                  {CSV_BANK_PRESETS.map(p => <SelectItem key={p.id} value={p.id} className="py-3 font-medium">{p.label}</SelectItem>)}
+                  <SelectItem value="custom" className="py-3 font-medium">Custom Column Mapping</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-1.5">
+              <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Default Property for Expenses</Label>
+              <Select value={defaultPropertyId} onValueChange={setDefaultPropertyId}>
+                <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+                <SelectContent className="rounded-xl border-2 shadow-2xl">
+                  <SelectItem value={NONE} className="py-3 font-bold">Match from reference only</SelectItem>
+                  {properties.map(p => <SelectItem key={p.id} value={p.id} className="py-3 font-medium">{formatAddress(p.address)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {csv && presetId === 'custom' && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 p-6 rounded-2xl border-2 border-dashed bg-muted/5">
+              {MAPPING_FIELDS.map(f => (
+                <div key={f.key} className="grid gap-1.5">
+                  <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">{f.label}</Label>
+                  <Select value={customMapping[f.key] || NONE} onValueChange={(v) => setCustomMapping(m => ({ ...m, [f.key]: v === NONE ? undefined : v }))}>
+                    <SelectTrigger className="h-10 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+                    <SelectContent className="rounded-xl border-2 shadow-2xl">
+                      <SelectItem value={NONE} className="py-2">Not used</SelectItem>
+                      {csv.headers.map(h => <SelectItem key={h} value={h} className="py-2">{h}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {csv && !mapping && presetId !== 'custom' && (
+            <p className="text-sm font-medium text-destructive">This file's columns were not recognised. Choose the bank format or map the columns manually.</p>
+          )}
+          {parseError && <p className="text-sm font-medium text-destructive">{parseError}</p>}
+
+          {lines.length > 0 && (
+            <div className="rounded-2xl border overflow-hidden">
+              <Table>
+                <TableHeader className="bg-muted/30">
+                  <TableRow>
+                    <TableHead className="pl-6 font-bold uppercase text-[10px] tracking-widest">Date</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Description</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Reconciliation</TableHead>
+                    <TableHead className="pr-6 text-right font-bold uppercase text-[10px] tracking-widest">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map(line => (
+                    <TableRow key={line.transaction.id}>
+                      <TableCell className="pl-6 text-xs font-bold tabular-nums">{format(line.transaction.date, 'dd MMM yyyy')}</TableCell>
+                      <TableCell className="text-sm font-medium max-w-[260px] truncate">{line.transaction.description}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={line.status === 'matched' ? 'secondary' : 'outline'} className={cn("text-[8px] uppercase font-bold", line.status === 'matched' && "bg-green-50 text-green-700 border-green-200")}>
+                            {line.status === 'matched' ? 'Matched' : 'Review'}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground">{line.reason}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell className={cn("pr-6 text-right font-bold tabular-nums", line.transaction.amount > 0 ? "text-green-600" : "text-destructive")}>{formatCurrency(line.transaction.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+        {lines.length > 0 && (
+          <CardFooter className="bg-muted/5 border-t py-6 px-8 flex justify-between gap-4">
+            <p className="text-xs font-bold uppercase tracking-widest text-muted-foreground">{lines.length} lines &middot; {matchedCount} matched &middot; {lines.length - matchedCount} to review</p>
+            <Button onClick={handleImport} disabled={isImporting} className="font-bold uppercase tracking-widest text-[10px] h-11 px-8 rounded-xl shadow-lg gap-2">
+              {isImporting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" />}
+              Import Statement
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+
+      <ReviewQueue queue={reviewQueue || []} isLoading={isLoadingQueue} tenants={tenants || []} properties={properties} />
+    </div>
+  );
+}
+
+function ReviewQueue({ queue, isLoading, tenants, properties }: { queue: StoredBankTransaction[]; isLoading: boolean; tenants: ImportTenant[]; properties: ImportProperty[] }) {
+  const sorted = React.useMemo(
+    () => [...queue].sort((a, b) => (safeToDate(b.date)?.getTime() || 0) - (safeToDate(a.date)?.getTime() || 0)),
+    [queue]
+  );
+
+  return (
+    <Card className="border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
+      <CardHeader className="bg-muted/20 border-b px-8 py-6">
+        <CardTitle className="text-lg font-headline flex items-center gap-3"><Inbox className="h-5 w-5 text-primary" /> Review Queue</CardTitle>
+        <CardDescription className="text-sm font-medium">Imported lines that could not be reconciled automatically. Assign each to a tenancy or expense category, or ignore it.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoading ? (
+          <div className="p-16 flex justify-center"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+        ) : sorted.length === 0 ? (
+          <div className="py-16 text-center text-muted-foreground flex flex-col items-center gap-3">
+            <CheckCircle2 className="h-8 w-8 text-green-600" />
+            <p className="text-sm font-medium">All imported transactions are reconciled.</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {sorted.map(item => <ReviewRow key={item.id} item={item} tenants={tenants} properties={properties} />)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReviewRow({ item, tenants, properties }: { item: StoredBankTransaction; tenants: ImportTenant[]; properties: ImportProperty[] }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const isCredit = poundsOf(item, 'amount') > 0;
+  const [tenantId, setTenantId] = React.useState(item.suggestedTenantId || '');
+  const [category, setCategory] = React.useState<string>(item.suggestedCategory || '');
+  const [propertyId, setPropertyId] = React.useState(item.suggestedPropertyId || '');
+  const [isSaving, setIsSaving] = React.useState(false);
+  const date = safeToDate(item.date);
+
+  const canPost = isCredit ? !!tenantId : !!category && !!propertyId;
+
+  const handlePost = async () => {
+    if (!user || !firestore) return;
+    const transaction = toBankTransaction(item);
+    if (!transaction) return;
+    setIsSaving(true);
+    try {
+      const tenant = tenants.find(t => t.id === tenantId);
+      const batch = writeBatch(firestore);
+      postReconciledTransaction(batch, firestore, user.uid, {
+        transaction,
+        status: 'matched',
+        target: isCredit ? 'rent' : 'expense',
+        tenantId: tenant?.id,
+        propertyId: isCredit ? tenant?.propertyId : propertyId,
+        category: isCredit ? undefined : category as ExpenseCategory,
+        reason: 'Confirmed in review',
+      });
+      await batch.commit();
+      toast({ title: 'Transaction Reconciled' });
+    } catch (e) {
+      console.error('Reconciliation failed:', e);
+      toast({ variant: 'destructive', title: 'Save Failed' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleIgnore = () => {
+    if (!firestore) return;
+    updateDoc(doc(firestore, 'bankTransactions', item.id), { status: 'ignored', reconciledDate: new Date().toISOString() })
+      .catch(() => toast({ variant: 'destructive', title: 'Update Failed' }));
+  };
+
+  return (
+    <div className="px-8 py-5 grid grid-cols-1 lg:grid-cols-12 gap-4 items-center">
+      <div className="lg:col-span-4 space-y-1 min-w-0">
+        <p className="text-sm font-bold truncate">{item.description}</p>
+        <p className="text-[10px] uppercase font-bold tracking-widest text-muted-foreground">
+          {date ? format(date, 'dd MMM yyyy') : 'N/A'}{item.reference ? ` · ${item.reference}` : ''}
+        </p>
+        {item.matchReason && <p className="text-xs text-muted-foreground italic">{item.matchReason}</p>}
+      </div>
+      <div className={cn("lg:col-span-2 font-bold tabular-nums", isCredit ? "text-green-600" : "text-destructive")}>{formatCurrency(poundsOf(item, 'amount'))}</div>
+      <div className="lg:col-span-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {isCredit ? (
+          <Select value={tenantId} onValueChange={setTenantId}>
+            <SelectTrigger className="h-10 border-2 rounded-xl sm:col-span-2"><SelectValue placeholder="Assign to tenancy" /></SelectTrigger>
+            <SelectContent className="rounded-xl border-2 shadow-2xl">
+              {tenants.map(t => <SelectItem key={t.id} value={t.id} className="py-2">{t.name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        ) : (
+          <>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="h-10 border-2 rounded-xl"><SelectValue placeholder="Category" /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                {EXPENSE_CATEGORIES.map(c => <SelectItem key={c} value={c} className="py-2">{c}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger className="h-10 border-2 rounded-xl"><SelectValue placeholder="Property" /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                {properties.map(p => <SelectItem key={p.id} value={p.id} className="py-2">{formatAddress(p.address)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </>
+        )}
+      </div>
+      <div className="lg:col-span-2 flex justify-end gap-2">
+        <Button variant="ghost" size="icon" onClick={handleIgnore} title="Ignore" className="h-10 w-10 rounded-xl text-muted-foreground"><XCircle className="h-4 w-4" /></Button>
+        <Button onClick={handlePost} disabled={!canPost || isSaving} className="h-10 rounded-xl font-bold uppercase tracking-widest text-[10px] gap-2">
+          {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ShieldCheck className="h-3.5 w-3.5" />}
+          Post
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where, limit } from 'firebase/firestore';
+import { Loader2, ShieldCheck, ShieldAlert, Clock, FileWarning, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  COMPLIANCE_STATUS_LABELS,
+  PROPERTY_COMPLIANCE_LABELS,
+  assessPropertyCompliance,
+  type ComplianceItem,
+  type ComplianceProperty,
+} from '@/lib/compliance-rules';
+import { currentDocuments } from '@/lib/document-versions';
+
+const STATUS_STYLES: Record<ComplianceItem['status'], string> = {
+  compliant: 'bg-green-50 text-green-700 border-green-200',
+  expiring: 'bg-amber-50 text-amber-700 border-amber-200',
+  missing: 'bg-orange-50 text-orange-700 border-orange-200',
+  expired: 'bg-destructive/10 text-destructive border-destructive/30',
+  failed: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+function itemHref(item: ComplianceItem, propertyId: string) {
+  if (item.documentId) return `/dashboard/documents/${item.documentId}`;
+  if (item.tenantId) return `/dashboard/tenants/${item.tenantId}?propertyId=${propertyId}`;
+  return `/dashboard/documents/upload?propertyId=${propertyId}`;
+}
+
+/**
+ * Computed compliance status for a single property: every requirement that
+ * applies to it, with missing, expiring and expired items surfaced first.
+ */
+export function PropertyComplianceCard({ property }: { property: ComplianceProperty }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [today, setToday] = React.useState<Date | null>(null);
+
+  React.useEffect(() => {
+    setToday(new Date());
+  }, []);
+
+  const docsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'documents'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id), limit(200));
+  }, [user, firestore, property.id]);
+  const { data: documents, isLoading: isLoadingDocs } = useCollection(docsQuery);
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id), where('status', '==', 'Active'));
+  }, [user, firestore, property.id]);
+  const { data: tenants, isLoading: isLoadingTenants } = useCollection(tenantsQuery);
+
+  const checklistsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'checklists'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id));
+  }, [user, firestore, property.id]);
+  const { data: checklists, isLoading: isLoadingChecklists } = useCollection(checklistsQuery);
+
+  const depositsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'deposits'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id));
+  }, [user, firestore, property.id]);
+  const { data: deposits, isLoading: isLoadingDeposits } = useCollection(depositsQuery);
+
+  const alarmTestsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'alarmTests'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id));
+  }, [user, firestore, property.id]);
+  const { data: alarmTests, isLoading: isLoadingAlarmTests } = useCollection(alarmTestsQuery);
+
+  const compliance = React.useMemo(() => {
+    if (!today || !documents || !tenants || !checklists || !deposits || !alarmTests) return null;
+    return assessPropertyCompliance(property, { documents: currentDocuments(documents as any[]), tenants, checklists, deposits, alarmTests }, today);
+  }, [property, documents, tenants, checklists, deposits, alarmTests, today]);
+
+  const isLoading = isLoadingDocs || isLoadingTenants || isLoadingChecklists || isLoadingDeposits || isLoadingAlarmTests || !compliance;
+
+  const items = React.useMemo(() => {
+    if (!compliance) return [];
+    const order: ComplianceItem['status'][] = ['failed', 'expired', 'missing', 'expiring', 'compliant'];
+    return [...compliance.items].sort((a, b) => order.indexOf(a.status) - order.indexOf(b.status));
+  }, [compliance]);
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden bg-muted/5 text-left">
+      <CardHeader className="pb-4 bg-muted/20 border-b">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="font-headline text-lg flex items-center gap-2">
+            {compliance?.status === 'compliant' ? <ShieldCheck className="h-5 w-5 text-green-600" /> : <ShieldAlert className="h-5 w-5 text-primary" />}
+            Legal Compliance
+          </CardTitle>
+          {compliance && (
+            <Badge variant={compliance.status === 'non_compliant' ? 'destructive' : 'outline'} className={cn('text-[10px] font-bold uppercase', compliance.status === 'compliant' && 'bg-green-50 text-green-700 border-green-200')}>
+              {PROPERTY_COMPLIANCE_LABELS[compliance.status]}
+            </Badge>
+          )}
+        </div>
+        {compliance && (
+          <CardDescription className="text-xs">
+            {compliance.expired.length} expired · {compliance.missing.length} missing · {compliance.expiring.length} expiring
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2 pt-4">
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : (
+          items.map(item => (
+            <Link
+              key={`${item.requirement}-${item.tenantId || ''}`}
+              href={itemHref(item, property.id)}
+              className="flex items-center justify-between gap-3 p-3 rounded-xl bg-background border hover:border-primary/30 transition-colors group"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-bold truncate">{item.label}</p>
+                <p className="text-[10px] text-muted-foreground leading-snug">{item.detail}</p>
+                {item.dueDate && (
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground flex items-center gap-1 mt-1">
+                    {item.status === 'compliant' || item.status === 'expiring' ? <Clock className="h-3 w-3" /> : <FileWarning className="h-3 w-3" />}
+                    {item.status === 'compliant' || item.status === 'expiring' ? 'Expires' : 'Due'} {format(item.dueDate, 'dd/MM/yyyy')}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Badge variant="outline" className={cn('text-[9px] font-bold uppercase', STATUS_STYLES[item.status])}>{COMPLIANCE_STATUS_LABELS[item.status]}</Badge>
+                <ChevronRight className="h-4 w-4 opacity-30 group-hover:opacity-100" />
+              </div>
+            </Link>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
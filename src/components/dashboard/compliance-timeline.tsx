@@ -33,6 +33,7 @@ import {
 } from 'date-fns';
 import { safeToDate } from '@/lib/date-utils';
 import { cn } from '@/lib/utils';
+import { currentDocuments } from '@/lib/document-versions';
 import Link from 'next/link';
 
 interface DocumentRecord {
@@ -41,6 +42,7 @@ interface DocumentRecord {
   documentType: string;
   propertyId: string;
   expiryDate: any;
+  supersededBy?: string;
 }
 
 interface Property {
@@ -82,7 +84,9 @@ export function ComplianceTimeline() {
       limit(200)
     );
   }, [user, firestore]);
-  const { data: documents, isLoading } = useCollection<DocumentRecord>(docsQuery);
+  const { data: allDocuments, isLoading } = useCollection<DocumentRecord>(docsQuery);
+  // Superseded certificates stay in the vault but no longer fall due
+  const documents = useMemo(() => (allDocuments ? currentDocuments(allDocuments) : null), [allDocuments]);
 
   const propertyMap = useMemo(() => {
     if (!properties) return {};
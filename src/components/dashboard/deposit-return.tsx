@@ -0,0 +1,447 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, updateDoc, where } from 'firebase/firestore';
+import { Loader2, Plus, Trash2, Scale, CheckCircle2, AlertTriangle, Send, Undo2, Banknote } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { formatPence, fromPence, toPence } from '@/lib/money';
+import { inspectionFindings } from '@/lib/inspection-sections';
+import {
+  DEDUCTION_CATEGORY_LABELS,
+  DEPOSIT_RETURN_STATUS_LABELS,
+  canMoveTo,
+  deductionsEditable,
+  newDeduction,
+  returnBreakdown,
+  type DeductionCategory,
+  type Deposit,
+  type DepositReturnStatus,
+} from '@/lib/deposits';
+
+const NO_LINK = 'none';
+
+const deductionSchema = z.object({
+  category: z.enum(['cleaning', 'damage', 'rent_arrears', 'missing_items', 'utilities', 'other']),
+  description: z.string().min(1, 'Describe the deduction.'),
+  amount: z.coerce.number().positive('Enter an amount.'),
+  inspectionId: z.string(),
+  findingKey: z.string(),
+});
+
+const disputeSchema = z.object({
+  tenantResponseDate: z.string().min(1, 'Date is required.'),
+  disputeReference: z.string().optional(),
+});
+
+const settlementSchema = z.object({
+  settledDate: z.string().min(1, 'Date is required.'),
+  settledToTenant: z.coerce.number().min(0),
+  settledToLandlord: z.coerce.number().min(0),
+});
+
+type DeductionFormValues = z.infer<typeof deductionSchema>;
+type DisputeFormValues = z.infer<typeof disputeSchema>;
+type SettlementFormValues = z.infer<typeof settlementSchema>;
+
+const STATUS_STYLES: Record<DepositReturnStatus, string> = {
+  held: '',
+  proposed: 'bg-blue-50 text-blue-700 border-blue-200',
+  agreed: 'bg-green-50 text-green-700 border-green-200',
+  disputed: 'bg-amber-50 text-amber-800 border-amber-200',
+  settled: 'bg-green-50 text-green-700 border-green-200',
+};
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd MMM yyyy') : '—';
+};
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+/**
+ * End-of-tenancy deposit return: deductions evidenced by check-out inspection
+ * findings, the proposal to the tenant, their agreement or dispute, and the
+ * final split of the deposit.
+ */
+export function DepositReturnPanel({ deposit }: { deposit: Deposit }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [dialog, setDialog] = React.useState<'deduction' | 'dispute' | 'settle' | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const inspectionsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'inspections'), where('landlordId', '==', user.uid), where('propertyId', '==', deposit.propertyId));
+  }, [user, firestore, deposit.propertyId]);
+  const { data: inspections } = useCollection<any>(inspectionsQuery);
+
+  // Check-out inspections first, then the rest newest first; HMO inspections carry no type
+  const inspectionOptions = React.useMemo(() => {
+    const at = (i: any) => safeToDate(i.scheduledDate)?.getTime() ?? 0;
+    return [...(inspections || [])].sort((a, b) =>
+      Number(b.inspectionType === 'Move-Out Inspection') - Number(a.inspectionType === 'Move-Out Inspection') || at(b) - at(a)
+    );
+  }, [inspections]);
+  const inspectionById = React.useMemo(() => new Map(inspectionOptions.map(i => [i.id, i])), [inspectionOptions]);
+
+  const status = deposit.returnStatus || 'held';
+  const deductions = deposit.deductions || [];
+  const breakdown = returnBreakdown(deposit);
+  const editable = deductionsEditable(status);
+
+  const deductionForm = useForm<DeductionFormValues>({
+    resolver: zodResolver(deductionSchema),
+    defaultValues: { category: 'cleaning', description: '', amount: 0, inspectionId: NO_LINK, findingKey: NO_LINK },
+  });
+  const disputeForm = useForm<DisputeFormValues>({
+    resolver: zodResolver(disputeSchema),
+    defaultValues: { tenantResponseDate: '', disputeReference: '' },
+  });
+  const settlementForm = useForm<SettlementFormValues>({
+    resolver: zodResolver(settlementSchema),
+    defaultValues: { settledDate: '', settledToTenant: 0, settledToLandlord: 0 },
+  });
+
+  const selectedInspectionId = deductionForm.watch('inspectionId');
+  const findings = React.useMemo(
+    () => inspectionFindings(inspectionById.get(selectedInspectionId)),
+    [inspectionById, selectedInspectionId]
+  );
+
+  const save = async (update: Partial<Deposit>, success: string) => {
+    if (!firestore) return false;
+    setIsSaving(true);
+    try {
+      await updateDoc(doc(firestore, 'deposits', deposit.id), update);
+      toast({ title: success });
+      return true;
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The deposit record could not be updated.' });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openDeduction = () => {
+    const moveOut = inspectionOptions.find(i => i.inspectionType === 'Move-Out Inspection');
+    deductionForm.reset({ category: 'cleaning', description: '', amount: 0, inspectionId: moveOut?.id || NO_LINK, findingKey: NO_LINK });
+    setDialog('deduction');
+  };
+
+  const onAddDeduction = async (values: DeductionFormValues) => {
+    const linked = values.inspectionId !== NO_LINK;
+    const deduction = newDeduction({
+      category: values.category as DeductionCategory,
+      description: values.description,
+      amount: values.amount,
+      inspectionId: linked ? values.inspectionId : undefined,
+      findingKey: linked && values.findingKey !== NO_LINK ? values.findingKey : undefined,
+    });
+    if (await save({ deductions: [...deductions, deduction] }, 'Deduction Added')) setDialog(null);
+  };
+
+  const removeDeduction = (id: string) => save({ deductions: deductions.filter(d => d.id !== id) }, 'Deduction Removed');
+
+  const onDispute = async (values: DisputeFormValues) => {
+    const update: Partial<Deposit> = { returnStatus: 'disputed', tenantResponseDate: values.tenantResponseDate };
+    if (values.disputeReference) update.disputeReference = values.disputeReference;
+    if (await save(update, 'Dispute Recorded')) setDialog(null);
+  };
+
+  const openSettlement = () => {
+    settlementForm.reset({
+      settledDate: today(),
+      settledToTenant: fromPence(breakdown.toTenantPence),
+      settledToLandlord: fromPence(breakdown.toLandlordPence),
+    });
+    setDialog('settle');
+  };
+
+  const onSettle = async (values: SettlementFormValues) => {
+    const toTenantPence = toPence(values.settledToTenant);
+    const toLandlordPence = toPence(values.settledToLandlord);
+    if (toTenantPence + toLandlordPence !== breakdown.depositPence) {
+      settlementForm.setError('settledToLandlord', { message: `The two amounts must add up to the deposit of ${formatPence(breakdown.depositPence)}.` });
+      return;
+    }
+    const ok = await save({
+      returnStatus: 'settled',
+      settledDate: values.settledDate,
+      settledToTenant: fromPence(toTenantPence),
+      settledToTenantPence: toTenantPence,
+      settledToLandlord: fromPence(toLandlordPence),
+      settledToLandlordPence: toLandlordPence,
+    }, 'Deposit Settled');
+    if (ok) setDialog(null);
+  };
+
+  const findingLabel = (inspectionId?: string, findingKey?: string) => {
+    if (!inspectionId) return null;
+    const inspection = inspectionById.get(inspectionId);
+    const finding = findingKey ? inspectionFindings(inspection).find(f => f.key === findingKey) : null;
+    const source = inspection ? `${inspection.inspectionType || 'Inspection'}, ${formatDate(inspection.scheduledDate)}` : 'Inspection';
+    return finding ? `${source}: ${finding.section} – ${finding.label}` : source;
+  };
+
+  return (
+    <Card className="shadow-lg border-none overflow-hidden text-left">
+      <CardHeader className="pb-4 bg-muted/20 border-b flex flex-row items-center justify-between gap-4">
+        <div className="text-left">
+          <CardTitle className="text-lg font-headline flex items-center gap-2"><Scale className="h-5 w-5 text-primary" /> Deposit Return</CardTitle>
+          <CardDescription>Deductions backed by the check-out inspection, the tenant&apos;s response and the final settlement.</CardDescription>
+        </div>
+        <Badge variant="outline" className={cn('text-[9px] uppercase font-bold tracking-widest px-3 h-6 shrink-0', STATUS_STYLES[status])}>
+          {DEPOSIT_RETURN_STATUS_LABELS[status]}
+        </Badge>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6 text-left">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="p-4 rounded-xl bg-background border shadow-sm">
+            <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">Deposit</p>
+            <p className="font-bold text-xl tabular-nums">{formatPence(breakdown.depositPence)}</p>
+          </div>
+          <div className="p-4 rounded-xl bg-background border shadow-sm">
+            <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">{status === 'settled' ? 'Kept by Landlord' : 'Deductions'}</p>
+            <p className={cn('font-bold text-xl tabular-nums', breakdown.deductionsPence > 0 && 'text-destructive')}>
+              {formatPence(status === 'settled' ? deposit.settledToLandlordPence ?? toPence(deposit.settledToLandlord) : breakdown.deductionsPence)}
+            </p>
+          </div>
+          <div className="p-4 rounded-xl bg-background border shadow-sm">
+            <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] mb-0.5">{status === 'settled' ? 'Returned to Tenant' : 'Due to Tenant'}</p>
+            <p className="font-bold text-xl tabular-nums text-green-700">
+              {formatPence(status === 'settled' ? deposit.settledToTenantPence ?? toPence(deposit.settledToTenant) : breakdown.toTenantPence)}
+            </p>
+          </div>
+        </div>
+
+        {breakdown.excessPence > 0 && status !== 'settled' && (
+          <div className="flex items-start gap-2 p-3 rounded-xl bg-amber-50 text-amber-800 text-xs border border-amber-200">
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+            <span>Deductions exceed the deposit by {formatPence(breakdown.excessPence)}. Only the deposit can be retained; the balance has to be recovered from the tenant separately.</span>
+          </div>
+        )}
+
+        <div className="rounded-xl border overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 bg-muted/30 border-b">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Proposed Deductions</p>
+            {editable && (
+              <Button size="sm" variant="outline" className="h-8 font-bold text-[10px] uppercase tracking-widest" onClick={openDeduction}>
+                <Plus className="mr-1.5 h-3.5 w-3.5" /> Add Deduction
+              </Button>
+            )}
+          </div>
+          {!deductions.length ? (
+            <p className="text-sm text-muted-foreground italic text-center py-8">No deductions; the full deposit is due back to the tenant.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="pl-4 font-bold uppercase text-[10px] tracking-widest">Item</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Evidence</TableHead>
+                  <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Amount</TableHead>
+                  {editable && <TableHead className="w-10" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deductions.map(d => (
+                  <TableRow key={d.id}>
+                    <TableCell className="pl-4">
+                      <p className="text-sm font-bold">{d.description}</p>
+                      <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">{DEDUCTION_CATEGORY_LABELS[d.category]}</p>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{findingLabel(d.inspectionId, d.findingKey) || <span className="italic">None linked</span>}</TableCell>
+                    <TableCell className="text-right text-sm font-bold tabular-nums">{formatPence(d.amountPence ?? toPence(d.amount))}</TableCell>
+                    {editable && (
+                      <TableCell className="pr-4">
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" disabled={isSaving} onClick={() => removeDeduction(d.id)}><Trash2 className="h-4 w-4" /></Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+
+        <div className="space-y-1 text-xs text-muted-foreground">
+          {deposit.returnProposedDate && <p>Proposal sent to tenant on {formatDate(deposit.returnProposedDate)}.</p>}
+          {deposit.tenantResponseDate && <p>Tenant responded on {formatDate(deposit.tenantResponseDate)}.</p>}
+          {deposit.disputeReference && <p>Scheme dispute reference: <span className="font-bold text-foreground">{deposit.disputeReference}</span></p>}
+          {deposit.settledDate && <p>Settled on {formatDate(deposit.settledDate)}.</p>}
+        </div>
+
+        <div className="flex flex-wrap gap-2 justify-end">
+          {canMoveTo(status, 'held') && (
+            <Button variant="ghost" size="sm" className="font-bold" disabled={isSaving} onClick={() => save({ returnStatus: 'held' }, 'Proposal Withdrawn')}>
+              <Undo2 className="mr-2 h-4 w-4" /> Withdraw Proposal
+            </Button>
+          )}
+          {canMoveTo(status, 'proposed') && (
+            <Button size="sm" className="font-bold" disabled={isSaving} onClick={() => save({ returnStatus: 'proposed', returnProposedDate: today() }, 'Return Proposed')}>
+              <Send className="mr-2 h-4 w-4" /> {status === 'disputed' ? 'Send Revised Proposal' : 'Propose Return to Tenant'}
+            </Button>
+          )}
+          {canMoveTo(status, 'disputed') && (
+            <Button variant="outline" size="sm" className="font-bold" disabled={isSaving} onClick={() => { disputeForm.reset({ tenantResponseDate: today(), disputeReference: deposit.disputeReference || '' }); setDialog('dispute'); }}>
+              <AlertTriangle className="mr-2 h-4 w-4" /> Tenant Disputes
+            </Button>
+          )}
+          {canMoveTo(status, 'agreed') && (
+            <Button variant="outline" size="sm" className="font-bold" disabled={isSaving} onClick={() => save({ returnStatus: 'agreed', tenantResponseDate: today() }, 'Tenant Agreement Recorded')}>
+              <CheckCircle2 className="mr-2 h-4 w-4" /> Tenant Agrees
+            </Button>
+          )}
+          {canMoveTo(status, 'settled') && (
+            <Button size="sm" className="font-bold" disabled={isSaving} onClick={openSettlement}>
+              <Banknote className="mr-2 h-4 w-4" /> Record Settlement
+            </Button>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={dialog === 'deduction'} onOpenChange={(open) => setDialog(open ? 'deduction' : null)}>
+        <DialogContent className="max-w-lg text-left">
+          <DialogHeader>
+            <DialogTitle>Add Deduction</DialogTitle>
+            <DialogDescription>Link the deduction to a check-out finding so the evidence is on record if the tenant disputes it.</DialogDescription>
+          </DialogHeader>
+          <Form {...deductionForm}>
+            <form onSubmit={deductionForm.handleSubmit(onAddDeduction)} className="space-y-4">
+              <FormField control={deductionForm.control} name="inspectionId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Inspection</FormLabel>
+                  <Select onValueChange={(value) => { field.onChange(value); deductionForm.setValue('findingKey', NO_LINK); }} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_LINK}>No inspection</SelectItem>
+                      {inspectionOptions.map(i => (
+                        <SelectItem key={i.id} value={i.id}>{i.inspectionType || `${i.type || ''} Inspection`.trim()} – {formatDate(i.scheduledDate)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {selectedInspectionId !== NO_LINK && (
+                <FormField control={deductionForm.control} name="findingKey" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Finding</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        const finding = findings.find(f => f.key === value);
+                        if (finding && !deductionForm.getValues('description')) deductionForm.setValue('description', `${finding.section}: ${finding.label}`);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LINK}>Whole report</SelectItem>
+                        {findings.map(f => <SelectItem key={f.key} value={f.key}>{f.section} – {f.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{findings.length ? 'Items the inspection marked as failing.' : 'This inspection recorded no failed items.'}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={deductionForm.control} name="category" render={({ field }) => (
+                  <FormItem><FormLabel>Category</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(DEDUCTION_CATEGORY_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={deductionForm.control} name="amount" render={({ field }) => (
+                  <FormItem><FormLabel>Amount (£)</FormLabel><FormControl><Input type="number" step="0.01" {...field} value={field.value || ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={deductionForm.control} name="description" render={({ field }) => (
+                <FormItem><FormLabel>Description</FormLabel><FormControl><Textarea placeholder="e.g. Professional clean of oven and kitchen units" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Add Deduction</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'dispute'} onOpenChange={(open) => setDialog(open ? 'dispute' : null)}>
+        <DialogContent className="max-w-md text-left">
+          <DialogHeader>
+            <DialogTitle>Tenant Disputes Deductions</DialogTitle>
+            <DialogDescription>Record the dispute and, once raised with the scheme, its case reference.</DialogDescription>
+          </DialogHeader>
+          <Form {...disputeForm}>
+            <form onSubmit={disputeForm.handleSubmit(onDispute)} className="space-y-4">
+              <FormField control={disputeForm.control} name="tenantResponseDate" render={({ field }) => (
+                <FormItem><FormLabel>Date Disputed</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <FormField control={disputeForm.control} name="disputeReference" render={({ field }) => (
+                <FormItem><FormLabel>Scheme Dispute Reference</FormLabel><FormControl><Input placeholder="Optional" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Record Dispute</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === 'settle'} onOpenChange={(open) => setDialog(open ? 'settle' : null)}>
+        <DialogContent className="max-w-md text-left">
+          <DialogHeader>
+            <DialogTitle>Record Settlement</DialogTitle>
+            <DialogDescription>
+              {status === 'disputed' ? 'Enter the amounts awarded by the scheme\'s adjudicator.' : 'Confirm the amounts released from the deposit.'} The two amounts must add up to {formatPence(breakdown.depositPence)}.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...settlementForm}>
+            <form onSubmit={settlementForm.handleSubmit(onSettle)} className="space-y-4">
+              <FormField control={settlementForm.control} name="settledDate" render={({ field }) => (
+                <FormItem><FormLabel>Date Released</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={settlementForm.control} name="settledToTenant" render={({ field }) => (
+                  <FormItem><FormLabel>To Tenant (£)</FormLabel><FormControl><Input type="number" step="0.01" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={settlementForm.control} name="settledToLandlord" render={({ field }) => (
+                  <FormItem><FormLabel>To Landlord (£)</FormLabel><FormControl><Input type="number" step="0.01" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setDialog(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Mark Settled</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
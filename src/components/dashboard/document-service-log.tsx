@@ -0,0 +1,261 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUser, useFirestore, useCollection, useDoc, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { Loader2, Send, FileDown, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  SERVICE_EVENT_LABELS,
+  SERVICE_METHOD_LABELS,
+  recordService,
+  requiresProofOfService,
+  servedTenantIds,
+  sortServiceEvents,
+  type ServiceEvent,
+  type ServiceMethod,
+} from '@/lib/document-service';
+import { generateServiceCertificatePDF } from '@/lib/generate-service-pdf';
+
+const serviceSchema = z.object({
+  servedDate: z.string().min(1, 'Date of service is required.'),
+  method: z.enum(['portal', 'email', 'hand', 'post']),
+  tenantIds: z.array(z.string()).min(1, 'Select at least one tenant.'),
+  notes: z.string().optional(),
+});
+
+type ServiceFormValues = z.infer<typeof serviceSchema>;
+
+interface ServiceLogDocument {
+  id: string;
+  title: string;
+  propertyId: string;
+  documentType: string;
+  issueDate?: any;
+  expiryDate?: any;
+  version?: number;
+}
+
+/**
+ * Proof-of-service panel for a document: the landlord's record of serving it,
+ * the tenant portal receipts, and the certificate of service export.
+ */
+export function DocumentServiceLog({ document, propertyAddress }: { document: ServiceLogDocument; propertyAddress: string }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const profileRef = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return doc(firestore, 'users', user.uid);
+  }, [user, firestore]);
+  const { data: profile } = useDoc<any>(profileRef);
+
+  const eventsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'documentServices'), where('landlordId', '==', user.uid), where('documentId', '==', document.id));
+  }, [user, firestore, document.id]);
+  const { data: events, isLoading: isLoadingEvents } = useCollection<ServiceEvent>(eventsQuery);
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('propertyId', '==', document.propertyId));
+  }, [user, firestore, document.propertyId]);
+  const { data: tenants } = useCollection<any>(tenantsQuery);
+
+  const tenantOptions = React.useMemo(
+    () => [...(tenants || [])].sort((a, b) => Number(b.status === 'Active') - Number(a.status === 'Active') || (a.name || '').localeCompare(b.name || '')),
+    [tenants]
+  );
+
+  const sortedEvents = React.useMemo(() => sortServiceEvents(events || []).reverse(), [events]);
+  const unservedActive = React.useMemo(() => {
+    const served = servedTenantIds(events || []);
+    return tenantOptions.filter(t => t.status === 'Active' && !served.has(t.id));
+  }, [events, tenantOptions]);
+
+  const form = useForm<ServiceFormValues>({
+    resolver: zodResolver(serviceSchema),
+    defaultValues: { servedDate: '', method: 'email', tenantIds: [], notes: '' },
+  });
+
+  const openDialog = () => {
+    form.reset({
+      servedDate: format(new Date(), 'yyyy-MM-dd'),
+      method: 'email',
+      tenantIds: tenantOptions.filter(t => t.status === 'Active').map(t => t.id),
+      notes: '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (values: ServiceFormValues) => {
+    if (!user || !firestore) return;
+    setIsSubmitting(true);
+    try {
+      const served = tenantOptions.filter(t => values.tenantIds.includes(t.id)).map(t => ({ id: t.id, name: t.name || 'Unnamed tenant' }));
+      await recordService(firestore, user.uid, document, {
+        servedDate: values.servedDate,
+        method: values.method as ServiceMethod,
+        tenants: served,
+        notes: values.notes,
+      });
+      toast({ title: 'Service Recorded', description: `${document.title} served on ${served.map(t => t.name).join(', ')}.` });
+      setIsDialogOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The service record could not be saved.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCertificate = async () => {
+    setIsExporting(true);
+    try {
+      await generateServiceCertificatePDF(document, events || [], propertyAddress, profile?.displayName || user?.displayName || '');
+      toast({ title: 'Certificate of Service Generated' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const formatEventDate = (e: ServiceEvent) => {
+    const d = safeToDate(e.occurredAt);
+    if (!d) return '—';
+    return format(d, e.kind === 'served' ? 'dd/MM/yyyy' : 'dd/MM/yyyy HH:mm');
+  };
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden">
+      <CardHeader className="bg-muted/20 border-b">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-headline flex items-center gap-2"><Send className="h-5 w-5 text-primary" /> Proof of Service</CardTitle>
+            <CardDescription>When and how this document reached each tenant, including portal views and downloads.</CardDescription>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button variant="outline" size="sm" className="font-bold" onClick={handleCertificate} disabled={isExporting || isLoadingEvents}>
+              {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />} Certificate
+            </Button>
+            <Button size="sm" className="font-bold" onClick={openDialog}><Send className="mr-2 h-4 w-4" /> Record Service</Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {requiresProofOfService(document.documentType) && unservedActive.length > 0 && (
+          <div className="flex items-start gap-2 m-4 p-3 rounded-xl bg-amber-50 text-amber-800 text-xs border border-amber-200">
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+            <span>No evidence of service for {unservedActive.map(t => t.name).join(', ')}. A {document.documentType} must be served before relying on a Section 21 notice.</span>
+          </div>
+        )}
+        {isLoadingEvents ? (
+          <div className="flex h-24 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : !sortedEvents.length ? (
+          <p className="text-sm text-muted-foreground italic text-center py-8">No service recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader className="bg-muted/30">
+              <TableRow>
+                <TableHead className="pl-6 font-bold uppercase text-[10px] tracking-widest">Date</TableHead>
+                <TableHead className="font-bold uppercase text-[10px] tracking-widest">Event</TableHead>
+                <TableHead className="font-bold uppercase text-[10px] tracking-widest">Method</TableHead>
+                <TableHead className="pr-6 font-bold uppercase text-[10px] tracking-widest">Tenants</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedEvents.map(e => (
+                <TableRow key={e.id}>
+                  <TableCell className="pl-6 tabular-nums text-sm">{formatEventDate(e)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={cn('text-[9px] font-bold uppercase', e.kind === 'served' && 'bg-green-50 text-green-700 border-green-200')}>{SERVICE_EVENT_LABELS[e.kind]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{SERVICE_METHOD_LABELS[e.method] || e.method}</TableCell>
+                  <TableCell className="pr-6 text-sm">
+                    {(e.tenantNames || []).join(', ')}
+                    {e.notes && <p className="text-[10px] text-muted-foreground">{e.notes}</p>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg text-left">
+          <DialogHeader>
+            <DialogTitle>Record Service</DialogTitle>
+            <DialogDescription>Log how {document.title} was given to the tenants.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="servedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date Served</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="method" render={({ field }) => (
+                  <FormItem><FormLabel>Method</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(SERVICE_METHOD_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="tenantIds" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Served On</FormLabel>
+                  <div className="space-y-2 rounded-xl border p-3 max-h-48 overflow-y-auto">
+                    {!tenantOptions.length && <p className="text-xs text-muted-foreground italic">No tenants recorded for this property.</p>}
+                    {tenantOptions.map(t => (
+                      <label key={t.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={field.value.includes(t.id)}
+                          onCheckedChange={(checked) => field.onChange(checked ? [...field.value, t.id] : field.value.filter(id => id !== t.id))}
+                        />
+                        <span className="font-medium">{t.name || 'Unnamed tenant'}</span>
+                        {t.status !== 'Active' && <Badge variant="secondary" className="text-[9px] uppercase">{t.status || 'Past'}</Badge>}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={form.control} name="notes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea placeholder="e.g. Sent to tenant's email address on the tenancy agreement; posted to the property." {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Record</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,432 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where, limit } from 'firebase/firestore';
+import { Loader2, Zap, Edit, Plus, Trash2, Wrench, FileCheck, CheckCircle2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { formatDateForInput, safeToDate } from '@/lib/date-utils';
+import { currentDocuments } from '@/lib/document-versions';
+import {
+  EICR_CODE_LABELS,
+  EICR_OUTCOME_LABELS,
+  EICR_REMEDIAL_DAYS,
+  REMEDIAL_STATUS_LABELS,
+  eicrOutcomeFor,
+  newObservationId,
+  outstandingRemedials,
+  raiseRemedialRepair,
+  remedialDeadline,
+  remedialStatus,
+  requiresRemedial,
+  saveEicrResults,
+  type EicrCode,
+  type EicrObservation,
+  type EicrResults,
+  type RemedialStatus,
+} from '@/lib/eicr';
+
+const CODE_STYLES: Record<EicrCode, string> = {
+  C1: 'bg-destructive/10 text-destructive border-destructive/30',
+  C2: 'bg-orange-50 text-orange-700 border-orange-200',
+  FI: 'bg-amber-50 text-amber-700 border-amber-200',
+  C3: 'bg-muted text-muted-foreground',
+};
+
+const REMEDIAL_STYLES: Record<RemedialStatus, string> = {
+  not_required: 'bg-muted text-muted-foreground',
+  outstanding: 'bg-amber-50 text-amber-700 border-amber-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  completed: 'bg-green-50 text-green-700 border-green-200',
+  completed_late: 'bg-orange-50 text-orange-700 border-orange-200',
+};
+
+const NO_DOCUMENT = 'none';
+
+const resultsSchema = z.object({
+  inspectionDate: z.string().min(1, 'Enter the date of the inspection.'),
+  outcome: z.enum(['satisfactory', 'unsatisfactory']),
+  observations: z.array(z.object({
+    id: z.string(),
+    code: z.enum(['C1', 'C2', 'C3', 'FI']),
+    itemNumber: z.string().optional(),
+    location: z.string().optional(),
+    description: z.string().min(1, 'Describe the observation.'),
+  })),
+});
+
+type ResultsFormValues = z.infer<typeof resultsSchema>;
+
+const completionSchema = z.object({
+  completedDate: z.string().min(1, 'Enter the date the work was completed.'),
+  evidenceDocumentId: z.string(),
+  evidenceNotes: z.string().optional(),
+});
+
+type CompletionFormValues = z.infer<typeof completionSchema>;
+
+interface EicrDocumentRecord {
+  id: string;
+  propertyId: string;
+  title: string;
+  issueDate?: any;
+  eicr?: EicrResults;
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+/**
+ * Structured results of an EICR: the overall outcome, each coded observation
+ * with its 28-day remedial deadline, the repair raised for it and the evidence
+ * that the work was completed.
+ */
+export function EicrResultsCard({ document }: { document: EicrDocumentRecord }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isResultsOpen, setIsResultsOpen] = React.useState(false);
+  const [completing, setCompleting] = React.useState<EicrObservation | null>(null);
+  const [raisingId, setRaisingId] = React.useState<string | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const results = document.eicr;
+  const inspected = safeToDate(results?.inspectionDate);
+  const deadline = inspected ? remedialDeadline(inspected) : null;
+  const outstanding = outstandingRemedials(results);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), where('eicrDocumentId', '==', document.id));
+  }, [user, firestore, document.id]);
+  const { data: repairs } = useCollection<{ id: string; status: string }>(repairsQuery);
+  const repairStatus = (id?: string) => repairs?.find(r => r.id === id)?.status;
+
+  const docsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'documents'), where('landlordId', '==', user.uid), where('propertyId', '==', document.propertyId), limit(200));
+  }, [user, firestore, document.propertyId]);
+  const { data: rawDocuments } = useCollection(docsQuery);
+  const evidenceOptions = React.useMemo(() => currentDocuments((rawDocuments || []) as any[]).filter(d => d.id !== document.id), [rawDocuments, document.id]);
+  const documentTitle = (id?: string) => evidenceOptions.find(d => d.id === id)?.title;
+
+  const resultsForm = useForm<ResultsFormValues>({
+    resolver: zodResolver(resultsSchema),
+    defaultValues: { inspectionDate: '', outcome: 'satisfactory', observations: [] },
+  });
+  const { fields: observationFields, append: appendObservation, remove: removeObservation } = useFieldArray({ control: resultsForm.control, name: 'observations' });
+  const watchedCodes = (resultsForm.watch('observations') || []).map(o => o.code).join(',');
+
+  // The outcome follows the codes as they are entered; it can still be changed afterwards
+  React.useEffect(() => {
+    if (!isResultsOpen) return;
+    const codes = watchedCodes ? (watchedCodes.split(',') as EicrCode[]) : [];
+    resultsForm.setValue('outcome', eicrOutcomeFor(codes.map(code => ({ code }))));
+  }, [isResultsOpen, watchedCodes, resultsForm]);
+
+  const completionForm = useForm<CompletionFormValues>({
+    resolver: zodResolver(completionSchema),
+    defaultValues: { completedDate: '', evidenceDocumentId: NO_DOCUMENT, evidenceNotes: '' },
+  });
+
+  const openResults = () => {
+    resultsForm.reset({
+      inspectionDate: results?.inspectionDate || formatDateForInput(document.issueDate),
+      outcome: results?.outcome || 'satisfactory',
+      observations: (results?.observations || []).map(o => ({
+        id: o.id,
+        code: o.code,
+        itemNumber: o.itemNumber || '',
+        location: o.location || '',
+        description: o.description,
+      })),
+    });
+    setIsResultsOpen(true);
+  };
+
+  const openCompletion = (observation: EicrObservation) => {
+    completionForm.reset({
+      completedDate: observation.completedDate || format(new Date(), 'yyyy-MM-dd'),
+      evidenceDocumentId: observation.evidenceDocumentId || NO_DOCUMENT,
+      evidenceNotes: observation.evidenceNotes || '',
+    });
+    setCompleting(observation);
+  };
+
+  const onSaveResults = async (values: ResultsFormValues) => {
+    if (!firestore) return;
+    setIsSaving(true);
+    try {
+      // Repairs and completion already recorded against an observation are kept
+      const existing = new Map((results?.observations || []).map(o => [o.id, o]));
+      await saveEicrResults(firestore, document.id, {
+        inspectionDate: values.inspectionDate,
+        outcome: values.outcome,
+        observations: values.observations.map(o => ({
+          ...existing.get(o.id),
+          id: o.id,
+          code: o.code,
+          itemNumber: o.itemNumber?.trim() || undefined,
+          location: o.location?.trim() || undefined,
+          description: o.description.trim(),
+        })),
+      });
+      toast({ title: 'EICR Results Saved' });
+      setIsResultsOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The EICR results could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSaveCompletion = async (values: CompletionFormValues) => {
+    if (!firestore || !results || !completing) return;
+    setIsSaving(true);
+    try {
+      const { updatedDate, ...rest } = results;
+      await saveEicrResults(firestore, document.id, {
+        ...rest,
+        observations: results.observations.map(o => o.id !== completing.id ? o : {
+          ...o,
+          completedDate: values.completedDate,
+          evidenceDocumentId: values.evidenceDocumentId === NO_DOCUMENT ? undefined : values.evidenceDocumentId,
+          evidenceNotes: values.evidenceNotes?.trim() || undefined,
+        }),
+      });
+      toast({ title: 'Completion Recorded' });
+      setCompleting(null);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The completion could not be recorded.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRaiseRepair = async (observation: EicrObservation) => {
+    if (!firestore || !user || !results) return;
+    setRaisingId(observation.id);
+    try {
+      await raiseRemedialRepair(firestore, user.uid, { ...document, eicr: results }, observation.id);
+      toast({ title: 'Repair Raised', description: `Logged as ${observation.code === 'C1' ? 'an emergency' : 'an urgent'} electrical repair.` });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Repair Failed', description: 'The repair could not be raised.' });
+    } finally {
+      setRaisingId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-none overflow-hidden text-left">
+      <CardHeader className="bg-primary/5 border-b">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg font-headline flex items-center gap-2"><Zap className="h-5 w-5 text-primary" /> EICR Results</CardTitle>
+          <Button variant="ghost" size="sm" className="h-8 text-[10px] font-bold uppercase" onClick={openResults}><Edit className="mr-1 h-3.5 w-3.5" /> {results ? 'Edit' : 'Add Results'}</Button>
+        </div>
+        <CardDescription className="text-xs">
+          {results
+            ? `Inspected ${formatDate(results.inspectionDate)} · ${results.observations.length} observation(s)`
+            : 'Record the outcome and coded observations from the report.'}
+        </CardDescription>
+      </CardHeader>
+      {results && (
+        <CardContent className="space-y-4 pt-6">
+          <div className="flex flex-wrap items-center gap-3">
+            <Badge
+              variant="outline"
+              className={cn('text-[10px] font-bold uppercase', results.outcome === 'satisfactory' ? 'bg-green-50 text-green-700 border-green-200' : 'bg-destructive/10 text-destructive border-destructive/30')}
+            >
+              {EICR_OUTCOME_LABELS[results.outcome]}
+            </Badge>
+            {deadline && results.observations.some(o => requiresRemedial(o.code)) && (
+              <p className="text-xs text-muted-foreground">
+                Remedial work due by <span className="font-bold text-foreground">{format(deadline, 'dd/MM/yyyy')}</span>
+                {outstanding.length > 0 && <> · <span className="font-bold text-amber-700">{outstanding.length} outstanding</span></>}
+              </p>
+            )}
+          </div>
+
+          {results.observations.length === 0 ? (
+            <p className="text-xs text-muted-foreground italic">No observations recorded.</p>
+          ) : (
+            results.observations.map(o => {
+              const status = remedialStatus(o, results.inspectionDate);
+              return (
+                <div key={o.id} className="rounded-xl border bg-background p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className={cn('text-[9px] font-bold', CODE_STYLES[o.code])} title={EICR_CODE_LABELS[o.code]}>{o.code}</Badge>
+                        {o.itemNumber && <span className="text-[10px] font-bold text-muted-foreground">Item {o.itemNumber}</span>}
+                        {o.location && <span className="text-[10px] text-muted-foreground">{o.location}</span>}
+                      </div>
+                      <p className="text-xs leading-snug">{o.description}</p>
+                    </div>
+                    <Badge variant="outline" className={cn('text-[9px] font-bold uppercase shrink-0', REMEDIAL_STYLES[status])}>{REMEDIAL_STATUS_LABELS[status]}</Badge>
+                  </div>
+                  {requiresRemedial(o.code) && (
+                    <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                      {o.repairId ? (
+                        <Link href={`/dashboard/maintenance/${o.repairId}?propertyId=${document.propertyId}`} className="font-bold text-primary hover:underline flex items-center gap-1">
+                          <Wrench className="h-3 w-3" /> Repair{repairStatus(o.repairId) ? ` · ${repairStatus(o.repairId)}` : ''}
+                        </Link>
+                      ) : (
+                        <Button variant="outline" size="sm" className="h-7 text-[10px] font-bold uppercase" disabled={raisingId === o.id} onClick={() => handleRaiseRepair(o)}>
+                          {raisingId === o.id ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Wrench className="mr-1 h-3 w-3" />} Raise Repair
+                        </Button>
+                      )}
+                      {o.completedDate && <span className="text-muted-foreground flex items-center gap-1"><CheckCircle2 className="h-3 w-3" /> Completed {formatDate(o.completedDate)}</span>}
+                      {o.evidenceDocumentId && (
+                        <Link href={`/dashboard/documents/${o.evidenceDocumentId}`} className="font-bold text-primary hover:underline flex items-center gap-1">
+                          <FileCheck className="h-3 w-3" /> {documentTitle(o.evidenceDocumentId) || 'Evidence document'}
+                        </Link>
+                      )}
+                      <Button variant="ghost" size="sm" className="h-7 text-[10px] font-bold uppercase ml-auto" onClick={() => openCompletion(o)}>
+                        {o.completedDate ? 'Edit Completion' : 'Record Completion'}
+                      </Button>
+                    </div>
+                  )}
+                  {o.evidenceNotes && <p className="text-[10px] text-muted-foreground">{o.evidenceNotes}</p>}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      )}
+
+      <Dialog open={isResultsOpen} onOpenChange={setIsResultsOpen}>
+        <DialogContent className="max-w-3xl text-left max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>EICR Results</DialogTitle>
+            <DialogDescription>
+              Enter each observation from the report. C1, C2 and FI items make the report unsatisfactory and must be put right or investigated within {EICR_REMEDIAL_DAYS} days of the inspection.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...resultsForm}>
+            <form onSubmit={resultsForm.handleSubmit(onSaveResults)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={resultsForm.control} name="inspectionDate" render={({ field }) => (
+                  <FormItem><FormLabel>Inspection Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={resultsForm.control} name="outcome" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Overall Outcome</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>{(['satisfactory', 'unsatisfactory'] as const).map(v => <SelectItem key={v} value={v}>{EICR_OUTCOME_LABELS[v]}</SelectItem>)}</SelectContent>
+                    </Select>
+                    <FormDescription className="text-xs">Set from the codes entered.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Observations</FormLabel>
+                  <Button type="button" variant="outline" size="sm" onClick={() => appendObservation({ id: newObservationId(), code: 'C2', itemNumber: '', location: '', description: '' })}><Plus className="mr-1 h-3.5 w-3.5" /> Add</Button>
+                </div>
+                {observationFields.length > 0 && (
+                  <div className="grid grid-cols-[90px_70px_1fr_2fr_auto] gap-2 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                    <span>Code</span><span>Item</span><span>Location</span><span>Observation</span><span />
+                  </div>
+                )}
+                {observationFields.map((f, index) => (
+                  <div key={f.id} className="grid grid-cols-[90px_70px_1fr_2fr_auto] gap-2 items-start">
+                    <FormField control={resultsForm.control} name={`observations.${index}.code`} render={({ field }) => (
+                      <FormItem>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                          <SelectContent>{(Object.keys(EICR_CODE_LABELS) as EicrCode[]).map(c => <SelectItem key={c} value={c}>{EICR_CODE_LABELS[c]}</SelectItem>)}</SelectContent>
+                        </Select>
+                      </FormItem>
+                    )} />
+                    <FormField control={resultsForm.control} name={`observations.${index}.itemNumber`} render={({ field }) => (
+                      <FormItem><FormControl><Input placeholder="4.3" {...field} /></FormControl></FormItem>
+                    )} />
+                    <FormField control={resultsForm.control} name={`observations.${index}.location`} render={({ field }) => (
+                      <FormItem><FormControl><Input placeholder="e.g. Kitchen" {...field} /></FormControl></FormItem>
+                    )} />
+                    <FormField control={resultsForm.control} name={`observations.${index}.description`} render={({ field }) => (
+                      <FormItem><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeObservation(index)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                  </div>
+                ))}
+              </div>
+
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsResultsOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Results</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!completing} onOpenChange={open => !open && setCompleting(null)}>
+        <DialogContent className="text-left">
+          <DialogHeader>
+            <DialogTitle>Remedial Work Completed</DialogTitle>
+            <DialogDescription>{completing && `${completing.code}: ${completing.description}`}</DialogDescription>
+          </DialogHeader>
+          <Form {...completionForm}>
+            <form onSubmit={completionForm.handleSubmit(onSaveCompletion)} className="space-y-4">
+              <FormField control={completionForm.control} name="completedDate" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date Completed</FormLabel>
+                  <FormControl><Input type="date" {...field} /></FormControl>
+                  {deadline && <FormDescription className="text-xs">Due by {format(deadline, 'dd/MM/yyyy')}.</FormDescription>}
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={completionForm.control} name="evidenceDocumentId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Evidence Document</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent><SelectItem value={NO_DOCUMENT}>No document</SelectItem>{evidenceOptions.map(d => <SelectItem key={d.id} value={d.id}>{d.title} ({d.documentType})</SelectItem>)}</SelectContent>
+                  </Select>
+                  <FormDescription className="text-xs">Upload the contractor&apos;s certificate or invoice to the property first.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              <FormField control={completionForm.control} name="evidenceNotes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea rows={3} placeholder="e.g. Minor works certificate issued by the electrician" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setCompleting(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
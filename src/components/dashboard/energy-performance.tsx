@@ -0,0 +1,305 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useFirestore } from '@/firebase';
+import { Loader2, Leaf, Edit, Plus, Trash2, FileUp, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { formatPence } from '@/lib/money';
+import { EPC_RATINGS, type EpcRating } from '@/lib/compliance-rules';
+import {
+  MEES_STATUS_LABELS,
+  PROPOSED_2030_EPC_RATING,
+  assessMees,
+  currentEpcRating,
+  epcExpiryDate,
+  parseIndicativeCost,
+  ratingForScore,
+  saveEpcData,
+  type MeesStatus,
+  type PropertyEpc,
+} from '@/lib/epc';
+
+/** Register band colours, A to G. */
+const RATING_STYLES: Record<EpcRating, string> = {
+  A: 'bg-[#008054] text-white',
+  B: 'bg-[#19b459] text-white',
+  C: 'bg-[#8dce46] text-black',
+  D: 'bg-[#ffd500] text-black',
+  E: 'bg-[#fcaa65] text-black',
+  F: 'bg-[#ef8023] text-white',
+  G: 'bg-[#e9153b] text-white',
+};
+
+const MEES_STYLES: Record<MeesStatus, string> = {
+  not_applicable: 'bg-muted text-muted-foreground',
+  unknown: 'bg-muted text-muted-foreground',
+  below_minimum: 'bg-destructive/10 text-destructive border-destructive/30',
+  below_2030: 'bg-amber-50 text-amber-700 border-amber-200',
+  meets_2030: 'bg-green-50 text-green-700 border-green-200',
+};
+
+export function EpcRatingBadge({ rating, score, className }: { rating?: EpcRating; score?: number; className?: string }) {
+  if (!rating) return null;
+  return (
+    <span className={cn('inline-flex items-center gap-1 rounded-md px-2 py-0.5 text-[10px] font-black uppercase tracking-wider shadow-sm', RATING_STYLES[rating], className)}>
+      EPC {rating}{score ? ` ${score}` : ''}
+    </span>
+  );
+}
+
+const epcSchema = z.object({
+  currentRating: z.enum(EPC_RATINGS),
+  // Blank scores coerce to 0, which is treated as not recorded
+  currentScore: z.coerce.number().int().min(0).max(150).optional(),
+  potentialRating: z.enum(EPC_RATINGS).optional(),
+  potentialScore: z.coerce.number().int().min(0).max(150).optional(),
+  certificateNumber: z.string().optional(),
+  lodgementDate: z.string().optional(),
+  recommendations: z.array(z.object({
+    improvement: z.string().min(1, 'Describe the measure.'),
+    indicativeCost: z.string().optional(),
+    ratingAfter: z.enum(EPC_RATINGS).optional(),
+  })),
+});
+
+type EpcFormValues = z.infer<typeof epcSchema>;
+
+interface EpcProperty {
+  id: string;
+  address?: { postcode?: string };
+  epcRating?: EpcRating;
+  epc?: PropertyEpc;
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+/**
+ * Structured EPC for a property with its minimum-standard position today and
+ * against the proposed 2030 target, and the recommended measures with costs.
+ */
+export function PropertyEpcCard({ property }: { property: EpcProperty }) {
+  const firestore = useFirestore();
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const epc = property.epc;
+  const rating = currentEpcRating(property);
+  const mees = React.useMemo(() => assessMees(property), [property]);
+
+  const form = useForm<EpcFormValues>({
+    resolver: zodResolver(epcSchema),
+    defaultValues: { currentRating: 'D', recommendations: [] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: 'recommendations' });
+
+  const openDialog = () => {
+    form.reset({
+      currentRating: epc?.currentRating || property.epcRating || 'D',
+      currentScore: epc?.currentScore,
+      potentialRating: epc?.potentialRating,
+      potentialScore: epc?.potentialScore,
+      certificateNumber: epc?.certificateNumber || '',
+      lodgementDate: epc?.lodgementDate || '',
+      recommendations: (epc?.recommendations || []).map(r => ({ improvement: r.improvement, indicativeCost: r.indicativeCost || '', ratingAfter: r.ratingAfter })),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (values: EpcFormValues) => {
+    if (!firestore) return;
+    setIsSaving(true);
+    try {
+      const lodged = safeToDate(values.lodgementDate);
+      await saveEpcData(firestore, property.id, {
+        currentRating: values.currentScore ? ratingForScore(values.currentScore) : values.currentRating,
+        currentScore: values.currentScore || undefined,
+        potentialRating: values.potentialScore ? ratingForScore(values.potentialScore) : values.potentialRating,
+        potentialScore: values.potentialScore || undefined,
+        certificateNumber: values.certificateNumber?.trim() || undefined,
+        lodgementDate: values.lodgementDate || undefined,
+        expiryDate: lodged ? format(epcExpiryDate(lodged), 'yyyy-MM-dd') : undefined,
+        recommendations: values.recommendations.map((r, i) => {
+          const cost = parseIndicativeCost(r.indicativeCost);
+          return {
+            item: i + 1,
+            improvement: r.improvement,
+            indicativeCost: r.indicativeCost || undefined,
+            costLowPence: cost?.low,
+            costHighPence: cost?.high,
+            ratingAfter: r.ratingAfter,
+          };
+        }),
+        source: 'manual',
+      });
+      toast({ title: 'EPC Updated' });
+      setIsDialogOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The EPC details could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden bg-muted/5 text-left">
+      <CardHeader className="pb-4 bg-muted/20 border-b">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="font-headline text-lg flex items-center gap-2"><Leaf className="h-5 w-5 text-primary" /> Energy Performance</CardTitle>
+          <Button variant="ghost" size="sm" className="h-8 text-[10px] font-bold uppercase" onClick={openDialog}><Edit className="mr-1 h-3.5 w-3.5" /> {epc ? 'Edit' : 'Add'}</Button>
+        </div>
+        <CardDescription className="text-xs">
+          {epc?.certificateNumber ? `Certificate ${epc.certificateNumber}` : 'No certificate details recorded.'}
+          {epc?.source === 'register' && ' · From the EPC register'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-4">
+        <div className="flex items-center gap-4">
+          <div className="text-center">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground mb-1">Current</p>
+            {rating ? <EpcRatingBadge rating={rating} score={epc?.currentScore} className="text-sm px-3 py-1" /> : <span className="text-sm font-bold text-muted-foreground">—</span>}
+          </div>
+          <div className="text-center">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground mb-1">Potential</p>
+            {epc?.potentialRating ? <EpcRatingBadge rating={epc.potentialRating} score={epc.potentialScore} className="text-sm px-3 py-1" /> : <span className="text-sm font-bold text-muted-foreground">—</span>}
+          </div>
+          <div className="ml-auto text-right text-[10px] font-bold uppercase tracking-widest text-muted-foreground space-y-1">
+            <p>Lodged {formatDate(epc?.lodgementDate)}</p>
+            <p>Expires {formatDate(epc?.expiryDate)}</p>
+          </div>
+        </div>
+
+        <div className={cn('rounded-xl border p-3 space-y-1', MEES_STYLES[mees.status])}>
+          <p className="text-xs font-bold uppercase tracking-widest">{MEES_STATUS_LABELS[mees.status]}</p>
+          <p className="text-xs leading-snug">{mees.detail}</p>
+          {mees.upgrade && (
+            <p className="text-xs leading-snug">
+              {mees.upgrade.reachesTarget
+                ? `Estimated ${formatPence(mees.upgrade.costLowPence)} – ${formatPence(mees.upgrade.costHighPence)} to reach ${mees.upgrade.target} (${mees.upgrade.measures.length} measure${mees.upgrade.measures.length === 1 ? '' : 's'}${mees.upgrade.stepped ? '' : ', all recommendations'}).`
+                : `The recommended measures (${formatPence(mees.upgrade.costLowPence)} – ${formatPence(mees.upgrade.costHighPence)}) are not expected to reach ${mees.upgrade.target}.`}
+            </p>
+          )}
+          {mees.exceedsCostCap && (
+            <p className="text-xs font-bold flex items-center gap-1"><AlertTriangle className="h-3.5 w-3.5" /> Costs exceed the spending cap; an exemption may be available.</p>
+          )}
+        </div>
+
+        {!!epc?.recommendations?.length && (
+          <div className="rounded-xl border overflow-hidden bg-background">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Recommended Measure</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Indicative Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {epc.recommendations.map(r => (
+                  <TableRow key={r.item}>
+                    <TableCell className="text-xs">
+                      {r.improvement}
+                      {r.ratingAfter && <span className="ml-2 text-[10px] font-bold text-muted-foreground">→ {r.ratingAfter}</span>}
+                    </TableCell>
+                    <TableCell className="text-xs text-right tabular-nums">{r.indicativeCost || '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {!epc && (
+          <Button variant="outline" size="sm" asChild className="w-full font-bold text-[10px] uppercase tracking-widest">
+            <Link href="/dashboard/properties/epc-import"><FileUp className="mr-2 h-4 w-4" /> Import from EPC Register CSV</Link>
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl text-left max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Energy Performance Certificate</DialogTitle>
+            <DialogDescription>Enter the details as shown on the certificate. A score sets the rating automatically.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <FormField control={form.control} name="currentRating" render={({ field }) => (
+                  <FormItem><FormLabel>Current Rating</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{EPC_RATINGS.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="currentScore" render={({ field }) => (
+                  <FormItem><FormLabel>Current Score</FormLabel><FormControl><Input type="number" inputMode="numeric" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="potentialRating" render={({ field }) => (
+                  <FormItem><FormLabel>Potential Rating</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="—" /></SelectTrigger></FormControl><SelectContent>{EPC_RATINGS.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="potentialScore" render={({ field }) => (
+                  <FormItem><FormLabel>Potential Score</FormLabel><FormControl><Input type="number" inputMode="numeric" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="certificateNumber" render={({ field }) => (
+                  <FormItem><FormLabel>Certificate Number</FormLabel><FormControl><Input placeholder="0000-0000-0000-0000-0000" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="lodgementDate" render={({ field }) => (
+                  <FormItem><FormLabel>Lodgement Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormDescription className="text-xs">Expires ten years after lodgement.</FormDescription><FormMessage /></FormItem>
+                )} />
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Recommended Measures</FormLabel>
+                  <Button type="button" variant="outline" size="sm" onClick={() => append({ improvement: '', indicativeCost: '', ratingAfter: undefined })}><Plus className="mr-1 h-3.5 w-3.5" /> Add</Button>
+                </div>
+                {!fields.length && <p className="text-xs text-muted-foreground italic">No recommendations recorded. They are used to estimate the cost of reaching {PROPOSED_2030_EPC_RATING}.</p>}
+                {fields.map((f, index) => (
+                  <div key={f.id} className="grid grid-cols-[1fr_140px_80px_auto] gap-2 items-start">
+                    <FormField control={form.control} name={`recommendations.${index}.improvement`} render={({ field }) => (
+                      <FormItem><FormControl><Input placeholder="e.g. Cavity wall insulation" {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={form.control} name={`recommendations.${index}.indicativeCost`} render={({ field }) => (
+                      <FormItem><FormControl><Input placeholder="£500 - £1,500" {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={form.control} name={`recommendations.${index}.ratingAfter`} render={({ field }) => (
+                      <FormItem><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="After" /></SelectTrigger></FormControl><SelectContent>{EPC_RATINGS.map(r => <SelectItem key={r} value={r}>{r}</SelectItem>)}</SelectContent></Select></FormItem>
+                    )} />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => remove(index)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                  </div>
+                ))}
+              </div>
+
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save EPC</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
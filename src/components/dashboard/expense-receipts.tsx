@@ -0,0 +1,96 @@
+'use client';
+
+import * as React from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { FileText, Paperclip, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { MAX_RECEIPT_BYTES, RECEIPT_ACCEPT, isImageReceipt, type ExpenseReceipt } from '@/lib/receipts';
+
+/** Clickable thumbnails for stored receipts; PDFs show a document tile. */
+export function ReceiptThumbnails({
+  receipts,
+  onRemove,
+  size = 'md',
+}: {
+  receipts?: ExpenseReceipt[];
+  onRemove?: (receipt: ExpenseReceipt) => void;
+  size?: 'sm' | 'md';
+}) {
+  if (!receipts?.length) return null;
+  const box = size === 'sm' ? 'h-9 w-9 rounded-md' : 'h-20 w-20 rounded-xl';
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {receipts.map(r => (
+        <div key={r.url} className={cn('relative group border bg-muted/20 overflow-hidden shrink-0', box)} title={r.fileName}>
+          <a href={r.url} target="_blank" rel="noopener noreferrer" className="absolute inset-0 flex items-center justify-center">
+            {isImageReceipt(r) ? (
+              <Image src={r.url} alt={r.fileName} fill className="object-cover" unoptimized />
+            ) : (
+              <FileText className={cn('text-primary', size === 'sm' ? 'h-4 w-4' : 'h-8 w-8')} />
+            )}
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(r)}
+              className="absolute top-0.5 right-0.5 h-5 w-5 rounded-full bg-background/90 border flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** File picker for receipts not yet uploaded. Rejects anything over the size limit. */
+export function ReceiptFileInput({
+  files,
+  onChange,
+  onAdded,
+  disabled,
+}: {
+  files: File[];
+  onChange: (files: File[]) => void;
+  /** Called with newly chosen files, e.g. to read invoice details from a PDF. */
+  onAdded?: (files: File[]) => void;
+  disabled?: boolean;
+}) {
+  const inputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleFiles = (list: FileList | null) => {
+    const chosen = Array.from(list || []);
+    const accepted = chosen.filter(f => f.size <= MAX_RECEIPT_BYTES && (f.type.startsWith('image/') || f.type === 'application/pdf' || /\.pdf$/i.test(f.name)));
+    if (accepted.length < chosen.length) {
+      toast({ variant: 'destructive', title: 'Some Files Skipped', description: 'Receipts must be images or PDFs under 10MB.' });
+    }
+    if (accepted.length) {
+      onChange([...files, ...accepted]);
+      onAdded?.(accepted);
+    }
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="outline" className="rounded-xl border-2 border-dashed h-12 w-full font-bold" disabled={disabled} onClick={() => inputRef.current?.click()}>
+        <Paperclip className="mr-2 h-4 w-4" /> Attach Receipts or Invoices
+      </Button>
+      <input ref={inputRef} type="file" className="hidden" multiple accept={RECEIPT_ACCEPT} onChange={(e) => handleFiles(e.target.files)} />
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((f, i) => (
+            <li key={`${f.name}-${i}`} className="flex items-center justify-between gap-2 text-sm bg-muted/20 rounded-lg px-3 py-2">
+              <span className="flex items-center gap-2 truncate"><FileText className="h-4 w-4 text-primary shrink-0" />{f.name}</span>
+              <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => onChange(files.filter((_, j) => j !== i))}><X className="h-3 w-3" /></Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
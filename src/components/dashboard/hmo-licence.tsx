@@ -0,0 +1,554 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where, limit } from 'firebase/firestore';
+import { Loader2, Home, Edit, Plus, Trash2, AlertTriangle, Ruler, FileCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import { currentDocuments } from '@/lib/document-versions';
+import {
+  HMO_CONDITION_STATUS_LABELS,
+  MANDATORY_LICENCE_CONDITIONS,
+  MIN_CEILING_HEIGHT_M,
+  NATIONAL_MIN_ROOM_SIZES,
+  ROOM_CHECK_STATUS_LABELS,
+  checkRoom,
+  conditionsNeedingEvidence,
+  hmoLicenceExpiry,
+  hmoLicenceStatus,
+  newHmoId,
+  occupancyWarnings,
+  registeredSleepers,
+  saveHmoLicence,
+  saveHmoRooms,
+  type HmoConditionStatus,
+  type HmoLicence,
+  type HmoLicenceCondition,
+  type HmoLicenceStatus,
+  type HmoRoom,
+  type RoomCheckStatus,
+} from '@/lib/hmo-licence';
+
+const LICENCE_STATUS_STYLES: Record<HmoLicenceStatus, string> = {
+  current: 'bg-green-50 text-green-700 border-green-200',
+  expiring: 'bg-amber-50 text-amber-700 border-amber-200',
+  expired: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+const LICENCE_STATUS_LABELS: Record<HmoLicenceStatus, string> = {
+  current: 'Current',
+  expiring: 'Renewal Due',
+  expired: 'Expired',
+};
+
+const CONDITION_STYLES: Record<HmoConditionStatus, string> = {
+  met: 'bg-green-50 text-green-700 border-green-200',
+  outstanding: 'bg-amber-50 text-amber-700 border-amber-200',
+  not_applicable: 'bg-muted text-muted-foreground',
+};
+
+const ROOM_STYLES: Record<RoomCheckStatus, string> = {
+  ok: 'bg-green-50 text-green-700 border-green-200',
+  undersized: 'bg-destructive/10 text-destructive border-destructive/30',
+  over_capacity: 'bg-destructive/10 text-destructive border-destructive/30',
+  not_sleeping: 'bg-muted text-muted-foreground',
+};
+
+const NO_DOCUMENT = 'none';
+
+const licenceSchema = z.object({
+  licenceNumber: z.string().min(1, 'Enter the licence number.'),
+  issuingCouncil: z.string().min(1, 'Enter the council that issued the licence.'),
+  issueDate: z.string().optional(),
+  expiryDate: z.string().optional(),
+  maxOccupants: z.coerce.number().int().min(1, 'At least one occupant.'),
+  maxHouseholds: z.coerce.number().int().min(1, 'At least one household.'),
+  // Blank sizes coerce to 0, which means the national minimum applies
+  minSingleRoomM2: z.coerce.number().min(0).optional(),
+  minDoubleRoomM2: z.coerce.number().min(0).optional(),
+  conditions: z.array(z.object({
+    id: z.string(),
+    description: z.string().min(1, 'Describe the condition.'),
+  })),
+}).refine(v => !!v.expiryDate || !!v.issueDate, {
+  message: 'Enter the expiry date, or the issue date to assume five years.',
+  path: ['expiryDate'],
+});
+
+type LicenceFormValues = z.infer<typeof licenceSchema>;
+
+const evidenceSchema = z.object({
+  status: z.enum(['met', 'outstanding', 'not_applicable']),
+  evidenceDocumentId: z.string(),
+  evidenceNotes: z.string().optional(),
+});
+
+type EvidenceFormValues = z.infer<typeof evidenceSchema>;
+
+const roomsSchema = z.object({
+  rooms: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(1, 'Name the room.'),
+    floorAreaM2: z.coerce.number().positive('Enter the measured area.'),
+    lowCeilingAreaM2: z.coerce.number().min(0).optional(),
+    occupantsOver10: z.coerce.number().int().min(0),
+    occupantsUnder10: z.coerce.number().int().min(0),
+  })),
+});
+
+type RoomsFormValues = z.infer<typeof roomsSchema>;
+
+interface HmoProperty {
+  id: string;
+  hmoLicence?: HmoLicence;
+  hmoRooms?: HmoRoom[];
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+/**
+ * HMO licence for a property: its occupancy limits against the tenants
+ * assigned, the evidence held for each licence condition, and the room
+ * register checked against the minimum sleeping room sizes.
+ */
+export function PropertyHmoLicenceCard({ property }: { property: HmoProperty }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isLicenceOpen, setIsLicenceOpen] = React.useState(false);
+  const [isRoomsOpen, setIsRoomsOpen] = React.useState(false);
+  const [evidenceFor, setEvidenceFor] = React.useState<HmoLicenceCondition | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const licence = property.hmoLicence;
+  const rooms = React.useMemo(() => property.hmoRooms || [], [property.hmoRooms]);
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id), where('status', '==', 'Active'));
+  }, [user, firestore, property.id]);
+  const { data: tenants } = useCollection(tenantsQuery);
+
+  const docsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'documents'), where('landlordId', '==', user.uid), where('propertyId', '==', property.id), limit(200));
+  }, [user, firestore, property.id]);
+  const { data: rawDocuments } = useCollection(docsQuery);
+  const documents = React.useMemo(() => currentDocuments((rawDocuments || []) as any[]), [rawDocuments]);
+  const documentTitle = (id?: string) => documents.find(d => d.id === id)?.title;
+
+  const tenantCount = tenants?.length ?? 0;
+  const warnings = React.useMemo(() => (licence ? occupancyWarnings(licence, tenantCount, rooms) : []), [licence, tenantCount, rooms]);
+  const status = licence ? hmoLicenceStatus(licence) : null;
+  const unevidenced = licence ? conditionsNeedingEvidence(licence) : [];
+
+  const licenceForm = useForm<LicenceFormValues>({
+    resolver: zodResolver(licenceSchema),
+    defaultValues: { licenceNumber: '', issuingCouncil: '', conditions: [] },
+  });
+  const { fields: conditionFields, append: appendCondition, remove: removeCondition } = useFieldArray({ control: licenceForm.control, name: 'conditions' });
+
+  const evidenceForm = useForm<EvidenceFormValues>({
+    resolver: zodResolver(evidenceSchema),
+    defaultValues: { status: 'outstanding', evidenceDocumentId: NO_DOCUMENT, evidenceNotes: '' },
+  });
+
+  const roomsForm = useForm<RoomsFormValues>({
+    resolver: zodResolver(roomsSchema),
+    defaultValues: { rooms: [] },
+  });
+  const { fields: roomFields, append: appendRoom, remove: removeRoom } = useFieldArray({ control: roomsForm.control, name: 'rooms' });
+  const watchedRooms = roomsForm.watch('rooms');
+
+  const openLicence = () => {
+    licenceForm.reset({
+      licenceNumber: licence?.licenceNumber || '',
+      issuingCouncil: licence?.issuingCouncil || '',
+      issueDate: licence?.issueDate || '',
+      expiryDate: licence?.expiryDate || '',
+      maxOccupants: licence?.maxOccupants,
+      maxHouseholds: licence?.maxHouseholds,
+      minSingleRoomM2: licence?.minSingleRoomM2,
+      minDoubleRoomM2: licence?.minDoubleRoomM2,
+      conditions: licence
+        ? licence.conditions.map(c => ({ id: c.id, description: c.description }))
+        : MANDATORY_LICENCE_CONDITIONS.map(description => ({ id: newHmoId('cond'), description })),
+    });
+    setIsLicenceOpen(true);
+  };
+
+  const openEvidence = (condition: HmoLicenceCondition) => {
+    evidenceForm.reset({
+      status: condition.status,
+      evidenceDocumentId: condition.evidenceDocumentId || NO_DOCUMENT,
+      evidenceNotes: condition.evidenceNotes || '',
+    });
+    setEvidenceFor(condition);
+  };
+
+  const openRooms = () => {
+    roomsForm.reset({
+      rooms: rooms.map(r => ({
+        id: r.id,
+        name: r.name,
+        floorAreaM2: r.floorAreaM2,
+        lowCeilingAreaM2: r.lowCeilingAreaM2,
+        occupantsOver10: r.occupantsOver10,
+        occupantsUnder10: r.occupantsUnder10,
+      })),
+    });
+    setIsRoomsOpen(true);
+  };
+
+  const onSaveLicence = async (values: LicenceFormValues) => {
+    if (!firestore) return;
+    setIsSaving(true);
+    try {
+      const issued = safeToDate(values.issueDate);
+      const expiry = values.expiryDate || (issued ? format(hmoLicenceExpiry(issued), 'yyyy-MM-dd') : '');
+      const existing = new Map((licence?.conditions || []).map(c => [c.id, c]));
+      await saveHmoLicence(firestore, property.id, {
+        licenceNumber: values.licenceNumber.trim(),
+        issuingCouncil: values.issuingCouncil.trim(),
+        issueDate: values.issueDate || undefined,
+        expiryDate: expiry,
+        maxOccupants: values.maxOccupants,
+        maxHouseholds: values.maxHouseholds,
+        minSingleRoomM2: values.minSingleRoomM2 || undefined,
+        minDoubleRoomM2: values.minDoubleRoomM2 || undefined,
+        conditions: values.conditions.map(c => ({
+          ...(existing.get(c.id) || { id: c.id, status: 'outstanding' as const }),
+          description: c.description.trim(),
+        })),
+      });
+      toast({ title: 'Licence Saved' });
+      setIsLicenceOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The licence could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSaveEvidence = async (values: EvidenceFormValues) => {
+    if (!firestore || !licence || !evidenceFor) return;
+    setIsSaving(true);
+    try {
+      const { updatedDate, ...rest } = licence;
+      await saveHmoLicence(firestore, property.id, {
+        ...rest,
+        conditions: licence.conditions.map(c => c.id !== evidenceFor.id ? c : {
+          id: c.id,
+          description: c.description,
+          status: values.status,
+          evidenceDocumentId: values.evidenceDocumentId === NO_DOCUMENT ? undefined : values.evidenceDocumentId,
+          evidenceNotes: values.evidenceNotes?.trim() || undefined,
+          reviewedDate: format(new Date(), 'yyyy-MM-dd'),
+        }),
+      });
+      toast({ title: 'Evidence Recorded' });
+      setEvidenceFor(null);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The condition could not be updated.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSaveRooms = async (values: RoomsFormValues) => {
+    if (!firestore) return;
+    setIsSaving(true);
+    try {
+      await saveHmoRooms(firestore, property.id, values.rooms.map(r => ({
+        ...r,
+        name: r.name.trim(),
+        lowCeilingAreaM2: r.lowCeilingAreaM2 || undefined,
+      })));
+      toast({ title: 'Room Register Saved' });
+      setIsRoomsOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The room register could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden bg-muted/5 text-left">
+      <CardHeader className="pb-4 bg-muted/20 border-b">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="font-headline text-lg flex items-center gap-2"><Home className="h-5 w-5 text-primary" /> HMO Licence</CardTitle>
+          <Button variant="ghost" size="sm" className="h-8 text-[10px] font-bold uppercase" onClick={openLicence}><Edit className="mr-1 h-3.5 w-3.5" /> {licence ? 'Edit' : 'Add'}</Button>
+        </div>
+        <CardDescription className="text-xs">
+          {licence ? `Licence ${licence.licenceNumber} · ${licence.issuingCouncil}` : 'No licence details recorded.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 pt-4">
+        {licence && status && (
+          <div className="flex items-center gap-4">
+            <Badge variant="outline" className={cn('text-[10px] font-bold uppercase', LICENCE_STATUS_STYLES[status])}>{LICENCE_STATUS_LABELS[status]}</Badge>
+            <div className="ml-auto text-right text-[10px] font-bold uppercase tracking-widest text-muted-foreground space-y-1">
+              <p>Issued {formatDate(licence.issueDate)}</p>
+              <p>Expires {formatDate(licence.expiryDate)}</p>
+            </div>
+          </div>
+        )}
+
+        {licence && (
+          <div className="grid grid-cols-3 gap-2 text-center">
+            {[
+              ['Occupants', `${tenantCount} / ${licence.maxOccupants}`],
+              ['Households', `${tenantCount} / ${licence.maxHouseholds}`],
+              ['Room Beds', `${registeredSleepers(rooms)}`],
+            ].map(([label, value]) => (
+              <div key={label} className="rounded-xl border bg-background p-2">
+                <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">{label}</p>
+                <p className="text-sm font-bold tabular-nums">{value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="rounded-xl border p-3 space-y-1 bg-destructive/10 text-destructive border-destructive/30">
+            {warnings.map(w => <p key={w} className="text-xs font-bold flex items-start gap-1"><AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" /> {w}</p>)}
+          </div>
+        )}
+
+        {licence && licence.conditions.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Licence Conditions</p>
+              {unevidenced.length > 0 && <p className="text-[10px] font-bold uppercase text-amber-700">{unevidenced.length} need evidence</p>}
+            </div>
+            {licence.conditions.map(c => (
+              <div key={c.id} className="rounded-xl border bg-background p-3 flex items-start justify-between gap-2">
+                <div className="min-w-0 space-y-1">
+                  <p className="text-xs leading-snug">{c.description}</p>
+                  {c.evidenceDocumentId && (
+                    <Link href={`/dashboard/documents/${c.evidenceDocumentId}`} className="text-[10px] font-bold text-primary hover:underline flex items-center gap-1">
+                      <FileCheck className="h-3 w-3" /> {documentTitle(c.evidenceDocumentId) || 'Evidence document'}
+                    </Link>
+                  )}
+                  {c.evidenceNotes && <p className="text-[10px] text-muted-foreground">{c.evidenceNotes}</p>}
+                  {c.reviewedDate && <p className="text-[10px] text-muted-foreground">Reviewed {formatDate(c.reviewedDate)}</p>}
+                </div>
+                <button type="button" onClick={() => openEvidence(c)} className="shrink-0">
+                  <Badge variant="outline" className={cn('text-[9px] font-bold uppercase cursor-pointer', CONDITION_STYLES[c.status])}>{HMO_CONDITION_STATUS_LABELS[c.status]}</Badge>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Room Register</p>
+            <Button variant="ghost" size="sm" className="h-7 text-[10px] font-bold uppercase" onClick={openRooms}><Ruler className="mr-1 h-3.5 w-3.5" /> {rooms.length ? 'Edit Rooms' : 'Add Rooms'}</Button>
+          </div>
+          {rooms.length === 0 ? (
+            <p className="text-xs text-muted-foreground italic">No rooms measured yet.</p>
+          ) : (
+            <div className="rounded-xl border overflow-hidden bg-background">
+              <Table>
+                <TableHeader className="bg-muted/30">
+                  <TableRow>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Room</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Area</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest text-right">Check</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rooms.map(r => {
+                    const check = checkRoom(r, licence);
+                    return (
+                      <TableRow key={r.id} title={check.detail}>
+                        <TableCell className="text-xs">
+                          {r.name}
+                          <span className="ml-2 text-[10px] font-bold text-muted-foreground">{r.occupantsOver10 + r.occupantsUnder10} sleeping</span>
+                        </TableCell>
+                        <TableCell className="text-xs text-right tabular-nums">{check.usableAreaM2.toFixed(2)} m²</TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant="outline" className={cn('text-[9px] font-bold uppercase', ROOM_STYLES[check.status])}>{ROOM_CHECK_STATUS_LABELS[check.status]}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={isLicenceOpen} onOpenChange={setIsLicenceOpen}>
+        <DialogContent className="max-w-2xl text-left max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>HMO Licence</DialogTitle>
+            <DialogDescription>Enter the details and conditions as shown on the licence issued by the council.</DialogDescription>
+          </DialogHeader>
+          <Form {...licenceForm}>
+            <form onSubmit={licenceForm.handleSubmit(onSaveLicence)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={licenceForm.control} name="licenceNumber" render={({ field }) => (
+                  <FormItem><FormLabel>Licence Number</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={licenceForm.control} name="issuingCouncil" render={({ field }) => (
+                  <FormItem><FormLabel>Issuing Council</FormLabel><FormControl><Input placeholder="e.g. Leeds City Council" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={licenceForm.control} name="issueDate" render={({ field }) => (
+                  <FormItem><FormLabel>Issue Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={licenceForm.control} name="expiryDate" render={({ field }) => (
+                  <FormItem><FormLabel>Expiry Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormDescription className="text-xs">Left blank, five years from issue.</FormDescription><FormMessage /></FormItem>
+                )} />
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <FormField control={licenceForm.control} name="maxOccupants" render={({ field }) => (
+                  <FormItem><FormLabel>Max Occupants</FormLabel><FormControl><Input type="number" inputMode="numeric" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={licenceForm.control} name="maxHouseholds" render={({ field }) => (
+                  <FormItem><FormLabel>Max Households</FormLabel><FormControl><Input type="number" inputMode="numeric" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={licenceForm.control} name="minSingleRoomM2" render={({ field }) => (
+                  <FormItem><FormLabel>Single Room m²</FormLabel><FormControl><Input type="number" step="0.01" placeholder={NATIONAL_MIN_ROOM_SIZES.single.toFixed(2)} value={field.value || ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={licenceForm.control} name="minDoubleRoomM2" render={({ field }) => (
+                  <FormItem><FormLabel>Double Room m²</FormLabel><FormControl><Input type="number" step="0.01" placeholder={NATIONAL_MIN_ROOM_SIZES.double.toFixed(2)} value={field.value || ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                )} />
+              </div>
+              <p className="text-xs text-muted-foreground">Room sizes only need entering where the council sets a larger standard than the national minimum.</p>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Licence Conditions</FormLabel>
+                  <Button type="button" variant="outline" size="sm" onClick={() => appendCondition({ id: newHmoId('cond'), description: '' })}><Plus className="mr-1 h-3.5 w-3.5" /> Add</Button>
+                </div>
+                {conditionFields.map((f, index) => (
+                  <div key={f.id} className="grid grid-cols-[1fr_auto] gap-2 items-start">
+                    <FormField control={licenceForm.control} name={`conditions.${index}.description`} render={({ field }) => (
+                      <FormItem><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeCondition(index)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                  </div>
+                ))}
+              </div>
+
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsLicenceOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Licence</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!evidenceFor} onOpenChange={open => !open && setEvidenceFor(null)}>
+        <DialogContent className="text-left">
+          <DialogHeader>
+            <DialogTitle>Condition Evidence</DialogTitle>
+            <DialogDescription>{evidenceFor?.description}</DialogDescription>
+          </DialogHeader>
+          <Form {...evidenceForm}>
+            <form onSubmit={evidenceForm.handleSubmit(onSaveEvidence)} className="space-y-4">
+              <FormField control={evidenceForm.control} name="status" render={({ field }) => (
+                <FormItem><FormLabel>Status</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{(Object.keys(HMO_CONDITION_STATUS_LABELS) as HmoConditionStatus[]).map(s => <SelectItem key={s} value={s}>{HMO_CONDITION_STATUS_LABELS[s]}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+              )} />
+              <FormField control={evidenceForm.control} name="evidenceDocumentId" render={({ field }) => (
+                <FormItem><FormLabel>Evidence Document</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent><SelectItem value={NO_DOCUMENT}>No document</SelectItem>{documents.map(d => <SelectItem key={d.id} value={d.id}>{d.title} ({d.documentType})</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+              )} />
+              <FormField control={evidenceForm.control} name="evidenceNotes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea rows={3} placeholder="e.g. Alarms tested and logged on each floor" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setEvidenceFor(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRoomsOpen} onOpenChange={setIsRoomsOpen}>
+        <DialogContent className="max-w-3xl text-left max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Room Register</DialogTitle>
+            <DialogDescription>
+              Measured floor area of each room, with any part under a {MIN_CEILING_HEIGHT_M} m ceiling entered separately as it does not count. Sleeping rooms need {NATIONAL_MIN_ROOM_SIZES.single} m² for one person over 10, {NATIONAL_MIN_ROOM_SIZES.double} m² for two, and {NATIONAL_MIN_ROOM_SIZES.child} m² for a child under 10.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...roomsForm}>
+            <form onSubmit={roomsForm.handleSubmit(onSaveRooms)} className="space-y-4">
+              {roomFields.length > 0 && (
+                <div className="grid grid-cols-[1fr_90px_90px_70px_70px_110px_auto] gap-2 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                  <span>Room</span><span>Area m²</span><span>Low Ceiling</span><span>Over 10</span><span>Under 10</span><span>Check</span><span />
+                </div>
+              )}
+              {roomFields.map((f, index) => {
+                const room = watchedRooms[index];
+                const check = room ? checkRoom({ ...room, floorAreaM2: Number(room.floorAreaM2) || 0, lowCeilingAreaM2: Number(room.lowCeilingAreaM2) || 0, occupantsOver10: Number(room.occupantsOver10) || 0, occupantsUnder10: Number(room.occupantsUnder10) || 0 }, licence) : null;
+                return (
+                  <div key={f.id} className="grid grid-cols-[1fr_90px_90px_70px_70px_110px_auto] gap-2 items-start">
+                    <FormField control={roomsForm.control} name={`rooms.${index}.name`} render={({ field }) => (
+                      <FormItem><FormControl><Input placeholder="e.g. Bedroom 1" {...field} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={roomsForm.control} name={`rooms.${index}.floorAreaM2`} render={({ field }) => (
+                      <FormItem><FormControl><Input type="number" step="0.01" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={roomsForm.control} name={`rooms.${index}.lowCeilingAreaM2`} render={({ field }) => (
+                      <FormItem><FormControl><Input type="number" step="0.01" value={field.value || ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={roomsForm.control} name={`rooms.${index}.occupantsOver10`} render={({ field }) => (
+                      <FormItem><FormControl><Input type="number" inputMode="numeric" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <FormField control={roomsForm.control} name={`rooms.${index}.occupantsUnder10`} render={({ field }) => (
+                      <FormItem><FormControl><Input type="number" inputMode="numeric" value={field.value ?? ''} onChange={field.onChange} /></FormControl><FormMessage /></FormItem>
+                    )} />
+                    <div className="pt-2" title={check?.detail}>
+                      {check && <Badge variant="outline" className={cn('text-[9px] font-bold uppercase', ROOM_STYLES[check.status])}>{ROOM_CHECK_STATUS_LABELS[check.status]}</Badge>}
+                    </div>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => removeRoom(index)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                  </div>
+                );
+              })}
+              <Button type="button" variant="outline" size="sm" onClick={() => appendRoom({ id: newHmoId('room'), name: '', floorAreaM2: 0, lowCeilingAreaM2: undefined, occupantsOver10: 1, occupantsUnder10: 0 })}><Plus className="mr-1 h-3.5 w-3.5" /> Add Room</Button>
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsRoomsOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Rooms</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
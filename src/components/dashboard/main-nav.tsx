@@ -26,6 +26,7 @@ import {
   HardHat,
   MessageSquare,
   Newspaper,
+  Droplets,
   ShieldAlert,
 } from 'lucide-react';
 import * as React from 'react';
@@ -65,6 +66,7 @@ const menuItems = [
     ],
   },
   { href: '/dashboard/maintenance', label: 'Maintenance', icon: Wrench },
+  { href: '/dashboard/hazards', label: 'Damp & Hazards', icon: Droplets },
   { 
     href: '/dashboard/inspections', 
     label: 'Inspections', 
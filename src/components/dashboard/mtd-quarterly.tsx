@@ -0,0 +1,266 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where } from 'firebase/firestore';
+import { Loader2, Landmark, FileJson, FileSpreadsheet, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/file-export';
+import { formatMoney } from '@/lib/money';
+import {
+  MTD_EXPENSE_LABELS,
+  buildMtdQuarterlySummaries,
+  cumulativeSummaryPath,
+  formatTaxYear,
+  mtdSummariesToCsv,
+  taxYearFor,
+  toCumulativeSummary,
+  totalExpenses,
+  type MtdExpenseField,
+  type QuarterBasis,
+} from '@/lib/mtd-quarterly';
+
+interface MtdProperty {
+  id: string;
+  address: { nameOrNumber?: string; street: string; city: string; postcode: string };
+}
+
+const formatCurrency = (val: number) => formatMoney(val);
+
+function formatAddress(address: MtdProperty['address']) {
+  if (!address) return 'N/A';
+  return [address.nameOrNumber, address.street, address.city, address.postcode].filter(Boolean).join(', ');
+}
+
+export function MtdQuarterlyExport({ properties }: { properties: MtdProperty[] }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [taxYear, setTaxYear] = React.useState<number | null>(null);
+  const [basis, setBasis] = React.useState<QuarterBasis>('standard');
+  const [selectedQuarter, setSelectedQuarter] = React.useState(1);
+  const [nino, setNino] = React.useState('');
+  const [businessId, setBusinessId] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    setTaxYear(taxYearFor(new Date()));
+  }, []);
+
+  const taxYears = React.useMemo(() => {
+    const current = taxYearFor(new Date());
+    return Array.from({ length: 6 }, (_, i) => current + 1 - i);
+  }, []);
+
+  // Every input is read uncapped: a truncated list understates the cumulative figures, and legacy month-only payments have no paidDate to range on
+  const rentQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: rentPayments, isLoading: isLoadingRent } = useCollection(rentQuery);
+
+  const expensesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'expenses'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: expenses, isLoading: isLoadingExpenses } = useCollection(expensesQuery);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: repairs, isLoading: isLoadingRepairs } = useCollection(repairsQuery);
+
+  const isLoading = isLoadingRent || isLoadingExpenses || isLoadingRepairs || taxYear === null;
+
+  const summaries = React.useMemo(() => {
+    if (taxYear === null) return [];
+    return buildMtdQuarterlySummaries(
+      { rentPayments: rentPayments || [], expenses: expenses || [], repairs: repairs || [] },
+      properties.map(p => p.id),
+      taxYear,
+      basis
+    );
+  }, [rentPayments, expenses, repairs, properties, taxYear, basis]);
+
+  const active = summaries.find(s => s.quarter === selectedQuarter);
+  const propertyNames = React.useMemo(
+    () => Object.fromEntries(properties.map(p => [p.id, formatAddress(p.address)])),
+    [properties]
+  );
+
+  const handleExportJson = () => {
+    if (taxYear === null) return;
+    const payload = {
+      taxYear: formatTaxYear(taxYear),
+      quarterBasis: basis,
+      generated: new Date().toISOString(),
+      submissions: summaries.map(s => ({
+        quarter: `Q${s.quarter}`,
+        method: 'PUT',
+        path: cumulativeSummaryPath('{nino}', '{businessId}', taxYear),
+        body: toCumulativeSummary(s),
+      })),
+      properties: properties.map(p => ({
+        propertyId: p.id,
+        address: propertyNames[p.id],
+        quarters: summaries.map(s => ({
+          quarter: `Q${s.quarter}`,
+          body: toCumulativeSummary(s, s.properties.find(x => x.propertyId === p.id)),
+        })),
+      })),
+    };
+    downloadFile(JSON.stringify(payload, null, 2), `MTD-UK-Property-${formatTaxYear(taxYear)}.json`, 'application/json');
+    toast({ title: 'MTD Payload Exported' });
+  };
+
+  const handleExportCsv = () => {
+    if (taxYear === null) return;
+    downloadFile(mtdSummariesToCsv(summaries, taxYear, propertyNames), `MTD-Quarterly-${formatTaxYear(taxYear)}.csv`, 'text/csv');
+    toast({ title: 'Accountant CSV Exported' });
+  };
+
+  const handleTestSubmit = async () => {
+    if (!active || taxYear === null) return;
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/mtd${cumulativeSummaryPath(nino.trim().toUpperCase(), businessId.trim().toUpperCase(), taxYear)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/vnd.hmrc.5.0+json' },
+        body: JSON.stringify(toCumulativeSummary(active)),
+      });
+      if (res.status === 204) {
+        toast({ title: 'Mock Submission Accepted', description: `Q${active.quarter} ${formatTaxYear(taxYear)} passed validation.` });
+      } else {
+        const err = await res.json();
+        const detail = err.errors ? err.errors.map((e: any) => e.code).join(', ') : err.code;
+        toast({ variant: 'destructive', title: 'Mock Submission Rejected', description: detail });
+      }
+    } catch (e) {
+      console.error('Mock MTD submission failed:', e);
+      toast({ variant: 'destructive', title: 'Submission Failed' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6 border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
+      <CardHeader className="bg-primary/5 border-b border-primary/10 px-8 py-8">
+        <CardTitle className="text-xl font-headline flex items-center gap-3 text-foreground"><Landmark className="h-6 w-6 text-primary" /> Making Tax Digital: Quarterly Updates</CardTitle>
+        <CardDescription className="text-base font-medium">Cumulative UK property business totals mapped to HMRC income and expense headings.</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-8 px-8 pb-8 space-y-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Tax Year</Label>
+            <Select value={taxYear !== null ? String(taxYear) : ''} onValueChange={(v) => setTaxYear(Number(v))}>
+              <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue placeholder="Tax year" /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                {taxYears.map(y => <SelectItem key={y} value={String(y)} className="py-3 font-bold">{formatTaxYear(y)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Quarter Periods</Label>
+            <Select value={basis} onValueChange={(v) => setBasis(v as QuarterBasis)}>
+              <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                <SelectItem value="standard" className="py-3 font-medium">Standard (6 Apr - 5 Jul ...)</SelectItem>
+                <SelectItem value="calendar" className="py-3 font-medium">Calendar Election (1 Apr - 30 Jun ...)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Quarter</Label>
+            <Select value={String(selectedQuarter)} onValueChange={(v) => setSelectedQuarter(Number(v))}>
+              <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                {summaries.map(s => (
+                  <SelectItem key={s.quarter} value={String(s.quarter)} className="py-3 font-medium">
+                    Q{s.quarter}: {format(s.quarterStart, 'dd MMM')} - {format(s.toDate, 'dd MMM yyyy')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading || !active ? (
+          <div className="flex h-48 items-center justify-center"><Loader2 className="h-10 w-10 animate-spin text-primary" /></div>
+        ) : (
+          <div className="rounded-2xl border overflow-hidden">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="pl-6 font-bold uppercase text-[10px] tracking-widest">HMRC Heading</TableHead>
+                  <TableHead className="pr-6 text-right font-bold uppercase text-[10px] tracking-widest">
+                    Cumulative to {format(active.toDate, 'dd MMM yyyy')}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow className="bg-green-50/30">
+                  <TableCell className="pl-6 font-bold text-green-700">Rents Received (periodAmount)</TableCell>
+                  <TableCell className="pr-6 text-right font-bold tabular-nums text-green-700">{formatCurrency(active.business.income.periodAmount)}</TableCell>
+                </TableRow>
+                {(Object.keys(MTD_EXPENSE_LABELS) as MtdExpenseField[]).map(field => (
+                  <TableRow key={field}>
+                    <TableCell className="pl-6 font-medium">{MTD_EXPENSE_LABELS[field]} <span className="text-[10px] text-muted-foreground font-mono">({field})</span></TableCell>
+                    <TableCell className="pr-6 text-right font-bold tabular-nums">{formatCurrency(active.business.expenses[field])}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-muted/20 border-t-2">
+                  <TableCell className="pl-6 font-bold text-muted-foreground">Total Expenses</TableCell>
+                  <TableCell className="pr-6 text-right font-bold tabular-nums text-muted-foreground">{formatCurrency(totalExpenses(active.business))}</TableCell>
+                </TableRow>
+                {active.properties.map(p => {
+                  const net = p.income.periodAmount - totalExpenses(p);
+                  return (
+                    <TableRow key={p.propertyId} className="text-xs">
+                      <TableCell className="pl-10 text-muted-foreground truncate max-w-[320px]">{propertyNames[p.propertyId]}</TableCell>
+                      <TableCell className={cn("pr-6 text-right tabular-nums", net < 0 ? "text-destructive" : "text-muted-foreground")}>
+                        {formatCurrency(p.income.periodAmount)} in &middot; {formatCurrency(totalExpenses(p))} out
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end p-6 rounded-2xl border-2 border-dashed bg-muted/5">
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">National Insurance Number</Label>
+            <Input className="h-11 border-2 rounded-xl uppercase" placeholder="AA123456A" value={nino} onChange={(e) => setNino(e.target.value)} />
+          </div>
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Business ID</Label>
+            <Input className="h-11 border-2 rounded-xl uppercase" placeholder="XAIS12345678901" value={businessId} onChange={(e) => setBusinessId(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleTestSubmit} disabled={isSubmitting || isLoading || !nino || !businessId} className="h-11 rounded-xl font-bold uppercase tracking-widest text-[10px] gap-2">
+            {isSubmitting ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+            Test Against Mock Endpoint
+          </Button>
+          <p className="md:col-span-3 text-xs text-muted-foreground italic">The mock endpoint validates the payload locally. Nothing is sent to HMRC.</p>
+        </div>
+      </CardContent>
+      <CardFooter className="p-8 bg-muted/5 border-t flex flex-col sm:flex-row justify-end gap-4">
+        <Button variant="outline" onClick={handleExportCsv} disabled={isLoading} className="font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl gap-2">
+          <FileSpreadsheet className="h-4 w-4" /> Accountant CSV
+        </Button>
+        <Button onClick={handleExportJson} disabled={isLoading} className="shadow-lg font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl gap-2">
+          <FileJson className="h-4 w-4" /> MTD JSON Payload
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
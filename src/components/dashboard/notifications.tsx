@@ -28,15 +28,18 @@ import {
   FileText
 } from 'lucide-react';
 import { useUser, useFirestore, errorEmitter, FirestorePermissionError } from '@/firebase';
-import { collection, query, where, onSnapshot, limit, doc, getDoc } from 'firebase/firestore';
+import { collection, query, where, onSnapshot, limit, orderBy, doc, getDoc } from 'firebase/firestore';
 import { format, isBefore, addDays, setDate, startOfMonth, isPast, isFuture } from 'date-fns';
 import { safeToDate } from '@/lib/date-utils';
 import { cn } from '@/lib/utils';
+import { currentDocuments } from '@/lib/document-versions';
+import { assessArrears, resolveArrearsConfig, ARREARS_STAGE_LABELS, type ArrearsStageConfig } from '@/lib/rent-arrears';
+import { REPAIR_STATE_LABELS, assessRepairSla, currentSlaTimer, repairState } from '@/lib/repair-workflow';
 
 /**
  * @fileOverview Universal Notification Bell
  * Aggregates alerts for both Landlords and Tenants.
- * Landlord: Compliance, Rent, Maintenance Requests, Messages.
+ * Landlord: Compliance, Rent, Maintenance Requests and SLA Breaches, Messages.
  * Tenant: Repair Updates, Shared Docs, Management Messages, Inspections.
  */
 
@@ -52,6 +55,8 @@ export function Notifications() {
   const [allInspections, setAllInspections] = useState<any[]>([]);
   const [allTenants, setAllTenants] = useState<any[]>([]);
   const [allRentPayments, setAllRentPayments] = useState<any[]>([]);
+  const [allRentCharges, setAllRentCharges] = useState<any[]>([]);
+  const [arrearsConfig, setArrearsConfig] = useState<ArrearsStageConfig>(resolveArrearsConfig());
   const [allMessages, setAllMessages] = useState<any[]>([]);
   const [allRepairs, setAllRepairs] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -69,6 +74,7 @@ export function Notifications() {
             if (userSnap.exists()) {
                 const role = userSnap.data().role;
                 setUserRole(role);
+                setArrearsConfig(resolveArrearsConfig(userSnap.data().arrearsStages));
 
                 // If tenant, find their assigned property
                 if (role === 'tenant') {
@@ -132,8 +138,13 @@ export function Notifications() {
         const qInsp = query(collection(firestore, 'inspections'), where('landlordId', '==', user.uid), limit(50));
         const qTenants = query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('status', '==', 'Active'));
         const qMsgs = query(collection(firestore, 'messages'), where('landlordId', '==', user.uid), limit(20));
-        const qRepairs = query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), where('status', '==', 'Open'), limit(20));
+        // Oldest open repairs first, so the cap never hides the longest-running breaches
+        const qRepairs = query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), where('status', 'in', ['Open', 'In Progress']), orderBy('reportedDate', 'asc'), limit(50));
+        const qRent = query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid));
+        const qCharges = query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid));
 
+        listeners.push(onSnapshot(qRent, (s) => setAllRentPayments(s.docs.map(d => ({ id: d.id, ...d.data() }))), handleError('rentPayments')));
+        listeners.push(onSnapshot(qCharges, (s) => setAllRentCharges(s.docs.map(d => ({ id: d.id, ...d.data() }))), handleError('rentCharges')));
         listeners.push(onSnapshot(qProps, (s) => setAllProperties(s.docs.map(d => ({ id: d.id, ...d.data() }))), handleError('properties')));
         listeners.push(onSnapshot(qDocs, (s) => setAllDocuments(s.docs.map(d => ({ id: d.id, ...d.data() }))), handleError('documents')));
         listeners.push(onSnapshot(qInsp, (s) => setAllInspections(s.docs.map(d => ({ id: d.id, ...d.data() }))), handleError('inspections')));
@@ -169,15 +180,32 @@ export function Notifications() {
 
     if (userRole === 'landlord') {
         // 1. Compliance (Landlord)
-        allDocuments.forEach(doc => {
+        currentDocuments(allDocuments).forEach(doc => {
             const expiry = safeToDate(doc.expiryDate);
             if (!expiry) return;
             const status = isBefore(expiry, today) ? 'Expired' : (isBefore(expiry, addDays(today, 90)) ? 'Expiring Soon' : 'Valid');
             if (status !== 'Valid') reminders.push({ id: `doc-${doc.id}`, description: doc.title, address: propertyMap[doc.propertyId] || 'Asset', dueDate: expiry, status, icon: FileWarning, href: `/dashboard/documents?propertyId=${doc.propertyId}` });
         });
-        // 2. Repairs (Landlord)
-        allRepairs.forEach(r => reminders.push({ id: `repair-${r.id}`, description: `New Request: ${r.title}`, address: propertyMap[r.propertyId] || 'Asset', dueDate: safeToDate(r.reportedDate) || today, status: r.priority, icon: Wrench, href: `/dashboard/maintenance/${r.id}?propertyId=${r.propertyId}` }));
-        // 3. Messages (Landlord)
+        // 2. Repairs (Landlord) - a breach replaces the new request alert, keyed by deadline so the resolution breach re-notifies
+        allRepairs.forEach(r => {
+            const href = `/dashboard/maintenance/${r.id}?propertyId=${r.propertyId}`;
+            const sla = assessRepairSla(r, today);
+            const timer = currentSlaTimer(sla);
+            if (sla.breached && timer) {
+                const which = timer === sla.response ? 'response' : 'resolution';
+                reminders.push({ id: `repair-sla-${r.id}-${which}`, description: `SLA Breached: ${r.title}`, address: propertyMap[r.propertyId] || 'Asset', dueDate: timer.deadline, status: 'Overdue', icon: Wrench, href });
+            } else if (repairState(r) === 'reported') {
+                reminders.push({ id: `repair-${r.id}`, description: `New Request: ${r.title}`, address: propertyMap[r.propertyId] || 'Asset', dueDate: safeToDate(r.reportedDate) || today, status: r.priority, icon: Wrench, href });
+            }
+        });
+        // 3. Rent Arrears (Landlord) - keyed by stage so each escalation re-notifies
+        allTenants.filter(t => t.monthlyRent).forEach(t => {
+            const assessment = assessArrears(t, allRentCharges, allRentPayments, allTenants, arrearsConfig, today);
+            if (assessment.stage === 'clear' || !assessment.oldestUnpaidDueDate) return;
+            const status = assessment.section8Met ? 'Section 8' : ARREARS_STAGE_LABELS[assessment.stage];
+            reminders.push({ id: `arrears-${t.id}-${assessment.stage}`, description: `Arrears: ${t.name} (£${assessment.arrears.toLocaleString()})`, address: propertyMap[t.propertyId] || 'Asset', dueDate: assessment.oldestUnpaidDueDate, status, icon: Banknote, href: `/dashboard/tenants/${t.id}` });
+        });
+        // 4. Messages (Landlord)
         allMessages.filter(m => m.senderId !== user?.uid && !m.read).forEach(m => reminders.push({ id: `msg-${m.id}`, description: `From ${m.senderName}`, address: propertyMap[m.propertyId] || 'Asset', dueDate: safeToDate(m.timestamp) || today, status: 'New', icon: MessageSquare, href: `/dashboard/properties/${m.propertyId}?tab=messages` }));
     } else if (userRole === 'tenant') {
         // 1. Shared Documents (Tenant)
@@ -187,13 +215,13 @@ export function Notifications() {
         // 3. Inspections (Tenant)
         allInspections.forEach(i => reminders.push({ id: `insp-${i.id}`, description: `Upcoming ${i.type || 'Visit'}`, address: 'Property Visit', dueDate: safeToDate(i.scheduledDate) || today, status: 'Scheduled', icon: CalendarClock, href: '/tenant/dashboard' }));
         // 4. Repairs (Tenant Status Change)
-        allRepairs.filter(r => r.status === 'In Progress').forEach(r => reminders.push({ id: `rep-upd-${r.id}`, description: `Repair Status: ${r.status}`, address: r.title, dueDate: today, status: 'Updating', icon: Wrench, href: '/tenant/dashboard' }));
+        allRepairs.filter(r => r.status === 'In Progress').forEach(r => reminders.push({ id: `rep-upd-${r.id}`, description: `Repair Status: ${REPAIR_STATE_LABELS[repairState(r)]}`, address: r.title, dueDate: today, status: 'Updating', icon: Wrench, href: '/tenant/dashboard' }));
     }
 
     return reminders
         .filter(r => !dismissedIds.has(r.id))
         .sort((a, b) => b.dueDate.getTime() - a.dueDate.getTime());
-  }, [allDocuments, allInspections, allTenants, allRentPayments, allMessages, allRepairs, propertyMap, user, userRole, dismissedIds]);
+  }, [allDocuments, allInspections, allTenants, allRentPayments, allRentCharges, arrearsConfig, allMessages, allRepairs, propertyMap, user, userRole, dismissedIds]);
 
   const notificationCount = allReminders.length;
 
@@ -247,7 +275,7 @@ export function Notifications() {
                     >
                         <div className={cn(
                             "p-2.5 rounded-xl shrink-0 mt-0.5",
-                            reminder.status === 'Expired' || reminder.status === 'Overdue' || reminder.status === 'Emergency' 
+                            reminder.status === 'Expired' || reminder.status === 'Overdue' || reminder.status === 'Emergency' || reminder.status === 'Section 8' || reminder.status === ARREARS_STAGE_LABELS.legal
                                 ? "bg-destructive/10 text-destructive" 
                                 : "bg-primary/10 text-primary"
                         )}>
@@ -20,6 +20,7 @@ import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebas
 import { collection, query, where } from 'firebase/firestore';
 import { Loader2, Banknote, TrendingUp } from 'lucide-react';
 import { safeToDate } from '@/lib/date-utils';
+import { fromPence, penceOf, sumMoney } from '@/lib/money';
 
 // Standard Calendar Year Months
 const MONTHS = [
@@ -83,7 +84,7 @@ export function PortfolioAnalytics() {
       // Aggregate Income for this month
       const monthIncome = rentPayments
         .filter((p) => p.month === monthName && p.year === selectedYear && p.status === 'Paid')
-        .reduce((sum, p) => sum + (Number(p.amountPaid) || 0), 0);
+        .reduce((sum, p) => sum + penceOf(p, 'amountPaid'), 0);
 
       // Aggregate Base Expenses for this month
       const monthBaseExpenses = allExpenses
@@ -91,7 +92,7 @@ export function PortfolioAnalytics() {
           const d = safeToDate(e.date);
           return d && d.getFullYear() === selectedYear && d.getMonth() === index;
         })
-        .reduce((sum, e) => sum + (Number(e.amount) || 0), 0);
+        .reduce((sum, e) => sum + penceOf(e, 'amount'), 0);
 
       // Aggregate Repair Costs for this month
       const monthRepairExpenses = allRepairs
@@ -99,20 +100,20 @@ export function PortfolioAnalytics() {
             const d = safeToDate(r.reportedDate);
             return d && d.getFullYear() === selectedYear && d.getMonth() === index;
         })
-        .reduce((sum, r) => sum + (Number(r.expectedCost || r.estimatedCost || 0)), 0);
+        .reduce((sum, r) => sum + (penceOf(r, 'expectedCost') || penceOf(r, 'estimatedCost')), 0);
 
       return {
         month: monthName.substring(0, 3),
-        income: monthIncome,
-        expenses: monthBaseExpenses + monthRepairExpenses,
+        income: fromPence(monthIncome),
+        expenses: fromPence(monthBaseExpenses + monthRepairExpenses),
       };
     });
   }, [rentPayments, allExpenses, allRepairs, selectedYear]);
 
   const totals = React.useMemo(() => {
-    const income = chartData.reduce((sum, d) => sum + d.income, 0);
-    const expenses = chartData.reduce((sum, d) => sum + d.expenses, 0);
-    return { income, expenses, net: income - expenses };
+    const income = sumMoney(chartData.map(d => d.income));
+    const expenses = sumMoney(chartData.map(d => d.expenses));
+    return { income, expenses, net: sumMoney([income, -expenses]) };
   }, [chartData]);
 
   if (isLoadingRent || isLoadingExpenses || isLoadingRepairs || !selectedYear) {
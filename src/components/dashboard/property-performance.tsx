@@ -0,0 +1,329 @@
+'use client';
+
+import * as React from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where } from 'firebase/firestore';
+import { Loader2, BarChart3, FileSpreadsheet, Download } from 'lucide-react';
+import { addDays, addYears, format, isBefore, isValid, parseISO, startOfYear } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/file-export';
+import { taxYearFor } from '@/lib/mtd-quarterly';
+import { generatePerformancePDF } from '@/lib/generate-performance-pdf';
+import { formatMoney } from '@/lib/money';
+import {
+  PERFORMANCE_METRIC_LABELS,
+  buildPropertyPerformance,
+  formatPercent,
+  monthlyPerformance,
+  performanceToCsv,
+  portfolioPerformance,
+  rankPerformance,
+  type PerformanceMetric,
+} from '@/lib/property-performance';
+
+interface PerformancePropertyRecord {
+  id: string;
+  address: { nameOrNumber?: string; street: string; city: string; postcode: string };
+  purchasePrice?: number;
+  currentValuation?: number;
+  cashInvested?: number;
+}
+
+type RangePreset = 'tax-year' | 'last-tax-year' | 'last-12-months' | 'calendar-year' | 'custom';
+
+const RANGE_PRESETS: Record<RangePreset, string> = {
+  'tax-year': 'This Tax Year',
+  'last-tax-year': 'Last Tax Year',
+  'last-12-months': 'Last 12 Months',
+  'calendar-year': 'This Calendar Year',
+  custom: 'Custom Range',
+};
+
+const monthlyConfig = {
+  income: { label: 'Income', color: 'hsl(var(--primary))' },
+  costs: { label: 'Costs', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const rankingConfig = {
+  value: { label: 'Value', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatCurrency = (val: number) => formatMoney(val);
+
+function formatAddress(address: PerformancePropertyRecord['address']) {
+  if (!address) return 'N/A';
+  return [address.nameOrNumber, address.street, address.city, address.postcode].filter(Boolean).join(', ');
+}
+
+function shortAddress(address: PerformancePropertyRecord['address']) {
+  if (!address) return 'N/A';
+  return [address.nameOrNumber, address.street].filter(Boolean).join(' ');
+}
+
+function presetRange(preset: RangePreset, today: Date): { from: Date; to: Date } | null {
+  const taxYear = taxYearFor(today);
+  switch (preset) {
+    case 'tax-year': return { from: new Date(taxYear, 3, 6), to: today };
+    case 'last-tax-year': return { from: new Date(taxYear - 1, 3, 6), to: new Date(taxYear, 3, 5) };
+    case 'last-12-months': return { from: addDays(addYears(today, -1), 1), to: today };
+    case 'calendar-year': return { from: startOfYear(today), to: today };
+    default: return null;
+  }
+}
+
+const formatMetric = (metric: PerformanceMetric, val: number | null) =>
+  metric === 'netProfit' ? formatCurrency(val ?? 0) : formatPercent(val);
+
+export function PropertyPerformanceReport({ properties, landlordName }: { properties: PerformancePropertyRecord[]; landlordName: string }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [preset, setPreset] = React.useState<RangePreset>('tax-year');
+  const [fromInput, setFromInput] = React.useState('');
+  const [toInput, setToInput] = React.useState('');
+  const [metric, setMetric] = React.useState<PerformanceMetric>('netProfit');
+  const [focusId, setFocusId] = React.useState<string>('all');
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  React.useEffect(() => {
+    const range = presetRange(preset, new Date());
+    if (!range) return;
+    setFromInput(format(range.from, 'yyyy-MM-dd'));
+    setToInput(format(range.to, 'yyyy-MM-dd'));
+  }, [preset]);
+
+  const rentQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: rentPayments, isLoading: isLoadingRent } = useCollection(rentQuery);
+
+  const expensesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'expenses'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: expenses, isLoading: isLoadingExpenses } = useCollection(expensesQuery);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: repairs, isLoading: isLoadingRepairs } = useCollection(repairsQuery);
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: tenants, isLoading: isLoadingTenants } = useCollection(tenantsQuery);
+
+  const range = React.useMemo(() => {
+    const from = parseISO(fromInput);
+    const to = parseISO(toInput);
+    return isValid(from) && isValid(to) && !isBefore(to, from) ? { from, to } : null;
+  }, [fromInput, toInput]);
+
+  const records = React.useMemo(() => ({
+    rentPayments: rentPayments || [],
+    expenses: expenses || [],
+    repairs: repairs || [],
+    tenants: tenants || [],
+  }), [rentPayments, expenses, repairs, tenants]);
+
+  const rows = React.useMemo(
+    () => (range ? rankPerformance(buildPropertyPerformance(records, properties, range.from, range.to), metric) : []),
+    [records, properties, range, metric]
+  );
+  const totals = React.useMemo(() => (range ? portfolioPerformance(rows, range.from, range.to) : null), [rows, range]);
+  const monthly = React.useMemo(
+    () => (range ? monthlyPerformance(records, range.from, range.to, focusId === 'all' ? undefined : focusId) : []),
+    [records, range, focusId]
+  );
+
+  const propertyNames = React.useMemo(
+    () => Object.fromEntries(properties.map(p => [p.id, formatAddress(p.address)])),
+    [properties]
+  );
+  const shortNames = React.useMemo(
+    () => Object.fromEntries(properties.map(p => [p.id, shortAddress(p.address)])),
+    [properties]
+  );
+  const rankingData = rows.map(r => ({ propertyId: r.propertyId, name: shortNames[r.propertyId], value: r[metric] ?? 0 }));
+
+  const isLoading = isLoadingRent || isLoadingExpenses || isLoadingRepairs || isLoadingTenants;
+
+  const handleExportCsv = () => {
+    if (!range) return;
+    downloadFile(performanceToCsv(rows, propertyNames, range.from, range.to), `Property-Performance-${format(range.from, 'yyyy-MM-dd')}-to-${format(range.to, 'yyyy-MM-dd')}.csv`, 'text/csv');
+    toast({ title: 'Performance CSV Exported' });
+  };
+
+  const handleExportPdf = async () => {
+    if (!range || !totals) return;
+    setIsExporting(true);
+    try {
+      await generatePerformancePDF(rows, totals, propertyNames, range, metric, landlordName);
+      toast({ title: 'Performance Report Generated' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6 border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
+      <CardHeader className="bg-primary/5 border-b border-primary/10 px-8 py-8">
+        <CardTitle className="text-xl font-headline flex items-center gap-3 text-foreground"><BarChart3 className="h-6 w-6 text-primary" /> Property Performance</CardTitle>
+        <CardDescription className="text-base font-medium">Profit and loss, yield, return on cash invested and occupancy for each property. Yields and ROI are annualised.</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-8 px-8 pb-8 space-y-8">
+        <div className="grid gap-4 md:grid-cols-4">
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Period</Label>
+            <Select value={preset} onValueChange={(v) => setPreset(v as RangePreset)}>
+              <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                {Object.entries(RANGE_PRESETS).map(([value, label]) => <SelectItem key={value} value={value} className="py-3 font-medium">{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">From</Label>
+            <Input type="date" className="h-12 border-2 rounded-xl" value={fromInput} onChange={(e) => { setPreset('custom'); setFromInput(e.target.value); }} />
+          </div>
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">To</Label>
+            <Input type="date" className="h-12 border-2 rounded-xl" value={toInput} onChange={(e) => { setPreset('custom'); setToInput(e.target.value); }} />
+          </div>
+          <div className="grid gap-1.5">
+            <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">Rank By</Label>
+            <Select value={metric} onValueChange={(v) => setMetric(v as PerformanceMetric)}>
+              <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue /></SelectTrigger>
+              <SelectContent className="rounded-xl border-2 shadow-2xl">
+                {Object.entries(PERFORMANCE_METRIC_LABELS).map(([value, label]) => <SelectItem key={value} value={value} className="py-3 font-medium">{label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex h-48 items-center justify-center"><Loader2 className="h-10 w-10 animate-spin text-primary" /></div>
+        ) : !range || !totals ? (
+          <p className="text-sm text-destructive font-medium">Choose a valid date range: the end date must be on or after the start date.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Net Profit', value: formatCurrency(totals.netProfit), negative: totals.netProfit < 0 },
+                { label: 'Gross / Net Yield', value: `${formatPercent(totals.grossYield)} / ${formatPercent(totals.netYield)}` },
+                { label: 'ROI on Cash', value: formatPercent(totals.roi), negative: (totals.roi ?? 0) < 0 },
+                { label: 'Occupancy', value: formatPercent(totals.occupancyRate) },
+              ].map(stat => (
+                <div key={stat.label} className="rounded-2xl border bg-muted/10 p-4">
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">{stat.label}</p>
+                  <p className={cn('text-lg font-black tabular-nums', stat.negative ? 'text-destructive' : 'text-foreground')}>{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="rounded-2xl border p-4 space-y-2">
+                <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Ranking: {PERFORMANCE_METRIC_LABELS[metric]}</p>
+                <ChartContainer config={rankingConfig} className="aspect-auto h-[240px] w-full">
+                  <BarChart data={rankingData} layout="vertical" margin={{ left: 8, right: 12 }}>
+                    <CartesianGrid horizontal={false} strokeDasharray="3 3" opacity={0.1} />
+                    <XAxis type="number" hide />
+                    <YAxis type="category" dataKey="name" width={110} tickLine={false} axisLine={false} fontSize={10} />
+                    <ChartTooltip cursor={false} content={<ChartTooltipContent formatter={(value) => formatMetric(metric, Number(value))} />} />
+                    <Bar dataKey="value" radius={4} onClick={(d: any) => setFocusId(d.propertyId)} className="cursor-pointer">
+                      {rankingData.map(d => (
+                        <Cell key={d.propertyId} fill={d.value < 0 ? 'hsl(var(--destructive))' : 'var(--color-value)'} opacity={focusId === 'all' || focusId === d.propertyId ? 1 : 0.4} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div className="rounded-2xl border p-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">Monthly P&amp;L: {focusId === 'all' ? 'Portfolio' : shortNames[focusId]}</p>
+                  {focusId !== 'all' && <Button variant="ghost" size="sm" className="h-6 text-[10px] font-bold uppercase" onClick={() => setFocusId('all')}>Show Portfolio</Button>}
+                </div>
+                <ChartContainer config={monthlyConfig} className="aspect-auto h-[240px] w-full">
+                  <BarChart data={monthly} margin={{ left: 12, right: 12, top: 12 }}>
+                    <CartesianGrid vertical={false} strokeDasharray="3 3" opacity={0.1} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} fontSize={10} fontWeight="bold" />
+                    <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                    <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+                    <Bar dataKey="costs" fill="var(--color-costs)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </div>
+
+            <div className="rounded-2xl border overflow-x-auto">
+              <Table>
+                <TableHeader className="bg-muted/30">
+                  <TableRow>
+                    <TableHead className="pl-6 w-10 font-bold uppercase text-[10px] tracking-widest">#</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Property</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Income</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Op. Costs</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Finance</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Net Profit</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Gross Yield</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">Net Yield</TableHead>
+                    <TableHead className="text-right font-bold uppercase text-[10px] tracking-widest">ROI</TableHead>
+                    <TableHead className="pr-6 text-right font-bold uppercase text-[10px] tracking-widest">Occupancy</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((r, i) => (
+                    <TableRow key={r.propertyId} className={cn('cursor-pointer', focusId === r.propertyId && 'bg-primary/5')} onClick={() => setFocusId(r.propertyId)}>
+                      <TableCell className="pl-6 font-bold">{i + 1}</TableCell>
+                      <TableCell className="text-sm font-medium">
+                        {propertyNames[r.propertyId]}
+                        {r.valueBasis === 'purchase' && <span className="block text-[10px] text-muted-foreground">Yield on purchase price (no valuation recorded)</span>}
+                        {r.capitalSpend > 0 && <span className="block text-[10px] text-muted-foreground">Capital spend {formatCurrency(r.capitalSpend)} not deducted</span>}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(r.income)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(r.operatingCosts)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatCurrency(r.financeCosts)}</TableCell>
+                      <TableCell className={cn('text-right font-bold tabular-nums', r.netProfit < 0 && 'text-destructive')}>{formatCurrency(r.netProfit)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatPercent(r.grossYield)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatPercent(r.netYield)}</TableCell>
+                      <TableCell className="text-right tabular-nums">{formatPercent(r.roi)}</TableCell>
+                      <TableCell className="pr-6 text-right tabular-nums">{formatPercent(r.occupancyRate)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {rows.length === 0 && (
+                    <TableRow><TableCell colSpan={10} className="h-24 text-center text-muted-foreground italic">No properties to analyse.</TableCell></TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground italic">
+              Yields use the current valuation, or the purchase price where none is recorded. ROI is net profit after finance costs over cash invested, set on each property&apos;s edit page. Occupancy is taken from tenancy start and end dates.
+            </p>
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="p-8 bg-muted/5 border-t flex flex-col sm:flex-row justify-end gap-4">
+        <Button variant="outline" onClick={handleExportCsv} disabled={isLoading || !range} className="font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl gap-2">
+          <FileSpreadsheet className="h-4 w-4" /> Performance CSV
+        </Button>
+        <Button onClick={handleExportPdf} disabled={isLoading || !range || isExporting} className="shadow-lg font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl gap-2">
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} Performance PDF
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,437 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where, limit } from 'firebase/firestore';
+import { Loader2, Scale, PawPrint, Plus, Edit, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  PET_DECISION_LABELS,
+  PET_INFO_RESPONSE_DAYS,
+  PET_REQUEST_RESPONSE_DAYS,
+  READINESS_ITEM_STATUS_LABELS,
+  TENANCY_READINESS_LABELS,
+  assessTenancyReadiness,
+  newPetRequestId,
+  petResponseDeadline,
+  savePetRequests,
+  summariseReadiness,
+  type PetDecision,
+  type PetRequest,
+  type ReadinessItemStatus,
+  type ReadinessRecords,
+  type ReadinessTenancy,
+  type TenancyReadinessStatus,
+} from '@/lib/renters-rights';
+import type { ServiceEvent } from '@/lib/document-service';
+
+const ITEM_STYLES: Record<ReadinessItemStatus, string> = {
+  ok: 'bg-green-50 text-green-700 border-green-200',
+  action: 'bg-amber-50 text-amber-700 border-amber-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  info: 'bg-muted text-muted-foreground',
+};
+
+const READINESS_STYLES: Record<TenancyReadinessStatus, string> = {
+  ready: 'bg-green-50 text-green-700 border-green-200',
+  action_needed: 'bg-amber-50 text-amber-700 border-amber-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  not_applicable: 'bg-muted text-muted-foreground',
+};
+
+const petRequestSchema = z.object({
+  requestedDate: z.string().min(1, 'Enter the date the request was made.'),
+  description: z.string().min(1, 'Describe the pet.'),
+  decision: z.enum(['pending', 'info_requested', 'approved', 'refused']),
+  infoRequestedDate: z.string().optional(),
+  infoReceivedDate: z.string().optional(),
+  decisionDate: z.string().optional(),
+  reason: z.string().optional(),
+}).superRefine((values, ctx) => {
+  if (values.decision === 'refused' && !values.reason?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['reason'], message: 'Give the reason for refusing.' });
+  }
+  if ((values.decision === 'approved' || values.decision === 'refused') && !values.decisionDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['decisionDate'], message: 'Enter the date the tenant was told.' });
+  }
+});
+
+type PetRequestFormValues = z.infer<typeof petRequestSchema>;
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+interface RentersRightsCardProps {
+  tenant: ReadinessTenancy & { propertyId: string };
+  postcode?: string;
+  rentCharges: any[];
+  arrears?: ReadinessRecords['arrears'];
+}
+
+/**
+ * Which Renters' Rights Act changes affect a tenancy and what is outstanding,
+ * with the tenancy's pet requests and their response deadlines.
+ */
+export function RentersRightsCard({ tenant, postcode, rentCharges, arrears }: RentersRightsCardProps) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [editing, setEditing] = React.useState<PetRequest | 'new' | null>(null);
+  const [isSaving, setIsSaving] = React.useState(false);
+
+  const servicesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'documentServices'), where('landlordId', '==', user.uid), where('propertyId', '==', tenant.propertyId));
+  }, [user, firestore, tenant.propertyId]);
+  const { data: serviceEvents } = useCollection<ServiceEvent>(servicesQuery);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), where('propertyId', '==', tenant.propertyId), limit(200));
+  }, [user, firestore, tenant.propertyId]);
+  const { data: repairs } = useCollection<any>(repairsQuery);
+
+  const inspectionsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'inspections'), where('landlordId', '==', user.uid), where('propertyId', '==', tenant.propertyId));
+  }, [user, firestore, tenant.propertyId]);
+  const { data: inspections } = useCollection<any>(inspectionsQuery);
+
+  const readiness = React.useMemo(() => {
+    if (!serviceEvents || !repairs || !inspections) return null;
+    return assessTenancyReadiness(tenant, { postcode, rentCharges, serviceEvents, repairs, inspections, arrears });
+  }, [tenant, postcode, rentCharges, serviceEvents, repairs, inspections, arrears]);
+
+  const petRequests = tenant.petRequests || [];
+
+  const form = useForm<PetRequestFormValues>({
+    resolver: zodResolver(petRequestSchema),
+    defaultValues: { requestedDate: '', description: '', decision: 'pending' },
+  });
+  const watchDecision = form.watch('decision');
+
+  const openPetRequest = (request: PetRequest | 'new') => {
+    form.reset(request === 'new'
+      ? { requestedDate: format(new Date(), 'yyyy-MM-dd'), description: '', decision: 'pending', infoRequestedDate: '', infoReceivedDate: '', decisionDate: '', reason: '' }
+      : {
+          requestedDate: request.requestedDate,
+          description: request.description,
+          decision: request.decision,
+          infoRequestedDate: request.infoRequestedDate || '',
+          infoReceivedDate: request.infoReceivedDate || '',
+          decisionDate: request.decisionDate || '',
+          reason: request.reason || '',
+        });
+    setEditing(request);
+  };
+
+  const onSavePetRequest = async (values: PetRequestFormValues) => {
+    if (!firestore || !editing) return;
+    setIsSaving(true);
+    try {
+      const decided = values.decision === 'approved' || values.decision === 'refused';
+      const request: PetRequest = {
+        id: editing === 'new' ? newPetRequestId() : editing.id,
+        requestedDate: values.requestedDate,
+        description: values.description.trim(),
+        decision: values.decision,
+        infoRequestedDate: values.decision === 'pending' ? undefined : values.infoRequestedDate || undefined,
+        infoReceivedDate: values.decision === 'pending' ? undefined : values.infoReceivedDate || undefined,
+        decisionDate: decided ? values.decisionDate : undefined,
+        reason: values.decision === 'refused' ? values.reason?.trim() : undefined,
+      };
+      await savePetRequests(firestore, tenant.id, editing === 'new'
+        ? [...petRequests, request]
+        : petRequests.map(r => (r.id === request.id ? request : r)));
+      toast({ title: 'Pet Request Saved' });
+      setEditing(null);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The pet request could not be saved.' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-none overflow-hidden text-left">
+      <CardHeader className="pb-4 bg-muted/20 border-b flex flex-row items-center justify-between">
+        <div className="text-left">
+          <CardTitle className="text-lg font-headline flex items-center gap-2"><Scale className="h-5 w-5 text-primary" /> Renters&apos; Rights Act</CardTitle>
+          <CardDescription>
+            {!readiness
+              ? 'Checking this tenancy…'
+              : readiness.status === 'not_applicable'
+                ? 'The Act applies to tenancies in England only.'
+                : readiness.outstanding.length
+                  ? `${readiness.outstanding.length} action(s) outstanding since the Act took effect on 1 May 2026.`
+                  : 'This tenancy is ready for the changes in force from 1 May 2026.'}
+          </CardDescription>
+        </div>
+        {readiness && (
+          <Badge variant="outline" className={cn('text-[10px] font-bold uppercase', READINESS_STYLES[readiness.status])}>
+            {TENANCY_READINESS_LABELS[readiness.status]}
+          </Badge>
+        )}
+      </CardHeader>
+      {!readiness ? (
+        <CardContent className="py-8 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary/20" /></CardContent>
+      ) : readiness.status !== 'not_applicable' && (
+        <CardContent className="pt-6 space-y-3">
+          {readiness.items.map(item => (
+            <div key={item.area} className="rounded-xl border bg-background p-3 space-y-1">
+              <div className="flex items-start justify-between gap-2">
+                <p className="text-sm font-bold">{item.label}</p>
+                <Badge variant="outline" className={cn('text-[9px] font-bold uppercase shrink-0', ITEM_STYLES[item.status])}>{READINESS_ITEM_STATUS_LABELS[item.status]}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground leading-snug">{item.detail}</p>
+              {item.action && (
+                <p className={cn('text-xs font-medium', item.status === 'overdue' ? 'text-destructive' : 'text-amber-700')}>
+                  {item.action}{item.dueDate && ` Due ${formatDate(item.dueDate)}.`}
+                </p>
+              )}
+            </div>
+          ))}
+
+          <div className="pt-2 space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] text-muted-foreground uppercase font-bold tracking-[0.2em] flex items-center gap-1"><PawPrint className="h-3 w-3" /> Pet Requests</p>
+              <Button variant="outline" size="sm" className="h-7 text-[10px] font-bold uppercase" onClick={() => openPetRequest('new')}><Plus className="mr-1 h-3 w-3" /> Log Request</Button>
+            </div>
+            {petRequests.length === 0 ? (
+              <p className="text-xs text-muted-foreground italic">No pet requests logged.</p>
+            ) : (
+              petRequests.map(r => {
+                const deadline = petResponseDeadline(r);
+                const open = r.decision === 'pending' || r.decision === 'info_requested';
+                return (
+                  <div key={r.id} className="rounded-xl border bg-background p-3 flex items-start justify-between gap-2">
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="text-xs font-bold">{r.description}</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        Requested {formatDate(r.requestedDate)}
+                        {open && deadline && <> · Answer by <span className="font-bold text-foreground">{format(deadline, 'dd/MM/yyyy')}</span></>}
+                        {!open && r.decisionDate && <> · Decided {formatDate(r.decisionDate)}</>}
+                      </p>
+                      {r.reason && <p className="text-[10px] text-muted-foreground">{r.reason}</p>}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Badge variant="outline" className="text-[9px] font-bold uppercase">{PET_DECISION_LABELS[r.decision]}</Badge>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => openPetRequest(r)}><Edit className="h-3.5 w-3.5" /></Button>
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </CardContent>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="text-left">
+          <DialogHeader>
+            <DialogTitle>Pet Request</DialogTitle>
+            <DialogDescription>
+              Answer in writing within {PET_REQUEST_RESPONSE_DAYS} days. Asking for more information pauses the clock; you then have {PET_INFO_RESPONSE_DAYS} days from receiving it.
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSavePetRequest)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="requestedDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date Requested</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="decision" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>{(Object.keys(PET_DECISION_LABELS) as PetDecision[]).map(d => <SelectItem key={d} value={d}>{PET_DECISION_LABELS[d]}</SelectItem>)}</SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              </div>
+              <FormField control={form.control} name="description" render={({ field }) => (
+                <FormItem><FormLabel>Pet</FormLabel><FormControl><Input placeholder="e.g. One adult cat" {...field} /></FormControl><FormMessage /></FormItem>
+              )} />
+              {watchDecision !== 'pending' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField control={form.control} name="infoRequestedDate" render={({ field }) => (
+                    <FormItem><FormLabel>Information Asked For</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                  <FormField control={form.control} name="infoReceivedDate" render={({ field }) => (
+                    <FormItem><FormLabel>Information Received</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                </div>
+              )}
+              {(watchDecision === 'approved' || watchDecision === 'refused') && (
+                <FormField control={form.control} name="decisionDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date Tenant Told</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+              )}
+              {watchDecision === 'refused' && (
+                <FormField control={form.control} name="reason" render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason for Refusal</FormLabel>
+                    <FormControl><Textarea rows={3} placeholder="e.g. Superior lease prohibits animals in the building" {...field} /></FormControl>
+                    <FormDescription className="text-xs">Consent cannot be unreasonably refused; the tenant can complain to the ombudsman or go to court.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+              )}
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={isSaving}>{isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Request</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/**
+ * Portfolio rollup for the main dashboard: how many active tenancies are ready
+ * for the Renters' Rights Act, and the tenancies with actions outstanding.
+ */
+export function RentersRightsSummaryCard() {
+  const { user } = useUser();
+  const firestore = useFirestore();
+
+  const tenantsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'tenants'), where('landlordId', '==', user.uid), where('status', '==', 'Active'));
+  }, [user, firestore]);
+  const { data: tenants, isLoading: isLoadingTenants } = useCollection<any>(tenantsQuery);
+
+  const propertiesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'properties'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: properties } = useCollection<any>(propertiesQuery);
+
+  const chargesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentCharges'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: rentCharges } = useCollection<any>(chargesQuery);
+
+  const servicesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'documentServices'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: serviceEvents } = useCollection<ServiceEvent>(servicesQuery);
+
+  const repairsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'repairs'), where('landlordId', '==', user.uid), limit(500));
+  }, [user, firestore]);
+  const { data: repairs } = useCollection<any>(repairsQuery);
+
+  const inspectionsQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'inspections'), where('landlordId', '==', user.uid), limit(500));
+  }, [user, firestore]);
+  const { data: inspections } = useCollection<any>(inspectionsQuery);
+
+  const results = React.useMemo(() => {
+    if (!tenants || !properties || !rentCharges || !serviceEvents || !repairs || !inspections) return null;
+    return tenants.map(tenant => {
+      const property = properties.find(p => p.id === tenant.propertyId);
+      return {
+        tenant,
+        readiness: assessTenancyReadiness(tenant, {
+          postcode: property?.address?.postcode,
+          rentCharges,
+          serviceEvents: serviceEvents.filter(e => e.propertyId === tenant.propertyId),
+          repairs,
+          inspections,
+        }),
+      };
+    });
+  }, [tenants, properties, rentCharges, serviceEvents, repairs, inspections]);
+
+  const rollup = results ? summariseReadiness(results.map(r => r.readiness)) : null;
+  const attention = (results || [])
+    .filter(r => r.readiness.status === 'overdue' || r.readiness.status === 'action_needed')
+    .sort((a, b) => (a.readiness.status === b.readiness.status ? 0 : a.readiness.status === 'overdue' ? -1 : 1));
+
+  return (
+    <Card className="border-none shadow-lg text-left">
+      <CardHeader className="border-b pb-4 text-left">
+        <CardTitle className="text-sm font-bold flex items-center gap-2">
+          <Scale className="h-4 w-4 text-primary" />
+          Renters&apos; Rights Readiness
+        </CardTitle>
+        <CardDescription className="text-xs">Active tenancies in England against the Act.</CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        {isLoadingTenants || !rollup ? (
+          <div className="py-8 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary/20" /></div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 divide-x border-b">
+              {([
+                ['Ready', rollup.ready, 'text-green-700'],
+                ['Action', rollup.actionNeeded, 'text-amber-700'],
+                ['Overdue', rollup.overdue, 'text-destructive'],
+              ] as const).map(([label, count, colour]) => (
+                <div key={label} className="p-4 text-center">
+                  <p className={cn('text-xl font-bold tabular-nums', count > 0 && colour)}>{count}</p>
+                  <p className="text-[9px] uppercase font-bold tracking-widest text-muted-foreground">{label}</p>
+                </div>
+              ))}
+            </div>
+            {attention.length === 0 ? (
+              <div className="p-8 text-center text-xs text-muted-foreground italic">No outstanding actions.</div>
+            ) : (
+              <div className="divide-y">
+                {attention.slice(0, 5).map(({ tenant, readiness }) => (
+                  <div key={tenant.id} className="p-4 flex items-center justify-between hover:bg-muted/5 transition-colors">
+                    <div className="text-left min-w-0">
+                      <p className="text-xs font-bold truncate">{tenant.name || 'Unnamed tenant'}</p>
+                      <p className={cn('text-[10px] mt-0.5 truncate', readiness.status === 'overdue' ? 'text-destructive' : 'text-muted-foreground')}>
+                        {readiness.outstanding.map(i => i.label).join(', ')}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" asChild className="h-8 w-8 shrink-0"><Link href={`/dashboard/tenants/${tenant.id}`}><ChevronRight className="h-3.5 w-3.5" /></Link></Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+      {rollup && rollup.notApplicable > 0 && (
+        <CardFooter className="pt-4 pb-4 border-t bg-muted/5">
+          <p className="text-[10px] text-muted-foreground">{rollup.notApplicable} tenancy(ies) outside England not assessed.</p>
+        </CardFooter>
+      )}
+    </Card>
+  );
+}
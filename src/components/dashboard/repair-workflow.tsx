@@ -0,0 +1,158 @@
+'use client';
+
+import * as React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useUser, useFirestore } from '@/firebase';
+import { Loader2, Timer, History, ArrowRight } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  REPAIR_STATE_LABELS,
+  SLA_STATUS_LABELS,
+  assessRepairSla,
+  currentSlaTimer,
+  nextRepairStates,
+  repairHistory,
+  repairState,
+  transitionRepair,
+  type RepairState,
+  type SlaStatus,
+  type SlaTimer,
+  type WorkflowRepair,
+} from '@/lib/repair-workflow';
+
+const SLA_STYLES: Record<SlaStatus, string> = {
+  on_track: 'bg-green-50 text-green-700 border-green-200',
+  due_soon: 'bg-amber-50 text-amber-700 border-amber-200',
+  breached: 'bg-destructive/10 text-destructive border-destructive/30',
+  met: 'bg-green-50 text-green-700 border-green-200',
+  missed: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+/** The deadline that currently applies to a repair; nothing for cancelled repairs. */
+export function RepairSlaBadge({ repair, className }: { repair: WorkflowRepair; className?: string }) {
+  const timer = currentSlaTimer(assessRepairSla(repair));
+  if (!timer) return null;
+  const open = timer.status !== 'met' && timer.status !== 'missed';
+  return (
+    <Badge
+      variant="outline"
+      className={cn('text-[10px] font-bold whitespace-nowrap', SLA_STYLES[timer.status], className)}
+      title={`Deadline ${format(timer.deadline, 'dd/MM/yyyy HH:mm')}`}
+    >
+      {SLA_STATUS_LABELS[timer.status]}
+      {open && ` · ${timer.status === 'breached' ? 'due' : 'due in'} ${formatDistanceToNow(timer.deadline, { addSuffix: timer.status === 'breached' })}`}
+    </Badge>
+  );
+}
+
+function SlaRow({ label, timer }: { label: string; timer: SlaTimer | null }) {
+  if (!timer) return null;
+  return (
+    <div className="flex items-center justify-between gap-3 text-sm">
+      <div>
+        <p className="font-medium">{label}</p>
+        <p className="text-xs text-muted-foreground">
+          Due {format(timer.deadline, 'dd/MM/yyyy HH:mm')}
+          {timer.metAt && `, reached ${format(timer.metAt, 'dd/MM/yyyy HH:mm')}`}
+        </p>
+      </div>
+      <Badge variant="outline" className={cn('text-[10px] font-bold', SLA_STYLES[timer.status])}>{SLA_STATUS_LABELS[timer.status]}</Badge>
+    </div>
+  );
+}
+
+/** Current state, SLA timers, the moves available from here and the event history. */
+export function RepairWorkflowCard({ repair }: { repair: WorkflowRepair }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [note, setNote] = React.useState('');
+  const [moving, setMoving] = React.useState<RepairState | null>(null);
+
+  const state = repairState(repair);
+  const sla = assessRepairSla(repair);
+  const next = nextRepairStates(repair);
+  const history = repairHistory(repair).slice().reverse();
+
+  const move = async (to: RepairState) => {
+    if (!firestore || !user) return;
+    setMoving(to);
+    try {
+      await transitionRepair(firestore, repair, to, { actor: { uid: user.uid, name: user.displayName || user.email }, note });
+      setNote('');
+      toast({ title: 'Repair Updated', description: `Moved to ${REPAIR_STATE_LABELS[to]}.` });
+    } catch (e: any) {
+      toast({ variant: 'destructive', title: 'Update Failed', description: e?.message || 'Could not update the repair.' });
+    } finally {
+      setMoving(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2"><Timer className="h-5 w-5 text-primary" />Workflow</CardTitle>
+        <CardDescription>Currently <strong className="text-foreground">{REPAIR_STATE_LABELS[state]}</strong></CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(sla.response || sla.resolution) && (
+          <div className="space-y-3">
+            <SlaRow label="Response (triage)" timer={sla.response} />
+            <SlaRow label="Resolution" timer={sla.resolution} />
+          </div>
+        )}
+
+        {next.length > 0 && (
+          <div className="space-y-3 border-t pt-4">
+            <Label htmlFor="transition-note" className="text-xs font-bold uppercase tracking-widest text-muted-foreground">Note (optional)</Label>
+            <Textarea id="transition-note" value={note} onChange={e => setNote(e.target.value)} placeholder="e.g. Quote received from contractor" className="min-h-[60px]" />
+            <div className="flex flex-wrap gap-2">
+              {next.map(to => (
+                <Button
+                  key={to}
+                  size="sm"
+                  variant={to === 'cancelled' ? 'outline' : 'default'}
+                  className={cn('gap-1.5', to === 'cancelled' && 'text-destructive')}
+                  disabled={!!moving}
+                  onClick={() => move(to)}
+                >
+                  {moving === to ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ArrowRight className="h-3.5 w-3.5" />}
+                  {REPAIR_STATE_LABELS[to]}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3 border-t pt-4">
+          <p className="text-xs font-bold uppercase tracking-widest text-muted-foreground flex items-center gap-1.5"><History className="h-3.5 w-3.5" />History</p>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Logged before the repair history was recorded.</p>
+          ) : (
+            <ol className="space-y-3">
+              {history.map(event => {
+                const at = safeToDate(event.at);
+                return (
+                  <li key={`${event.state}-${event.at}`} className="border-l-2 border-primary/30 pl-3">
+                    <p className="text-sm font-semibold">{REPAIR_STATE_LABELS[event.state] || event.state}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {at ? format(at, 'dd/MM/yyyy HH:mm') : 'Unknown time'}
+                      {event.byName && ` by ${event.byName}`}
+                    </p>
+                    {event.note && <p className="text-xs mt-1 whitespace-pre-wrap">{event.note}</p>}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
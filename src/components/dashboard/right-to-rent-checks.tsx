@@ -0,0 +1,350 @@
+'use client';
+
+import * as React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { useUser, useFirestore, useCollection, useMemoFirebase } from '@/firebase';
+import { collection, query, where } from 'firebase/firestore';
+import { Loader2, Plus, Fingerprint, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  OCCUPIER_CHECK_STATUS_LABELS,
+  RIGHT_TO_RENT_CHECK_TYPE_LABELS,
+  RIGHT_TO_RENT_METHOD_LABELS,
+  RIGHT_TO_RENT_OUTCOME_LABELS,
+  formatShareCode,
+  isValidShareCode,
+  newOccupierId,
+  occupierStatuses,
+  recordRightToRentCheck,
+  sortChecks,
+  type OccupierCheckStatus,
+  type RightToRentCheck,
+  type RightToRentMethod,
+  type RightToRentOutcome,
+} from '@/lib/right-to-rent';
+
+const NEW_OCCUPIER = 'new';
+
+const checkSchema = z.object({
+  occupierId: z.string().min(1),
+  occupierName: z.string().optional(),
+  checkDate: z.string().min(1, 'Date of check is required.'),
+  method: z.enum(['manual', 'online', 'idvt', 'landlord_checking_service']),
+  shareCode: z.string().optional(),
+  outcome: z.enum(['unlimited', 'time_limited', 'pending', 'no_right']),
+  permissionExpiryDate: z.string().optional(),
+  notes: z.string().optional(),
+}).superRefine((d, ctx) => {
+  if (d.occupierId === NEW_OCCUPIER && !d.occupierName?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['occupierName'], message: 'Enter the occupier\'s name.' });
+  }
+  if (d.method === 'online' && !isValidShareCode(d.shareCode)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['shareCode'], message: 'Share codes are 9 letters and numbers.' });
+  }
+  if (d.outcome === 'time_limited' && !d.permissionExpiryDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['permissionExpiryDate'], message: 'Enter when the permission to stay ends.' });
+  }
+});
+
+type CheckFormValues = z.infer<typeof checkSchema>;
+
+const STATUS_STYLES: Record<OccupierCheckStatus, string> = {
+  clear: 'bg-green-50 text-green-700 border-green-200',
+  scheduled: 'bg-blue-50 text-blue-700 border-blue-200',
+  due: 'bg-amber-50 text-amber-800 border-amber-200',
+  overdue: 'bg-destructive/10 text-destructive border-destructive/30',
+  pending: 'bg-amber-50 text-amber-800 border-amber-200',
+  failed: 'bg-destructive/10 text-destructive border-destructive/30',
+};
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd MMM yyyy') : '—';
+};
+
+interface RightToRentTenant {
+  id: string;
+  name: string;
+  propertyId: string;
+}
+
+/**
+ * Right to Rent record for a tenancy: each adult occupier's current position,
+ * when their follow-up falls due, and the full history of checks. Checks are
+ * append-only so the log stands as evidence of the statutory excuse.
+ */
+export function RightToRentChecks({ tenant, screeningId }: { tenant: RightToRentTenant; screeningId: string }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [isDialogOpen, setIsDialogOpen] = React.useState(false);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  const checksQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rightToRentChecks'), where('landlordId', '==', user.uid), where('tenantId', '==', tenant.id));
+  }, [user, firestore, tenant.id]);
+  const { data: checks, isLoading } = useCollection<RightToRentCheck>(checksQuery);
+
+  const occupiers = React.useMemo(() => occupierStatuses(checks || []), [checks]);
+  const history = React.useMemo(() => sortChecks(checks || []).reverse(), [checks]);
+  const leadChecked = occupiers.some(o => o.isLeadTenant);
+
+  const form = useForm<CheckFormValues>({
+    resolver: zodResolver(checkSchema),
+    defaultValues: { occupierId: tenant.id, checkDate: '', method: 'online', outcome: 'unlimited' },
+  });
+  const watchOccupier = form.watch('occupierId');
+  const watchMethod = form.watch('method');
+  const watchOutcome = form.watch('outcome');
+
+  const openDialog = (occupierId?: string) => {
+    form.reset({
+      occupierId: occupierId ?? (leadChecked ? NEW_OCCUPIER : tenant.id),
+      occupierName: '',
+      checkDate: format(new Date(), 'yyyy-MM-dd'),
+      method: 'online',
+      shareCode: '',
+      outcome: 'unlimited',
+      permissionExpiryDate: '',
+      notes: '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const onSubmit = async (values: CheckFormValues) => {
+    if (!user || !firestore) return;
+    setIsSubmitting(true);
+    try {
+      const existing = occupiers.find(o => o.occupierId === values.occupierId);
+      const isLead = values.occupierId === tenant.id;
+      await recordRightToRentCheck(firestore, {
+        landlordId: user.uid,
+        propertyId: tenant.propertyId,
+        tenantId: tenant.id,
+        screeningId,
+        occupierId: values.occupierId === NEW_OCCUPIER ? newOccupierId() : values.occupierId,
+        occupierName: existing?.occupierName || (isLead ? tenant.name : values.occupierName!.trim()),
+        isLeadTenant: isLead,
+        checkType: existing ? 'follow_up' : 'initial',
+        checkDate: values.checkDate,
+        method: values.method as RightToRentMethod,
+        shareCode: values.method === 'online' ? values.shareCode : undefined,
+        outcome: values.outcome as RightToRentOutcome,
+        permissionExpiryDate: values.permissionExpiryDate,
+        notes: values.notes,
+        recordedBy: user.displayName || user.email || undefined,
+      });
+      toast({ title: 'Check Recorded', description: 'Added to the Right to Rent history.' });
+      setIsDialogOpen(false);
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Save Failed', description: 'The check could not be recorded.' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-md border-none overflow-hidden">
+      <CardHeader className="bg-muted/30 border-b px-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-headline flex items-center gap-2"><Fingerprint className="h-5 w-5 text-primary" /> Right to Rent Follow-up</CardTitle>
+            <CardDescription>Every adult occupier must be checked. Time-limited permission is re-checked before it ends, or 12 months after the last check if later.</CardDescription>
+          </div>
+          <Button size="sm" className="font-bold shrink-0" onClick={() => openDialog()}><Plus className="mr-2 h-4 w-4" /> Record Check</Button>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 px-6 pb-6 space-y-6">
+        {isLoading ? (
+          <div className="flex h-24 items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : !occupiers.length ? (
+          <p className="text-sm text-muted-foreground italic text-center py-4">No checks recorded yet. Record the initial check for {tenant.name} and any other adult living at the property.</p>
+        ) : (
+          <>
+            {occupiers.some(o => o.status === 'failed') && (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-destructive/5 text-destructive text-xs border border-destructive/30">
+                <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                <span>An occupier has no right to rent. Where a follow-up check fails the Home Office must be told promptly to keep the statutory excuse.</span>
+              </div>
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {occupiers.map(o => (
+                <div key={o.occupierId} className="p-4 rounded-xl bg-background border shadow-sm space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-bold text-sm">{o.occupierName}</p>
+                      <p className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">{o.isLeadTenant ? 'Lead Tenant' : 'Adult Occupier'}</p>
+                    </div>
+                    <Badge variant="outline" className={cn('text-[9px] uppercase font-bold shrink-0', STATUS_STYLES[o.status])}>{OCCUPIER_CHECK_STATUS_LABELS[o.status]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {RIGHT_TO_RENT_OUTCOME_LABELS[o.latest.outcome]} · checked {formatDate(o.latest.checkDate)}
+                    {o.latest.permissionExpiryDate && <> · permission ends {formatDate(o.latest.permissionExpiryDate)}</>}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs font-bold">{o.followUpDue ? `Next check by ${format(o.followUpDue, 'dd MMM yyyy')}` : 'No further checks required'}</p>
+                    {o.status !== 'clear' && (
+                      <Button variant="outline" size="sm" className="h-7 text-[10px] font-bold uppercase" onClick={() => openDialog(o.occupierId)}>Follow-up</Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="rounded-xl border overflow-hidden">
+              <Table>
+                <TableHeader className="bg-muted/30">
+                  <TableRow>
+                    <TableHead className="pl-4 font-bold uppercase text-[10px] tracking-widest">Date</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Occupier</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Check</TableHead>
+                    <TableHead className="font-bold uppercase text-[10px] tracking-widest">Outcome</TableHead>
+                    <TableHead className="pr-4 font-bold uppercase text-[10px] tracking-widest">Recorded</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(c => (
+                    <TableRow key={c.id}>
+                      <TableCell className="pl-4 text-sm tabular-nums whitespace-nowrap">{formatDate(c.checkDate)}</TableCell>
+                      <TableCell className="text-sm font-bold">{c.occupierName}</TableCell>
+                      <TableCell className="text-xs">
+                        <p className="font-bold">{RIGHT_TO_RENT_CHECK_TYPE_LABELS[c.checkType]}</p>
+                        <p className="text-muted-foreground">{RIGHT_TO_RENT_METHOD_LABELS[c.method]}</p>
+                        {c.shareCode && <p className="font-mono">{formatShareCode(c.shareCode)}</p>}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <p className="font-bold">{RIGHT_TO_RENT_OUTCOME_LABELS[c.outcome]}</p>
+                        {c.permissionExpiryDate && <p className="text-muted-foreground">Until {formatDate(c.permissionExpiryDate)}</p>}
+                        {c.notes && <p className="text-muted-foreground italic">{c.notes}</p>}
+                      </TableCell>
+                      <TableCell className="pr-4 text-[10px] text-muted-foreground">
+                        {format(safeToDate(c.createdDate) ?? new Date(), 'dd/MM/yyyy HH:mm')}
+                        {c.recordedBy && <p>{c.recordedBy}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg text-left">
+          <DialogHeader>
+            <DialogTitle>Record Right to Rent Check</DialogTitle>
+            <DialogDescription>Checks are kept as a permanent record and cannot be edited afterwards.</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField control={form.control} name="occupierId" render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Occupier</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                    <SelectContent>
+                      {!leadChecked && <SelectItem value={tenant.id}>{tenant.name} (lead tenant)</SelectItem>}
+                      {occupiers.map(o => <SelectItem key={o.occupierId} value={o.occupierId}>{o.occupierName}{o.isLeadTenant ? ' (lead tenant)' : ''}</SelectItem>)}
+                      <SelectItem value={NEW_OCCUPIER}>Another adult occupier…</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )} />
+              {watchOccupier === NEW_OCCUPIER && (
+                <FormField control={form.control} name="occupierName" render={({ field }) => (
+                  <FormItem><FormLabel>Occupier Name</FormLabel><FormControl><Input {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="checkDate" render={({ field }) => (
+                  <FormItem><FormLabel>Date of Check</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>
+                )} />
+                <FormField control={form.control} name="method" render={({ field }) => (
+                  <FormItem><FormLabel>Method</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(RIGHT_TO_RENT_METHOD_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+              </div>
+              {watchMethod === 'online' && (
+                <FormField control={form.control} name="shareCode" render={({ field }) => (
+                  <FormItem><FormLabel>Share Code</FormLabel><FormControl><Input placeholder="e.g. R12 345 67A" className="font-mono uppercase" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                )} />
+              )}
+              <div className="grid grid-cols-2 gap-4">
+                <FormField control={form.control} name="outcome" render={({ field }) => (
+                  <FormItem className={cn(watchOutcome !== 'time_limited' && 'col-span-2')}><FormLabel>Outcome</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl><SelectContent>{Object.entries(RIGHT_TO_RENT_OUTCOME_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent></Select><FormMessage /></FormItem>
+                )} />
+                {watchOutcome === 'time_limited' && (
+                  <FormField control={form.control} name="permissionExpiryDate" render={({ field }) => (
+                    <FormItem><FormLabel>Permission Ends</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+                  )} />
+                )}
+              </div>
+              {watchOutcome === 'pending' && (
+                <p className="text-xs text-muted-foreground">Record the Home Office reply as a follow-up check once it arrives.</p>
+              )}
+              <FormField control={form.control} name="notes" render={({ field }) => (
+                <FormItem><FormLabel>Notes</FormLabel><FormControl><Textarea placeholder="Documents seen, copies kept, Home Office reference…" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+              )} />
+              <DialogFooter className="pt-4">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+                <Button type="submit" disabled={isSubmitting}>{isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}Save Check</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+/** Outcome, permission expiry and share code inputs for the screening forms' Right to Rent section. */
+export function RightToRentScreeningFields({ form }: { form: any }) {
+  const outcome = form.watch('rightToRent.outcome');
+  const usedShareCode = form.watch('rightToRent.shareCode');
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <FormField control={form.control} name="rightToRent.outcome" render={({ field }) => (
+        <FormItem>
+          <FormLabel>Outcome</FormLabel>
+          <Select onValueChange={field.onChange} value={field.value ?? ''}>
+            <FormControl><SelectTrigger><SelectValue placeholder="Select outcome" /></SelectTrigger></FormControl>
+            <SelectContent>{Object.entries(RIGHT_TO_RENT_OUTCOME_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}</SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )} />
+      {outcome === 'time_limited' && (
+        <FormField control={form.control} name="rightToRent.permissionExpiryDate" render={({ field }) => (
+          <FormItem><FormLabel>Permission Ends</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+        )} />
+      )}
+      {usedShareCode && (
+        <FormField control={form.control} name="rightToRent.shareCodeReference" render={({ field }) => (
+          <FormItem><FormLabel>Share Code</FormLabel><FormControl><Input placeholder="e.g. R12 345 67A" className="font-mono uppercase" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>
+        )} />
+      )}
+    </div>
+  );
+}
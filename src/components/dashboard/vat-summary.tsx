@@ -0,0 +1,179 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUser, useFirestore, useCollection, useDoc, useMemoFirebase } from '@/firebase';
+import { collection, doc, query, where } from 'firebase/firestore';
+import { Loader2, Receipt, FileSpreadsheet, Download } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { downloadFile } from '@/lib/file-export';
+import { generateVatPDF } from '@/lib/generate-vat-pdf';
+import { formatMoney } from '@/lib/money';
+import {
+  VAT_BOX_LABELS,
+  VAT_STAGGER_LABELS,
+  buildVatReturn,
+  resolveVatProfile,
+  vatPeriods,
+  vatReturnToCsv,
+  type VatBox,
+} from '@/lib/vat';
+
+interface VatProperty {
+  id: string;
+  address: { nameOrNumber?: string; street: string; city: string; postcode: string };
+  vatOptedToTax?: boolean;
+}
+
+const formatCurrency = (val: number) => formatMoney(val);
+
+function formatAddress(address: VatProperty['address']) {
+  if (!address) return 'N/A';
+  return [address.nameOrNumber, address.street, address.city, address.postcode].filter(Boolean).join(', ');
+}
+
+export function VatSummaryReport({ properties }: { properties: VatProperty[] }) {
+  const { user } = useUser();
+  const firestore = useFirestore();
+  const [periodIndex, setPeriodIndex] = React.useState(1);
+  const [asOf, setAsOf] = React.useState<Date | null>(null);
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  React.useEffect(() => {
+    setAsOf(new Date());
+  }, []);
+
+  const profileRef = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return doc(firestore, 'users', user.uid);
+  }, [user, firestore]);
+  const { data: profile } = useDoc<any>(profileRef);
+  const vatProfile = React.useMemo(() => resolveVatProfile(profile?.vatProfile), [profile]);
+
+  // Every input is read uncapped: a truncated list understates the return, and legacy month-only payments have no paidDate to range on
+  const rentQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'rentPayments'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: rentPayments, isLoading: isLoadingRent } = useCollection(rentQuery);
+
+  const expensesQuery = useMemoFirebase(() => {
+    if (!user || !firestore) return null;
+    return query(collection(firestore, 'expenses'), where('landlordId', '==', user.uid));
+  }, [user, firestore]);
+  const { data: expenses, isLoading: isLoadingExpenses } = useCollection(expensesQuery);
+
+  const periods = React.useMemo(() => (asOf ? vatPeriods(vatProfile.stagger, asOf) : []), [vatProfile.stagger, asOf]);
+  const period = periods[periodIndex];
+  const isLoading = isLoadingRent || isLoadingExpenses || !period;
+
+  const summary = React.useMemo(() => {
+    if (!period) return null;
+    return buildVatReturn(period, { rentPayments: rentPayments || [], expenses: expenses || [] }, properties, vatProfile);
+  }, [period, rentPayments, expenses, properties, vatProfile]);
+
+  const propertyNames = React.useMemo(
+    () => Object.fromEntries(properties.map(p => [p.id, formatAddress(p.address)])),
+    [properties]
+  );
+
+  const handleExportPdf = async () => {
+    if (!summary) return;
+    setIsExporting(true);
+    try {
+      await generateVatPDF(summary, profile?.displayName || user?.displayName || '', vatProfile.vatNumber, propertyNames);
+      toast({ title: 'VAT Summary Generated' });
+    } catch (err) {
+      console.error(err);
+      toast({ variant: 'destructive', title: 'Export Failed' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    if (!summary) return;
+    downloadFile(vatReturnToCsv(summary, propertyNames), `VAT-Return-${format(summary.period.end, 'yyyy-MM')}.csv`, 'text/csv');
+    toast({ title: 'VAT CSV Exported' });
+  };
+
+  return (
+    <Card className="mt-6 border-none shadow-2xl rounded-[2rem] overflow-hidden text-left bg-card">
+      <CardHeader className="bg-primary/5 border-b border-primary/10 px-8 py-8">
+        <CardTitle className="text-xl font-headline flex items-center gap-3 text-foreground"><Receipt className="h-6 w-6 text-primary" /> VAT Return Summary</CardTitle>
+        <CardDescription className="text-base font-medium">
+          Nine-box VAT totals for the quarter{vatProfile.vatNumber ? ` (VAT No. ${vatProfile.vatNumber})` : ''}. Quarters end {VAT_STAGGER_LABELS[vatProfile.stagger]}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-8 px-8 pb-8 space-y-8">
+        {!vatProfile.registered && (
+          <p className="text-sm text-muted-foreground bg-muted/30 rounded-xl p-4">
+            You are not marked as VAT registered. Set your VAT number and quarter stagger in <Link href="/dashboard/settings" className="text-primary font-bold underline">Settings</Link>.
+          </p>
+        )}
+        <div className="grid gap-1.5 max-w-sm">
+          <Label className="font-bold uppercase text-[10px] tracking-widest text-muted-foreground px-1">VAT Period</Label>
+          <Select value={String(periodIndex)} onValueChange={(v) => setPeriodIndex(Number(v))}>
+            <SelectTrigger className="h-12 border-2 rounded-xl"><SelectValue placeholder="Period" /></SelectTrigger>
+            <SelectContent className="rounded-xl border-2 shadow-2xl">
+              {periods.map((p, i) => <SelectItem key={p.label} value={String(i)} className="py-3 font-medium">{p.label}{i === 0 ? ' (current)' : ''}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !summary ? (
+          <div className="flex h-48 items-center justify-center"><Loader2 className="h-10 w-10 animate-spin text-primary" /></div>
+        ) : (
+          <div className="rounded-2xl border overflow-hidden">
+            <Table>
+              <TableHeader className="bg-muted/30">
+                <TableRow>
+                  <TableHead className="pl-6 w-16 font-bold uppercase text-[10px] tracking-widest">Box</TableHead>
+                  <TableHead className="font-bold uppercase text-[10px] tracking-widest">Description</TableHead>
+                  <TableHead className="pr-6 text-right font-bold uppercase text-[10px] tracking-widest">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(Object.keys(VAT_BOX_LABELS).map(Number) as VatBox[]).map(b => (
+                  <TableRow key={b} className={cn(b === 5 && 'bg-primary/5 font-bold')}>
+                    <TableCell className="pl-6 font-bold">{b}</TableCell>
+                    <TableCell className="text-sm">{VAT_BOX_LABELS[b]}</TableCell>
+                    <TableCell className="pr-6 text-right font-bold tabular-nums">
+                      {b === 6 || b === 7 ? `£${summary.boxes[b].toLocaleString()}` : formatCurrency(summary.boxes[b])}
+                      {b === 5 && summary.boxes[5] > 0 && <span className="block text-[10px] uppercase tracking-widest text-muted-foreground">{summary.isRepayment ? 'Repayment due' : 'Payable'}</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {summary.irrecoverableVat > 0 && (
+                  <TableRow className="text-xs bg-amber-50/40">
+                    <TableCell className="pl-6" />
+                    <TableCell className="text-amber-800">Irrecoverable input VAT on costs of exempt residential lets (not in Box 4)</TableCell>
+                    <TableCell className="pr-6 text-right tabular-nums text-amber-800">{formatCurrency(summary.irrecoverableVat)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground italic">
+          Cash accounting basis. Residential rent is exempt; mark commercial properties where you have opted to tax on the property edit page. {summary ? `${summary.lines.length} transactions in this period.` : ''}
+        </p>
+      </CardContent>
+      <CardFooter className="p-8 bg-muted/5 border-t flex flex-col sm:flex-row justify-end gap-4">
+        <Button variant="outline" onClick={handleExportCsv} disabled={isLoading} className="font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl gap-2">
+          <FileSpreadsheet className="h-4 w-4" /> VAT CSV
+        </Button>
+        <Button onClick={handleExportPdf} disabled={isLoading || isExporting} className="shadow-lg font-bold uppercase tracking-widest text-[10px] h-12 px-8 rounded-xl gap-2">
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />} VAT Summary PDF
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
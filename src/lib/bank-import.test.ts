@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CSV_BANK_PRESETS,
+  classifyDebit,
+  csvToTransactions,
+  detectCsvPreset,
+  matchExpenseDebit,
+  matchRentCredit,
+  parseCsv,
+  parseOfx,
+  parseStatementAmount,
+  parseStatementDate,
+  propertyTokens,
+  readCsvStatement,
+  type BankTransaction,
+  type RentMatchCandidate,
+} from '@/lib/bank-import';
+
+const lloyds = CSV_BANK_PRESETS.find(p => p.id === 'lloyds')!;
+const hsbc = CSV_BANK_PRESETS.find(p => p.id === 'hsbc')!;
+
+const line = (amount: number, description: string, date = new Date(2025, 2, 1)): BankTransaction =>
+  ({ id: 'tx', date, amount, description, reference: '' });
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and blank lines', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n\r\n1, 2 ,3')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3'],
+    ]);
+  });
+});
+
+describe('readCsvStatement', () => {
+  it('synthesises headers for a headerless preset', () => {
+    const csv = readCsvStatement('01/03/2025,RENT J SMITH,950.00\n', hsbc);
+    expect(csv.headers).toEqual(['Date', 'Description', 'Amount']);
+    expect(csv.rows).toHaveLength(1);
+  });
+
+  it('strips a byte order mark and splits off the header row', () => {
+    const csv = readCsvStatement('﻿Date,Description\n01/03/2025,x');
+    expect(csv.headers).toEqual(['Date', 'Description']);
+  });
+});
+
+describe('detectCsvPreset', () => {
+  it('picks the bank whose columns are all present', () => {
+    expect(detectCsvPreset(['Transaction Date', 'Transaction Type', 'Transaction Description', 'Debit Amount', 'Credit Amount', 'Balance'])?.id).toBe('lloyds');
+    expect(detectCsvPreset(['Foo', 'Bar'])).toBeUndefined();
+  });
+});
+
+describe('parseStatementDate', () => {
+  it('reads the UK statement date formats', () => {
+    expect(parseStatementDate('05/03/2025')).toEqual(new Date(2025, 2, 5));
+    expect(parseStatementDate('2025-03-05')).toEqual(new Date(2025, 2, 5));
+    expect(parseStatementDate('5 Mar 2025')).toEqual(new Date(2025, 2, 5));
+    expect(parseStatementDate('2025-03-05 14:30:00')).toEqual(new Date(2025, 2, 5));
+    expect(parseStatementDate('not a date')).toBeNull();
+  });
+});
+
+describe('parseStatementAmount', () => {
+  it('reads signs, brackets and credit/debit markers', () => {
+    expect(parseStatementAmount('£1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('(12.00)')).toBe(-12);
+    expect(parseStatementAmount('12.00 DR')).toBe(-12);
+    expect(parseStatementAmount('12.00CR')).toBe(12);
+    expect(parseStatementAmount('n/a')).toBeNull();
+  });
+});
+
+describe('csvToTransactions', () => {
+  const text = [
+    'Transaction Date,Transaction Type,Transaction Description,Debit Amount,Credit Amount',
+    '01/03/2025,FPI,J SMITH RENT,,950.00',
+    '02/03/2025,DD,BRITISH GAS,45.10,',
+    '02/03/2025,DD,BRITISH GAS,45.10,',
+    '03/03/2025,FPI,ZERO LINE,,',
+  ].join('\n');
+
+  it('signs split debit and credit columns and skips empty lines', () => {
+    const txs = csvToTransactions(readCsvStatement(text), lloyds.mapping);
+    expect(txs.map(t => t.amount)).toEqual([950, -45.1, -45.1]);
+    expect(txs[0].reference).toBe('FPI');
+  });
+
+  it('gives identical lines distinct ids that are stable across imports', () => {
+    const first = csvToTransactions(readCsvStatement(text), lloyds.mapping);
+    const again = csvToTransactions(readCsvStatement(text), lloyds.mapping);
+    expect(first[1].id).not.toBe(first[2].id);
+    expect(again.map(t => t.id)).toEqual(first.map(t => t.id));
+  });
+
+  it('rejects a mapping that does not fit the file', () => {
+    expect(() => csvToTransactions({ headers: ['A'], rows: [] }, lloyds.mapping)).toThrow();
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads SGML statement lines with their FITID', () => {
+    const ofx = `<OFX><ACCTID>12345678
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250301120000<TRNAMT>950.00<FITID>A1<NAME>J SMITH<MEMO>RENT FLAT 2
+</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250302<TRNAMT>-45.10<FITID>A2<MEMO>BRITISH GAS
+</STMTTRN></OFX>`;
+    const txs = parseOfx(ofx);
+    expect(txs).toHaveLength(2);
+    expect(txs[0]).toMatchObject({ amount: 950, description: 'J SMITH', reference: 'RENT FLAT 2', externalId: 'A1', account: '12345678' });
+    expect(txs[0].date).toEqual(new Date(2025, 2, 1));
+    expect(txs[1]).toMatchObject({ amount: -45.1, description: 'BRITISH GAS', reference: '' });
+  });
+});
+
+describe('reconciliation', () => {
+  const candidate = (tenantId: string, tenantName: string, monthlyRent: number): RentMatchCandidate => ({
+    tenantId,
+    propertyId: `p-${tenantId}`,
+    tenantName,
+    monthlyRent,
+    expectedAmounts: [],
+    propertyTokens: propertyTokens({ street: 'Acacia Road', postcode: 'M1 1AA' }),
+  });
+
+  it('builds property tokens from the street and postcode', () => {
+    expect(propertyTokens({ street: 'Acacia Road', postcode: 'm1 1aa' })).toEqual(['ACACIA', 'M11AA']);
+  });
+
+  it('matches a credit on amount and tenant name', () => {
+    const result = matchRentCredit(line(950, 'J SMITH'), [candidate('t1', 'Jane Smith', 950), candidate('t2', 'Tom Jones', 800)]);
+    expect(result.status).toBe('matched');
+    expect(result.tenantId).toBe('t1');
+    expect(result.reason).toContain('amount, tenant name');
+  });
+
+  it('sends a tie between tenancies to review', () => {
+    const result = matchRentCredit(line(950, 'FASTER PAYMENT'), [candidate('t1', 'Jane Smith', 950), candidate('t2', 'Tom Jones', 950)]);
+    expect(result.status).toBe('review');
+  });
+
+  it('classifies debits by payee and ties them to the only property', () => {
+    expect(classifyDebit(line(-45.1, 'OCTOPUS ENERGY'))).toBe('Utilities');
+    expect(classifyDebit(line(-10, 'COFFEE'))).toBeUndefined();
+    const result = matchExpenseDebit(line(-120, 'PLUMBING SERVICES'), [{ id: 'p1', tokens: [] }]);
+    expect(result).toMatchObject({ status: 'matched', category: 'Repairs and Maintenance', propertyId: 'p1' });
+    expect(matchExpenseDebit(line(-120, 'PLUMBING SERVICES'), [{ id: 'p1', tokens: [] }, { id: 'p2', tokens: [] }]).status).toBe('review');
+  });
+});
@@ -0,0 +1,548 @@
+import { Firestore, WriteBatch, collection, doc, getDocs, query, where, writeBatch } from 'firebase/firestore';
+import { differenceInCalendarDays, format, isValid, parse } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { fromPence, parseMoney, poundsOf, roundMoney, toPence } from '@/lib/money';
+import type { ExpenseCategory } from '@/lib/expense-categories';
+
+/**
+ * @fileOverview Bank Statement Import
+ * Parses CSV (with presets for common UK banks) and OFX/QFX statements into
+ * normalised transactions, reconciles credits against expected rent and debits
+ * against expense categories, and commits the results idempotently: every
+ * imported line is stored in `bankTransactions` under a deterministic ID and the
+ * `rentPayments` / `expenses` it creates link back to it.
+ */
+
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+export interface BankTransaction {
+  /** Stable fingerprint used as the Firestore document ID. */
+  id: string;
+  date: Date;
+  /** Signed amount: credits are positive, debits negative. */
+  amount: number;
+  description: string;
+  reference: string;
+  /** Bank-supplied transaction ID (OFX FITID or a CSV ID column) where available. */
+  externalId?: string;
+  account?: string;
+}
+
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  reference?: string;
+  /** Single signed amount column. */
+  amount?: string;
+  /** Separate money-out / money-in columns. */
+  debit?: string;
+  credit?: string;
+  externalId?: string;
+}
+
+export interface CsvBankPreset {
+  id: string;
+  label: string;
+  mapping: CsvColumnMapping;
+  /** Column names for exports that ship without a header row. */
+  headers?: string[];
+}
+
+export const CSV_BANK_PRESETS: CsvBankPreset[] = [
+  { id: 'barclays', label: 'Barclays', mapping: { date: 'Date', description: 'Memo', reference: 'Subcategory', amount: 'Amount' } },
+  { id: 'hsbc', label: 'HSBC', headers: ['Date', 'Description', 'Amount'], mapping: { date: 'Date', description: 'Description', amount: 'Amount' } },
+  { id: 'lloyds', label: 'Lloyds / Halifax / Bank of Scotland', mapping: { date: 'Transaction Date', description: 'Transaction Description', reference: 'Transaction Type', debit: 'Debit Amount', credit: 'Credit Amount' } },
+  { id: 'natwest', label: 'NatWest / RBS', mapping: { date: 'Date', description: 'Description', reference: 'Type', amount: 'Value' } },
+  { id: 'nationwide', label: 'Nationwide', mapping: { date: 'Date', description: 'Description', reference: 'Transaction type', debit: 'Paid out', credit: 'Paid in' } },
+  { id: 'santander', label: 'Santander', mapping: { date: 'Date', description: 'Description', debit: 'Money out', credit: 'Money in' } },
+  { id: 'monzo', label: 'Monzo', mapping: { date: 'Date', description: 'Name', reference: 'Notes and #tags', amount: 'Amount', externalId: 'Transaction ID' } },
+  { id: 'starling', label: 'Starling', mapping: { date: 'Date', description: 'Counter Party', reference: 'Reference', amount: 'Amount (GBP)' } },
+];
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+}
+
+export type BankImportTarget = 'rent' | 'expense';
+
+export interface RentMatchCandidate {
+  tenantId: string;
+  propertyId: string;
+  tenantName: string;
+  monthlyRent: number;
+  /** Outstanding or upcoming charge amounts the credit could be settling. */
+  expectedAmounts: { amount: number; dueDate: Date }[];
+  propertyTokens: string[];
+}
+
+export interface ReconciledTransaction {
+  transaction: BankTransaction;
+  status: 'matched' | 'review';
+  target?: BankImportTarget;
+  tenantId?: string;
+  propertyId?: string;
+  category?: ExpenseCategory;
+  /** Human readable explanation of why the line matched (or did not). */
+  reason: string;
+}
+
+// --- Parsing ---
+
+/** Minimal RFC 4180 parser: handles quoted fields, escaped quotes and CRLF. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+      continue;
+    }
+    if (ch === '"') inQuotes = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim() !== '')) rows.push(row.map(f => f.trim()));
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row.map(f => f.trim()));
+  return rows;
+}
+
+/** Splits a CSV statement into headers and data rows, synthesising headers for headerless presets. */
+export function readCsvStatement(text: string, preset?: CsvBankPreset): ParsedCsv {
+  const rows = parseCsv(text.replace(/^﻿/, ''));
+  if (!rows.length) return { headers: [], rows: [] };
+  if (preset?.headers && parseStatementDate(rows[0][0])) return { headers: preset.headers, rows };
+  return { headers: rows[0], rows: rows.slice(1) };
+}
+
+/** Picks the preset whose mapped columns are all present in the header row. */
+export function detectCsvPreset(headers: string[]): CsvBankPreset | undefined {
+  const present = new Set(headers.map(h => h.toLowerCase()));
+  return CSV_BANK_PRESETS.find(p => {
+    const cols = [p.mapping.date, p.mapping.description, p.mapping.amount, p.mapping.debit, p.mapping.credit].filter(Boolean) as string[];
+    return !p.headers && cols.every(c => present.has(c.toLowerCase()));
+  });
+}
+
+const DATE_FORMATS = ['dd/MM/yyyy', 'd/M/yyyy', 'dd/MM/yy', 'yyyy-MM-dd', 'dd-MM-yyyy', 'dd MMM yyyy', 'd MMM yyyy', 'dd MMM yy', 'dd-MMM-yyyy'];
+
+export function parseStatementDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim().split(/[T ](?=\d{2}:)/)[0];
+  for (const fmt of DATE_FORMATS) {
+    const d = parse(trimmed, fmt, new Date());
+    if (isValid(d) && d.getFullYear() > 1970) return d;
+  }
+  return null;
+}
+
+/** Parses UK statement amounts: "£1,234.56", "(12.00)", "12.00 DR" and "12.00CR". */
+export function parseStatementAmount(value: string | undefined): number | null {
+  const n = parseMoney(value || '');
+  return n === null ? null : roundMoney(n);
+}
+
+/** FNV-1a over two seeds, giving a 16 character hex fingerprint. */
+function fingerprint(input: string): string {
+  const hash = (seed: number) => {
+    let h = seed >>> 0;
+    for (let i = 0; i < input.length; i++) {
+      h ^= input.charCodeAt(i);
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h.toString(16).padStart(8, '0');
+  };
+  return hash(0x811c9dc5) + hash(0x050c5d1f);
+}
+
+function transactionId(t: Omit<BankTransaction, 'id'>, occurrence: number): string {
+  if (t.externalId) return `tx-${fingerprint(`${t.account || ''}|${t.externalId}`)}`;
+  const day = format(t.date, 'yyyy-MM-dd');
+  return `tx-${fingerprint(`${t.account || ''}|${day}|${t.amount.toFixed(2)}|${t.description.toUpperCase()}|${occurrence}`)}`;
+}
+
+/**
+ * Assigns deterministic IDs. Identical lines within one statement (two equal
+ * payments on the same day) are told apart by their order of appearance.
+ */
+function withIds(lines: Omit<BankTransaction, 'id'>[]): BankTransaction[] {
+  const seen: Record<string, number> = {};
+  return lines.map(line => {
+    const key = `${format(line.date, 'yyyy-MM-dd')}|${line.amount}|${line.description}`;
+    seen[key] = (seen[key] || 0) + 1;
+    return { ...line, id: transactionId(line, seen[key]) };
+  });
+}
+
+export function csvToTransactions(csv: ParsedCsv, mapping: CsvColumnMapping, account?: string): BankTransaction[] {
+  const index = (name?: string) => (name ? csv.headers.findIndex(h => h.toLowerCase() === name.toLowerCase()) : -1);
+  const col = {
+    date: index(mapping.date),
+    description: index(mapping.description),
+    reference: index(mapping.reference),
+    amount: index(mapping.amount),
+    debit: index(mapping.debit),
+    credit: index(mapping.credit),
+    externalId: index(mapping.externalId),
+  };
+  if (col.date < 0 || col.description < 0 || (col.amount < 0 && col.debit < 0 && col.credit < 0)) {
+    throw new Error('The selected column mapping does not match this file.');
+  }
+
+  const lines: Omit<BankTransaction, 'id'>[] = [];
+  csv.rows.forEach(row => {
+    const date = parseStatementDate(row[col.date]);
+    let amount: number | null = null;
+    if (col.amount >= 0) amount = parseStatementAmount(row[col.amount]);
+    else {
+      const out = parseStatementAmount(row[col.debit]) || 0;
+      const inn = parseStatementAmount(row[col.credit]) || 0;
+      amount = fromPence(toPence(inn) - toPence(Math.abs(out)));
+    }
+    if (!date || amount === null || amount === 0) return;
+    lines.push({
+      date,
+      amount,
+      description: row[col.description] || '',
+      reference: col.reference >= 0 ? row[col.reference] || '' : '',
+      externalId: col.externalId >= 0 ? row[col.externalId] || undefined : undefined,
+      account,
+    });
+  });
+  return withIds(lines);
+}
+
+function ofxTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+}
+
+function parseOfxDate(value: string | undefined): Date | null {
+  if (!value || value.length < 8) return null;
+  const d = new Date(Number(value.slice(0, 4)), Number(value.slice(4, 6)) - 1, Number(value.slice(6, 8)));
+  return isValid(d) ? d : null;
+}
+
+/** Parses OFX 1.x (SGML) and 2.x (XML) statements, including QFX. */
+export function parseOfx(text: string): BankTransaction[] {
+  const account = ofxTag(text, 'ACCTID');
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(b => b.split(/<\/STMTTRN>/i)[0]);
+
+  const lines: Omit<BankTransaction, 'id'>[] = [];
+  blocks.forEach(block => {
+    const date = parseOfxDate(ofxTag(block, 'DTPOSTED'));
+    const amount = parseStatementAmount(ofxTag(block, 'TRNAMT'));
+    if (!date || amount === null || amount === 0) return;
+    const name = ofxTag(block, 'NAME') || ofxTag(block, 'PAYEE') || '';
+    const memo = ofxTag(block, 'MEMO') || '';
+    lines.push({
+      date,
+      amount,
+      description: name || memo,
+      reference: name ? memo : '',
+      externalId: ofxTag(block, 'FITID'),
+      account,
+    });
+  });
+  return withIds(lines);
+}
+
+export function isOfxFile(fileName: string, text: string): boolean {
+  return /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text);
+}
+
+// --- Reconciliation ---
+
+const EXPENSE_KEYWORDS: [ExpenseCategory, string[]][] = [
+  ['Mortgage Interest', ['MORTGAGE', 'MTG', 'BTL LOAN', 'PARAGON', 'KENT RELIANCE', 'PRECISE MORTGAGES', 'BM SOLUTIONS']],
+  ['Insurance', ['INSURANCE', 'INSUR', 'AVIVA', 'AXA', 'DIRECT LINE', 'ADMIRAL', 'HISCOX', 'SIMPLY BUSINESS', 'ALAN BOSWELL', 'RENT GUARANTEE']],
+  ['Letting Agent Fees', ['LETTING', 'LETTINGS', 'ESTATE AGENT', 'OPENRENT', 'FOXTONS', 'PROPERTY MANAGEMENT', 'MANAGEMENT FEE', 'AGENT FEE']],
+  ['Utilities', ['BRITISH GAS', 'OCTOPUS', 'EDF', 'E.ON', 'EON NEXT', 'OVO', 'SCOTTISH POWER', 'THAMES WATER', 'SEVERN TRENT', 'UNITED UTILITIES', 'ANGLIAN WATER', 'YORKSHIRE WATER', 'WATER', 'ELECTRICITY', 'BT GROUP', 'VIRGIN MEDIA']],
+  ['Cleaning', ['CLEAN', 'VALET', 'HOUSEKEEP']],
+  ['Gardening', ['GARDEN', 'LANDSCAP', 'TREE SURGEON', 'LAWN']],
+  ['Repairs and Maintenance', ['REPAIR', 'MAINTENANCE', 'PLUMB', 'ELECTRICIAN', 'BUILDER', 'ROOFING', 'GLAZING', 'LOCKSMITH', 'BOILER', 'HANDYMAN', 'DECORAT', 'SCREWFIX', 'TOOLSTATION', 'WICKES', 'B&Q', 'TRAVIS PERKINS', 'GAS SAFE']],
+];
+
+/** Classifies a debit by payee keywords; returns undefined when nothing matches. */
+export function classifyDebit(t: BankTransaction): ExpenseCategory | undefined {
+  const text = `${t.description} ${t.reference}`.toUpperCase();
+  return EXPENSE_KEYWORDS.find(([, words]) => words.some(w => text.includes(w)))?.[0];
+}
+
+function nameTokens(name: string): string[] {
+  return name.toUpperCase().split(/[^A-Z]+/).filter(t => t.length >= 3);
+}
+
+/** Address tokens (street words and postcode) used to tie a line to a property. */
+export function propertyTokens(address?: { nameOrNumber?: string; street?: string; postcode?: string }): string[] {
+  if (!address) return [];
+  const tokens = nameTokens(address.street || '').filter(t => !['ROAD', 'STREET', 'LANE', 'AVENUE', 'CLOSE', 'DRIVE', 'THE'].includes(t));
+  const postcode = (address.postcode || '').toUpperCase().replace(/\s+/g, '');
+  if (postcode) tokens.push(postcode);
+  return tokens;
+}
+
+function scoreRentMatch(t: BankTransaction, c: RentMatchCandidate): { score: number; reasons: string[] } {
+  const text = `${t.description} ${t.reference}`.toUpperCase();
+  const compact = text.replace(/\s+/g, '');
+  const reasons: string[] = [];
+  let score = 0;
+
+  const amountHit = c.expectedAmounts.some(e => toPence(e.amount) === toPence(t.amount) && Math.abs(differenceInCalendarDays(t.date, e.dueDate)) <= 45)
+    || toPence(c.monthlyRent) === toPence(t.amount);
+  if (amountHit) { score += 3; reasons.push('amount'); }
+
+  const tokens = nameTokens(c.tenantName);
+  const surname = tokens[tokens.length - 1];
+  if (surname && text.includes(surname)) { score += 2; reasons.push('tenant name'); }
+  else if (tokens.some(tok => text.includes(tok))) { score += 1; reasons.push('tenant name'); }
+
+  if (c.propertyTokens.some(tok => compact.includes(tok))) { score += 1; reasons.push('property reference'); }
+  if (/\bRENT\b/.test(text)) score += 1;
+
+  return { score, reasons };
+}
+
+/**
+ * Matches a credit to the tenancy it most likely pays. A line is only auto-matched
+ * when the best candidate scores at least an amount-level match and is unambiguous.
+ */
+export function matchRentCredit(t: BankTransaction, candidates: RentMatchCandidate[]): ReconciledTransaction {
+  const scored = candidates
+    .map(c => ({ c, ...scoreRentMatch(t, c) }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+  const best = scored[0];
+
+  if (best && best.score >= 3 && (!scored[1] || scored[1].score < best.score)) {
+    return {
+      transaction: t,
+      status: 'matched',
+      target: 'rent',
+      tenantId: best.c.tenantId,
+      propertyId: best.c.propertyId,
+      reason: `Rent from ${best.c.tenantName} (matched on ${best.reasons.join(', ')})`,
+    };
+  }
+  return {
+    transaction: t,
+    status: 'review',
+    target: 'rent',
+    tenantId: best?.c.tenantId,
+    propertyId: best?.c.propertyId,
+    reason: best ? `Possible rent from ${best.c.tenantName}; confirm before posting` : 'No tenancy matched this credit',
+  };
+}
+
+export function matchExpenseDebit(
+  t: BankTransaction,
+  properties: { id: string; tokens: string[] }[],
+  defaultPropertyId?: string
+): ReconciledTransaction {
+  const category = classifyDebit(t);
+  const compact = `${t.description}${t.reference}`.toUpperCase().replace(/\s+/g, '');
+  const byReference = properties.filter(p => p.tokens.some(tok => compact.includes(tok)));
+  const propertyId = byReference.length === 1
+    ? byReference[0].id
+    : defaultPropertyId || (properties.length === 1 ? properties[0].id : undefined);
+
+  if (category && propertyId) {
+    return { transaction: t, status: 'matched', target: 'expense', category, propertyId, reason: `Classified as ${category}` };
+  }
+  return {
+    transaction: t,
+    status: 'review',
+    target: 'expense',
+    category,
+    propertyId,
+    reason: category ? `Classified as ${category}; property could not be determined` : 'No expense category matched this payee',
+  };
+}
+
+/** Builds rent match candidates from active tenancies and their scheduled charges. */
+export function buildRentCandidates(
+  tenants: { id: string; name: string; propertyId: string; monthlyRent?: number }[],
+  chargeDocs: any[],
+  properties: { id: string; address?: any }[]
+): RentMatchCandidate[] {
+  return tenants
+    .filter(t => poundsOf(t, 'monthlyRent') > 0)
+    .map(t => ({
+      tenantId: t.id,
+      propertyId: t.propertyId,
+      tenantName: t.name || '',
+      monthlyRent: poundsOf(t, 'monthlyRent'),
+      expectedAmounts: chargeDocs
+        .filter(c => c.tenantId === t.id)
+        .map(c => ({ amount: poundsOf(c, 'amount'), dueDate: safeToDate(c.dueDate) }))
+        .filter((c): c is { amount: number; dueDate: Date } => c.dueDate !== null),
+      propertyTokens: propertyTokens(properties.find(p => p.id === t.propertyId)?.address),
+    }));
+}
+
+export function reconcileTransactions(
+  transactions: BankTransaction[],
+  rentCandidates: RentMatchCandidate[],
+  properties: { id: string; tokens: string[] }[],
+  defaultPropertyId?: string
+): ReconciledTransaction[] {
+  return transactions.map(t =>
+    t.amount > 0 ? matchRentCredit(t, rentCandidates) : matchExpenseDebit(t, properties, defaultPropertyId)
+  );
+}
+
+// --- Persistence ---
+
+export function bankTransactionDocId(landlordId: string, transactionId: string): string {
+  return `${landlordId}_${transactionId}`;
+}
+
+/** Returns the IDs of lines from this statement that were already imported. */
+export async function findImportedTransactions(firestore: Firestore, landlordId: string): Promise<Set<string>> {
+  const snap = await getDocs(query(collection(firestore, 'bankTransactions'), where('landlordId', '==', landlordId)));
+  return new Set(snap.docs.map(d => d.id));
+}
+
+/**
+ * Posts a reconciled line: writes the `rentPayments` or `expenses` document under an ID
+ * derived from the transaction and marks the `bankTransactions` record as reconciled.
+ */
+export function postReconciledTransaction(
+  batch: WriteBatch,
+  firestore: Firestore,
+  landlordId: string,
+  line: ReconciledTransaction
+) {
+  const t = line.transaction;
+  const txDocId = bankTransactionDocId(landlordId, t.id);
+  const linkedId = `bank_${txDocId}`;
+  const notes = [t.description, t.reference].filter(Boolean).join(' · ');
+
+  if (line.target === 'rent' && line.tenantId && line.propertyId) {
+    batch.set(doc(firestore, 'rentPayments', linkedId), {
+      landlordId,
+      propertyId: line.propertyId,
+      tenantId: line.tenantId,
+      amountPaid: Math.abs(t.amount),
+      amountPaidPence: Math.abs(toPence(t.amount)),
+      paidDate: t.date,
+      month: MONTHS[t.date.getMonth()],
+      year: t.date.getFullYear(),
+      status: 'Paid',
+      method: 'Bank Transfer',
+      reference: notes,
+      recordedDate: new Date().toISOString(),
+      bankTransactionId: txDocId,
+    });
+    batch.update(doc(firestore, 'bankTransactions', txDocId), {
+      status: 'reconciled', linkedCollection: 'rentPayments', linkedDocId: linkedId,
+      tenantId: line.tenantId, propertyId: line.propertyId, reconciledDate: new Date().toISOString(),
+    });
+    return;
+  }
+
+  if (line.target === 'expense' && line.category && line.propertyId) {
+    batch.set(doc(firestore, 'expenses', linkedId), {
+      landlordId,
+      propertyId: line.propertyId,
+      date: t.date,
+      expenseType: line.category,
+      amount: Math.abs(t.amount),
+      amountPence: Math.abs(toPence(t.amount)),
+      paidBy: 'Landlord',
+      notes,
+      bankTransactionId: txDocId,
+    });
+    batch.update(doc(firestore, 'bankTransactions', txDocId), {
+      status: 'reconciled', linkedCollection: 'expenses', linkedDocId: linkedId,
+      propertyId: line.propertyId, category: line.category, reconciledDate: new Date().toISOString(),
+    });
+  }
+}
+
+/**
+ * Commits a reconciled statement. Lines already present in `bankTransactions` are
+ * skipped, so importing the same (or an overlapping) statement twice is a no-op.
+ */
+export async function commitBankImport(
+  firestore: Firestore,
+  landlordId: string,
+  lines: ReconciledTransaction[],
+  source: string
+): Promise<{ imported: number; matched: number; review: number; skipped: number }> {
+  const existing = await findImportedTransactions(firestore, landlordId);
+  const fresh = lines.filter(l => !existing.has(bankTransactionDocId(landlordId, l.transaction.id)));
+  const result = { imported: 0, matched: 0, review: 0, skipped: lines.length - fresh.length };
+
+  // Each line costs up to three writes; stay well inside the 500 write batch limit
+  for (let i = 0; i < fresh.length; i += 150) {
+    const batch = writeBatch(firestore);
+    fresh.slice(i, i + 150).forEach(line => {
+      const t = line.transaction;
+      batch.set(doc(firestore, 'bankTransactions', bankTransactionDocId(landlordId, t.id)), {
+        landlordId,
+        transactionId: t.id,
+        date: t.date,
+        amount: t.amount,
+        amountPence: toPence(t.amount),
+        description: t.description,
+        reference: t.reference,
+        externalId: t.externalId || null,
+        account: t.account || null,
+        source,
+        status: 'review',
+        suggestedTarget: line.target || null,
+        suggestedTenantId: line.tenantId || null,
+        suggestedPropertyId: line.propertyId || null,
+        suggestedCategory: line.category || null,
+        matchReason: line.reason,
+        importedDate: new Date().toISOString(),
+      });
+      if (line.status === 'matched') {
+        postReconciledTransaction(batch, firestore, landlordId, line);
+        result.matched++;
+      } else {
+        result.review++;
+      }
+      result.imported++;
+    });
+    await batch.commit();
+  }
+  return result;
+}
+
+/** Rebuilds a stored review-queue record into a transaction the reconciler can post. */
+export function toBankTransaction(record: any): BankTransaction | null {
+  const date = safeToDate(record.date);
+  if (!date || !record.transactionId) return null;
+  return {
+    id: record.transactionId,
+    date,
+    amount: poundsOf(record, 'amount'),
+    description: record.description || '',
+    reference: record.reference || '',
+    externalId: record.externalId || undefined,
+    account: record.account || undefined,
+  };
+}
+
+/** Statement period covered by a set of transactions, for the import summary. */
+export function statementRange(transactions: BankTransaction[]): { from: Date; to: Date } | null {
+  if (!transactions.length) return null;
+  const times = transactions.map(t => t.date.getTime());
+  return { from: new Date(Math.min(...times)), to: new Date(Math.max(...times)) };
+}
@@ -0,0 +1,145 @@
+import { addYears, differenceInCalendarDays, isBefore } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { poundsOf, sumMoney } from '@/lib/money';
+
+/**
+ * @fileOverview Capital vs Revenue Expenditure
+ * Classifies expense and repair records as revenue (deductible in the year),
+ * replacement of domestic items (deductible under the replacement relief) or
+ * capital improvement (not deductible; added to the CGT base cost). Also provides
+ * the per-property asset register helpers and the CGT base-cost schedule.
+ */
+
+export type ExpenditureClass = 'revenue' | 'domestic_replacement' | 'capital_improvement';
+
+export const EXPENDITURE_CLASS_LABELS: Record<ExpenditureClass, string> = {
+  revenue: 'Revenue (Repair / Running Cost)',
+  domestic_replacement: 'Replacement of Domestic Items',
+  capital_improvement: 'Capital Improvement',
+};
+
+export const ASSET_TYPES = [
+  'Boiler',
+  'Kitchen',
+  'Bathroom',
+  'Roof',
+  'Windows',
+  'Electrical Installation',
+  'Appliance',
+  'Furniture',
+  'Flooring',
+  'Other',
+] as const;
+
+export type AssetType = (typeof ASSET_TYPES)[number];
+
+/** Typical service lives used to pre-fill the asset form. */
+export const DEFAULT_ASSET_LIFESPANS: Record<AssetType, number> = {
+  'Boiler': 12,
+  'Kitchen': 15,
+  'Bathroom': 15,
+  'Roof': 30,
+  'Windows': 25,
+  'Electrical Installation': 25,
+  'Appliance': 8,
+  'Furniture': 7,
+  'Flooring': 10,
+  'Other': 10,
+};
+
+export interface PropertyAsset {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  name: string;
+  assetType: AssetType;
+  purchaseDate: any;
+  cost: number;
+  expectedLifespanYears: number;
+  classification: ExpenditureClass;
+  /** Expense or repair the asset was recorded from, if any. */
+  sourceExpenseId?: string;
+  notes?: string;
+}
+
+export interface AssetLifecycle {
+  replacementDue: Date | null;
+  /** Share of expected life used so far, 0-1 (can exceed 1 once past due). */
+  lifeUsed: number;
+  status: 'good' | 'ageing' | 'due';
+}
+
+export interface CgtBaseCostEntry {
+  date: Date | null;
+  description: string;
+  source: 'purchase' | 'expense' | 'repair' | 'asset';
+  amount: number;
+}
+
+export interface CgtBaseCostSchedule {
+  entries: CgtBaseCostEntry[];
+  acquisitionCost: number;
+  enhancementExpenditure: number;
+  totalBaseCost: number;
+}
+
+export function expenditureClassOf(record: { classification?: string } | null | undefined): ExpenditureClass {
+  const c = record?.classification;
+  return c === 'capital_improvement' || c === 'domestic_replacement' ? c : 'revenue';
+}
+
+/** Revenue and domestic-item replacements are deductible against rental income; capital is not. */
+export function isRevenueExpenditure(record: { classification?: string } | null | undefined): boolean {
+  return expenditureClassOf(record) !== 'capital_improvement';
+}
+
+export function assetLifecycle(asset: Pick<PropertyAsset, 'purchaseDate' | 'expectedLifespanYears'>, asOf: Date = new Date()): AssetLifecycle {
+  const purchased = safeToDate(asset.purchaseDate);
+  const years = Number(asset.expectedLifespanYears) || 0;
+  if (!purchased || years <= 0) return { replacementDue: null, lifeUsed: 0, status: 'good' };
+
+  const replacementDue = addYears(purchased, years);
+  const lifeUsed = Math.max(0, differenceInCalendarDays(asOf, purchased) / differenceInCalendarDays(replacementDue, purchased));
+  const status = !isBefore(asOf, replacementDue) ? 'due' : lifeUsed >= 0.8 ? 'ageing' : 'good';
+  return { replacementDue, lifeUsed, status };
+}
+
+/**
+ * Builds the allowable base cost for a property disposal: purchase price plus
+ * capital improvements recorded as expenses, repairs or register assets. Assets
+ * created from an expense are not counted twice.
+ */
+export function buildCgtBaseCostSchedule(
+  property: { purchasePrice?: number; purchaseDate?: any },
+  expenses: any[],
+  repairs: any[],
+  assets: PropertyAsset[]
+): CgtBaseCostSchedule {
+  const entries: CgtBaseCostEntry[] = [];
+  const linked = new Set(assets.map(a => a.sourceExpenseId).filter(Boolean));
+
+  expenses.filter(e => expenditureClassOf(e) === 'capital_improvement' && !linked.has(e.id)).forEach(e => {
+    entries.push({ date: safeToDate(e.date), description: e.notes || e.expenseType, source: 'expense', amount: poundsOf(e, 'amount') });
+  });
+  repairs.filter(r => expenditureClassOf(r) === 'capital_improvement' && !linked.has(r.id)).forEach(r => {
+    entries.push({ date: safeToDate(r.completedDate || r.reportedDate), description: r.title, source: 'repair', amount: poundsOf(r, 'expectedCost') || poundsOf(r, 'estimatedCost') });
+  });
+  assets.filter(a => expenditureClassOf(a) === 'capital_improvement').forEach(a => {
+    entries.push({ date: safeToDate(a.purchaseDate), description: `${a.assetType}: ${a.name}`, source: 'asset', amount: poundsOf(a, 'cost') });
+  });
+
+  entries.sort((a, b) => (a.date?.getTime() || 0) - (b.date?.getTime() || 0));
+
+  const acquisitionCost = poundsOf(property, 'purchasePrice');
+  const enhancementExpenditure = sumMoney(entries.map(e => e.amount));
+  if (acquisitionCost > 0) {
+    entries.unshift({ date: safeToDate(property.purchaseDate), description: 'Acquisition cost', source: 'purchase', amount: acquisitionCost });
+  }
+
+  return {
+    entries,
+    acquisitionCost,
+    enhancementExpenditure,
+    totalBaseCost: sumMoney([acquisitionCost, enhancementExpenditure]),
+  };
+}
@@ -0,0 +1,172 @@
+import { addMonths, addYears } from 'date-fns';
+import { extractPdfText } from '@/lib/pdf-text';
+import { findDate, isPdfFile } from '@/lib/receipts';
+import type { DocumentType } from '@/lib/document-types';
+
+/**
+ * @fileOverview Certificate Field Extraction
+ * Reads gas safety records, EICRs and EPCs uploaded as text-based PDFs and pulls
+ * out the certificate type, issue and expiry dates, reference, engineer and
+ * registration numbers and the address of the installation, so the upload form
+ * can pre-fill them. Rules are deterministic and keyed to the wording the
+ * standard certificate templates use; anything not found is left for the user.
+ */
+
+export interface CertificateFields {
+  documentType?: DocumentType;
+  issueDate?: Date;
+  expiryDate?: Date;
+  /** True when the expiry was worked out from the issue date rather than read from the certificate. */
+  expiryEstimated?: boolean;
+  certificateNumber?: string;
+  engineerName?: string;
+  registrationNumber?: string;
+  /** Postcodes on the certificate, the installation address's first where it is labelled. */
+  postcodes: string[];
+  address?: string;
+}
+
+interface CertificateRules {
+  documentType: DocumentType;
+  detect: RegExp;
+  issueLabels: RegExp;
+  expiryLabels: RegExp;
+  /** Validity when the certificate states no expiry or next inspection date. */
+  defaultExpiry: (issued: Date) => Date;
+}
+
+const CERTIFICATE_RULES: CertificateRules[] = [
+  {
+    documentType: 'Gas Safety Certificate',
+    detect: /gas\s+safety\s+(record|certificate)|\bCP\s?12\b|gas\s+safe\s+reg/i,
+    issueLabels: /\b(date\s+of\s+(inspection|check|issue)|inspection\s+date|check\s+date|issue\s+date|date\s+issued)\b/i,
+    expiryLabels: /\b(next\s+(safety\s+)?(check|inspection)|due\s+(date|by)|expiry\s+date|expires?)\b/i,
+    defaultExpiry: issued => addMonths(issued, 12),
+  },
+  {
+    documentType: 'Electrical Certificate',
+    detect: /electrical\s+installation\s+condition\s+report|\bEICR\b/i,
+    issueLabels: /\b(date\s+(of\s+)?(inspection|report|issue)|date\s+(the\s+)?inspection\s+was\s+carried\s+out|date\s+report\s+issued|issue\s+date)\b/i,
+    expiryLabels: /\b(next\s+inspection|re-?inspect|retest|recommended\s+date|no\s+later\s+than)\b/i,
+    defaultExpiry: issued => addYears(issued, 5),
+  },
+  {
+    documentType: 'EPC',
+    detect: /energy\s+performance\s+certificate|energy\s+efficiency\s+rating/i,
+    issueLabels: /\b(date\s+of\s+(certificate|assessment)|certificate\s+date|assessment\s+date|lodg(e)?ment\s+date)\b/i,
+    expiryLabels: /\b(valid\s+until|expiry\s+date|expires?)\b/i,
+    defaultExpiry: issued => addYears(issued, 10),
+  },
+];
+
+const POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/g;
+const ADDRESS_LABEL = /\b(installation|property|site|premises|appliance)\s+address\b|\baddress\s+of\s+(the\s+)?(installation|property|premises)\b|\bdwelling\s+address\b/i;
+const NOT_INSTALLATION = /\b(landlord|agent|client|contractor|company|engineer|business|registered\s+office|trading)\b/i;
+
+const normalisePostcode = (p?: string) => (p || '').toUpperCase().replace(/\s+/g, '');
+
+const postcodesIn = (line: string) => Array.from(line.toUpperCase().matchAll(POSTCODE)).map(m => `${m[1]} ${m[2]}`);
+
+/** Date on a labelled line, or on the next line when labels and values are laid out in columns. */
+function labelledDate(lines: string[], label: RegExp): Date | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    if (!label.test(lines[i])) continue;
+    const d = findDate(lines[i]) || (lines[i + 1] && findDate(lines[i + 1]));
+    if (d) return d;
+  }
+  return undefined;
+}
+
+/** Value after a label on the same line (`Label: value`) or on the line below. */
+function labelledValue(lines: string[], label: RegExp, value: RegExp): string | undefined {
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(label);
+    if (!m) continue;
+    const rest = lines[i].slice((m.index || 0) + m[0].length);
+    const found = rest.match(value) || (lines[i + 1] && lines[i + 1].match(value));
+    if (found) return (found[1] || found[0]).trim();
+  }
+  return undefined;
+}
+
+/**
+ * Pulls certificate fields from extracted text. The type is detected first
+ * because the labels for dates differ between a gas record, an EICR and an EPC.
+ */
+export function parseCertificateFields(text: string): CertificateFields {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const fields: CertificateFields = { postcodes: [] };
+  const rules = CERTIFICATE_RULES.find(r => r.detect.test(text));
+  if (rules) fields.documentType = rules.documentType;
+
+  // The expiry line is excluded when looking for the issue date, so "Next check due by" cannot be taken for it
+  const issueLines = rules ? lines.filter(l => !rules.expiryLabels.test(l) || rules.issueLabels.test(l)) : lines;
+  fields.issueDate = (rules && labelledDate(issueLines, rules.issueLabels)) || labelledDate(issueLines, /\bdate\b/i);
+  const expiry = rules && labelledDate(lines, rules.expiryLabels);
+  if (expiry && (!fields.issueDate || expiry > fields.issueDate)) {
+    fields.expiryDate = expiry;
+  } else if (rules && fields.issueDate) {
+    // EICRs often give the recommended interval rather than a date
+    const interval = rules.documentType === 'Electrical Certificate'
+      ? labelledValue(lines, /\b(interval|next\s+inspection)\b/i, /\b(\d{1,2}\s*(?:years?|months?))\b/i)
+      : undefined;
+    const months = interval && (/month/i.test(interval) ? parseInt(interval, 10) : parseInt(interval, 10) * 12);
+    fields.expiryDate = months ? addMonths(fields.issueDate, months) : rules.defaultExpiry(fields.issueDate);
+    fields.expiryEstimated = true;
+  }
+
+  const rrn = text.match(/\b\d{4}-\d{4}-\d{4}-\d{4}-\d{4}\b/);
+  fields.certificateNumber = rrn?.[0] ||
+    labelledValue(lines, /\b(certificate|report|record|reference|serial)\s*(no\.?|number|ref(erence)?\.?|#)\s*:?/i, /^\s*:?\s*([A-Z0-9][A-Z0-9/-]{3,})/i);
+
+  const gasSafe = labelledValue(lines, /\bgas\s+safe\s+(reg(istration|istered)?\.?\s*)?(no\.?|number)?\s*:?/i, /\b(\d{6,7})\b/);
+  fields.registrationNumber = gasSafe ||
+    labelledValue(lines, /\b(registration|membership|enrolment|assessor\s+accreditation)\s*(no\.?|number)\s*:?/i, /^\s*:?\s*([A-Z0-9][A-Z0-9/-]{3,})/i);
+  fields.engineerName = labelledValue(
+    lines,
+    /\b(engineer|electrician|inspector|assessor)(['’]s)?\s+name\s*:?|\b(inspected|tested|assessed)\s+by\s*:?/i,
+    /^\s*:?\s*([A-Z][A-Za-z'.-]+(?:\s+[A-Z][A-Za-z'.-]+){1,3})/
+  );
+
+  // The installation address comes first; landlord and contractor addresses follow
+  const labelled = lines.findIndex(l => ADDRESS_LABEL.test(l));
+  if (labelled >= 0) {
+    const block = lines.slice(labelled, labelled + 5);
+    const end = block.findIndex(l => postcodesIn(l).length);
+    if (end >= 0) {
+      fields.address = block.slice(0, end + 1).join(', ').replace(ADDRESS_LABEL, '').replace(/^[\s:,]+/, '').trim() || undefined;
+      fields.postcodes.push(...postcodesIn(block[end]));
+    }
+  }
+  lines.filter(l => !NOT_INSTALLATION.test(l)).forEach(l => {
+    postcodesIn(l).forEach(p => {
+      if (!fields.postcodes.includes(p)) fields.postcodes.push(p);
+    });
+  });
+
+  return fields;
+}
+
+/** Reads a text-based PDF certificate. Images and scanned PDFs return no fields. */
+export async function extractCertificateFields(file: File): Promise<CertificateFields> {
+  if (!isPdfFile(file)) return { postcodes: [] };
+  const text = await extractPdfText(await file.arrayBuffer());
+  return text ? parseCertificateFields(text) : { postcodes: [] };
+}
+
+export type AddressCheck = 'match' | 'mismatch' | 'unknown';
+
+/**
+ * Whether the certificate is for the selected property. A labelled installation
+ * address decides it; otherwise any postcode on the certificate matching counts,
+ * since contractor and landlord addresses often appear alongside.
+ */
+export function checkCertificateAddress(fields: Pick<CertificateFields, 'postcodes' | 'address'>, propertyPostcode?: string): AddressCheck {
+  const postcode = normalisePostcode(propertyPostcode);
+  if (!postcode || !fields.postcodes.length) return 'unknown';
+  if (fields.address) {
+    const labelled = postcodesIn(fields.address).map(normalisePostcode);
+    if (labelled.length) return labelled.includes(postcode) ? 'match' : 'mismatch';
+  }
+  return fields.postcodes.some(p => normalisePostcode(p) === postcode) ? 'match' : 'mismatch';
+}
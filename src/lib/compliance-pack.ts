@@ -0,0 +1,165 @@
+import { Firestore, collection, getDocs, query, where } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { createZip, uniqueZipNames, type ZipEntry } from '@/lib/zip';
+import { COMPLIANCE_DOCUMENT_TYPES, assessPropertyCompliance, type ComplianceProperty } from '@/lib/compliance-rules';
+import { currentDocuments } from '@/lib/document-versions';
+import { completedTests, type Alarm, type AlarmTest } from '@/lib/smoke-alarms';
+import type { Deposit } from '@/lib/deposits';
+import type { ServiceEvent } from '@/lib/document-service';
+import { buildInspectionPDF } from '@/lib/generate-inspection-pdf';
+import { buildAlarmEvidencePDF } from '@/lib/generate-alarm-pdf';
+import { buildServiceCertificatePDF } from '@/lib/generate-service-pdf';
+import { buildCompliancePackIndexPDF, type CompliancePackFile } from '@/lib/generate-compliance-pack-pdf';
+
+/**
+ * @fileOverview Property Compliance Evidence Pack
+ * Gathers everything held for one property (current certificates, the latest
+ * inspection report, move-in checklists, deposit certificates, the alarm test
+ * log and certificates of service) into a single ZIP built in the browser, with
+ * an index PDF in front summarising status and dates for a council or tribunal.
+ */
+
+export interface CompliancePackRecords {
+  documents: any[];
+  tenants: any[];
+  checklists: any[];
+  deposits: Deposit[];
+  alarms: Alarm[];
+  alarmTests: AlarmTest[];
+  inspections: any[];
+  serviceEvents: ServiceEvent[];
+}
+
+const PACK_COLLECTIONS = ['documents', 'tenants', 'checklists', 'deposits', 'alarms', 'alarmTests', 'inspections', 'documentServices'];
+
+export async function loadCompliancePackRecords(firestore: Firestore, landlordId: string, propertyId: string): Promise<CompliancePackRecords> {
+  const [documents, tenants, checklists, deposits, alarms, alarmTests, inspections, serviceEvents] = await Promise.all(
+    PACK_COLLECTIONS.map(async name => {
+      const snap = await getDocs(query(collection(firestore, name), where('landlordId', '==', landlordId), where('propertyId', '==', propertyId)));
+      return snap.docs.map(d => ({ id: d.id, ...d.data() })) as any[];
+    })
+  );
+  return { documents, tenants, checklists, deposits, alarms, alarmTests, inspections, serviceEvents };
+}
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+const timeOf = (val: any) => safeToDate(val)?.getTime() ?? 0;
+const pdfBytes = (doc: { output: (type: 'arraybuffer') => ArrayBuffer }) => new Uint8Array(doc.output('arraybuffer'));
+
+/** File extension from a storage download URL, where the object path carries one. */
+function extensionOf(url: string): string {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname).split('/').pop() || '';
+    return name.includes('.') ? name.split('.').pop()!.toLowerCase() : 'pdf';
+  } catch {
+    return 'pdf';
+  }
+}
+
+export const formatPropertyAddress = (address: any) =>
+  [address?.nameOrNumber, address?.street, address?.city, address?.postcode].filter(Boolean).join(', ');
+
+export const compliancePackFileName = (propertyAddress: string, today: Date = new Date()) =>
+  `Compliance-Pack-${propertyAddress.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-')}-${format(today, 'yyyyMMdd')}.zip`;
+
+/**
+ * Builds the pack. Uploaded files are fetched from storage; any that cannot be
+ * downloaded are listed in the index with their status rather than failing the
+ * whole export.
+ */
+export async function buildCompliancePack(
+  property: ComplianceProperty & { address?: any },
+  records: CompliancePackRecords,
+  landlordName: string,
+  today: Date = new Date()
+): Promise<Uint8Array> {
+  const propertyAddress = formatPropertyAddress(property.address);
+  const activeTenants = records.tenants.filter(t => (t.status || 'Active') === 'Active');
+  const current = currentDocuments(records.documents);
+  const compliance = assessPropertyCompliance(
+    property,
+    { documents: current, tenants: activeTenants, checklists: records.checklists, deposits: records.deposits, alarmTests: records.alarmTests },
+    today
+  );
+
+  const entries: ZipEntry[] = [];
+  const files: CompliancePackFile[] = [];
+
+  // Certificates on file, with each deposit's protection certificate filed under deposit/
+  const depositCertificateIds = new Set(records.deposits.map(d => d.certificateDocumentId).filter(Boolean));
+  const uploads = [
+    ...current.filter(d => COMPLIANCE_DOCUMENT_TYPES.includes(d.documentType) && !depositCertificateIds.has(d.id)).map(d => ({ folder: 'certificates', document: d })),
+    ...records.documents.filter(d => depositCertificateIds.has(d.id)).map(d => ({ folder: 'deposit', document: d })),
+  ];
+  const uploadPaths = uniqueZipNames(uploads.map(({ folder, document }) => {
+    const issued = safeToDate(document.issueDate || document.createdDate);
+    const label = [slug(document.documentType || 'document'), issued ? format(issued, 'yyyy-MM-dd') : 'undated'].join('_');
+    return `${folder}/${label}.${document.fileUrl ? extensionOf(document.fileUrl) : 'pdf'}`;
+  }));
+  for (let i = 0; i < uploads.length; i++) {
+    const { document } = uploads[i];
+    let status = 'Included';
+    if (!document.fileUrl) {
+      status = 'No file uploaded';
+    } else {
+      try {
+        const res = await fetch(document.fileUrl);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        entries.push({ name: uploadPaths[i], data: new Uint8Array(await res.arrayBuffer()), modified: safeToDate(document.createdDate) || undefined });
+      } catch {
+        status = 'Not downloaded - see documents';
+      }
+    }
+    files.push({ path: status === 'Included' ? uploadPaths[i] : '', description: document.title || document.documentType, date: document.expiryDate || document.issueDate, status });
+  }
+
+  // Latest inspection carried out
+  const inspection = records.inspections
+    .filter(i => i.status !== 'Scheduled')
+    .sort((a, b) => timeOf(b.scheduledDate || b.inspectionDate) - timeOf(a.scheduledDate || a.inspectionDate))[0];
+  if (inspection) {
+    const pdf = await buildInspectionPDF(inspection, property);
+    if (pdf) {
+      entries.push({ name: 'inspection/latest-inspection.pdf', data: pdfBytes(pdf) });
+      files.push({ path: 'inspection/latest-inspection.pdf', description: 'Latest inspection report', date: inspection.scheduledDate || inspection.inspectionDate, status: 'Included' });
+    }
+  } else {
+    files.push({ path: '', description: 'Inspection report', status: 'No inspection recorded' });
+  }
+
+  // Alarm register and test log
+  const alarmLog = completedTests(records.alarmTests);
+  if (records.alarms.length || alarmLog.length) {
+    const pdf = await buildAlarmEvidencePDF(propertyAddress, records.alarms, records.alarmTests);
+    entries.push({ name: 'alarms/alarm-tests.pdf', data: pdfBytes(pdf) });
+    files.push({ path: 'alarms/alarm-tests.pdf', description: `Alarm register and ${alarmLog.length} recorded test(s)`, date: alarmLog[0]?.testDate, status: 'Included' });
+  }
+
+  // Certificates of service for each document served on a tenant
+  const servedIds = Array.from(new Set(records.serviceEvents.filter(e => e.kind === 'served').map(e => e.documentId)));
+  const served = servedIds.map(id => records.documents.find(d => d.id === id)).filter(Boolean);
+  const servicePaths = uniqueZipNames(served.map(d => `service/${slug(d.documentType || d.title || 'document')}_v${d.version || 1}.pdf`));
+  for (let i = 0; i < served.length; i++) {
+    const events = records.serviceEvents.filter(e => e.documentId === served[i].id);
+    const pdf = await buildServiceCertificatePDF(served[i], events, propertyAddress, landlordName);
+    entries.push({ name: servicePaths[i], data: pdfBytes(pdf) });
+    files.push({ path: servicePaths[i], description: `Certificate of service: ${served[i].title}`, date: events.find(e => e.kind === 'served')?.occurredAt, status: 'Included' });
+  }
+
+  // The latest move-in checklist for each current tenancy goes in the index itself
+  const checklists = activeTenants
+    .map(tenant => ({
+      tenantName: tenant.name || 'Unnamed tenant',
+      checklist: records.checklists
+        .filter(c => c.tenantId === tenant.id)
+        .sort((a, b) => timeOf(b.completedDate) - timeOf(a.completedDate))[0],
+    }))
+    .filter(c => c.checklist);
+
+  const deposits = records.deposits.filter(d => activeTenants.some(t => t.id === d.tenantId));
+  const index = buildCompliancePackIndexPDF({ propertyAddress, compliance, deposits, checklists, files });
+  entries.unshift({ name: '00-index.pdf', data: pdfBytes(index) });
+
+  return createZip(entries);
+}
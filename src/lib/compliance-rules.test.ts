@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessPropertyCompliance,
+  depositDeadline,
+  isBelowMinimumEpc,
+  nationOf,
+  type ComplianceProperty,
+  type ComplianceRecords,
+} from '@/lib/compliance-rules';
+
+const today = new Date(2025, 5, 1);
+const property: ComplianceProperty = { id: 'p1', propertyType: 'House', address: { postcode: 'M1 1AA' } };
+const noRecords: ComplianceRecords = { documents: [], tenants: [], checklists: [] };
+
+const certificate = (documentType: string, issueDate: string, extra: Record<string, unknown> = {}) =>
+  ({ id: `${documentType}-${issueDate}`, propertyId: 'p1', documentType, issueDate, ...extra });
+
+const tenant = { id: 't1', name: 'Jane Smith', propertyId: 'p1', status: 'Active', tenancyStartDate: '2025-05-01', depositAmount: 1000 };
+
+const itemFor = (result: ReturnType<typeof assessPropertyCompliance>, requirement: string) =>
+  result.items.find(i => i.requirement === requirement);
+
+describe('nationOf', () => {
+  it('reads the nation from the postcode area', () => {
+    expect(nationOf('CF10 1AA')).toBe('wales');
+    expect(nationOf('G1 1AA')).toBe('scotland');
+    expect(nationOf('GL1 1AA')).toBe('england');
+    expect(nationOf('bt1 1aa')).toBe('northern_ireland');
+    expect(nationOf(undefined)).toBe('england');
+  });
+});
+
+describe('depositDeadline', () => {
+  const start = new Date(2025, 5, 2);
+
+  it('allows 30 days in England and Wales and 28 in Northern Ireland', () => {
+    expect(depositDeadline(start, 'england')).toEqual(new Date(2025, 6, 2));
+    expect(depositDeadline(start, 'northern_ireland')).toEqual(new Date(2025, 5, 30));
+  });
+
+  it('allows 30 working days in Scotland', () => {
+    expect(depositDeadline(start, 'scotland')).toEqual(new Date(2025, 6, 14));
+  });
+});
+
+describe('isBelowMinimumEpc', () => {
+  it('fails F and G only', () => {
+    expect(isBelowMinimumEpc('E')).toBe(false);
+    expect(isBelowMinimumEpc('F')).toBe(true);
+    expect(isBelowMinimumEpc(undefined)).toBe(false);
+  });
+});
+
+describe('assessPropertyCompliance', () => {
+  it('reports certificates with no evidence as missing, needing attention while empty', () => {
+    const result = assessPropertyCompliance(property, noRecords, today);
+    expect(result.items.map(i => i.requirement)).toEqual(['gasSafety', 'eicr', 'epc']);
+    expect(result.missing).toHaveLength(3);
+    expect(result.status).toBe('attention');
+  });
+
+  it('leaves out gas safety where there is no gas supply', () => {
+    const result = assessPropertyCompliance({ ...property, hasGasSupply: false }, noRecords, today);
+    expect(itemFor(result, 'gasSafety')).toBeUndefined();
+  });
+
+  it('dates certificates from their issue date when no expiry is recorded', () => {
+    const documents = [certificate('Gas Safety Certificate', '2024-07-01'), certificate('Electrical Certificate', '2022-01-01'), certificate('EPC', '2020-01-01')];
+    const result = assessPropertyCompliance(property, { ...noRecords, documents }, today);
+    expect(itemFor(result, 'gasSafety')).toMatchObject({ status: 'expiring', dueDate: new Date(2025, 6, 1) });
+    expect(itemFor(result, 'eicr')?.status).toBe('compliant');
+    expect(result.status).toBe('attention');
+  });
+
+  it('fails an EPC below E in England and Wales only', () => {
+    expect(itemFor(assessPropertyCompliance({ ...property, epcRating: 'F' }, noRecords, today), 'epc')?.status).toBe('failed');
+    const scottish = { ...property, epcRating: 'F' as const, address: { postcode: 'EH1 1AA' } };
+    expect(itemFor(assessPropertyCompliance(scottish, noRecords, today), 'epc')?.status).toBe('missing');
+  });
+
+  it('fails an EICR with remedial work outstanding and dates it 28 days from the inspection', () => {
+    const eicr = { inspectionDate: '2025-05-01', outcome: 'unsatisfactory', observations: [{ id: 'o1', code: 'C2', description: 'No RCD' }] };
+    const documents = [certificate('Electrical Certificate', '2025-05-01', { eicr })];
+    const result = assessPropertyCompliance(property, { ...noRecords, documents }, today);
+    expect(itemFor(result, 'eicr')).toMatchObject({ status: 'failed', dueDate: new Date(2025, 4, 29) });
+    expect(result.status).toBe('non_compliant');
+  });
+
+  it('fails an HMO licence with more tenants than it permits', () => {
+    const hmo = { ...property, propertyType: 'HMO', hmoLicence: { licenceNumber: 'L1', expiryDate: '2029-01-01', maxOccupants: 1 } };
+    const tenants = [tenant, { ...tenant, id: 't2' }];
+    expect(itemFor(assessPropertyCompliance(hmo, { ...noRecords, tenants }, today), 'hmoLicence')?.status).toBe('failed');
+  });
+
+  it('holds each active tenancy to its alarm test, deposit and How to Rent deadlines', () => {
+    const result = assessPropertyCompliance(property, { ...noRecords, tenants: [tenant] }, today);
+    expect(itemFor(result, 'alarms')).toMatchObject({ status: 'expired', tenantId: 't1' });
+    expect(itemFor(result, 'depositProtection')).toMatchObject({ status: 'expired', dueDate: new Date(2025, 4, 31) });
+    expect(itemFor(result, 'howToRent')?.status).toBe('expired');
+    expect(result.status).toBe('non_compliant');
+  });
+
+  it('accepts a passing day-one alarm test and a protected deposit as evidence', () => {
+    const alarmTests = [{ propertyId: 'p1', tenantId: 't1', status: 'completed', testDate: '2025-05-01', results: [{ working: true }] }];
+    const deposits = [{ tenantId: 't1', protectionDate: '2025-05-10', prescribedInfoServedDate: '2025-05-10' }];
+    const result = assessPropertyCompliance(property, { ...noRecords, tenants: [tenant], alarmTests, deposits }, today);
+    expect(itemFor(result, 'alarms')?.status).toBe('compliant');
+    expect(itemFor(result, 'depositProtection')?.status).toBe('compliant');
+  });
+
+  it('does not count a failed alarm test', () => {
+    const alarmTests = [{ propertyId: 'p1', tenantId: 't1', status: 'completed', testDate: '2025-05-01', results: [{ working: false }] }];
+    const result = assessPropertyCompliance(property, { ...noRecords, tenants: [tenant], alarmTests }, today);
+    expect(itemFor(result, 'alarms')?.status).toBe('expired');
+  });
+});
@@ -0,0 +1,349 @@
+import { addBusinessDays, addDays, addMonths, isBefore, startOfDay, subDays } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import type { DocumentType } from '@/lib/document-types';
+import { isCompletedPass } from '@/lib/smoke-alarms';
+import { outstandingRemedials, remedialDeadline } from '@/lib/eicr';
+
+/**
+ * @fileOverview Compliance Rules Engine
+ * Works out what each property legally requires from its type, location and
+ * tenancy state, then checks the uploaded documents and move-in checklists
+ * against those requirements. Requirements with no evidence at all are reported
+ * as missing, so a property with nothing uploaded is still assessed.
+ */
+
+export type ComplianceRequirement =
+  | 'gasSafety'
+  | 'eicr'
+  | 'epc'
+  | 'alarms'
+  | 'hmoLicence'
+  | 'selectiveLicence'
+  | 'depositProtection'
+  | 'howToRent';
+
+export type ComplianceItemStatus = 'compliant' | 'expiring' | 'expired' | 'missing' | 'failed';
+
+export type PropertyComplianceStatus = 'compliant' | 'attention' | 'non_compliant';
+
+export type UkNation = 'england' | 'wales' | 'scotland' | 'northern_ireland';
+
+export const COMPLIANCE_REQUIREMENT_LABELS: Record<ComplianceRequirement, string> = {
+  gasSafety: 'Gas Safety Certificate',
+  eicr: 'Electrical Safety (EICR)',
+  epc: 'Energy Performance Certificate',
+  alarms: 'Smoke & CO Alarm Check',
+  hmoLicence: 'HMO Licence',
+  selectiveLicence: 'Selective Licence',
+  depositProtection: 'Deposit Protection',
+  howToRent: 'How to Rent Guide Served',
+};
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceItemStatus, string> = {
+  compliant: 'Compliant',
+  expiring: 'Expiring Soon',
+  expired: 'Expired',
+  missing: 'Missing',
+  failed: 'Below Standard',
+};
+
+export const PROPERTY_COMPLIANCE_LABELS: Record<PropertyComplianceStatus, string> = {
+  compliant: 'Compliant',
+  attention: 'Action Due',
+  non_compliant: 'Non-Compliant',
+};
+
+export const EPC_RATINGS = ['A', 'B', 'C', 'D', 'E', 'F', 'G'] as const;
+export type EpcRating = (typeof EPC_RATINGS)[number];
+
+/** Minimum Energy Efficiency Standard for private lets in England and Wales. */
+export const MINIMUM_EPC_RATING: EpcRating = 'E';
+
+/** Matches the reminders page warning window. */
+export const EXPIRY_WARNING_DAYS = 90;
+
+/** Property fields the engine reads; matches the `properties` collection shape. */
+export interface ComplianceProperty {
+  id: string;
+  propertyType?: string;
+  address?: { postcode?: string };
+  /** Assumed true when not recorded. */
+  hasGasSupply?: boolean;
+  selectiveLicensingArea?: boolean;
+  epcRating?: EpcRating;
+  /** Structured EPC data; takes precedence over `epcRating` and counts as a certificate on file. */
+  epc?: { currentRating?: EpcRating; certificateNumber?: string; expiryDate?: string };
+  /** Licence details recorded on an HMO; counts as a licence on file. */
+  hmoLicence?: { licenceNumber?: string; expiryDate?: string; maxOccupants?: number };
+  tenancy?: { depositAmount?: number };
+}
+
+export interface ComplianceRecords {
+  documents: any[];
+  tenants: any[];
+  checklists: any[];
+  /** `deposits` records; optional so callers without the deposit module still work. */
+  deposits?: any[];
+  /** `alarmTests` log; a passing test at the start of a tenancy counts as the alarm check. */
+  alarmTests?: any[];
+}
+
+export interface ComplianceItem {
+  requirement: ComplianceRequirement;
+  label: string;
+  status: ComplianceItemStatus;
+  /** Expiry of the current evidence, or the deadline for evidence that is still missing. */
+  dueDate: Date | null;
+  detail: string;
+  documentId?: string;
+  tenantId?: string;
+}
+
+export interface PropertyCompliance {
+  propertyId: string;
+  nation: UkNation;
+  status: PropertyComplianceStatus;
+  items: ComplianceItem[];
+  missing: ComplianceItem[];
+  expiring: ComplianceItem[];
+  expired: ComplianceItem[];
+}
+
+/** Document types that satisfy each certificate requirement. The generic 'Licence' type predates the split. */
+const CERTIFICATE_DOCUMENTS: Partial<Record<ComplianceRequirement, DocumentType[]>> = {
+  gasSafety: ['Gas Safety Certificate'],
+  eicr: ['Electrical Certificate'],
+  epc: ['EPC'],
+  hmoLicence: ['HMO Licence', 'Licence'],
+  selectiveLicence: ['Selective Licence', 'Licence'],
+};
+
+/** Validity used when a certificate was uploaded without an expiry date. */
+const VALIDITY_MONTHS: Partial<Record<ComplianceRequirement, number>> = {
+  gasSafety: 12,
+  eicr: 60,
+  epc: 120,
+  hmoLicence: 60,
+  selectiveLicence: 60,
+};
+
+/** Every document type the engine tracks, so other views can avoid reporting them twice. */
+export const COMPLIANCE_DOCUMENT_TYPES: string[] = Array.from(new Set([
+  ...Object.values(CERTIFICATE_DOCUMENTS).flat(),
+  'Smoke & CO Alarm Check',
+  'Deposit Protection',
+  'How to Rent Guide',
+]));
+
+// Postcode areas wholly or mainly in each devolved nation; everything else is treated as England
+const SCOTTISH_AREAS = ['AB', 'DD', 'DG', 'EH', 'FK', 'G', 'HS', 'IV', 'KA', 'KW', 'KY', 'ML', 'PA', 'PH', 'TD', 'ZE'];
+const WELSH_AREAS = ['CF', 'LD', 'LL', 'NP', 'SA'];
+
+export function nationOf(postcode?: string): UkNation {
+  const area = (postcode || '').trim().toUpperCase().match(/^[A-Z]{1,2}/)?.[0] ?? '';
+  if (area === 'BT') return 'northern_ireland';
+  if (SCOTTISH_AREAS.includes(area)) return 'scotland';
+  if (WELSH_AREAS.includes(area)) return 'wales';
+  return 'england';
+}
+
+export function isHmo(property: ComplianceProperty): boolean {
+  return (property.propertyType || '').toUpperCase() === 'HMO';
+}
+
+/** True when a rating is worse than the legal minimum. */
+export function isBelowMinimumEpc(rating?: string): boolean {
+  if (!rating) return false;
+  return EPC_RATINGS.indexOf(rating as EpcRating) > EPC_RATINGS.indexOf(MINIMUM_EPC_RATING);
+}
+
+function expiryOf(document: any, requirement: ComplianceRequirement): Date | null {
+  const expiry = safeToDate(document.expiryDate);
+  if (expiry) return expiry;
+  const issued = safeToDate(document.issueDate);
+  const months = VALIDITY_MONTHS[requirement];
+  return issued && months ? addMonths(issued, months) : null;
+}
+
+function expiryStatus(expiry: Date, today: Date): ComplianceItemStatus {
+  if (isBefore(expiry, today)) return 'expired';
+  if (isBefore(expiry, addDays(today, EXPIRY_WARNING_DAYS))) return 'expiring';
+  return 'compliant';
+}
+
+/** Evidence dated on or after the start of a tenancy, allowing for paperwork done a few days ahead. */
+function datedForTenancy(document: any, tenancyStart: Date | null, leadDays: number): boolean {
+  const issued = safeToDate(document.issueDate) ?? safeToDate(document.createdDate);
+  if (!issued) return false;
+  return !tenancyStart || !isBefore(issued, subDays(startOfDay(tenancyStart), leadDays));
+}
+
+function certificateItem(
+  requirement: ComplianceRequirement,
+  documents: any[],
+  today: Date
+): ComplianceItem {
+  const types: string[] = CERTIFICATE_DOCUMENTS[requirement] ?? [];
+  const latest = documents
+    .filter(d => types.includes(d.documentType))
+    .map(d => ({ doc: d, expiry: expiryOf(d, requirement) }))
+    .filter((d): d is { doc: any; expiry: Date } => !!d.expiry)
+    .sort((a, b) => b.expiry.getTime() - a.expiry.getTime())[0];
+
+  const label = COMPLIANCE_REQUIREMENT_LABELS[requirement];
+  if (!latest) {
+    return { requirement, label, status: 'missing', dueDate: null, detail: `No ${types[0]} on record.` };
+  }
+  const status = expiryStatus(latest.expiry, today);
+  return {
+    requirement,
+    label,
+    status,
+    dueDate: latest.expiry,
+    documentId: latest.doc.id,
+    detail: status === 'expired' ? 'Certificate has expired; renew it now.' : status === 'expiring' ? 'Renewal due soon.' : 'Current certificate on file.',
+  };
+}
+
+/** Last day to protect a deposit and serve the prescribed information. */
+export function depositDeadline(start: Date, nation: UkNation): Date {
+  // Scotland allows 30 working days; Northern Ireland 28 days; England and Wales 30 days
+  if (nation === 'scotland') return addBusinessDays(start, 30);
+  return addDays(start, nation === 'northern_ireland' ? 28 : 30);
+}
+
+function tenancyItem(
+  requirement: ComplianceRequirement,
+  tenant: any,
+  satisfied: boolean,
+  dueDate: Date | null,
+  today: Date,
+  missingDetail: string
+): ComplianceItem {
+  const label = `${COMPLIANCE_REQUIREMENT_LABELS[requirement]}${tenant.name ? ` (${tenant.name})` : ''}`;
+  if (satisfied) return { requirement, label, status: 'compliant', dueDate: null, tenantId: tenant.id, detail: 'Evidence on file for this tenancy.' };
+  const overdue = !!dueDate && isBefore(dueDate, today);
+  return { requirement, label, status: overdue ? 'expired' : 'missing', dueDate, tenantId: tenant.id, detail: missingDetail };
+}
+
+/** Every requirement that applies to a property, with its current status. */
+export function assessPropertyCompliance(
+  property: ComplianceProperty,
+  records: ComplianceRecords,
+  today: Date = new Date()
+): PropertyCompliance {
+  const now = startOfDay(today);
+  const nation = nationOf(property.address?.postcode);
+  const documents = records.documents.filter(d => d.propertyId === property.id);
+  const tenants = records.tenants.filter(t => t.propertyId === property.id && (t.status || 'Active') === 'Active');
+  const checklistFor = (tenantId: string) => records.checklists.filter(c => c.tenantId === tenantId);
+  const alarmTests = (records.alarmTests || []).filter(t => t.propertyId === property.id);
+  const items: ComplianceItem[] = [];
+
+  if (property.hasGasSupply !== false) items.push(certificateItem('gasSafety', documents, now));
+
+  // An unsatisfactory report still counts as current, but its C1, C2 and FI items must be remedied within 28 days
+  const eicr = certificateItem('eicr', documents, now);
+  const eicrResults = documents.find(d => d.id === eicr.documentId)?.eicr;
+  const remedials = outstandingRemedials(eicrResults, now);
+  const inspected = safeToDate(eicrResults?.inspectionDate);
+  if (remedials.length && inspected && eicr.status !== 'expired') {
+    const deadline = remedialDeadline(inspected);
+    eicr.status = 'failed';
+    eicr.dueDate = deadline;
+    eicr.detail = `${remedials.length} remedial item(s) outstanding; work is due within 28 days of the inspection.`;
+  }
+  items.push(eicr);
+
+  let epc = certificateItem('epc', documents, now);
+  const registerExpiry = safeToDate(property.epc?.expiryDate);
+  if (registerExpiry && (!epc.dueDate || isBefore(epc.dueDate, registerExpiry))) {
+    const status = expiryStatus(registerExpiry, now);
+    epc = {
+      requirement: 'epc',
+      label: epc.label,
+      status,
+      dueDate: registerExpiry,
+      detail: status === 'expired'
+        ? 'Certificate has expired; commission a new EPC.'
+        : property.epc?.certificateNumber ? `Certificate ${property.epc.certificateNumber} recorded on the property.` : 'EPC details recorded on the property.',
+    };
+  }
+  const epcRating = property.epc?.currentRating || property.epcRating;
+  if (nation !== 'scotland' && nation !== 'northern_ireland' && isBelowMinimumEpc(epcRating)) {
+    epc.status = 'failed';
+    epc.detail = `Rated ${epcRating}; private lets need ${MINIMUM_EPC_RATING} or better unless an exemption is registered.`;
+  }
+  items.push(epc);
+
+  if (isHmo(property)) {
+    let licence = certificateItem('hmoLicence', documents, now);
+    const licenceExpiry = safeToDate(property.hmoLicence?.expiryDate);
+    if (licenceExpiry && (!licence.dueDate || isBefore(licence.dueDate, licenceExpiry))) {
+      const status = expiryStatus(licenceExpiry, now);
+      licence = {
+        requirement: 'hmoLicence',
+        label: licence.label,
+        status,
+        dueDate: licenceExpiry,
+        detail: status === 'expired'
+          ? 'Licence has expired; apply to the council to renew it.'
+          : property.hmoLicence?.licenceNumber ? `Licence ${property.hmoLicence.licenceNumber} recorded on the property.` : 'Licence details recorded on the property.',
+      };
+    }
+    const maxOccupants = property.hmoLicence?.maxOccupants;
+    if (maxOccupants && tenants.length > maxOccupants) {
+      licence.status = 'failed';
+      licence.detail = `${tenants.length} tenants assigned; the licence permits ${maxOccupants} occupants.`;
+    }
+    items.push(licence);
+  } else if (property.selectiveLicensingArea) {
+    items.push(certificateItem('selectiveLicence', documents, now));
+  }
+
+  tenants.forEach(tenant => {
+    const start = safeToDate(tenant.tenancyStartDate);
+    const checklists = checklistFor(tenant.id);
+
+    // Alarms must be tested on the first day of every tenancy
+    const alarmsChecked =
+      documents.some(d => d.documentType === 'Smoke & CO Alarm Check' && datedForTenancy(d, start, 7)) ||
+      alarmTests.some(t => isCompletedPass(t) && (t.tenantId === tenant.id || datedForTenancy({ issueDate: t.testDate }, start, 7)));
+    items.push(tenancyItem('alarms', tenant, alarmsChecked, start, now, 'No alarm test recorded for the start of this tenancy.'));
+
+    const deposit = Number(tenant.depositAmount ?? property.tenancy?.depositAmount) || 0;
+    if (deposit > 0) {
+      const protectedOnFile =
+        checklists.some(c => c.deposit?.protectionCertificate) ||
+        (records.deposits || []).some(d => d.tenantId === tenant.id && d.protectionDate && d.prescribedInfoServedDate) ||
+        documents.some(d => d.documentType === 'Deposit Protection' && datedForTenancy(d, start, 30));
+      const deadline = start ? depositDeadline(start, nation) : null;
+      items.push(tenancyItem('depositProtection', tenant, protectedOnFile, deadline, now, 'Protect the deposit and serve the prescribed information.'));
+    }
+
+    if (nation === 'england') {
+      const served =
+        checklists.some(c => c.beforeTenancy?.howToRentGuide) ||
+        documents.some(d => d.documentType === 'How to Rent Guide' && datedForTenancy(d, start, 60));
+      items.push(tenancyItem('howToRent', tenant, served, start, now, 'Serve the current How to Rent guide before the tenancy starts.'));
+    }
+  });
+
+  const missing = items.filter(i => i.status === 'missing');
+  const expiring = items.filter(i => i.status === 'expiring');
+  const expired = items.filter(i => i.status === 'expired' || i.status === 'failed');
+  // Missing certificates only become a breach once the property is let; a deadline still ahead needs action but is not yet a breach
+  const occupied = tenants.length > 0;
+  const breach = expired.length > 0 || missing.some(i => (i.dueDate ? !isBefore(now, i.dueDate) : occupied));
+  const status: PropertyComplianceStatus = breach ? 'non_compliant' : missing.length || expiring.length ? 'attention' : 'compliant';
+
+  return { propertyId: property.id, nation, status, items, missing, expiring, expired };
+}
+
+export function assessPortfolioCompliance(
+  properties: ComplianceProperty[],
+  records: ComplianceRecords,
+  today: Date = new Date()
+): PropertyCompliance[] {
+  return properties.map(p => assessPropertyCompliance(p, records, today));
+}
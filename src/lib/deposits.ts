@@ -0,0 +1,185 @@
+import { differenceInCalendarDays, isBefore, startOfDay } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { newEntryId } from '@/lib/firestore-utils';
+import { depositDeadline, nationOf } from '@/lib/compliance-rules';
+import { fromPence, penceOf, sumPence, toPence, type Pence } from '@/lib/money';
+
+/**
+ * @fileOverview Tenancy Deposits
+ * One `deposits` record per tenancy: the scheme it is protected with, the
+ * protection and prescribed information deadlines, and the end-of-tenancy return
+ * from proposed deductions through the tenant's response to final settlement.
+ */
+
+export type DepositScheme = 'dps' | 'tds' | 'mydeposits';
+export type DepositSchemeType = 'custodial' | 'insured';
+
+export const DEPOSIT_SCHEMES: Record<DepositScheme, { name: string; website: string }> = {
+  dps: { name: 'Deposit Protection Service (DPS)', website: 'www.depositprotection.com' },
+  tds: { name: 'Tenancy Deposit Scheme (TDS)', website: 'www.tenancydepositscheme.com' },
+  mydeposits: { name: 'mydeposits', website: 'www.mydeposits.co.uk' },
+};
+
+export const DEPOSIT_SCHEME_TYPE_LABELS: Record<DepositSchemeType, string> = {
+  custodial: 'Custodial',
+  insured: 'Insured',
+};
+
+export type DepositReturnStatus = 'held' | 'proposed' | 'agreed' | 'disputed' | 'settled';
+
+export const DEPOSIT_RETURN_STATUS_LABELS: Record<DepositReturnStatus, string> = {
+  held: 'Held',
+  proposed: 'Return Proposed',
+  agreed: 'Tenant Agreed',
+  disputed: 'In Dispute',
+  settled: 'Settled',
+};
+
+export type DeductionCategory = 'cleaning' | 'damage' | 'rent_arrears' | 'missing_items' | 'utilities' | 'other';
+
+export const DEDUCTION_CATEGORY_LABELS: Record<DeductionCategory, string> = {
+  cleaning: 'Cleaning',
+  damage: 'Damage',
+  rent_arrears: 'Rent Arrears',
+  missing_items: 'Missing Items',
+  utilities: 'Unpaid Bills',
+  other: 'Other',
+};
+
+export interface DepositDeduction {
+  id: string;
+  category: DeductionCategory;
+  description: string;
+  amount: number;
+  amountPence: Pence;
+  /** Check-out inspection and finding (`section.item`) the deduction relies on. */
+  inspectionId?: string;
+  findingKey?: string;
+}
+
+export interface Deposit {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  tenantId: string;
+  tenantName: string;
+  amount: number;
+  amountPence?: Pence;
+  receivedDate: string;
+  scheme: DepositScheme;
+  schemeType: DepositSchemeType;
+  protectionDate?: string;
+  protectionReference?: string;
+  certificateDocumentId?: string;
+  prescribedInfoServedDate?: string;
+  landlordAddress?: string;
+  landlordTelephone?: string;
+  returnStatus: DepositReturnStatus;
+  deductions: DepositDeduction[];
+  returnProposedDate?: string;
+  tenantResponseDate?: string;
+  /** Scheme dispute or adjudication case number. */
+  disputeReference?: string;
+  settledDate?: string;
+  settledToTenant?: number;
+  settledToTenantPence?: Pence;
+  settledToLandlord?: number;
+  settledToLandlordPence?: Pence;
+  createdDate: string;
+}
+
+/** Steps the return workflow allows from each status. */
+export const DEPOSIT_RETURN_TRANSITIONS: Record<DepositReturnStatus, DepositReturnStatus[]> = {
+  held: ['proposed'],
+  proposed: ['agreed', 'disputed', 'held'],
+  agreed: ['settled'],
+  disputed: ['settled', 'proposed'],
+  settled: [],
+};
+
+export function canMoveTo(from: DepositReturnStatus, to: DepositReturnStatus): boolean {
+  return DEPOSIT_RETURN_TRANSITIONS[from].includes(to);
+}
+
+/** Deductions can be changed until the tenant agrees or the deposit is paid out. */
+export function deductionsEditable(status: DepositReturnStatus): boolean {
+  return status === 'held' || status === 'proposed' || status === 'disputed';
+}
+
+export type DeadlineStatus = 'done' | 'late' | 'due' | 'overdue';
+
+export interface DepositDeadlines {
+  deadline: Date;
+  protection: DeadlineStatus;
+  prescribedInfo: DeadlineStatus;
+  daysRemaining: number;
+}
+
+function deadlineStatus(done: Date | null, deadline: Date, today: Date): DeadlineStatus {
+  if (done) return isBefore(deadline, startOfDay(done)) ? 'late' : 'done';
+  return isBefore(deadline, today) ? 'overdue' : 'due';
+}
+
+/**
+ * Protection and prescribed information are both due within 30 days of receiving
+ * the deposit (30 working days in Scotland, 28 days in Northern Ireland).
+ */
+export function depositDeadlines(deposit: Pick<Deposit, 'receivedDate' | 'protectionDate' | 'prescribedInfoServedDate'>, postcode?: string, today: Date = new Date()): DepositDeadlines | null {
+  const received = safeToDate(deposit.receivedDate);
+  if (!received) return null;
+  const now = startOfDay(today);
+  const deadline = depositDeadline(startOfDay(received), nationOf(postcode));
+  return {
+    deadline,
+    protection: deadlineStatus(safeToDate(deposit.protectionDate), deadline, now),
+    prescribedInfo: deadlineStatus(safeToDate(deposit.prescribedInfoServedDate), deadline, now),
+    daysRemaining: differenceInCalendarDays(deadline, now),
+  };
+}
+
+/** Tenant Fees Act cap: five weeks' rent, or six where annual rent is £50,000 or more. */
+export function depositCapPence(monthlyRent: number): Pence {
+  const annual = toPence(monthlyRent) * 12;
+  const weeks = annual >= toPence(50000) ? 6 : 5;
+  return Math.floor((annual / 52) * weeks);
+}
+
+export interface ReturnBreakdown {
+  depositPence: Pence;
+  deductionsPence: Pence;
+  /** Deductions beyond the deposit have to be recovered separately. */
+  excessPence: Pence;
+  toTenantPence: Pence;
+  toLandlordPence: Pence;
+}
+
+export function returnBreakdown(deposit: Pick<Deposit, 'amount' | 'amountPence' | 'deductions'>): ReturnBreakdown {
+  const depositPence = penceOf(deposit, 'amount');
+  const deductionsPence = sumPence((deposit.deductions || []).map(d => penceOf(d, 'amount')));
+  const toLandlordPence = Math.min(deductionsPence, depositPence);
+  return {
+    depositPence,
+    deductionsPence,
+    excessPence: Math.max(0, deductionsPence - depositPence),
+    toTenantPence: depositPence - toLandlordPence,
+    toLandlordPence,
+  };
+}
+
+export function newDeduction(values: { category: DeductionCategory; description: string; amount: number; inspectionId?: string; findingKey?: string }): DepositDeduction {
+  const amountPence = toPence(values.amount);
+  return {
+    id: newEntryId(),
+    category: values.category,
+    description: values.description,
+    amount: fromPence(amountPence),
+    amountPence,
+    ...(values.inspectionId ? { inspectionId: values.inspectionId } : {}),
+    ...(values.findingKey ? { findingKey: values.findingKey } : {}),
+  };
+}
+
+/** Deposit records count as compliance evidence once protected and the prescribed information is served. */
+export function isDepositCompliant(deposit: Pick<Deposit, 'protectionDate' | 'prescribedInfoServedDate'>): boolean {
+  return !!deposit.protectionDate && !!deposit.prescribedInfoServedDate;
+}
@@ -0,0 +1,130 @@
+import { Firestore, addDoc, collection } from 'firebase/firestore';
+import { safeToDate } from '@/lib/date-utils';
+import type { DocumentType } from '@/lib/document-types';
+
+/**
+ * @fileOverview Document Service Log
+ * Evidence that a document was actually given to the tenant, kept in the flat
+ * `documentServices` collection. Landlords record each act of service (date,
+ * method, recipients); the tenant portal adds a receipt the first time a resident
+ * sees a shared document and every time they download it. Together these back the
+ * certificate of service a court expects in a possession claim.
+ */
+
+export type ServiceMethod = 'portal' | 'email' | 'hand' | 'post';
+
+export const SERVICE_METHOD_LABELS: Record<ServiceMethod, string> = {
+  portal: 'Tenant portal',
+  email: 'Email',
+  hand: 'By hand',
+  post: 'First class post',
+};
+
+/** `served` is logged by the landlord; `viewed` and `downloaded` are portal receipts. */
+export type ServiceEventKind = 'served' | 'viewed' | 'downloaded';
+
+export const SERVICE_EVENT_LABELS: Record<ServiceEventKind, string> = {
+  served: 'Served',
+  viewed: 'Viewed in portal',
+  downloaded: 'Downloaded from portal',
+};
+
+/** Documents a landlord must be able to prove were served on the tenant. */
+export const SERVICE_REQUIRED_TYPES: DocumentType[] = [
+  'EPC',
+  'Gas Safety Certificate',
+  'Electrical Certificate',
+  'How to Rent Guide',
+  'Deposit Protection',
+  "Renters' Rights Information Sheet",
+];
+
+export function requiresProofOfService(documentType?: string): boolean {
+  return SERVICE_REQUIRED_TYPES.includes(documentType as DocumentType);
+}
+
+export interface ServiceEvent {
+  id: string;
+  kind: ServiceEventKind;
+  landlordId: string;
+  propertyId: string;
+  documentId: string;
+  documentTitle: string;
+  documentType: string;
+  /** Date of service for `served`, timestamp of the portal action for receipts. */
+  occurredAt: string;
+  method: ServiceMethod;
+  tenantIds: string[];
+  tenantNames: string[];
+  /** Set on portal receipts so residents can read back their own receipts. */
+  tenantUid?: string;
+  notes?: string;
+  createdDate: string;
+}
+
+interface ServiceDocument {
+  id: string;
+  landlordId?: string;
+  propertyId: string;
+  title: string;
+  documentType: string;
+}
+
+/** Records the landlord serving a document on one or more tenants. */
+export async function recordService(
+  firestore: Firestore,
+  landlordId: string,
+  document: ServiceDocument,
+  service: { servedDate: string; method: ServiceMethod; tenants: { id: string; name: string }[]; notes?: string }
+): Promise<string> {
+  const ref = await addDoc(collection(firestore, 'documentServices'), {
+    kind: 'served',
+    landlordId,
+    propertyId: document.propertyId,
+    documentId: document.id,
+    documentTitle: document.title,
+    documentType: document.documentType,
+    occurredAt: service.servedDate,
+    method: service.method,
+    tenantIds: service.tenants.map(t => t.id),
+    tenantNames: service.tenants.map(t => t.name),
+    notes: service.notes || '',
+    createdDate: new Date().toISOString(),
+  });
+  return ref.id;
+}
+
+/** Records a resident opening a shared document in the portal. */
+export async function recordPortalReceipt(
+  firestore: Firestore,
+  kind: Exclude<ServiceEventKind, 'served'>,
+  document: ServiceDocument & { landlordId: string },
+  tenant: { id: string; name: string; uid: string }
+): Promise<void> {
+  const now = new Date().toISOString();
+  await addDoc(collection(firestore, 'documentServices'), {
+    kind,
+    landlordId: document.landlordId,
+    propertyId: document.propertyId,
+    documentId: document.id,
+    documentTitle: document.title,
+    documentType: document.documentType,
+    occurredAt: now,
+    method: 'portal',
+    tenantIds: [tenant.id],
+    tenantNames: [tenant.name],
+    tenantUid: tenant.uid,
+    createdDate: now,
+  });
+}
+
+/** Service events oldest first, the order a certificate of service reads in. */
+export function sortServiceEvents<T extends { occurredAt: string }>(events: T[]): T[] {
+  const time = (e: T) => safeToDate(e.occurredAt)?.getTime() ?? 0;
+  return [...events].sort((a, b) => time(a) - time(b));
+}
+
+/** Tenants with any evidence of service for the document, served or portal receipt. */
+export function servedTenantIds(events: Pick<ServiceEvent, 'tenantIds'>[]): Set<string> {
+  return new Set(events.flatMap(e => e.tenantIds || []));
+}
@@ -0,0 +1,24 @@
+/**
+ * @fileOverview Document Types
+ * Document categories shared by the upload and edit forms and the compliance rules engine.
+ */
+
+export const DOCUMENT_TYPES = [
+  'Tenancy Agreement',
+  'Inventory',
+  'Gas Safety Certificate',
+  'Electrical Certificate',
+  'EPC',
+  'Smoke & CO Alarm Check',
+  'Insurance',
+  'Deposit Protection',
+  'How to Rent Guide',
+  "Renters' Rights Information Sheet",
+  'HMO Licence',
+  'Selective Licence',
+  'Licence',
+  'Correspondence',
+  'Invoice',
+] as const;
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
@@ -0,0 +1,151 @@
+import {
+  Firestore,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { safeToDate } from '@/lib/date-utils';
+import type { DocumentType } from '@/lib/document-types';
+
+/**
+ * @fileOverview Document Versioning
+ * Certificates form version chains: uploading a new one of the same type for the
+ * same property supersedes the current one rather than sitting beside it. Older
+ * versions are kept for the audit trail and carry `supersededBy`; anything that
+ * reasons about validity should only look at current versions.
+ */
+
+/** Document types where only the latest upload per property is in force. */
+export const VERSIONED_DOCUMENT_TYPES: DocumentType[] = [
+  'Gas Safety Certificate',
+  'Electrical Certificate',
+  'EPC',
+  'Smoke & CO Alarm Check',
+  'Insurance',
+  'HMO Licence',
+  'Selective Licence',
+  'Licence',
+];
+
+/** Version fields stored on `documents` records. */
+export interface DocumentVersionFields {
+  /** Id of the first document in the chain; shared by every version. */
+  versionGroupId?: string;
+  version?: number;
+  supersedes?: string;
+  supersededBy?: string;
+  supersededDate?: string;
+}
+
+export function isVersionedType(documentType?: string): boolean {
+  return VERSIONED_DOCUMENT_TYPES.includes(documentType as DocumentType);
+}
+
+function issuedAt(d: any): number {
+  return (safeToDate(d.issueDate) ?? safeToDate(d.createdDate))?.getTime() ?? 0;
+}
+
+/**
+ * Current versions only. Uploads made before versioning have no chain fields, so
+ * where several unsuperseded certificates of one type exist for a property the
+ * most recently issued one is taken as current.
+ */
+export function currentDocuments<T extends { id: string; propertyId?: string; documentType?: string; supersededBy?: string }>(documents: T[]): T[] {
+  const latest = new Map<string, T>();
+  const result: T[] = [];
+  documents.forEach(d => {
+    if (d.supersededBy) return;
+    if (!isVersionedType(d.documentType)) {
+      result.push(d);
+      return;
+    }
+    const key = `${d.propertyId}|${d.documentType}`;
+    const existing = latest.get(key);
+    if (!existing || issuedAt(d) > issuedAt(existing)) latest.set(key, d);
+  });
+  return [...result, ...latest.values()];
+}
+
+/** Every version in the chain `document` belongs to, newest first. */
+export function versionHistory<T extends { id: string } & DocumentVersionFields>(documents: T[], document: T): T[] {
+  const group = document.versionGroupId || document.id;
+  return documents
+    .filter(d => d.id === document.id || (d.versionGroupId || d.id) === group)
+    .sort((a, b) => (b.version ?? 1) - (a.version ?? 1) || issuedAt(b) - issuedAt(a));
+}
+
+/**
+ * Creates a document record. For versioned types the current certificate of the
+ * same type for the property is superseded in the same batch, and the new record
+ * joins its chain. Returns the new document id and the id it superseded, if any.
+ */
+export async function addVersionedDocument(
+  firestore: Firestore,
+  data: Record<string, any> & { landlordId: string; propertyId: string; documentType: string }
+): Promise<{ id: string; supersededId: string | null }> {
+  const newRef = doc(collection(firestore, 'documents'));
+  const batch = writeBatch(firestore);
+
+  if (!isVersionedType(data.documentType)) {
+    batch.set(newRef, data);
+    await batch.commit();
+    return { id: newRef.id, supersededId: null };
+  }
+
+  const snap = await getDocs(query(
+    collection(firestore, 'documents'),
+    where('landlordId', '==', data.landlordId),
+    where('propertyId', '==', data.propertyId),
+    where('documentType', '==', data.documentType)
+  ));
+  const existing = snap.docs.map(d => ({ id: d.id, ...d.data() } as any));
+  const current = existing.filter(d => !d.supersededBy).sort((a, b) => issuedAt(b) - issuedAt(a));
+  const previous = current[0];
+  const now = new Date().toISOString();
+
+  batch.set(newRef, {
+    ...data,
+    versionGroupId: previous ? previous.versionGroupId || previous.id : newRef.id,
+    version: previous ? Math.max(...existing.map(d => d.version ?? 1)) + 1 : 1,
+    ...(previous ? { supersedes: previous.id } : {}),
+  });
+  // Legacy duplicates are folded into the chain so only the new upload stays current
+  current.forEach(d => {
+    batch.update(doc(firestore, 'documents', d.id), {
+      supersededBy: newRef.id,
+      supersededDate: now,
+      ...(d.versionGroupId ? {} : { versionGroupId: previous.versionGroupId || previous.id, version: d.version ?? 1 }),
+    });
+  });
+
+  await batch.commit();
+  return { id: newRef.id, supersededId: previous?.id ?? null };
+}
+
+/**
+ * Deletes a version without breaking its chain. Removing the current one
+ * reinstates the version it superseded; removing an older one links its
+ * neighbours to each other so `supersedes` never points at a deleted record.
+ */
+export async function deleteDocumentVersion(firestore: Firestore, document: { id: string } & DocumentVersionFields): Promise<void> {
+  if (!document.supersedes && !document.supersededBy) {
+    await deleteDoc(doc(firestore, 'documents', document.id));
+    return;
+  }
+  const batch = writeBatch(firestore);
+  if (document.supersededBy) {
+    batch.update(doc(firestore, 'documents', document.supersededBy), { supersedes: document.supersedes ?? deleteField() });
+    if (document.supersedes) {
+      batch.update(doc(firestore, 'documents', document.supersedes), { supersededBy: document.supersededBy });
+    }
+  } else if (document.supersedes) {
+    batch.update(doc(firestore, 'documents', document.supersedes), { supersededBy: deleteField(), supersededDate: deleteField() });
+  }
+  batch.delete(doc(firestore, 'documents', document.id));
+  await batch.commit();
+}
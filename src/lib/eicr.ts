@@ -0,0 +1,165 @@
+import { Firestore, addDoc, collection, doc, updateDoc } from 'firebase/firestore';
+import { addDays, format, isAfter, isBefore, startOfDay } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { compact, newEntryId } from '@/lib/firestore-utils';
+import { MONEY_FIELDS, withPence } from '@/lib/money';
+import { newRepairWorkflow } from '@/lib/repair-workflow';
+
+/**
+ * @fileOverview EICR Results and Remedial Works
+ * Structured results of an Electrical Installation Condition Report, stored on
+ * the `documents` record of the uploaded certificate (`documents.eicr`) so they
+ * version with it. C1, C2 and FI observations must be put right, or further
+ * investigated, within 28 days of the inspection; each can raise a repair in
+ * `repairs` and carries the completion date and evidence that proves the work
+ * was done inside that window.
+ */
+
+export type EicrCode = 'C1' | 'C2' | 'C3' | 'FI';
+export type EicrOutcome = 'satisfactory' | 'unsatisfactory';
+
+export const EICR_CODE_LABELS: Record<EicrCode, string> = {
+  C1: 'C1 - Danger present',
+  C2: 'C2 - Potentially dangerous',
+  C3: 'C3 - Improvement recommended',
+  FI: 'FI - Further investigation',
+};
+
+export const EICR_OUTCOME_LABELS: Record<EicrOutcome, string> = {
+  satisfactory: 'Satisfactory',
+  unsatisfactory: 'Unsatisfactory',
+};
+
+/** Days from the inspection within which required remedial work must be completed. */
+export const EICR_REMEDIAL_DAYS = 28;
+
+/** Repair priority raised for each code that requires action. */
+export const EICR_REPAIR_PRIORITY: Record<EicrCode, string> = {
+  C1: 'Emergency',
+  C2: 'Urgent',
+  FI: 'Urgent',
+  C3: 'Routine',
+};
+
+export interface EicrObservation {
+  id: string;
+  code: EicrCode;
+  /** Item number on the report's schedule of observations. */
+  itemNumber?: string;
+  location?: string;
+  description: string;
+  /** Repair raised for the remedial work. */
+  repairId?: string;
+  completedDate?: string;
+  /** Electrical installation or minor works certificate for the remedial work. */
+  evidenceDocumentId?: string;
+  evidenceNotes?: string;
+}
+
+export interface EicrResults {
+  outcome: EicrOutcome;
+  inspectionDate: string;
+  observations: EicrObservation[];
+  updatedDate: string;
+}
+
+export type RemedialStatus = 'not_required' | 'outstanding' | 'overdue' | 'completed' | 'completed_late';
+
+export const REMEDIAL_STATUS_LABELS: Record<RemedialStatus, string> = {
+  not_required: 'No Action Required',
+  outstanding: 'Remedial Due',
+  overdue: 'Overdue',
+  completed: 'Completed in Time',
+  completed_late: 'Completed Late',
+};
+
+export function requiresRemedial(code: EicrCode): boolean {
+  return code !== 'C3';
+}
+
+/** Any C1, C2 or FI makes the report unsatisfactory. */
+export function eicrOutcomeFor(observations: Pick<EicrObservation, 'code'>[]): EicrOutcome {
+  return observations.some(o => requiresRemedial(o.code)) ? 'unsatisfactory' : 'satisfactory';
+}
+
+export function remedialDeadline(inspectionDate: Date): Date {
+  return addDays(inspectionDate, EICR_REMEDIAL_DAYS);
+}
+
+export function newObservationId(): string {
+  return newEntryId('obs');
+}
+
+export function remedialStatus(observation: EicrObservation, inspectionDate: any, today: Date = new Date()): RemedialStatus {
+  if (!requiresRemedial(observation.code)) return 'not_required';
+  const inspected = safeToDate(inspectionDate);
+  const deadline = inspected ? remedialDeadline(startOfDay(inspected)) : null;
+  const completed = safeToDate(observation.completedDate);
+  if (completed) return deadline && isAfter(startOfDay(completed), deadline) ? 'completed_late' : 'completed';
+  return deadline && isBefore(deadline, startOfDay(today)) ? 'overdue' : 'outstanding';
+}
+
+/** Observations whose remedial work has not yet been recorded as done. */
+export function outstandingRemedials(results: EicrResults | undefined, today: Date = new Date()): EicrObservation[] {
+  if (!results) return [];
+  return results.observations.filter(o => {
+    const status = remedialStatus(o, results.inspectionDate, today);
+    return status === 'outstanding' || status === 'overdue';
+  });
+}
+
+export async function saveEicrResults(firestore: Firestore, documentId: string, results: Omit<EicrResults, 'updatedDate'>): Promise<void> {
+  const record: EicrResults = compact({
+    ...results,
+    observations: results.observations.map(o => compact(o)),
+    updatedDate: new Date().toISOString(),
+  });
+  await updateDoc(doc(firestore, 'documents', documentId), { eicr: record });
+}
+
+interface EicrDocument {
+  id: string;
+  propertyId: string;
+  title: string;
+  eicr: EicrResults;
+}
+
+/**
+ * Raises a repair for an observation, due by the remedial deadline, and links it
+ * back to the observation so completion can be traced from either side.
+ */
+export async function raiseRemedialRepair(firestore: Firestore, landlordId: string, document: EicrDocument, observationId: string): Promise<string> {
+  const results = document.eicr;
+  const observation = results.observations.find(o => o.id === observationId);
+  if (!observation) throw new Error('Observation not found');
+  const inspected = safeToDate(results.inspectionDate);
+  const deadline = inspected ? remedialDeadline(inspected) : null;
+  const ref = await addDoc(collection(firestore, 'repairs'), withPence(compact({
+    landlordId,
+    propertyId: document.propertyId,
+    title: `EICR ${observation.code}: ${observation.description}`.slice(0, 100),
+    description: [
+      `${EICR_CODE_LABELS[observation.code]} observation from ${document.title}.`,
+      observation.itemNumber && `Item ${observation.itemNumber}.`,
+      observation.location && `Location: ${observation.location}.`,
+      observation.description,
+      deadline && `Remedial work must be completed by ${format(deadline, 'dd/MM/yyyy')}.`,
+    ].filter(Boolean).join('\n'),
+    category: 'Electrical',
+    priority: EICR_REPAIR_PRIORITY[observation.code],
+    reportedBy: 'Landlord',
+    reportedDate: new Date(),
+    dueDate: deadline ? format(deadline, 'yyyy-MM-dd') : undefined,
+    expectedCost: 0,
+    ...newRepairWorkflow({ uid: landlordId }),
+    eicrDocumentId: document.id,
+    eicrObservationId: observation.id,
+    createdDate: new Date().toISOString(),
+  }), MONEY_FIELDS.repairs));
+  const { updatedDate, ...rest } = results;
+  await saveEicrResults(firestore, document.id, {
+    ...rest,
+    observations: results.observations.map(o => (o.id === observationId ? { ...o, repairId: ref.id } : o)),
+  });
+  return ref.id;
+}
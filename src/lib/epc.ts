@@ -0,0 +1,297 @@
+import { Firestore, doc, updateDoc } from 'firebase/firestore';
+import { addYears, format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { compact } from '@/lib/firestore-utils';
+import { parseCsv, parseStatementDate } from '@/lib/bank-import';
+import { sumPence, toPence, type Pence } from '@/lib/money';
+import { EPC_RATINGS, MINIMUM_EPC_RATING, nationOf, type EpcRating } from '@/lib/compliance-rules';
+
+/**
+ * @fileOverview Energy Performance Certificates
+ * Structured EPC data held on each property (`properties.epc`) in the shape of
+ * the EPC register, with the Minimum Energy Efficiency Standard checks built on
+ * it: today's E minimum for private lets in England and Wales, and the proposed
+ * C minimum from 2030 with an estimate of what the recommended measures cost.
+ * Register CSV exports are parsed locally, so data loads without a network call.
+ */
+
+export interface EpcRecommendation {
+  item: number;
+  improvement: string;
+  indicativeCost?: string;
+  costLowPence?: Pence;
+  costHighPence?: Pence;
+  /** Rating once this and every earlier measure is installed, where the certificate gives it. */
+  ratingAfter?: EpcRating;
+}
+
+export type EpcSource = 'manual' | 'register';
+
+export interface PropertyEpc {
+  currentRating: EpcRating;
+  currentScore?: number;
+  potentialRating?: EpcRating;
+  potentialScore?: number;
+  certificateNumber?: string;
+  lodgementDate?: string;
+  expiryDate?: string;
+  recommendations: EpcRecommendation[];
+  source: EpcSource;
+  updatedDate: string;
+}
+
+/** EPCs are valid for ten years from lodgement. */
+export const EPC_VALIDITY_YEARS = 10;
+
+/** Proposed minimum for every private let from 2030. */
+export const PROPOSED_2030_EPC_RATING: EpcRating = 'C';
+
+/** Spend above which a landlord can register an exemption from the current minimum. */
+export const MEES_COST_CAP_PENCE: Pence = 350000;
+
+/** Per-property cap proposed alongside the 2030 minimum. */
+export const PROPOSED_2030_COST_CAP_PENCE: Pence = 1500000;
+
+// SAP score bands for each rating, best first
+const SCORE_BANDS: [number, EpcRating][] = [[92, 'A'], [81, 'B'], [69, 'C'], [55, 'D'], [39, 'E'], [21, 'F'], [1, 'G']];
+
+export function ratingForScore(score: number): EpcRating {
+  return SCORE_BANDS.find(([min]) => score >= min)?.[1] ?? 'G';
+}
+
+export function isEpcRating(value: unknown): value is EpcRating {
+  return EPC_RATINGS.includes(value as EpcRating);
+}
+
+/** True when `rating` is `minimum` or better. */
+export function meetsRating(rating: EpcRating, minimum: EpcRating): boolean {
+  return EPC_RATINGS.indexOf(rating) <= EPC_RATINGS.indexOf(minimum);
+}
+
+export function epcExpiryDate(lodgementDate: Date): Date {
+  return addYears(lodgementDate, EPC_VALIDITY_YEARS);
+}
+
+/** Reads the register's indicative cost text, e.g. "£4,000 - £14,000" or "£15". */
+export function parseIndicativeCost(text?: string): { low: Pence; high: Pence } | null {
+  const values = (text || '').match(/\d[\d,]*(\.\d+)?/g)?.map(v => toPence(v.replace(/,/g, '')));
+  if (!values?.length) return null;
+  return { low: Math.min(...values), high: Math.max(...values) };
+}
+
+/** The rating in force: structured EPC data first, then the manually recorded rating. */
+export function currentEpcRating(property: { epc?: Partial<PropertyEpc>; epcRating?: EpcRating }): EpcRating | undefined {
+  return property.epc?.currentRating || property.epcRating;
+}
+
+// --- MEES ---
+
+export type MeesStatus = 'not_applicable' | 'unknown' | 'below_minimum' | 'below_2030' | 'meets_2030';
+
+export const MEES_STATUS_LABELS: Record<MeesStatus, string> = {
+  not_applicable: 'Not Applicable',
+  unknown: 'No EPC Data',
+  below_minimum: `Below ${MINIMUM_EPC_RATING} Minimum`,
+  below_2030: `Below 2030 ${PROPOSED_2030_EPC_RATING} Target`,
+  meets_2030: 'Meets 2030 Target',
+};
+
+export interface EpcUpgradePlan {
+  target: EpcRating;
+  measures: EpcRecommendation[];
+  costLowPence: Pence;
+  costHighPence: Pence;
+  /** False when the listed measures are not expected to reach the target. */
+  reachesTarget: boolean;
+  /** False when the plan assumes every measure because the certificate gives no per-step ratings. */
+  stepped: boolean;
+}
+
+export interface MeesAssessment {
+  status: MeesStatus;
+  rating?: EpcRating;
+  /** Work needed for the next threshold the property misses. */
+  upgrade: EpcUpgradePlan | null;
+  /** The low cost estimate is above the relevant spending cap, so an exemption may apply. */
+  exceedsCostCap: boolean;
+  detail: string;
+}
+
+/**
+ * The recommended measures, in certificate order, needed to reach `target`. Where
+ * the certificate gives a rating after each step the plan stops as soon as the
+ * target is met; otherwise every measure is included and the potential rating
+ * decides whether the target is reachable.
+ */
+export function upgradePlan(epc: Pick<PropertyEpc, 'recommendations' | 'potentialRating'>, target: EpcRating): EpcUpgradePlan {
+  const recommendations = [...(epc.recommendations || [])].sort((a, b) => a.item - b.item);
+  const stepped = recommendations.some(r => r.ratingAfter);
+  let measures = recommendations;
+  let reachesTarget = !!epc.potentialRating && meetsRating(epc.potentialRating, target);
+  if (stepped) {
+    const index = recommendations.findIndex(r => r.ratingAfter && meetsRating(r.ratingAfter, target));
+    reachesTarget = index >= 0;
+    if (reachesTarget) measures = recommendations.slice(0, index + 1);
+  }
+  return {
+    target,
+    measures,
+    costLowPence: sumPence(measures.map(m => m.costLowPence ?? 0)),
+    costHighPence: sumPence(measures.map(m => m.costHighPence ?? m.costLowPence ?? 0)),
+    reachesTarget,
+    stepped,
+  };
+}
+
+export function assessMees(property: { address?: { postcode?: string }; epc?: PropertyEpc; epcRating?: EpcRating }): MeesAssessment {
+  const nation = nationOf(property.address?.postcode);
+  const rating = currentEpcRating(property);
+  if (nation === 'scotland' || nation === 'northern_ireland') {
+    return { status: 'not_applicable', rating, upgrade: null, exceedsCostCap: false, detail: 'The England and Wales minimum standard does not apply here.' };
+  }
+  if (!rating) {
+    return { status: 'unknown', upgrade: null, exceedsCostCap: false, detail: 'Record or import the EPC to check the minimum standard.' };
+  }
+  if (meetsRating(rating, PROPOSED_2030_EPC_RATING)) {
+    return { status: 'meets_2030', rating, upgrade: null, exceedsCostCap: false, detail: `Rated ${rating}; already meets the proposed 2030 minimum.` };
+  }
+
+  const belowMinimum = !meetsRating(rating, MINIMUM_EPC_RATING);
+  const target = belowMinimum ? MINIMUM_EPC_RATING : PROPOSED_2030_EPC_RATING;
+  const upgrade = property.epc?.recommendations?.length ? upgradePlan(property.epc, target) : null;
+  const cap = belowMinimum ? MEES_COST_CAP_PENCE : PROPOSED_2030_COST_CAP_PENCE;
+  const exceedsCostCap = !!upgrade && upgrade.costLowPence > cap;
+
+  return {
+    status: belowMinimum ? 'below_minimum' : 'below_2030',
+    rating,
+    upgrade,
+    exceedsCostCap,
+    detail: belowMinimum
+      ? `Rated ${rating}; it cannot be let until it reaches ${MINIMUM_EPC_RATING} or an exemption is registered.`
+      : `Rated ${rating}; meets today's minimum but not the proposed ${PROPOSED_2030_EPC_RATING} rating for 2030.`,
+  };
+}
+
+// --- Register CSV import ---
+
+export interface EpcRegisterRecord {
+  /** LMK key joining certificates to recommendations in the register export. */
+  lmkKey: string;
+  address: string;
+  postcode: string;
+  uprn?: string;
+  epc: Omit<PropertyEpc, 'source' | 'updatedDate'>;
+}
+
+export interface EpcImportMatch {
+  propertyId: string;
+  record: EpcRegisterRecord;
+}
+
+const normaliseHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+const normalisePostcode = (p?: string) => (p || '').toUpperCase().replace(/\s+/g, '');
+
+function readTable(text: string): Record<string, string>[] {
+  const rows = parseCsv(text.replace(/^﻿/, ''));
+  if (rows.length < 2) return [];
+  const headers = rows[0].map(normaliseHeader);
+  return rows.slice(1).map(row => Object.fromEntries(headers.map((h, i) => [h, row[i] ?? ''])));
+}
+
+const first = (row: Record<string, string>, keys: string[]) => keys.map(k => row[k]).find(v => v && v.trim()) || '';
+
+/**
+ * Parses the EPC register's domestic `certificates.csv` export and, optionally,
+ * its `recommendations.csv`. Both the bulk download (UPPER_SNAKE headers) and the
+ * search API's CSV (lower-kebab headers) are accepted.
+ */
+export function parseEpcRegisterCsv(certificatesText: string, recommendationsText?: string): EpcRegisterRecord[] {
+  const recommendations = new Map<string, EpcRecommendation[]>();
+  if (recommendationsText) {
+    readTable(recommendationsText).forEach(row => {
+      const key = first(row, ['lmk_key']);
+      if (!key) return;
+      const cost = parseIndicativeCost(row.indicative_cost);
+      const ratingAfter = first(row, ['energy_rating_after', 'rating_after']).toUpperCase();
+      const list = recommendations.get(key) || [];
+      list.push({
+        item: Number(row.improvement_item) || list.length + 1,
+        improvement: first(row, ['improvement_summary_text', 'improvement_id_text', 'improvement_descr_text']) || 'Improvement',
+        indicativeCost: row.indicative_cost || undefined,
+        costLowPence: cost?.low,
+        costHighPence: cost?.high,
+        ratingAfter: isEpcRating(ratingAfter) ? ratingAfter : undefined,
+      });
+      recommendations.set(key, list);
+    });
+  }
+
+  return readTable(certificatesText).flatMap(row => {
+    const currentRating = row.current_energy_rating?.toUpperCase();
+    if (!isEpcRating(currentRating)) return [];
+    const lmkKey = first(row, ['lmk_key']);
+    const potentialRating = row.potential_energy_rating?.toUpperCase();
+    const currentScore = Number(row.current_energy_efficiency) || undefined;
+    const potentialScore = Number(row.potential_energy_efficiency) || undefined;
+    const lodged = parseStatementDate(first(row, ['lodgement_date', 'lodgement_datetime', 'inspection_date']));
+    return [{
+      lmkKey,
+      address: first(row, ['address']) || [row.address1, row.address2, row.address3].filter(Boolean).join(', '),
+      postcode: row.postcode || '',
+      uprn: row.uprn || undefined,
+      epc: {
+        currentRating,
+        currentScore,
+        potentialRating: isEpcRating(potentialRating) ? potentialRating : undefined,
+        potentialScore,
+        certificateNumber: first(row, ['certificate_number', 'report_reference_number', 'rrn']) || undefined,
+        lodgementDate: lodged ? format(lodged, 'yyyy-MM-dd') : undefined,
+        expiryDate: lodged ? format(epcExpiryDate(lodged), 'yyyy-MM-dd') : undefined,
+        recommendations: (recommendations.get(lmkKey) || []).sort((a, b) => a.item - b.item),
+      },
+    }];
+  });
+}
+
+interface MatchableProperty {
+  id: string;
+  address: { nameOrNumber?: string; street?: string; postcode?: string };
+}
+
+function addressMatches(record: EpcRegisterRecord, address: MatchableProperty['address']): boolean {
+  const text = ` ${record.address.toUpperCase().replace(/[^A-Z0-9]+/g, ' ')} `;
+  const number = (address.nameOrNumber || '').toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+  if (number) return text.includes(` ${number} `);
+  const street = (address.street || '').toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+  return !!street && text.includes(` ${street} `);
+}
+
+/** Ties register records to properties by postcode and house name or number, keeping the latest certificate for each. */
+export function matchEpcRecords(records: EpcRegisterRecord[], properties: MatchableProperty[]): EpcImportMatch[] {
+  const lodged = (r: EpcRegisterRecord) => safeToDate(r.epc.lodgementDate)?.getTime() ?? 0;
+  return properties.flatMap(p => {
+    const postcode = normalisePostcode(p.address?.postcode);
+    if (!postcode) return [];
+    const latest = records
+      .filter(r => normalisePostcode(r.postcode) === postcode && addressMatches(r, p.address))
+      .sort((a, b) => lodged(b) - lodged(a))[0];
+    return latest ? [{ propertyId: p.id, record: latest }] : [];
+  });
+}
+
+// --- Persistence ---
+
+/** Stores structured EPC data and keeps the flat `epcRating` used by older views in step. */
+export async function saveEpcData(
+  firestore: Firestore,
+  propertyId: string,
+  epc: Omit<PropertyEpc, 'updatedDate'>
+): Promise<void> {
+  const record: PropertyEpc = compact({
+    ...epc,
+    recommendations: epc.recommendations.map(r => compact(r)),
+    updatedDate: new Date().toISOString(),
+  });
+  await updateDoc(doc(firestore, 'properties', propertyId), { epc: record, epcRating: record.currentRating });
+}
@@ -0,0 +1,17 @@
+/**
+ * @fileOverview Expense Categories
+ * Allowable expense groupings shared by the expense tracker, expense history and bank import.
+ */
+
+export const EXPENSE_CATEGORIES = [
+  'Repairs and Maintenance',
+  'Utilities',
+  'Insurance',
+  'Mortgage Interest',
+  'Cleaning',
+  'Gardening',
+  'Letting Agent Fees',
+  'Other',
+] as const;
+
+export type ExpenseCategory = (typeof EXPENSE_CATEGORIES)[number];
@@ -0,0 +1,27 @@
+/**
+ * @fileOverview Client-side File Export Helpers
+ * CSV serialisation and browser downloads for ledger and tax exports.
+ */
+
+function csvCell(value: string | number | null | undefined): string {
+  const s = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** Serialises rows to RFC 4180 CSV. The first row is expected to be the header. */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map(r => r.map(csvCell).join(',')).join('\r\n');
+}
+
+/** Triggers a browser download of in-memory content. */
+export function downloadFile(content: string | Blob, fileName: string, mimeType = 'text/plain') {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
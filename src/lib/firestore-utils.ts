@@ -0,0 +1,15 @@
+/**
+ * @fileOverview Firestore Utilities
+ * Small helpers shared by the modules that write records to Firestore.
+ */
+
+/** Drops unset and blank fields; Firestore rejects undefined values. */
+export function compact<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== null && v !== '')) as T;
+}
+
+/** Short id for an entry kept in an array on a document, optionally prefixed with its kind. */
+export function newEntryId(prefix?: string): string {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  return prefix ? `${prefix}-${id}` : id;
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  ALARM_POWER_LABELS,
+  ALARM_STATUS_LABELS,
+  ALARM_TEST_REASON_LABELS,
+  ALARM_TYPE_LABELS,
+  alarmStatus,
+  completedTests,
+  type Alarm,
+  type AlarmTest,
+} from '@/lib/smoke-alarms';
+
+/**
+ * @fileOverview Smoke and CO Alarm Evidence Pack
+ * The property's alarm register and every recorded test with its results and
+ * photos, newest first, as evidence that alarms were working at the start of
+ * each tenancy and maintained through it.
+ */
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+const toBase64 = (url: string): Promise<string> =>
+  fetch(url)
+    .then(response => response.blob())
+    .then(blob => new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    }));
+
+export const buildAlarmEvidencePDF = async (propertyAddress: string, alarms: Alarm[], tests: AlarmTest[]) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const log = completedTests(tests);
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFontSize(20);
+  doc.setTextColor(255);
+  doc.text('SMOKE & CO ALARM EVIDENCE', 105, 22, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(propertyAddress, 105, 32, { align: 'center' });
+
+  let finalY = 52;
+
+  // --- REGISTER ---
+  doc.setTextColor(0);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('ALARM REGISTER', 14, finalY);
+  autoTable(doc, {
+    startY: finalY + 4,
+    head: [['Location', 'Type', 'Power', 'Installed', 'Expires', 'Last Tested', 'Status']],
+    body: alarms.map(alarm => {
+      const { status, lastTested } = alarmStatus(alarm, tests);
+      return [
+        alarm.location,
+        ALARM_TYPE_LABELS[alarm.alarmType],
+        `${ALARM_POWER_LABELS[alarm.power]}${alarm.interlinked ? ', interlinked' : ''}`,
+        formatDate(alarm.installDate),
+        formatDate(alarm.expiryDate),
+        formatDate(lastTested),
+        ALARM_STATUS_LABELS[status],
+      ];
+    }),
+    theme: 'striped',
+    headStyles: { fillColor: [33, 114, 249] },
+    styles: { fontSize: 8 },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 12;
+
+  // --- TEST LOG ---
+  for (const test of log) {
+    if (finalY > pageHeight - 60) {
+      doc.addPage();
+      finalY = 20;
+    }
+    const passed = test.results.every(r => r.working);
+    doc.setTextColor(0);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${formatDate(test.testDate)} - ${ALARM_TEST_REASON_LABELS[test.reason]}`, 14, finalY);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(passed ? 0 : 200, passed ? 128 : 0, 0);
+    doc.text(passed ? 'ALL ALARMS WORKING' : 'FAULTS FOUND', pageWidth - 14, finalY, { align: 'right' });
+    doc.setTextColor(80);
+    const meta = [test.testedBy && `Tested by ${test.testedBy}`, test.tenantName && `Tenancy: ${test.tenantName}`].filter(Boolean).join(' · ');
+    if (meta) doc.text(meta, 14, finalY + 5);
+
+    autoTable(doc, {
+      startY: finalY + 8,
+      head: [['Alarm', 'Type', 'Result', 'Notes']],
+      body: test.results.map(r => [r.location, ALARM_TYPE_LABELS[r.alarmType], r.working ? 'Working' : 'Not working', r.notes || '']),
+      theme: 'grid',
+      headStyles: { fillColor: [240, 240, 240], textColor: 0 },
+      styles: { fontSize: 8 },
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 6;
+
+    if (test.notes) {
+      const lines = doc.splitTextToSize(test.notes, pageWidth - 28);
+      doc.setFontSize(8);
+      doc.setTextColor(80);
+      doc.text(lines, 14, finalY);
+      finalY += lines.length * 4 + 4;
+    }
+
+    for (let i = 0; i < (test.photoUrls || []).length; i++) {
+      try {
+        const base64 = await toBase64(test.photoUrls[i]);
+        if (finalY > pageHeight - 80) {
+          doc.addPage();
+          finalY = 20;
+        }
+        doc.addImage(base64, 'JPEG', 14, finalY, 90, 60, undefined, 'FAST');
+        doc.setFontSize(8);
+        doc.setTextColor(150);
+        doc.text(`Photo ${i + 1}, test of ${formatDate(test.testDate)}`, 14, finalY + 64);
+        finalY += 70;
+      } catch (err) {
+        console.error('Failed to add image to PDF:', err);
+      }
+    }
+    finalY += 6;
+  }
+
+  if (!log.length) {
+    doc.setFontSize(10);
+    doc.setTextColor(120);
+    doc.text('No tests have been recorded.', 14, finalY);
+  }
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Alarm Record - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  return doc;
+};
+
+export const alarmEvidenceFileName = (propertyAddress: string) =>
+  `Alarm-Evidence-${propertyAddress.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-')}-${format(new Date(), 'yyyyMMdd')}.pdf`;
+
+export const generateAlarmEvidencePDF = async (...args: Parameters<typeof buildAlarmEvidencePDF>) => {
+  const doc = await buildAlarmEvidencePDF(...args);
+  doc.save(alarmEvidenceFileName(args[0]));
+  return doc;
+};
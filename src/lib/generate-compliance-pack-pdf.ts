@@ -0,0 +1,153 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { COMPLIANCE_STATUS_LABELS, PROPERTY_COMPLIANCE_LABELS, type PropertyCompliance } from '@/lib/compliance-rules';
+import { DEPOSIT_SCHEMES, type Deposit } from '@/lib/deposits';
+import { tenancyChecklistSections } from '@/lib/checklist-sections';
+
+/**
+ * @fileOverview Compliance Pack Index PDF
+ * The first page of a property's compliance evidence pack: the status and dates
+ * of every requirement, deposit protection, the move-in checklist for each
+ * current tenancy, and a list of the files bundled alongside it.
+ */
+
+export interface CompliancePackFile {
+  /** Path inside the pack, or blank for evidence that could not be included. */
+  path: string;
+  description: string;
+  date?: any;
+  status: string;
+}
+
+export interface CompliancePackIndex {
+  propertyAddress: string;
+  compliance: PropertyCompliance;
+  deposits: Deposit[];
+  checklists: { tenantName: string; checklist: any }[];
+  files: CompliancePackFile[];
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+export const buildCompliancePackIndexPDF = (index: CompliancePackIndex) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const { compliance } = index;
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFontSize(20);
+  doc.setTextColor(255);
+  doc.text('COMPLIANCE EVIDENCE PACK', 105, 22, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(index.propertyAddress, 105, 32, { align: 'center' });
+
+  let finalY = 52;
+  const heading = (title: string) => {
+    if (finalY > pageHeight - 40) {
+      doc.addPage();
+      finalY = 20;
+    }
+    doc.setTextColor(0);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, 14, finalY);
+    doc.setFont('helvetica', 'normal');
+  };
+
+  // --- STATUS ---
+  heading(`OVERALL STATUS: ${PROPERTY_COMPLIANCE_LABELS[compliance.status].toUpperCase()}`);
+  autoTable(doc, {
+    startY: finalY + 4,
+    head: [['Requirement', 'Status', 'Due / Expires', 'Detail']],
+    body: compliance.items.map(item => [item.label, COMPLIANCE_STATUS_LABELS[item.status], formatDate(item.dueDate), item.detail]),
+    theme: 'striped',
+    headStyles: { fillColor: [33, 114, 249] },
+    styles: { fontSize: 8 },
+    columnStyles: { 3: { cellWidth: 80 } },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 12;
+
+  // --- DEPOSITS ---
+  if (index.deposits.length) {
+    heading('DEPOSIT PROTECTION');
+    autoTable(doc, {
+      startY: finalY + 4,
+      head: [['Tenant', 'Scheme', 'Reference', 'Received', 'Protected', 'Prescribed Info Served']],
+      body: index.deposits.map(d => [
+        d.tenantName,
+        DEPOSIT_SCHEMES[d.scheme]?.name || d.scheme,
+        d.protectionReference || '—',
+        formatDate(d.receivedDate),
+        formatDate(d.protectionDate),
+        formatDate(d.prescribedInfoServedDate),
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [33, 114, 249] },
+      styles: { fontSize: 8 },
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 12;
+  }
+
+  // --- CHECKLISTS ---
+  for (const { tenantName, checklist } of index.checklists) {
+    heading(`MOVE-IN CHECKLIST: ${tenantName.toUpperCase()}`);
+    doc.setFontSize(9);
+    doc.setTextColor(80);
+    doc.text(`Completed ${formatDate(checklist.completedDate)}`, pageWidth - 14, finalY, { align: 'right' });
+    const body: string[][] = [];
+    Object.entries(tenancyChecklistSections).forEach(([key, { title, fields }]) => {
+      const section = checklist[key];
+      if (!section || typeof section !== 'object') return;
+      fields.forEach(field => {
+        if (typeof section[field.key] === 'boolean') body.push([title, field.label, section[field.key] ? 'Pass' : 'Fail']);
+      });
+    });
+    autoTable(doc, {
+      startY: finalY + 4,
+      head: [['Section', 'Item', 'Result']],
+      body: body.length ? body : [['—', 'No items recorded', '—']],
+      theme: 'grid',
+      headStyles: { fillColor: [240, 240, 240], textColor: 0 },
+      styles: { fontSize: 8 },
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 12;
+  }
+
+  // --- CONTENTS ---
+  heading('PACK CONTENTS');
+  autoTable(doc, {
+    startY: finalY + 4,
+    head: [['File', 'Description', 'Date', 'Status']],
+    body: index.files.map(f => [f.path || '—', f.description, formatDate(f.date), f.status]),
+    theme: 'striped',
+    headStyles: { fillColor: [33, 114, 249] },
+    styles: { fontSize: 8 },
+  });
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Compliance Pack - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  return doc;
+};
@@ -0,0 +1,176 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { formatPence, penceOf } from '@/lib/money';
+import {
+  DEPOSIT_SCHEMES,
+  DEPOSIT_SCHEME_TYPE_LABELS,
+  type Deposit,
+} from '@/lib/deposits';
+
+/**
+ * @fileOverview Deposit Prescribed Information PDF Engine
+ * Builds the prescribed information a landlord must give the tenant once a
+ * deposit is protected: the scheme, the landlord and tenant, the deposit and
+ * when deductions may be kept, with declarations for both parties to sign.
+ */
+
+interface PrescribedInfoParties {
+  propertyAddress: string;
+  landlordName: string;
+  landlordEmail?: string;
+  tenantEmail?: string;
+  tenantPhone?: string;
+}
+
+const formatDate = (val: any) => {
+  const d = safeToDate(val);
+  return d ? format(d, 'dd/MM/yyyy') : '—';
+};
+
+export const generatePrescribedInformationPDF = async (deposit: Deposit, parties: PrescribedInfoParties) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const scheme = DEPOSIT_SCHEMES[deposit.scheme];
+
+  const section = (title: string, y: number) => {
+    if (y > pageHeight - 50) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.setTextColor(0);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(title, 14, y);
+    return y + 5;
+  };
+
+  const paragraph = (text: string, y: number) => {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    const lines = doc.splitTextToSize(text, pageWidth - 28);
+    if (y + lines.length * 4.5 > pageHeight - 20) {
+      doc.addPage();
+      y = 20;
+    }
+    doc.text(lines, 14, y);
+    return y + lines.length * 4.5 + 6;
+  };
+
+  const details = (rows: string[][], y: number) => {
+    autoTable(doc, {
+      startY: y,
+      body: rows,
+      theme: 'plain',
+      styles: { fontSize: 10, cellPadding: 2 },
+      columnStyles: { 0: { cellWidth: 55, fontStyle: 'bold' } },
+    });
+    return (doc as any).lastAutoTable.finalY + 10;
+  };
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFontSize(20);
+  doc.setTextColor(255);
+  doc.text('DEPOSIT PRESCRIBED INFORMATION', 105, 22, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text('Housing Act 2004, sections 213 to 215', 105, 32, { align: 'center' });
+
+  let finalY = 50;
+
+  // --- SCHEME ---
+  finalY = section('1. TENANCY DEPOSIT SCHEME', finalY);
+  finalY = details([
+    ['Scheme', scheme.name],
+    ['Scheme Type', DEPOSIT_SCHEME_TYPE_LABELS[deposit.schemeType]],
+    ['Website', scheme.website],
+    ['Protected On', formatDate(deposit.protectionDate)],
+    ['Certificate / Reference', deposit.protectionReference || '—'],
+  ], finalY);
+  finalY = paragraph(
+    `The scheme's leaflet explaining how it operates, and its contact details, are available from ${scheme.website} and have been provided with this information. The scheme sets out the procedure for releasing the deposit at the end of the tenancy and for resolving any dispute about it, including its free alternative dispute resolution service.`,
+    finalY
+  );
+
+  // --- PARTIES ---
+  finalY = section('2. LANDLORD', finalY);
+  finalY = details([
+    ['Name', parties.landlordName || 'Verified User'],
+    ['Address', deposit.landlordAddress || '—'],
+    ['Telephone', deposit.landlordTelephone || '—'],
+    ['Email', parties.landlordEmail || '—'],
+  ], finalY);
+
+  finalY = section('3. TENANT', finalY);
+  finalY = details([
+    ['Name', deposit.tenantName],
+    ['Email', parties.tenantEmail || '—'],
+    ['Telephone', parties.tenantPhone || '—'],
+    ['Contact After Tenancy', 'The tenant should give the landlord a forwarding address when the tenancy ends.'],
+  ], finalY);
+
+  // --- DEPOSIT ---
+  finalY = section('4. THE DEPOSIT', finalY);
+  finalY = details([
+    ['Property', parties.propertyAddress],
+    ['Amount', formatPence(penceOf(deposit, 'amount'))],
+    ['Received', formatDate(deposit.receivedDate)],
+    ['Paid By', `${deposit.tenantName} (tenant)`],
+  ], finalY);
+
+  finalY = section('5. DEDUCTIONS', finalY);
+  finalY = paragraph(
+    'At the end of the tenancy the landlord may propose to keep some or all of the deposit to cover: rent or other sums due under the tenancy that remain unpaid; damage to the property or its contents beyond fair wear and tear; cleaning needed to return the property to the condition recorded at check-in; missing items listed on the inventory; and unpaid bills the tenant was responsible for under the tenancy. Any deduction will be set out in writing with the evidence relied on. Where the tenant does not agree, either party may refer the dispute to the scheme.',
+    finalY
+  );
+  finalY = paragraph(
+    'Where a deposit is not repaid because the landlord cannot be contacted, or the parties cannot agree, the tenant may apply to the scheme directly. The scheme will explain what the tenant must do and the evidence it needs.',
+    finalY
+  );
+
+  // --- DECLARATIONS ---
+  finalY = section('6. DECLARATIONS', finalY);
+  finalY = paragraph(
+    'The landlord confirms that the information in this document is accurate to the best of their knowledge and belief, and that the tenant has had the opportunity to examine it and confirm that it is correct.',
+    finalY
+  );
+
+  if (finalY > pageHeight - 60) {
+    doc.addPage();
+    finalY = 20;
+  }
+  finalY += 10;
+  doc.setDrawColor(150);
+  doc.setFontSize(8);
+  [`Landlord${parties.landlordName ? ` (${parties.landlordName})` : ''}`, `Tenant (${deposit.tenantName})`].forEach(role => {
+    doc.line(14, finalY, 94, finalY);
+    doc.line(116, finalY, 196, finalY);
+    doc.text(`Signed - ${role}`, 14, finalY + 5);
+    doc.text('Date', 116, finalY + 5);
+    finalY += 20;
+  });
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Deposit Record - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  const safeName = deposit.tenantName.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-');
+  doc.save(`Deposit-Prescribed-Information-${safeName}-${format(new Date(), 'yyyyMMdd')}.pdf`);
+  return doc;
+};
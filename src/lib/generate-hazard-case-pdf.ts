@@ -0,0 +1,209 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  HAZARD_CASE_STATUS_LABELS,
+  HAZARD_SEVERITY_LABELS,
+  HAZARD_SOURCE_LABELS,
+  HHSRS_HAZARD_LABELS,
+  MILESTONE_STATUS_LABELS,
+  SUMMARY_METHOD_LABELS,
+  assessHazardCase,
+  sortReadings,
+  type HazardCase,
+} from '@/lib/hazard-cases';
+
+/**
+ * @fileOverview Hazard Case File
+ * The full record of a hazard case: how it was reported, each statutory
+ * deadline against the date it was met, the investigation, the written summary
+ * given to the tenant, the safety work and every reading with its photos.
+ */
+
+const formatDate = (val: any, pattern = 'dd/MM/yyyy') => {
+  const d = safeToDate(val);
+  return d ? format(d, pattern) : '—';
+};
+
+const toBase64 = (url: string): Promise<string> =>
+  fetch(url)
+    .then(response => response.blob())
+    .then(blob => new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onloadend = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(blob);
+    }));
+
+export const buildHazardCasePDF = async (hazardCase: HazardCase, propertyAddress: string) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const assessment = assessHazardCase(hazardCase);
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFontSize(20);
+  doc.setTextColor(255);
+  doc.text('HAZARD CASE FILE', 105, 22, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(propertyAddress, 105, 32, { align: 'center' });
+
+  let finalY = 50;
+  const ensureSpace = (height: number) => {
+    if (finalY + height > pageHeight - 20) {
+      doc.addPage();
+      finalY = 20;
+    }
+  };
+  const heading = (text: string) => {
+    ensureSpace(16);
+    doc.setTextColor(0);
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.text(text, 14, finalY);
+    finalY += 6;
+  };
+  const paragraph = (text: string) => {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(60);
+    const lines = doc.splitTextToSize(text, pageWidth - 28);
+    ensureSpace(lines.length * 4.5);
+    doc.text(lines, 14, finalY);
+    finalY += lines.length * 4.5 + 4;
+  };
+
+  // --- CASE DETAILS ---
+  autoTable(doc, {
+    startY: finalY,
+    body: [
+      ['Hazard', HHSRS_HAZARD_LABELS[hazardCase.hazard]],
+      ['Case', hazardCase.title],
+      ['Source', HAZARD_SOURCE_LABELS[hazardCase.source]],
+      ['Landlord aware', formatDate(hazardCase.awareDate, 'dd/MM/yyyy HH:mm')],
+      ['Severity', hazardCase.severity ? HAZARD_SEVERITY_LABELS[hazardCase.severity] : 'Not yet assessed'],
+      ['Status', HAZARD_CASE_STATUS_LABELS[assessment.status]],
+      ...(hazardCase.closedDate ? [['Closed', formatDate(hazardCase.closedDate)]] : []),
+    ],
+    theme: 'plain',
+    styles: { fontSize: 9 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 40 } },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 8;
+
+  if (hazardCase.description) {
+    heading('AS REPORTED');
+    paragraph(hazardCase.description);
+  }
+
+  // --- TIMELINE ---
+  heading('STATUTORY TIMELINE');
+  autoTable(doc, {
+    startY: finalY,
+    head: [['Requirement', 'Deadline', 'Done', 'Status']],
+    body: assessment.milestones.map(m => [
+      m.label,
+      m.deadline ? format(m.deadline, 'dd/MM/yyyy HH:mm') : 'From investigation',
+      formatDate(m.doneDate),
+      MILESTONE_STATUS_LABELS[m.status],
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [33, 114, 249] },
+    styles: { fontSize: 8 },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 10;
+
+  // --- INVESTIGATION, SUMMARY AND WORK ---
+  heading('INVESTIGATION');
+  paragraph(hazardCase.investigatedDate
+    ? `Investigated ${formatDate(hazardCase.investigatedDate)}.${hazardCase.findings ? `\n${hazardCase.findings}` : ''}`
+    : 'Not yet investigated.');
+
+  heading('WRITTEN SUMMARY TO TENANT');
+  paragraph(hazardCase.summarySentDate
+    ? `Given ${formatDate(hazardCase.summarySentDate)}${hazardCase.summaryMethod ? ` by ${SUMMARY_METHOD_LABELS[hazardCase.summaryMethod].toLowerCase()}` : ''}${hazardCase.summaryRecipients?.length ? ` to ${hazardCase.summaryRecipients.join(', ')}` : ''}.${hazardCase.summaryText ? `\n${hazardCase.summaryText}` : ''}`
+    : 'Not yet given.');
+
+  heading('SAFETY WORK');
+  paragraph([
+    hazardCase.safetyWorkStartedDate ? `Started ${formatDate(hazardCase.safetyWorkStartedDate)}.` : 'Not yet started.',
+    hazardCase.safetyWorkCompletedDate && `Completed ${formatDate(hazardCase.safetyWorkCompletedDate)}.`,
+    hazardCase.alternativeAccommodationOffered && 'Alternative accommodation was offered while the home could not be made safe.',
+    hazardCase.safetyWorkDetails,
+  ].filter(Boolean).join('\n'));
+
+  // --- READINGS ---
+  const readings = sortReadings(hazardCase.readings);
+  heading('READINGS');
+  if (readings.length) {
+    autoTable(doc, {
+      startY: finalY,
+      head: [['Date', 'Location', 'Moisture %', 'RH %', 'Temp °C', 'Notes']],
+      body: readings.map(r => [
+        formatDate(r.date),
+        r.location,
+        r.moisturePercent ?? '—',
+        r.relativeHumidity ?? '—',
+        r.temperature ?? '—',
+        r.notes || '',
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [240, 240, 240], textColor: 0 },
+      styles: { fontSize: 8 },
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 10;
+  } else {
+    paragraph('No readings recorded.');
+  }
+
+  // --- PHOTOS ---
+  const photos = [
+    ...(hazardCase.photoUrls || []).map(url => ({ url, caption: `As reported, ${formatDate(hazardCase.awareDate)}` })),
+    ...readings.flatMap(r => (r.photoUrls || []).map(url => ({ url, caption: `${r.location}, ${formatDate(r.date)}` }))),
+  ];
+  if (photos.length) heading('PHOTOGRAPHS');
+  for (const photo of photos) {
+    try {
+      const base64 = await toBase64(photo.url);
+      ensureSpace(72);
+      doc.addImage(base64, 'JPEG', 14, finalY, 90, 60, undefined, 'FAST');
+      doc.setFontSize(8);
+      doc.setTextColor(150);
+      doc.text(photo.caption, 14, finalY + 64);
+      finalY += 70;
+    } catch (err) {
+      console.error('Failed to add image to PDF:', err);
+    }
+  }
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Hazard Case File - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  return doc;
+};
+
+export const hazardCaseFileName = (hazardCase: HazardCase) =>
+  `Hazard-Case-${hazardCase.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').slice(0, 40)}-${format(new Date(), 'yyyyMMdd')}.pdf`;
+
+export const generateHazardCasePDF = async (...args: Parameters<typeof buildHazardCasePDF>) => {
+  const doc = await buildHazardCasePDF(...args);
+  doc.save(hazardCaseFileName(args[0]));
+  return doc;
+};
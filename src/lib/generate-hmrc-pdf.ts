@@ -3,6 +3,9 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
+import { isFinanceCost, type TaxComputation } from '@/lib/property-tax';
+import { receiptArchiveItems } from '@/lib/receipts';
+import { formatMoney, formatPence, penceOf, poundsOf, sumMoney, sumPence } from '@/lib/money';
 
 /**
  * @fileOverview Professional HMRC Self Assessment Briefing Engine
@@ -17,13 +20,15 @@ interface Transaction {
   property: string;
 }
 
-export const generateHMRCPDF = async (
+/** Builds the briefing without saving it, so it can also be bundled with receipts. */
+export const buildHMRCPDF = (
   year: number,
   landlordName: string,
   totalIncome: number,
   expenses: any[],
   repairs: any[],
-  propertyAddress: string
+  propertyAddress: string,
+  taxComputation?: TaxComputation
 ) => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
@@ -66,16 +71,20 @@ export const generateHMRCPDF = async (
   doc.setFont('helvetica', 'bold');
   doc.text('FINANCIAL POSITION SUMMARY', 105, finalY + 8, { align: 'center' });
   
-  const totalExpenses = expenses.reduce((acc, e) => acc + (Number(e.amount) || 0), 0) + 
-                        repairs.reduce((acc, r) => acc + (Number(r.expectedCost || r.estimatedCost || 0)), 0);
-  const netPosition = totalIncome - totalExpenses;
+  // Individuals' residential finance costs are relieved as a tax credit, not deducted
+  const restrictFinanceCosts = taxComputation?.ownershipType === 'individual';
+  const totalExpenses = sumMoney([
+    ...expenses.filter(e => !(restrictFinanceCosts && isFinanceCost(e.expenseType))).map(e => poundsOf(e, 'amount')),
+    ...repairs.map(r => poundsOf(r, 'expectedCost') || poundsOf(r, 'estimatedCost')),
+  ]);
+  const netPosition = sumMoney([totalIncome, -totalExpenses]);
 
   doc.setFontSize(10);
   doc.text(`Total Rental Income:`, 20, finalY + 18);
-  doc.text(`£${totalIncome.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 100, finalY + 18, { align: 'right' });
+  doc.text(formatMoney(totalIncome), 100, finalY + 18, { align: 'right' });
   
   doc.text(`Total Allowable Expenses:`, 20, finalY + 24);
-  doc.text(`£${totalExpenses.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 100, finalY + 24, { align: 'right' });
+  doc.text(formatMoney(totalExpenses), 100, finalY + 24, { align: 'right' });
 
   doc.text(`NET TAXABLE POSITION:`, 120, finalY + 21);
   doc.setFontSize(14);
@@ -87,7 +96,7 @@ export const generateHMRCPDF = async (
     doc.setTextColor(239, 68, 68);
   }
   
-  doc.text(`£${netPosition.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 190, finalY + 21, { align: 'right' });
+  doc.text(formatMoney(netPosition), 190, finalY + 21, { align: 'right' });
 
   doc.setTextColor(0);
   finalY += 40;
@@ -98,13 +107,13 @@ export const generateHMRCPDF = async (
         date: e.date?.seconds ? new Date(e.date.seconds * 1000) : new Date(e.date),
         type: e.expenseType,
         desc: e.notes || e.expenseType,
-        amount: Number(e.amount)
+        amount: poundsOf(e, 'amount')
     })),
     ...repairs.map(r => ({
         date: r.reportedDate?.seconds ? new Date(r.reportedDate.seconds * 1000) : new Date(r.reportedDate),
         type: 'Repairs and Maintenance',
         desc: r.title,
-        amount: Number(r.expectedCost || r.estimatedCost || 0)
+        amount: poundsOf(r, 'expectedCost') || poundsOf(r, 'estimatedCost')
     }))
   ].sort((a, b) => a.date.getTime() - b.date.getTime());
 
@@ -112,7 +121,7 @@ export const generateHMRCPDF = async (
     format(t.date, 'dd/MM/yyyy'),
     t.type,
     t.desc,
-    `£${t.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`
+    formatMoney(t.amount)
   ]);
 
   autoTable(doc, {
@@ -134,11 +143,11 @@ export const generateHMRCPDF = async (
 
   // --- CATEGORY SUMMARY ---
   const categories: Record<string, number> = {};
-  allTransactions.forEach(t => { categories[t.type] = (categories[t.type] || 0) + t.amount; });
+  allTransactions.forEach(t => { categories[t.type] = sumPence([categories[t.type] || 0, penceOf(t, 'amount')]); });
   
-  const categoryRows = Object.entries(categories).map(([name, amount]) => [
+  const categoryRows = Object.entries(categories).map(([name, pence]) => [
     name,
-    `£${amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`
+    formatPence(pence)
   ]);
 
   if (finalY > pageHeight - 60) {
@@ -159,8 +168,93 @@ export const generateHMRCPDF = async (
     columnStyles: { 0: { fontStyle: 'bold' }, 1: { halign: 'right', fontStyle: 'bold' } }
   });
 
-  // --- DISCLAIMER ---
   finalY = (doc as any).lastAutoTable.finalY + 15;
+
+  // --- SECTION 24 & TAX ESTIMATE ---
+  if (taxComputation) {
+    const isCompany = taxComputation.ownershipType === 'limited_company';
+
+    if (finalY > pageHeight - 110) {
+        doc.addPage();
+        finalY = 20;
+    }
+
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0);
+    doc.text(isCompany ? 'CORPORATION TAX ESTIMATE' : 'SECTION 24 FINANCE COSTS & TAX ESTIMATE', 14, finalY);
+    finalY += 5;
+
+    const rows: string[][] = [
+      ['Property Income (your share)', formatMoney(taxComputation.propertyIncome)],
+      ['Allowable Expenses (excluding finance costs)', formatMoney(taxComputation.allowableExpenses)],
+      [isCompany ? 'Finance Costs (fully deductible)' : 'Residential Finance Costs (restricted)', formatMoney(taxComputation.financeCosts)],
+      [isCompany ? 'Taxable Profit' : 'Property Profit', formatMoney(taxComputation.propertyProfit)],
+    ];
+    if (!isCompany) {
+      rows.push(['Other Taxable Income', formatMoney(taxComputation.otherIncome)]);
+      rows.push(['Personal Allowance', formatMoney(taxComputation.personalAllowance)]);
+    }
+    taxComputation.bands.filter(b => b.taxable > 0).forEach(b => {
+      rows.push([`${b.name} (${formatMoney(b.taxable)} @ ${(Math.abs(b.rate) * 100).toFixed(1)}%)`, formatMoney(b.tax)]);
+    });
+    if (!isCompany) {
+      rows.push(['Less: Finance Cost Tax Credit (20%)', `-${formatMoney(taxComputation.financeCostCredit)}`]);
+      if (taxComputation.unrelievedFinanceCosts > 0) rows.push(['Finance Costs Carried Forward', formatMoney(taxComputation.unrelievedFinanceCosts)]);
+    }
+    rows.push(['ESTIMATED LIABILITY', formatMoney(taxComputation.estimatedLiability)]);
+    if (!isCompany) rows.push(['Liability if finance costs were fully deductible', formatMoney(taxComputation.liabilityWithoutSection24)]);
+
+    autoTable(doc, {
+      startY: finalY,
+      body: rows,
+      theme: 'striped',
+      styles: { fontSize: 9 },
+      columnStyles: { 0: { fontStyle: 'bold' }, 1: { halign: 'right', fontStyle: 'bold' } },
+      didParseCell: (data: any) => {
+        if (data.row.raw[0] === 'ESTIMATED LIABILITY') {
+          data.cell.styles.fillColor = [33, 114, 249];
+          data.cell.styles.textColor = [255, 255, 255];
+        }
+      }
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 15;
+  }
+
+  // --- RECEIPTS APPENDIX ---
+  const receiptItems = receiptArchiveItems(expenses);
+  if (receiptItems.length > 0) {
+    if (finalY > pageHeight - 60) {
+        doc.addPage();
+        finalY = 20;
+    }
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(0);
+    doc.text('APPENDIX: SUPPORTING RECEIPTS', 14, finalY);
+    finalY += 5;
+
+    autoTable(doc, {
+      startY: finalY,
+      head: [['Date', 'Category', 'Amount (£)', 'File in Receipts Bundle']],
+      body: receiptItems.map(({ expense, path }) => {
+        const d = expense.date?.seconds ? new Date(expense.date.seconds * 1000) : new Date(expense.date);
+        return [
+          isNaN(d.getTime()) ? '' : format(d, 'dd/MM/yyyy'),
+          expense.expenseType,
+          formatMoney(poundsOf(expense, 'amount')),
+          path,
+        ];
+      }),
+      theme: 'grid',
+      headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+      styles: { fontSize: 8, cellPadding: 3 },
+      columnStyles: { 0: { cellWidth: 25 }, 1: { cellWidth: 40 }, 2: { cellWidth: 30, halign: 'right' } }
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 15;
+  }
+
+  // --- DISCLAIMER ---
   doc.setFontSize(8);
   doc.setTextColor(150);
   const disclaimer = "DISCLAIMER: This briefing is an administrative extract from the RentSafeUK digital registry. It is intended to assist your tax preparation but does not constitute official financial advice. Please verify all figures with a qualified accountant before submitting your HMRC Self Assessment.";
@@ -181,6 +275,14 @@ export const generateHMRCPDF = async (
     );
   }
 
-  doc.save(`HMRC-Briefing-${year}-${landlordName.replace(/\s+/g, '-')}.pdf`);
+  return doc;
+};
+
+export const hmrcBriefingFileName = (year: number, landlordName: string) =>
+  `HMRC-Briefing-${year}-${landlordName.replace(/\s+/g, '-')}`;
+
+export const generateHMRCPDF = async (...args: Parameters<typeof buildHMRCPDF>) => {
+  const doc = buildHMRCPDF(...args);
+  doc.save(`${hmrcBriefingFileName(args[0], args[1])}.pdf`);
   return doc;
 };
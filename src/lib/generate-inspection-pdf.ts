@@ -76,7 +76,7 @@ const tenantResponsibilitiesFields = [{ key: 'clean', label: 'Property kept clea
 const hmoTenantFields = [{ key: 'clean', label: 'Room kept clean' }, { key: 'noSmoking', label: 'No evidence of smoking' }, { key: 'noPets', label: 'No unauthorised pets' }, { key: 'noTampering', label: 'No tampering with fire safety equipment' }];
 const followUpFields = [{ key: 'repairsRequired', label: 'Repairs Required' }, { key: 'urgentSafetyIssues', label: 'Urgent Safety Issues' }, { key: 'maintenanceScheduled', label: 'Maintenance Scheduled' }];
 
-export const generateInspectionPDF = async (inspection: any, property: any) => {
+export const buildInspectionPDF = async (inspection: any, property: any) => {
   if (!inspection || !property) return null;
 
   const doc = new jsPDF();
@@ -231,8 +231,14 @@ export const generateInspectionPDF = async (inspection: any, property: any) => {
     doc.text(`Generated: ${format(new Date(), 'PPpp')}`, 14, 287);
   }
   
-  const safeAddress = propertyAddress.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-');
-  doc.save(`Audit-Report-${safeAddress}-${format(new Date(), 'yyyyMMdd')}.pdf`);
-  
+  return doc;
+};
+
+export const inspectionReportFileName = (property: any) =>
+  `Audit-Report-${formatAddress(property.address).replace(/[^\w\s-]/g, '').replace(/\s+/g, '-')}-${format(new Date(), 'yyyyMMdd')}.pdf`;
+
+export const generateInspectionPDF = async (...args: Parameters<typeof buildInspectionPDF>) => {
+  const doc = await buildInspectionPDF(...args);
+  doc?.save(inspectionReportFileName(args[1]));
   return doc;
 };
\ No newline at end of file
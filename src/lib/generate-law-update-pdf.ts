@@ -2,6 +2,8 @@
 
 import { jsPDF } from 'jspdf';
 import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { JURISDICTION_LABELS, actionDueDate, type LawUpdate } from '@/lib/law-updates';
 
 /**
  * @fileOverview Legal Briefing PDF Engine
@@ -9,14 +11,17 @@ import { format } from 'date-fns';
  * Returns the jsPDF instance to allow both saving and base64 extraction.
  */
 
-export const generateLawUpdatePDF = async (title: string, content: string) => {
+export const lawUpdateFileName = (update: LawUpdate) =>
+  `${update.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-')}.pdf`;
+
+export const generateLawUpdatePDF = async (update: LawUpdate) => {
   const doc = new jsPDF();
-  const pageWidth = doc.internal.pageSize.getWidth();
-  
+  const pageHeight = doc.internal.pageSize.getHeight();
+
   // --- HEADER ---
   doc.setFillColor(167, 209, 171); // Brand Primary: #A7D1AB
   doc.rect(0, 0, 210, 40, 'F');
-  
+
   doc.setFontSize(22);
   doc.setTextColor(0, 0, 0);
   doc.text('LEGISLATIVE BRIEFING', 105, 25, { align: 'center' });
@@ -24,28 +29,72 @@ export const generateLawUpdatePDF = async (title: string, content: string) => {
   doc.text('OFFICIAL PORTFOLIO UPDATE', 105, 33, { align: 'center' });
 
   let finalY = 55;
+  const write = (text: string, size: number, style: 'normal' | 'bold', indent = 0, gap = 4) => {
+    doc.setFontSize(size);
+    doc.setFont('helvetica', style);
+    const lines = doc.splitTextToSize(text, 180 - indent);
+    const height = lines.length * size * 0.45;
+    if (finalY + height > pageHeight - 20) {
+      doc.addPage();
+      finalY = 20;
+    }
+    doc.text(lines, 14 + indent, finalY);
+    finalY += height + gap;
+  };
 
   // --- CONTENT ---
-  doc.setFontSize(16);
-  doc.setFont('helvetica', 'bold');
-  const splitTitle = doc.splitTextToSize(title, 180);
-  doc.text(splitTitle, 14, finalY);
-  finalY += (splitTitle.length * 8) + 10;
+  write(update.title, 16, 'bold', 0, 6);
+  const effective = safeToDate(update.effectiveDate);
+  doc.setTextColor(90);
+  write(
+    [
+      effective && `Effective: ${format(effective, 'd MMMM yyyy')}`,
+      `Scope: ${update.jurisdictions.map(j => JURISDICTION_LABELS[j]).join(', ')}`,
+      update.propertyTypes.length ? `Property types: ${update.propertyTypes.join(', ')}` : null,
+    ].filter(Boolean).join('   |   '),
+    9,
+    'normal',
+    0,
+    8
+  );
+  doc.setTextColor(0);
+  write(update.summary, 11, 'normal', 0, 8);
 
-  doc.setFontSize(11);
-  doc.setFont('helvetica', 'normal');
-  const splitContent = doc.splitTextToSize(content, 180);
-  doc.text(splitContent, 14, finalY);
+  for (const section of update.sections) {
+    write(section.heading, 12, 'bold', 0, 3);
+    write(section.body, 10, 'normal', 0, 3);
+    (section.points || []).forEach(point => write(`•  ${point}`, 10, 'normal', 4, 2));
+    finalY += 4;
+  }
+
+  if (update.requiredActions.length) {
+    write('WHAT LANDLORDS MUST DO', 12, 'bold', 0, 3);
+    update.requiredActions.forEach(action => {
+      const due = actionDueDate(update, action);
+      write(`${action.title}${due ? ` (by ${format(due, 'dd/MM/yyyy')})` : ''}`, 10, 'bold', 4, 1);
+      write(action.detail, 10, 'normal', 4, 3);
+    });
+  }
+
+  if (update.sourceUrl) {
+    finalY += 2;
+    doc.setTextColor(90);
+    write(`Official guidance: ${update.sourceUrl}`, 9, 'normal');
+  }
 
   // --- FOOTER ---
-  doc.setFontSize(8);
-  doc.setTextColor(150);
-  doc.text(
-    `Official News Alert - RentSafeUK Portfolio Manager - Generated ${format(new Date(), 'PPP')}`,
-    105,
-    285,
-    { align: 'center' }
-  );
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `Official News Alert - RentSafeUK Portfolio Manager - Generated ${format(new Date(), 'PPP')}`,
+      105,
+      285,
+      { align: 'center' }
+    );
+  }
 
   return doc;
 };
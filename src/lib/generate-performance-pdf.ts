@@ -0,0 +1,133 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import {
+  PERFORMANCE_METRIC_LABELS,
+  formatPercent,
+  type PerformanceMetric,
+  type PortfolioPerformance,
+  type PropertyPerformance,
+} from '@/lib/property-performance';
+import { formatMoney } from '@/lib/money';
+
+/**
+ * @fileOverview Property Performance PDF Engine
+ * Renders the portfolio headline figures and the ranked per-property profit and
+ * loss, yield, ROI and occupancy table for a date range.
+ */
+
+const money = (val: number) => formatMoney(val);
+
+export const generatePerformancePDF = async (
+  rows: PropertyPerformance[],
+  totals: PortfolioPerformance,
+  propertyNames: Record<string, string>,
+  range: { from: Date; to: Date },
+  rankedBy: PerformanceMetric,
+  landlordName: string
+) => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, pageWidth, 36, 'F');
+
+  doc.setFontSize(22);
+  doc.setTextColor(255);
+  doc.text('PROPERTY PERFORMANCE REPORT', pageWidth / 2, 20, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`PERIOD: ${format(range.from, 'dd MMM yyyy').toUpperCase()} - ${format(range.to, 'dd MMM yyyy').toUpperCase()}`, pageWidth / 2, 29, { align: 'center' });
+
+  let finalY = 46;
+  doc.setTextColor(0);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Prepared for:', 14, finalY);
+  doc.setFont('helvetica', 'normal');
+  doc.text(landlordName || 'Verified User', 45, finalY);
+  finalY += 8;
+
+  // --- PORTFOLIO HEADLINES ---
+  autoTable(doc, {
+    startY: finalY,
+    head: [['Income', 'Operating Costs', 'Finance Costs', 'Net Profit', 'Gross Yield', 'Net Yield', 'ROI on Cash', 'Occupancy']],
+    body: [[
+      money(totals.income),
+      money(totals.operatingCosts),
+      money(totals.financeCosts),
+      money(totals.netProfit),
+      formatPercent(totals.grossYield),
+      formatPercent(totals.netYield),
+      formatPercent(totals.roi),
+      formatPercent(totals.occupancyRate),
+    ]],
+    theme: 'grid',
+    headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+    styles: { fontSize: 9, cellPadding: 3, halign: 'center', fontStyle: 'bold' },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 10;
+
+  // --- RANKED PROPERTIES ---
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`PROPERTIES RANKED BY ${PERFORMANCE_METRIC_LABELS[rankedBy].toUpperCase()}`, 14, finalY);
+  finalY += 4;
+
+  autoTable(doc, {
+    startY: finalY,
+    head: [['#', 'Property', 'Income', 'Op. Costs', 'Finance', 'Net Profit', 'Capital', 'Value', 'Gross Yield', 'Net Yield', 'ROI', 'Occupancy']],
+    body: rows.map((r, i) => [
+      String(i + 1),
+      propertyNames[r.propertyId] || 'Unknown property',
+      money(r.income),
+      money(r.operatingCosts),
+      money(r.financeCosts),
+      money(r.netProfit),
+      money(r.capitalSpend),
+      r.valueBasis ? `${money(r.value)}${r.valueBasis === 'purchase' ? ' (P)' : ''}` : '—',
+      formatPercent(r.grossYield),
+      formatPercent(r.netYield),
+      formatPercent(r.roi),
+      formatPercent(r.occupancyRate),
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+    styles: { fontSize: 8, cellPadding: 2 },
+    columnStyles: {
+      0: { cellWidth: 8, halign: 'center' },
+      1: { cellWidth: 60 },
+      5: { fontStyle: 'bold' },
+    },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 8;
+  if (finalY > pageHeight - 30) {
+    doc.addPage();
+    finalY = 20;
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  const note = 'Yields and ROI are annualised for the period. Gross yield is rent received over value; net yield deducts operating costs; ROI also deducts finance costs and is measured against cash invested (purchase price where none is recorded). Values marked (P) use the purchase price because no current valuation is recorded. Capital spend is shown but not deducted from profit.';
+  doc.text(doc.splitTextToSize(note, pageWidth - 28), 14, finalY);
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Portfolio Registry - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  doc.save(`Property-Performance-${format(range.from, 'yyyy-MM-dd')}-to-${format(range.to, 'yyyy-MM-dd')}.pdf`);
+  return doc;
+};
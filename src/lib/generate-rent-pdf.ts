@@ -3,26 +3,24 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { format } from 'date-fns';
+import type { RentLedgerPeriod } from '@/lib/rent-ledger';
+import { formatMoney } from '@/lib/money';
 
 /**
  * @fileOverview Professional Rental Statement PDF Engine
- * Generates a chronological ledger of rent payments for a specific property and year.
+ * Renders a period extract of the automated rent ledger: brought-forward balance,
+ * dated charges and payments with a running balance, and the carried-forward position.
  */
 
-interface RentRow {
-  month: string;
-  year: number;
-  rent: number;
-  amountPaid: number;
-  status: string;
-}
+const money = (val: number) => formatMoney(val);
+
+// Positive balances are arrears; negative balances are credit held for the tenant.
+const describeBalance = (val: number) => val < 0 ? `${money(Math.abs(val))} CR` : money(val);
 
 export const generateRentPDF = async (
-  year: number,
   propertyAddress: string,
   tenantName: string,
-  statementData: RentRow[],
-  totals: { totalExpected: number; totalCollected: number; remaining: number; rate: number }
+  statement: RentLedgerPeriod
 ) => {
   const doc = new jsPDF();
   const pageWidth = doc.internal.pageSize.getWidth();
@@ -36,7 +34,7 @@ export const generateRentPDF = async (
   doc.setTextColor(0, 0, 0);
   doc.text('RENTAL STATEMENT', 105, 25, { align: 'center' });
   doc.setFontSize(10);
-  doc.text(`REPORTING PERIOD: CALENDAR YEAR ${year}`, 105, 33, { align: 'center' });
+  doc.text(`REPORTING PERIOD: ${format(statement.from, 'dd MMM yyyy').toUpperCase()} - ${format(statement.to, 'dd MMM yyyy').toUpperCase()}`, 105, 33, { align: 'center' });
 
   let finalY = 50;
 
@@ -58,25 +56,30 @@ export const generateRentPDF = async (
   finalY += 15;
 
   // --- LEDGER TABLE ---
-  const tableRows = statementData.map(row => [
-    row.month,
-    row.year.toString(),
-    `£${row.rent.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
-    `£${row.amountPaid.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
-    row.status
-  ]);
+  const tableRows = [
+    ['', 'Balance brought forward', '', '', describeBalance(statement.openingBalance)],
+    ...statement.entries.map(entry => [
+      format(entry.date, 'dd/MM/yyyy'),
+      entry.description,
+      entry.debit ? money(entry.debit) : '',
+      entry.credit ? money(entry.credit) : '',
+      describeBalance(entry.balance)
+    ]),
+    ['', 'Balance carried forward', '', '', describeBalance(statement.closingBalance)],
+  ];
 
   autoTable(doc, {
     startY: finalY,
-    head: [['Month', 'Year', 'Rent Due', 'Amount Paid', 'Status']],
+    head: [['Date', 'Description', 'Charge', 'Paid', 'Balance']],
     body: tableRows,
     theme: 'grid',
     headStyles: { fillColor: [167, 209, 171], textColor: [0, 0, 0], fontStyle: 'bold' },
     styles: { fontSize: 9, cellPadding: 4 },
     columnStyles: {
+      0: { cellWidth: 25 },
       2: { halign: 'right' },
       3: { halign: 'right' },
-      4: { halign: 'center', fontStyle: 'bold' }
+      4: { halign: 'right', fontStyle: 'bold' }
     }
   });
 
@@ -88,6 +91,8 @@ export const generateRentPDF = async (
     finalY = 20;
   }
 
+  const rate = statement.charged > 0 ? (statement.paid / statement.charged) * 100 : 0;
+
   doc.setFillColor(245, 245, 245);
   doc.rect(14, finalY, 182, 35, 'F');
   
@@ -97,21 +102,21 @@ export const generateRentPDF = async (
   
   doc.setFontSize(10);
   doc.text('Total Rent Accrued:', 20, finalY + 18);
-  doc.text(`£${totals.totalExpected.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 100, finalY + 18, { align: 'right' });
+  doc.text(money(statement.charged), 100, finalY + 18, { align: 'right' });
   
   doc.text('Total Rent Collected:', 20, finalY + 26);
   doc.setTextColor(34, 197, 94); // Green
-  doc.text(`£${totals.totalCollected.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 100, finalY + 26, { align: 'right' });
+  doc.text(money(statement.paid), 100, finalY + 26, { align: 'right' });
   
   doc.setTextColor(0);
-  doc.text('Outstanding Arrears:', 120, finalY + 18);
-  doc.setTextColor(239, 68, 68); // Red
-  doc.text(`£${totals.remaining.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 190, finalY + 18, { align: 'right' });
+  doc.text(statement.closingBalance < 0 ? 'Credit Held:' : 'Outstanding Arrears:', 120, finalY + 18);
+  if (statement.closingBalance > 0) doc.setTextColor(239, 68, 68); // Red
+  doc.text(money(Math.abs(statement.closingBalance)), 190, finalY + 18, { align: 'right' });
   
   doc.setTextColor(0);
   doc.text('Collection Efficiency:', 120, finalY + 26);
   doc.setFont('helvetica', 'bold');
-  doc.text(`${totals.rate.toFixed(1)}%`, 190, finalY + 26, { align: 'right' });
+  doc.text(`${rate.toFixed(1)}%`, 190, finalY + 26, { align: 'right' });
 
   // --- FOOTER ---
   const pageCount = doc.internal.getNumberOfPages();
@@ -128,6 +133,6 @@ export const generateRentPDF = async (
   }
 
   const safeAddress = propertyAddress.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-');
-  doc.save(`Rent-Statement-${safeAddress}-${year}.pdf`);
+  doc.save(`Rent-Statement-${safeAddress}-${format(statement.from, 'yyyy-MM-dd')}-to-${format(statement.to, 'yyyy-MM-dd')}.pdf`);
   return doc;
 };
@@ -0,0 +1,189 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import {
+  SERVICE_EVENT_LABELS,
+  SERVICE_METHOD_LABELS,
+  sortServiceEvents,
+  type ServiceEvent,
+} from '@/lib/document-service';
+
+/**
+ * @fileOverview Certificate of Service PDF Engine
+ * Sets out when, how and on whom a document was served, followed by the portal
+ * receipts, with a statement of truth for the landlord to sign. Laid out to sit
+ * alongside a Section 21 or possession claim bundle.
+ */
+
+interface CertificateDocument {
+  id: string;
+  title: string;
+  documentType: string;
+  issueDate?: any;
+  expiryDate?: any;
+  version?: number;
+}
+
+const formatDate = (val: any, pattern = 'dd/MM/yyyy') => {
+  const d = safeToDate(val);
+  return d ? format(d, pattern) : '—';
+};
+
+export const buildServiceCertificatePDF = async (
+  document: CertificateDocument,
+  events: ServiceEvent[],
+  propertyAddress: string,
+  landlordName: string
+) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const served = sortServiceEvents(events.filter(e => e.kind === 'served'));
+  const receipts = sortServiceEvents(events.filter(e => e.kind !== 'served'));
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFontSize(22);
+  doc.setTextColor(255);
+  doc.text('CERTIFICATE OF SERVICE', 105, 22, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(document.documentType.toUpperCase(), 105, 32, { align: 'center' });
+
+  let finalY = 50;
+
+  // --- DOCUMENT DETAILS ---
+  autoTable(doc, {
+    startY: finalY,
+    body: [
+      ['Landlord', landlordName || 'Verified User'],
+      ['Property', propertyAddress],
+      ['Document', `${document.title}${document.version ? ` (version ${document.version})` : ''}`],
+      ['Document Type', document.documentType],
+      ['Issued', formatDate(document.issueDate)],
+      ['Expires', document.expiryDate ? formatDate(document.expiryDate) : 'No expiry'],
+      ['Reference', document.id],
+    ],
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 2 },
+    columnStyles: { 0: { cellWidth: 40, fontStyle: 'bold' } },
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 10;
+
+  // --- SERVICE ---
+  doc.setTextColor(0);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('SERVICE ON TENANTS', 14, finalY);
+  finalY += 5;
+
+  if (served.length) {
+    autoTable(doc, {
+      startY: finalY,
+      head: [['Date Served', 'Method', 'Served On', 'Notes']],
+      body: served.map(e => [
+        formatDate(e.occurredAt),
+        SERVICE_METHOD_LABELS[e.method] || e.method,
+        (e.tenantNames || []).join('\n'),
+        e.notes || '',
+      ]),
+      theme: 'grid',
+      headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+      styles: { fontSize: 9, cellPadding: 3 },
+      columnStyles: { 0: { cellWidth: 28 }, 1: { cellWidth: 34 }, 2: { cellWidth: 50 } },
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 10;
+  } else {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text('No service has been recorded for this document.', 14, finalY + 5);
+    finalY += 15;
+  }
+
+  // --- PORTAL RECEIPTS ---
+  if (finalY > pageHeight - 60) {
+    doc.addPage();
+    finalY = 20;
+  }
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('TENANT PORTAL RECEIPTS', 14, finalY);
+  finalY += 5;
+
+  if (receipts.length) {
+    autoTable(doc, {
+      startY: finalY,
+      head: [['Date & Time', 'Tenant', 'Event']],
+      body: receipts.map(e => [
+        formatDate(e.occurredAt, 'dd/MM/yyyy HH:mm'),
+        (e.tenantNames || []).join(', '),
+        SERVICE_EVENT_LABELS[e.kind],
+      ]),
+      theme: 'striped',
+      headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+      styles: { fontSize: 9, cellPadding: 3 },
+      columnStyles: { 0: { cellWidth: 40 } },
+    });
+    finalY = (doc as any).lastAutoTable.finalY + 10;
+  } else {
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text('No portal activity has been recorded for this document.', 14, finalY + 5);
+    finalY += 15;
+  }
+
+  // --- STATEMENT OF TRUTH ---
+  if (finalY > pageHeight - 70) {
+    doc.addPage();
+    finalY = 20;
+  }
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('STATEMENT OF TRUTH', 14, finalY);
+  finalY += 7;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  const statement = `I certify that the document described above was served on the tenants named, on the dates and by the methods stated. Portal receipts are recorded automatically when a tenant views or downloads the document. I believe that the facts stated in this certificate are true. I understand that proceedings for contempt of court may be brought against anyone who makes, or causes to be made, a false statement in a document verified by a statement of truth without an honest belief in its truth.`;
+  const lines = doc.splitTextToSize(statement, pageWidth - 28);
+  doc.text(lines, 14, finalY);
+  finalY += lines.length * 4.5 + 15;
+
+  doc.setDrawColor(150);
+  doc.line(14, finalY, 94, finalY);
+  doc.line(116, finalY, 196, finalY);
+  doc.setFontSize(8);
+  doc.text('Signed', 14, finalY + 5);
+  doc.text('Date', 116, finalY + 5);
+  finalY += 20;
+  doc.line(14, finalY, 94, finalY);
+  doc.text(`Full name${landlordName ? ` (${landlordName})` : ''}`, 14, finalY + 5);
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Service Record - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  return doc;
+};
+
+export const serviceCertificateFileName = (document: Pick<CertificateDocument, 'title'>) =>
+  `Certificate-of-Service-${document.title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '-')}-${format(new Date(), 'yyyyMMdd')}.pdf`;
+
+export const generateServiceCertificatePDF = async (...args: Parameters<typeof buildServiceCertificatePDF>) => {
+  const doc = await buildServiceCertificatePDF(...args);
+  doc.save(serviceCertificateFileName(args[0]));
+  return doc;
+};
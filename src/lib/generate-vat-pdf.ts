@@ -0,0 +1,144 @@
+'use client';
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+import { VAT_BOX_LABELS, VAT_RATES, type VatBox, type VatReturnSummary } from '@/lib/vat';
+import { formatMoney } from '@/lib/money';
+
+/**
+ * @fileOverview VAT Return Summary PDF Engine
+ * Renders the nine-box VAT summary for a quarter with the supporting sales and
+ * purchase lines, ready to check against the figures filed with HMRC.
+ */
+
+const money = (val: number) => formatMoney(val);
+
+export const generateVatPDF = async (
+  summary: VatReturnSummary,
+  landlordName: string,
+  vatNumber: string,
+  propertyNames: Record<string, string>
+) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // --- HEADER ---
+  doc.setFillColor(33, 114, 249);
+  doc.rect(0, 0, 210, 40, 'F');
+
+  doc.setFontSize(22);
+  doc.setTextColor(255);
+  doc.text('VAT RETURN SUMMARY', 105, 22, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`PERIOD: ${format(summary.period.start, 'dd MMM yyyy').toUpperCase()} - ${format(summary.period.end, 'dd MMM yyyy').toUpperCase()}`, 105, 32, { align: 'center' });
+
+  let finalY = 50;
+
+  doc.setTextColor(0);
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Registered Name:', 14, finalY);
+  doc.setFont('helvetica', 'normal');
+  doc.text(landlordName || 'Verified User', 60, finalY);
+  finalY += 7;
+  doc.setFont('helvetica', 'bold');
+  doc.text('VAT Number:', 14, finalY);
+  doc.setFont('helvetica', 'normal');
+  doc.text(vatNumber || 'Not recorded', 60, finalY);
+  finalY += 10;
+
+  // --- BOXES 1-9 ---
+  autoTable(doc, {
+    startY: finalY,
+    head: [['Box', 'Description', 'Value']],
+    body: (Object.keys(VAT_BOX_LABELS).map(Number) as VatBox[]).map(b => [
+      String(b),
+      VAT_BOX_LABELS[b],
+      b === 6 || b === 7 ? `£${summary.boxes[b].toLocaleString()}` : money(summary.boxes[b]),
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+    styles: { fontSize: 9, cellPadding: 3 },
+    columnStyles: { 0: { cellWidth: 15, halign: 'center', fontStyle: 'bold' }, 2: { cellWidth: 35, halign: 'right', fontStyle: 'bold' } },
+    didParseCell: (data: any) => {
+      if (data.section === 'body' && data.row.raw[0] === '5') {
+        data.cell.styles.fillColor = [245, 245, 245];
+      }
+    }
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 6;
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(summary.isRepayment ? 'Box 5 is a repayment due from HMRC.' : 'Box 5 is payable to HMRC.', 14, finalY);
+  finalY += 5;
+  if (summary.irrecoverableVat > 0) {
+    doc.text(`Irrecoverable input VAT on costs of exempt lets (not in Box 4): ${money(summary.irrecoverableVat)}`, 14, finalY);
+    finalY += 5;
+  }
+  finalY += 8;
+
+  // --- SUPPORTING LINES ---
+  if (finalY > pageHeight - 60) {
+    doc.addPage();
+    finalY = 20;
+  }
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('SUPPORTING TRANSACTIONS', 14, finalY);
+  finalY += 5;
+
+  autoTable(doc, {
+    startY: finalY,
+    head: [['Date', 'Type', 'Property / Description', 'Rate', 'Net', 'VAT', 'Gross']],
+    body: summary.lines.map(l => [
+      format(l.date, 'dd/MM/yyyy'),
+      l.kind === 'sale' ? 'Sale' : l.recoverable ? 'Purchase' : 'Purchase*',
+      `${propertyNames[l.propertyId] || 'Unknown property'}\n${l.description}${l.supplierVatNumber ? ` (${l.supplierVatNumber})` : ''}`,
+      VAT_RATES[l.vatRate].label,
+      money(l.net),
+      money(l.vat),
+      money(l.gross),
+    ]),
+    theme: 'striped',
+    headStyles: { fillColor: [33, 114, 249], textColor: [255, 255, 255] },
+    styles: { fontSize: 7, cellPadding: 2 },
+    columnStyles: {
+      0: { cellWidth: 20 },
+      1: { cellWidth: 18 },
+      3: { cellWidth: 24 },
+      4: { cellWidth: 20, halign: 'right' },
+      5: { cellWidth: 18, halign: 'right' },
+      6: { cellWidth: 20, halign: 'right', fontStyle: 'bold' },
+    }
+  });
+  finalY = (doc as any).lastAutoTable.finalY + 8;
+  if (finalY > pageHeight - 30) {
+    doc.addPage();
+    finalY = 20;
+  }
+
+  doc.setFontSize(8);
+  doc.setTextColor(150);
+  const note = '* Input VAT not reclaimed: the cost relates to an exempt residential let. Figures are on the cash accounting basis. This summary supports, but does not replace, your submission through MTD-compatible software.';
+  doc.text(doc.splitTextToSize(note, 180), 14, finalY);
+
+  // --- FOOTER ---
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(150);
+    doc.text(
+      `RentSafeUK Portfolio Registry - Page ${i} of ${pageCount} - Generated ${format(new Date(), 'PPpp')}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  doc.save(`VAT-Return-${format(summary.period.end, 'yyyy-MM')}.pdf`);
+  return doc;
+};
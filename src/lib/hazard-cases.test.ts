@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { endOfDay } from 'date-fns';
+import {
+  assessHazardCase,
+  closureBlockers,
+  hazardCaseId,
+  inspectionDampFindings,
+  isDampMouldReport,
+  sortReadings,
+  type HazardCase,
+} from '@/lib/hazard-cases';
+
+// Monday
+const aware = new Date(2025, 2, 3, 9, 0);
+
+const hazardCase = (extra: Partial<HazardCase> = {}): HazardCase => ({
+  id: 'h1',
+  landlordId: 'l1',
+  propertyId: 'p1',
+  hazard: 'damp_mould',
+  title: 'Mould in bedroom',
+  source: 'tenant_report',
+  awareDate: aware.toISOString(),
+  createdDate: aware.toISOString(),
+  ...extra,
+});
+
+const statuses = (assessment: ReturnType<typeof assessHazardCase>) =>
+  Object.fromEntries(assessment.milestones.map(m => [m.key, m.status]));
+
+describe('assessHazardCase', () => {
+  it('gives ten working days to investigate, with later steps waiting on it', () => {
+    const assessment = assessHazardCase(hazardCase(), new Date(2025, 2, 5));
+    expect(statuses(assessment)).toEqual({ investigate: 'due', written_summary: 'waiting', start_safety_work: 'waiting' });
+    expect(assessment.nextDeadline).toEqual(endOfDay(new Date(2025, 2, 17)));
+    expect(assessment.status).toBe('action_needed');
+  });
+
+  it('is overdue once the investigation deadline passes', () => {
+    const assessment = assessHazardCase(hazardCase(), new Date(2025, 2, 18));
+    expect(statuses(assessment).investigate).toBe('overdue');
+    expect(assessment.status).toBe('overdue');
+  });
+
+  it('counts the summary and safety work deadlines in working days from the investigation', () => {
+    const investigated = hazardCase({ investigatedDate: '2025-03-07', severity: 'significant', summarySentDate: '2025-03-13' });
+    const assessment = assessHazardCase(investigated, new Date(2025, 2, 13));
+    const [, summary, safetyWork] = assessment.milestones;
+    expect(summary).toMatchObject({ deadline: endOfDay(new Date(2025, 2, 12)), status: 'done_late' });
+    expect(safetyWork).toMatchObject({ deadline: endOfDay(new Date(2025, 2, 14)), status: 'due' });
+    expect(assessment.nextDeadline).toEqual(endOfDay(new Date(2025, 2, 14)));
+  });
+
+  it('needs no safety work for a hazard that is not significant', () => {
+    const assessment = assessHazardCase(hazardCase({ investigatedDate: '2025-03-04', severity: 'not_significant', summarySentDate: '2025-03-05' }), new Date(2025, 2, 6));
+    expect(statuses(assessment)).toEqual({ investigate: 'done', written_summary: 'done' });
+    expect(assessment.status).toBe('on_track');
+  });
+
+  it('gives an emergency 24 hours to investigate and make safe', () => {
+    const assessment = assessHazardCase(hazardCase({ severity: 'emergency', investigatedDate: aware.toISOString() }), new Date(2025, 2, 4, 10, 0));
+    expect(statuses(assessment)).toEqual({ investigate: 'done', make_safe: 'overdue', written_summary: 'due' });
+    expect(assessment.milestones[1].deadline).toEqual(new Date(2025, 2, 4, 9, 0));
+  });
+
+  it('reports a closed case as closed whatever is outstanding', () => {
+    expect(assessHazardCase(hazardCase({ closedDate: '2025-03-20' }), new Date(2025, 2, 25)).status).toBe('closed');
+  });
+});
+
+describe('closureBlockers', () => {
+  it('lists each step still to record', () => {
+    expect(closureBlockers(hazardCase())).toHaveLength(4);
+    expect(closureBlockers(hazardCase({ investigatedDate: '2025-03-04', severity: 'not_significant', summarySentDate: '2025-03-05' }))).toEqual([]);
+    expect(closureBlockers(hazardCase({ investigatedDate: '2025-03-04', severity: 'significant', summarySentDate: '2025-03-05' })))
+      .toEqual(['Record completion of the safety work.']);
+  });
+});
+
+describe('damp and mould detection', () => {
+  it('recognises damp and mould in a repair report', () => {
+    expect(isDampMouldReport({ title: 'Black spots on ceiling' })).toBe(true);
+    expect(isDampMouldReport({ description: 'Mold behind the wardrobe' })).toBe(true);
+    expect(isDampMouldReport({ category: 'Damp & Mould', title: 'Bedroom' })).toBe(true);
+    expect(isDampMouldReport({ title: 'Dripping tap' })).toBe(false);
+  });
+
+  it('finds inspected sections whose damp check was not passed', () => {
+    const inspection = {
+      id: 'i1',
+      interior: { noDamp: false, wallsSound: true, notes: 'Mould by window' },
+      bathrooms: { noMould: false },
+      bedrooms: { noDamp: true, wallsSound: true },
+      tags: ['x'],
+    };
+    expect(inspectionDampFindings(inspection)).toEqual(['interior']);
+  });
+
+  it('keys cases on their source so a report opens only one', () => {
+    expect(hazardCaseId('tenant_report', 'r1')).toBe('repair_r1');
+    expect(hazardCaseId('inspection', 'i1')).toBe('inspection_i1');
+  });
+});
+
+describe('sortReadings', () => {
+  it('orders readings oldest first', () => {
+    const readings = [
+      { id: 'b', date: '2025-03-05', location: 'Bedroom' },
+      { id: 'a', date: '2025-03-05', location: 'Hall' },
+      { id: 'c', date: '2025-03-01', location: 'Bedroom' },
+    ];
+    expect(sortReadings(readings).map(r => r.id)).toEqual(['c', 'a', 'b']);
+  });
+});
@@ -0,0 +1,414 @@
+import { Firestore, arrayUnion, deleteField, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { addBusinessDays, addHours, endOfDay, isAfter, startOfDay } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { compact, newEntryId } from '@/lib/firestore-utils';
+
+/**
+ * @fileOverview Hazard Cases (Awaab's Law)
+ * Damp and mould, and the other HHSRS hazards, are handled as `hazardCases`
+ * rather than ordinary repairs. Each case runs against the Awaab's Law
+ * timelines from the day the landlord became aware of it: emergencies are
+ * investigated and made safe within 24 hours; other hazards are investigated
+ * within 10 working days, the tenant gets a written summary within 3 working
+ * days of the investigation, and safety work on a significant hazard starts
+ * within 5 working days of it. Moisture readings and photos are appended over
+ * the life of the case. Working days skip weekends but not bank holidays, so
+ * deadlines err on the early side.
+ */
+
+export type HhsrsHazard =
+  | 'damp_mould'
+  | 'excess_cold'
+  | 'excess_heat'
+  | 'asbestos_mmf'
+  | 'biocides'
+  | 'carbon_monoxide'
+  | 'lead'
+  | 'radiation'
+  | 'uncombusted_fuel_gas'
+  | 'volatile_organic_compounds'
+  | 'crowding_space'
+  | 'entry_by_intruders'
+  | 'lighting'
+  | 'noise'
+  | 'domestic_hygiene'
+  | 'food_safety'
+  | 'personal_hygiene'
+  | 'water_supply'
+  | 'falls_baths'
+  | 'falls_level_surfaces'
+  | 'falls_stairs'
+  | 'falls_between_levels'
+  | 'electrical'
+  | 'fire'
+  | 'flames_hot_surfaces'
+  | 'collision_entrapment'
+  | 'explosions'
+  | 'amenities'
+  | 'structural_collapse';
+
+export type HazardSeverity = 'emergency' | 'significant' | 'not_significant';
+export type HazardCaseSource = 'tenant_report' | 'inspection' | 'manual';
+export type SummaryMethod = 'email' | 'post' | 'hand';
+export type MilestoneStatus = 'done' | 'done_late' | 'due' | 'overdue' | 'waiting';
+export type HazardCaseStatus = 'on_track' | 'action_needed' | 'overdue' | 'closed';
+
+export const HHSRS_HAZARD_LABELS: Record<HhsrsHazard, string> = {
+  damp_mould: 'Damp and mould growth',
+  excess_cold: 'Excess cold',
+  excess_heat: 'Excess heat',
+  asbestos_mmf: 'Asbestos and MMF',
+  biocides: 'Biocides',
+  carbon_monoxide: 'Carbon monoxide and fuel combustion products',
+  lead: 'Lead',
+  radiation: 'Radiation',
+  uncombusted_fuel_gas: 'Uncombusted fuel gas',
+  volatile_organic_compounds: 'Volatile organic compounds',
+  crowding_space: 'Crowding and space',
+  entry_by_intruders: 'Entry by intruders',
+  lighting: 'Lighting',
+  noise: 'Noise',
+  domestic_hygiene: 'Domestic hygiene, pests and refuse',
+  food_safety: 'Food safety',
+  personal_hygiene: 'Personal hygiene, sanitation and drainage',
+  water_supply: 'Water supply',
+  falls_baths: 'Falls associated with baths',
+  falls_level_surfaces: 'Falls on level surfaces',
+  falls_stairs: 'Falls on stairs and steps',
+  falls_between_levels: 'Falls between levels',
+  electrical: 'Electrical hazards',
+  fire: 'Fire',
+  flames_hot_surfaces: 'Flames and hot surfaces',
+  collision_entrapment: 'Collision and entrapment',
+  explosions: 'Explosions',
+  amenities: 'Position and operability of amenities',
+  structural_collapse: 'Structural collapse and falling elements',
+};
+
+export const HAZARD_SEVERITY_LABELS: Record<HazardSeverity, string> = {
+  emergency: 'Emergency',
+  significant: 'Significant',
+  not_significant: 'Not significant',
+};
+
+export const HAZARD_SOURCE_LABELS: Record<HazardCaseSource, string> = {
+  tenant_report: 'Tenant report',
+  inspection: 'Inspection',
+  manual: 'Logged by landlord',
+};
+
+export const SUMMARY_METHOD_LABELS: Record<SummaryMethod, string> = {
+  email: 'Email',
+  post: 'Post',
+  hand: 'Hand delivered',
+};
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  done: 'Done',
+  done_late: 'Done Late',
+  due: 'Due',
+  overdue: 'Overdue',
+  waiting: 'Awaiting Investigation',
+};
+
+export const HAZARD_CASE_STATUS_LABELS: Record<HazardCaseStatus, string> = {
+  on_track: 'On Track',
+  action_needed: 'Action Needed',
+  overdue: 'Deadline Missed',
+  closed: 'Closed',
+};
+
+/** Hours to investigate, and make safe, an emergency hazard. */
+export const EMERGENCY_HOURS = 24;
+/** Working days to investigate any other hazard. */
+export const INVESTIGATION_WORKING_DAYS = 10;
+/** Working days after the investigation to give the tenant a written summary. */
+export const SUMMARY_WORKING_DAYS = 3;
+/** Working days after the investigation to begin safety work on a significant hazard. */
+export const SAFETY_WORK_WORKING_DAYS = 5;
+
+export interface HazardReading {
+  id: string;
+  date: string;
+  location: string;
+  /** Wood moisture equivalent or meter reading, in percent. */
+  moisturePercent?: number;
+  relativeHumidity?: number;
+  temperature?: number;
+  notes?: string;
+  photoUrls?: string[];
+  recordedBy?: string;
+}
+
+export interface HazardCase {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  tenantId?: string;
+  tenantEmail?: string;
+  hazard: HhsrsHazard;
+  title: string;
+  description?: string;
+  source: HazardCaseSource;
+  repairId?: string;
+  inspectionId?: string;
+  /** When the landlord became aware of the hazard; the clock starts here. */
+  awareDate: string;
+  /** Unassessed until the investigation, except emergencies flagged on report. */
+  severity?: HazardSeverity;
+  investigatedDate?: string;
+  findings?: string;
+  summarySentDate?: string;
+  summaryMethod?: SummaryMethod;
+  summaryText?: string;
+  /** Tenants the summary was emailed to. */
+  summaryRecipients?: string[];
+  safetyWorkStartedDate?: string;
+  safetyWorkCompletedDate?: string;
+  safetyWorkDetails?: string;
+  alternativeAccommodationOffered?: boolean;
+  photoUrls?: string[];
+  readings?: HazardReading[];
+  closedDate?: string;
+  createdDate: string;
+}
+
+export type HazardMilestoneKey = 'investigate' | 'make_safe' | 'written_summary' | 'start_safety_work';
+
+export interface HazardMilestone {
+  key: HazardMilestoneKey;
+  label: string;
+  deadline: Date | null;
+  doneDate: Date | null;
+  status: MilestoneStatus;
+}
+
+export interface HazardCaseAssessment {
+  milestones: HazardMilestone[];
+  status: HazardCaseStatus;
+  /** The earliest deadline still to be met. */
+  nextDeadline: Date | null;
+}
+
+const workingDaysAfter = (date: Date, days: number) => endOfDay(addBusinessDays(startOfDay(date), days));
+
+function milestone(key: HazardMilestoneKey, label: string, deadline: Date | null, done: any, now: Date): HazardMilestone {
+  const doneDate = safeToDate(done);
+  let status: MilestoneStatus;
+  if (doneDate) status = deadline && isAfter(startOfDay(doneDate), deadline) ? 'done_late' : 'done';
+  else if (!deadline) status = 'waiting';
+  else status = isAfter(now, deadline) ? 'overdue' : 'due';
+  return { key, label, deadline, doneDate, status };
+}
+
+/** The statutory milestones for a case and where each stands. */
+export function assessHazardCase(hazardCase: HazardCase, now: Date = new Date()): HazardCaseAssessment {
+  const aware = safeToDate(hazardCase.awareDate) || now;
+  const investigated = safeToDate(hazardCase.investigatedDate);
+  const emergency = hazardCase.severity === 'emergency';
+
+  const milestones: HazardMilestone[] = [
+    milestone(
+      'investigate',
+      emergency ? 'Investigate within 24 hours' : `Investigate within ${INVESTIGATION_WORKING_DAYS} working days`,
+      emergency ? addHours(aware, EMERGENCY_HOURS) : workingDaysAfter(aware, INVESTIGATION_WORKING_DAYS),
+      hazardCase.investigatedDate,
+      now
+    ),
+  ];
+  if (emergency) {
+    milestones.push(milestone('make_safe', 'Make safe within 24 hours', addHours(aware, EMERGENCY_HOURS), hazardCase.safetyWorkCompletedDate, now));
+  }
+  milestones.push(milestone(
+    'written_summary',
+    `Written summary to tenant within ${SUMMARY_WORKING_DAYS} working days of investigation`,
+    investigated ? workingDaysAfter(investigated, SUMMARY_WORKING_DAYS) : null,
+    hazardCase.summarySentDate,
+    now
+  ));
+  if (hazardCase.severity !== 'not_significant' && !emergency) {
+    milestones.push(milestone(
+      'start_safety_work',
+      `Begin safety work within ${SAFETY_WORK_WORKING_DAYS} working days of investigation`,
+      investigated ? workingDaysAfter(investigated, SAFETY_WORK_WORKING_DAYS) : null,
+      hazardCase.safetyWorkStartedDate,
+      now
+    ));
+  }
+
+  const open = milestones.filter(m => m.status === 'due' || m.status === 'overdue');
+  const nextDeadline = open.map(m => m.deadline!).sort((a, b) => a.getTime() - b.getTime())[0] || null;
+  let status: HazardCaseStatus;
+  if (hazardCase.closedDate) status = 'closed';
+  else if (open.some(m => m.status === 'overdue')) status = 'overdue';
+  else if (open.length || milestones.some(m => m.status === 'waiting')) status = 'action_needed';
+  else status = 'on_track';
+  return { milestones, status, nextDeadline };
+}
+
+/** Why a case cannot be closed yet, or nothing when it can. */
+export function closureBlockers(hazardCase: HazardCase): string[] {
+  const blockers: string[] = [];
+  if (!hazardCase.investigatedDate) blockers.push('Record the investigation.');
+  if (!hazardCase.severity) blockers.push('Record whether the hazard is significant.');
+  if (!hazardCase.summarySentDate) blockers.push('Send the tenant a written summary.');
+  if (hazardCase.severity !== 'not_significant' && !hazardCase.safetyWorkCompletedDate) blockers.push('Record completion of the safety work.');
+  return blockers;
+}
+
+export const hazardCaseId = (source: Exclude<HazardCaseSource, 'manual'>, sourceId: string) =>
+  `${source === 'tenant_report' ? 'repair' : 'inspection'}_${sourceId}`;
+
+export function newReadingId(): string {
+  return newEntryId('rdg');
+}
+
+const DAMP_MOULD_PATTERN = /\b(damp|mou?ld|mouldy|mildew|condensation|black spots?|fungus|wet walls?)\b/i;
+export const DAMP_MOULD_CATEGORY = 'Damp & Mould';
+
+/** Whether a repair report describes damp or mould. */
+export function isDampMouldReport(report: { title?: string; description?: string; category?: string }): boolean {
+  if (report.category === DAMP_MOULD_CATEGORY) return true;
+  return DAMP_MOULD_PATTERN.test(`${report.title || ''} ${report.description || ''}`);
+}
+
+const DAMP_CHECK_KEYS = ['noDamp', 'noMould'];
+
+/**
+ * Inspection sections whose damp or mould check was left unticked. A section
+ * with nothing ticked is taken as not inspected rather than failed.
+ */
+export function inspectionDampFindings(inspection: Record<string, any>): string[] {
+  return Object.entries(inspection)
+    .filter(([, section]) => section && typeof section === 'object' && !Array.isArray(section))
+    .filter(([, section]) => {
+      const checks = Object.entries(section).filter(([, v]) => typeof v === 'boolean');
+      const dampFailed = checks.some(([k, v]) => DAMP_CHECK_KEYS.includes(k) && v === false);
+      const assessed = checks.some(([k, v]) => !DAMP_CHECK_KEYS.includes(k) && v === true);
+      return dampFailed && assessed;
+    })
+    .map(([key]) => key);
+}
+
+/** Opens a case under a fixed id so the same report never opens two. Returns false if it already existed. */
+export async function openHazardCase(
+  firestore: Firestore,
+  id: string,
+  hazardCase: Omit<HazardCase, 'id' | 'createdDate' | 'readings'>
+): Promise<boolean> {
+  const ref = doc(firestore, 'hazardCases', id);
+  const existing = await getDoc(ref);
+  if (existing.exists()) return false;
+  await setDoc(ref, compact({ ...hazardCase, readings: [], createdDate: new Date().toISOString() }));
+  return true;
+}
+
+export interface ReportedRepair {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  tenantId?: string;
+  tenantEmail?: string;
+  title: string;
+  description?: string;
+  category?: string;
+  priority?: string;
+  photoUrls?: string[];
+  reportedDate: string;
+}
+
+/** Opens a damp and mould case for a tenant's repair report when it describes one. */
+export async function openCaseFromRepair(firestore: Firestore, repair: ReportedRepair): Promise<string | null> {
+  if (!isDampMouldReport(repair)) return null;
+  const id = hazardCaseId('tenant_report', repair.id);
+  await openHazardCase(firestore, id, {
+    landlordId: repair.landlordId,
+    propertyId: repair.propertyId,
+    tenantId: repair.tenantId,
+    tenantEmail: repair.tenantEmail,
+    hazard: 'damp_mould',
+    title: repair.title,
+    description: repair.description,
+    source: 'tenant_report',
+    repairId: repair.id,
+    awareDate: repair.reportedDate,
+    severity: repair.priority === 'Emergency' ? 'emergency' : undefined,
+    photoUrls: repair.photoUrls?.length ? repair.photoUrls : undefined,
+  });
+  return id;
+}
+
+const SECTION_LABELS: Record<string, string> = {
+  interior: 'Interior',
+  bathrooms: 'Bathrooms',
+  bedrooms: 'Bedrooms',
+  communal: 'Communal areas',
+};
+
+/**
+ * The landlord became aware when the inspection was carried out, not when the
+ * record was saved or later edited. Falls back to now if the date is missing or ahead.
+ */
+function inspectionAwareDate(inspection: Record<string, any>): string {
+  const now = new Date();
+  const carriedOut = safeToDate(inspection.completedDate) || safeToDate(inspection.inspectionDate) || safeToDate(inspection.scheduledDate);
+  return (carriedOut && !isAfter(carriedOut, now) ? carriedOut : now).toISOString();
+}
+
+/** Opens a damp and mould case for a completed inspection that found it. */
+export async function openCaseFromInspection(
+  firestore: Firestore,
+  inspection: Record<string, any> & { id: string; landlordId: string; propertyId: string; status?: string }
+): Promise<string | null> {
+  if (inspection.status && inspection.status !== 'Completed') return null;
+  const sections = inspectionDampFindings(inspection);
+  if (!sections.length) return null;
+  const id = hazardCaseId('inspection', inspection.id);
+  await openHazardCase(firestore, id, {
+    landlordId: inspection.landlordId,
+    propertyId: inspection.propertyId,
+    hazard: 'damp_mould',
+    title: 'Damp or mould found on inspection',
+    description: sections
+      .map(s => [`${SECTION_LABELS[s] || s}: damp/mould check not passed.`, inspection[s]?.notes].filter(Boolean).join(' '))
+      .join('\n'),
+    source: 'inspection',
+    inspectionId: inspection.id,
+    awareDate: inspectionAwareDate(inspection),
+  });
+  return id;
+}
+
+export type HazardCaseProgress = Pick<
+  HazardCase,
+  | 'severity'
+  | 'investigatedDate'
+  | 'findings'
+  | 'summarySentDate'
+  | 'summaryMethod'
+  | 'summaryText'
+  | 'summaryRecipients'
+  | 'safetyWorkStartedDate'
+  | 'safetyWorkCompletedDate'
+  | 'safetyWorkDetails'
+  | 'alternativeAccommodationOffered'
+>;
+
+/** Saves the case's progress; cleared fields are removed from the stored record. */
+export async function saveHazardCaseProgress(firestore: Firestore, id: string, progress: Partial<HazardCaseProgress>): Promise<void> {
+  const update = Object.fromEntries(Object.entries(progress).map(([k, v]) => [k, v === undefined || v === '' ? deleteField() : v]));
+  await updateDoc(doc(firestore, 'hazardCases', id), update);
+}
+
+export async function addHazardReading(firestore: Firestore, id: string, reading: HazardReading): Promise<void> {
+  await updateDoc(doc(firestore, 'hazardCases', id), { readings: arrayUnion(compact(reading)) });
+}
+
+export async function setHazardCaseClosed(firestore: Firestore, id: string, closed: boolean): Promise<void> {
+  await updateDoc(doc(firestore, 'hazardCases', id), { closedDate: closed ? new Date().toISOString() : deleteField() });
+}
+
+/** Oldest first. */
+export function sortReadings(readings: HazardReading[] = []): HazardReading[] {
+  return readings.slice().sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+}
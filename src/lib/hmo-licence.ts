@@ -0,0 +1,202 @@
+import { Firestore, doc, updateDoc } from 'firebase/firestore';
+import { addDays, addYears, isBefore, startOfDay } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { compact, newEntryId } from '@/lib/firestore-utils';
+import { EXPIRY_WARNING_DAYS } from '@/lib/compliance-rules';
+
+/**
+ * @fileOverview HMO Licences and Room Registers
+ * The licence held on each HMO (`properties.hmoLicence`) with its occupancy
+ * limits and conditions, and the room register (`properties.hmoRooms`) of
+ * measured sleeping rooms. Rooms are checked against the national minimum
+ * sleeping room sizes that every mandatory licence carries, or the council's
+ * own standard where the licence sets a larger one.
+ */
+
+/** National minimums for a room used for sleeping, in square metres. */
+export const NATIONAL_MIN_ROOM_SIZES = {
+  /** One person aged 10 or over. */
+  single: 6.51,
+  /** Two people aged 10 or over. */
+  double: 10.22,
+  /** One child under 10. */
+  child: 4.64,
+};
+
+/** Floor area under a ceiling lower than this is not counted. */
+export const MIN_CEILING_HEIGHT_M = 1.5;
+
+/** Licences normally run for five years. */
+export const HMO_LICENCE_YEARS = 5;
+
+export type HmoConditionStatus = 'met' | 'outstanding' | 'not_applicable';
+
+export const HMO_CONDITION_STATUS_LABELS: Record<HmoConditionStatus, string> = {
+  met: 'Met',
+  outstanding: 'Outstanding',
+  not_applicable: 'Not Applicable',
+};
+
+export interface HmoLicenceCondition {
+  id: string;
+  description: string;
+  status: HmoConditionStatus;
+  /** Document on file that shows the condition is met. */
+  evidenceDocumentId?: string;
+  evidenceNotes?: string;
+  reviewedDate?: string;
+}
+
+export interface HmoLicence {
+  licenceNumber: string;
+  issuingCouncil: string;
+  issueDate?: string;
+  expiryDate: string;
+  maxOccupants: number;
+  maxHouseholds: number;
+  /** Council standards, where the licence sets rooms larger than the national minimum. */
+  minSingleRoomM2?: number;
+  minDoubleRoomM2?: number;
+  conditions: HmoLicenceCondition[];
+  updatedDate: string;
+}
+
+export interface HmoRoom {
+  id: string;
+  name: string;
+  floorAreaM2: number;
+  /** Part of the floor under a ceiling below 1.5 m, which does not count. */
+  lowCeilingAreaM2?: number;
+  occupantsOver10: number;
+  occupantsUnder10: number;
+}
+
+/** Conditions every mandatory HMO licence carries, offered when a licence is first recorded. */
+export const MANDATORY_LICENCE_CONDITIONS: string[] = [
+  'Annual gas safety certificate supplied to the council on request',
+  'Electrical appliances and furniture kept in a safe condition, with declarations on request',
+  'Smoke alarm installed on each storey used as living accommodation and kept in working order',
+  'Carbon monoxide alarm in every room with a fixed combustion appliance',
+  'Occupiers given a written statement of the terms on which they occupy',
+  'Council notified of any room used for sleeping below the minimum size',
+  'Suitable refuse storage and disposal arrangements provided',
+];
+
+export type RoomCheckStatus = 'ok' | 'undersized' | 'over_capacity' | 'not_sleeping';
+
+export const ROOM_CHECK_STATUS_LABELS: Record<RoomCheckStatus, string> = {
+  ok: 'Meets Minimum',
+  undersized: 'Undersized',
+  over_capacity: 'Too Many Sleepers',
+  not_sleeping: 'Not a Bedroom',
+};
+
+export interface RoomCheck {
+  status: RoomCheckStatus;
+  usableAreaM2: number;
+  /** Smallest area allowed for the room's occupants, or null when nobody sleeps there. */
+  requiredM2: number | null;
+  detail: string;
+}
+
+export function newHmoId(prefix: 'cond' | 'room'): string {
+  return newEntryId(prefix);
+}
+
+export function hmoLicenceExpiry(issueDate: Date): Date {
+  return addYears(issueDate, HMO_LICENCE_YEARS);
+}
+
+/** The minimum sizes in force: the licence's own where larger, otherwise the national ones. */
+export function roomSizeStandard(licence?: Pick<HmoLicence, 'minSingleRoomM2' | 'minDoubleRoomM2'> | null) {
+  return {
+    single: Math.max(NATIONAL_MIN_ROOM_SIZES.single, licence?.minSingleRoomM2 || 0),
+    double: Math.max(NATIONAL_MIN_ROOM_SIZES.double, licence?.minDoubleRoomM2 || 0),
+    child: NATIONAL_MIN_ROOM_SIZES.child,
+  };
+}
+
+const formatArea = (m2: number) => `${m2.toFixed(2)} m²`;
+
+export function checkRoom(room: HmoRoom, licence?: HmoLicence | null): RoomCheck {
+  // Rounded to the centimetre so subtraction error cannot fail a room measured at exactly the minimum
+  const usableAreaM2 = Math.max(0, Math.round(((room.floorAreaM2 || 0) - (room.lowCeilingAreaM2 || 0)) * 100) / 100);
+  const adults = room.occupantsOver10 || 0;
+  const children = room.occupantsUnder10 || 0;
+  const sleepers = adults + children;
+  const standard = roomSizeStandard(licence);
+
+  if (!sleepers) {
+    return { status: 'not_sleeping', usableAreaM2, requiredM2: null, detail: 'Not used for sleeping.' };
+  }
+  // The mandatory conditions only provide for one or two people per room
+  if (sleepers > 2) {
+    return { status: 'over_capacity', usableAreaM2, requiredM2: null, detail: `${sleepers} sleepers; the minimum sizes only allow for two.` };
+  }
+  const requiredM2 = sleepers === 2 ? standard.double : adults ? standard.single : standard.child;
+  if (usableAreaM2 < requiredM2) {
+    return {
+      status: 'undersized',
+      usableAreaM2,
+      requiredM2,
+      detail: usableAreaM2 < NATIONAL_MIN_ROOM_SIZES.child
+        ? `${formatArea(usableAreaM2)} usable; rooms under ${formatArea(NATIONAL_MIN_ROOM_SIZES.child)} cannot be used for sleeping.`
+        : `${formatArea(usableAreaM2)} usable; ${formatArea(requiredM2)} needed for ${sleepers === 2 ? 'two people' : adults ? 'one person over 10' : 'a child under 10'}.`,
+    };
+  }
+  return { status: 'ok', usableAreaM2, requiredM2, detail: `${formatArea(usableAreaM2)} usable against ${formatArea(requiredM2)} required.` };
+}
+
+export function registeredSleepers(rooms: HmoRoom[]): number {
+  return rooms.reduce((sum, r) => sum + (r.occupantsOver10 || 0) + (r.occupantsUnder10 || 0), 0);
+}
+
+/**
+ * Where the property is over its licensed occupancy. Each active tenancy is
+ * counted as one occupant and one household.
+ */
+export function occupancyWarnings(licence: HmoLicence, tenantCount: number, rooms: HmoRoom[] = []): string[] {
+  const warnings: string[] = [];
+  if (tenantCount > licence.maxOccupants) {
+    warnings.push(`${tenantCount} tenants are assigned but the licence permits ${licence.maxOccupants} occupants.`);
+  }
+  if (licence.maxHouseholds && tenantCount > licence.maxHouseholds) {
+    warnings.push(`${tenantCount} tenancies exceed the licensed ${licence.maxHouseholds} households.`);
+  }
+  const sleepers = registeredSleepers(rooms);
+  if (sleepers > licence.maxOccupants) {
+    warnings.push(`The room register sleeps ${sleepers} but the licence permits ${licence.maxOccupants}.`);
+  }
+  return warnings;
+}
+
+export type HmoLicenceStatus = 'current' | 'expiring' | 'expired';
+
+export function hmoLicenceStatus(licence: Pick<HmoLicence, 'expiryDate'>, today: Date = new Date()): HmoLicenceStatus {
+  const expiry = safeToDate(licence.expiryDate);
+  const now = startOfDay(today);
+  if (!expiry || isBefore(expiry, now)) return 'expired';
+  return isBefore(expiry, addDays(now, EXPIRY_WARNING_DAYS)) ? 'expiring' : 'current';
+}
+
+/** Conditions that are not yet met, or are marked met with no evidence behind them. */
+export function conditionsNeedingEvidence(licence: HmoLicence): HmoLicenceCondition[] {
+  return licence.conditions.filter(c => c.status === 'outstanding' || (c.status === 'met' && !c.evidenceDocumentId && !c.evidenceNotes));
+}
+
+export async function saveHmoLicence(
+  firestore: Firestore,
+  propertyId: string,
+  licence: Omit<HmoLicence, 'updatedDate'>
+): Promise<void> {
+  const record: HmoLicence = compact({
+    ...licence,
+    conditions: licence.conditions.map(c => compact(c)),
+    updatedDate: new Date().toISOString(),
+  });
+  await updateDoc(doc(firestore, 'properties', propertyId), { hmoLicence: record });
+}
+
+export async function saveHmoRooms(firestore: Firestore, propertyId: string, rooms: HmoRoom[]): Promise<void> {
+  await updateDoc(doc(firestore, 'properties', propertyId), { hmoRooms: rooms.map(r => compact(r)) });
+}
@@ -0,0 +1,183 @@
+import { Firestore, arrayRemove, arrayUnion, doc, setDoc } from 'firebase/firestore';
+import { isAfter, isBefore, startOfDay } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { isHmo, nationOf, type ComplianceProperty, type UkNation } from '@/lib/compliance-rules';
+import data from './law-updates.json';
+
+/**
+ * @fileOverview Law Updates
+ * Legislation changes affecting the private rented sector, kept as structured
+ * records in `law-updates.json` (jurisdiction, effective date, affected property
+ * types and the actions landlords must take). Each landlord's acknowledgement
+ * and the actions they have completed per property are stored in
+ * `lawUpdateAcknowledgements`, one document per landlord and update.
+ */
+
+export interface LawUpdateSection {
+  heading: string;
+  body: string;
+  points?: string[];
+}
+
+export interface LawUpdateAction {
+  id: string;
+  title: string;
+  detail: string;
+  /** Deadline for the action; the update's effective date when not given. */
+  dueDate?: string;
+  /** Set when the compliance or tenancy readiness checks already assess this from the property's records. */
+  trackedBy?: 'compliance' | 'readiness';
+}
+
+export interface LawUpdate {
+  id: string;
+  title: string;
+  category: string;
+  summary: string;
+  publishedDate: string;
+  effectiveDate: string;
+  jurisdictions: UkNation[];
+  /** Property types the update applies to; every type when empty. */
+  propertyTypes: string[];
+  sections: LawUpdateSection[];
+  requiredActions: LawUpdateAction[];
+  sourceUrl?: string;
+}
+
+export interface LawUpdateAcknowledgement {
+  id: string;
+  landlordId: string;
+  updateId: string;
+  acknowledgedDate?: string;
+  /** Keys from `actionKey` for each action done at each property. */
+  completedActions?: string[];
+}
+
+export const JURISDICTION_LABELS: Record<UkNation, string> = {
+  england: 'England',
+  wales: 'Wales',
+  scotland: 'Scotland',
+  northern_ireland: 'Northern Ireland',
+};
+
+/** Newest effective date first. */
+export const LAW_UPDATES: LawUpdate[] = (data.lawUpdates as LawUpdate[])
+  .slice()
+  .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+
+export function findLawUpdate(id: string): LawUpdate | undefined {
+  return LAW_UPDATES.find(u => u.id === id);
+}
+
+export interface LawUpdateFilter {
+  jurisdiction?: UkNation | 'all';
+  /** Effective on or after this date. */
+  from?: Date | null;
+  /** Effective on or before this date. */
+  to?: Date | null;
+}
+
+export function filterLawUpdates(updates: LawUpdate[], filter: LawUpdateFilter): LawUpdate[] {
+  return updates.filter(u => {
+    if (filter.jurisdiction && filter.jurisdiction !== 'all' && !u.jurisdictions.includes(filter.jurisdiction)) return false;
+    const effective = safeToDate(u.effectiveDate);
+    if (!effective) return true;
+    if (filter.from && isBefore(effective, startOfDay(filter.from))) return false;
+    if (filter.to && isAfter(effective, startOfDay(filter.to))) return false;
+    return true;
+  });
+}
+
+export function isInForce(update: LawUpdate, today: Date = new Date()): boolean {
+  const effective = safeToDate(update.effectiveDate);
+  return !!effective && !isAfter(effective, startOfDay(today));
+}
+
+export type LawUpdateProperty = ComplianceProperty & { status?: string; createdDate?: string };
+
+/** Whether an update covers a property, by the nation its postcode is in and its type. */
+export function appliesToProperty(update: LawUpdate, property: LawUpdateProperty): boolean {
+  if (!update.jurisdictions.includes(nationOf(property.address?.postcode))) return false;
+  if (!update.propertyTypes.length) return true;
+  return update.propertyTypes.some(type => (type === 'HMO' ? isHmo(property) : property.propertyType === type));
+}
+
+export function affectedProperties<T extends LawUpdateProperty>(update: LawUpdate, properties: T[]): T[] {
+  return properties.filter(p => p.status !== 'Deleted' && appliesToProperty(update, p));
+}
+
+export const TRACKED_BY_LABELS: Record<NonNullable<LawUpdateAction['trackedBy']>, string> = {
+  compliance: 'Compliance',
+  readiness: 'Tenancy Readiness',
+};
+
+/** Actions the landlord ticks off on the briefing; the rest are assessed from their records. */
+export function manualActions(update: LawUpdate): LawUpdateAction[] {
+  return update.requiredActions.filter(action => !action.trackedBy);
+}
+
+export const actionKey = (actionId: string, propertyId: string) => `${actionId}:${propertyId}`;
+
+export function actionDueDate(update: LawUpdate, action: LawUpdateAction): Date | null {
+  return safeToDate(action.dueDate || update.effectiveDate);
+}
+
+export interface LawUpdateActionReminder {
+  update: LawUpdate;
+  action: LawUpdateAction;
+  propertyId: string;
+  dueDate: Date | null;
+  overdue: boolean;
+}
+
+/**
+ * Each required action not yet marked done at each property it applies to.
+ * Actions show from publication, ahead of the effective date, so landlords can prepare.
+ * A property added after the update came into force has no deadline for it, so is never overdue.
+ */
+export function outstandingLawUpdateActions(
+  updates: LawUpdate[],
+  properties: LawUpdateProperty[],
+  acknowledgements: Pick<LawUpdateAcknowledgement, 'updateId' | 'completedActions'>[],
+  today: Date = new Date()
+): LawUpdateActionReminder[] {
+  return updates.flatMap(update => {
+    const completed = new Set(acknowledgements.find(a => a.updateId === update.id)?.completedActions || []);
+    const effective = safeToDate(update.effectiveDate);
+    return affectedProperties(update, properties).flatMap(property => {
+      const added = safeToDate(property.createdDate);
+      const predates = !!effective && !!added && isBefore(effective, added);
+      return manualActions(update)
+        .filter(action => !completed.has(actionKey(action.id, property.id)))
+        .map(action => {
+          const dueDate = predates ? null : actionDueDate(update, action);
+          return { update, action, propertyId: property.id, dueDate, overdue: !!dueDate && isBefore(dueDate, startOfDay(today)) };
+        });
+    });
+  });
+}
+
+export const acknowledgementId = (landlordId: string, updateId: string) => `${landlordId}_${updateId}`;
+
+export async function acknowledgeLawUpdate(firestore: Firestore, landlordId: string, updateId: string): Promise<void> {
+  await setDoc(doc(firestore, 'lawUpdateAcknowledgements', acknowledgementId(landlordId, updateId)), {
+    landlordId,
+    updateId,
+    acknowledgedDate: new Date().toISOString(),
+  }, { merge: true });
+}
+
+/** Marks actions done, or not done, for the given properties. */
+export async function setLawUpdateActionsDone(
+  firestore: Firestore,
+  landlordId: string,
+  updateId: string,
+  keys: string[],
+  done: boolean
+): Promise<void> {
+  await setDoc(doc(firestore, 'lawUpdateAcknowledgements', acknowledgementId(landlordId, updateId)), {
+    landlordId,
+    updateId,
+    completedActions: done ? arrayUnion(...keys) : arrayRemove(...keys),
+  }, { merge: true });
+}
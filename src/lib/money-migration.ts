@@ -0,0 +1,49 @@
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { MONEY_FIELDS, needsPence, withPence, type MoneyCollection } from '@/lib/money';
+
+/**
+ * @fileOverview Pence Migration
+ * One-off backfill of the integer `<field>Pence` twins on records written before
+ * money was held in pence. Idempotent: only records whose twin is missing or out
+ * of step are rewritten, so it is safe to run again.
+ */
+
+// Firestore caps a batch at 500 writes
+const BATCH_LIMIT = 450;
+
+export async function migrateMoneyFields(firestore: Firestore, landlordId: string): Promise<number> {
+  let updated = 0;
+
+  for (const name of Object.keys(MONEY_FIELDS) as MoneyCollection[]) {
+    const fields = MONEY_FIELDS[name];
+    const snap = await getDocs(query(collection(firestore, name), where('landlordId', '==', landlordId)));
+    const stale = snap.docs.filter(d => fields.some(f => needsPence(d.data(), f)));
+
+    for (let i = 0; i < stale.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(firestore);
+      stale.slice(i, i + BATCH_LIMIT).forEach(d => {
+        const data = d.data();
+        const migrated = withPence(data, fields);
+        // Nested maps (property tenancy) are written whole so sibling keys survive
+        const patch = Object.fromEntries(
+          Object.keys(migrated).filter(k => migrated[k] !== data[k]).map(k => [k, migrated[k]])
+        );
+        batch.set(doc(firestore, name, d.id), patch, { merge: true });
+      });
+      await batch.commit();
+      updated += Math.min(BATCH_LIMIT, stale.length - i);
+    }
+  }
+
+  await setDoc(doc(firestore, 'users', landlordId), { moneyMigratedAt: new Date().toISOString() }, { merge: true });
+  return updated;
+}
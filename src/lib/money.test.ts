@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocatePence,
+  formatPence,
+  needsPence,
+  parseMoney,
+  penceOf,
+  roundMoney,
+  sumMoney,
+  toPence,
+  withPence,
+} from '@/lib/money';
+
+describe('toPence', () => {
+  it('rounds half away from zero without float error', () => {
+    expect(toPence(1.005)).toBe(101);
+    expect(toPence(-1.005)).toBe(-101);
+    expect(toPence(0.1 + 0.2)).toBe(30);
+    expect(toPence('£1,234.565')).toBe(123457);
+  });
+
+  it('reads anything unparseable as zero', () => {
+    expect(toPence('abc')).toBe(0);
+    expect(toPence(undefined)).toBe(0);
+    expect(toPence(Infinity)).toBe(0);
+  });
+});
+
+describe('roundMoney and sumMoney', () => {
+  it('adds through pence so totals never drift', () => {
+    expect(roundMoney(2.675)).toBe(2.68);
+    expect(sumMoney([0.1, 0.2, 0.3])).toBe(0.6);
+    expect(sumMoney(Array(10).fill(0.1))).toBe(1);
+  });
+});
+
+describe('parseMoney', () => {
+  it('reads user and bank formats', () => {
+    expect(parseMoney('£1,234.56')).toBe(1234.56);
+    expect(parseMoney('GBP 12')).toBe(12);
+    expect(parseMoney('(12.50)')).toBe(-12.5);
+    expect(parseMoney('12.50 DR')).toBe(-12.5);
+    expect(parseMoney('12.50 CR')).toBe(12.5);
+    expect(parseMoney('-.5')).toBe(-0.5);
+  });
+
+  it('returns null for text that is not an amount', () => {
+    expect(parseMoney('')).toBeNull();
+    expect(parseMoney('12.3.4')).toBeNull();
+    expect(parseMoney('twelve')).toBeNull();
+  });
+});
+
+describe('allocatePence', () => {
+  it('splits a total so the parts add back exactly', () => {
+    expect(allocatePence(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocatePence(1001, [50, 50])).toEqual([501, 500]);
+    expect(allocatePence(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+  });
+
+  it('gives the remainder pence to the largest fractions', () => {
+    expect(allocatePence(10, [1, 2])).toEqual([3, 7]);
+  });
+
+  it('puts everything on the first part when there are no usable weights', () => {
+    expect(allocatePence(500, [0, 0])).toEqual([500, 0]);
+    expect(allocatePence(500, [])).toEqual([]);
+  });
+});
+
+describe('pence fields on records', () => {
+  it('prefers the stored pence twin and falls back to the decimal', () => {
+    expect(penceOf({ amount: 10, amountPence: 1234 }, 'amount')).toBe(1234);
+    expect(penceOf({ amount: '10.50' }, 'amount')).toBe(1050);
+    expect(penceOf({ tenancy: { monthlyRent: 950 } }, 'tenancy.monthlyRent')).toBe(95000);
+  });
+
+  it('flags records whose pence twin is missing or out of step', () => {
+    expect(needsPence({ amount: 10 }, 'amount')).toBe(true);
+    expect(needsPence({ amount: 10.005, amountPence: 1001 }, 'amount')).toBe(true);
+    expect(needsPence({ amount: 10.01, amountPence: 1001 }, 'amount')).toBe(false);
+    expect(needsPence({ amount: '' }, 'amount')).toBe(false);
+  });
+
+  it('writes rounded decimals with pence twins, including nested fields', () => {
+    const record = { amount: 10.005, note: 'x', tenancy: { monthlyRent: 950.1 } };
+    expect(withPence(record, ['amount', 'tenancy.monthlyRent', 'missing'])).toEqual({
+      amount: 10.01,
+      amountPence: 1001,
+      note: 'x',
+      tenancy: { monthlyRent: 950.1, monthlyRentPence: 95010 },
+    });
+    expect(record.tenancy).toEqual({ monthlyRent: 950.1 });
+  });
+});
+
+describe('formatPence', () => {
+  it('formats as pounds', () => {
+    expect(formatPence(123456)).toBe('£1,234.56');
+  });
+});
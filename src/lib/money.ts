@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Money
+ * Amounts are held as integer minor units (pence) so totals never drift. Stored
+ * records carry a canonical `<field>Pence` integer next to the legacy decimal
+ * field, which is kept rounded to two places for older readers. Read with
+ * `penceOf` / `poundsOf`, which fall back to the decimal field for records not
+ * yet migrated, and write with `withPence`.
+ */
+
+/** Integer count of minor units (pence for GBP). */
+export type Pence = number;
+
+export const DEFAULT_CURRENCY = 'GBP';
+
+/** Converts a decimal amount to pence, rounding half away from zero without float error (1.005 -> 101). */
+export function toPence(value: unknown): Pence {
+  const n = typeof value === 'string' ? parseMoney(value) : Number(value);
+  if (n === null || !isFinite(n)) return 0;
+  const sign = n < 0 ? -1 : 1;
+  // Shift the decimal point in the string form so 1.005 is not read as 1.00499...
+  const shifted = Number(`${Math.abs(n)}e2`);
+  return sign * Math.round(isFinite(shifted) ? shifted : Math.abs(n) * 100) || 0;
+}
+
+export function fromPence(pence: Pence): number {
+  return Math.round(pence) / 100;
+}
+
+/** Rounds a decimal amount to the nearest penny. */
+export function roundMoney(value: unknown): number {
+  return fromPence(toPence(value));
+}
+
+export function sumPence(values: Pence[]): Pence {
+  return values.reduce((acc, v) => acc + Math.round(v), 0);
+}
+
+/** Adds decimal amounts through pence, returning a decimal total. */
+export function sumMoney(values: unknown[]): number {
+  return fromPence(sumPence(values.map(toPence)));
+}
+
+/**
+ * Parses user or bank input such as "£1,234.56", "-12.50", "(12.50)" or "12.50 CR".
+ * Returns pounds, or null when the text is not an amount.
+ */
+export function parseMoney(input: string): number | null {
+  let text = (input || '').replace(/GBP/gi, '').replace(/[£$€,\s]/g, '').toUpperCase();
+  if (!text) return null;
+  let sign = 1;
+  if (text.startsWith('(') && text.endsWith(')')) { sign = -1; text = text.slice(1, -1); }
+  if (text.endsWith('DR')) { sign = -1; text = text.slice(0, -2); }
+  else if (text.endsWith('CR')) text = text.slice(0, -2);
+  if (text.startsWith('-')) { sign = -sign; text = text.slice(1); }
+  else if (text.startsWith('+')) text = text.slice(1);
+  if (!/^\d*\.?\d+$/.test(text)) return null;
+  const n = Number(text);
+  return isNaN(n) ? null : sign * n;
+}
+
+/**
+ * Splits `total` across `weights` (e.g. ownership shares or an even split) so the
+ * parts always add back to the total exactly. Leftover pence go to the largest remainders.
+ */
+export function allocatePence(total: Pence, weights: number[]): Pence[] {
+  const sumWeights = weights.reduce((a, w) => a + Math.max(0, w), 0);
+  if (!weights.length) return [];
+  if (sumWeights <= 0) return weights.map((_, i) => (i === 0 ? total : 0));
+  const sign = total < 0 ? -1 : 1;
+  const abs = Math.abs(Math.round(total));
+  const exact = weights.map(w => (abs * Math.max(0, w)) / sumWeights);
+  const parts = exact.map(Math.floor);
+  let remaining = abs - parts.reduce((a, p) => a + p, 0);
+  exact
+    .map((e, i) => ({ i, frac: e - Math.floor(e) }))
+    .sort((a, b) => b.frac - a.frac || a.i - b.i)
+    .forEach(({ i }) => {
+      if (remaining > 0) { parts[i] += 1; remaining -= 1; }
+    });
+  return parts.map(p => sign * p);
+}
+
+export function formatPence(pence: Pence, currency = DEFAULT_CURRENCY): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(fromPence(pence));
+}
+
+/** Formats a decimal amount, rounding to the penny first. */
+export function formatMoney(value: unknown, currency = DEFAULT_CURRENCY): string {
+  return formatPence(toPence(value), currency);
+}
+
+function readPath(record: any, path: string): any {
+  return path.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), record);
+}
+
+/** Pence for a money field: the canonical `<field>Pence` integer, else the legacy decimal value. */
+export function penceOf(record: any, field: string): Pence {
+  const stored = readPath(record, `${field}Pence`);
+  if (Number.isInteger(stored)) return stored;
+  return toPence(readPath(record, field));
+}
+
+export function poundsOf(record: any, field: string): number {
+  return fromPence(penceOf(record, field));
+}
+
+/** True when a field holds a value but its `<field>Pence` twin is missing or out of step. */
+export function needsPence(record: any, field: string): boolean {
+  const value = readPath(record, field);
+  if (value === undefined || value === null || value === '') return false;
+  const stored = readPath(record, `${field}Pence`);
+  return !Number.isInteger(stored) || stored !== toPence(value) || Number(value) !== fromPence(stored);
+}
+
+/**
+ * Returns a copy of `record` with each listed money field rounded to the penny and
+ * its `<field>Pence` twin set. Dotted paths reach into nested objects
+ * ("tenancy.monthlyRent"). Missing or empty fields are left alone.
+ */
+export function withPence<T extends Record<string, any>>(record: T, fields: readonly string[]): T {
+  const copy: any = { ...record };
+  fields.forEach(path => {
+    const keys = path.split('.');
+    let target = copy;
+    for (const key of keys.slice(0, -1)) {
+      if (target[key] == null || typeof target[key] !== 'object') return;
+      target[key] = { ...target[key] };
+      target = target[key];
+    }
+    const last = keys[keys.length - 1];
+    const value = target[last];
+    if (value === undefined || value === null || value === '') return;
+    const pence = toPence(value);
+    target[last] = fromPence(pence);
+    target[`${last}Pence`] = pence;
+  });
+  return copy;
+}
+
+/** Money fields per collection, used by writers and by the one-off pence migration. */
+export const MONEY_FIELDS = {
+  expenses: ['amount', 'vatAmount', 'netAmount'],
+  rentPayments: ['amount', 'amountPaid'],
+  rentCharges: ['amount'],
+  repairs: ['expectedCost', 'estimatedCost'],
+  tenants: ['monthlyRent', 'depositAmount'],
+  properties: ['purchasePrice', 'currentValuation', 'cashInvested', 'tenancy.monthlyRent', 'tenancy.depositAmount'],
+  assets: ['cost'],
+  bankTransactions: ['amount'],
+  deposits: ['amount', 'settledToTenant', 'settledToLandlord'],
+} as const;
+
+export type MoneyCollection = keyof typeof MONEY_FIELDS;
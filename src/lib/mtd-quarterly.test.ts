@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildMtdQuarterlySummaries,
+  cumulativeSummaryPath,
+  formatTaxYear,
+  mtdQuarters,
+  taxYearFor,
+  toCumulativeSummary,
+  totalExpenses,
+} from '@/lib/mtd-quarterly';
+
+const records = {
+  rentPayments: [
+    { propertyId: 'p1', amountPaid: 1000, paidDate: new Date(2025, 3, 6) },
+    { propertyId: 'p2', amountPaid: 800.1, paidDate: new Date(2025, 6, 5, 23, 30) },
+    { propertyId: 'p1', amountPaid: 1000, month: 'August', year: 2025 },
+    { propertyId: 'p1', amountPaid: 1000, paidDate: new Date(2025, 3, 5) },
+  ],
+  expenses: [
+    { propertyId: 'p1', expenseType: 'Insurance', amount: 120.55, date: '2025-05-01' },
+    { propertyId: 'p1', expenseType: 'Mortgage Interest', amount: 400, date: '2025-05-01' },
+    { propertyId: 'p2', expenseType: 'Something New', amount: 10, date: '2025-08-01' },
+    { propertyId: 'p1', expenseType: 'Repairs and Maintenance', amount: 5000, date: '2025-05-01', classification: 'capital_improvement' },
+  ],
+  repairs: [{ propertyId: 'p2', expectedCost: 75.25, reportedDate: '2025-06-10' }],
+};
+
+describe('tax years and quarters', () => {
+  it('starts the tax year on 6 April', () => {
+    expect(taxYearFor(new Date(2026, 3, 5))).toBe(2025);
+    expect(taxYearFor(new Date(2026, 3, 6))).toBe(2026);
+    expect(formatTaxYear(2025)).toBe('2025-26');
+    expect(formatTaxYear(2099)).toBe('2099-00');
+  });
+
+  it('ends standard quarters on the 5th and calendar quarters at month end', () => {
+    const standard = mtdQuarters(2025);
+    expect(standard.map(q => q.toDate)).toEqual([new Date(2025, 6, 5), new Date(2025, 9, 5), new Date(2026, 0, 5), new Date(2026, 3, 5)]);
+    expect(standard.every(q => q.fromDate.getTime() === new Date(2025, 3, 6).getTime())).toBe(true);
+    expect(mtdQuarters(2025, 'calendar')[0].toDate).toEqual(new Date(2025, 5, 30));
+  });
+});
+
+describe('buildMtdQuarterlySummaries', () => {
+  const summaries = buildMtdQuarterlySummaries(records, ['p1', 'p2'], 2025);
+
+  it('totals cumulatively from the start of the tax year', () => {
+    expect(summaries[0].business.income.periodAmount).toBe(1800.1);
+    expect(summaries[1].business.income.periodAmount).toBe(2800.1);
+    expect(summaries[3].business.income.periodAmount).toBe(2800.1);
+  });
+
+  it('maps categories to HMRC headings and leaves out capital spend', () => {
+    const q1 = summaries[0].business.expenses;
+    expect(q1.premisesRunningCosts).toBe(120.55);
+    expect(q1.residentialFinancialCost).toBe(400);
+    expect(q1.repairsAndMaintenance).toBe(75.25);
+    expect(summaries[1].business.expenses.other).toBe(10);
+    expect(totalExpenses(summaries[1].business)).toBe(605.8);
+  });
+
+  it('splits the totals by property', () => {
+    const [p1, p2] = summaries[1].properties;
+    expect(p1.income.periodAmount).toBe(2000);
+    expect(p2.income.periodAmount).toBe(800.1);
+    expect(p2.expenses.repairsAndMaintenance).toBe(75.25);
+  });
+});
+
+describe('toCumulativeSummary', () => {
+  it('sends only populated headings', () => {
+    const [q1] = buildMtdQuarterlySummaries(records, [], 2025);
+    expect(toCumulativeSummary(q1)).toEqual({
+      fromDate: '2025-04-06',
+      toDate: '2025-07-05',
+      ukProperty: {
+        income: { periodAmount: 1800.1 },
+        expenses: { premisesRunningCosts: 120.55, repairsAndMaintenance: 75.25, residentialFinancialCost: 400 },
+      },
+    });
+  });
+
+  it('declares zero rent for a nil quarter', () => {
+    const [q1] = buildMtdQuarterlySummaries({ rentPayments: [], expenses: [], repairs: [] }, [], 2025);
+    expect(toCumulativeSummary(q1).ukProperty).toEqual({ income: { periodAmount: 0 } });
+  });
+
+  it('builds the cumulative endpoint path for the tax year', () => {
+    expect(cumulativeSummaryPath('AA123456A', 'XPIS1', 2025)).toBe('/individuals/business/property/uk/AA123456A/XPIS1/cumulative/2025-26');
+  });
+});
@@ -0,0 +1,249 @@
+import { addMonths, addDays, format, isBefore } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { toLedgerPayment } from '@/lib/rent-ledger';
+import { toCsv } from '@/lib/file-export';
+import { isRevenueExpenditure } from '@/lib/capital-expenditure';
+import { fromPence, penceOf, sumMoney, toPence, type Pence } from '@/lib/money';
+
+/**
+ * @fileOverview Making Tax Digital Quarterly Updates
+ * Maps expense categories onto HMRC UK property income and expense headings,
+ * builds cumulative quarterly totals per property and for the UK property business,
+ * and shapes them as Property Business API cumulative period summaries. Figures are
+ * on the cash basis: income when received, expenses when incurred.
+ */
+
+export type QuarterBasis = 'standard' | 'calendar';
+
+export type MtdExpenseField =
+  | 'premisesRunningCosts'
+  | 'repairsAndMaintenance'
+  | 'financialCosts'
+  | 'professionalFees'
+  | 'costOfServices'
+  | 'other'
+  | 'residentialFinancialCost'
+  | 'travelCosts';
+
+export type MtdIncomeField = 'periodAmount' | 'premiumsOfLeaseGrant' | 'reversePremiums' | 'otherIncome' | 'taxDeducted';
+
+export const MTD_EXPENSE_LABELS: Record<MtdExpenseField, string> = {
+  premisesRunningCosts: 'Premises Running Costs',
+  repairsAndMaintenance: 'Repairs and Maintenance',
+  financialCosts: 'Non-Residential Finance Costs',
+  professionalFees: 'Legal, Management and Professional Fees',
+  costOfServices: 'Cost of Services Provided',
+  other: 'Other Allowable Property Expenses',
+  residentialFinancialCost: 'Residential Finance Costs',
+  travelCosts: 'Travel Costs',
+};
+
+/** Expense tracker category to HMRC heading. Unknown categories fall through to `other`. */
+export const MTD_CATEGORY_MAP: Record<string, MtdExpenseField> = {
+  'Repairs and Maintenance': 'repairsAndMaintenance',
+  'Utilities': 'costOfServices',
+  'Cleaning': 'costOfServices',
+  'Gardening': 'costOfServices',
+  'Insurance': 'premisesRunningCosts',
+  'Mortgage Interest': 'residentialFinancialCost',
+  'Letting Agent Fees': 'professionalFees',
+  'Other': 'other',
+};
+
+export interface MtdQuarter {
+  quarter: 1 | 2 | 3 | 4;
+  /** Start of the quarter itself (for the per-quarter view). */
+  quarterStart: Date;
+  /** Cumulative submissions always run from the start of the tax year. */
+  fromDate: Date;
+  toDate: Date;
+}
+
+export interface MtdTotals {
+  income: Record<MtdIncomeField, number>;
+  expenses: Record<MtdExpenseField, number>;
+}
+
+export interface MtdPropertyTotals extends MtdTotals {
+  propertyId: string;
+}
+
+export interface MtdQuarterSummary extends MtdQuarter {
+  /** Cumulative UK property business totals to the end of the quarter. */
+  business: MtdTotals;
+  properties: MtdPropertyTotals[];
+}
+
+/** Body of `PUT /individuals/business/property/uk/{nino}/{businessId}/cumulative/{taxYear}`. */
+export interface UkPropertyCumulativeSummary {
+  fromDate: string;
+  toDate: string;
+  ukProperty: {
+    income?: Partial<Record<MtdIncomeField, number>>;
+    expenses?: Partial<Record<MtdExpenseField, number>>;
+  };
+}
+
+export interface MtdSourceRecords {
+  expenses: any[];
+  repairs: any[];
+  rentPayments: any[];
+}
+
+function emptyTotals(): MtdTotals {
+  return {
+    income: { periodAmount: 0, premiumsOfLeaseGrant: 0, reversePremiums: 0, otherIncome: 0, taxDeducted: 0 },
+    expenses: {
+      premisesRunningCosts: 0, repairsAndMaintenance: 0, financialCosts: 0, professionalFees: 0,
+      costOfServices: 0, other: 0, residentialFinancialCost: 0, travelCosts: 0,
+    },
+  };
+}
+
+/** Tax year starting 6 April of `startYear`, formatted the way HMRC APIs expect ("2025-26"). */
+export function formatTaxYear(startYear: number): string {
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+export function taxYearFor(date: Date): number {
+  return isBefore(date, new Date(date.getFullYear(), 3, 6)) ? date.getFullYear() - 1 : date.getFullYear();
+}
+
+/**
+ * Quarterly update periods for a tax year. The standard basis ends on the 5th
+ * (5 Jul, 5 Oct, 5 Jan, 5 Apr); the calendar election ends on the last day of the month.
+ */
+export function mtdQuarters(startYear: number, basis: QuarterBasis = 'standard'): MtdQuarter[] {
+  const yearStart = basis === 'standard' ? new Date(startYear, 3, 6) : new Date(startYear, 3, 1);
+  return ([1, 2, 3, 4] as const).map(quarter => {
+    const quarterStart = addMonths(yearStart, (quarter - 1) * 3);
+    return { quarter, quarterStart, fromDate: yearStart, toDate: addDays(addMonths(yearStart, quarter * 3), -1) };
+  });
+}
+
+/** Inclusive of the whole of `to`, whatever time of day a record was stamped with. */
+function within(date: Date | null, from: Date, to: Date) {
+  return !!date && !isBefore(date, from) && isBefore(date, addDays(to, 1));
+}
+
+function expenseDate(e: any) { return safeToDate(e.date); }
+function repairDate(r: any) { return safeToDate(r.reportedDate); }
+function repairCost(r: any): Pence { return penceOf(r, 'expectedCost') || penceOf(r, 'estimatedCost'); }
+
+function paymentDate(p: any): Date | null {
+  return toLedgerPayment(p, 1)?.paidDate ?? null;
+}
+
+function accumulate(totals: MtdTotals, records: MtdSourceRecords, from: Date, to: Date, propertyId?: string) {
+  const forProperty = (r: any) => !propertyId || r.propertyId === propertyId;
+  const income: Partial<Record<MtdIncomeField, Pence>> = {};
+  const expenses: Partial<Record<MtdExpenseField, Pence>> = {};
+
+  records.rentPayments.filter(forProperty).forEach(p => {
+    if (within(paymentDate(p), from, to)) income.periodAmount = (income.periodAmount || 0) + penceOf(p, 'amountPaid');
+  });
+  // Capital improvements are not allowable against income; they feed the CGT base cost instead
+  records.expenses.filter(forProperty).filter(isRevenueExpenditure).forEach(e => {
+    if (!within(expenseDate(e), from, to)) return;
+    const field = MTD_CATEGORY_MAP[e.expenseType] || 'other';
+    expenses[field] = (expenses[field] || 0) + penceOf(e, 'amount');
+  });
+  records.repairs.filter(forProperty).filter(isRevenueExpenditure).forEach(r => {
+    if (within(repairDate(r), from, to)) expenses.repairsAndMaintenance = (expenses.repairsAndMaintenance || 0) + repairCost(r);
+  });
+
+  (Object.keys(totals.income) as MtdIncomeField[]).forEach(k => { totals.income[k] = fromPence(toPence(totals.income[k]) + (income[k] || 0)); });
+  (Object.keys(totals.expenses) as MtdExpenseField[]).forEach(k => { totals.expenses[k] = fromPence(toPence(totals.expenses[k]) + (expenses[k] || 0)); });
+  return totals;
+}
+
+/** Cumulative totals at the end of each quarter for the business and each property. */
+export function buildMtdQuarterlySummaries(
+  records: MtdSourceRecords,
+  propertyIds: string[],
+  startYear: number,
+  basis: QuarterBasis = 'standard'
+): MtdQuarterSummary[] {
+  return mtdQuarters(startYear, basis).map(q => ({
+    ...q,
+    business: accumulate(emptyTotals(), records, q.fromDate, q.toDate),
+    properties: propertyIds.map(propertyId => ({
+      propertyId,
+      ...accumulate(emptyTotals(), records, q.fromDate, q.toDate, propertyId),
+    })),
+  }));
+}
+
+export function totalExpenses(totals: MtdTotals): number {
+  return sumMoney(Object.values(totals.expenses));
+}
+
+/** Drops zero values so the payload only carries populated headings, as HMRC expects. */
+function compact<K extends string>(values: Record<K, number>): Partial<Record<K, number>> | undefined {
+  const entries = Object.entries(values).filter(([, v]) => (v as number) !== 0);
+  return entries.length ? Object.fromEntries(entries) as Partial<Record<K, number>> : undefined;
+}
+
+export function toCumulativeSummary(summary: MtdQuarterSummary, totals: MtdTotals = summary.business): UkPropertyCumulativeSummary {
+  const income = compact(totals.income);
+  const expenses = compact(totals.expenses);
+  return {
+    fromDate: format(summary.fromDate, 'yyyy-MM-dd'),
+    toDate: format(summary.toDate, 'yyyy-MM-dd'),
+    // A nil quarter is still submitted, declaring zero rents received
+    ukProperty: income || expenses ? { ...(income ? { income } : {}), ...(expenses ? { expenses } : {}) } : { income: { periodAmount: 0 } },
+  };
+}
+
+export function cumulativeSummaryPath(nino: string, businessId: string, startYear: number): string {
+  return `/individuals/business/property/uk/${nino}/${businessId}/cumulative/${formatTaxYear(startYear)}`;
+}
+
+/**
+ * Validates a payload the way the Property Business API does for the rules we can
+ * check locally. Returns HMRC style error codes; an empty list means the body is acceptable.
+ */
+export function validateCumulativeSummary(body: any): { code: string; message: string; path?: string }[] {
+  const errors: { code: string; message: string; path?: string }[] = [];
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+  if (!body || typeof body !== 'object' || !body.ukProperty || (!body.ukProperty.income && !body.ukProperty.expenses)) {
+    return [{ code: 'RULE_INCORRECT_OR_EMPTY_BODY_SUBMITTED', message: 'An empty or non-matching body was submitted' }];
+  }
+  if (!datePattern.test(body.fromDate || '')) errors.push({ code: 'FORMAT_FROM_DATE', message: 'The provided From date is invalid', path: '/fromDate' });
+  if (!datePattern.test(body.toDate || '')) errors.push({ code: 'FORMAT_TO_DATE', message: 'The provided To date is invalid', path: '/toDate' });
+  if (!errors.length && body.toDate < body.fromDate) {
+    errors.push({ code: 'RULE_TO_DATE_BEFORE_FROM_DATE', message: 'The To date cannot be earlier than the From date' });
+  }
+
+  (['income', 'expenses'] as const).forEach(section => {
+    Object.entries(body.ukProperty[section] || {}).forEach(([key, value]) => {
+      const n = value as number;
+      if (typeof n !== 'number' || !isFinite(n) || Math.abs(Math.round(n * 100) - n * 100) > 1e-6 || n < 0 || n > 99999999999.99) {
+        errors.push({ code: 'FORMAT_VALUE', message: 'The value must be between 0 and 99999999999.99 with up to 2 decimal places', path: `/ukProperty/${section}/${key}` });
+      }
+    });
+  });
+  return errors;
+}
+
+const CSV_HEADINGS: [string, (t: MtdTotals) => number][] = [
+  ['Rents Received', t => t.income.periodAmount],
+  ['Other Income', t => t.income.otherIncome],
+  ...(Object.keys(MTD_EXPENSE_LABELS) as MtdExpenseField[]).map(k => [MTD_EXPENSE_LABELS[k], (t: MtdTotals) => t.expenses[k]] as [string, (t: MtdTotals) => number]),
+  ['Total Expenses', t => totalExpenses(t)],
+];
+
+/** Accountant-friendly CSV: one row per quarter for the business and each property. */
+export function mtdSummariesToCsv(summaries: MtdQuarterSummary[], startYear: number, propertyNames: Record<string, string>): string {
+  const header = ['Tax Year', 'Quarter', 'Period From', 'Period To', 'Property', ...CSV_HEADINGS.map(([h]) => h)];
+  const rows: (string | number)[][] = [];
+  summaries.forEach(s => {
+    const base = [formatTaxYear(startYear), `Q${s.quarter}`, format(s.fromDate, 'yyyy-MM-dd'), format(s.toDate, 'yyyy-MM-dd')];
+    rows.push([...base, 'UK Property Business (All Properties)', ...CSV_HEADINGS.map(([, f]) => f(s.business).toFixed(2))]);
+    s.properties.forEach(p => {
+      rows.push([...base, propertyNames[p.propertyId] || p.propertyId, ...CSV_HEADINGS.map(([, f]) => f(p).toFixed(2))]);
+    });
+  });
+  return toCsv([header, ...rows]);
+}
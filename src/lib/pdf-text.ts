@@ -0,0 +1,209 @@
+/**
+ * @fileOverview PDF Text Extraction
+ * Pulls the text layer out of text-based PDFs (invoices, certificates and
+ * statements generated by accounting or trade software) without OCR. Content
+ * streams are inflated with the browser's DecompressionStream and the text-showing
+ * operators are read back in drawing order. Scanned images and fonts with custom
+ * glyph encodings yield little or no text; callers should treat the result as a
+ * best-effort hint, never as the source of truth.
+ */
+
+const latin1 = (bytes: Uint8Array) => {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    s += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return s;
+};
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+/** Raw (possibly compressed) stream bodies paired with their dictionaries. */
+function findStreams(raw: string): { dict: string; data: string }[] {
+  const streams: { dict: string; data: string }[] = [];
+  const pattern = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(raw))) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end < 0) break;
+    const objStart = raw.lastIndexOf('obj', match.index);
+    streams.push({ dict: raw.slice(objStart < 0 ? 0 : objStart, match.index), data: raw.slice(start, end).replace(/\r?\n$/, '') });
+    pattern.lastIndex = end + 'endstream'.length;
+  }
+  return streams;
+}
+
+function decodeBytes(bytes: number[]): string {
+  // Two-byte strings are only readable when they carry Unicode directly
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) bytes = bytes.slice(2);
+  else if (!(bytes.length % 2 === 0 && bytes.length > 0 && bytes.every((b, i) => i % 2 === 1 || b === 0))) {
+    return String.fromCharCode(...bytes);
+  }
+  let s = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) s += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return s;
+}
+
+const ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+
+type Operand = string | number | Operand[] | { name: string };
+
+/** Interprets the text operators of a content stream, returning one string per text line. */
+export function contentStreamText(content: string): string {
+  const lines: string[] = [];
+  let line = '';
+  let stack: Operand[] = [];
+  const arrays: Operand[][] = [];
+  let lastY: number | null = null;
+  let i = 0;
+
+  const push = (v: Operand) => (arrays.length ? arrays[arrays.length - 1] : stack).push(v);
+  const newline = () => {
+    if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim());
+    line = '';
+  };
+
+  while (i < content.length) {
+    const c = content[i];
+
+    if (c === '%') {
+      while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+    } else if (c === '(') {
+      const bytes: number[] = [];
+      let depth = 1;
+      i++;
+      while (i < content.length && depth > 0) {
+        const ch = content[i];
+        if (ch === '\\') {
+          const next = content[i + 1];
+          if (next in ESCAPES) { bytes.push(ESCAPES[next]); i += 2; }
+          else if (/[0-7]/.test(next)) {
+            const oct = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+            bytes.push(parseInt(oct, 8) & 0xff);
+            i += 1 + oct.length;
+          } else if (next === '\r' || next === '\n') {
+            i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+          } else { i += 2; }
+          continue;
+        }
+        if (ch === '(') depth++;
+        if (ch === ')' && --depth === 0) { i++; break; }
+        bytes.push(ch.charCodeAt(0) & 0xff);
+        i++;
+      }
+      push(decodeBytes(bytes));
+      continue;
+    } else if ((c === '<' && content[i + 1] === '<') || (c === '>' && content[i + 1] === '>')) {
+      i += 2;
+      continue;
+    } else if (c === '<') {
+      const end = content.indexOf('>', i);
+      const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/[^0-9a-fA-F]/g, '');
+      const padded = hex.length % 2 ? hex + '0' : hex;
+      const bytes: number[] = [];
+      for (let j = 0; j < padded.length; j += 2) bytes.push(parseInt(padded.slice(j, j + 2), 16));
+      push(decodeBytes(bytes));
+      i = end < 0 ? content.length : end + 1;
+      continue;
+    } else if (c === '[') {
+      arrays.push([]);
+    } else if (c === ']') {
+      const arr = arrays.pop();
+      if (arr) push(arr);
+    } else if (c === '/') {
+      const m = content.slice(i + 1).match(/^[^\s\/\[\]()<>{}%]*/)![0];
+      push({ name: m });
+      i += 1 + m.length;
+      continue;
+    } else if (/[\d.+-]/.test(c)) {
+      const m = content.slice(i).match(/^[+-]?(\d+\.?\d*|\.\d+)/);
+      if (m) { push(Number(m[0])); i += m[0].length; continue; }
+    } else if (/[A-Za-z'"*]/.test(c)) {
+      const op = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += op.length;
+      const nums = stack.filter((v): v is number => typeof v === 'number');
+      switch (op) {
+        case 'Tj':
+          line += stack.filter(v => typeof v === 'string').join('');
+          break;
+        case "'":
+        case '"':
+          newline();
+          line += stack.filter(v => typeof v === 'string').join('');
+          break;
+        case 'TJ': {
+          const arr = stack.find(Array.isArray) as Operand[] | undefined;
+          (arr || []).forEach(part => {
+            if (typeof part === 'string') line += part;
+            else if (typeof part === 'number' && part < -250) line += ' ';
+          });
+          break;
+        }
+        case 'Td':
+        case 'TD':
+          if (nums.length >= 2 && Math.abs(nums[nums.length - 1]) > 0.5) newline();
+          else if (nums.length >= 2 && nums[nums.length - 2] > 0 && line && !line.endsWith(' ')) line += ' ';
+          break;
+        case 'Tm':
+          if (nums.length >= 6) {
+            const y = nums[nums.length - 1];
+            if (lastY !== null && Math.abs(y - lastY) > 0.5) newline();
+            else if (line && !line.endsWith(' ')) line += ' ';
+            lastY = y;
+          }
+          break;
+        case 'T*':
+          newline();
+          break;
+        case 'ET':
+          newline();
+          lastY = null;
+          break;
+        case 'BI':
+          // Skip inline image data entirely
+          i = content.indexOf('EI', i);
+          if (i < 0) i = content.length;
+          else i += 2;
+          break;
+      }
+      stack = [];
+      continue;
+    }
+    i++;
+  }
+  newline();
+  return lines.join('\n');
+}
+
+/** Extracts the text layer of a PDF. Returns an empty string for image-only documents. */
+export async function extractPdfText(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const raw = latin1(bytes);
+  if (!raw.startsWith('%PDF')) return '';
+
+  const texts: string[] = [];
+  for (const { dict, data: body } of findStreams(raw)) {
+    if (/\/Subtype\s*\/Image|\/Type\s*\/(XRef|ObjStm|Metadata)|\/Length[123]\b/.test(dict)) continue;
+    const filters = dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+    if (filters && filters.replace(/\/FlateDecode/g, '').replace(/[\[\]\s]/g, '')) continue;
+
+    let content = body;
+    if (filters.includes('FlateDecode')) {
+      const inflated = await inflate(Uint8Array.from(body, ch => ch.charCodeAt(0)));
+      if (!inflated) continue;
+      content = latin1(inflated);
+    }
+    if (!/\bBT\b/.test(content)) continue;
+    const text = contentStreamText(content);
+    if (text) texts.push(text);
+  }
+  return texts.join('\n');
+}
@@ -0,0 +1,263 @@
+import { addDays, differenceInCalendarDays, eachMonthOfInterval, endOfMonth, format, isBefore, max, min, startOfDay, startOfMonth } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { toLedgerPayment } from '@/lib/rent-ledger';
+import { toCsv } from '@/lib/file-export';
+import { isRevenueExpenditure } from '@/lib/capital-expenditure';
+import { MTD_CATEGORY_MAP } from '@/lib/mtd-quarterly';
+import { fromPence, penceOf, sumMoney, type Pence } from '@/lib/money';
+
+/**
+ * @fileOverview Property Performance Analytics
+ * Per-property profit and loss over any date range, with gross and net yield on
+ * current value (falling back to purchase price), return on cash invested and
+ * occupancy from tenancy dates. Yields and ROI are annualised so ranges of
+ * different lengths compare. Capital spend is reported but kept out of profit.
+ */
+
+export interface PerformanceProperty {
+  id: string;
+  purchasePrice?: number;
+  currentValuation?: number;
+  /** Deposit, purchase costs and refurbishment actually paid in. */
+  cashInvested?: number;
+}
+
+export interface PerformanceRecords {
+  rentPayments: any[];
+  expenses: any[];
+  repairs: any[];
+  tenants: any[];
+}
+
+export interface PropertyPerformance {
+  propertyId: string;
+  income: number;
+  /** Allowable running costs and repairs, excluding finance costs. */
+  operatingCosts: number;
+  financeCosts: number;
+  capitalSpend: number;
+  /** Income less operating costs. */
+  netOperatingIncome: number;
+  /** Income less operating and finance costs. */
+  netProfit: number;
+  valueBasis: 'valuation' | 'purchase' | null;
+  value: number;
+  cashInvested: number;
+  /** Percentages, annualised; null when there is no value or cash invested to measure against. */
+  grossYield: number | null;
+  netYield: number | null;
+  roi: number | null;
+  occupiedDays: number;
+  days: number;
+  occupancyRate: number;
+}
+
+export type PortfolioPerformance = Omit<PropertyPerformance, 'propertyId' | 'valueBasis'>;
+
+export interface PerformanceMonth {
+  month: string;
+  income: number;
+  costs: number;
+  net: number;
+}
+
+export type PerformanceMetric = 'netProfit' | 'grossYield' | 'netYield' | 'roi' | 'occupancyRate';
+
+export const PERFORMANCE_METRIC_LABELS: Record<PerformanceMetric, string> = {
+  netProfit: 'Net Profit',
+  grossYield: 'Gross Yield',
+  netYield: 'Net Yield',
+  roi: 'ROI on Cash',
+  occupancyRate: 'Occupancy',
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+function within(date: Date | null, from: Date, to: Date): date is Date {
+  return !!date && !isBefore(date, startOfDay(from)) && isBefore(date, addDays(startOfDay(to), 1));
+}
+
+function repairCost(r: any): Pence { return penceOf(r, 'expectedCost') || penceOf(r, 'estimatedCost'); }
+
+function isFinanceCost(e: any) {
+  return MTD_CATEGORY_MAP[e.expenseType] === 'residentialFinancialCost';
+}
+
+/** Days in [from, to] covered by at least one tenancy. Archived tenancies without an end date are ignored. */
+export function occupiedDaysIn(tenants: any[], from: Date, to: Date): number {
+  const rangeStart = startOfDay(from);
+  const rangeEnd = addDays(startOfDay(to), 1);
+  const spans = tenants
+    .map(t => {
+      const start = safeToDate(t.tenancyStartDate);
+      const end = safeToDate(t.tenancyEndDate);
+      if (!start || (!end && t.status === 'Archived')) return null;
+      const s = max([startOfDay(start), rangeStart]);
+      const e = min([end ? addDays(startOfDay(end), 1) : rangeEnd, rangeEnd]);
+      return isBefore(s, e) ? [s, e] as const : null;
+    })
+    .filter((s): s is readonly [Date, Date] => !!s)
+    .sort((a, b) => a[0].getTime() - b[0].getTime());
+
+  let days = 0;
+  let cursor = rangeStart;
+  spans.forEach(([s, e]) => {
+    const start = max([s, cursor]);
+    if (isBefore(start, e)) {
+      days += differenceInCalendarDays(e, start);
+      cursor = e;
+    }
+  });
+  return days;
+}
+
+export function buildPropertyPerformance(
+  records: PerformanceRecords,
+  properties: PerformanceProperty[],
+  from: Date,
+  to: Date
+): PropertyPerformance[] {
+  const days = Math.max(1, differenceInCalendarDays(to, from) + 1);
+  const annualise = (n: number) => (n * 365) / days;
+  const percent = (n: number, base: number) => (base > 0 ? round((annualise(n) / base) * 100) : null);
+
+  return properties.map(property => {
+    const forProperty = (r: any) => r.propertyId === property.id;
+
+    // Money is summed in pence and converted back at the end
+    const income: Pence = records.rentPayments.filter(forProperty).reduce((sum, p) => {
+      const paid = toLedgerPayment(p, 1)?.paidDate ?? null;
+      return within(paid, from, to) ? sum + penceOf(p, 'amountPaid') : sum;
+    }, 0);
+
+    let operatingCosts: Pence = 0;
+    let financeCosts: Pence = 0;
+    let capitalSpend: Pence = 0;
+    records.expenses.filter(forProperty).forEach(e => {
+      if (!within(safeToDate(e.date), from, to)) return;
+      const amount = penceOf(e, 'amount');
+      if (!isRevenueExpenditure(e)) capitalSpend += amount;
+      else if (isFinanceCost(e)) financeCosts += amount;
+      else operatingCosts += amount;
+    });
+    records.repairs.filter(forProperty).forEach(r => {
+      if (!within(safeToDate(r.reportedDate), from, to)) return;
+      if (isRevenueExpenditure(r)) operatingCosts += repairCost(r);
+      else capitalSpend += repairCost(r);
+    });
+
+    const valuation = penceOf(property, 'currentValuation');
+    const purchase = penceOf(property, 'purchasePrice');
+    const value = valuation || purchase;
+    // Without a recorded figure, assume the property was bought outright
+    const cashInvested = penceOf(property, 'cashInvested') || purchase;
+    const netOperatingIncome = income - operatingCosts;
+    const netProfit = netOperatingIncome - financeCosts;
+    const occupiedDays = occupiedDaysIn(records.tenants.filter(forProperty), from, to);
+
+    return {
+      propertyId: property.id,
+      income: fromPence(income),
+      operatingCosts: fromPence(operatingCosts),
+      financeCosts: fromPence(financeCosts),
+      capitalSpend: fromPence(capitalSpend),
+      netOperatingIncome: fromPence(netOperatingIncome),
+      netProfit: fromPence(netProfit),
+      valueBasis: valuation ? 'valuation' : purchase ? 'purchase' : null,
+      value: fromPence(value),
+      cashInvested: fromPence(cashInvested),
+      grossYield: percent(income, value),
+      netYield: percent(netOperatingIncome, value),
+      roi: percent(netProfit, cashInvested),
+      occupiedDays,
+      days,
+      occupancyRate: round((occupiedDays / days) * 100),
+    };
+  });
+}
+
+/** Portfolio roll-up. Yields are weighted by value rather than averaged across properties. */
+export function portfolioPerformance(rows: PropertyPerformance[], from: Date, to: Date): PortfolioPerformance {
+  const sum = (f: (r: PropertyPerformance) => number) => sumMoney(rows.map(f));
+  const days = Math.max(1, differenceInCalendarDays(to, from) + 1);
+  const percent = (n: number, base: number) => (base > 0 ? round(((n * 365) / days / base) * 100) : null);
+  const income = sum(r => r.income);
+  const netOperatingIncome = sum(r => r.netOperatingIncome);
+  const netProfit = sum(r => r.netProfit);
+  const value = sum(r => r.value);
+  const cashInvested = sum(r => r.cashInvested);
+  const occupiedDays = rows.reduce((acc, r) => acc + r.occupiedDays, 0);
+  return {
+    income,
+    operatingCosts: sum(r => r.operatingCosts),
+    financeCosts: sum(r => r.financeCosts),
+    capitalSpend: sum(r => r.capitalSpend),
+    netOperatingIncome,
+    netProfit,
+    value,
+    cashInvested,
+    grossYield: percent(income, value),
+    netYield: percent(netOperatingIncome, value),
+    roi: percent(netProfit, cashInvested),
+    occupiedDays,
+    days: days * rows.length,
+    occupancyRate: rows.length ? round((occupiedDays / (days * rows.length)) * 100) : 0,
+  };
+}
+
+/** Highest first; properties with no figure for the metric sort last. */
+export function rankPerformance(rows: PropertyPerformance[], metric: PerformanceMetric): PropertyPerformance[] {
+  return [...rows].sort((a, b) => (b[metric] ?? -Infinity) - (a[metric] ?? -Infinity));
+}
+
+/** Monthly income and costs (operating and finance) for one property, or all when `propertyId` is omitted. */
+export function monthlyPerformance(records: PerformanceRecords, from: Date, to: Date, propertyId?: string): PerformanceMonth[] {
+  const forProperty = (r: any) => !propertyId || r.propertyId === propertyId;
+  if (isBefore(to, from)) return [];
+  return eachMonthOfInterval({ start: from, end: to }).map(month => {
+    const start = max([startOfMonth(month), from]);
+    const end = min([endOfMonth(month), to]);
+    const income = records.rentPayments.filter(forProperty).reduce((sum, p) => {
+      const paid = toLedgerPayment(p, 1)?.paidDate ?? null;
+      return within(paid, start, end) ? sum + penceOf(p, 'amountPaid') : sum;
+    }, 0);
+    const expenses = records.expenses.filter(forProperty).filter(isRevenueExpenditure)
+      .filter(e => within(safeToDate(e.date), start, end))
+      .reduce((sum, e) => sum + penceOf(e, 'amount'), 0);
+    const repairs = records.repairs.filter(forProperty).filter(isRevenueExpenditure)
+      .filter(r => within(safeToDate(r.reportedDate), start, end))
+      .reduce((sum, r) => sum + repairCost(r), 0);
+    const costs = expenses + repairs;
+    return { month: format(month, 'MMM yy'), income: fromPence(income), costs: fromPence(costs), net: fromPence(income - costs) };
+  });
+}
+
+export const formatPercent = (val: number | null) => (val === null ? '—' : `${val.toFixed(2)}%`);
+
+export function performanceToCsv(rows: PropertyPerformance[], propertyNames: Record<string, string>, from: Date, to: Date): string {
+  const table: (string | number)[][] = [
+    ['Property Performance', `${format(from, 'dd/MM/yyyy')} - ${format(to, 'dd/MM/yyyy')}`],
+    [
+      'Rank', 'Property', 'Income', 'Operating Costs', 'Finance Costs', 'Net Operating Income', 'Net Profit',
+      'Capital Spend', 'Value', 'Value Basis', 'Cash Invested', 'Gross Yield %', 'Net Yield %', 'ROI %', 'Occupancy %',
+    ],
+    ...rows.map((r, i) => [
+      i + 1,
+      propertyNames[r.propertyId] || r.propertyId,
+      r.income.toFixed(2),
+      r.operatingCosts.toFixed(2),
+      r.financeCosts.toFixed(2),
+      r.netOperatingIncome.toFixed(2),
+      r.netProfit.toFixed(2),
+      r.capitalSpend.toFixed(2),
+      r.value.toFixed(2),
+      r.valueBasis === 'valuation' ? 'Current valuation' : r.valueBasis === 'purchase' ? 'Purchase price' : '',
+      r.cashInvested.toFixed(2),
+      r.grossYield?.toFixed(2) ?? '',
+      r.netYield?.toFixed(2) ?? '',
+      r.roi?.toFixed(2) ?? '',
+      r.occupancyRate.toFixed(2),
+    ]),
+  ];
+  return toCsv(table);
+}
@@ -0,0 +1,259 @@
+import { MTD_CATEGORY_MAP } from '@/lib/mtd-quarterly';
+import { poundsOf, roundMoney, sumMoney } from '@/lib/money';
+
+/**
+ * @fileOverview Property Income Tax Estimator
+ * Separates residential finance costs from other allowable expenses, applies the
+ * Section 24 basic-rate tax credit for individual landlords (or full deduction and
+ * corporation tax for companies), apportions jointly owned properties by ownership
+ * share and estimates the liability band by band. Rates are for England, Wales and
+ * Northern Ireland, 2025-26.
+ */
+
+export type OwnershipType = 'individual' | 'limited_company';
+
+export const OWNERSHIP_TYPE_LABELS: Record<OwnershipType, string> = {
+  individual: 'Individual (Income Tax)',
+  limited_company: 'Limited Company (Corporation Tax)',
+};
+
+export interface TaxProfile {
+  ownershipType: OwnershipType;
+  /** Employment, pension and other non-property taxable income for the year. */
+  otherTaxableIncome: number;
+}
+
+export const DEFAULT_TAX_PROFILE: TaxProfile = { ownershipType: 'individual', otherTaxableIncome: 0 };
+
+export const INCOME_TAX_RATES = {
+  personalAllowance: 12570,
+  /** Allowance is withdrawn at £1 for every £2 of income above this. */
+  allowanceTaperThreshold: 100000,
+  basicRateBand: 37700,
+  additionalRateThreshold: 125140,
+  basicRate: 0.2,
+  higherRate: 0.4,
+  additionalRate: 0.45,
+  /** Section 24 credit is given at the basic rate. */
+  financeCostCreditRate: 0.2,
+};
+
+export const CORPORATION_TAX_RATES = {
+  smallProfitsRate: 0.19,
+  mainRate: 0.25,
+  lowerLimit: 50000,
+  upperLimit: 250000,
+  marginalReliefFraction: 3 / 200,
+};
+
+export interface TaxPropertyInput {
+  propertyId: string;
+  /** Percentage of the property owned by the user, 0-100. Missing means sole ownership. */
+  ownershipPercentage?: number;
+  income: number;
+  expenses: { category: string; amount: number }[];
+}
+
+export interface TaxPropertyShare {
+  propertyId: string;
+  share: number;
+  income: number;
+  allowableExpenses: number;
+  financeCosts: number;
+}
+
+export interface TaxBand {
+  name: string;
+  rate: number;
+  taxable: number;
+  tax: number;
+}
+
+export interface TaxComputation {
+  ownershipType: OwnershipType;
+  properties: TaxPropertyShare[];
+  propertyIncome: number;
+  allowableExpenses: number;
+  financeCosts: number;
+  /** Profit before finance costs for individuals; after them for companies. */
+  propertyProfit: number;
+  otherIncome: number;
+  personalAllowance: number;
+  bands: TaxBand[];
+  grossTax: number;
+  financeCostCredit: number;
+  /** Finance costs that could not be relieved this year and carry forward. */
+  unrelievedFinanceCosts: number;
+  estimatedLiability: number;
+  /** Tax attributable to property income (total less tax on other income alone). */
+  propertyTaxLiability: number;
+  /** What the liability would be if finance costs were fully deductible. */
+  liabilityWithoutSection24: number;
+}
+
+export function resolveTaxProfile(raw?: Partial<TaxProfile> | null): TaxProfile {
+  return {
+    ownershipType: raw?.ownershipType === 'limited_company' ? 'limited_company' : 'individual',
+    otherTaxableIncome: Math.max(0, Number(raw?.otherTaxableIncome) || 0),
+  };
+}
+
+export function isFinanceCost(category: string): boolean {
+  return MTD_CATEGORY_MAP[category] === 'residentialFinancialCost';
+}
+
+export function ownershipShare(percentage?: number): number {
+  if (percentage === undefined || percentage === null || isNaN(Number(percentage))) return 1;
+  return Math.min(100, Math.max(0, Number(percentage))) / 100;
+}
+
+export function apportionProperties(properties: TaxPropertyInput[]): TaxPropertyShare[] {
+  return properties.map(p => {
+    const share = ownershipShare(p.ownershipPercentage);
+    const finance = sumMoney(p.expenses.filter(e => isFinanceCost(e.category)).map(e => e.amount));
+    const other = sumMoney(p.expenses.filter(e => !isFinanceCost(e.category)).map(e => e.amount));
+    return {
+      propertyId: p.propertyId,
+      share,
+      income: roundMoney(p.income * share),
+      allowableExpenses: roundMoney(other * share),
+      financeCosts: roundMoney(finance * share),
+    };
+  });
+}
+
+export function personalAllowanceFor(adjustedNetIncome: number): number {
+  const { personalAllowance, allowanceTaperThreshold } = INCOME_TAX_RATES;
+  const reduction = Math.max(0, Math.floor((adjustedNetIncome - allowanceTaperThreshold) / 2));
+  return Math.max(0, personalAllowance - reduction);
+}
+
+/** Income tax on non-savings income, split into basic, higher and additional bands. */
+export function incomeTaxBands(totalIncome: number): { personalAllowance: number; bands: TaxBand[] } {
+  const r = INCOME_TAX_RATES;
+  const personalAllowance = personalAllowanceFor(totalIncome);
+  const taxable = Math.max(0, totalIncome - personalAllowance);
+  const additionalStart = Math.max(0, r.additionalRateThreshold - personalAllowance);
+
+  const basic = Math.min(taxable, r.basicRateBand);
+  const higher = Math.max(0, Math.min(taxable, additionalStart) - r.basicRateBand);
+  const additional = Math.max(0, taxable - Math.max(additionalStart, r.basicRateBand));
+
+  return {
+    personalAllowance,
+    bands: [
+      { name: 'Basic Rate', rate: r.basicRate, taxable: roundMoney(basic), tax: roundMoney(basic * r.basicRate) },
+      { name: 'Higher Rate', rate: r.higherRate, taxable: roundMoney(higher), tax: roundMoney(higher * r.higherRate) },
+      { name: 'Additional Rate', rate: r.additionalRate, taxable: roundMoney(additional), tax: roundMoney(additional * r.additionalRate) },
+    ],
+  };
+}
+
+/** Corporation tax with marginal relief between the lower and upper limits. */
+export function corporationTaxBands(profit: number): TaxBand[] {
+  const c = CORPORATION_TAX_RATES;
+  const taxable = Math.max(0, profit);
+  if (taxable <= c.lowerLimit) {
+    return [{ name: 'Small Profits Rate', rate: c.smallProfitsRate, taxable: roundMoney(taxable), tax: roundMoney(taxable * c.smallProfitsRate) }];
+  }
+  if (taxable >= c.upperLimit) {
+    return [{ name: 'Main Rate', rate: c.mainRate, taxable: roundMoney(taxable), tax: roundMoney(taxable * c.mainRate) }];
+  }
+  const relief = c.marginalReliefFraction * (c.upperLimit - taxable);
+  return [
+    { name: 'Main Rate', rate: c.mainRate, taxable: roundMoney(taxable), tax: roundMoney(taxable * c.mainRate) },
+    { name: 'Marginal Relief', rate: -c.marginalReliefFraction, taxable: roundMoney(c.upperLimit - taxable), tax: roundMoney(-relief) },
+  ];
+}
+
+const sumTax = (bands: TaxBand[]) => sumMoney(bands.map(b => b.tax));
+
+export function computePropertyTax(
+  properties: TaxPropertyInput[],
+  profile: TaxProfile = DEFAULT_TAX_PROFILE,
+  financeCostsBroughtForward = 0
+): TaxComputation {
+  const shares = apportionProperties(properties);
+  const propertyIncome = sumMoney(shares.map(p => p.income));
+  const allowableExpenses = sumMoney(shares.map(p => p.allowableExpenses));
+  const financeCosts = sumMoney(shares.map(p => p.financeCosts));
+  const otherIncome = profile.ownershipType === 'individual' ? profile.otherTaxableIncome : 0;
+
+  if (profile.ownershipType === 'limited_company') {
+    const profit = roundMoney(propertyIncome - allowableExpenses - financeCosts);
+    const bands = corporationTaxBands(profit);
+    const tax = sumTax(bands);
+    return {
+      ownershipType: 'limited_company',
+      properties: shares,
+      propertyIncome,
+      allowableExpenses,
+      financeCosts,
+      propertyProfit: profit,
+      otherIncome: 0,
+      personalAllowance: 0,
+      bands,
+      grossTax: tax,
+      financeCostCredit: 0,
+      unrelievedFinanceCosts: 0,
+      estimatedLiability: tax,
+      propertyTaxLiability: tax,
+      liabilityWithoutSection24: tax,
+    };
+  }
+
+  // Finance costs are not deducted; losses are not set against other income
+  const propertyProfit = roundMoney(propertyIncome - allowableExpenses);
+  const totalIncome = otherIncome + Math.max(0, propertyProfit);
+  const { personalAllowance, bands } = incomeTaxBands(totalIncome);
+  const grossTax = sumTax(bands);
+
+  // Credit is the basic rate on the lowest of finance costs, property profits and
+  // adjusted total income in excess of the personal allowance
+  const relievable = financeCosts + financeCostsBroughtForward;
+  const creditBase = Math.max(0, Math.min(relievable, Math.max(0, propertyProfit), Math.max(0, totalIncome - personalAllowance)));
+  const financeCostCredit = roundMoney(Math.min(grossTax, creditBase * INCOME_TAX_RATES.financeCostCreditRate));
+  const estimatedLiability = roundMoney(grossTax - financeCostCredit);
+
+  const taxOnOtherIncome = sumTax(incomeTaxBands(otherIncome).bands);
+  const withoutSection24 = sumTax(incomeTaxBands(otherIncome + Math.max(0, propertyProfit - relievable)).bands);
+
+  return {
+    ownershipType: 'individual',
+    properties: shares,
+    propertyIncome,
+    allowableExpenses,
+    financeCosts,
+    propertyProfit,
+    otherIncome,
+    personalAllowance,
+    bands,
+    grossTax,
+    financeCostCredit,
+    unrelievedFinanceCosts: roundMoney(relievable - creditBase),
+    estimatedLiability,
+    propertyTaxLiability: roundMoney(estimatedLiability - taxOnOtherIncome),
+    liabilityWithoutSection24: withoutSection24,
+  };
+}
+
+/**
+ * Groups expense and rent records by property for `computePropertyTax`. Repairs use
+ * the same cost fields as the annual summary.
+ */
+export function buildTaxInputs(
+  properties: { id: string; ownershipPercentage?: number }[],
+  rentPayments: any[],
+  expenses: any[],
+  repairs: any[] = []
+): TaxPropertyInput[] {
+  return properties.map(p => ({
+    propertyId: p.id,
+    ownershipPercentage: p.ownershipPercentage,
+    income: sumMoney(rentPayments.filter(r => r.propertyId === p.id).map(r => poundsOf(r, 'amountPaid'))),
+    expenses: [
+      ...expenses.filter(e => e.propertyId === p.id).map(e => ({ category: e.expenseType, amount: poundsOf(e, 'amount') })),
+      ...repairs.filter(r => r.propertyId === p.id).map(r => ({ category: 'Repairs and Maintenance', amount: poundsOf(r, 'expectedCost') || poundsOf(r, 'estimatedCost') })),
+    ],
+  }));
+}
@@ -0,0 +1,205 @@
+import { format, isValid } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { extractPdfText } from '@/lib/pdf-text';
+import { toCsv } from '@/lib/file-export';
+import { createZip, uniqueZipNames, type ZipEntry } from '@/lib/zip';
+import { poundsOf } from '@/lib/money';
+
+/**
+ * @fileOverview Expense Receipts
+ * Receipt and invoice attachments stored against expenses, field extraction from
+ * text-based PDF invoices to pre-fill the expense form, and the receipts bundle
+ * that accompanies the HMRC export.
+ */
+
+export interface ExpenseReceipt {
+  url: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface InvoiceFields {
+  date?: Date;
+  supplier?: string;
+  vatNumber?: string;
+  vatAmount?: number;
+  total?: number;
+}
+
+export const RECEIPT_ACCEPT = 'image/*,application/pdf';
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+export function isPdfFile(file: { type?: string; name?: string; contentType?: string; fileName?: string }): boolean {
+  const type = file.type || file.contentType || '';
+  const name = file.name || file.fileName || '';
+  return type === 'application/pdf' || /\.pdf$/i.test(name);
+}
+
+export function isImageReceipt(receipt: Pick<ExpenseReceipt, 'contentType' | 'fileName'>): boolean {
+  return receipt.contentType.startsWith('image/') || /\.(png|jpe?g|gif|webp|heic)$/i.test(receipt.fileName);
+}
+
+export function toExpenseReceipt(file: File, url: string): ExpenseReceipt {
+  return {
+    url,
+    fileName: file.name,
+    contentType: file.type || (isPdfFile(file) ? 'application/pdf' : 'application/octet-stream'),
+    size: file.size,
+    uploadedAt: new Date().toISOString(),
+  };
+}
+
+// --- Invoice field extraction ---
+
+const AMOUNT = /(?:£\s?)?(\d{1,3}(?:,\d{3})+|\d+)\.(\d{2})(?![\d%])/g;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function amountsIn(line: string): number[] {
+  return Array.from(line.matchAll(AMOUNT)).map(m => Number(`${m[1].replace(/,/g, '')}.${m[2]}`));
+}
+
+/** Last amount on the line, or on the next line when labels and values are laid out in columns. */
+function amountFor(lines: string[], index: number): number | undefined {
+  const own = amountsIn(lines[index]);
+  if (own.length) return own[own.length - 1];
+  const next = lines[index + 1] ? amountsIn(lines[index + 1]) : [];
+  return next.length ? next[next.length - 1] : undefined;
+}
+
+function validDate(year: number, month: number, day: number): Date | undefined {
+  if (year < 100) year += 2000;
+  const d = new Date(year, month, day);
+  return isValid(d) && d.getMonth() === month && d.getDate() === day && year > 1990 && year < 2100 ? d : undefined;
+}
+
+/** Finds the first UK-style date in a line: 05/04/2025, 2025-04-05, 5th April 2025, April 5, 2025. */
+export function findDate(line: string): Date | undefined {
+  let m = line.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (m) return validDate(+m[1], +m[2] - 1, +m[3]);
+  m = line.match(/\b(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4}|\d{2})\b/);
+  if (m) return validDate(+m[3], +m[2] - 1, +m[1]);
+  m = line.match(/\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?,?[\s-]+(\d{4})\b/);
+  if (m && MONTH_NAMES.includes(m[2].slice(0, 3).toLowerCase())) return validDate(+m[3], MONTH_NAMES.indexOf(m[2].slice(0, 3).toLowerCase()), +m[1]);
+  m = line.match(/\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+  if (m && MONTH_NAMES.includes(m[1].slice(0, 3).toLowerCase())) return validDate(+m[3], MONTH_NAMES.indexOf(m[1].slice(0, 3).toLowerCase()), +m[2]);
+  return undefined;
+}
+
+const TOTAL_LABELS: [RegExp, number][] = [
+  [/\b(amount|balance|total)\s+(due|payable|to pay)\b/i, 3],
+  [/\b(grand|invoice)\s+total\b/i, 3],
+  [/\btotal\s*\(?(inc|incl|including)\.?\s*vat\b/i, 3],
+  [/\btotal\b/i, 1],
+];
+const NOT_TOTAL = /\bsub\s*-?total|\btotal\s*\(?(ex|excl|excluding|net|before)\b|\btotal\s+vat\b|\bvat\s+total\b/i;
+const NOT_SUPPLIER = /invoice|receipt|statement|\btax\b|\bdate\b|page\s+\d|\bno\.?\b|number|bill\s+to|ship\s+to|invoice\s+to|customer|account|total|\bvat\b|@|www\.|https?:|^\+?[\d\s()-]+$/i;
+
+/**
+ * Pulls the invoice date, supplier, VAT registration number, VAT amount and total
+ * from extracted invoice text. Every field is optional: layouts vary too much to
+ * guarantee a match, so the form only pre-fills what was found.
+ */
+export function parseInvoiceFields(text: string): InvoiceFields {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const fields: InvoiceFields = {};
+
+  let best = { rank: 0, amount: 0 };
+  lines.forEach((line, i) => {
+    if (NOT_TOTAL.test(line)) return;
+    const rank = TOTAL_LABELS.find(([pattern]) => pattern.test(line))?.[1] || 0;
+    const amount = rank ? amountFor(lines, i) : undefined;
+    if (amount !== undefined && (rank > best.rank || (rank === best.rank && amount > best.amount))) best = { rank, amount };
+  });
+  if (best.rank) fields.total = best.amount;
+
+  const vatLines = lines
+    .map((line, i) => ({ line, i }))
+    .filter(({ line }) => /\bvat\b/i.test(line) && !/\b(reg|registration|no\b|number|#)|\b(inc|incl|including|ex|excl|excluding)\.?\s*vat\b/i.test(line));
+  const vatLine = vatLines.find(({ line }) => /\btotal\b/i.test(line)) || vatLines[vatLines.length - 1];
+  const vat = vatLine ? amountFor(lines, vatLine.i) : undefined;
+  if (vat !== undefined && (fields.total === undefined || vat < fields.total)) fields.vatAmount = vat;
+
+  const vatNumber = text.match(/VAT\s*(?:reg(?:istration)?\.?\s*)?(?:no\.?|number|#)?\s*:?\s*(GB)?\s?(\d{3}\s?\d{4}\s?\d{2}(?:\s?\d{3})?)\b/i);
+  if (vatNumber) fields.vatNumber = `GB${vatNumber[2].replace(/\s/g, '')}`;
+
+  const dateLine = lines.find(l => /\b(invoice|tax\s*point|receipt|issue|order)?\s*date\b/i.test(l) && !/\bdue\b/i.test(l) && findDate(l));
+  fields.date = (dateLine && findDate(dateLine)) || lines.map(findDate).find(Boolean);
+
+  const labelled = lines.map(l => l.match(/^(?:from|supplier|sold\s+by|billed?\s+from)\s*:?\s*(.{2,})$/i)).find(Boolean);
+  const candidates = lines.slice(0, 15).filter(l => /[a-z]{2}/i.test(l) && l.length <= 60 && !NOT_SUPPLIER.test(l));
+  const supplier = labelled?.[1] || candidates.find(l => /\b(ltd|limited|llp|plc)\b\.?/i.test(l)) || candidates[0];
+  if (supplier) fields.supplier = supplier.trim();
+
+  return fields;
+}
+
+/** Reads a text-based PDF invoice. Images and scanned PDFs return no fields. */
+export async function extractInvoiceFields(file: File): Promise<InvoiceFields> {
+  if (!isPdfFile(file)) return {};
+  const text = await extractPdfText(await file.arrayBuffer());
+  return text ? parseInvoiceFields(text) : {};
+}
+
+// --- HMRC export bundle ---
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40);
+
+export interface ReceiptArchiveItem {
+  expense: any;
+  receipt: ExpenseReceipt;
+  /** Path of the receipt inside the export ZIP. */
+  path: string;
+}
+
+/** Stable, human-readable archive paths for every receipt: receipts/2025-04-05_insurance_1.pdf */
+export function receiptArchiveItems(expenses: any[]): ReceiptArchiveItem[] {
+  const items = expenses
+    .filter(e => Array.isArray(e.receipts) && e.receipts.length)
+    .sort((a, b) => (safeToDate(a.date)?.getTime() || 0) - (safeToDate(b.date)?.getTime() || 0))
+    .flatMap(e => (e.receipts as ExpenseReceipt[]).map((receipt, i) => {
+      const d = safeToDate(e.date);
+      const ext = receipt.fileName.includes('.') ? receipt.fileName.split('.').pop()!.toLowerCase() : isPdfFile(receipt) ? 'pdf' : 'bin';
+      const label = [d ? format(d, 'yyyy-MM-dd') : 'undated', slug(e.expenseType || 'expense'), slug(e.supplier || '')].filter(Boolean).join('_');
+      return { expense: e, receipt, path: `receipts/${label}_${i + 1}.${ext}` };
+    }));
+  const paths = uniqueZipNames(items.map(item => item.path));
+  return items.map((item, i) => ({ ...item, path: paths[i] }));
+}
+
+/**
+ * Downloads every receipt and packs them with the supplied files (typically the
+ * HMRC briefing PDF) and an index CSV. Receipts that cannot be fetched are listed
+ * in the index with their storage URL instead of failing the whole export.
+ */
+export async function buildReceiptBundle(expenses: any[], extraFiles: ZipEntry[] = []): Promise<Uint8Array> {
+  const items = receiptArchiveItems(expenses);
+  const entries: ZipEntry[] = [...extraFiles];
+  const index: (string | number)[][] = [['File', 'Date', 'Category', 'Supplier', 'Amount', 'Original File Name', 'Status', 'URL']];
+
+  for (const item of items) {
+    let status = 'Included';
+    try {
+      const res = await fetch(item.receipt.url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      entries.push({ name: item.path, data: new Uint8Array(await res.arrayBuffer()), modified: safeToDate(item.receipt.uploadedAt) || undefined });
+    } catch {
+      status = 'Not downloaded - see URL';
+    }
+    const d = safeToDate(item.expense.date);
+    index.push([
+      item.path,
+      d ? format(d, 'dd/MM/yyyy') : '',
+      item.expense.expenseType || '',
+      item.expense.supplier || '',
+      poundsOf(item.expense, 'amount').toFixed(2),
+      item.receipt.fileName,
+      status,
+      item.receipt.url,
+    ]);
+  }
+
+  entries.push({ name: 'receipts/index.csv', data: toCsv(index) });
+  return createZip(entries);
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessArrears,
+  buildArrearsHistory,
+  classifyArrearsStage,
+  paymentTenancyId,
+  resolveArrearsConfig,
+  section8Threshold,
+  unallocatedPayments,
+  type TenancyPeriod,
+} from '@/lib/rent-arrears';
+
+const tenant = { id: 't1', propertyId: 'p1', landlordId: 'l1', monthlyRent: 1000, rentDueDay: 1 };
+
+const monthlyCharges = (months: number[]) =>
+  months.map(m => ({ id: `c${m}`, tenantId: 't1', propertyId: 'p1', dueDate: new Date(2026, m, 1), amount: 1000 }));
+
+const payment = (amountPaid: number, paidDate: Date, extra: Record<string, unknown> = {}) =>
+  ({ id: `pay-${paidDate.getTime()}`, tenantId: 't1', propertyId: 'p1', amountPaid, paidDate, ...extra });
+
+describe('section8Threshold', () => {
+  it('is two months\' rent, or eight weeks, before the Renters\' Rights Act', () => {
+    expect(section8Threshold(1000, 'monthly', new Date(2026, 3, 30))).toBe(2000);
+    expect(section8Threshold(1000, 'weekly', new Date(2026, 3, 30))).toBe(1846.15);
+  });
+
+  it('is three months\' rent, or thirteen weeks, from 1 May 2026', () => {
+    expect(section8Threshold(1000, 'monthly', new Date(2026, 4, 1))).toBe(3000);
+    expect(section8Threshold(1000, 'weekly', new Date(2026, 4, 1))).toBe(3000);
+  });
+});
+
+describe('resolveArrearsConfig', () => {
+  it('fills gaps from the defaults and keeps the stages in order', () => {
+    expect(resolveArrearsConfig({ formalReminderDays: 0, finalNoticeDays: 90 })).toEqual({
+      friendlyReminderDays: 1,
+      formalReminderDays: 1,
+      finalNoticeDays: 90,
+      legalThresholdDays: 90,
+    });
+  });
+});
+
+describe('classifyArrearsStage', () => {
+  it('escalates with days overdue', () => {
+    expect(classifyArrearsStage(0, 40, false)).toBe('clear');
+    expect(classifyArrearsStage(100, 0, false)).toBe('clear');
+    expect(classifyArrearsStage(100, 1, false)).toBe('friendly');
+    expect(classifyArrearsStage(100, 20, false)).toBe('formal');
+    expect(classifyArrearsStage(100, 30, false)).toBe('final');
+    expect(classifyArrearsStage(100, 56, false)).toBe('legal');
+  });
+
+  it('goes straight to legal once the Section 8 threshold is met', () => {
+    expect(classifyArrearsStage(2000, 2, true)).toBe('legal');
+  });
+});
+
+describe('paymentTenancyId', () => {
+  const tenancies: TenancyPeriod[] = [
+    { id: 'a', propertyId: 'p1', tenancyStartDate: new Date(2023, 0, 1), tenancyEndDate: new Date(2023, 11, 31) },
+    { id: 'b', propertyId: 'p1', tenancyStartDate: new Date(2024, 0, 1) },
+  ];
+
+  it('keeps the tenantId a payment already carries', () => {
+    expect(paymentTenancyId({ tenantId: 'x', propertyId: 'p1', amountPaid: 10, paidDate: new Date(2024, 1, 1) }, tenancies)).toBe('x');
+  });
+
+  it('attributes a tenantless payment to the one tenancy covering its date', () => {
+    expect(paymentTenancyId({ propertyId: 'p1', amountPaid: 10, paidDate: new Date(2024, 1, 3) }, tenancies)).toBe('b');
+    expect(paymentTenancyId({ propertyId: 'p1', amountPaid: 10, month: 'June', year: 2023 }, tenancies)).toBe('a');
+  });
+
+  it('leaves a payment unallocated when several tenancies cover it', () => {
+    const overlapping = [...tenancies, { id: 'c', propertyId: 'p1', tenancyStartDate: new Date(2024, 0, 15) }];
+    const legacy = { propertyId: 'p1', amountPaid: 10, month: 'January', year: 2024 };
+    expect(paymentTenancyId(legacy, overlapping)).toBeNull();
+    expect(unallocatedPayments([legacy, { ...legacy, tenantId: 'b' }], overlapping)).toEqual([legacy]);
+  });
+});
+
+describe('assessArrears', () => {
+  it('measures arrears from the oldest unpaid charge and flags Section 8', () => {
+    const result = assessArrears(tenant, monthlyCharges([0, 1, 2]), [payment(1000, new Date(2026, 0, 3))], [tenant], undefined, new Date(2026, 2, 10));
+    expect(result.arrears).toBe(2000);
+    expect(result.oldestUnpaidDueDate).toEqual(new Date(2026, 1, 1));
+    expect(result.daysOverdue).toBe(37);
+    expect(result.monthsInArrears).toBe(2);
+    expect(result.section8Met).toBe(true);
+    expect(result.stage).toBe('legal');
+  });
+
+  it('needs three months\' arrears for Section 8 after the Act', () => {
+    const paid = [payment(3000, new Date(2026, 0, 3))];
+    const result = assessArrears(tenant, monthlyCharges([0, 1, 2, 3, 4]), paid, [tenant], undefined, new Date(2026, 4, 10));
+    expect(result.arrears).toBe(2000);
+    expect(result.section8Threshold).toBe(3000);
+    expect(result.section8Met).toBe(false);
+    expect(result.stage).toBe('final');
+  });
+
+  it('reports no arrears for a tenancy with no persisted schedule', () => {
+    const result = assessArrears(tenant, [], [], [tenant], undefined, new Date(2026, 2, 10));
+    expect(result.arrears).toBe(0);
+    expect(result.stage).toBe('clear');
+  });
+});
+
+describe('buildArrearsHistory', () => {
+  it('replays the position at each due date and today', () => {
+    const history = buildArrearsHistory(tenant, monthlyCharges([0, 1, 2]), [payment(1000, new Date(2026, 0, 3))], [tenant], undefined, new Date(2026, 2, 10));
+    expect(history.map(h => h.arrears)).toEqual([1000, 1000, 2000, 2000]);
+    expect(history.at(-1)?.date).toEqual(new Date(2026, 2, 10));
+  });
+});
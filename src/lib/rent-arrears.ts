@@ -0,0 +1,238 @@
+import { differenceInCalendarDays, endOfDay, endOfMonth, isAfter, isBefore, startOfDay, startOfMonth } from 'date-fns';
+import {
+  buildRentLedger,
+  toLedgerPayment,
+  toRentCharge,
+  type RentCharge,
+  type RentLedger,
+  type RentLedgerPayment,
+} from '@/lib/rent-ledger';
+import { poundsOf, roundMoney } from '@/lib/money';
+import { RENTERS_RIGHTS_COMMENCEMENT } from '@/lib/renters-rights';
+import { safeToDate } from '@/lib/date-utils';
+
+/**
+ * @fileOverview Rent Arrears Engine
+ * Derives days overdue and arrears per tenancy from the rent ledger, classifies
+ * each tenancy into a configurable escalation stage and flags the Section 8
+ * Ground 8 threshold (three months' rent, or thirteen weeks where weekly, from
+ * 1 May 2026; two months or eight weeks before then).
+ */
+
+export type ArrearsStage = 'clear' | 'friendly' | 'formal' | 'final' | 'legal';
+
+export interface ArrearsStageConfig {
+  friendlyReminderDays: number;
+  formalReminderDays: number;
+  finalNoticeDays: number;
+  legalThresholdDays: number;
+}
+
+export const DEFAULT_ARREARS_STAGES: ArrearsStageConfig = {
+  friendlyReminderDays: 1,
+  formalReminderDays: 14,
+  finalNoticeDays: 28,
+  legalThresholdDays: 56,
+};
+
+export const ARREARS_STAGE_LABELS: Record<ArrearsStage, string> = {
+  clear: 'Up To Date',
+  friendly: 'Friendly Reminder',
+  formal: 'Formal Reminder',
+  final: 'Final Notice',
+  legal: 'Legal Threshold',
+};
+
+/** Tenant fields the engine reads; matches the `tenants` collection shape. */
+export interface ArrearsTenancy {
+  id: string;
+  propertyId: string;
+  landlordId: string;
+  monthlyRent?: number;
+  rentDueDay?: number;
+  tenancyStartDate?: any;
+  tenancyEndDate?: any;
+}
+
+/** Tenancy fields used to attribute payments that carry no tenantId. */
+export type TenancyPeriod = Pick<ArrearsTenancy, 'id' | 'propertyId' | 'tenancyStartDate' | 'tenancyEndDate'>;
+
+export interface ArrearsAssessment {
+  tenantId: string;
+  propertyId: string;
+  arrears: number;
+  daysOverdue: number;
+  oldestUnpaidDueDate: Date | null;
+  /** Arrears expressed as a multiple of the monthly rent. */
+  monthsInArrears: number;
+  stage: ArrearsStage;
+  section8Threshold: number;
+  section8Met: boolean;
+  ledger: RentLedger;
+}
+
+export interface ArrearsHistoryPoint {
+  date: Date;
+  arrears: number;
+  daysOverdue: number;
+  stage: ArrearsStage;
+  section8Met: boolean;
+}
+
+/**
+ * Merges a stored (possibly partial) configuration over the defaults and keeps
+ * the stages in ascending order so a later stage never triggers before an earlier one.
+ */
+export function resolveArrearsConfig(raw?: Partial<ArrearsStageConfig> | null): ArrearsStageConfig {
+  const merged = { ...DEFAULT_ARREARS_STAGES, ...(raw || {}) };
+  const friendly = Math.max(0, Number(merged.friendlyReminderDays) || 0);
+  const formal = Math.max(friendly, Number(merged.formalReminderDays) || 0);
+  const final = Math.max(formal, Number(merged.finalNoticeDays) || 0);
+  const legal = Math.max(final, Number(merged.legalThresholdDays) || 0);
+  return { friendlyReminderDays: friendly, formalReminderDays: formal, finalNoticeDays: final, legalThresholdDays: legal };
+}
+
+/**
+ * Ground 8 threshold: three months' rent where rent is payable monthly, thirteen
+ * weeks where weekly, since the Renters' Rights Act; two months or eight weeks
+ * before it. Weekly tenancies return the annualised equivalent.
+ */
+export function section8Threshold(monthlyRent: number, frequency: 'monthly' | 'weekly' = 'monthly', asOf: Date = new Date()): number {
+  const reformed = !isBefore(startOfDay(asOf), RENTERS_RIGHTS_COMMENCEMENT);
+  if (frequency === 'weekly') return roundMoney(((monthlyRent * 12) / 52) * (reformed ? 13 : 8));
+  return roundMoney(monthlyRent * (reformed ? 3 : 2));
+}
+
+export function classifyArrearsStage(
+  arrears: number,
+  daysOverdue: number,
+  section8Met: boolean,
+  config: ArrearsStageConfig = DEFAULT_ARREARS_STAGES
+): ArrearsStage {
+  if (arrears <= 0) return 'clear';
+  if (section8Met || daysOverdue >= config.legalThresholdDays) return 'legal';
+  if (daysOverdue >= config.finalNoticeDays) return 'final';
+  if (daysOverdue >= config.formalReminderDays) return 'formal';
+  if (daysOverdue >= config.friendlyReminderDays) return 'friendly';
+  return 'clear';
+}
+
+/** Legacy rows recorded by month only are matched against the months the tenancy spans. */
+function coversPayment(tenancy: TenancyPeriod, paidDate: Date, monthOnly: boolean): boolean {
+  const start = safeToDate(tenancy.tenancyStartDate);
+  const end = safeToDate(tenancy.tenancyEndDate);
+  const from = start && (monthOnly ? startOfMonth(start) : startOfDay(start));
+  const to = end && (monthOnly ? endOfMonth(end) : endOfDay(end));
+  return (!from || !isBefore(paidDate, from)) && (!to || !isAfter(paidDate, to));
+}
+
+/**
+ * The tenancy a `rentPayments` row belongs to. Legacy rows carry no tenantId and
+ * are attributed only when exactly one tenancy at the property covers the payment
+ * date; on a multi-let they stay unallocated rather than credit every tenant.
+ */
+export function paymentTenancyId(payment: any, tenancies: TenancyPeriod[]): string | null {
+  if (payment.tenantId) return payment.tenantId;
+  const paid = toLedgerPayment(payment);
+  if (!paid) return null;
+  const monthOnly = !safeToDate(payment.paidDate);
+  const covering = tenancies.filter(t => t.propertyId === payment.propertyId && coversPayment(t, paid.paidDate, monthOnly));
+  return covering.length === 1 ? covering[0].id : null;
+}
+
+/** Payments with no tenantId that cannot be attributed to a single tenancy. */
+export function unallocatedPayments(paymentDocs: any[], tenancies: TenancyPeriod[]): any[] {
+  return paymentDocs.filter(p => !p.tenantId && toLedgerPayment(p) !== null && paymentTenancyId(p, tenancies) === null);
+}
+
+/** Selects the `rentPayments` rows that belong to a tenancy. */
+export function paymentsForTenancy(tenant: Pick<ArrearsTenancy, 'id' | 'rentDueDay'>, paymentDocs: any[], tenancies: TenancyPeriod[]): RentLedgerPayment[] {
+  return paymentDocs
+    .filter(p => paymentTenancyId(p, tenancies) === tenant.id)
+    .map(p => toLedgerPayment(p, tenant.rentDueDay || 1))
+    .filter((p): p is RentLedgerPayment => p !== null);
+}
+
+/**
+ * The persisted `rentCharges` schedule for a tenancy. Tenancies with no schedule
+ * yet have no charges: rebuilding one from the tenancy start would count every
+ * month before the landlord used the ledger as unpaid.
+ */
+export function chargesForTenancy(tenant: ArrearsTenancy, chargeDocs: any[]): RentCharge[] {
+  return chargeDocs
+    .filter(c => c.tenantId === tenant.id)
+    .map(toRentCharge)
+    .filter((c): c is RentCharge => c !== null);
+}
+
+function measure(ledger: RentLedger, monthlyRent: number, asOf: Date, config: ArrearsStageConfig) {
+  const today = startOfDay(asOf);
+  const oldestUnpaid = ledger.charges.find(a => a.outstanding > 0 && !isAfter(a.charge.dueDate, today));
+  const daysOverdue = oldestUnpaid ? differenceInCalendarDays(today, oldestUnpaid.charge.dueDate) : 0;
+  const threshold = section8Threshold(monthlyRent, 'monthly', asOf);
+  const section8Met = monthlyRent > 0 && ledger.arrears >= threshold;
+
+  return {
+    arrears: ledger.arrears,
+    daysOverdue,
+    oldestUnpaidDueDate: oldestUnpaid?.charge.dueDate ?? null,
+    section8Threshold: threshold,
+    section8Met,
+    stage: classifyArrearsStage(ledger.arrears, daysOverdue, section8Met, config),
+  };
+}
+
+/** Assesses the current arrears position of a single tenancy. */
+export function assessArrears(
+  tenant: ArrearsTenancy,
+  chargeDocs: any[],
+  paymentDocs: any[],
+  tenancies: TenancyPeriod[],
+  config: ArrearsStageConfig = DEFAULT_ARREARS_STAGES,
+  asOf: Date = new Date()
+): ArrearsAssessment {
+  const monthlyRent = poundsOf(tenant, 'monthlyRent');
+  const ledger = buildRentLedger(chargesForTenancy(tenant, chargeDocs), paymentsForTenancy(tenant, paymentDocs, tenancies), asOf);
+  const metrics = measure(ledger, monthlyRent, asOf, config);
+
+  return {
+    tenantId: tenant.id,
+    propertyId: tenant.propertyId,
+    ...metrics,
+    monthsInArrears: monthlyRent > 0 ? Math.round((metrics.arrears / monthlyRent) * 100) / 100 : 0,
+    ledger,
+  };
+}
+
+/**
+ * Replays the ledger at each rent due date (and today) to show how the arrears
+ * position and escalation stage developed over the tenancy.
+ */
+export function buildArrearsHistory(
+  tenant: ArrearsTenancy,
+  chargeDocs: any[],
+  paymentDocs: any[],
+  tenancies: TenancyPeriod[],
+  config: ArrearsStageConfig = DEFAULT_ARREARS_STAGES,
+  asOf: Date = new Date()
+): ArrearsHistoryPoint[] {
+  const monthlyRent = poundsOf(tenant, 'monthlyRent');
+  const today = startOfDay(asOf);
+  const charges = chargesForTenancy(tenant, chargeDocs);
+  const payments = paymentsForTenancy(tenant, paymentDocs, tenancies);
+
+  const checkpoints = charges
+    .map(c => c.dueDate)
+    .filter(d => !isAfter(d, today));
+  if (!checkpoints.some(d => d.getTime() === today.getTime())) checkpoints.push(today);
+
+  return checkpoints.map(point => {
+    const ledger = buildRentLedger(
+      charges.filter(c => !isAfter(c.dueDate, point)),
+      payments.filter(p => !isAfter(p.paidDate, point)),
+      point
+    );
+    const { arrears, daysOverdue, stage, section8Met } = measure(ledger, monthlyRent, point, config);
+    return { date: point, arrears, daysOverdue, stage, section8Met };
+  });
+}
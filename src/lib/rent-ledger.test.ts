@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildRentLedger,
+  generateRentSchedule,
+  resolveDueDate,
+  sliceRentLedger,
+  toLedgerPayment,
+  toRentCharge,
+  type RentCharge,
+} from '@/lib/rent-ledger';
+
+const terms = {
+  tenantId: 't1',
+  propertyId: 'p1',
+  landlordId: 'l1',
+  monthlyRent: 1000,
+  rentDueDay: 1,
+  tenancyStartDate: new Date(2024, 0, 15),
+  tenancyEndDate: new Date(2024, 2, 31),
+};
+
+const charge = (id: string, dueDate: Date, amount: number): RentCharge => ({
+  id, tenantId: 't1', propertyId: 'p1', dueDate, periodStart: dueDate, periodEnd: dueDate, amount, description: 'Rent',
+});
+
+describe('resolveDueDate', () => {
+  it('clamps the due day to the length of the month', () => {
+    expect(resolveDueDate(2024, 1, 31)).toEqual(new Date(2024, 1, 29));
+    expect(resolveDueDate(2023, 1, 31)).toEqual(new Date(2023, 1, 28));
+    expect(resolveDueDate(2024, 3, 15)).toEqual(new Date(2024, 3, 15));
+  });
+});
+
+describe('generateRentSchedule', () => {
+  it('charges a pro-rata stub up to the first due date, then whole months', () => {
+    const charges = generateRentSchedule(terms);
+    expect(charges.map(c => c.amount)).toEqual([558.9, 1000, 1000]);
+    expect(charges[0].description).toBe('Pro-rata rent (17 days)');
+    expect(charges[0].periodEnd).toEqual(new Date(2024, 0, 31));
+    expect(charges[1].dueDate).toEqual(new Date(2024, 1, 1));
+    expect(charges[2].periodEnd).toEqual(new Date(2024, 2, 31));
+  });
+
+  it('pro-rates a final period cut short by the end date', () => {
+    const charges = generateRentSchedule({ ...terms, tenancyEndDate: new Date(2024, 2, 15) });
+    expect(charges.at(-1)?.amount).toBe(493.15);
+    expect(charges.at(-1)?.description).toBe('Pro-rata rent (15 days)');
+  });
+
+  it('needs no stub when the tenancy starts on the due day', () => {
+    const charges = generateRentSchedule({ ...terms, tenancyStartDate: new Date(2024, 0, 1) });
+    expect(charges.map(c => c.amount)).toEqual([1000, 1000, 1000]);
+  });
+
+  it('schedules nothing without a start date or rent', () => {
+    expect(generateRentSchedule({ ...terms, tenancyStartDate: undefined })).toEqual([]);
+    expect(generateRentSchedule({ ...terms, monthlyRent: 0 })).toEqual([]);
+  });
+});
+
+describe('buildRentLedger', () => {
+  const charges = [
+    charge('c1', new Date(2024, 0, 1), 1000),
+    charge('c2', new Date(2024, 1, 1), 1000),
+    charge('c3', new Date(2024, 2, 1), 1000),
+  ];
+  const asOf = new Date(2024, 1, 10);
+
+  it('allocates payments to the oldest charges first', () => {
+    const ledger = buildRentLedger(charges, [{ id: 'p1', amount: 1500, paidDate: new Date(2024, 0, 5) }], asOf);
+    expect(ledger.charges.map(a => a.status)).toEqual(['Paid', 'Partially Paid', 'Pending']);
+    expect(ledger.charges[1].outstanding).toBe(500);
+    expect(ledger.arrears).toBe(500);
+    expect(ledger.balance).toBe(1500);
+    expect(ledger.entries.map(e => e.balance)).toEqual([1000, -500, 500, 1500]);
+  });
+
+  it('carries an overpayment forward as credit', () => {
+    const ledger = buildRentLedger(charges, [{ id: 'p1', amount: 3500, paidDate: new Date(2024, 0, 5) }], asOf);
+    expect(ledger.credit).toBe(500);
+    expect(ledger.arrears).toBe(0);
+    expect(ledger.balance).toBe(-500);
+  });
+
+  it('slices a statement period with brought-forward and carried-forward balances', () => {
+    const ledger = buildRentLedger(charges, [{ id: 'p1', amount: 1500, paidDate: new Date(2024, 0, 5) }], asOf);
+    const period = sliceRentLedger(ledger, new Date(2024, 1, 1), new Date(2024, 1, 29));
+    expect(period.openingBalance).toBe(-500);
+    expect(period.closingBalance).toBe(500);
+    expect(period.charged).toBe(1000);
+    expect(period.paid).toBe(0);
+    expect(period.charges.map(a => a.charge.id)).toEqual(['c2']);
+  });
+});
+
+describe('toLedgerPayment', () => {
+  it('dates a legacy month-only payment at that month\'s due day', () => {
+    const payment = toLedgerPayment({ id: 'p1', amountPaid: 950, month: 'March', year: 2024 }, 15);
+    expect(payment?.paidDate).toEqual(new Date(2024, 2, 15));
+    expect(payment?.amount).toBe(950);
+  });
+
+  it('prefers the pence field and skips empty payments', () => {
+    expect(toLedgerPayment({ id: 'p1', amountPaid: 1, amountPaidPence: 12345, paidDate: '2024-03-02' })?.amount).toBe(123.45);
+    expect(toLedgerPayment({ id: 'p1', amountPaid: 0, paidDate: '2024-03-02' })).toBeNull();
+  });
+});
+
+describe('toRentCharge', () => {
+  it('rehydrates a stored charge, skipping one with no due date', () => {
+    const stored = toRentCharge({ id: 'c1', tenantId: 't1', propertyId: 'p1', dueDate: '2024-03-01', amount: 1000, amountPence: 100000 });
+    expect(stored?.amount).toBe(1000);
+    expect(stored?.description).toBe('Rent');
+    expect(toRentCharge({ id: 'c1', amount: 1000 })).toBeNull();
+  });
+});
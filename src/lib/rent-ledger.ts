@@ -0,0 +1,344 @@
+import {
+  Firestore,
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  isAfter,
+  isBefore,
+  startOfDay,
+} from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { poundsOf, roundMoney, sumMoney, toPence } from '@/lib/money';
+
+/**
+ * @fileOverview Automated Rent Ledger Engine
+ * Generates dated rent charges for a tenancy term, allocates recorded payments
+ * against them (oldest charge first, surplus carried forward as credit) and
+ * produces a running balance per tenancy.
+ */
+
+export type RentChargeStatus = 'Paid' | 'Partially Paid' | 'Unpaid' | 'Pending';
+
+/** The subset of a tenant record that drives the rent schedule. */
+export interface RentTenancyTerms {
+  tenantId: string;
+  propertyId: string;
+  landlordId: string;
+  monthlyRent: number;
+  rentDueDay: number;
+  tenancyStartDate: any;
+  tenancyEndDate?: any;
+}
+
+export interface RentCharge {
+  id: string;
+  tenantId: string;
+  propertyId: string;
+  dueDate: Date;
+  periodStart: Date;
+  periodEnd: Date;
+  amount: number;
+  description: string;
+}
+
+export interface RentLedgerPayment {
+  id: string;
+  amount: number;
+  paidDate: Date;
+  reference?: string;
+  method?: string;
+}
+
+export interface RentChargeAllocation {
+  charge: RentCharge;
+  allocated: number;
+  outstanding: number;
+  status: RentChargeStatus;
+}
+
+export interface RentLedgerEntry {
+  id: string;
+  date: Date;
+  kind: 'charge' | 'payment';
+  description: string;
+  debit: number;
+  credit: number;
+  /** Running balance after this entry. Positive = arrears, negative = credit. */
+  balance: number;
+}
+
+export interface RentLedger {
+  entries: RentLedgerEntry[];
+  charges: RentChargeAllocation[];
+  totalCharged: number;
+  totalPaid: number;
+  /** Positive = arrears owed by the tenant, negative = credit held. */
+  balance: number;
+  /** Charges already due as at the ledger date, less payments received. */
+  arrears: number;
+  /** Unallocated payment surplus carried forward to future charges. */
+  credit: number;
+}
+
+export interface RentLedgerPeriod {
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  closingBalance: number;
+  charged: number;
+  paid: number;
+  entries: RentLedgerEntry[];
+  charges: RentChargeAllocation[];
+}
+
+// Rolling horizon for periodic tenancies with no agreed end date.
+const PERIODIC_HORIZON_MONTHS = 12;
+
+/**
+ * Resolves the due date for a given month, clamping the due day to the
+ * month's length (e.g. a 31st due day falls on 28/29 Feb).
+ */
+export function resolveDueDate(year: number, monthIndex: number, dueDay: number): Date {
+  const days = getDaysInMonth(new Date(year, monthIndex, 1));
+  return new Date(year, monthIndex, Math.min(Math.max(dueDay, 1), days));
+}
+
+/** Daily rate on the standard annualised basis (monthly x 12 / 365). */
+export function dailyRentRate(monthlyRent: number): number {
+  return (monthlyRent * 12) / 365;
+}
+
+/**
+ * Generates the dated charge schedule for a tenancy.
+ * A start date that does not fall on the due day produces a pro-rata first charge
+ * up to the first regular due date; a final period cut short by the end date is
+ * likewise pro-rated. Periodic tenancies are scheduled to a rolling horizon.
+ */
+export function generateRentSchedule(terms: RentTenancyTerms, horizon?: Date): RentCharge[] {
+  const start = safeToDate(terms.tenancyStartDate);
+  const rent = roundMoney(terms.monthlyRent);
+  if (!start || rent <= 0) return [];
+
+  const dueDay = Number(terms.rentDueDay) || 1;
+  const tenancyStart = startOfDay(start);
+  const explicitEnd = safeToDate(terms.tenancyEndDate);
+  const end = explicitEnd
+    ? startOfDay(explicitEnd)
+    : startOfDay(horizon ?? addMonths(isAfter(new Date(), tenancyStart) ? new Date() : tenancyStart, PERIODIC_HORIZON_MONTHS));
+
+  const charges: RentCharge[] = [];
+  const pushCharge = (periodStart: Date, periodEnd: Date, amount: number, label: string) => {
+    charges.push({
+      id: `${terms.tenantId}-${format(periodStart, 'yyyy-MM-dd')}`,
+      tenantId: terms.tenantId,
+      propertyId: terms.propertyId,
+      dueDate: periodStart,
+      periodStart,
+      periodEnd,
+      amount: roundMoney(amount),
+      description: label,
+    });
+  };
+
+  // First regular due date on or after the tenancy start
+  let cursor = resolveDueDate(tenancyStart.getFullYear(), tenancyStart.getMonth(), dueDay);
+  if (isBefore(cursor, tenancyStart)) {
+    const next = addMonths(tenancyStart, 1);
+    cursor = resolveDueDate(next.getFullYear(), next.getMonth(), dueDay);
+  }
+
+  if (isAfter(cursor, tenancyStart)) {
+    const stubEnd = isBefore(addDays(cursor, -1), end) ? addDays(cursor, -1) : end;
+    const days = differenceInCalendarDays(stubEnd, tenancyStart) + 1;
+    pushCharge(tenancyStart, stubEnd, dailyRentRate(rent) * days, `Pro-rata rent (${days} days)`);
+  }
+
+  while (!isAfter(cursor, end)) {
+    const following = addMonths(cursor, 1);
+    const nextDue = resolveDueDate(following.getFullYear(), following.getMonth(), dueDay);
+    const fullPeriodEnd = addDays(nextDue, -1);
+
+    if (isAfter(fullPeriodEnd, end)) {
+      const days = differenceInCalendarDays(end, cursor) + 1;
+      pushCharge(cursor, end, dailyRentRate(rent) * days, `Pro-rata rent (${days} days)`);
+    } else {
+      pushCharge(cursor, fullPeriodEnd, rent, `Rent ${format(cursor, 'd MMM')} - ${format(fullPeriodEnd, 'd MMM yyyy')}`);
+    }
+    cursor = nextDue;
+  }
+
+  return charges;
+}
+
+/**
+ * Normalises a `rentPayments` document into a ledger payment.
+ * Legacy month-by-month rows (no `paidDate`) are dated at that month's due date.
+ */
+export function toLedgerPayment(record: any, rentDueDay = 1): RentLedgerPayment | null {
+  const amount = poundsOf(record, 'amountPaid');
+  if (amount <= 0) return null;
+
+  let paidDate = safeToDate(record.paidDate);
+  if (!paidDate && record.month && record.year) {
+    const monthIndex = new Date(`${record.month} 1, ${record.year}`).getMonth();
+    if (!isNaN(monthIndex)) paidDate = resolveDueDate(Number(record.year), monthIndex, rentDueDay);
+  }
+  if (!paidDate) return null;
+
+  return {
+    id: record.id,
+    amount: roundMoney(amount),
+    paidDate: startOfDay(paidDate),
+    reference: record.reference,
+    method: record.method,
+  };
+}
+
+/**
+ * Allocates payments to charges (oldest first) and produces the running ledger.
+ * Over-payments leave a credit that settles later charges as they fall due;
+ * under-payments leave the charge Partially Paid until further funds arrive.
+ */
+export function buildRentLedger(charges: RentCharge[], payments: RentLedgerPayment[], asOf: Date = new Date()): RentLedger {
+  const sortedCharges = [...charges].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+  const sortedPayments = [...payments].sort((a, b) => a.paidDate.getTime() - b.paidDate.getTime());
+
+  const totalCharged = sumMoney(sortedCharges.map(c => c.amount));
+  const totalPaid = sumMoney(sortedPayments.map(p => p.amount));
+
+  let pool = totalPaid;
+  const today = startOfDay(asOf);
+  const allocations: RentChargeAllocation[] = sortedCharges.map(charge => {
+    const allocated = roundMoney(Math.min(pool, charge.amount));
+    pool = roundMoney(pool - allocated);
+    const outstanding = roundMoney(charge.amount - allocated);
+
+    let status: RentChargeStatus = 'Unpaid';
+    if (outstanding <= 0) status = 'Paid';
+    else if (allocated > 0) status = 'Partially Paid';
+    else if (isAfter(charge.dueDate, today)) status = 'Pending';
+
+    return { charge, allocated, outstanding, status };
+  });
+
+  // Charges sort ahead of payments on the same day so the balance reads naturally
+  const events = [
+    ...sortedCharges.map(c => ({ id: c.id, date: c.dueDate, kind: 'charge' as const, description: c.description, debit: c.amount, credit: 0 })),
+    ...sortedPayments.map(p => ({ id: p.id, date: p.paidDate, kind: 'payment' as const, description: p.reference ? `Payment received (${p.reference})` : 'Payment received', debit: 0, credit: p.amount })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime() || (a.kind === b.kind ? 0 : a.kind === 'charge' ? -1 : 1));
+
+  let running = 0;
+  const entries: RentLedgerEntry[] = events.map(e => {
+    running = roundMoney(running + e.debit - e.credit);
+    return { ...e, balance: running };
+  });
+
+  const dueToDate = sumMoney(sortedCharges.filter(c => !isAfter(c.dueDate, today)).map(c => c.amount));
+  const arrears = roundMoney(Math.max(0, dueToDate - totalPaid));
+
+  return {
+    entries,
+    charges: allocations,
+    totalCharged,
+    totalPaid,
+    balance: roundMoney(totalCharged - totalPaid),
+    arrears,
+    credit: pool,
+  };
+}
+
+/**
+ * Extracts a statement window from a ledger with brought-forward and
+ * carried-forward balances.
+ */
+export function sliceRentLedger(ledger: RentLedger, from: Date, to: Date): RentLedgerPeriod {
+  const before = ledger.entries.filter(e => isBefore(e.date, from));
+  const within = ledger.entries.filter(e => !isBefore(e.date, from) && !isAfter(e.date, to));
+  const openingBalance = before.length ? before[before.length - 1].balance : 0;
+  const closingBalance = within.length ? within[within.length - 1].balance : openingBalance;
+
+  return {
+    from,
+    to,
+    openingBalance,
+    closingBalance,
+    charged: sumMoney(within.map(e => e.debit)),
+    paid: sumMoney(within.map(e => e.credit)),
+    entries: within,
+    charges: ledger.charges.filter(a => !isBefore(a.charge.dueDate, from) && !isAfter(a.charge.dueDate, to)),
+  };
+}
+
+/** Rehydrates a persisted `rentCharges` document. */
+export function toRentCharge(record: any): RentCharge | null {
+  const dueDate = safeToDate(record?.dueDate);
+  if (!dueDate) return null;
+  return {
+    id: record.id,
+    tenantId: record.tenantId,
+    propertyId: record.propertyId,
+    dueDate: startOfDay(dueDate),
+    periodStart: safeToDate(record.periodStart) || dueDate,
+    periodEnd: safeToDate(record.periodEnd) || dueDate,
+    amount: poundsOf(record, 'amount'),
+    description: record.description || 'Rent',
+  };
+}
+
+/**
+ * Persists the schedule into `rentCharges` using deterministic IDs so the call
+ * is idempotent. Charges already due are left untouched; future charges are
+ * rewritten to reflect amended terms and any beyond a shortened term are removed.
+ */
+export async function syncRentSchedule(firestore: Firestore, terms: RentTenancyTerms): Promise<number> {
+  const schedule = generateRentSchedule(terms);
+  const today = startOfDay(new Date());
+
+  const existingSnap = await getDocs(query(
+    collection(firestore, 'rentCharges'),
+    where('landlordId', '==', terms.landlordId),
+    where('tenantId', '==', terms.tenantId)
+  ));
+  const existing = new Map(existingSnap.docs.map(d => [d.id, safeToDate(d.data().dueDate)]));
+  const scheduledIds = new Set(schedule.map(c => c.id));
+
+  const batch = writeBatch(firestore);
+  let writes = 0;
+
+  schedule.forEach(charge => {
+    if (existing.has(charge.id) && isBefore(charge.dueDate, today)) return;
+    batch.set(doc(firestore, 'rentCharges', charge.id), {
+      landlordId: terms.landlordId,
+      propertyId: terms.propertyId,
+      tenantId: terms.tenantId,
+      dueDate: charge.dueDate,
+      periodStart: charge.periodStart,
+      periodEnd: charge.periodEnd,
+      amount: charge.amount,
+      amountPence: toPence(charge.amount),
+      description: charge.description,
+      updatedDate: new Date().toISOString(),
+    });
+    writes++;
+  });
+
+  existing.forEach((dueDate, id) => {
+    if (!scheduledIds.has(id) && dueDate && !isBefore(dueDate, today)) {
+      batch.delete(doc(firestore, 'rentCharges', id));
+      writes++;
+    }
+  });
+
+  if (writes > 0) await batch.commit();
+  return writes;
+}
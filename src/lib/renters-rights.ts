@@ -0,0 +1,368 @@
+import { Firestore, doc, updateDoc } from 'firebase/firestore';
+import { addDays, addMonths, differenceInCalendarMonths, format, isAfter, isBefore, startOfDay, subMonths } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { compact, newEntryId } from '@/lib/firestore-utils';
+import { nationOf } from '@/lib/compliance-rules';
+import { toRentCharge, type RentCharge } from '@/lib/rent-ledger';
+import type { ArrearsAssessment } from '@/lib/rent-arrears';
+import type { ServiceEvent } from '@/lib/document-service';
+import type { DocumentType } from '@/lib/document-types';
+
+/**
+ * @fileOverview Renters' Rights Act Readiness
+ * Checks each tenancy in England against the changes the Renters' Rights Act
+ * brings in from 1 May 2026: fixed terms become periodic, Section 21 goes,
+ * possession relies on the revised Section 8 grounds and notice periods, rent
+ * rises once a year by Section 13 notice, pet requests must be answered in time,
+ * and the Decent Homes Standard is extended to private lets. Tenancies in Wales,
+ * Scotland and Northern Ireland are outside the Act.
+ */
+
+export const RENTERS_RIGHTS_COMMENCEMENT = new Date(2026, 4, 1);
+
+/** Tenancies that existed at commencement must have been given the government information sheet by this date. */
+export const INFORMATION_SHEET_DEADLINE = new Date(2026, 4, 31);
+
+export const INFORMATION_SHEET_TYPE: DocumentType = "Renters' Rights Information Sheet";
+
+/** Landlord must answer a pet request within 28 days, or 7 days after receiving further information asked for. */
+export const PET_REQUEST_RESPONSE_DAYS = 28;
+export const PET_INFO_RESPONSE_DAYS = 7;
+
+export const SECTION_13_NOTICE_MONTHS = 2;
+/** Moving in or selling (Grounds 1 and 1A) cannot be used in the first year and need four months' notice. */
+export const LANDLORD_GROUND_PROTECTED_MONTHS = 12;
+export const LANDLORD_GROUND_NOTICE_MONTHS = 4;
+export const GROUND_8_NOTICE_WEEKS = 4;
+
+export type ReadinessArea = 'periodic' | 'information' | 'section21' | 'possession' | 'rentIncrease' | 'pets' | 'decentHomes';
+export type ReadinessItemStatus = 'ok' | 'action' | 'overdue' | 'info';
+export type TenancyReadinessStatus = 'ready' | 'action_needed' | 'overdue' | 'not_applicable';
+
+export const READINESS_AREA_LABELS: Record<ReadinessArea, string> = {
+  periodic: 'Periodic Tenancy',
+  information: 'Written Terms & Information Sheet',
+  section21: 'Section 21 Abolished',
+  possession: 'Possession Grounds',
+  rentIncrease: 'Rent Increases (Section 13)',
+  pets: 'Pet Requests',
+  decentHomes: 'Decent Homes Standard',
+};
+
+export const READINESS_ITEM_STATUS_LABELS: Record<ReadinessItemStatus, string> = {
+  ok: 'Ready',
+  action: 'Action Needed',
+  overdue: 'Overdue',
+  info: 'For Information',
+};
+
+export const TENANCY_READINESS_LABELS: Record<TenancyReadinessStatus, string> = {
+  ready: 'Ready',
+  action_needed: 'Action Needed',
+  overdue: 'Overdue',
+  not_applicable: 'Not Applicable',
+};
+
+export type PetDecision = 'pending' | 'info_requested' | 'approved' | 'refused';
+
+export const PET_DECISION_LABELS: Record<PetDecision, string> = {
+  pending: 'Awaiting Decision',
+  info_requested: 'Information Requested',
+  approved: 'Approved',
+  refused: 'Refused',
+};
+
+/** Stored on the tenant record as `petRequests`. */
+export interface PetRequest {
+  id: string;
+  requestedDate: string;
+  description: string;
+  decision: PetDecision;
+  infoRequestedDate?: string;
+  infoReceivedDate?: string;
+  decisionDate?: string;
+  /** Reason given for a refusal; consent cannot be unreasonably withheld. */
+  reason?: string;
+}
+
+export interface ReadinessTenancy {
+  id: string;
+  propertyId?: string;
+  tenancyStartDate?: any;
+  tenancyEndDate?: any;
+  petRequests?: PetRequest[];
+}
+
+export interface ReadinessRecords {
+  /** The property's postcode decides whether the Act applies. */
+  postcode?: string;
+  rentCharges: any[];
+  serviceEvents: ServiceEvent[];
+  /** Repairs on the property; completed and cancelled ones are ignored. */
+  repairs: any[];
+  inspections: any[];
+  arrears?: Pick<ArrearsAssessment, 'arrears' | 'section8Met' | 'section8Threshold'> | null;
+}
+
+export interface ReadinessItem {
+  area: ReadinessArea;
+  label: string;
+  status: ReadinessItemStatus;
+  detail: string;
+  /** What the landlord needs to do, for `action` and `overdue` items. */
+  action?: string;
+  dueDate?: Date | null;
+}
+
+export interface TenancyReadiness {
+  tenantId: string;
+  status: TenancyReadinessStatus;
+  items: ReadinessItem[];
+  outstanding: ReadinessItem[];
+}
+
+const OPEN_REPAIR_EXCLUDED = ['Completed', 'Cancelled'];
+const SERIOUS_PRIORITIES = ['Emergency', 'Urgent'];
+
+export function newPetRequestId(): string {
+  return newEntryId('pet');
+}
+
+/**
+ * Date a pet request must be answered by. Asking for more information restarts
+ * the clock once it arrives; while it is awaited there is no deadline.
+ */
+export function petResponseDeadline(request: PetRequest): Date | null {
+  if (request.decision === 'info_requested') {
+    const received = safeToDate(request.infoReceivedDate);
+    return received ? addDays(startOfDay(received), PET_INFO_RESPONSE_DAYS) : null;
+  }
+  const requested = safeToDate(request.requestedDate);
+  return requested ? addDays(startOfDay(requested), PET_REQUEST_RESPONSE_DAYS) : null;
+}
+
+/** Effective dates of each rise in the regular charge, oldest first. A pro-rata first charge is ignored. */
+export function rentIncreaseDates(chargeDocs: any[]): Date[] {
+  const charges = chargeDocs
+    .map(toRentCharge)
+    .filter((c): c is RentCharge => c !== null)
+    .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  const increases: Date[] = [];
+  for (let i = 2; i < charges.length; i++) {
+    if (charges[i].amount > charges[i - 1].amount) increases.push(charges[i].periodStart);
+  }
+  return increases;
+}
+
+function periodicItem(tenant: ReadinessTenancy): ReadinessItem {
+  const end = safeToDate(tenant.tenancyEndDate);
+  if (end) {
+    return {
+      area: 'periodic',
+      label: READINESS_AREA_LABELS.periodic,
+      status: 'action',
+      detail: 'Fixed terms no longer apply; the tenancy runs on as periodic until the tenant gives two months\' notice or possession is ordered.',
+      action: 'Remove the fixed-term end date so rent keeps being charged after it.',
+    };
+  }
+  return {
+    area: 'periodic',
+    label: READINESS_AREA_LABELS.periodic,
+    status: 'ok',
+    detail: 'Periodic tenancy with no end date. The tenant can end it with two months\' notice.',
+  };
+}
+
+function informationItem(tenant: ReadinessTenancy, start: Date | null, events: ServiceEvent[], today: Date): ReadinessItem {
+  const servedOn = (type: string) => events.find(e => e.kind === 'served' && e.documentType === type && e.tenantIds?.includes(tenant.id));
+  const base = { area: 'information' as const, label: READINESS_AREA_LABELS.information };
+
+  if (start && isBefore(start, RENTERS_RIGHTS_COMMENCEMENT)) {
+    const served = servedOn(INFORMATION_SHEET_TYPE);
+    if (served) return { ...base, status: 'ok', detail: 'Government information sheet served on the tenant.', dueDate: safeToDate(served.occurredAt) };
+    const late = isAfter(startOfDay(today), INFORMATION_SHEET_DEADLINE);
+    return {
+      ...base,
+      status: late ? 'overdue' : 'action',
+      detail: 'Tenancies that existed on 1 May 2026 must be given the government\'s Renters\' Rights Act information sheet by 31 May 2026.',
+      action: `Upload the information sheet as a "${INFORMATION_SHEET_TYPE}" document and record serving it on the tenant.`,
+      dueDate: INFORMATION_SHEET_DEADLINE,
+    };
+  }
+
+  if (servedOn('Tenancy Agreement')) return { ...base, status: 'ok', detail: 'Written statement of terms served on the tenant.' };
+  return {
+    ...base,
+    status: 'action',
+    detail: 'New tenancies need a written statement of terms given before the tenancy starts.',
+    action: 'Record serving the tenancy agreement on the tenant.',
+    dueDate: start,
+  };
+}
+
+function possessionItem(start: Date | null, arrears: ReadinessRecords['arrears']): ReadinessItem {
+  const landlordGroundsFrom = start ? addMonths(start, LANDLORD_GROUND_PROTECTED_MONTHS) : null;
+  const detail = [
+    landlordGroundsFrom
+      ? `Moving in or selling (Grounds 1 and 1A) can be relied on from ${format(landlordGroundsFrom, 'dd/MM/yyyy')}, with ${LANDLORD_GROUND_NOTICE_MONTHS} months' notice.`
+      : `Moving in or selling (Grounds 1 and 1A) cannot be used in the first year and need ${LANDLORD_GROUND_NOTICE_MONTHS} months' notice.`,
+    arrears?.section8Met
+      ? `Arrears of £${arrears.arrears.toFixed(2)} meet the Ground 8 threshold of three months' rent; ${GROUND_8_NOTICE_WEEKS} weeks' notice applies.`
+      : `Ground 8 needs three months' rent in arrears at notice and at the hearing, with ${GROUND_8_NOTICE_WEEKS} weeks' notice.`,
+  ].join(' ');
+  return { area: 'possession', label: READINESS_AREA_LABELS.possession, status: 'info', detail, dueDate: landlordGroundsFrom };
+}
+
+function rentIncreaseItem(start: Date | null, chargeDocs: any[], today: Date): ReadinessItem {
+  const base = { area: 'rentIncrease' as const, label: READINESS_AREA_LABELS.rentIncrease };
+  const increases = rentIncreaseDates(chargeDocs);
+
+  // An increase since commencement within a year of the previous one, or of the start, was not a valid Section 13 increase
+  const early = increases.find((date, i) => {
+    if (isBefore(date, RENTERS_RIGHTS_COMMENCEMENT)) return false;
+    const previous = i > 0 ? increases[i - 1] : start;
+    return previous ? differenceInCalendarMonths(date, previous) < 12 : false;
+  });
+  if (early) {
+    return {
+      ...base,
+      status: 'action',
+      detail: `Rent went up on ${format(early, 'dd/MM/yyyy')}, less than a year after the previous increase or the start of the tenancy.`,
+      action: 'Check the increase was made by Section 13 notice; rent can only go up once a year and the tenant can challenge it at tribunal.',
+      dueDate: early,
+    };
+  }
+
+  const last = increases[increases.length - 1];
+  const anchors = [last, start].filter((d): d is Date => !!d).map(d => addMonths(d, 12));
+  const earliest = anchors.length ? new Date(Math.max(...anchors.map(d => d.getTime()))) : null;
+  const nextIncrease = earliest && isBefore(earliest, startOfDay(today)) ? addMonths(startOfDay(today), SECTION_13_NOTICE_MONTHS) : earliest;
+  return {
+    ...base,
+    status: 'info',
+    detail: nextIncrease
+      ? `Next increase can take effect from ${format(nextIncrease, 'dd/MM/yyyy')}, by Section 13 notice served at least ${SECTION_13_NOTICE_MONTHS} months before (by ${format(subMonths(nextIncrease, SECTION_13_NOTICE_MONTHS), 'dd/MM/yyyy')}). Rent review clauses no longer apply.`
+      : `Rent can rise once a year by Section 13 notice served at least ${SECTION_13_NOTICE_MONTHS} months ahead.`,
+    dueDate: nextIncrease,
+  };
+}
+
+function petsItem(requests: PetRequest[], today: Date): ReadinessItem {
+  const base = { area: 'pets' as const, label: READINESS_AREA_LABELS.pets };
+  const open = requests.filter(r => r.decision === 'pending' || r.decision === 'info_requested');
+  const unexplained = requests.filter(r => r.decision === 'refused' && !r.reason);
+
+  const withDeadlines = open
+    .map(r => ({ request: r, deadline: petResponseDeadline(r) }))
+    .filter((r): r is { request: PetRequest; deadline: Date } => r.deadline !== null)
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime());
+  const first = withDeadlines[0];
+  if (first) {
+    const late = isBefore(first.deadline, startOfDay(today));
+    return {
+      ...base,
+      status: late ? 'overdue' : 'action',
+      detail: `${open.length} pet request(s) awaiting a decision. Requests must be answered within ${PET_REQUEST_RESPONSE_DAYS} days, or ${PET_INFO_RESPONSE_DAYS} days after further information arrives.`,
+      action: `Decide on the request for ${first.request.description}.`,
+      dueDate: first.deadline,
+    };
+  }
+  if (unexplained.length) {
+    return {
+      ...base,
+      status: 'action',
+      detail: 'Consent to a pet cannot be unreasonably refused.',
+      action: 'Record the reason each refused pet request was turned down.',
+    };
+  }
+  if (open.length) {
+    return { ...base, status: 'info', detail: 'Waiting for information asked of the tenant about their pet request.' };
+  }
+  return {
+    ...base,
+    status: 'ok',
+    detail: requests.length ? `${requests.length} pet request(s) answered.` : 'No pet requests on record.',
+  };
+}
+
+function decentHomesItem(tenant: ReadinessTenancy, records: ReadinessRecords, today: Date): ReadinessItem {
+  const base = { area: 'decentHomes' as const, label: READINESS_AREA_LABELS.decentHomes };
+  const serious = records.repairs.filter(r =>
+    (!tenant.propertyId || r.propertyId === tenant.propertyId) &&
+    !OPEN_REPAIR_EXCLUDED.includes(r.status) &&
+    SERIOUS_PRIORITIES.includes(r.priority)
+  );
+  const inspected = records.inspections
+    .filter(i => (!tenant.propertyId || i.propertyId === tenant.propertyId) && i.status !== 'Scheduled')
+    .map(i => safeToDate(i.scheduledDate || i.inspectionDate))
+    .filter((d): d is Date => !!d)
+    .sort((a, b) => b.getTime() - a.getTime())[0];
+  const inspectionStale = !inspected || isBefore(inspected, subMonths(startOfDay(today), 12));
+
+  if (serious.length) {
+    return {
+      ...base,
+      status: 'action',
+      detail: `${serious.length} emergency or urgent repair(s) open. Homes must be free of serious hazards, in reasonable repair and with reasonable facilities.`,
+      action: 'Complete the open emergency and urgent repairs.',
+    };
+  }
+  if (inspectionStale) {
+    return {
+      ...base,
+      status: 'action',
+      detail: inspected ? `Last inspected ${format(inspected, 'dd/MM/yyyy')}.` : 'No inspection recorded.',
+      action: 'Inspect the property against the Decent Homes criteria.',
+    };
+  }
+  return { ...base, status: 'ok', detail: `No serious repairs open; inspected ${format(inspected, 'dd/MM/yyyy')}.` };
+}
+
+/** Assesses a single tenancy. Only tenancies in England are in scope. */
+export function assessTenancyReadiness(tenant: ReadinessTenancy, records: ReadinessRecords, today: Date = new Date()): TenancyReadiness {
+  if (nationOf(records.postcode) !== 'england') {
+    return { tenantId: tenant.id, status: 'not_applicable', items: [], outstanding: [] };
+  }
+  const started = safeToDate(tenant.tenancyStartDate);
+  const start = started ? startOfDay(started) : null;
+
+  const items: ReadinessItem[] = [
+    periodicItem(tenant),
+    informationItem(tenant, start, records.serviceEvents, today),
+    {
+      area: 'section21',
+      label: READINESS_AREA_LABELS.section21,
+      status: 'info',
+      detail: 'Section 21 notices can no longer be served. Possession needs a Section 8 ground proved at court.',
+    },
+    possessionItem(start, records.arrears),
+    rentIncreaseItem(start, records.rentCharges.filter(c => c.tenantId === tenant.id), today),
+    petsItem(tenant.petRequests || [], today),
+    decentHomesItem(tenant, records, today),
+  ];
+  const outstanding = items.filter(i => i.status === 'action' || i.status === 'overdue');
+  const status: TenancyReadinessStatus = outstanding.some(i => i.status === 'overdue')
+    ? 'overdue'
+    : outstanding.length ? 'action_needed' : 'ready';
+  return { tenantId: tenant.id, status, items, outstanding };
+}
+
+export interface ReadinessRollup {
+  ready: number;
+  actionNeeded: number;
+  overdue: number;
+  notApplicable: number;
+}
+
+export function summariseReadiness(results: TenancyReadiness[]): ReadinessRollup {
+  return {
+    ready: results.filter(r => r.status === 'ready').length,
+    actionNeeded: results.filter(r => r.status === 'action_needed').length,
+    overdue: results.filter(r => r.status === 'overdue').length,
+    notApplicable: results.filter(r => r.status === 'not_applicable').length,
+  };
+}
+
+export async function savePetRequests(firestore: Firestore, tenantId: string, requests: PetRequest[]): Promise<void> {
+  await updateDoc(doc(firestore, 'tenants', tenantId), { petRequests: requests.map(r => compact(r)) });
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { addHours, endOfDay } from 'date-fns';
+import {
+  assessRepairSla,
+  awaitingTenantConfirmation,
+  canTransition,
+  currentSlaTimer,
+  newRepairWorkflow,
+  nextRepairStates,
+  repairState,
+  type RepairEvent,
+  type RepairState,
+  type WorkflowRepair,
+} from '@/lib/repair-workflow';
+
+const reported = new Date('2025-03-03T09:00:00Z');
+const at = (hours: number) => addHours(reported, hours);
+const event = (state: RepairState, hours: number): RepairEvent => ({ state, at: at(hours).toISOString() });
+
+const repair = (events: RepairEvent[], extra: Partial<WorkflowRepair> = {}): WorkflowRepair => ({
+  id: 'r1',
+  priority: 'Urgent',
+  reportedDate: reported.toISOString(),
+  workflowState: events.at(-1)?.state,
+  events,
+  ...extra,
+});
+
+describe('repair states', () => {
+  it('derives a state from the legacy status', () => {
+    expect(repairState({ status: 'In Progress' })).toBe('in_progress');
+    expect(repairState({ status: 'Completed' })).toBe('completed');
+    expect(repairState({ status: 'Open' })).toBe('reported');
+    expect(repairState({ status: 'Open', workflowState: 'quoted' })).toBe('quoted');
+  });
+
+  it('only allows the listed moves', () => {
+    expect(canTransition('reported', 'triaged')).toBe(true);
+    expect(canTransition('reported', 'completed')).toBe(false);
+    expect(canTransition('closed', 'reported')).toBe(false);
+  });
+
+  it('leaves tenant confirmation out of the landlord\'s moves', () => {
+    expect(nextRepairStates({ workflowState: 'completed' })).toEqual(['in_progress', 'closed']);
+    expect(awaitingTenantConfirmation({ workflowState: 'completed' })).toBe(true);
+    expect(awaitingTenantConfirmation({ workflowState: 'in_progress' })).toBe(false);
+  });
+
+  it('starts a new repair as reported with its first event', () => {
+    const workflow = newRepairWorkflow({ uid: 'u1' });
+    expect(workflow.status).toBe('Open');
+    expect(workflow.events).toHaveLength(1);
+    expect(workflow.events[0]).toMatchObject({ state: 'reported', by: 'u1' });
+    expect(workflow.events[0]).not.toHaveProperty('byName');
+  });
+});
+
+describe('assessRepairSla', () => {
+  it('runs the response clock from the report by priority', () => {
+    const open = repair([event('reported', 0)]);
+    expect(assessRepairSla(open, at(1)).response).toMatchObject({ status: 'on_track', deadline: at(24) });
+    expect(assessRepairSla(open, at(20)).response?.status).toBe('due_soon');
+    const late = assessRepairSla(open, at(25));
+    expect(late.response?.status).toBe('breached');
+    expect(late.breached).toBe(true);
+  });
+
+  it('records when a deadline was met, or missed', () => {
+    const triaged = assessRepairSla(repair([event('reported', 0), event('triaged', 2)]), at(30));
+    expect(triaged.response).toMatchObject({ status: 'met', metAt: at(2) });
+    const slow = assessRepairSla(repair([event('reported', 0), event('triaged', 30)]), at(31));
+    expect(slow.response?.status).toBe('missed');
+  });
+
+  it('restarts the resolution milestone when completed work is reopened', () => {
+    const reopened = repair([event('reported', 0), event('triaged', 1), event('completed', 10), event('in_progress', 12)]);
+    expect(assessRepairSla(reopened, at(20)).resolution?.status).toBe('on_track');
+    const finished = repair([...reopened.events!, event('completed', 200)]);
+    expect(assessRepairSla(finished, at(201)).resolution).toMatchObject({ status: 'missed', metAt: at(200) });
+  });
+
+  it('uses an explicit due date as the resolution deadline', () => {
+    const sla = assessRepairSla(repair([event('reported', 0)], { dueDate: '2025-03-31' }), at(1));
+    expect(sla.resolution?.deadline).toEqual(endOfDay(new Date(2025, 2, 31)));
+  });
+
+  it('holds a repair from before the workflow only to its due date', () => {
+    const legacy = { id: 'r1', priority: 'Emergency', status: 'Open', reportedDate: reported.toISOString() };
+    expect(assessRepairSla(legacy, at(500))).toEqual({ response: null, resolution: null, breached: false });
+    const withDue = assessRepairSla({ ...legacy, dueDate: '2025-03-04' }, at(500));
+    expect(withDue.response).toBeNull();
+    expect(withDue.resolution?.status).toBe('breached');
+    expect(withDue.breached).toBe(true);
+  });
+
+  it('stops the clocks on a cancelled repair', () => {
+    expect(assessRepairSla(repair([event('reported', 0), event('cancelled', 1)]), at(500)).breached).toBe(false);
+  });
+});
+
+describe('currentSlaTimer', () => {
+  it('shows a breached deadline ahead of one still open', () => {
+    const sla = assessRepairSla(repair([event('reported', 0)], { priority: 'Routine' }), at(100));
+    expect(sla.response?.status).toBe('breached');
+    expect(currentSlaTimer(sla)).toBe(sla.response);
+  });
+
+  it('falls back to the resolution outcome once both are settled', () => {
+    const sla = assessRepairSla(repair([event('reported', 0), event('triaged', 1), event('completed', 5)]), at(10));
+    expect(currentSlaTimer(sla)).toMatchObject({ status: 'met' });
+  });
+});
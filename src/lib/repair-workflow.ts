@@ -0,0 +1,283 @@
+import { Firestore, arrayUnion, doc, updateDoc } from 'firebase/firestore';
+import { addHours, differenceInMinutes, endOfDay, isAfter } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { compact } from '@/lib/firestore-utils';
+
+/**
+ * @fileOverview Repair Workflow
+ * Repairs move through explicit states, from report to close, and each move is
+ * appended to the repair's `events` history with who made it and when. The older
+ * `status` field (Open / In Progress / Completed / Cancelled) is derived from the
+ * state on every transition so existing queries keep working. Response and
+ * resolution deadlines are set by the repair's priority.
+ */
+
+export type RepairState =
+  | 'reported'
+  | 'triaged'
+  | 'quoted'
+  | 'approved'
+  | 'scheduled'
+  | 'in_progress'
+  | 'awaiting_parts'
+  | 'completed'
+  | 'tenant_confirmed'
+  | 'closed'
+  | 'cancelled';
+
+export type RepairPriority = 'Emergency' | 'Urgent' | 'Routine' | 'Low';
+export type RepairStatus = 'Open' | 'In Progress' | 'Completed' | 'Cancelled';
+export type SlaStatus = 'on_track' | 'due_soon' | 'breached' | 'met' | 'missed';
+
+export const REPAIR_STATES: RepairState[] = [
+  'reported',
+  'triaged',
+  'quoted',
+  'approved',
+  'scheduled',
+  'in_progress',
+  'awaiting_parts',
+  'completed',
+  'tenant_confirmed',
+  'closed',
+  'cancelled',
+];
+
+export const REPAIR_STATE_LABELS: Record<RepairState, string> = {
+  reported: 'Reported',
+  triaged: 'Triaged',
+  quoted: 'Quoted',
+  approved: 'Approved',
+  scheduled: 'Scheduled',
+  in_progress: 'In Progress',
+  awaiting_parts: 'Awaiting Parts',
+  completed: 'Completed',
+  tenant_confirmed: 'Tenant Confirmed',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+};
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  on_track: 'On Track',
+  due_soon: 'Due Soon',
+  breached: 'SLA Breached',
+  met: 'SLA Met',
+  missed: 'SLA Missed',
+};
+
+/** The states each state may move to. Work can be cancelled at any point before completion. */
+export const REPAIR_TRANSITIONS: Record<RepairState, RepairState[]> = {
+  reported: ['triaged', 'cancelled'],
+  triaged: ['quoted', 'approved', 'scheduled', 'cancelled'],
+  quoted: ['approved', 'cancelled'],
+  approved: ['scheduled', 'in_progress', 'cancelled'],
+  scheduled: ['in_progress', 'cancelled'],
+  in_progress: ['awaiting_parts', 'completed', 'cancelled'],
+  awaiting_parts: ['in_progress', 'scheduled', 'cancelled'],
+  completed: ['tenant_confirmed', 'in_progress', 'closed'],
+  tenant_confirmed: ['closed'],
+  closed: [],
+  cancelled: [],
+};
+
+/** Moves only the tenant who reported the repair can make; a landlord confirming their own work proves nothing. */
+export const TENANT_REPAIR_STATES: RepairState[] = ['tenant_confirmed'];
+
+export const REPAIR_STATE_STATUS: Record<RepairState, RepairStatus> = {
+  reported: 'Open',
+  triaged: 'Open',
+  quoted: 'Open',
+  approved: 'Open',
+  scheduled: 'In Progress',
+  in_progress: 'In Progress',
+  awaiting_parts: 'In Progress',
+  completed: 'Completed',
+  tenant_confirmed: 'Completed',
+  closed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+/** Hours from report to triage. */
+export const RESPONSE_SLA_HOURS: Record<RepairPriority, number> = {
+  Emergency: 4,
+  Urgent: 24,
+  Routine: 72,
+  Low: 168,
+};
+
+/** Hours from report to the work being completed. */
+export const RESOLUTION_SLA_HOURS: Record<RepairPriority, number> = {
+  Emergency: 24,
+  Urgent: 24 * 7,
+  Routine: 24 * 28,
+  Low: 24 * 90,
+};
+
+/** Share of the SLA window left at which a deadline shows as due soon. */
+const DUE_SOON_SHARE = 0.25;
+
+const RESOLVED_STATES: RepairState[] = ['completed', 'tenant_confirmed', 'closed'];
+
+export interface RepairEvent {
+  state: RepairState;
+  /** ISO timestamp. */
+  at: string;
+  by?: string;
+  byName?: string;
+  note?: string;
+}
+
+export interface WorkflowRepair {
+  id: string;
+  status?: string;
+  priority?: string;
+  reportedDate?: any;
+  dueDate?: string;
+  workflowState?: RepairState;
+  events?: RepairEvent[];
+}
+
+export interface RepairActor {
+  uid: string;
+  name?: string | null;
+}
+
+export interface SlaTimer {
+  deadline: Date;
+  status: SlaStatus;
+  metAt?: Date;
+}
+
+export interface RepairSla {
+  response: SlaTimer | null;
+  resolution: SlaTimer | null;
+  /** An open deadline has passed. */
+  breached: boolean;
+}
+
+/** The repair's state, falling back to its legacy status for repairs logged before the workflow. */
+export function repairState(repair: Pick<WorkflowRepair, 'workflowState' | 'status'>): RepairState {
+  if (repair.workflowState && REPAIR_STATES.includes(repair.workflowState)) return repair.workflowState;
+  switch (repair.status) {
+    case 'In Progress': return 'in_progress';
+    case 'Completed': return 'completed';
+    case 'Cancelled': return 'cancelled';
+    default: return 'reported';
+  }
+}
+
+/** The moves open to the landlord from the repair's current state. */
+export function nextRepairStates(repair: Pick<WorkflowRepair, 'workflowState' | 'status'>): RepairState[] {
+  return REPAIR_TRANSITIONS[repairState(repair)].filter(s => !TENANT_REPAIR_STATES.includes(s));
+}
+
+/** Completed work the reporting tenant can confirm as fixed. */
+export function awaitingTenantConfirmation(repair: Pick<WorkflowRepair, 'workflowState' | 'status'>): boolean {
+  return canTransition(repairState(repair), 'tenant_confirmed');
+}
+
+export function canTransition(from: RepairState, to: RepairState): boolean {
+  return REPAIR_TRANSITIONS[from].includes(to);
+}
+
+function repairEvent(state: RepairState, actor?: RepairActor, note?: string): RepairEvent {
+  return compact({ state, at: new Date().toISOString(), by: actor?.uid, byName: actor?.name || undefined, note: note?.trim() });
+}
+
+/** Fields every new repair starts with. */
+export function newRepairWorkflow(actor?: RepairActor) {
+  return {
+    status: REPAIR_STATE_STATUS.reported,
+    workflowState: 'reported' as RepairState,
+    events: [repairEvent('reported', actor)],
+  };
+}
+
+/** Moves a repair to its next state, recording the event. Throws if the move is not allowed. */
+export async function transitionRepair(
+  firestore: Firestore,
+  repair: Pick<WorkflowRepair, 'id' | 'workflowState' | 'status'>,
+  to: RepairState,
+  options: { actor?: RepairActor; note?: string } = {}
+): Promise<void> {
+  const from = repairState(repair);
+  if (!canTransition(from, to)) {
+    throw new Error(`A repair cannot move from ${REPAIR_STATE_LABELS[from]} to ${REPAIR_STATE_LABELS[to]}.`);
+  }
+  await updateDoc(doc(firestore, 'repairs', repair.id), {
+    workflowState: to,
+    status: REPAIR_STATE_STATUS[to],
+    events: arrayUnion(repairEvent(to, options.actor, options.note)),
+  });
+}
+
+/** Oldest first. */
+export function repairHistory(repair: Pick<WorkflowRepair, 'events'>): RepairEvent[] {
+  return (repair.events || []).slice().sort((a, b) => a.at.localeCompare(b.at));
+}
+
+function priorityOf(repair: WorkflowRepair): RepairPriority {
+  return (Object.keys(RESOLUTION_SLA_HOURS) as RepairPriority[]).find(p => p.toLowerCase() === repair.priority?.toLowerCase()) || 'Routine';
+}
+
+/**
+ * When a milestone was last reached, so reopened work counts as outstanding
+ * again. Repairs that passed it before events were recorded count as met with no date.
+ */
+function milestone(repair: WorkflowRepair, reached: (state: RepairState) => boolean): { reached: boolean; at?: Date } {
+  if (!reached(repairState(repair))) return { reached: false };
+  let at: Date | undefined;
+  for (const event of repairHistory(repair)) {
+    if (!reached(event.state)) at = undefined;
+    else if (!at) at = safeToDate(event.at) || undefined;
+  }
+  return { reached: true, at };
+}
+
+function timer(start: Date, deadline: Date, reached: { reached: boolean; at?: Date }, now: Date): SlaTimer {
+  if (reached.reached) {
+    const late = !!reached.at && isAfter(reached.at, deadline);
+    return { deadline, status: late ? 'missed' : 'met', metAt: reached.at };
+  }
+  if (isAfter(now, deadline)) return { deadline, status: 'breached' };
+  const window = differenceInMinutes(deadline, start);
+  const left = differenceInMinutes(deadline, now);
+  return { deadline, status: left <= window * DUE_SOON_SHARE ? 'due_soon' : 'on_track' };
+}
+
+/**
+ * Response and resolution deadlines from the reported date. An explicit due date
+ * on the repair, such as an EICR remedial deadline, replaces the resolution target.
+ * Repairs with no event history predate the workflow and are held only to a due date.
+ */
+export function assessRepairSla(repair: WorkflowRepair, now: Date = new Date()): RepairSla {
+  const reported = safeToDate(repair.reportedDate);
+  if (!reported || repairState(repair) === 'cancelled') return { response: null, resolution: null, breached: false };
+  const priority = priorityOf(repair);
+  const dueDate = safeToDate(repair.dueDate);
+  if (!repair.events?.length) {
+    const resolution = dueDate
+      ? timer(reported, endOfDay(dueDate), milestone(repair, s => RESOLVED_STATES.includes(s)), now)
+      : null;
+    return { response: null, resolution, breached: resolution?.status === 'breached' };
+  }
+  const response = timer(
+    reported,
+    addHours(reported, RESPONSE_SLA_HOURS[priority]),
+    milestone(repair, s => s !== 'reported' && s !== 'cancelled'),
+    now
+  );
+  const resolution = timer(
+    reported,
+    dueDate ? endOfDay(dueDate) : addHours(reported, RESOLUTION_SLA_HOURS[priority]),
+    milestone(repair, s => RESOLVED_STATES.includes(s)),
+    now
+  );
+  return { response, resolution, breached: response.status === 'breached' || resolution.status === 'breached' };
+}
+
+/** The deadline that matters now: a breached one first, then the earliest still open, else the resolution outcome. */
+export function currentSlaTimer(sla: RepairSla): SlaTimer | null {
+  const open = [sla.response, sla.resolution].filter((t): t is SlaTimer => !!t && t.status !== 'met' && t.status !== 'missed');
+  return open.find(t => t.status === 'breached') || open[0] || sla.resolution;
+}
@@ -0,0 +1,192 @@
+import { addDoc, collection, type Firestore } from 'firebase/firestore';
+import { addDays, addMonths, format, isBefore, startOfDay } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { newEntryId } from '@/lib/firestore-utils';
+
+/**
+ * @fileOverview Right to Rent Checks
+ * Append-only `rightToRentChecks` log covering every adult occupier of a
+ * tenancy. Each record is one check; the latest per occupier decides whether a
+ * follow-up is needed. Time-limited permission must be re-checked before it
+ * expires, or 12 months after the previous check if that is later, to keep the
+ * statutory excuse.
+ */
+
+export type RightToRentMethod = 'manual' | 'online' | 'idvt' | 'landlord_checking_service';
+export type RightToRentOutcome = 'unlimited' | 'time_limited' | 'pending' | 'no_right';
+export type RightToRentCheckType = 'initial' | 'follow_up';
+
+export const RIGHT_TO_RENT_METHOD_LABELS: Record<RightToRentMethod, string> = {
+  manual: 'Manual document check',
+  online: 'Home Office online check (share code)',
+  idvt: 'Identity service provider (IDVT)',
+  landlord_checking_service: 'Landlord Checking Service',
+};
+
+export const RIGHT_TO_RENT_OUTCOME_LABELS: Record<RightToRentOutcome, string> = {
+  unlimited: 'Unlimited right to rent',
+  time_limited: 'Time-limited right to rent',
+  pending: 'Awaiting Home Office response',
+  no_right: 'No right to rent',
+};
+
+export const RIGHT_TO_RENT_CHECK_TYPE_LABELS: Record<RightToRentCheckType, string> = {
+  initial: 'Initial',
+  follow_up: 'Follow-up',
+};
+
+/** Months after a check before a time-limited follow-up can fall due. */
+export const FOLLOW_UP_MIN_MONTHS = 12;
+/** How far ahead follow-ups appear on the reminders page. */
+export const FOLLOW_UP_WARNING_DAYS = 28;
+/** The Landlord Checking Service answers within two working days; chase after this. */
+export const PENDING_RESPONSE_DAYS = 3;
+
+export interface RightToRentCheck {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  tenantId: string;
+  screeningId: string;
+  /** Stable id for the person checked; the lead tenant uses the tenant id. */
+  occupierId: string;
+  occupierName: string;
+  isLeadTenant: boolean;
+  checkType: RightToRentCheckType;
+  checkDate: string;
+  method: RightToRentMethod;
+  shareCode?: string;
+  outcome: RightToRentOutcome;
+  permissionExpiryDate?: string;
+  notes?: string;
+  recordedBy?: string;
+  createdDate: string;
+}
+
+export type OccupierCheckStatus = 'clear' | 'scheduled' | 'due' | 'overdue' | 'pending' | 'failed';
+
+export const OCCUPIER_CHECK_STATUS_LABELS: Record<OccupierCheckStatus, string> = {
+  clear: 'No Follow-up Needed',
+  scheduled: 'Follow-up Scheduled',
+  due: 'Follow-up Due',
+  overdue: 'Follow-up Overdue',
+  pending: 'Awaiting Response',
+  failed: 'No Right to Rent',
+};
+
+export interface OccupierRightToRent {
+  occupierId: string;
+  occupierName: string;
+  isLeadTenant: boolean;
+  tenantId: string;
+  screeningId: string;
+  propertyId: string;
+  latest: RightToRentCheck;
+  /** Oldest first. */
+  history: RightToRentCheck[];
+  status: OccupierCheckStatus;
+  followUpDue: Date | null;
+}
+
+/** UK share codes are nine characters, shown in groups of three. */
+export function normaliseShareCode(code?: string): string {
+  return (code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function formatShareCode(code?: string): string {
+  return normaliseShareCode(code).replace(/(.{3})(?=.)/g, '$1 ');
+}
+
+export function isValidShareCode(code?: string): boolean {
+  return /^[A-Z0-9]{9}$/.test(normaliseShareCode(code));
+}
+
+/** When the next check is due, or null where no follow-up is required. */
+export function followUpDueDate(check: Pick<RightToRentCheck, 'checkDate' | 'outcome' | 'permissionExpiryDate'>): Date | null {
+  const checked = safeToDate(check.checkDate);
+  if (!checked) return null;
+  if (check.outcome === 'pending') return addDays(checked, PENDING_RESPONSE_DAYS);
+  if (check.outcome !== 'time_limited') return null;
+  const earliest = addMonths(checked, FOLLOW_UP_MIN_MONTHS);
+  const expiry = safeToDate(check.permissionExpiryDate);
+  if (!expiry) return earliest;
+  return isBefore(expiry, earliest) ? earliest : expiry;
+}
+
+const timeOf = (val: any) => safeToDate(val)?.getTime() ?? 0;
+
+/** Oldest first; checks on the same day keep the order they were recorded in. */
+export function sortChecks(checks: RightToRentCheck[]): RightToRentCheck[] {
+  return [...checks].sort((a, b) => timeOf(a.checkDate) - timeOf(b.checkDate) || timeOf(a.createdDate) - timeOf(b.createdDate));
+}
+
+function occupierStatus(latest: RightToRentCheck, due: Date | null, today: Date): OccupierCheckStatus {
+  if (latest.outcome === 'no_right') return 'failed';
+  if (latest.outcome === 'pending') return due && isBefore(due, today) ? 'overdue' : 'pending';
+  if (!due) return 'clear';
+  if (isBefore(due, today)) return 'overdue';
+  if (isBefore(due, addDays(today, FOLLOW_UP_WARNING_DAYS))) return 'due';
+  return 'scheduled';
+}
+
+/** Latest position for each occupier, lead tenant first. */
+export function occupierStatuses(checks: RightToRentCheck[], today: Date = new Date()): OccupierRightToRent[] {
+  const now = startOfDay(today);
+  const byOccupier = new Map<string, RightToRentCheck[]>();
+  sortChecks(checks).forEach(c => {
+    const key = `${c.tenantId}:${c.occupierId}`;
+    byOccupier.set(key, [...(byOccupier.get(key) || []), c]);
+  });
+  return Array.from(byOccupier.values())
+    .map(history => {
+      const latest = history[history.length - 1];
+      const followUpDue = followUpDueDate(latest);
+      return {
+        occupierId: latest.occupierId,
+        occupierName: latest.occupierName,
+        isLeadTenant: latest.isLeadTenant,
+        tenantId: latest.tenantId,
+        screeningId: latest.screeningId,
+        propertyId: latest.propertyId,
+        latest,
+        history,
+        status: occupierStatus(latest, followUpDue, now),
+        followUpDue,
+      };
+    })
+    .sort((a, b) => Number(b.isLeadTenant) - Number(a.isLeadTenant) || a.occupierName.localeCompare(b.occupierName));
+}
+
+export function newOccupierId(): string {
+  return newEntryId('occ');
+}
+
+export async function recordRightToRentCheck(
+  firestore: Firestore,
+  check: Omit<RightToRentCheck, 'id' | 'createdDate'>
+): Promise<string> {
+  const record: Record<string, any> = { ...check, createdDate: new Date().toISOString() };
+  if (record.shareCode) record.shareCode = normaliseShareCode(record.shareCode);
+  if (check.outcome !== 'time_limited') delete record.permissionExpiryDate;
+  Object.keys(record).forEach(key => (record[key] === undefined || record[key] === '') && delete record[key]);
+  const ref = await addDoc(collection(firestore, 'rightToRentChecks'), record);
+  return ref.id;
+}
+
+/** Fields a screening's `rightToRent` section adds to the lead tenant's first check. */
+export type ScreeningCheckFields = Pick<RightToRentCheck, 'checkDate' | 'method' | 'shareCode' | 'outcome' | 'permissionExpiryDate' | 'notes'>;
+
+/** The lead tenant's initial check as captured on the screening form, once it has a date and outcome. */
+export function checkFromScreening(rightToRent: any): ScreeningCheckFields | null {
+  const checked = safeToDate(rightToRent?.checkDate);
+  if (!checked || !rightToRent.outcome) return null;
+  const online = !!rightToRent.shareCode || !!rightToRent.shareCodeReference;
+  return {
+    checkDate: format(checked, 'yyyy-MM-dd'),
+    method: online ? 'online' : 'manual',
+    shareCode: rightToRent.shareCodeReference || undefined,
+    outcome: rightToRent.outcome,
+    permissionExpiryDate: rightToRent.permissionExpiryDate || undefined,
+    notes: rightToRent.notes || undefined,
+  };
+}
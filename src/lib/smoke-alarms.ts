@@ -0,0 +1,208 @@
+import { Firestore, addDoc, collection, deleteDoc, deleteField, doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
+import { addDays, addYears, isBefore, startOfDay } from 'date-fns';
+import { formatDateForInput, safeToDate } from '@/lib/date-utils';
+import { compact } from '@/lib/firestore-utils';
+
+/**
+ * @fileOverview Smoke and CO Alarm Register
+ * The alarms fitted at each property (`alarms`) and the dated log of tests
+ * carried out on them (`alarmTests`). Every alarm must be working on the first
+ * day of each tenancy, so starting a tenancy schedules a day-one test under a
+ * deterministic id; recording that test completes it and becomes the evidence
+ * the compliance engine looks for.
+ */
+
+export type AlarmType = 'smoke' | 'heat' | 'co' | 'smoke_co';
+export type AlarmPower = 'mains' | 'mains_battery' | 'sealed_battery' | 'battery';
+export type AlarmTestReason = 'tenancy_start' | 'routine' | 'repair';
+export type AlarmTestStatus = 'scheduled' | 'completed';
+
+export const ALARM_TYPE_LABELS: Record<AlarmType, string> = {
+  smoke: 'Smoke',
+  heat: 'Heat',
+  co: 'Carbon Monoxide',
+  smoke_co: 'Combined Smoke & CO',
+};
+
+export const ALARM_POWER_LABELS: Record<AlarmPower, string> = {
+  mains: 'Mains',
+  mains_battery: 'Mains with battery backup',
+  sealed_battery: 'Sealed 10-year battery',
+  battery: 'Replaceable battery',
+};
+
+export const ALARM_TEST_REASON_LABELS: Record<AlarmTestReason, string> = {
+  tenancy_start: 'First day of tenancy',
+  routine: 'Routine test',
+  repair: 'After repair or replacement',
+};
+
+/** Manufacturers give most alarms a ten-year life from installation. */
+export const ALARM_LIFE_YEARS = 10;
+/** How far ahead alarm replacements appear on the reminders page. */
+export const ALARM_EXPIRY_WARNING_DAYS = 90;
+
+export interface Alarm {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  location: string;
+  alarmType: AlarmType;
+  power: AlarmPower;
+  interlinked?: boolean;
+  installDate?: string;
+  expiryDate?: string;
+  notes?: string;
+  /** Set when the unit is taken out of service; its test history is kept. */
+  removedDate?: string;
+  createdDate: string;
+}
+
+export interface AlarmTestResult {
+  alarmId: string;
+  location: string;
+  alarmType: AlarmType;
+  working: boolean;
+  notes?: string;
+}
+
+export interface AlarmTest {
+  id: string;
+  landlordId: string;
+  propertyId: string;
+  tenantId?: string;
+  tenantName?: string;
+  reason: AlarmTestReason;
+  status: AlarmTestStatus;
+  /** When a scheduled test must be carried out. */
+  dueDate?: string;
+  testDate?: string;
+  testedBy?: string;
+  results: AlarmTestResult[];
+  photoUrls: string[];
+  notes?: string;
+  createdDate: string;
+  completedDate?: string;
+}
+
+export type AlarmStatus = 'ok' | 'faulty' | 'untested' | 'expiring' | 'expired' | 'removed';
+
+export const ALARM_STATUS_LABELS: Record<AlarmStatus, string> = {
+  ok: 'Working',
+  faulty: 'Faulty',
+  untested: 'Not Tested',
+  expiring: 'Replace Soon',
+  expired: 'Past Expiry',
+  removed: 'Removed',
+};
+
+export function alarmExpiryDate(installDate: Date): Date {
+  return addYears(installDate, ALARM_LIFE_YEARS);
+}
+
+/** Deterministic id so a tenancy only ever gets one day-one test at each property. */
+export function dayOneTestId(tenantId: string, propertyId: string): string {
+  return `${tenantId}_${propertyId}_day-one`;
+}
+
+/** A completed test in which every alarm worked. */
+export function isCompletedPass(test: Pick<AlarmTest, 'status' | 'results'>): boolean {
+  return test.status === 'completed' && !!test.results?.length && test.results.every(r => r.working);
+}
+
+const timeOf = (val: any) => safeToDate(val)?.getTime() ?? 0;
+
+/** Completed tests, newest first. */
+export function completedTests(tests: AlarmTest[]): AlarmTest[] {
+  return tests
+    .filter(t => t.status === 'completed')
+    .sort((a, b) => timeOf(b.testDate) - timeOf(a.testDate) || timeOf(b.completedDate) - timeOf(a.completedDate));
+}
+
+/** Each alarm's position from its expiry and the latest test that covered it. */
+export function alarmStatus(alarm: Alarm, tests: AlarmTest[], today: Date = new Date()): { status: AlarmStatus; lastTested: Date | null } {
+  const now = startOfDay(today);
+  const latest = completedTests(tests).find(t => t.results.some(r => r.alarmId === alarm.id));
+  const result = latest?.results.find(r => r.alarmId === alarm.id);
+  const lastTested = safeToDate(latest?.testDate);
+  if (alarm.removedDate) return { status: 'removed', lastTested };
+  if (result && !result.working) return { status: 'faulty', lastTested };
+  const expiry = safeToDate(alarm.expiryDate);
+  if (expiry && isBefore(expiry, now)) return { status: 'expired', lastTested };
+  if (expiry && isBefore(expiry, addDays(now, ALARM_EXPIRY_WARNING_DAYS))) return { status: 'expiring', lastTested };
+  return { status: result ? 'ok' : 'untested', lastTested };
+}
+
+export async function saveAlarm(
+  firestore: Firestore,
+  alarm: Omit<Alarm, 'id' | 'createdDate'>,
+  id?: string
+): Promise<string> {
+  if (id) {
+    // Cleared fields are removed from the stored record
+    const update = Object.fromEntries(Object.entries(alarm).map(([k, v]) => [k, v === undefined || v === '' ? deleteField() : v]));
+    await updateDoc(doc(firestore, 'alarms', id), update);
+    return id;
+  }
+  const ref = await addDoc(collection(firestore, 'alarms'), compact({ ...alarm, createdDate: new Date().toISOString() }));
+  return ref.id;
+}
+
+export interface TenancyStartTerms {
+  landlordId: string;
+  propertyId: string;
+  tenantId: string;
+  tenantName: string;
+  tenancyStartDate: Date;
+  /** The property the tenancy has moved from, whose pending test no longer applies. */
+  previousPropertyId?: string;
+}
+
+/**
+ * Schedules, or reschedules, the test due on the first day of a tenancy at its
+ * property. A test already carried out is left alone so its evidence is never
+ * rewritten; one still pending at a property the tenancy has left is removed.
+ */
+export async function scheduleDayOneTest(firestore: Firestore, terms: TenancyStartTerms): Promise<void> {
+  const ref = doc(firestore, 'alarmTests', dayOneTestId(terms.tenantId, terms.propertyId));
+  const existing = await getDoc(ref);
+  if (terms.previousPropertyId && terms.previousPropertyId !== terms.propertyId) {
+    const previousRef = doc(firestore, 'alarmTests', dayOneTestId(terms.tenantId, terms.previousPropertyId));
+    const previous = await getDoc(previousRef);
+    if (previous.exists() && previous.data().status !== 'completed') await deleteDoc(previousRef);
+  }
+  if (existing.exists() && existing.data().status === 'completed') return;
+  await setDoc(ref, {
+    landlordId: terms.landlordId,
+    propertyId: terms.propertyId,
+    tenantId: terms.tenantId,
+    tenantName: terms.tenantName,
+    reason: 'tenancy_start',
+    status: 'scheduled',
+    dueDate: formatDateForInput(terms.tenancyStartDate),
+    results: [],
+    photoUrls: [],
+    createdDate: existing.exists() ? existing.data().createdDate : new Date().toISOString(),
+  });
+}
+
+/** Records a test, completing the scheduled one it was carried out for where given. */
+export async function recordAlarmTest(
+  firestore: Firestore,
+  test: Omit<AlarmTest, 'id' | 'status' | 'createdDate' | 'completedDate'>,
+  scheduledId?: string
+): Promise<string> {
+  const now = new Date().toISOString();
+  const record = compact({
+    ...test,
+    results: test.results.map(r => compact(r)),
+    status: 'completed' as const,
+    completedDate: now,
+  });
+  if (scheduledId) {
+    await updateDoc(doc(firestore, 'alarmTests', scheduledId), record);
+    return scheduledId;
+  }
+  const ref = await addDoc(collection(firestore, 'alarmTests'), { ...record, createdDate: now });
+  return ref.id;
+}
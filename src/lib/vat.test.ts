@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildVatReturn,
+  normaliseVatNumber,
+  resolveVatProfile,
+  splitGross,
+  vatAmountsOf,
+  vatPeriods,
+} from '@/lib/vat';
+
+describe('splitGross', () => {
+  it('rounds VAT to the penny and gives net the remainder', () => {
+    expect(splitGross(120, 'standard')).toEqual({ gross: 120, net: 100, vat: 20, vatRate: 'standard' });
+    expect(splitGross(10.01, 'standard')).toEqual({ gross: 10.01, net: 8.34, vat: 1.67, vatRate: 'standard' });
+    expect(splitGross(105, 'reduced').vat).toBe(5);
+    expect(splitGross(100, 'exempt').vat).toBe(0);
+  });
+});
+
+describe('vatAmountsOf', () => {
+  it('uses the stored split where there is one', () => {
+    expect(vatAmountsOf({ amount: 60, vatAmount: 10 })).toEqual({ gross: 60, net: 50, vat: 10, vatRate: 'standard' });
+    expect(vatAmountsOf({ amount: 60, vatAmount: 10, netAmount: 49.99, vatRate: 'reduced' }).net).toBe(49.99);
+  });
+
+  it('treats an expense with no VAT fields as outside the scope', () => {
+    expect(vatAmountsOf({ amount: 50 })).toEqual({ gross: 50, net: 50, vat: 0, vatRate: 'outside' });
+  });
+});
+
+describe('normaliseVatNumber', () => {
+  it('accepts nine or twelve digits with or without the GB prefix', () => {
+    expect(normaliseVatNumber('gb 123 456 789')).toBe('GB123456789');
+    expect(normaliseVatNumber('123-456-789-000')).toBe('GB123456789000');
+    expect(normaliseVatNumber('12345')).toBe('');
+  });
+});
+
+describe('resolveVatProfile', () => {
+  it('falls back to stagger 1 and tidies the VAT number', () => {
+    expect(resolveVatProfile({ stagger: 7 as any, vatNumber: 'gb 123' })).toMatchObject({ stagger: 1, vatNumber: 'GB123', registered: false });
+  });
+});
+
+describe('vatPeriods', () => {
+  const asOf = new Date(2025, 10, 15);
+
+  it('aligns quarters to the stagger, newest first', () => {
+    expect(vatPeriods(1, asOf, 1)[0]).toMatchObject({ start: new Date(2025, 9, 1), label: 'Oct 2025 - Dec 2025' });
+    expect(vatPeriods(2, asOf, 1)[0].start).toEqual(new Date(2025, 10, 1));
+    expect(vatPeriods(3, asOf, 1)[0].start).toEqual(new Date(2025, 8, 1));
+  });
+
+  it('steps back a quarter at a time', () => {
+    const periods = vatPeriods(1, asOf, 3);
+    expect(periods.map(p => p.start)).toEqual([new Date(2025, 9, 1), new Date(2025, 6, 1), new Date(2025, 3, 1)]);
+    expect(periods[1].end.getDate()).toBe(30);
+  });
+});
+
+describe('buildVatReturn', () => {
+  const period = { start: new Date(2025, 0, 1), end: new Date(2025, 2, 31, 23, 59, 59, 999), label: 'Jan 2025 - Mar 2025' };
+  const properties = [{ id: 'p1', vatOptedToTax: true }, { id: 'p2' }];
+  const records = {
+    rentPayments: [
+      { propertyId: 'p1', amountPaid: 1200, paidDate: new Date(2025, 1, 1) },
+      { propertyId: 'p2', amountPaid: 900, paidDate: new Date(2025, 1, 1) },
+    ],
+    expenses: [
+      { propertyId: 'p1', amount: 120, vatRate: 'standard', vatAmount: 20, netAmount: 100, date: '2025-02-10' },
+      { propertyId: 'p2', amount: 60, vatRate: 'standard', vatAmount: 10, netAmount: 50, date: '2025-02-10' },
+      { propertyId: 'p1', amount: 30, vatRate: 'outside', date: '2025-02-10' },
+      { propertyId: 'p1', amount: 600, vatRate: 'standard', vatAmount: 100, date: '2025-04-01' },
+    ],
+  };
+
+  it('charges output VAT only on opted-to-tax rent and reclaims only its input VAT', () => {
+    const summary = buildVatReturn(period, records, properties);
+    expect(summary.boxes).toMatchObject({ 1: 200, 3: 200, 4: 20, 5: 180, 6: 1900, 7: 150 });
+    expect(summary.irrecoverableVat).toBe(10);
+    expect(summary.exemptSales).toBe(900);
+    expect(summary.isRepayment).toBe(false);
+    expect(summary.lines).toHaveLength(5);
+  });
+
+  it('reclaims all input VAT when the profile says so', () => {
+    const summary = buildVatReturn(period, records, properties, { ...resolveVatProfile({}), recoverAllInputTax: true });
+    expect(summary.boxes[4]).toBe(30);
+    expect(summary.irrecoverableVat).toBe(0);
+  });
+
+  it('reports a repayment when input VAT exceeds output VAT', () => {
+    const summary = buildVatReturn(period, { ...records, rentPayments: [] }, properties);
+    expect(summary.boxes[5]).toBe(20);
+    expect(summary.isRepayment).toBe(true);
+  });
+});
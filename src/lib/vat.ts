@@ -0,0 +1,253 @@
+import { addMonths, endOfMonth, format, isBefore, startOfMonth } from 'date-fns';
+import { safeToDate } from '@/lib/date-utils';
+import { toLedgerPayment } from '@/lib/rent-ledger';
+import { toCsv } from '@/lib/file-export';
+import { fromPence, penceOf, poundsOf, roundMoney, sumMoney, toPence } from '@/lib/money';
+
+/**
+ * @fileOverview VAT for Agents and VAT-Registered Landlords
+ * Net / VAT / gross splitting for expenses, VAT return periods by stagger and a
+ * nine-box VAT return summary. Rent on residential lets is exempt; rent on
+ * properties where an option to tax has been made is standard rated. Input VAT is
+ * only recoverable against taxable supplies, so VAT on costs of exempt lets is
+ * reported separately as irrecoverable. Figures use payment dates, matching the
+ * cash accounting scheme. Maintenance repairs carry no VAT analysis and are left out.
+ */
+
+export type VatRate = 'standard' | 'reduced' | 'zero' | 'exempt' | 'outside';
+
+export const VAT_RATES: Record<VatRate, { label: string; rate: number }> = {
+  standard: { label: 'Standard (20%)', rate: 0.2 },
+  reduced: { label: 'Reduced (5%)', rate: 0.05 },
+  zero: { label: 'Zero Rated (0%)', rate: 0 },
+  exempt: { label: 'Exempt', rate: 0 },
+  outside: { label: 'No VAT / Outside Scope', rate: 0 },
+};
+
+export type VatStagger = 1 | 2 | 3;
+
+/** Stagger 1 quarters end Mar/Jun/Sep/Dec, stagger 2 Apr/Jul/Oct/Jan, stagger 3 May/Aug/Nov/Feb. */
+export const VAT_STAGGER_LABELS: Record<VatStagger, string> = {
+  1: 'Mar / Jun / Sep / Dec',
+  2: 'Apr / Jul / Oct / Jan',
+  3: 'May / Aug / Nov / Feb',
+};
+
+export interface VatProfile {
+  registered: boolean;
+  vatNumber: string;
+  stagger: VatStagger;
+  /**
+   * Treat all input VAT as recoverable, e.g. for an agent whose own supplies
+   * (management fees) are standard rated. Otherwise only costs of opted-to-tax
+   * properties are recoverable.
+   */
+  recoverAllInputTax: boolean;
+}
+
+export const DEFAULT_VAT_PROFILE: VatProfile = { registered: false, vatNumber: '', stagger: 1, recoverAllInputTax: false };
+
+export interface VatAmounts {
+  gross: number;
+  net: number;
+  vat: number;
+  vatRate: VatRate;
+}
+
+export interface VatPeriod {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export type VatBox = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export const VAT_BOX_LABELS: Record<VatBox, string> = {
+  1: 'VAT due on sales and other outputs',
+  2: 'VAT due on acquisitions from EU member states (NI only)',
+  3: 'Total VAT due (Box 1 + Box 2)',
+  4: 'VAT reclaimed on purchases and other inputs',
+  5: 'Net VAT to pay to HMRC or reclaim (difference between Box 3 and Box 4)',
+  6: 'Total value of sales and other outputs, excluding VAT',
+  7: 'Total value of purchases and other inputs, excluding VAT',
+  8: 'Total value of supplies of goods to EU member states, excluding VAT (NI only)',
+  9: 'Total value of acquisitions of goods from EU member states, excluding VAT (NI only)',
+};
+
+export interface VatReturnLine {
+  date: Date;
+  kind: 'sale' | 'purchase';
+  propertyId: string;
+  description: string;
+  supplierVatNumber?: string;
+  vatRate: VatRate;
+  net: number;
+  vat: number;
+  gross: number;
+  recoverable: boolean;
+}
+
+export interface VatReturnSummary {
+  period: VatPeriod;
+  boxes: Record<VatBox, number>;
+  lines: VatReturnLine[];
+  /** Input VAT on costs of exempt lets, which cannot be reclaimed. */
+  irrecoverableVat: number;
+  exemptSales: number;
+  /** Box 5 is always positive; this says whether it is owed to the landlord. */
+  isRepayment: boolean;
+}
+
+export function resolveVatProfile(raw?: Partial<VatProfile> | null): VatProfile {
+  const stagger = Number(raw?.stagger);
+  return {
+    registered: !!raw?.registered,
+    vatNumber: (raw?.vatNumber || '').toUpperCase().replace(/\s/g, ''),
+    stagger: stagger === 2 || stagger === 3 ? stagger : 1,
+    recoverAllInputTax: !!raw?.recoverAllInputTax,
+  };
+}
+
+export function isVatRate(value: unknown): value is VatRate {
+  return typeof value === 'string' && value in VAT_RATES;
+}
+
+/** Splits a VAT-inclusive amount. VAT is rounded to the nearest penny and net takes the remainder. */
+export function splitGross(gross: number, vatRate: VatRate): VatAmounts {
+  const g = toPence(gross);
+  const rate = VAT_RATES[vatRate].rate;
+  const vat = Math.round((g * rate) / (1 + rate));
+  return { gross: fromPence(g), net: fromPence(g - vat), vat: fromPence(vat), vatRate };
+}
+
+/**
+ * VAT analysis of a stored expense. `amount` is always the gross figure. Records
+ * from before VAT fields existed fall back to any "VAT included" amount they carry.
+ */
+export function vatAmountsOf(expense: { amount?: number; vatRate?: string; vatAmount?: number; netAmount?: number; amountPence?: number; vatAmountPence?: number; netAmountPence?: number }): VatAmounts {
+  const gross = penceOf(expense, 'amount');
+  const vat = penceOf(expense, 'vatAmount');
+  const vatRate: VatRate = isVatRate(expense.vatRate) ? expense.vatRate : vat > 0 ? 'standard' : 'outside';
+  if (expense.vatAmount !== undefined && !isNaN(Number(expense.vatAmount))) {
+    const net = expense.netAmount !== undefined ? penceOf(expense, 'netAmount') : gross - vat;
+    return { gross: fromPence(gross), vat: fromPence(vat), net: fromPence(net), vatRate };
+  }
+  return splitGross(fromPence(gross), vatRate);
+}
+
+/** Normalises a UK VAT registration number to "GB123456789" form; returns '' when invalid. */
+export function normaliseVatNumber(value: string | undefined): string {
+  const digits = (value || '').toUpperCase().replace(/[\s-]/g, '').replace(/^GB/, '');
+  return /^\d{9}(\d{3})?$/.test(digits) ? `GB${digits}` : '';
+}
+
+/** The most recent `count` VAT quarters for a stagger that have started by `asOf`, newest first. */
+export function vatPeriods(stagger: VatStagger, asOf: Date = new Date(), count = 8): VatPeriod[] {
+  // First month of a quarter for stagger 1 is Jan/Apr/Jul/Oct; staggers 2 and 3 shift by one month
+  const offset = (asOf.getMonth() - (stagger - 1) + 12) % 3;
+  let start = startOfMonth(addMonths(asOf, -offset));
+  const periods: VatPeriod[] = [];
+  for (let i = 0; i < count; i++) {
+    const end = endOfMonth(addMonths(start, 2));
+    periods.push({ start, end, label: `${format(start, 'MMM yyyy')} - ${format(end, 'MMM yyyy')}` });
+    start = addMonths(start, -3);
+  }
+  return periods;
+}
+
+function within(date: Date | null, period: VatPeriod): date is Date {
+  return !!date && !isBefore(date, period.start) && !isBefore(period.end, date);
+}
+
+export function buildVatReturn(
+  period: VatPeriod,
+  records: { expenses: any[]; rentPayments: any[] },
+  properties: { id: string; vatOptedToTax?: boolean }[],
+  profile: VatProfile = DEFAULT_VAT_PROFILE
+): VatReturnSummary {
+  const optedToTax = new Set(properties.filter(p => p.vatOptedToTax).map(p => p.id));
+  const lines: VatReturnLine[] = [];
+
+  records.rentPayments.forEach(p => {
+    const date = toLedgerPayment(p, 1)?.paidDate ?? null;
+    if (!within(date, period)) return;
+    const taxable = optedToTax.has(p.propertyId);
+    const amounts = splitGross(poundsOf(p, 'amountPaid'), taxable ? 'standard' : 'exempt');
+    lines.push({
+      date,
+      kind: 'sale',
+      propertyId: p.propertyId,
+      description: `Rent${p.reference ? ` (${p.reference})` : ''}`,
+      ...amounts,
+      recoverable: false,
+    });
+  });
+
+  records.expenses.forEach(e => {
+    const date = safeToDate(e.date);
+    if (!within(date, period)) return;
+    const amounts = vatAmountsOf(e);
+    lines.push({
+      date,
+      kind: 'purchase',
+      propertyId: e.propertyId,
+      description: [e.expenseType, e.supplier].filter(Boolean).join(' - '),
+      supplierVatNumber: e.supplierVatNumber || undefined,
+      ...amounts,
+      recoverable: amounts.vat > 0 && (profile.recoverAllInputTax || optedToTax.has(e.propertyId)),
+    });
+  });
+
+  lines.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const sales = lines.filter(l => l.kind === 'sale');
+  const purchases = lines.filter(l => l.kind === 'purchase' && l.vatRate !== 'outside');
+  const sum = (items: VatReturnLine[], f: (l: VatReturnLine) => number) => sumMoney(items.map(f));
+
+  const box1 = sum(sales, l => l.vat);
+  const box4 = sum(purchases.filter(l => l.recoverable), l => l.vat);
+  const boxes: Record<VatBox, number> = {
+    1: box1,
+    2: 0,
+    3: box1,
+    4: box4,
+    5: roundMoney(Math.abs(box1 - box4)),
+    // Boxes 6 and 7 are reported in whole pounds
+    6: Math.floor(sum(sales, l => l.net)),
+    7: Math.floor(sum(purchases, l => l.net)),
+    8: 0,
+    9: 0,
+  };
+
+  return {
+    period,
+    boxes,
+    lines,
+    irrecoverableVat: sum(purchases.filter(l => !l.recoverable), l => l.vat),
+    exemptSales: sum(sales.filter(l => l.vatRate === 'exempt'), l => l.gross),
+    isRepayment: box4 > box1,
+  };
+}
+
+export function vatReturnToCsv(summary: VatReturnSummary, propertyNames: Record<string, string>): string {
+  const rows: (string | number)[][] = [
+    ['VAT Return', summary.period.label],
+    ['Box', 'Description', 'Value'],
+    ...(Object.keys(VAT_BOX_LABELS).map(Number) as VatBox[]).map(b => [`Box ${b}`, VAT_BOX_LABELS[b], summary.boxes[b].toFixed(2)]),
+    ['', 'Irrecoverable input VAT (exempt lets)', summary.irrecoverableVat.toFixed(2)],
+    [],
+    ['Date', 'Type', 'Property', 'Description', 'Supplier VAT No.', 'VAT Rate', 'Net', 'VAT', 'Gross', 'VAT Reclaimed'],
+    ...summary.lines.map(l => [
+      format(l.date, 'yyyy-MM-dd'),
+      l.kind === 'sale' ? 'Sale' : 'Purchase',
+      propertyNames[l.propertyId] || l.propertyId,
+      l.description,
+      l.supplierVatNumber || '',
+      VAT_RATES[l.vatRate].label,
+      l.net.toFixed(2),
+      l.vat.toFixed(2),
+      l.gross.toFixed(2),
+      l.kind === 'purchase' ? (l.recoverable ? 'Yes' : 'No') : '',
+    ]),
+  ];
+  return toCsv(rows);
+}